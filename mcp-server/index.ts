@@ -48,6 +48,7 @@ import { Facilitator, type PaymentRequirements, CronosNetwork } from '@crypto.co
 
 // Cronos Developer Platform SDK Tools
 import { registerCronosSDKTools } from './cronos-sdk.js';
+import { RpcProviderPool } from './rpc-pool.js';
 
 // RWA State Machine Tools
 import { registerRWATools } from './rwa-tools.js';
@@ -152,24 +153,32 @@ const config = {
     cronos: {
         mainnet: {
             rpc: 'https://evm.cronos.org',
+            rpcFallbacks: ['https://cronos-evm.publicnode.com'],
             chainId: 25,
             explorer: 'https://cronoscan.com',
             explorerApi: 'https://api.cronoscan.com/api'
         },
         testnet: {
             rpc: process.env.CRONOS_RPC_URL || 'https://evm-t3.cronos.org',
+            rpcFallbacks: [
+                ...(process.env.CRONOS_RPC_URLS || '').split(','),
+                'https://evm-t3.cronos.org',
+                'https://cronos-testnet.drpc.org'
+            ],
             chainId: 338,
             explorer: 'https://explorer.cronos.org/testnet',
             explorerApi: 'https://explorer-api.cronos.org/testnet/api'
         },
         'zkevm-mainnet': {
             rpc: 'https://mainnet.zkevm.cronos.org',
+            rpcFallbacks: [] as string[],
             chainId: 388,
             explorer: 'https://explorer.zkevm.cronos.org',
             explorerApi: 'https://explorer-api.zkevm.cronos.org/api/v1'
         },
         'zkevm-testnet': {
             rpc: 'https://testnet.zkevm.cronos.org',
+            rpcFallbacks: [] as string[],
             chainId: 240,
             explorer: 'https://explorer.zkevm.cronos.org/testnet',
             explorerApi: 'https://explorer-api.zkevm.cronos.org/testnet/api/v1'
@@ -231,12 +240,12 @@ function initializeFacilitator() {
 
 // Initialize wallet if private key is provided
 let wallet: ethers.Wallet | null = null;
-let provider: ethers.JsonRpcProvider | null = null;
+let provider: RpcProviderPool | null = null;
 
 function initializeWallet() {
     if (config.x402.walletPrivateKey) {
         try {
-            provider = new ethers.JsonRpcProvider(config.cronos.testnet.rpc);
+            provider = getRpcPool('testnet');
             wallet = new ethers.Wallet(config.x402.walletPrivateKey, provider);
             console.error(`[x402] Wallet initialized: ${wallet.address}`);
             // Also initialize the Facilitator
@@ -269,7 +278,7 @@ async function generatePaymentHeader(
     }
 
     try {
-        const usdc = new ethers.Contract(config.x402.usdcAddress, ERC20_ABI, provider!);
+        const usdc = new ethers.Contract(config.x402.usdcAddress, ERC20_ABI, provider!.quorum());
 
         // Check balance first
         const balance = await usdc.balanceOf(wallet.address);
@@ -321,9 +330,9 @@ async function getWalletStatus(): Promise<{
     }
 
     try {
-        const usdc = new ethers.Contract(config.x402.usdcAddress, ERC20_ABI, provider);
+        const usdc = new ethers.Contract(config.x402.usdcAddress, ERC20_ABI, provider.quorum());
         const [croBalance, usdcBalance] = await Promise.all([
-            provider.getBalance(wallet.address),
+            provider.quorum().getBalance(wallet.address),
             usdc.balanceOf(wallet.address)
         ]);
 
@@ -366,31 +375,42 @@ async function fetchJson(url: string, options?: RequestInit) {
     return response.json();
 }
 
-async function cronosRpc(
-    method: string,
-    params: unknown[] = [],
-    network: 'mainnet' | 'testnet' | 'zkevm-mainnet' | 'zkevm-testnet' = 'testnet'
-) {
+type CronosNetworkName = 'mainnet' | 'testnet' | 'zkevm-mainnet' | 'zkevm-testnet';
+
+const rpcPools = new Map<CronosNetworkName, RpcProviderPool>();
+
+/**
+ * Shared RPC pool per network (failover, retries, batching)
+ */
+function getRpcPool(network: CronosNetworkName): RpcProviderPool {
     const networkConfig = config.cronos[network];
     if (!networkConfig) {
         throw new Error(`Unknown network: ${network}`);
     }
-    const rpcUrl = networkConfig.rpc;
-    const response = await fetch(rpcUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-            jsonrpc: '2.0',
-            id: 1,
-            method,
-            params
-        })
-    });
-    const json = await response.json();
-    if (json.error) {
-        throw new Error(json.error.message || 'RPC error');
-    }
-    return json.result;
+    let pool = rpcPools.get(network);
+    if (!pool) {
+        pool = new RpcProviderPool({
+            urls: [networkConfig.rpc, ...networkConfig.rpcFallbacks],
+            chainId: networkConfig.chainId,
+            name: `cronos-${network}`,
+            logger: { warn: (message, meta) => console.error(`[rpc] ${message}`, meta) }
+        });
+        rpcPools.set(network, pool);
+    }
+    return pool;
+}
+
+/**
+ * Raw JSON-RPC call; critical reads (balances) require a quorum of endpoints to agree
+ */
+async function cronosRpc(
+    method: string,
+    params: unknown[] = [],
+    network: CronosNetworkName = 'testnet',
+    options: { quorum?: boolean } = {}
+) {
+    const pool = getRpcPool(network);
+    return (options.quorum ? pool.quorum() : pool).send(method, params);
 }
 
 function formatContent(data: unknown): { content: Array<{ type: "text"; text: string }> } {
@@ -1321,7 +1341,7 @@ server.tool(
     },
     async ({ address, network = "testnet" }) => {
         try {
-            const balanceHex = await cronosRpc("eth_getBalance", [address, "latest"], network);
+            const balanceHex = await cronosRpc("eth_getBalance", [address, "latest"], network, { quorum: true });
             const balanceWei = BigInt(balanceHex);
             const balanceCRO = Number(balanceWei) / 1e18;
 
@@ -1481,7 +1501,7 @@ server.tool(
             const result = await cronosRpc("eth_call", [
                 { to: tokenAddress, data },
                 "latest"
-            ], network);
+            ], network, { quorum: true });
 
             const balance = BigInt(result);
 
@@ -1620,6 +1640,43 @@ server.tool(
     }
 );
 
+/**
+ * Get historical prices from Relay Core: OHLCV candles or TWAP/VWAP
+ */
+server.tool(
+    "relay_price_history",
+    {
+        symbol: z.string().describe("Trading pair like 'BTC/USD'"),
+        mode: z.enum(["candles", "twap", "vwap"]).optional().describe("Candles, or a time/liquidity-weighted average (default: candles)"),
+        interval: z.enum(["1m", "5m", "1h", "1d"]).optional().describe("Candle interval (default: 1h)"),
+        from: z.string().optional().describe("Range start, ISO 8601 (default: last hour for averages)"),
+        to: z.string().optional().describe("Range end, ISO 8601 (default: now)"),
+        source: z.string().optional().describe("Price source name (default: consensus)"),
+        limit: z.number().optional().describe("Max candles (default: 500)")
+    },
+    async ({ symbol, mode = "candles", interval = "1h", from, to, source, limit }) => {
+        try {
+            const params = new URLSearchParams({ symbol });
+            if (mode === "candles") params.set('interval', interval);
+            if (from) params.set('from', from);
+            if (to) params.set('to', to);
+            if (source) params.set('source', source);
+            if (limit && mode === "candles") params.set('limit', limit.toString());
+
+            const response = await fetch(`${config.relayCoreApi}/api/perpai/prices/${mode}?${params}`);
+            const json = await response.json();
+
+            if (!response.ok) {
+                return errorContent(json.error || `Price history request failed (${response.status})`);
+            }
+
+            return formatContent(json);
+        } catch (err) {
+            return errorContent(err instanceof Error ? err.message : 'Failed to get price history');
+        }
+    }
+);
+
 /**
  * Discover services on Relay Core marketplace
  */
@@ -4651,6 +4708,7 @@ server.tool(
                     gwei: parseInt(gasPrice, 16) / 1e9
                 },
                 rpcUrl: networkConfig.rpc,
+                rpcEndpoints: getRpcPool(network).health(),
                 explorer: networkConfig.explorer
             });
         } catch (error) {
@@ -0,0 +1,370 @@
+/**
+ * RPC Provider Pool
+ *
+ * An ethers JsonRpcProvider backed by several RPC endpoints for one chain.
+ *
+ * - Health scoring: every endpoint tracks an EWMA success rate and latency;
+ *   requests go to the best-scoring endpoint that is not cooling down.
+ * - Failover and retries: transport errors, 5xx responses and timeouts move
+ *   the request to the next endpoint with exponential backoff. JSON-RPC
+ *   errors (reverts, bad params) are real answers and are not retried.
+ * - Rate limits: HTTP 429 and rate-limit JSON-RPC errors put the endpoint
+ *   in a cooldown, honouring Retry-After.
+ * - Batching: concurrent requests are sent as JSON-RPC batches (ethers'
+ *   batchMaxCount/batchStallTime); endpoints that reject batches get the
+ *   requests one by one.
+ * - Quorum reads: pool.quorum() returns a provider that asks several
+ *   endpoints and only answers when enough of them agree on eth_call and
+ *   balance/state reads (other methods go through the pool). Use it for
+ *   critical reads such as balances and session state.
+ *
+ * Copy of src/lib/blockchain/rpc-pool.ts (the MCP server is built on its
+ * own); keep the two in sync.
+ */
+
+import { ethers } from 'ethers';
+
+type JsonRpcPayload = ethers.JsonRpcPayload;
+type JsonRpcResponse = ethers.JsonRpcResult | ethers.JsonRpcError;
+// JsonRpcProvider types _send as results only, though error responses pass
+// through it and are turned into exceptions by the base class
+type SendResult = Promise<ethers.JsonRpcResult[]>;
+
+export interface RpcPoolOptions {
+    urls: string[];
+    chainId: number;
+    /** Network name reported by the provider */
+    name?: string;
+    /** Attempts per request across all endpoints (default: endpoints + 1, at least 3) */
+    maxAttempts?: number;
+    /** Per-request timeout in ms (default 10000) */
+    timeoutMs?: number;
+    /** Requests per JSON-RPC batch; 1 disables batching (default 10) */
+    batchMaxCount?: number;
+    /** Endpoints that must agree on a quorum read (default: 2, or 1 with a single endpoint) */
+    quorum?: number;
+    logger?: { warn: (message: string, meta?: Record<string, unknown>) => void };
+}
+
+export interface RpcEndpointHealth {
+    url: string;
+    score: number;
+    successRate: number;
+    latencyMs: number;
+    requests: number;
+    failures: number;
+    consecutiveFailures: number;
+    coolingDownUntil: string | null;
+    lastError: string | null;
+}
+
+export class RpcPoolError extends Error {
+    constructor(
+        message: string,
+        public code: 'ALL_ENDPOINTS_FAILED' | 'QUORUM_NOT_REACHED',
+        public errors: string[] = []
+    ) {
+        super(message);
+        this.name = 'RpcPoolError';
+    }
+}
+
+class EndpointError extends Error {
+    constructor(message: string, public rateLimited = false, public retryAfterMs?: number) {
+        super(message);
+        this.name = 'EndpointError';
+    }
+}
+
+const HEALTH_ALPHA = 0.2;
+const BASE_BACKOFF_MS = 100;
+const MAX_BACKOFF_MS = 2000;
+const BASE_COOLDOWN_MS = 1000;
+const RATE_LIMIT_COOLDOWN_MS = 5000;
+const MAX_COOLDOWN_MS = 60000;
+
+// Methods whose results are compared across endpoints by the quorum provider
+const QUORUM_METHODS = new Set(['eth_call', 'eth_getBalance', 'eth_getStorageAt', 'eth_getCode']);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function isRateLimitError(response: JsonRpcResponse): boolean {
+    if (!('error' in response)) return false;
+    return response.error.code === -32005 || /rate limit|too many requests/i.test(response.error.message || '');
+}
+
+// Canonical form of a response for quorum comparison
+function responseKey(response: JsonRpcResponse): string {
+    return 'error' in response
+        ? `error:${response.error.code}:${response.error.message || ''}`
+        : `result:${JSON.stringify(response.result)}`;
+}
+
+class RpcEndpoint {
+    successRate = 1;
+    latencyMs = 0;
+    requests = 0;
+    failures = 0;
+    consecutiveFailures = 0;
+    cooldownUntil = 0;
+    lastError: string | null = null;
+    supportsBatch = true;
+
+    constructor(readonly url: string, private timeoutMs: number) { }
+
+    get score(): number {
+        // Latency only breaks ties between similarly reliable endpoints
+        return this.successRate / (1 + this.latencyMs / 1000);
+    }
+
+    isCoolingDown(now = Date.now()): boolean {
+        return this.cooldownUntil > now;
+    }
+
+    async send(payloads: JsonRpcPayload[]): Promise<JsonRpcResponse[]> {
+        if (payloads.length > 1 && !this.supportsBatch) {
+            return (await Promise.all(payloads.map(p => this.post([p])))).flat();
+        }
+
+        const responses = await this.post(payloads);
+        if (responses.length === 0 && payloads.length > 1) {
+            // Batch rejected as a whole; fall back to single requests
+            this.supportsBatch = false;
+            return this.send(payloads);
+        }
+        return responses;
+    }
+
+    private async post(payloads: JsonRpcPayload[]): Promise<JsonRpcResponse[]> {
+        const request = new ethers.FetchRequest(this.url);
+        request.body = payloads.length === 1 ? payloads[0] : payloads;
+        request.setHeader('content-type', 'application/json');
+        request.timeout = this.timeoutMs;
+        // Throttling is handled by the pool, not per request
+        request.retryFunc = async () => false;
+
+        const started = Date.now();
+        let response: ethers.FetchResponse;
+        try {
+            response = await request.send();
+        } catch (error) {
+            throw new EndpointError((error as Error).message);
+        }
+
+        if (response.statusCode === 429) {
+            const retryAfter = parseInt(response.headers['retry-after'] || '', 10);
+            throw new EndpointError('HTTP 429', true, Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined);
+        }
+        if (response.statusCode < 200 || response.statusCode >= 300) {
+            // Endpoints without batch support tend to answer batches with a 4xx
+            if (payloads.length > 1 && response.statusCode < 500) return [];
+            throw new EndpointError(`HTTP ${response.statusCode} ${response.statusMessage}`);
+        }
+
+        let body: unknown;
+        try {
+            body = response.bodyJson;
+        } catch {
+            throw new EndpointError('Invalid JSON-RPC response');
+        }
+
+        const responses = (Array.isArray(body) ? body : [body]) as JsonRpcResponse[];
+        if (!Array.isArray(body) && payloads.length > 1) {
+            return [];
+        }
+        if (responses.some(isRateLimitError)) {
+            throw new EndpointError('Rate limited', true);
+        }
+
+        this.recordSuccess(Date.now() - started);
+        return responses;
+    }
+
+    recordSuccess(latencyMs: number): void {
+        this.requests++;
+        this.consecutiveFailures = 0;
+        this.successRate = this.successRate * (1 - HEALTH_ALPHA) + HEALTH_ALPHA;
+        this.latencyMs = this.requests === 1 ? latencyMs : this.latencyMs * (1 - HEALTH_ALPHA) + latencyMs * HEALTH_ALPHA;
+    }
+
+    recordFailure(error: EndpointError): void {
+        this.requests++;
+        this.failures++;
+        this.consecutiveFailures++;
+        this.successRate = this.successRate * (1 - HEALTH_ALPHA);
+        this.lastError = error.message;
+
+        const cooldown = error.retryAfterMs
+            ?? (error.rateLimited ? RATE_LIMIT_COOLDOWN_MS : BASE_COOLDOWN_MS) * 2 ** (this.consecutiveFailures - 1);
+        this.cooldownUntil = Date.now() + Math.min(cooldown, MAX_COOLDOWN_MS);
+    }
+
+    health(): RpcEndpointHealth {
+        return {
+            url: this.url,
+            score: Number(this.score.toFixed(4)),
+            successRate: Number(this.successRate.toFixed(4)),
+            latencyMs: Math.round(this.latencyMs),
+            requests: this.requests,
+            failures: this.failures,
+            consecutiveFailures: this.consecutiveFailures,
+            coolingDownUntil: this.isCoolingDown() ? new Date(this.cooldownUntil).toISOString() : null,
+            lastError: this.lastError
+        };
+    }
+}
+
+export class RpcProviderPool extends ethers.JsonRpcProvider {
+    readonly endpoints: RpcEndpoint[];
+    readonly quorumSize: number;
+    private maxAttempts: number;
+    private logger?: RpcPoolOptions['logger'];
+    private quorumProvider: QuorumProvider | null = null;
+
+    constructor(options: RpcPoolOptions) {
+        const urls = [...new Set(options.urls.filter(Boolean))];
+        if (urls.length === 0) {
+            throw new RpcPoolError('RPC pool needs at least one URL', 'ALL_ENDPOINTS_FAILED');
+        }
+
+        const network = new ethers.Network(options.name || `chain-${options.chainId}`, options.chainId);
+        super(urls[0], network, {
+            staticNetwork: network,
+            batchMaxCount: options.batchMaxCount ?? 10
+        });
+
+        this.endpoints = urls.map(url => new RpcEndpoint(url, options.timeoutMs ?? 10000));
+        this.maxAttempts = options.maxAttempts ?? Math.max(3, urls.length + 1);
+        this.quorumSize = Math.min(options.quorum ?? 2, urls.length);
+        this.logger = options.logger;
+    }
+
+    /**
+     * Endpoints ordered by preference: healthy ones by score, then those
+     * cooling down by how soon they recover.
+     */
+    rankedEndpoints(exclude: Set<RpcEndpoint> = new Set()): RpcEndpoint[] {
+        const now = Date.now();
+        const candidates = this.endpoints.filter(e => !exclude.has(e));
+        const ready = candidates.filter(e => !e.isCoolingDown(now)).sort((a, b) => b.score - a.score);
+        const cooling = candidates.filter(e => e.isCoolingDown(now)).sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+        return [...ready, ...cooling];
+    }
+
+    health(): RpcEndpointHealth[] {
+        return this.endpoints.map(e => e.health());
+    }
+
+    /**
+     * Provider whose reads are only answered when quorumSize endpoints agree.
+     */
+    quorum(): ethers.JsonRpcProvider {
+        if (!this.quorumProvider) {
+            this.quorumProvider = new QuorumProvider(this);
+        }
+        return this.quorumProvider;
+    }
+
+    async _send(payload: JsonRpcPayload | JsonRpcPayload[]): SendResult {
+        const payloads = Array.isArray(payload) ? payload : [payload];
+        const tried = new Set<RpcEndpoint>();
+        const errors: string[] = [];
+
+        for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+            // Prefer endpoints not tried yet; start over once all have been
+            if (tried.size === this.endpoints.length) tried.clear();
+            const endpoint = this.rankedEndpoints(tried)[0];
+            tried.add(endpoint);
+
+            if (endpoint.isCoolingDown()) {
+                await sleep(Math.min(endpoint.cooldownUntil - Date.now(), MAX_BACKOFF_MS));
+            }
+
+            try {
+                return await endpoint.send(payloads) as ethers.JsonRpcResult[];
+            } catch (error) {
+                const endpointError = error instanceof EndpointError ? error : new EndpointError((error as Error).message);
+                endpoint.recordFailure(endpointError);
+                errors.push(`${endpoint.url}: ${endpointError.message}`);
+                this.logger?.warn('RPC endpoint failed, failing over', {
+                    url: endpoint.url,
+                    attempt: attempt + 1,
+                    rateLimited: endpointError.rateLimited,
+                    error: endpointError.message
+                });
+
+                if (attempt + 1 < this.maxAttempts) {
+                    const backoff = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+                    await sleep(backoff / 2 + Math.random() * backoff / 2);
+                }
+            }
+        }
+
+        throw new RpcPoolError(`All RPC endpoints failed: ${errors.join('; ')}`, 'ALL_ENDPOINTS_FAILED', errors);
+    }
+}
+
+class QuorumProvider extends ethers.JsonRpcProvider {
+    constructor(private pool: RpcProviderPool) {
+        super(pool.endpoints[0].url, pool._network, {
+            staticNetwork: pool._network,
+            batchMaxCount: 1
+        });
+    }
+
+    async _send(payload: JsonRpcPayload | JsonRpcPayload[]): SendResult {
+        const payloads = Array.isArray(payload) ? payload : [payload];
+        if (!payloads.every(p => QUORUM_METHODS.has(p.method))) {
+            return this.pool._send(payloads);
+        }
+
+        const quorum = this.pool.quorumSize;
+        const votes = new Map<number, Map<string, { count: number; response: JsonRpcResponse }>>();
+        const errors: string[] = [];
+        let answered = 0;
+
+        // Ask quorum endpoints first and widen only when they disagree or fail
+        const endpoints = this.pool.rankedEndpoints();
+        let next = 0;
+        const decided = () => payloads.every(p =>
+            [...(votes.get(p.id)?.values() ?? [])].some(v => v.count >= quorum)
+        );
+
+        while (!decided() && next < endpoints.length) {
+            const needed = Math.max(1, quorum - answered);
+            const batch = endpoints.slice(next, next + needed);
+            next += batch.length;
+
+            await Promise.all(batch.map(async endpoint => {
+                try {
+                    const responses = await endpoint.send(payloads);
+                    answered++;
+                    for (const response of responses) {
+                        const byKey = votes.get(response.id) ?? new Map();
+                        const key = responseKey(response);
+                        const vote = byKey.get(key) ?? { count: 0, response };
+                        vote.count++;
+                        byKey.set(key, vote);
+                        votes.set(response.id, byKey);
+                    }
+                } catch (error) {
+                    const endpointError = error instanceof EndpointError ? error : new EndpointError((error as Error).message);
+                    endpoint.recordFailure(endpointError);
+                    errors.push(`${endpoint.url}: ${endpointError.message}`);
+                }
+            }));
+        }
+
+        return payloads.map(p => {
+            const winner = [...(votes.get(p.id)?.values() ?? [])].find(v => v.count >= quorum);
+            if (!winner) {
+                throw new RpcPoolError(
+                    `RPC quorum of ${quorum} not reached for ${p.method}`,
+                    'QUORUM_NOT_REACHED',
+                    errors
+                );
+            }
+            return winner.response;
+        }) as ethers.JsonRpcResult[];
+    }
+}
@@ -0,0 +1,128 @@
+/**
+ * Indexer Command - Indexer Operations
+ *
+ * Re-index historical block ranges on a RelayCore deployment (admin API key).
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { loadConfig } from './auth.js';
+
+export const indexerCommand = new Command('indexer');
+
+const BACKFILL_INDEXERS = ['escrow', 'agent', 'feedback', 'usdc', 'all'];
+const POLL_INTERVAL_MS = 2000;
+
+interface BackfillJob {
+    id: string;
+    status: 'running' | 'completed' | 'failed';
+    fromBlock: number;
+    toBlock: number;
+    error: string | null;
+    progress: Record<string, {
+        chunksTotal: number;
+        chunksDone: number;
+        indexed: number;
+        failed: number;
+        failedChunks: Array<{ fromBlock: number; toBlock: number; error: string }>;
+    }>;
+}
+
+function describeProgress(job: BackfillJob): string {
+    return Object.entries(job.progress)
+        .map(([name, p]) => `${name} ${p.chunksDone}/${p.chunksTotal}`)
+        .join(', ');
+}
+
+indexerCommand
+    .command('backfill')
+    .description('Re-index a block range without moving the live indexer cursors')
+    .requiredOption('--from <block>', 'First block to index')
+    .requiredOption('--to <block>', 'Last block to index')
+    .option('-i, --indexer <name>', `Indexer to backfill (${BACKFILL_INDEXERS.join(', ')})`, 'all')
+    .option('--chunk-size <blocks>', 'Blocks per chunk')
+    .option('--concurrency <n>', 'Chunks indexed in parallel per indexer')
+    .option('--detach', 'Start the backfill and exit without waiting')
+    .action(async (options) => {
+        console.log(chalk.bold.cyan('\n  Indexer Backfill\n'));
+
+        try {
+            const config = await loadConfig();
+
+            if (!BACKFILL_INDEXERS.includes(options.indexer)) {
+                throw new Error(`Unknown indexer "${options.indexer}" - use one of ${BACKFILL_INDEXERS.join(', ')}`);
+            }
+
+            const spinner = ora('Starting backfill...').start();
+
+            const response = await fetch(`${config.baseUrl}/api/observability/indexers/backfill`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-api-key': config.apiKey
+                },
+                body: JSON.stringify({
+                    fromBlock: parseInt(options.from, 10),
+                    toBlock: parseInt(options.to, 10),
+                    indexer: options.indexer,
+                    chunkSize: options.chunkSize ? parseInt(options.chunkSize, 10) : undefined,
+                    concurrency: options.concurrency ? parseInt(options.concurrency, 10) : undefined
+                })
+            });
+
+            if (!response.ok) {
+                const error = await response.json();
+                throw new Error(error.error || 'Failed to start backfill');
+            }
+
+            let { job } = await response.json() as { job: BackfillJob };
+
+            if (options.detach) {
+                spinner.succeed('Backfill started');
+                console.log(chalk.white(`\n  Job ID: ${job.id}`));
+                console.log(chalk.white(`  Blocks: ${job.fromBlock} - ${job.toBlock}\n`));
+                return;
+            }
+
+            while (job.status === 'running') {
+                spinner.text = `Backfilling blocks ${job.fromBlock}-${job.toBlock}: ${describeProgress(job)}`;
+                await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+
+                const poll = await fetch(`${config.baseUrl}/api/observability/indexers/backfill/${job.id}`, {
+                    headers: {
+                        'x-api-key': config.apiKey
+                    }
+                });
+
+                if (!poll.ok) {
+                    throw new Error('Failed to fetch backfill progress');
+                }
+
+                job = (await poll.json() as { job: BackfillJob }).job;
+            }
+
+            if (job.status === 'completed') {
+                spinner.succeed(`Backfill completed (blocks ${job.fromBlock}-${job.toBlock})`);
+            } else {
+                spinner.fail(`Backfill failed: ${job.error || 'unknown error'}`);
+            }
+
+            console.log('');
+            for (const [name, progress] of Object.entries(job.progress)) {
+                console.log(chalk.white(`  ${name}: ${progress.indexed} indexed, ${progress.failed} dead-lettered`));
+                for (const chunk of progress.failedChunks) {
+                    console.log(chalk.red(`    chunk ${chunk.fromBlock}-${chunk.toBlock}: ${chunk.error}`));
+                }
+            }
+            console.log('');
+
+            if (job.status !== 'completed') {
+                process.exit(1);
+            }
+
+        } catch (error: any) {
+            console.error(chalk.red('\nError: ' + (error.message || error)));
+            process.exit(1);
+        }
+    });
@@ -12,12 +12,75 @@ import { loadConfig } from './auth.js';
 
 export const routeCommand = new Command('route');
 
+const PRICING_MODELS = ['per-request', 'per-kb', 'per-token', 'tiered'];
+
+/**
+ * Parse tiers like "1000:0.01,10000:0.008,*:0.005" (calls up to N : price)
+ */
+function parseTiers(input: string) {
+    return input.split(',').map((tier) => {
+        const [upTo, priceUsdc] = tier.trim().split(':');
+        if (!upTo || !priceUsdc || isNaN(parseFloat(priceUsdc))) {
+            throw new Error(`Invalid tier "${tier}" - expected <calls>:<price> or *:<price>`);
+        }
+        return { upTo: upTo === '*' ? null : parseInt(upTo, 10), priceUsdc };
+    });
+}
+
+/**
+ * Build the API pricing definition from CLI options
+ */
+function buildPricing(model: string, options: {
+    price: string;
+    maxPrice?: string;
+    minPrice?: string;
+    tokenHeader?: string;
+    tokenPath?: string;
+    tiers?: string;
+}) {
+    switch (model) {
+        case 'per-request':
+            return { model: 'per_request', priceUsdc: options.price };
+        case 'per-kb':
+            if (!options.maxPrice) throw new Error('--max-price is required for per-kb pricing');
+            return {
+                model: 'per_kb',
+                pricePerKbUsdc: options.price,
+                maxPriceUsdc: options.maxPrice,
+                minPriceUsdc: options.minPrice
+            };
+        case 'per-token':
+            if (!options.maxPrice) throw new Error('--max-price is required for per-token pricing');
+            if (!options.tokenHeader && !options.tokenPath) {
+                throw new Error('--token-header or --token-path is required for per-token pricing');
+            }
+            return {
+                model: 'per_token',
+                pricePer1kTokensUsdc: options.price,
+                tokenSource: { header: options.tokenHeader, jsonPath: options.tokenPath },
+                maxPriceUsdc: options.maxPrice,
+                minPriceUsdc: options.minPrice
+            };
+        case 'tiered':
+            if (!options.tiers) throw new Error('--tiers is required for tiered pricing');
+            return { model: 'tiered', tiers: parseTiers(options.tiers) };
+        default:
+            throw new Error(`Unknown pricing model "${model}" - use one of ${PRICING_MODELS.join(', ')}`);
+    }
+}
+
 routeCommand
     .command('add')
     .description('Create a new x402-protected route')
     .option('-u, --url <url>', 'Upstream API URL to proxy')
     .option('-m, --method <method>', 'HTTP method (GET, POST, PUT, DELETE)', 'GET')
-    .option('-p, --price <price>', 'Price per call in USDC', '0.01')
+    .option('-p, --price <price>', 'Price in USDC: per call, per KB (per-kb) or per 1K tokens (per-token)', '0.01')
+    .option('--pricing <model>', `Pricing model (${PRICING_MODELS.join(', ')})`, 'per-request')
+    .option('--max-price <price>', 'Maximum charge per call in USDC (metered models)')
+    .option('--min-price <price>', 'Minimum charge per call in USDC (metered models)')
+    .option('--token-header <header>', 'Upstream response header with the token count (per-token)')
+    .option('--token-path <path>', 'JSON path to the token count in the response, e.g. usage.total_tokens (per-token)')
+    .option('--tiers <tiers>', 'Volume tiers as <calls>:<price>,...,*:<price> (tiered)')
     .option('-n, --name <name>', 'Display name for the route')
     .option('--pay-to <address>', 'Wallet address to receive payments')
     .action(async (options) => {
@@ -31,6 +94,7 @@ routeCommand
             let price = options.price;
             let name = options.name;
             let payTo = options.payTo;
+            let pricingModel = options.pricing;
 
             if (!url || !name) {
                 const answers = await inquirer.prompt([
@@ -63,13 +127,47 @@ routeCommand
                         when: !method || method === 'GET',
                         default: 'GET'
                     },
+                    {
+                        type: 'list',
+                        name: 'pricing',
+                        message: 'Pricing model:',
+                        choices: PRICING_MODELS,
+                        when: pricingModel === 'per-request',
+                        default: 'per-request'
+                    },
                     {
                         type: 'input',
                         name: 'price',
-                        message: 'Price per call (USDC):',
-                        when: !price || price === '0.01',
+                        message: (answers) => {
+                            const model = answers.pricing || pricingModel;
+                            if (model === 'per-kb') return 'Price per KB (USDC):';
+                            if (model === 'per-token') return 'Price per 1K tokens (USDC):';
+                            return 'Price per call (USDC):';
+                        },
+                        when: (answers) => (answers.pricing || pricingModel) !== 'tiered' && (!price || price === '0.01'),
                         default: '0.01',
                         validate: (input) => !isNaN(parseFloat(input)) || 'Please enter a valid number'
+                    },
+                    {
+                        type: 'input',
+                        name: 'maxPrice',
+                        message: 'Maximum charge per call (USDC):',
+                        when: (answers) => ['per-kb', 'per-token'].includes(answers.pricing || pricingModel) && !options.maxPrice,
+                        validate: (input) => !isNaN(parseFloat(input)) || 'Please enter a valid number'
+                    },
+                    {
+                        type: 'input',
+                        name: 'tokenPath',
+                        message: 'JSON path to the token count in the response:',
+                        when: (answers) => (answers.pricing || pricingModel) === 'per-token' && !options.tokenHeader && !options.tokenPath,
+                        default: 'usage.total_tokens'
+                    },
+                    {
+                        type: 'input',
+                        name: 'tiers',
+                        message: 'Volume tiers (<calls>:<price>,...,*:<price>):',
+                        when: (answers) => (answers.pricing || pricingModel) === 'tiered' && !options.tiers,
+                        default: '1000:0.01,*:0.005'
                     }
                 ]);
 
@@ -77,8 +175,14 @@ routeCommand
                 method = answers.method || method;
                 price = answers.price || price;
                 name = name || answers.name;
+                pricingModel = answers.pricing || pricingModel;
+                options.maxPrice = options.maxPrice || answers.maxPrice;
+                options.tokenPath = options.tokenPath || answers.tokenPath;
+                options.tiers = options.tiers || answers.tiers;
             }
 
+            const pricing = buildPricing(pricingModel, { ...options, price });
+
             const spinner = ora('Creating route...').start();
 
             const response = await fetch(`${config.baseUrl}/api/routes`, {
@@ -92,6 +196,7 @@ routeCommand
                     upstreamUrl: url,
                     method: method.toUpperCase(),
                     priceUsdc: price,
+                    pricing,
                     payTo: payTo
                 })
             });
@@ -109,7 +214,7 @@ routeCommand
             console.log(chalk.white(`  Route ID:    ${route.id}`));
             console.log(chalk.white(`  Name:        ${route.name}`));
             console.log(chalk.white(`  Method:      ${route.method}`));
-            console.log(chalk.white(`  Price:       $${route.priceUsdc} USDC`));
+            console.log(chalk.white(`  Pricing:     ${route.pricingSummary || `$${route.priceUsdc} / request`}`));
             console.log(chalk.cyan(`\n  Proxy URL:   ${route.proxyUrl}\n`));
             console.log(chalk.gray('  Requests to the proxy URL will require x402 payment.\n'));
 
@@ -153,7 +258,7 @@ routeCommand
                 console.log(chalk.cyan(`  ${route.name}`));
                 console.log(chalk.gray(`    ID:       ${route.id}`));
                 console.log(chalk.gray(`    Method:   ${route.method}`));
-                console.log(chalk.gray(`    Price:    $${route.priceUsdc} USDC`));
+                console.log(chalk.gray(`    Pricing:  ${route.pricingSummary || `$${route.priceUsdc} / request`}`));
                 console.log(chalk.gray(`    Proxy:    ${route.proxyUrl}`));
                 console.log(chalk.gray(`    Requests: ${route.requestCount || 0}`));
                 console.log(chalk.gray(`    Revenue:  $${route.revenue || '0.00'} USDC`));
@@ -7,6 +7,7 @@ import { authCommand } from './commands/auth.js';
 import { agentCommand } from './commands/agent.js';
 import { serviceCommand } from './commands/service.js';
 import { routeCommand } from './commands/route.js';
+import { indexerCommand } from './commands/indexer.js';
 import { devCommand } from './commands/dev.js';
 
 const program = new Command();
@@ -25,6 +26,7 @@ program.addCommand(authCommand);
 program.addCommand(agentCommand);
 program.addCommand(serviceCommand);
 program.addCommand(routeCommand);
+program.addCommand(indexerCommand);
 
 program
     .command('dev')
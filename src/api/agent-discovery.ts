@@ -13,6 +13,7 @@ import { Router } from 'express';
 import { supabase } from '../lib/supabase.js';
 import logger from '../lib/logger.js';
 import { ethers } from 'ethers';
+import { getProvider } from '../lib/blockchain/provider.js';
 
 const router = Router();
 
@@ -418,13 +419,10 @@ router.get('/onchain', async (req, res) => {
             });
         }
 
-        const rpcUrl = process.env.CRONOS_RPC_URL || 'https://evm-t3.cronos.org';
-        const provider = new ethers.JsonRpcProvider(rpcUrl);
-
         const registry = new ethers.Contract(registryAddress, [
             'function totalAgents() view returns (uint256)',
             'function getAgent(uint256) view returns (address owner, string memory agentURI, bool isActive)'
-        ], provider);
+        ], getProvider());
 
         const total = await registry.totalAgents();
         const agents: DiscoveredAgent[] = [];
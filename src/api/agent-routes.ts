@@ -13,6 +13,7 @@ import { agentRegistry } from '../services/agents/registry';
 import { supabase } from '../lib/supabase';
 import logger from '../lib/logger';
 import { ethers } from 'ethers';
+import { getProvider } from '../lib/blockchain/provider';
 
 const router = Router();
 
@@ -271,10 +272,7 @@ async function verifyPaymentOnChain(payment: {
     amount: string;
 }): Promise<boolean> {
     try {
-        const rpcUrl = process.env.CRONOS_RPC_URL || 'https://evm-t3.cronos.org';
-        const provider = new ethers.JsonRpcProvider(rpcUrl);
-
-        const receipt = await provider.getTransactionReceipt(payment.txHash);
+        const receipt = await getProvider().getTransactionReceipt(payment.txHash);
         if (!receipt || receipt.status !== 1) {
             return false;
         }
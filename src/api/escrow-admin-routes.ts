@@ -0,0 +1,298 @@
+/**
+ * Escrow Admin API
+ *
+ * Operator endpoints for the escrow agent's security state: global and
+ * per-session pause, limits, the agent blacklist and recently used
+ * execution IDs. Every route needs an API key with the `admin`
+ * permission; changes are written to escrow_audit_log with the key's user.
+ */
+
+import { Router, type Response } from 'express';
+import { ethers } from 'ethers';
+import logger from '../lib/logger.js';
+import { authenticateApiKey, requirePermission, type AuthenticatedRequest } from '../middleware/api-auth.js';
+import { getEscrowAgent, type EscrowAgentService } from '../services/escrow/escrow-agent.js';
+
+const router = Router();
+
+router.use(authenticateApiKey({ required: true }), requirePermission('admin'));
+
+function actorOf(req: AuthenticatedRequest): string | undefined {
+    return req.apiKey ? `${req.apiKey.userId}:${req.apiKey.id}` : undefined;
+}
+
+/**
+ * Resolve the escrow agent, answering 503 when it is not configured
+ */
+function escrowAgentOr503(res: Response): EscrowAgentService | null {
+    try {
+        return getEscrowAgent();
+    } catch (error) {
+        res.status(503).json({ error: 'Escrow agent not configured', message: (error as Error).message });
+        return null;
+    }
+}
+
+function parseSessionId(value: unknown): number | null {
+    const sessionId = Number(value);
+    return Number.isInteger(sessionId) && sessionId >= 0 ? sessionId : null;
+}
+
+function failed(res: Response, message: string, error: unknown) {
+    logger.error(message, error as Error);
+    res.status(500).json({ error: message, message: error instanceof Error ? error.message : 'Unknown error' });
+}
+
+/**
+ * GET /api/escrow/admin/security
+ * Global settings, blacklist size and nonce count
+ */
+router.get('/security', async (_req, res) => {
+    const escrow = escrowAgentOr503(res);
+    if (!escrow) return;
+
+    try {
+        const [config, stats] = await Promise.all([escrow.getSecurityConfig(), escrow.getStats()]);
+
+        res.json({
+            paused: config.paused,
+            maxPerCall: config.maxPerCall,
+            rateLimitPerMinute: config.rateLimitPerMinute,
+            stats
+        });
+    } catch (error) {
+        failed(res, 'Failed to get escrow security state', error);
+    }
+});
+
+/**
+ * POST /api/escrow/admin/pause
+ * Body: { reason? }
+ */
+router.post('/pause', async (req: AuthenticatedRequest, res) => {
+    const escrow = escrowAgentOr503(res);
+    if (!escrow) return;
+
+    try {
+        await escrow.pause(actorOf(req), req.body?.reason);
+        res.json({ paused: true });
+    } catch (error) {
+        failed(res, 'Failed to pause escrow agent', error);
+    }
+});
+
+/**
+ * POST /api/escrow/admin/unpause
+ */
+router.post('/unpause', async (req: AuthenticatedRequest, res) => {
+    const escrow = escrowAgentOr503(res);
+    if (!escrow) return;
+
+    try {
+        await escrow.unpause(actorOf(req));
+        res.json({ paused: false });
+    } catch (error) {
+        failed(res, 'Failed to resume escrow agent', error);
+    }
+});
+
+/**
+ * PUT /api/escrow/admin/limits
+ * Body: { maxPerCall?, rateLimitPerMinute? }
+ */
+router.put('/limits', async (req: AuthenticatedRequest, res) => {
+    const escrow = escrowAgentOr503(res);
+    if (!escrow) return;
+
+    const { maxPerCall, rateLimitPerMinute } = req.body || {};
+    if (maxPerCall === undefined && rateLimitPerMinute === undefined) {
+        return res.status(400).json({ error: 'Provide maxPerCall and/or rateLimitPerMinute' });
+    }
+    if (maxPerCall !== undefined && !(Number(maxPerCall) > 0)) {
+        return res.status(400).json({ error: 'maxPerCall must be a positive USDC amount' });
+    }
+    if (rateLimitPerMinute !== undefined && !(Number.isInteger(Number(rateLimitPerMinute)) && Number(rateLimitPerMinute) > 0)) {
+        return res.status(400).json({ error: 'rateLimitPerMinute must be a positive integer' });
+    }
+
+    try {
+        if (maxPerCall !== undefined) {
+            await escrow.setMaxPerCall(String(maxPerCall), actorOf(req));
+        }
+        if (rateLimitPerMinute !== undefined) {
+            await escrow.setRateLimit(Number(rateLimitPerMinute), actorOf(req));
+        }
+
+        const config = await escrow.getSecurityConfig();
+        res.json({ maxPerCall: config.maxPerCall, rateLimitPerMinute: config.rateLimitPerMinute });
+    } catch (error) {
+        failed(res, 'Failed to update escrow limits', error);
+    }
+});
+
+/**
+ * GET /api/escrow/admin/sessions/:sessionId
+ * Session overrides (pause, limits)
+ */
+router.get('/sessions/:sessionId', async (req, res) => {
+    const escrow = escrowAgentOr503(res);
+    if (!escrow) return;
+
+    const sessionId = parseSessionId(req.params.sessionId);
+    if (sessionId === null) {
+        return res.status(400).json({ error: 'Invalid session ID' });
+    }
+
+    try {
+        const security = await escrow.getSessionSecurity(sessionId);
+        res.json({ sessionId, security });
+    } catch (error) {
+        failed(res, 'Failed to get session security state', error);
+    }
+});
+
+/**
+ * POST /api/escrow/admin/sessions/:sessionId/pause
+ * Body: { reason? }
+ */
+router.post('/sessions/:sessionId/pause', async (req: AuthenticatedRequest, res) => {
+    const escrow = escrowAgentOr503(res);
+    if (!escrow) return;
+
+    const sessionId = parseSessionId(req.params.sessionId);
+    if (sessionId === null) {
+        return res.status(400).json({ error: 'Invalid session ID' });
+    }
+
+    try {
+        await escrow.pauseSession(sessionId, actorOf(req), req.body?.reason);
+        res.json({ sessionId, paused: true });
+    } catch (error) {
+        failed(res, 'Failed to pause session', error);
+    }
+});
+
+/**
+ * POST /api/escrow/admin/sessions/:sessionId/unpause
+ */
+router.post('/sessions/:sessionId/unpause', async (req: AuthenticatedRequest, res) => {
+    const escrow = escrowAgentOr503(res);
+    if (!escrow) return;
+
+    const sessionId = parseSessionId(req.params.sessionId);
+    if (sessionId === null) {
+        return res.status(400).json({ error: 'Invalid session ID' });
+    }
+
+    try {
+        await escrow.unpauseSession(sessionId, actorOf(req));
+        res.json({ sessionId, paused: false });
+    } catch (error) {
+        failed(res, 'Failed to resume session', error);
+    }
+});
+
+/**
+ * PUT /api/escrow/admin/sessions/:sessionId/limits
+ * Body: { maxPerCall, rateLimit }
+ */
+router.put('/sessions/:sessionId/limits', async (req: AuthenticatedRequest, res) => {
+    const escrow = escrowAgentOr503(res);
+    if (!escrow) return;
+
+    const sessionId = parseSessionId(req.params.sessionId);
+    const { maxPerCall, rateLimit } = req.body || {};
+    if (sessionId === null) {
+        return res.status(400).json({ error: 'Invalid session ID' });
+    }
+    if (!(Number(maxPerCall) > 0) || !(Number.isInteger(Number(rateLimit)) && Number(rateLimit) > 0)) {
+        return res.status(400).json({ error: 'maxPerCall (USDC) and rateLimit (calls per minute) must be positive' });
+    }
+
+    try {
+        await escrow.setSessionLimits(sessionId, String(maxPerCall), Number(rateLimit), actorOf(req));
+        res.json({ sessionId, security: await escrow.getSessionSecurity(sessionId) });
+    } catch (error) {
+        failed(res, 'Failed to update session limits', error);
+    }
+});
+
+/**
+ * GET /api/escrow/admin/blacklist
+ */
+router.get('/blacklist', async (_req, res) => {
+    const escrow = escrowAgentOr503(res);
+    if (!escrow) return;
+
+    try {
+        const agents = await escrow.listBlacklist();
+        res.json({ agents, count: agents.length });
+    } catch (error) {
+        failed(res, 'Failed to list blacklisted agents', error);
+    }
+});
+
+/**
+ * POST /api/escrow/admin/blacklist
+ * Body: { address, reason? }
+ */
+router.post('/blacklist', async (req: AuthenticatedRequest, res) => {
+    const escrow = escrowAgentOr503(res);
+    if (!escrow) return;
+
+    const { address, reason } = req.body || {};
+    if (typeof address !== 'string' || !ethers.isAddress(address)) {
+        return res.status(400).json({ error: 'address must be a valid address' });
+    }
+
+    try {
+        const entry = await escrow.blacklistAgent(address, actorOf(req), reason);
+        res.status(201).json({ agent: entry });
+    } catch (error) {
+        failed(res, 'Failed to blacklist agent', error);
+    }
+});
+
+/**
+ * DELETE /api/escrow/admin/blacklist/:address
+ */
+router.delete('/blacklist/:address', async (req: AuthenticatedRequest, res) => {
+    const escrow = escrowAgentOr503(res);
+    if (!escrow) return;
+
+    try {
+        const removed = await escrow.unblacklistAgent(req.params.address as string, actorOf(req));
+        if (!removed) {
+            return res.status(404).json({ error: 'Agent is not blacklisted' });
+        }
+        res.json({ removed: true });
+    } catch (error) {
+        failed(res, 'Failed to remove agent from blacklist', error);
+    }
+});
+
+/**
+ * GET /api/escrow/admin/nonces
+ * Recently used execution IDs. Query: sessionId, limit (max 500)
+ */
+router.get('/nonces', async (req, res) => {
+    const escrow = escrowAgentOr503(res);
+    if (!escrow) return;
+
+    const sessionId = req.query.sessionId !== undefined ? parseSessionId(req.query.sessionId) : undefined;
+    if (sessionId === null) {
+        return res.status(400).json({ error: 'Invalid session ID' });
+    }
+
+    try {
+        const nonces = await escrow.listRecentNonces({
+            sessionId,
+            limit: Math.min(parseInt(req.query.limit as string) || 100, 500)
+        });
+        res.json({ nonces, count: nonces.length });
+    } catch (error) {
+        failed(res, 'Failed to list execution nonces', error);
+    }
+});
+
+export default router;
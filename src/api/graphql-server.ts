@@ -1,12 +1,22 @@
 import 'dotenv/config';
+import { createServer, type IncomingMessage } from 'http';
 import { ApolloServer } from '@apollo/server';
-import { startStandaloneServer } from '@apollo/server/standalone';
+import { ApolloServerPluginDrainHttpServer } from '@apollo/server/plugin/drainHttpServer';
+import { expressMiddleware } from '@as-integrations/express5';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { WebSocketServer } from 'ws';
+import { useServer as attachGraphqlWs } from 'graphql-ws/use/ws';
+import { GraphQLError, parse, validate } from 'graphql';
 import express from 'express';
 import cors from 'cors';
 import typeDefs from './graphql/schema.ts';
 import resolvers from './graphql/resolvers.ts';
-import { supabase } from '../lib/supabase.ts';
 import { checkRateLimit, RateLimitError } from '../lib/rate-limiter.ts';
+import { validateApiKey } from '../middleware/api-auth.ts';
+import type { GraphQLContext } from './graphql/auth.ts';
+import { createLoaders } from './graphql/loaders.ts';
+import { admitOperation, queryCostPlugin, type CostPolicy } from './graphql/query-cost.ts';
+import { hashQuery, persistedQueries } from './graphql/persisted-queries.ts';
 import logger from '../lib/logger.ts';
 import { facilitatorService } from '../services/x402/facilitator-service.ts';
 
@@ -14,14 +24,145 @@ import { facilitatorService } from '../services/x402/facilitator-service.ts';
  * Main API Server for Relay Core
  * 
  * Includes:
- * - GraphQL API (Port 4000)
+ * - GraphQL API (Port 4000): queries and mutations over HTTP,
+ *   subscriptions over graphql-ws on the same /graphql path
  * - REST API for x402 (Port 4001) - Separate Express app to avoid Apollo import issues
  */
 
-const server = new ApolloServer({
-    typeDefs,
-    resolvers,
+const GRAPHQL_PATH = '/graphql';
+
+const costPolicy: CostPolicy = {
+    isPersisted: (queryHash) => persistedQueries.has(queryHash),
+    publicPersistedOnly: process.env.GRAPHQL_PUBLIC_PERSISTED_ONLY === 'true',
+};
+
+const schema = makeExecutableSchema({ typeDefs, resolvers });
+
+const graphqlApp = express();
+const httpServer = createServer(graphqlApp);
+
+const wsServer = new WebSocketServer({ server: httpServer, path: GRAPHQL_PATH });
+
+function clientIp(req: IncomingMessage): string {
+    return req.headers['x-forwarded-for'] as string ||
+        req.headers['x-real-ip'] as string ||
+        'unknown';
+}
+
+/**
+ * Rate limit and authenticate a request; shared by HTTP operations and
+ * WebSocket connections
+ */
+async function buildContext(ip: string, apiKey: unknown): Promise<GraphQLContext> {
+    // Rate limiting
+    try {
+        checkRateLimit(ip, { limit: 100, windowMs: 60000 });
+    } catch (error) {
+        if (error instanceof RateLimitError) {
+            logger.warn('Rate limit exceeded', { ip, retryAfter: error.retryAfter });
+            throw new Error(`Rate limit exceeded. Retry in ${error.retryAfter}s`);
+        }
+        throw error;
+    }
+
+    // Validate API key and load its permissions (resolvers enforce them)
+    const context: GraphQLContext = {
+        apiKey: typeof apiKey === 'string' ? apiKey : undefined,
+        authenticated: false,
+        userId: null,
+        permissions: null,
+        tier: null,
+        ip,
+        loaders: createLoaders(),
+    };
+
+    if (context.apiKey) {
+        try {
+            const result = await validateApiKey(context.apiKey);
+
+            if (result.valid) {
+                context.authenticated = true;
+                context.userId = result.userId ?? null;
+                context.permissions = result.permissions ?? null;
+                context.tier = result.tier ?? null;
+                logger.debug('API key authenticated', { ip });
+            }
+        } catch (error) {
+            logger.error('API key validation error', error as Error, { ip });
+        }
+    }
+
+    return context;
+}
+
+/**
+ * API key from `x-api-key` or `Authorization: Bearer`, as in api-auth.ts
+ */
+function headerApiKey(req: IncomingMessage): string | undefined {
+    const authHeader = req.headers.authorization;
+    if (authHeader?.startsWith('Bearer ')) return authHeader.slice(7);
+    return req.headers['x-api-key'] as string | undefined;
+}
+
+// WebSocket clients pass the API key in connection params. Operations are
+// parsed here rather than by graphql-ws so they pass the same cost checks
+// as HTTP ones.
+const wsCleanup = attachGraphqlWs({
+    schema,
+    onSubscribe: async (ctx, _id, payload) => {
+        const query = persistedQueries.resolve(payload.query, payload.extensions) ?? payload.query;
+
+        let document;
+        try {
+            document = parse(query);
+        } catch (error) {
+            return [error as GraphQLError];
+        }
+
+        const validationErrors = validate(schema, document);
+        if (validationErrors.length > 0) return [...validationErrors];
+
+        const contextValue = await buildContext(clientIp(ctx.extra.request), ctx.connectionParams?.apiKey);
+        try {
+            admitOperation(costPolicy, {
+                schema,
+                document,
+                variables: payload.variables ?? undefined,
+                operationName: payload.operationName,
+                queryHash: hashQuery(query),
+                context: contextValue,
+            });
+        } catch (error) {
+            if (error instanceof GraphQLError) return [error];
+            throw error;
+        }
+
+        return {
+            schema,
+            document,
+            operationName: payload.operationName,
+            variableValues: payload.variables,
+            contextValue,
+        };
+    },
+}, wsServer);
+
+const server = new ApolloServer<GraphQLContext>({
+    schema,
     introspection: true,
+    plugins: [
+        ApolloServerPluginDrainHttpServer({ httpServer }),
+        queryCostPlugin(costPolicy),
+        {
+            async serverWillStart() {
+                return {
+                    async drainServer() {
+                        await wsCleanup.dispose();
+                    },
+                };
+            },
+        },
+    ],
     formatError: (error) => {
         logger.error('GraphQL Error', new Error(error.message), {
             code: error.extensions?.code,
@@ -36,53 +177,22 @@ const server = new ApolloServer({
 });
 
 async function startServers() {
-    // 1. Start GraphQL Server (Standalone)
-    const { url } = await startStandaloneServer(server, {
-        listen: { port: 4000 },
-        context: async ({ req }) => {
-            const ip = req.headers['x-forwarded-for'] as string ||
-                req.headers['x-real-ip'] as string ||
-                'unknown';
-
-            // Rate limiting
-            try {
-                checkRateLimit(ip, { limit: 100, windowMs: 60000 });
-            } catch (error) {
-                if (error instanceof RateLimitError) {
-                    logger.warn('Rate limit exceeded', { ip, retryAfter: error.retryAfter });
-                    throw new Error(`Rate limit exceeded. Retry in ${error.retryAfter}s`);
-                }
-                throw error;
-            }
+    // 1. Start GraphQL Server (HTTP + WebSocket subscriptions)
+    await server.start();
 
-            // Extract API key from headers
-            const apiKey = req.headers['x-api-key'];
-
-            // Validate API key against database
-            let authenticated = false;
-            if (apiKey) {
-                try {
-                    const { data, error } = await supabase
-                        .rpc('validate_api_key', { api_key: apiKey });
-
-                    if (!error && data === true) {
-                        authenticated = true;
-                        logger.debug('API key authenticated', { ip });
-                    }
-                } catch (error) {
-                    logger.error('API key validation error', error as Error, { ip });
-                }
-            }
+    graphqlApp.use(
+        GRAPHQL_PATH,
+        cors(),
+        express.json(),
+        persistedQueries.middleware(),
+        expressMiddleware(server, {
+            context: async ({ req }) => buildContext(clientIp(req), headerApiKey(req)),
+        })
+    );
 
-            return {
-                apiKey,
-                authenticated,
-                ip,
-            };
-        },
-    });
+    await new Promise<void>(resolve => httpServer.listen(4000, resolve));
 
-    console.log(`GraphQL Server ready at: ${url}`);
+    console.log('GraphQL Server ready at: http://localhost:4000/graphql (subscriptions: ws://localhost:4000/graphql)');
 
     // 2. Start REST API Server (Express)
     const app = express();
@@ -121,6 +231,10 @@ async function startServers() {
     const sessionRoutes = await import('./session-routes.js');
     app.use('/api/sessions', sessionRoutes.default);
 
+    // Escrow Admin Routes (pause, limits, blacklist, nonces)
+    const escrowAdminRoutes = await import('./escrow-admin-routes.js');
+    app.use('/api/escrow/admin', escrowAdminRoutes.default);
+
     // A2A Discovery Routes (/.well-known/agent-card.json)
     const wellKnownRoutes = await import('./well-known-routes.js');
     app.use('/.well-known', wellKnownRoutes.default);
@@ -299,6 +413,17 @@ async function startServers() {
         // Don't exit - indexers are optional for development
     }
 
+    // Position monitor (SL/TP/trailing stops, liquidation alerts)
+    if (process.env.POSITION_MONITOR_ENABLED !== 'false') {
+        try {
+            const { positionMonitor } = await import('../services/perpai/position-monitor.js');
+            positionMonitor.start();
+            console.log('Position monitor started');
+        } catch (error) {
+            logger.warn('Failed to start position monitor (non-blocking)', error as Error);
+        }
+    }
+
     // 4. Register AI Agents as Services
     try {
         const { registerAgentsAsServices } = await import('../services/agents/register-agents-as-services.ts');
@@ -0,0 +1,53 @@
+import { GraphQLError } from 'graphql';
+import type { ApiKeyPermissions, ApiKeyTier, PermissionKey } from '../../middleware/api-auth.js';
+import type { GraphQLLoaders } from './loaders.js';
+
+/**
+ * Request context built by graphql-server.ts for HTTP operations and
+ * WebSocket connections alike
+ */
+export interface GraphQLContext {
+    apiKey?: string;
+    authenticated: boolean;
+    /** Wallet address the API key belongs to */
+    userId: string | null;
+    permissions: ApiKeyPermissions | null;
+    /** Query budget plan of the API key; null without one */
+    tier: ApiKeyTier | null;
+    ip: string;
+    /** Batching loaders, fresh per operation */
+    loaders: GraphQLLoaders;
+}
+
+/**
+ * Throw unless the request's API key carries `permission`.
+ * Admin keys pass every check.
+ */
+export function requirePermission(context: GraphQLContext, permission: PermissionKey): string {
+    if (!context.authenticated || !context.userId || !context.permissions) {
+        throw new GraphQLError('API key required', {
+            extensions: { code: 'UNAUTHENTICATED' },
+        });
+    }
+
+    if (!context.permissions[permission] && !context.permissions.admin) {
+        throw new GraphQLError(`Permission denied: ${permission}`, {
+            extensions: { code: 'FORBIDDEN', permission },
+        });
+    }
+
+    return context.userId;
+}
+
+/**
+ * Throw unless the API key belongs to `ownerAddress` (or is an admin key)
+ */
+export function requireOwner(context: GraphQLContext, ownerAddress: string | null | undefined): void {
+    if (context.permissions?.admin) return;
+
+    if (!ownerAddress || context.userId?.toLowerCase() !== ownerAddress.toLowerCase()) {
+        throw new GraphQLError('Only the owner can do this', {
+            extensions: { code: 'FORBIDDEN' },
+        });
+    }
+}
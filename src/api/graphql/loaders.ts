@@ -0,0 +1,81 @@
+import DataLoader from 'dataloader';
+import { supabase } from '../../lib/supabase.js';
+
+/**
+ * Per-request DataLoaders
+ *
+ * Nested fields (the agent on every session payment, the venue on every
+ * trade, a reputation per service) would otherwise cost one query per
+ * parent row. A loader collects the keys requested while a level of the
+ * query resolves and fetches them with a single `in` query.
+ *
+ * graphql-server.ts creates a fresh set per operation, so cached rows never
+ * outlive a request or cross API keys. Loaders return raw rows; resolvers
+ * format them.
+ */
+
+type Row = Record<string, any>;
+
+// Columns the venue reputation is computed from
+const VENUE_TRADE_COLUMNS = 'venue_id, status, created_at, closed_at, entry_price, exit_price, size_usd';
+
+/**
+ * One row per key, null where the table has none
+ */
+function rowLoader(table: string, column: string) {
+    return new DataLoader<string, Row | null>(async (keys) => {
+        const { data, error } = await supabase
+            .from(table)
+            .select('*')
+            .in(column, [...keys]);
+
+        if (error) throw new Error(error.message);
+
+        const byKey = new Map((data || []).map(row => [String(row[column]), row]));
+        return keys.map(key => byKey.get(key) ?? null);
+    });
+}
+
+/**
+ * Every row per key, in `orderColumn` order
+ */
+function rowGroupLoader(table: string, column: string, select = '*', orderColumn?: string) {
+    return new DataLoader<string, Row[]>(async (keys) => {
+        let query = supabase
+            .from(table)
+            .select(select)
+            .in(column, [...keys]);
+
+        if (orderColumn) query = query.order(orderColumn, { ascending: true });
+
+        const { data, error } = await query;
+        if (error) throw new Error(error.message);
+
+        const byKey = new Map<string, Row[]>(keys.map(key => [key, []]));
+        for (const row of (data || []) as unknown as Row[]) {
+            byKey.get(String(row[column]))?.push(row);
+        }
+        return keys.map(key => byKey.get(key)!);
+    });
+}
+
+export function createLoaders() {
+    return {
+        /** agent_reputation rows by agent address */
+        agents: rowLoader('agent_reputation', 'agent_address'),
+        /** services rows by id */
+        services: rowLoader('services', 'id'),
+        /** reputations rows by service id */
+        serviceReputations: rowLoader('reputations', 'service_id'),
+        /** payments rows by x402 payment id */
+        payments: rowLoader('payments', 'payment_id'),
+        /** outcomes rows by payment id, oldest first */
+        outcomes: rowGroupLoader('outcomes', 'payment_id', '*', 'created_at'),
+        /** dex_venues rows by id */
+        venues: rowLoader('dex_venues', 'id'),
+        /** Trades of each venue, reduced to the reputation columns */
+        venueTrades: rowGroupLoader('trades', 'venue_id', VENUE_TRADE_COLUMNS),
+    };
+}
+
+export type GraphQLLoaders = ReturnType<typeof createLoaders>;
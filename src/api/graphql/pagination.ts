@@ -0,0 +1,208 @@
+import { supabase } from '../../lib/supabase.js';
+
+/**
+ * Relay-style connections over Supabase tables
+ *
+ * Pages are keyset-based: a cursor holds the sort value and id of a row, and
+ * the next page starts strictly after it. Unlike offsets, rows inserted
+ * while a client pages through a history don't shift or repeat entries.
+ * Sort columns must be NOT NULL; the id column breaks ties.
+ */
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+export type OrderDirection = 'ASC' | 'DESC';
+
+export interface ConnectionArgs {
+    first?: number | null;
+    after?: string | null;
+    last?: number | null;
+    before?: string | null;
+}
+
+/**
+ * Arguments of the connection-returning list queries
+ */
+export interface ListArgs extends ConnectionArgs {
+    filter?: Record<string, any> | null;
+    orderBy: { field: string; direction: OrderDirection };
+}
+
+export interface ConnectionSpec<T> {
+    table: string;
+    select: string;
+    /** Unique column that breaks ties between equal sort values */
+    idColumn: string;
+    sortColumn: string;
+    direction: OrderDirection;
+    /** Applies the caller's filters to both the page and the count query */
+    filter: (query: any) => any;
+    format: (row: any) => T | Promise<T>;
+}
+
+export interface Connection<T> {
+    edges: Array<{ cursor: string; node: T }>;
+    pageInfo: {
+        hasNextPage: boolean;
+        hasPreviousPage: boolean;
+        startCursor: string | null;
+        endCursor: string | null;
+    };
+    /** Resolved only when the client selects it */
+    totalCount: () => Promise<number>;
+}
+
+interface CursorPayload {
+    /** Sort column the cursor was issued for */
+    k: string;
+    v: unknown;
+    id: unknown;
+}
+
+export function encodeCursor(sortColumn: string, value: unknown, id: unknown): string {
+    return Buffer.from(JSON.stringify({ k: sortColumn, v: value, id } satisfies CursorPayload)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, sortColumn: string): { value: unknown; id: unknown } {
+    let payload: CursorPayload;
+    try {
+        payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new Error('Invalid cursor');
+    }
+
+    if (!payload || typeof payload !== 'object' || !('v' in payload) || !('id' in payload)) {
+        throw new Error('Invalid cursor');
+    }
+    if (payload.k !== sortColumn) {
+        throw new Error('Cursor was issued for a different orderBy');
+    }
+    return { value: payload.v, id: payload.id };
+}
+
+// PostgREST logic-tree values: quote so commas, dots and parens in timestamps survive
+function quote(value: unknown): string {
+    return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * PostgREST `or` filter selecting rows strictly past a cursor in scan order
+ */
+export function keysetFilter(
+    sortColumn: string,
+    idColumn: string,
+    ascending: boolean,
+    cursor: { value: unknown; id: unknown }
+): string {
+    const op = ascending ? 'gt' : 'lt';
+    const value = quote(cursor.value);
+    return `${sortColumn}.${op}.${value},and(${sortColumn}.eq.${value},${idColumn}.${op}.${quote(cursor.id)})`;
+}
+
+/**
+ * Clamp first/last to a page size; only one of them may be set
+ */
+export function pageSize(args: ConnectionArgs): { size: number; backward: boolean } {
+    if (args.first != null && args.last != null) {
+        throw new Error('Pass either first or last, not both');
+    }
+
+    const backward = args.last != null || (args.before != null && args.first == null);
+    const requested = (backward ? args.last : args.first) ?? DEFAULT_PAGE_SIZE;
+    if (requested < 0) throw new Error('first and last must not be negative');
+
+    return { size: Math.min(requested, MAX_PAGE_SIZE), backward };
+}
+
+/**
+ * Fetch one page of a connection. Backward pages (last/before) scan in
+ * reverse and are flipped back, so edges are always in the requested order.
+ */
+export async function paginate<T>(spec: ConnectionSpec<T>, args: ConnectionArgs): Promise<Connection<T>> {
+    const { size, backward } = pageSize(args);
+    const cursor = backward ? args.before : args.after;
+
+    // Scan order: the requested order, reversed for backward pages
+    const ascending = (spec.direction === 'ASC') !== backward;
+
+    let query = spec.filter(supabase.from(spec.table).select(spec.select));
+    if (cursor) {
+        query = query.or(keysetFilter(spec.sortColumn, spec.idColumn, ascending, decodeCursor(cursor, spec.sortColumn)));
+    }
+
+    const { data, error } = await query
+        .order(spec.sortColumn, { ascending })
+        .order(spec.idColumn, { ascending })
+        .limit(size + 1);
+
+    if (error) throw new Error(error.message);
+
+    const rows: any[] = data || [];
+    const hasMore = rows.length > size;
+    const page = rows.slice(0, size);
+    if (backward) page.reverse();
+
+    const edges = await Promise.all(page.map(async row => ({
+        cursor: encodeCursor(spec.sortColumn, row[spec.sortColumn], row[spec.idColumn]),
+        node: await spec.format(row),
+    })));
+
+    return {
+        edges,
+        pageInfo: {
+            // Rows past the opposite cursor exist by definition
+            hasNextPage: backward ? Boolean(args.before) : hasMore,
+            hasPreviousPage: backward ? hasMore : Boolean(args.after),
+            startCursor: edges[0]?.cursor ?? null,
+            endCursor: edges[edges.length - 1]?.cursor ?? null,
+        },
+        totalCount: async () => {
+            const { count, error: countError } = await spec.filter(
+                supabase.from(spec.table).select(spec.select, { count: 'exact', head: true })
+            );
+            if (countError) throw new Error(countError.message);
+            return count ?? 0;
+        },
+    };
+}
+
+/**
+ * Apply a { min, max } range filter
+ */
+export function applyRange(query: any, column: string, range?: { min?: unknown; max?: unknown } | null): any {
+    if (!range) return query;
+    if (range.min != null) query = query.gte(column, range.min);
+    if (range.max != null) query = query.lte(column, range.max);
+    return query;
+}
+
+/**
+ * Column for an orderBy enum value
+ */
+export function sortColumn(columns: Record<string, string>, orderBy: ListArgs['orderBy']): string {
+    const column = columns[orderBy.field];
+    if (!column) throw new Error(`Cannot order by ${orderBy.field}`);
+    return column;
+}
+
+// DateTime arguments arrive as ISO strings or epoch milliseconds
+export function parseTime(value?: string | number): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    const time = typeof value === 'number' ? value : Date.parse(value);
+    if (!Number.isFinite(time)) throw new Error(`Invalid DateTime: ${value}`);
+    return time;
+}
+
+/**
+ * Apply a DateTimeRange { from, to } filter
+ */
+export function applyTimeRange(query: any, column: string, range?: { from?: string | number; to?: string | number } | null): any {
+    if (!range) return query;
+    const from = parseTime(range.from);
+    const to = parseTime(range.to);
+    return applyRange(query, column, {
+        min: from === undefined ? undefined : new Date(from).toISOString(),
+        max: to === undefined ? undefined : new Date(to).toISOString(),
+    });
+}
@@ -0,0 +1,96 @@
+import { readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import logger from '../../lib/logger.js';
+
+/**
+ * Persisted queries
+ *
+ * The manifest at GRAPHQL_PERSISTED_QUERIES lists the operations first-party
+ * clients run, as a JSON object of sha256 hash -> query text (or an array of
+ * query texts, hashed on load). Clients send just the hash in the APQ
+ * extension:
+ *
+ *   { "extensions": { "persistedQuery": { "version": 1, "sha256Hash": "<hash>" } } }
+ *
+ * Manifest operations skip cost limits (see query-cost.ts). Hashes outside
+ * the manifest still go through Apollo's automatic persisted queries, which
+ * caches query text but grants nothing.
+ */
+
+export function hashQuery(query: string): string {
+    return createHash('sha256').update(query).digest('hex');
+}
+
+interface PersistedQueryExtension {
+    persistedQuery?: { sha256Hash?: unknown };
+}
+
+export class PersistedQueryRegistry {
+    private readonly queries = new Map<string, string>();
+
+    constructor(queries: Iterable<string> = []) {
+        for (const query of queries) {
+            this.queries.set(hashQuery(query), query);
+        }
+    }
+
+    /**
+     * Load a manifest; a hash that doesn't match its query is a broken
+     * manifest, not something to serve
+     */
+    static fromFile(path: string | undefined): PersistedQueryRegistry {
+        if (!path) return new PersistedQueryRegistry();
+
+        const manifest: unknown = JSON.parse(readFileSync(path, 'utf8'));
+        const entries: Array<[string, unknown]> = Array.isArray(manifest)
+            ? manifest.map(query => [typeof query === 'string' ? hashQuery(query) : '', query])
+            : Object.entries(manifest as Record<string, unknown>);
+
+        for (const [hash, query] of entries) {
+            if (typeof query !== 'string' || hashQuery(query) !== hash.toLowerCase()) {
+                throw new Error(`Persisted query manifest ${path}: entry ${hash || '(not a string)'} doesn't match its query`);
+            }
+        }
+
+        const registry = new PersistedQueryRegistry(entries.map(([, query]) => query as string));
+        logger.info('Persisted queries loaded', { path, count: registry.size });
+        return registry;
+    }
+
+    get size(): number {
+        return this.queries.size;
+    }
+
+    has(hash: string): boolean {
+        return this.queries.has(hash);
+    }
+
+    get(hash: string): string | undefined {
+        return this.queries.get(hash);
+    }
+
+    /**
+     * Query text for a request carrying only a persisted query hash
+     */
+    resolve(query: unknown, extensions: unknown): string | undefined {
+        if (typeof query === 'string' && query) return undefined;
+
+        const hash = (extensions as PersistedQueryExtension | undefined)?.persistedQuery?.sha256Hash;
+        return typeof hash === 'string' ? this.get(hash) : undefined;
+    }
+
+    /**
+     * Express middleware filling in manifest query text ahead of Apollo, so
+     * hash-only requests never miss the APQ cache
+     */
+    middleware() {
+        return (req: Request, _res: Response, next: NextFunction) => {
+            const query = this.resolve(req.body?.query, req.body?.extensions);
+            if (query) req.body.query = query;
+            next();
+        };
+    }
+}
+
+export const persistedQueries = PersistedQueryRegistry.fromFile(process.env.GRAPHQL_PERSISTED_QUERIES);
@@ -0,0 +1,232 @@
+import {
+    GraphQLError,
+    Kind,
+    getNamedType,
+    getNullableType,
+    isListType,
+    type DocumentNode,
+    type FragmentDefinitionNode,
+    type GraphQLSchema,
+    type SelectionSetNode
+} from 'graphql';
+import { getComplexity, simpleEstimator, type ComplexityEstimatorArgs } from 'graphql-query-complexity';
+import type { ApolloServerPlugin } from '@apollo/server';
+import type { ApiKeyTier } from '../../middleware/api-auth.js';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './pagination.js';
+import type { GraphQLContext } from './auth.js';
+
+/**
+ * Query cost limits
+ *
+ * Every operation is measured before it executes: depth is the deepest
+ * selection, complexity counts one per field with list fields multiplied by
+ * the rows they can return (`first`/`last`/`limit`, else an estimate).
+ * Operations over the budget of the caller's tier are rejected with
+ * QUERY_TOO_COMPLEX; requests without an API key get the smallest budget.
+ *
+ * Operations from the persisted query manifest (persisted-queries.ts) were
+ * reviewed when they were added and skip the check; with
+ * GRAPHQL_PUBLIC_PERSISTED_ONLY=true they're the only operations requests
+ * without an API key may run.
+ */
+
+export type QueryTier = 'public' | ApiKeyTier;
+
+export interface QueryBudget {
+    maxDepth: number;
+    maxComplexity: number;
+}
+
+export const QUERY_BUDGETS: Record<QueryTier, QueryBudget> = {
+    public: { maxDepth: 8, maxComplexity: 1_000 },
+    free: { maxDepth: 10, maxComplexity: 5_000 },
+    pro: { maxDepth: 12, maxComplexity: 25_000 },
+    enterprise: { maxDepth: 15, maxComplexity: 100_000 },
+};
+
+// Rows assumed for list fields without a size argument
+const LIST_SIZE_ESTIMATE = 10;
+
+export interface QueryCost {
+    depth: number;
+    complexity: number;
+}
+
+/**
+ * Admin keys get the enterprise budget whatever their tier
+ */
+export function queryTier(context: Pick<GraphQLContext, 'authenticated' | 'permissions' | 'tier'>): QueryTier {
+    if (!context.authenticated) return 'public';
+    if (context.permissions?.admin) return 'enterprise';
+    return context.tier ?? 'free';
+}
+
+function isIntrospection(name: string): boolean {
+    return name.startsWith('__');
+}
+
+/**
+ * Deepest field selection of the operation; introspection doesn't count
+ */
+export function queryDepth(document: DocumentNode, operationName?: string | null): number {
+    const fragments = new Map<string, FragmentDefinitionNode>();
+    for (const definition of document.definitions) {
+        if (definition.kind === Kind.FRAGMENT_DEFINITION) fragments.set(definition.name.value, definition);
+    }
+
+    const operation = document.definitions.find(definition =>
+        definition.kind === Kind.OPERATION_DEFINITION &&
+        (!operationName || definition.name?.value === operationName)
+    );
+    if (!operation || operation.kind !== Kind.OPERATION_DEFINITION) return 0;
+
+    const depthOf = (selectionSet: SelectionSetNode, visited: Set<string>): number => {
+        let max = 0;
+        for (const selection of selectionSet.selections) {
+            if (selection.kind === Kind.FIELD) {
+                if (isIntrospection(selection.name.value)) continue;
+                const below = selection.selectionSet ? depthOf(selection.selectionSet, visited) : 0;
+                max = Math.max(max, 1 + below);
+            } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+                max = Math.max(max, depthOf(selection.selectionSet, visited));
+            } else {
+                const name = selection.name.value;
+                const fragment = fragments.get(name);
+                // Fragment cycles are a validation error; don't loop on them
+                if (!fragment || visited.has(name)) continue;
+                max = Math.max(max, depthOf(fragment.selectionSet, new Set([...visited, name])));
+            }
+        }
+        return max;
+    };
+
+    return depthOf(operation.selectionSet, new Set());
+}
+
+/**
+ * List fields cost their rows times the selection below them
+ */
+function listEstimator({ type, field, args, childComplexity }: ComplexityEstimatorArgs): number | void {
+    if (isIntrospection(field.name) || isIntrospection(type.name)) return 0;
+
+    const size = args.first ?? args.last ?? args.limit;
+    if (typeof size === 'number') {
+        return 1 + childComplexity * Math.min(Math.max(size, 0), MAX_PAGE_SIZE);
+    }
+
+    // Connections without first/last return a default page
+    if (field.args.some(arg => arg.name === 'first')) {
+        return 1 + childComplexity * DEFAULT_PAGE_SIZE;
+    }
+
+    if (isListType(getNullableType(field.type))) {
+        // Edges are already counted by the connection's page size
+        if (getNamedType(type).name.endsWith('Connection')) return 1 + childComplexity;
+        return 1 + childComplexity * LIST_SIZE_ESTIMATE;
+    }
+}
+
+export function queryComplexity(
+    schema: GraphQLSchema,
+    document: DocumentNode,
+    variables: Record<string, unknown> = {},
+    operationName?: string | null
+): number {
+    return getComplexity({
+        schema,
+        query: document,
+        variables,
+        operationName: operationName ?? undefined,
+        estimators: [listEstimator, simpleEstimator({ defaultComplexity: 1 })],
+    });
+}
+
+/**
+ * Measure an operation and throw QUERY_TOO_COMPLEX if it's over the tier's budget
+ */
+export function enforceQueryCost(
+    schema: GraphQLSchema,
+    document: DocumentNode,
+    variables: Record<string, unknown> | undefined,
+    operationName: string | null | undefined,
+    tier: QueryTier
+): QueryCost {
+    const budget = QUERY_BUDGETS[tier];
+
+    const depth = queryDepth(document, operationName);
+    if (depth > budget.maxDepth) {
+        throw new GraphQLError(`Query depth ${depth} exceeds the ${tier} limit of ${budget.maxDepth}`, {
+            extensions: { code: 'QUERY_TOO_COMPLEX', tier, depth, maxDepth: budget.maxDepth },
+        });
+    }
+
+    let complexity: number;
+    try {
+        complexity = queryComplexity(schema, document, variables, operationName);
+    } catch (error) {
+        // getComplexity refuses documents with too many nodes to walk
+        throw new GraphQLError((error as Error).message, {
+            extensions: { code: 'QUERY_TOO_COMPLEX', tier },
+        });
+    }
+
+    if (complexity > budget.maxComplexity) {
+        throw new GraphQLError(`Query complexity ${complexity} exceeds the ${tier} limit of ${budget.maxComplexity}`, {
+            extensions: { code: 'QUERY_TOO_COMPLEX', tier, complexity, maxComplexity: budget.maxComplexity },
+        });
+    }
+
+    return { depth, complexity };
+}
+
+export interface CostPolicy {
+    /** Whether a query (by sha256 hash) is in the persisted query manifest */
+    isPersisted: (queryHash: string) => boolean;
+    /** Reject operations outside the manifest from requests without an API key */
+    publicPersistedOnly: boolean;
+}
+
+export interface OperationToAdmit {
+    schema: GraphQLSchema;
+    document: DocumentNode;
+    variables?: Record<string, unknown>;
+    operationName?: string | null;
+    queryHash: string;
+    context: GraphQLContext;
+}
+
+/**
+ * Let persisted operations through, check everything else against the
+ * caller's budget. Shared by HTTP operations and WebSocket subscriptions.
+ */
+export function admitOperation(policy: CostPolicy, operation: OperationToAdmit): QueryCost | null {
+    if (policy.isPersisted(operation.queryHash)) return null;
+
+    const tier = queryTier(operation.context);
+    if (tier === 'public' && policy.publicPersistedOnly) {
+        throw new GraphQLError('Requests without an API key may only run persisted queries', {
+            extensions: { code: 'PERSISTED_QUERY_REQUIRED' },
+        });
+    }
+
+    return enforceQueryCost(operation.schema, operation.document, operation.variables, operation.operationName, tier);
+}
+
+export function queryCostPlugin(policy: CostPolicy): ApolloServerPlugin<GraphQLContext> {
+    return {
+        async requestDidStart() {
+            return {
+                async didResolveOperation({ schema, document, request, operationName, queryHash, contextValue }) {
+                    admitOperation(policy, {
+                        schema,
+                        document,
+                        variables: request.variables,
+                        operationName,
+                        queryHash,
+                        context: contextValue,
+                    });
+                },
+            };
+        },
+    };
+}
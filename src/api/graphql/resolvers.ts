@@ -1,9 +1,22 @@
 import { supabase } from '../../lib/supabase.js';
 import { multiDexAggregator, priceAggregator } from '../../services/prices/price-aggregator.js';
+import { priceHistoryService, normalizePriceSymbol } from '../../services/prices/price-history.js';
+import { CANDLE_INTERVALS, type CandleInterval, type PriceAverage } from '../../services/prices/ohlcv.js';
 import { zauthClient } from '../../services/zauth/zauth-client.js';
+import { outcomeService } from '../../services/outcomes/outcome-service.js';
+import { isDeliveryReceipt } from '../../sdk/lib/delivery-receipt.js';
+import { paginate, applyRange, applyTimeRange, parseTime, sortColumn, type ListArgs } from './pagination.js';
+import { subscriptionResolvers } from './subscriptions.js';
+import { settlementMutations, settlementQueries, settlementTypes } from './settlement.js';
+import type { GraphQLContext } from './auth.js';
+import type { GraphQLLoaders } from './loaders.js';
 
 /**
  * GraphQL Resolvers for Relay Core
+ *
+ * Related rows (agents, services, reputations, venues, outcomes) are
+ * resolved per field through the request's DataLoaders (see loaders.ts), so
+ * a list of N parents costs one extra query per relation rather than N.
  */
 
 export const resolvers = {
@@ -21,63 +34,47 @@ export const resolvers = {
         },
 
         // Get payments with filters
-        async payments(
-            _: any,
-            { fromAddress, toAddress, status, limit = 100, offset = 0 }: any
-        ) {
-            let query = supabase.from('payments').select('*');
-
-            if (fromAddress) query = query.eq('from_address', fromAddress);
-            if (toAddress) query = query.eq('to_address', toAddress);
-            if (status) query = query.eq('status', status.toLowerCase());
-
-            query = query.order('created_at', { ascending: false }).range(offset, offset + limit - 1);
-
-            const { data, error } = await query;
-            if (error) throw new Error(error.message);
-
-            return data.map(formatPayment);
+        async payments(_: any, { filter, orderBy, ...page }: ListArgs) {
+            return paginate({
+                table: 'payments',
+                select: '*',
+                idColumn: 'id',
+                sortColumn: sortColumn(PAYMENT_SORT, orderBy),
+                direction: orderBy.direction,
+                filter: (query) => {
+                    if (!filter) return query;
+                    if (filter.fromAddress) query = query.eq('from_address', filter.fromAddress);
+                    if (filter.toAddress) query = query.eq('to_address', filter.toAddress);
+                    if (filter.status) query = query.eq('status', filter.status.toLowerCase());
+                    if (filter.tokenAddress) query = query.eq('token_address', filter.tokenAddress);
+                    if (filter.resourceUrl) query = query.eq('resource_url', filter.resourceUrl);
+                    query = applyRange(query, 'amount_value', filter.amount);
+                    return applyTimeRange(query, 'timestamp', filter.timestamp);
+                },
+                format: formatPayment,
+            }, page);
         },
 
         // Get agent reputation
-        async agent(_: any, { address }: { address: string }) {
-            const { data, error } = await supabase
-                .from('agent_reputation')
-                .select('*')
-                .eq('agent_address', address)
-                .single();
-
-            if (error) {
-                if (error.code === 'PGRST116') {
-                    // No reputation yet
-                    return {
-                        address,
-                        reputationScore: 0,
-                        totalPaymentsSent: '0',
-                        totalPaymentsReceived: '0',
-                        successfulTransactions: 0,
-                        failedTransactions: 0,
-                        lastActive: null,
-                        successRate: 0,
-                    };
-                }
-                throw new Error(error.message);
-            }
-
-            return formatAgent(data);
+        async agent(_: any, { address }: { address: string }, { loaders }: GraphQLContext) {
+            return loadAgent(loaders, address);
         },
 
         // Get agents with filters
-        async agents(_: any, { minReputation = 0, limit = 100, offset = 0 }: any) {
-            const { data, error } = await supabase
-                .from('agent_reputation')
-                .select('*')
-                .gte('reputation_score', minReputation)
-                .order('reputation_score', { ascending: false })
-                .range(offset, offset + limit - 1);
-
-            if (error) throw new Error(error.message);
-            return data.map(formatAgent);
+        async agents(_: any, { filter, orderBy, ...page }: ListArgs) {
+            return paginate({
+                table: 'agent_reputation',
+                select: '*',
+                idColumn: 'agent_address',
+                sortColumn: sortColumn(AGENT_SORT, orderBy),
+                direction: orderBy.direction,
+                filter: (query) => {
+                    if (!filter) return query;
+                    query = applyRange(query, 'reputation_score', filter.reputation);
+                    return applyTimeRange(query, 'last_active', filter.lastActive);
+                },
+                format: formatAgent,
+            }, page);
         },
 
         // Reputation leaderboard
@@ -176,80 +173,57 @@ export const resolvers = {
         async service(_: any, { id }: { id: string }) {
             const { data, error } = await supabase
                 .from('services')
-                .select(`
-                    *,
-                    reputations (
-                        total_payments,
-                        successful_payments,
-                        failed_payments,
-                        avg_latency_ms,
-                        unique_payers,
-                        reputation_score
-                    )
-                `)
+                .select('*')
                 .eq('id', id)
                 .single();
 
             if (error) throw new Error(error.message);
-            return await formatService(data);
-        },
-
-        async services(_: any, { category, minReputation = 0, isActive, limit = 100, offset = 0 }: any) {
-            let query = supabase
-                .from('services')
-                .select(`
-                    *,
-                    reputations (
-                        total_payments,
-                        successful_payments,
-                        failed_payments,
-                        avg_latency_ms,
-                        unique_payers,
-                        reputation_score
-                    )
-                `);
-
-            if (category) query = query.eq('category', category);
-            if (isActive !== undefined) query = query.eq('is_active', isActive);
-
-            query = query.order('created_at', { ascending: false }).range(offset, offset + limit - 1);
-
-            const { data, error } = await query;
-            if (error) throw new Error(error.message);
-
-            // Filter by reputation if needed
-            let services = await Promise.all(data.map(formatService));
-            if (minReputation > 0) {
-                services = services.filter(s => (s.reputation?.reputationScore || 0) >= minReputation);
-            }
-
-            return services;
-        },
-
-        async serviceLeaderboard(_: any, { limit = 10 }: { limit: number }) {
+            return formatService(data);
+        },
+
+        async services(_: any, { filter, orderBy, ...page }: ListArgs) {
+            // Reputation ranges need an inner join so unrated services drop out;
+            // the reputation field itself comes from the loader
+            return paginate({
+                table: 'services',
+                select: filter?.reputation ? '*, reputations!inner (reputation_score)' : '*',
+                idColumn: 'id',
+                sortColumn: sortColumn(SERVICE_SORT, orderBy),
+                direction: orderBy.direction,
+                filter: (query) => {
+                    if (!filter) return query;
+                    if (filter.category) query = query.eq('category', filter.category);
+                    if (filter.ownerAddress) query = query.eq('owner_address', filter.ownerAddress);
+                    if (filter.isActive != null) query = query.eq('is_active', filter.isActive);
+                    query = applyRange(query, 'reputations.reputation_score', filter.reputation);
+                    return applyTimeRange(query, 'created_at', filter.createdAt);
+                },
+                format: formatService,
+            }, page);
+        },
+
+        async serviceLeaderboard(_: any, { limit = 10 }: { limit: number }, { loaders }: GraphQLContext) {
             const { data, error } = await supabase
                 .from('services')
-                .select(`
-                    *,
-                    reputations (
-                        total_payments,
-                        successful_payments,
-                        failed_payments,
-                        avg_latency_ms,
-                        unique_payers,
-                        reputation_score
-                    )
-                `)
+                .select('*')
                 .eq('is_active', true)
                 .order('created_at', { ascending: false })
                 .limit(limit * 2); // Get more to sort by reputation
 
             if (error) throw new Error(error.message);
 
-            const formatted = await Promise.all(data.map(formatService));
-            return formatted
-                .sort((a, b) => (b.reputation?.reputationScore || 0) - (a.reputation?.reputationScore || 0))
-                .slice(0, limit);
+            // Also primes the loader for the reputation field
+            const reputations = await loaders.serviceReputations.loadMany(data.map(d => d.id));
+            const score = (i: number) => {
+                const rep = reputations[i];
+                return rep && !(rep instanceof Error) ? Number(rep.reputation_score) || 0 : 0;
+            };
+
+            return data
+                .map((d, i) => ({ service: formatService(d), score: score(i) }))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, limit)
+                .map(s => s.service);
         },
 
         // DEX venue queries
@@ -261,7 +235,7 @@ export const resolvers = {
                 .single();
 
             if (error) throw new Error(error.message);
-            return await formatVenue(data);
+            return formatVenue(data);
         },
 
         async venues(_: any, { chain, isActive }: any) {
@@ -273,10 +247,10 @@ export const resolvers = {
             const { data, error } = await query;
             if (error) throw new Error(error.message);
 
-            return await Promise.all(data.map(formatVenue));
+            return data.map(formatVenue);
         },
 
-        async venueLeaderboard(_: any, { limit = 10 }: { limit: number }) {
+        async venueLeaderboard(_: any, { limit = 10 }: { limit: number }, { loaders }: GraphQLContext) {
             const { data, error } = await supabase
                 .from('dex_venues')
                 .select('*')
@@ -286,45 +260,51 @@ export const resolvers = {
             if (error) throw new Error(error.message);
 
             // Calculate reputation and sort
-            const formatted = await Promise.all(data.map(formatVenue));
-            return formatted
-                .sort((a, b) => b.reputation.reputationScore - a.reputation.reputationScore)
-                .slice(0, limit);
+            const trades = await loaders.venueTrades.loadMany(data.map(d => d.id));
+            return data
+                .map((d, i) => {
+                    const venueTrades = trades[i];
+                    if (venueTrades instanceof Error) throw venueTrades;
+                    return { venue: formatVenue(d), score: venueReputation(venueTrades).reputationScore };
+                })
+                .sort((a, b) => b.score - a.score)
+                .slice(0, limit)
+                .map(v => v.venue);
         },
 
         // Trade queries
         async trade(_: any, { id }: { id: string }) {
             const { data, error } = await supabase
                 .from('trades')
-                .select(`
-                    *,
-                    dex_venues (*)
-                `)
+                .select('*')
                 .eq('id', id)
                 .single();
 
             if (error) throw new Error(error.message);
-            return await formatTrade(data);
-        },
-
-        async trades(_: any, { userAddress, venueId, status, limit = 100, offset = 0 }: any) {
-            let query = supabase
-                .from('trades')
-                .select(`
-                    *,
-                    dex_venues (*)
-                `);
-
-            if (userAddress) query = query.eq('user_address', userAddress);
-            if (venueId) query = query.eq('venue_id', venueId);
-            if (status) query = query.eq('status', status);
-
-            query = query.order('created_at', { ascending: false }).range(offset, offset + limit - 1);
-
-            const { data, error } = await query;
-            if (error) throw new Error(error.message);
-
-            return await Promise.all(data.map(formatTrade));
+            return formatTrade(data);
+        },
+
+        async trades(_: any, { filter, orderBy, ...page }: ListArgs) {
+            return paginate({
+                table: 'trades',
+                select: '*',
+                idColumn: 'id',
+                sortColumn: sortColumn(TRADE_SORT, orderBy),
+                direction: orderBy.direction,
+                filter: (query) => {
+                    if (!filter) return query;
+                    if (filter.userAddress) query = query.eq('user_address', filter.userAddress);
+                    if (filter.venueId) query = query.eq('venue_id', filter.venueId);
+                    if (filter.pair) query = query.eq('pair', filter.pair);
+                    if (filter.side) query = query.eq('side', filter.side);
+                    if (filter.status) query = query.eq('status', filter.status);
+                    if (filter.paper != null) query = query.eq('paper', filter.paper);
+                    query = applyRange(query, 'size_usd', filter.sizeUsd);
+                    query = applyRange(query, 'leverage', filter.leverage);
+                    return applyTimeRange(query, 'created_at', filter.createdAt);
+                },
+                format: formatTrade,
+            }, page);
         },
 
         // Identity resolution queries
@@ -377,14 +357,7 @@ export const resolvers = {
 
             if (error) throw new Error(error.message);
 
-            return data.map(d => ({
-                id: d.id,
-                paymentId: d.payment_id,
-                outcomeType: d.outcome_type,
-                latencyMs: d.latency_ms,
-                evidence: d.evidence,
-                createdAt: d.created_at,
-            }));
+            return data.map(formatOutcome);
         },
 
         // Live prices from multi-DEX aggregator
@@ -412,6 +385,51 @@ export const resolvers = {
             return results;
         },
 
+        // Price history
+        async priceCandles(_: any, { symbol, interval = '1h', source, from, to, limit = 200 }: PriceHistoryArgs & {
+            interval?: string;
+            limit?: number;
+        }) {
+            if (!CANDLE_INTERVALS.includes(interval as CandleInterval)) {
+                throw new Error(`interval must be one of ${CANDLE_INTERVALS.join(', ')}`);
+            }
+
+            const candles = await priceHistoryService.getCandles(normalizePriceSymbol(symbol), interval as CandleInterval, {
+                source,
+                from: parseTime(from),
+                to: parseTime(to),
+                limit,
+            });
+
+            return candles.map(c => ({
+                time: new Date(c.bucketStart).toISOString(),
+                open: c.open,
+                high: c.high,
+                low: c.low,
+                close: c.close,
+                volume: c.volume,
+                samples: c.sampleCount,
+            }));
+        },
+
+        async priceTwap(_: any, { symbol, source, from, to }: PriceHistoryArgs) {
+            const average = await priceHistoryService.getTwap(normalizePriceSymbol(symbol), {
+                source,
+                from: parseTime(from),
+                to: parseTime(to),
+            });
+            return formatPriceAverage(average);
+        },
+
+        async priceVwap(_: any, { symbol, source, from, to }: PriceHistoryArgs) {
+            const average = await priceHistoryService.getVwap(normalizePriceSymbol(symbol), {
+                source,
+                from: parseTime(from),
+                to: parseTime(to),
+            });
+            return formatPriceAverage(average);
+        },
+
         // Current prices (simple)
         async currentPrices() {
             const prices = await priceAggregator.getCurrentPrices();
@@ -469,55 +487,27 @@ export const resolvers = {
                 throw new Error(error.message);
             }
 
-            return {
-                taskId: data.task_id,
-                agentId: data.agent_id,
-                serviceId: data.service_id,
-                sessionId: data.session_id,
-                state: data.state,
-                paymentId: data.payment_id,
-                facilitatorTx: data.facilitator_tx,
-                retries: data.retries,
-                createdAt: data.created_at,
-                updatedAt: data.updated_at,
-                completedAt: data.completed_at,
-                inputs: data.inputs,
-                outputs: data.outputs,
-                error: data.error,
-                metrics: data.metrics,
-            };
-        },
-
-        async tasks(_: any, { agentId, serviceId, sessionId, state, limit = 100 }: any) {
-            let query = supabase.from('task_artifacts').select('*');
-
-            if (agentId) query = query.eq('agent_id', agentId);
-            if (serviceId) query = query.eq('service_id', serviceId);
-            if (sessionId) query = query.eq('session_id', sessionId);
-            if (state) query = query.eq('state', state);
-
-            query = query.order('created_at', { ascending: false }).limit(limit);
-
-            const { data, error } = await query;
-            if (error) throw new Error(error.message);
-
-            return data.map(d => ({
-                taskId: d.task_id,
-                agentId: d.agent_id,
-                serviceId: d.service_id,
-                sessionId: d.session_id,
-                state: d.state,
-                paymentId: d.payment_id,
-                facilitatorTx: d.facilitator_tx,
-                retries: d.retries,
-                createdAt: d.created_at,
-                updatedAt: d.updated_at,
-                completedAt: d.completed_at,
-                inputs: d.inputs,
-                outputs: d.outputs,
-                error: d.error,
-                metrics: d.metrics,
-            }));
+            return formatTask(data);
+        },
+
+        async tasks(_: any, { filter, orderBy, ...page }: ListArgs) {
+            return paginate({
+                table: 'task_artifacts',
+                select: '*',
+                idColumn: 'id',
+                sortColumn: sortColumn(TASK_SORT, orderBy),
+                direction: orderBy.direction,
+                filter: (query) => {
+                    if (!filter) return query;
+                    if (filter.agentId) query = query.eq('agent_id', filter.agentId);
+                    if (filter.serviceId) query = query.eq('service_id', filter.serviceId);
+                    if (filter.sessionId) query = query.eq('session_id', filter.sessionId);
+                    if (filter.state) query = query.eq('state', filter.state);
+                    query = applyTimeRange(query, 'created_at', filter.createdAt);
+                    return applyTimeRange(query, 'completed_at', filter.completedAt);
+                },
+                format: formatTask,
+            }, page);
         },
 
         async taskStats(_: any, { agentId }: { agentId?: string }) {
@@ -550,6 +540,8 @@ export const resolvers = {
                 avgDurationMs: Math.round(avgDurationMs),
             };
         },
+
+        ...settlementQueries,
     },
 
     Mutation: {
@@ -580,32 +572,93 @@ export const resolvers = {
         },
 
         // Record outcome
-        async recordOutcome(_: any, { paymentId, outcomeType, latencyMs, evidence }: any) {
-            const { data, error } = await supabase
-                .from('outcomes')
-                .insert({
-                    payment_id: paymentId,
-                    outcome_type: outcomeType,
-                    latency_ms: latencyMs,
-                    evidence,
-                })
-                .select()
-                .single();
+        async recordOutcome(_: any, { paymentId, outcomeType, latencyMs, evidence, receipt }: any) {
+            if (receipt && !isDeliveryReceipt(receipt)) throw new Error('Malformed delivery receipt');
+            return outcomeService.record({ paymentId, outcomeType, latencyMs, evidence, receipt: receipt ?? undefined });
+        },
 
-            if (error) throw new Error(error.message);
+        ...settlementMutations,
+    },
 
-            return {
-                id: data.id,
-                paymentId: data.payment_id,
-                outcomeType: data.outcome_type,
-                latencyMs: data.latency_ms,
-                evidence: data.evidence,
-                createdAt: data.created_at,
-            };
+    Subscription: subscriptionResolvers,
+
+    ...settlementTypes,
+
+    Payment: {
+        service: (payment: { serviceId: string | null }, _: any, { loaders }: GraphQLContext) =>
+            loadService(loaders, payment.serviceId),
+        payer: (payment: { fromAddress: string }, _: any, { loaders }: GraphQLContext) =>
+            loadAgent(loaders, payment.fromAddress),
+        recipient: (payment: { toAddress: string }, _: any, { loaders }: GraphQLContext) =>
+            loadAgent(loaders, payment.toAddress),
+        // Outcomes reference payments by row id
+        async outcomes(payment: { id: string }, _: any, { loaders }: GraphQLContext) {
+            return (await loaders.outcomes.load(payment.id)).map(formatOutcome);
+        },
+    },
+
+    Service: {
+        async reputation(service: { id: string }, _: any, { loaders }: GraphQLContext) {
+            const rep = await loaders.serviceReputations.load(service.id);
+            return rep ? formatServiceReputation(rep) : null;
         },
+        health: (service: { endpointUrl: string | null }) => serviceHealth(service.endpointUrl),
+    },
+
+    DexVenue: {
+        async reputation(venue: { id: string }, _: any, { loaders }: GraphQLContext) {
+            return venueReputation(await loaders.venueTrades.load(venue.id));
+        },
+    },
+
+    Trade: {
+        async venue(trade: { venueId: string | null }, _: any, { loaders }: GraphQLContext) {
+            if (!trade.venueId) return null;
+            const venue = await loaders.venues.load(trade.venueId);
+            return venue ? formatVenue(venue) : null;
+        },
+    },
+
+    TaskArtifact: {
+        service: (task: { serviceId: string | null }, _: any, { loaders }: GraphQLContext) =>
+            loadService(loaders, task.serviceId),
+        async payment(task: { paymentId: string | null }, _: any, { loaders }: GraphQLContext) {
+            if (!task.paymentId) return null;
+            const payment = await loaders.payments.load(task.paymentId);
+            return payment ? formatPayment(payment) : null;
+        },
+    },
+
+    SessionPayment: {
+        ...settlementTypes.SessionPayment,
+        agent: (payment: { agentAddress: string }, _: any, { loaders }: GraphQLContext) =>
+            loadAgent(loaders, payment.agentAddress),
+    },
+
+    RwaTransition: {
+        agent: (transition: { agentAddress: string }, _: any, { loaders }: GraphQLContext) =>
+            loadAgent(loaders, transition.agentAddress),
     },
 };
 
+// orderBy enum value -> column; sort columns must be NOT NULL (see pagination.ts)
+const PAYMENT_SORT: Record<string, string> = {
+    TIMESTAMP: 'timestamp',
+    AMOUNT: 'amount_value',
+    BLOCK_NUMBER: 'block_number',
+};
+const AGENT_SORT: Record<string, string> = { REPUTATION_SCORE: 'reputation_score', ADDRESS: 'agent_address' };
+const SERVICE_SORT: Record<string, string> = { CREATED_AT: 'created_at', NAME: 'name' };
+const TRADE_SORT: Record<string, string> = { CREATED_AT: 'created_at', SIZE_USD: 'size_usd', LEVERAGE: 'leverage' };
+const TASK_SORT: Record<string, string> = { CREATED_AT: 'created_at', UPDATED_AT: 'updated_at' };
+
+interface PriceHistoryArgs {
+    symbol: string;
+    source?: string;
+    from?: string | number;
+    to?: string | number;
+}
+
 // Formatters
 function formatPayment(data: any) {
     return {
@@ -620,9 +673,36 @@ function formatPayment(data: any) {
         status: data.status.toUpperCase(),
         blockNumber: data.block_number,
         timestamp: data.timestamp,
+        serviceId: data.service_id ?? null,
     };
 }
 
+async function loadAgent(loaders: GraphQLLoaders, address: string) {
+    const data = await loaders.agents.load(address);
+
+    if (!data) {
+        // No reputation yet
+        return {
+            address,
+            reputationScore: 0,
+            totalPaymentsSent: '0',
+            totalPaymentsReceived: '0',
+            successfulTransactions: 0,
+            failedTransactions: 0,
+            lastActive: null,
+            successRate: 0,
+        };
+    }
+
+    return formatAgent(data);
+}
+
+async function loadService(loaders: GraphQLLoaders, serviceId: string | null) {
+    if (!serviceId) return null;
+    const data = await loaders.services.load(serviceId);
+    return data ? formatService(data) : null;
+}
+
 function formatAgent(data: any) {
     const total = data.successful_transactions + data.failed_transactions;
     const successRate = total > 0 ? data.successful_transactions / total : 0;
@@ -650,43 +730,7 @@ function formatActivity(data: any) {
     };
 }
 
-async function formatService(data: any) {
-    const rep = Array.isArray(data.reputations) ? data.reputations[0] : data.reputations;
-
-    // Fetch ZAUTH health status if endpoint URL exists
-    let health = null;
-    if (data.endpoint_url) {
-        try {
-            const zauthEndpoint = await zauthClient.getEndpoint(data.endpoint_url);
-            if (zauthEndpoint) {
-                health = {
-                    status: zauthEndpoint.status,
-                    successRate: zauthEndpoint.successRate,
-                    lastTestedAt: zauthEndpoint.lastTestedAt,
-                    reliable: zauthEndpoint.status === 'WORKING' && zauthEndpoint.successRate >= 80,
-                    warning: zauthEndpoint.status === 'FLAKY' ? 'Endpoint has intermittent failures' : undefined,
-                };
-            } else {
-                health = {
-                    status: 'UNTESTED',
-                    successRate: null,
-                    lastTestedAt: null,
-                    reliable: false,
-                    warning: 'Endpoint not verified by ZAUTH',
-                };
-            }
-        } catch (error) {
-            console.error('ZAUTH lookup failed:', error);
-            health = {
-                status: 'UNKNOWN',
-                successRate: null,
-                lastTestedAt: null,
-                reliable: false,
-                warning: 'Could not verify endpoint health',
-            };
-        }
-    }
-
+function formatService(data: any) {
     return {
         id: data.id,
         ownerAddress: data.owner_address,
@@ -697,40 +741,83 @@ async function formatService(data: any) {
         pricePerCall: data.price_per_call,
         isActive: data.is_active,
         createdAt: data.created_at,
-        reputation: rep ? {
-            totalPayments: rep.total_payments || 0,
-            successfulPayments: rep.successful_payments || 0,
-            failedPayments: rep.failed_payments || 0,
-            avgLatencyMs: rep.avg_latency_ms || 0,
-            uniquePayers: rep.unique_payers || 0,
-            reputationScore: rep.reputation_score || 0,
-            successRate: rep.total_payments > 0
-                ? (rep.successful_payments / rep.total_payments) * 100
-                : 0,
-        } : null,
-        health,
     };
 }
 
-async function formatVenue(data: any) {
-    // Calculate real reputation from trades table
-    const { data: trades } = await supabase
-        .from('trades')
-        .select('status, created_at, closed_at, entry_price, exit_price, size_usd')
-        .eq('venue_id', data.id);
+function formatServiceReputation(rep: any) {
+    return {
+        totalPayments: rep.total_payments || 0,
+        successfulPayments: rep.successful_payments || 0,
+        failedPayments: rep.failed_payments || 0,
+        avgLatencyMs: rep.avg_latency_ms || 0,
+        uniquePayers: rep.unique_payers || 0,
+        reputationScore: rep.reputation_score || 0,
+        successRate: rep.total_payments > 0
+            ? (rep.successful_payments / rep.total_payments) * 100
+            : 0,
+    };
+}
+
+// ZAUTH health status of a service endpoint
+async function serviceHealth(endpointUrl: string | null) {
+    if (!endpointUrl) return null;
+
+    try {
+        const zauthEndpoint = await zauthClient.getEndpoint(endpointUrl);
+        if (zauthEndpoint) {
+            return {
+                status: zauthEndpoint.status,
+                successRate: zauthEndpoint.successRate,
+                lastTestedAt: zauthEndpoint.lastTestedAt,
+                reliable: zauthEndpoint.status === 'WORKING' && zauthEndpoint.successRate >= 80,
+                warning: zauthEndpoint.status === 'FLAKY' ? 'Endpoint has intermittent failures' : undefined,
+            };
+        }
+        return {
+            status: 'UNTESTED',
+            successRate: null,
+            lastTestedAt: null,
+            reliable: false,
+            warning: 'Endpoint not verified by ZAUTH',
+        };
+    } catch (error) {
+        console.error('ZAUTH lookup failed:', error);
+        return {
+            status: 'UNKNOWN',
+            successRate: null,
+            lastTestedAt: null,
+            reliable: false,
+            warning: 'Could not verify endpoint health',
+        };
+    }
+}
+
+function formatVenue(data: any) {
+    return {
+        id: data.id,
+        name: data.name,
+        contractAddress: data.contract_address,
+        chain: data.chain,
+        maxLeverage: data.max_leverage,
+        tradingFeeBps: data.trading_fee_bps,
+        isActive: data.is_active,
+    };
+}
 
-    const totalTrades = trades?.length || 0;
-    const successfulTrades = trades?.filter(t => t.status === 'closed').length || 0;
-    const failedTrades = trades?.filter(t => t.status === 'failed').length || 0;
+// Calculate real reputation from a venue's trades
+function venueReputation(trades: any[]) {
+    const totalTrades = trades.length;
+    const successfulTrades = trades.filter(t => t.status === 'closed').length;
+    const failedTrades = trades.filter(t => t.status === 'failed').length;
 
     // Calculate average execution latency (time from creation to first update)
     const latencies = trades
-        ?.filter(t => t.closed_at && t.created_at)
+        .filter(t => t.closed_at && t.created_at)
         .map(t => {
             const created = new Date(t.created_at).getTime();
             const closed = new Date(t.closed_at).getTime();
             return closed - created;
-        }) || [];
+        });
 
     const avgLatencyMs = latencies.length > 0
         ? Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length)
@@ -738,13 +825,13 @@ async function formatVenue(data: any) {
 
     // Calculate average slippage in basis points
     const slippages = trades
-        ?.filter(t => t.entry_price && t.exit_price && t.status === 'closed')
+        .filter(t => t.entry_price && t.exit_price && t.status === 'closed')
         .map(t => {
             const expectedPrice = t.entry_price;
             const actualPrice = t.exit_price;
             const slippage = Math.abs((actualPrice - expectedPrice) / expectedPrice) * 10000;
             return slippage;
-        }) || [];
+        });
 
     const avgSlippageBps = slippages.length > 0
         ? Math.round(slippages.reduce((sum, s) => sum + s, 0) / slippages.length)
@@ -769,30 +856,21 @@ async function formatVenue(data: any) {
     ));
 
     return {
-        id: data.id,
-        name: data.name,
-        contractAddress: data.contract_address,
-        chain: data.chain,
-        maxLeverage: data.max_leverage,
-        tradingFeeBps: data.trading_fee_bps,
-        isActive: data.is_active,
-        reputation: {
-            totalTrades,
-            successfulTrades,
-            failedTrades,
-            avgLatencyMs,
-            avgSlippageBps,
-            reputationScore: Math.round(reputationScore * 10) / 10,
-            successRate: Math.round(successRate * 1000) / 10, // percentage with 1 decimal
-        },
+        totalTrades,
+        successfulTrades,
+        failedTrades,
+        avgLatencyMs,
+        avgSlippageBps,
+        reputationScore: Math.round(reputationScore * 10) / 10,
+        successRate: Math.round(successRate * 1000) / 10, // percentage with 1 decimal
     };
 }
 
-async function formatTrade(data: any) {
+function formatTrade(data: any) {
     return {
         id: data.id,
         userAddress: data.user_address,
-        venue: data.dex_venues ? await formatVenue(data.dex_venues) : null,
+        venueId: data.venue_id ?? null,
         pair: data.pair,
         side: data.side,
         leverage: data.leverage,
@@ -802,9 +880,54 @@ async function formatTrade(data: any) {
         pnlUsd: data.pnl_usd,
         status: data.status,
         txHash: data.tx_hash,
+        paper: data.paper ?? false,
         createdAt: data.created_at,
         closedAt: data.closed_at,
     };
 }
 
+function formatOutcome(data: any) {
+    return {
+        id: data.id,
+        paymentId: data.payment_id,
+        outcomeType: data.outcome_type,
+        latencyMs: data.latency_ms,
+        evidence: data.evidence,
+        receiptVerified: data.receipt_verified ?? false,
+        counted: (data.receipt_verified ?? false) || (data.observed ?? false),
+        createdAt: data.created_at,
+    };
+}
+
+function formatTask(data: any) {
+    return {
+        taskId: data.task_id,
+        agentId: data.agent_id,
+        serviceId: data.service_id,
+        sessionId: data.session_id,
+        parentTaskId: data.parent_task_id,
+        stepId: data.step_id,
+        state: data.state,
+        paymentId: data.payment_id,
+        facilitatorTx: data.facilitator_tx,
+        retries: data.retries,
+        createdAt: data.created_at,
+        updatedAt: data.updated_at,
+        completedAt: data.completed_at,
+        inputs: data.inputs,
+        outputs: data.outputs,
+        error: data.error,
+        metrics: data.metrics,
+    };
+}
+
+function formatPriceAverage(average: PriceAverage | null) {
+    if (!average) return null;
+    return {
+        ...average,
+        from: new Date(average.from).toISOString(),
+        to: new Date(average.to).toISOString(),
+    };
+}
+
 export default resolvers;
@@ -25,6 +25,11 @@ export const typeDefs = `#graphql
     status: PaymentStatus!
     blockNumber: BigInt!
     timestamp: DateTime!
+    serviceId: ID
+    service: Service
+    payer: Agent!
+    recipient: Agent!
+    outcomes: [Outcome!]!
   }
 
   enum PaymentStatus {
@@ -110,6 +115,7 @@ export const typeDefs = `#graphql
     pnlUsd: Float
     status: String!
     txHash: String
+    paper: Boolean!
     createdAt: DateTime!
     closedAt: DateTime
   }
@@ -123,6 +129,157 @@ export const typeDefs = `#graphql
     timestamp: DateTime!
   }
 
+  # Pagination (Relay connections; cursors are opaque)
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  enum OrderDirection {
+    ASC
+    DESC
+  }
+
+  input DateTimeRange {
+    from: DateTime
+    to: DateTime
+  }
+
+  input FloatRange {
+    min: Float
+    max: Float
+  }
+
+  # Token base units
+  input AmountRange {
+    min: BigInt
+    max: BigInt
+  }
+
+  type PaymentEdge {
+    cursor: String!
+    node: Payment!
+  }
+
+  type PaymentConnection {
+    edges: [PaymentEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  input PaymentFilter {
+    fromAddress: String
+    toAddress: String
+    status: PaymentStatus
+    tokenAddress: String
+    resourceUrl: String
+    amount: AmountRange
+    timestamp: DateTimeRange
+  }
+
+  enum PaymentOrderField {
+    TIMESTAMP
+    AMOUNT
+    BLOCK_NUMBER
+  }
+
+  input PaymentOrder {
+    field: PaymentOrderField!
+    direction: OrderDirection = DESC
+  }
+
+  type AgentEdge {
+    cursor: String!
+    node: Agent!
+  }
+
+  type AgentConnection {
+    edges: [AgentEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  input AgentFilter {
+    reputation: FloatRange
+    lastActive: DateTimeRange
+  }
+
+  enum AgentOrderField {
+    REPUTATION_SCORE
+    ADDRESS
+  }
+
+  input AgentOrder {
+    field: AgentOrderField!
+    direction: OrderDirection = DESC
+  }
+
+  # ServiceEdge is the service graph's dependency edge
+  type ServiceConnectionEdge {
+    cursor: String!
+    node: Service!
+  }
+
+  type ServiceConnection {
+    edges: [ServiceConnectionEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  input ServiceFilter {
+    category: String
+    ownerAddress: String
+    isActive: Boolean
+    reputation: FloatRange
+    createdAt: DateTimeRange
+  }
+
+  enum ServiceOrderField {
+    CREATED_AT
+    NAME
+  }
+
+  input ServiceOrder {
+    field: ServiceOrderField!
+    direction: OrderDirection = DESC
+  }
+
+  type TradeEdge {
+    cursor: String!
+    node: Trade!
+  }
+
+  type TradeConnection {
+    edges: [TradeEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  input TradeFilter {
+    userAddress: String
+    venueId: ID
+    pair: String
+    side: String
+    status: String
+    paper: Boolean
+    sizeUsd: FloatRange
+    leverage: FloatRange
+    createdAt: DateTimeRange
+  }
+
+  enum TradeOrderField {
+    CREATED_AT
+    SIZE_USD
+    LEVERAGE
+  }
+
+  input TradeOrder {
+    field: TradeOrderField!
+    direction: OrderDirection = DESC
+  }
+
   type PaymentStats {
     totalVolume: String!
     totalPayments: Int!
@@ -135,30 +292,35 @@ export const typeDefs = `#graphql
     # Payment queries
     payment(paymentId: String!): Payment
     payments(
-      fromAddress: String
-      toAddress: String
-      status: PaymentStatus
-      limit: Int = 100
-      offset: Int = 0
-    ): [Payment!]!
+      filter: PaymentFilter
+      orderBy: PaymentOrder = { field: TIMESTAMP, direction: DESC }
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): PaymentConnection!
     
     # Agent queries
     agent(address: String!): Agent
     agents(
-      minReputation: Float
-      limit: Int = 100
-      offset: Int = 0
-    ): [Agent!]!
+      filter: AgentFilter
+      orderBy: AgentOrder = { field: REPUTATION_SCORE, direction: DESC }
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): AgentConnection!
     
     # Service queries
     service(id: ID!): Service
     services(
-      category: String
-      minReputation: Float
-      isActive: Boolean
-      limit: Int = 100
-      offset: Int = 0
-    ): [Service!]!
+      filter: ServiceFilter
+      orderBy: ServiceOrder = { field: CREATED_AT, direction: DESC }
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): ServiceConnection!
     
     # DEX venue queries
     venue(id: ID!): DexVenue
@@ -170,12 +332,13 @@ export const typeDefs = `#graphql
     # Trade queries
     trade(id: ID!): Trade
     trades(
-      userAddress: String
-      venueId: ID
-      status: String
-      limit: Int = 100
-      offset: Int = 0
-    ): [Trade!]!
+      filter: TradeFilter
+      orderBy: TradeOrder = { field: CREATED_AT, direction: DESC }
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): TradeConnection!
     
     # Reputation leaderboard
     reputationLeaderboard(limit: Int = 10): [Agent!]!
@@ -213,6 +376,18 @@ export const typeDefs = `#graphql
     # Live prices from multi-DEX aggregator
     livePrices(symbols: [String!]): [LivePrice!]!
     currentPrices: CurrentPrices!
+
+    # Price history (interval: 1m, 5m, 1h, 1d; source defaults to consensus)
+    priceCandles(
+      symbol: String!
+      interval: String = "1h"
+      source: String
+      from: DateTime
+      to: DateTime
+      limit: Int = 200
+    ): [PriceCandle!]!
+    priceTwap(symbol: String!, from: DateTime, to: DateTime, source: String): PriceAverage
+    priceVwap(symbol: String!, from: DateTime, to: DateTime, source: String): PriceAverage
     
     # Indexer queries
     serviceGraph: ServiceGraph!
@@ -227,13 +402,50 @@ export const typeDefs = `#graphql
     # Task artifact queries
     task(taskId: String!): TaskArtifact
     tasks(
-      agentId: String
-      serviceId: String
-      sessionId: String
-      state: String
-      limit: Int = 100
-    ): [TaskArtifact!]!
+      filter: TaskFilter
+      orderBy: TaskOrder = { field: CREATED_AT, direction: DESC }
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): TaskArtifactConnection!
     taskStats(agentId: String): TaskStats!
+
+    # x402 sessions and on-chain escrow (API key with read_payments)
+    session(sessionId: String!): Session
+    sessions(
+      filter: SessionFilter
+      orderBy: SessionOrder = { field: CREATED_AT, direction: DESC }
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): SessionConnection!
+    escrowSession(sessionId: Int!): EscrowSession
+
+    # RWA assets and state machines (API key with read_services)
+    rwaAsset(assetId: String!): RwaAsset
+    rwaAssets(
+      filter: RwaAssetFilter
+      orderBy: RwaAssetOrder = { field: CREATED_AT, direction: DESC }
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): RwaAssetConnection!
+    rwaStateMachine(rwaId: String!): RwaStateMachine
+    rwaStateMachines(
+      filter: RwaStateMachineFilter
+      orderBy: RwaStateMachineOrder = { field: UPDATED_AT, direction: DESC }
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): RwaStateMachineConnection!
+
+    # Route-proxy routes owned by the API key's user (read_services)
+    proxyRoutes: [ProxyRoute!]!
+    proxyRoute(id: ID!): ProxyRoute
   }
 
   type LivePrice {
@@ -251,6 +463,28 @@ export const typeDefs = `#graphql
     latencyMs: Int!
   }
 
+  type PriceCandle {
+    time: DateTime!
+    open: Float!
+    high: Float!
+    low: Float!
+    close: Float!
+    volume: Float!
+    samples: Int!
+  }
+
+  type PriceAverage {
+    symbol: String!
+    source: String!
+    kind: String!
+    price: Float!
+    from: DateTime!
+    to: DateTime!
+    interval: String!
+    candles: Int!
+    coverage: Float!
+  }
+
   type CurrentPrices {
     btcUsd: Float!
     ethUsd: Float!
@@ -274,6 +508,10 @@ export const typeDefs = `#graphql
     outcomeType: String!
     latencyMs: Int
     evidence: JSON
+    # Backed by a delivery receipt signed by the payee
+    receiptVerified: Boolean!
+    # Counted towards payment status and reputation
+    counted: Boolean!
     createdAt: DateTime!
   }
 
@@ -332,6 +570,8 @@ export const typeDefs = `#graphql
     agentId: String!
     serviceId: String
     sessionId: String
+    parentTaskId: String
+    stepId: String
     state: String!
     paymentId: String
     facilitatorTx: String
@@ -343,6 +583,38 @@ export const typeDefs = `#graphql
     outputs: JSON!
     error: JSON
     metrics: JSON
+    service: Service
+    payment: Payment
+  }
+
+  type TaskArtifactEdge {
+    cursor: String!
+    node: TaskArtifact!
+  }
+
+  type TaskArtifactConnection {
+    edges: [TaskArtifactEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  input TaskFilter {
+    agentId: String
+    serviceId: String
+    sessionId: String
+    state: String
+    createdAt: DateTimeRange
+    completedAt: DateTimeRange
+  }
+
+  enum TaskOrderField {
+    CREATED_AT
+    UPDATED_AT
+  }
+
+  input TaskOrder {
+    field: TaskOrderField!
+    direction: OrderDirection = DESC
   }
 
   type TaskStats {
@@ -354,6 +626,263 @@ export const typeDefs = `#graphql
     avgDurationMs: Float!
   }
 
+  # Sessions (escrow_sessions), created by the x402 session service
+  type Session {
+    sessionId: String!
+    ownerAddress: String!
+    escrowAgent: String
+    # USDC amounts
+    maxSpend: String!
+    deposited: String!
+    released: String!
+    remaining: String!
+    isActive: Boolean!
+    expiresAt: DateTime
+    createdAt: DateTime!
+    closedAt: DateTime
+    createdTxHash: String
+    spendingPolicy: JSON
+    payments(first: Int = 100): [SessionPayment!]!
+    # On-chain state; null for sessions that aren't on the escrow contract
+    escrow: EscrowSession
+  }
+
+  type SessionPayment {
+    id: ID!
+    sessionId: String!
+    # Id outcomes are recorded against
+    paymentId: String
+    agentAddress: String!
+    agentName: String
+    amount: String!
+    paymentMethod: String!
+    status: String
+    txHash: String
+    metadata: JSON
+    createdAt: DateTime!
+    agent: Agent!
+    outcomes: [Outcome!]!
+  }
+
+  # EscrowSession contract state
+  type EscrowSession {
+    sessionId: Int!
+    owner: String!
+    escrowAgent: String!
+    deposited: String!
+    released: String!
+    remaining: String!
+    maxSpend: String!
+    expiresAt: DateTime!
+    active: Boolean!
+    paused: Boolean!
+  }
+
+  type SessionEdge {
+    cursor: String!
+    node: Session!
+  }
+
+  type SessionConnection {
+    edges: [SessionEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  input SessionFilter {
+    ownerAddress: String
+    isActive: Boolean
+    createdAt: DateTimeRange
+  }
+
+  enum SessionOrderField {
+    CREATED_AT
+  }
+
+  input SessionOrder {
+    field: SessionOrderField!
+    direction: OrderDirection = DESC
+  }
+
+  input CreateSessionInput {
+    # Defaults to the API key's wallet
+    ownerAddress: String
+    maxSpend: String!
+    durationHours: Float!
+    authorizedAgents: [String!]
+    spendingPolicy: JSON
+  }
+
+  type SessionCreation {
+    session: Session!
+    # x402 payment that activates the session
+    paymentRequest: JSON!
+    requiresPayment: Boolean!
+  }
+
+  type SessionRefund {
+    sessionId: String!
+    refundAmount: String!
+    txHash: String
+  }
+
+  type RwaAsset {
+    assetId: String!
+    type: String!
+    name: String!
+    description: String
+    owner: String!
+    value: String!
+    currency: String!
+    status: String!
+    metadata: JSON
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    events: [RwaLifecycleEvent!]!
+    # Settlement state machine, keyed by the asset id
+    stateMachine: RwaStateMachine
+  }
+
+  type RwaLifecycleEvent {
+    eventId: String!
+    eventType: String!
+    actor: String!
+    data: JSON
+    txHash: String
+    timestamp: DateTime!
+  }
+
+  type RwaStateMachine {
+    id: ID!
+    rwaId: String!
+    currentState: String!
+    previousState: String
+    metadata: JSON
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    nextStates: [RwaNextState!]!
+    transitions: [RwaTransition!]!
+  }
+
+  type RwaNextState {
+    state: String!
+    # USDC fee charged to the session
+    cost: String!
+    requiredRole: String
+  }
+
+  type RwaTransition {
+    id: ID!
+    rwaId: String!
+    fromState: String!
+    toState: String!
+    agentAddress: String!
+    agentRole: String!
+    paymentHash: String!
+    proof: JSON
+    transitionedAt: DateTime!
+    agent: Agent!
+  }
+
+  type RwaAssetEdge {
+    cursor: String!
+    node: RwaAsset!
+  }
+
+  type RwaAssetConnection {
+    edges: [RwaAssetEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  input RwaAssetFilter {
+    owner: String
+    type: String
+    status: String
+  }
+
+  enum RwaAssetOrderField {
+    CREATED_AT
+  }
+
+  input RwaAssetOrder {
+    field: RwaAssetOrderField!
+    direction: OrderDirection = DESC
+  }
+
+  type RwaStateMachineEdge {
+    cursor: String!
+    node: RwaStateMachine!
+  }
+
+  type RwaStateMachineConnection {
+    edges: [RwaStateMachineEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  input RwaStateMachineFilter {
+    currentState: String
+  }
+
+  enum RwaStateMachineOrderField {
+    CREATED_AT
+    UPDATED_AT
+  }
+
+  input RwaStateMachineOrder {
+    field: RwaStateMachineOrderField!
+    direction: OrderDirection = DESC
+  }
+
+  input RwaTransitionInput {
+    rwaId: String!
+    toState: String!
+    agentAddress: String!
+    agentRole: String!
+    # Session the transition fee is paid from
+    sessionId: Int!
+    proof: JSON
+  }
+
+  type RwaTransitionResult {
+    success: Boolean!
+    rwaId: String!
+    fromState: String
+    toState: String!
+    paymentHash: String
+    transitionId: String
+    error: String
+  }
+
+  # x402-protected proxy route (upstream secret headers are never exposed)
+  type ProxyRoute {
+    id: ID!
+    name: String!
+    method: String!
+    upstreamUrl: String!
+    priceUsdc: String!
+    pricing: JSON!
+    pricingSummary: String!
+    payTo: String!
+    proxyUrl: String!
+    requestCount: Int!
+    revenue: String!
+    isActive: Boolean!
+    createdAt: DateTime!
+  }
+
+  input CreateProxyRouteInput {
+    name: String!
+    upstreamUrl: String!
+    method: String
+    priceUsdc: String
+    # See services/x402/route-pricing.ts
+    pricing: JSON
+    payTo: String
+    secretHeaders: JSON
+  }
+
   type Mutation {
     linkIdentity(
       socialId: String!
@@ -366,7 +895,101 @@ export const typeDefs = `#graphql
       outcomeType: String!
       latencyMs: Int
       evidence: JSON
+      receipt: JSON
     ): Outcome!
+
+    # Sessions (execute_payments; changes to a session need its owner's key)
+    createSession(input: CreateSessionInput!): SessionCreation!
+    activateSession(sessionId: String!, txHash: String!, amount: String!): Session!
+    # Refunds the unspent balance and closes the session
+    closeSession(sessionId: String!): SessionRefund!
+
+    # RWA state machines (execute_payments)
+    createRwaStateMachine(rwaId: String!, metadata: JSON): RwaStateMachine!
+    transitionRwaState(input: RwaTransitionInput!): RwaTransitionResult!
+
+    # Proxy routes (register_agents)
+    createProxyRoute(input: CreateProxyRouteInput!): ProxyRoute!
+    deleteProxyRoute(id: ID!): Boolean!
+  }
+
+  enum PaymentMethod {
+    EIP3009
+    SESSION
+    DEFERRED
+  }
+
+  type PaymentSettled {
+    paymentId: String!
+    fromAddress: String
+    toAddress: String!
+    amount: String!
+    txHash: String
+    resourceUrl: String
+    method: PaymentMethod!
+    settledAt: DateTime!
+  }
+
+  enum SessionEvent {
+    ACTIVATED
+    RESERVED
+    COMMITTED
+    RELEASED
+    CLOSED
+    REFUNDED
+  }
+
+  type SessionUpdate {
+    sessionId: String!
+    event: SessionEvent!
+    isActive: Boolean
+    # USDC amounts; null when the change didn't go through the session ledger
+    spent: String
+    reserved: String
+    remaining: String
+    paymentCount: Int
+    updatedAt: DateTime!
+  }
+
+  type TaskStateChange {
+    taskId: String!
+    agentId: String!
+    serviceId: String
+    sessionId: String
+    state: String!
+    paymentId: String
+    changedAt: DateTime!
+  }
+
+  type RwaStateTransition {
+    rwaId: String!
+    transitionId: String!
+    fromState: String!
+    toState: String!
+    agentAddress: String!
+    agentRole: String!
+    paymentHash: String!
+    transitionedAt: DateTime!
+  }
+
+  type PriceTick {
+    symbol: String!
+    price: Float!
+    source: String!
+    confidence: Float
+    sources: Int!
+    timestamp: DateTime!
+  }
+
+  # Served over graphql-ws on the /graphql endpoint
+  type Subscription {
+    # Payments settled to or from the address
+    paymentSettled(address: String!): PaymentSettled!
+    sessionUpdated(sessionId: String!): SessionUpdate!
+    taskStateChanged(agentId: String!): TaskStateChange!
+    rwaStateTransitioned(rwaId: String!): RwaStateTransition!
+    # Consensus prices, e.g. symbols: ["BTC/USD", "ETH/USD"]
+    priceTick(symbols: [String!]!): PriceTick!
   }
 `;
 
@@ -0,0 +1,430 @@
+import { GraphQLError } from 'graphql';
+import { supabase } from '../../lib/supabase.js';
+import { getX402SessionService } from '../../services/session/x402-session-service.js';
+import { SpendingPolicyError } from '../../services/session/spending-policy.js';
+import { getEscrowAgent, type SessionState } from '../../services/escrow/escrow-agent.js';
+import { rwaAgentService, type RWALifecycleEvent } from '../../services/rwa/rwa-agent-service.js';
+import {
+    rwaStateMachineService,
+    RWAState,
+    AgentRole,
+    type RWAStateMachine,
+    type StateTransition
+} from '../../services/rwa/state-machine.js';
+import { routeStore, RouteInputError } from '../../services/x402/route-store.js';
+import { RoutePricingError } from '../../services/x402/route-pricing.js';
+import { paginate, applyTimeRange, sortColumn, type ListArgs } from './pagination.js';
+import { requireOwner, requirePermission, type GraphQLContext } from './auth.js';
+
+/**
+ * GraphQL resolvers for x402 sessions, on-chain escrow, RWA assets and
+ * state machines, and route-proxy routes
+ *
+ * Every field checks the API key's permissions (see auth.ts):
+ * - sessions and escrow:  read_payments / execute_payments
+ * - RWA:                  read_services / execute_payments
+ * - proxy routes:         read_services / register_agents, scoped to the key's wallet
+ */
+
+const SESSION_SORT: Record<string, string> = { CREATED_AT: 'created_at' };
+const RWA_ASSET_SORT: Record<string, string> = { CREATED_AT: 'created_at' };
+const RWA_STATE_MACHINE_SORT: Record<string, string> = { CREATED_AT: 'created_at', UPDATED_AT: 'updated_at' };
+
+const MAX_SESSION_PAYMENTS = 1000;
+
+// Sessions opened on the escrow contract have numeric ids
+const ON_CHAIN_SESSION_ID = /^\d+$/;
+
+function badInput(message: string): GraphQLError {
+    return new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } });
+}
+
+async function loadSession(sessionId: string) {
+    const session = await getX402SessionService().getSession(sessionId);
+    if (!session) throw badInput(`Session not found: ${sessionId}`);
+    return session;
+}
+
+export const settlementQueries = {
+    async session(_: any, { sessionId }: { sessionId: string }, context: GraphQLContext) {
+        requirePermission(context, 'read_payments');
+
+        const session = await getX402SessionService().getSession(sessionId);
+        return session ? formatSession(session) : null;
+    },
+
+    async sessions(_: any, { filter, orderBy, ...page }: ListArgs, context: GraphQLContext) {
+        requirePermission(context, 'read_payments');
+
+        return paginate({
+            table: 'escrow_sessions',
+            select: '*',
+            idColumn: 'session_id',
+            sortColumn: sortColumn(SESSION_SORT, orderBy),
+            direction: orderBy.direction,
+            filter: (query) => {
+                if (!filter) return query;
+                if (filter.ownerAddress) query = query.eq('owner_address', filter.ownerAddress.toLowerCase());
+                if (filter.isActive != null) query = query.eq('is_active', filter.isActive);
+                return applyTimeRange(query, 'created_at', filter.createdAt);
+            },
+            format: formatSession,
+        }, page);
+    },
+
+    async escrowSession(_: any, { sessionId }: { sessionId: number }, context: GraphQLContext) {
+        requirePermission(context, 'read_payments');
+        return formatEscrowSession(await getEscrowAgent().getSessionState(sessionId));
+    },
+
+    async rwaAsset(_: any, { assetId }: { assetId: string }, context: GraphQLContext) {
+        requirePermission(context, 'read_services');
+
+        const { data, error } = await supabase
+            .from('rwa_assets')
+            .select('*')
+            .eq('asset_id', assetId)
+            .maybeSingle();
+
+        if (error) throw new Error(error.message);
+        return data ? formatRwaAsset(data) : null;
+    },
+
+    async rwaAssets(_: any, { filter, orderBy, ...page }: ListArgs, context: GraphQLContext) {
+        requirePermission(context, 'read_services');
+
+        return paginate({
+            table: 'rwa_assets',
+            select: '*',
+            idColumn: 'asset_id',
+            sortColumn: sortColumn(RWA_ASSET_SORT, orderBy),
+            direction: orderBy.direction,
+            filter: (query) => {
+                if (!filter) return query;
+                if (filter.owner) query = query.eq('owner_address', filter.owner);
+                if (filter.type) query = query.eq('type', filter.type);
+                if (filter.status) query = query.eq('status', filter.status);
+                return query;
+            },
+            format: formatRwaAsset,
+        }, page);
+    },
+
+    async rwaStateMachine(_: any, { rwaId }: { rwaId: string }, context: GraphQLContext) {
+        requirePermission(context, 'read_services');
+
+        const stateMachine = await rwaStateMachineService.getStateMachine(rwaId);
+        return stateMachine ? formatStateMachine(stateMachine) : null;
+    },
+
+    async rwaStateMachines(_: any, { filter, orderBy, ...page }: ListArgs, context: GraphQLContext) {
+        requirePermission(context, 'read_services');
+
+        return paginate({
+            table: 'rwa_state_machines',
+            select: '*',
+            idColumn: 'rwa_id',
+            sortColumn: sortColumn(RWA_STATE_MACHINE_SORT, orderBy),
+            direction: orderBy.direction,
+            filter: (query) => filter?.currentState ? query.eq('current_state', filter.currentState) : query,
+            format: (row: any) => formatStateMachine({
+                id: row.id,
+                rwaId: row.rwa_id,
+                currentState: row.current_state,
+                previousState: row.previous_state,
+                metadata: row.metadata,
+                createdAt: new Date(row.created_at),
+                updatedAt: new Date(row.updated_at),
+            }),
+        }, page);
+    },
+
+    async proxyRoutes(_: any, __: any, context: GraphQLContext) {
+        const userId = requirePermission(context, 'read_services');
+        return routeStore.listForUser(userId);
+    },
+
+    async proxyRoute(_: any, { id }: { id: string }, context: GraphQLContext) {
+        const userId = requirePermission(context, 'read_services');
+        return routeStore.getForUser(userId, id);
+    },
+};
+
+export const settlementMutations = {
+    async createSession(_: any, { input }: { input: any }, context: GraphQLContext) {
+        const userId = requirePermission(context, 'execute_payments');
+
+        const ownerAddress = input.ownerAddress || userId;
+        requireOwner(context, ownerAddress);
+
+        try {
+            const result = await getX402SessionService().createSessionWithPayment({
+                ownerAddress,
+                maxSpend: input.maxSpend,
+                durationHours: input.durationHours,
+                authorizedAgents: input.authorizedAgents || [],
+                spendingPolicy: input.spendingPolicy ?? undefined,
+            });
+
+            return {
+                session: formatSession(result.session),
+                paymentRequest: result.paymentRequest,
+                requiresPayment: result.requiresPayment,
+            };
+        } catch (error) {
+            if (error instanceof SpendingPolicyError) throw badInput(error.message);
+            throw error;
+        }
+    },
+
+    async activateSession(
+        _: any,
+        { sessionId, txHash, amount }: { sessionId: string; txHash: string; amount: string },
+        context: GraphQLContext
+    ) {
+        requirePermission(context, 'execute_payments');
+        requireOwner(context, (await loadSession(sessionId)).owner_address);
+
+        return formatSession(await getX402SessionService().activateSession(sessionId, txHash, amount));
+    },
+
+    async closeSession(_: any, { sessionId }: { sessionId: string }, context: GraphQLContext) {
+        requirePermission(context, 'execute_payments');
+        requireOwner(context, (await loadSession(sessionId)).owner_address);
+
+        const result = await getX402SessionService().refundSession(sessionId);
+        return {
+            sessionId,
+            refundAmount: result.refundAmount,
+            txHash: result.txHash ?? null,
+        };
+    },
+
+    async createRwaStateMachine(
+        _: any,
+        { rwaId, metadata }: { rwaId: string; metadata?: Record<string, unknown> | null },
+        context: GraphQLContext
+    ) {
+        requirePermission(context, 'execute_payments');
+        return formatStateMachine(await rwaStateMachineService.createStateMachine(rwaId, metadata || {}));
+    },
+
+    async transitionRwaState(_: any, { input }: { input: any }, context: GraphQLContext) {
+        requirePermission(context, 'execute_payments');
+
+        if (!Object.values(RWAState).includes(input.toState)) {
+            throw badInput(`Invalid state: ${input.toState}`);
+        }
+        if (!Object.values(AgentRole).includes(input.agentRole)) {
+            throw badInput(`Invalid agent role: ${input.agentRole}`);
+        }
+
+        // The fee is paid from the session, so its owner must be the caller
+        const session = await loadSession(String(input.sessionId));
+        requireOwner(context, session.owner_address);
+
+        const result = await rwaStateMachineService.transition({
+            rwaId: input.rwaId,
+            toState: input.toState,
+            agentAddress: input.agentAddress,
+            agentRole: input.agentRole,
+            sessionId: input.sessionId,
+            proof: input.proof ?? undefined,
+        });
+
+        return {
+            success: result.success,
+            rwaId: result.rwaId,
+            fromState: result.fromState ?? null,
+            toState: result.toState,
+            paymentHash: result.paymentHash || null,
+            transitionId: result.transitionId || null,
+            error: result.error ?? null,
+        };
+    },
+
+    async createProxyRoute(_: any, { input }: { input: any }, context: GraphQLContext) {
+        const userId = requirePermission(context, 'register_agents');
+
+        try {
+            return await routeStore.create(userId, input);
+        } catch (error) {
+            if (error instanceof RouteInputError || error instanceof RoutePricingError) {
+                throw badInput(error.message);
+            }
+            throw error;
+        }
+    },
+
+    async deleteProxyRoute(_: any, { id }: { id: string }, context: GraphQLContext) {
+        const userId = requirePermission(context, 'register_agents');
+        await routeStore.deactivate(userId, id);
+        return true;
+    },
+};
+
+/**
+ * Nested relations: session -> payments -> outcomes, rwa -> state machine -> transitions.
+ * Agents on payments and transitions are resolved in resolvers.ts with the Agent type.
+ */
+export const settlementTypes = {
+    Session: {
+        async payments(session: { sessionId: string }, { first }: { first: number }) {
+            const { data, error } = await supabase
+                .from('session_payments')
+                .select('*')
+                .eq('session_id', session.sessionId)
+                .order('created_at', { ascending: false })
+                .limit(Math.min(first, MAX_SESSION_PAYMENTS));
+
+            if (error) throw new Error(error.message);
+            return (data || []).map(formatSessionPayment);
+        },
+
+        async escrow(session: { sessionId: string }) {
+            if (!ON_CHAIN_SESSION_ID.test(session.sessionId)) return null;
+            return formatEscrowSession(await getEscrowAgent().getSessionState(Number(session.sessionId)));
+        },
+    },
+
+    SessionPayment: {
+        async outcomes(
+            payment: { paymentId: string | null; txHash: string | null },
+            _: any,
+            { loaders }: GraphQLContext
+        ) {
+            const ids = [...new Set([payment.paymentId, payment.txHash].filter((id): id is string => Boolean(id)))];
+            if (ids.length === 0) return [];
+
+            const rows = (await loaders.outcomes.loadMany(ids)).flatMap(result => {
+                if (result instanceof Error) throw result;
+                return result;
+            });
+
+            return rows
+                .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+                .map(d => ({
+                    id: d.id,
+                    paymentId: d.payment_id,
+                    outcomeType: d.outcome_type,
+                    latencyMs: d.latency_ms,
+                    evidence: d.evidence,
+                    receiptVerified: d.receipt_verified ?? false,
+                    counted: (d.receipt_verified ?? false) || (d.observed ?? false),
+                    createdAt: d.created_at,
+                }));
+        },
+    },
+
+    RwaAsset: {
+        async events(asset: { assetId: string }) {
+            const events = await rwaAgentService.getLifecycleEvents(asset.assetId);
+            return events.map(formatLifecycleEvent);
+        },
+
+        async stateMachine(asset: { assetId: string }) {
+            const stateMachine = await rwaStateMachineService.getStateMachine(asset.assetId);
+            return stateMachine ? formatStateMachine(stateMachine) : null;
+        },
+    },
+
+    RwaStateMachine: {
+        nextStates(stateMachine: { currentState: RWAState }) {
+            return rwaStateMachineService.getNextStates(stateMachine.currentState).map(state => ({
+                state,
+                cost: rwaStateMachineService.getTransitionCost(stateMachine.currentState, state),
+                requiredRole: rwaStateMachineService.getRequiredRole(stateMachine.currentState, state),
+            }));
+        },
+
+        async transitions(stateMachine: { rwaId: string }) {
+            const transitions = await rwaStateMachineService.getTransitionHistory(stateMachine.rwaId);
+            return transitions.map(formatTransition);
+        },
+    },
+};
+
+// Formatters
+function formatSession(data: any) {
+    return {
+        sessionId: data.session_id,
+        ownerAddress: data.owner_address,
+        escrowAgent: data.escrow_agent,
+        maxSpend: String(data.max_spend),
+        deposited: String(data.deposited ?? '0'),
+        released: String(data.released ?? '0'),
+        remaining: String(Math.max(0, parseFloat(data.deposited || '0') - parseFloat(data.released || '0'))),
+        isActive: data.is_active,
+        expiresAt: data.expiry,
+        createdAt: data.created_at,
+        closedAt: data.closed_at,
+        createdTxHash: data.created_tx_hash,
+        spendingPolicy: data.spending_policy ?? null,
+    };
+}
+
+function formatSessionPayment(data: any) {
+    return {
+        id: data.id,
+        sessionId: data.session_id,
+        // Session-budget payments record the x402 payment id as execution_id
+        paymentId: data.execution_id || data.metadata?.requestId || null,
+        agentAddress: data.agent_address,
+        agentName: data.agent_name,
+        amount: String(data.amount),
+        paymentMethod: data.payment_method,
+        status: data.status,
+        txHash: data.tx_hash,
+        metadata: data.metadata,
+        createdAt: data.created_at,
+    };
+}
+
+function formatEscrowSession(state: SessionState) {
+    return {
+        ...state,
+        expiresAt: new Date(state.expiry * 1000).toISOString(),
+    };
+}
+
+function formatRwaAsset(data: any) {
+    return {
+        assetId: data.asset_id,
+        type: data.type,
+        name: data.name,
+        description: data.description,
+        owner: data.owner_address,
+        value: String(data.value),
+        currency: data.currency,
+        status: data.status,
+        metadata: data.metadata,
+        createdAt: data.created_at,
+        updatedAt: data.updated_at || data.created_at,
+    };
+}
+
+function formatLifecycleEvent(event: RWALifecycleEvent) {
+    return {
+        eventId: event.eventId,
+        eventType: event.eventType,
+        actor: event.actor,
+        data: event.data,
+        txHash: event.txHash ?? null,
+        timestamp: event.timestamp.toISOString(),
+    };
+}
+
+function formatStateMachine(stateMachine: RWAStateMachine) {
+    return {
+        ...stateMachine,
+        createdAt: stateMachine.createdAt.toISOString(),
+        updatedAt: stateMachine.updatedAt.toISOString(),
+    };
+}
+
+function formatTransition(transition: StateTransition) {
+    return {
+        ...transition,
+        transitionedAt: transition.transitionedAt.toISOString(),
+    };
+}
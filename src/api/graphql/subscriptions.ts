@@ -0,0 +1,99 @@
+import { eventBus } from '../../lib/event-bus.js';
+import { priceTicker } from '../../services/prices/price-ticker.js';
+import { normalizePriceSymbol } from '../../services/prices/price-history.js';
+import { getX402SessionService } from '../../services/session/x402-session-service.js';
+import { requireOwner, requirePermission, type GraphQLContext } from './auth.js';
+
+/**
+ * GraphQL Subscription resolvers
+ *
+ * Each field listens on the internal event bus and filters down to the
+ * address, session, agent or RWA the client asked for. Events only reach
+ * subscribers connected to the process that published them.
+ *
+ * Payment and session streams need read_payments and are limited to the
+ * API key's own wallet and sessions (admin keys see everything).
+ */
+
+const iso = (timestamp: number) => new Date(timestamp).toISOString();
+
+export const subscriptionResolvers = {
+    paymentSettled: {
+        subscribe(_: any, { address }: { address: string }, context: GraphQLContext) {
+            requirePermission(context, 'read_payments');
+            requireOwner(context, address);
+
+            const target = address.toLowerCase();
+            return eventBus.subscribe('payment.settled', e =>
+                e.toAddress.toLowerCase() === target || e.fromAddress?.toLowerCase() === target
+            );
+        },
+        resolve: (e: any) => ({
+            ...e,
+            method: e.method.toUpperCase(),
+            settledAt: iso(e.settledAt),
+        }),
+    },
+
+    sessionUpdated: {
+        async subscribe(_: any, { sessionId }: { sessionId: string }, context: GraphQLContext) {
+            requirePermission(context, 'read_payments');
+            const session = await getX402SessionService().getSession(sessionId);
+            requireOwner(context, session?.owner_address);
+
+            return eventBus.subscribe('session.updated', e => e.sessionId === sessionId);
+        },
+        resolve: (e: any) => ({
+            ...e,
+            event: e.event.toUpperCase(),
+            updatedAt: iso(e.updatedAt),
+        }),
+    },
+
+    taskStateChanged: {
+        subscribe(_: any, { agentId }: { agentId: string }) {
+            return eventBus.subscribe('task.stateChanged', e => e.agentId === agentId);
+        },
+        resolve: (e: any) => ({ ...e, changedAt: iso(e.changedAt) }),
+    },
+
+    rwaStateTransitioned: {
+        subscribe(_: any, { rwaId }: { rwaId: string }) {
+            return eventBus.subscribe('rwa.stateTransitioned', e => e.rwaId === rwaId);
+        },
+        resolve: (e: any) => ({ ...e, transitionedAt: iso(e.transitionedAt) }),
+    },
+
+    priceTick: {
+        subscribe(_: any, { symbols }: { symbols: string[] }) {
+            // Throws on unknown symbols before anything is subscribed
+            const release = priceTicker.watch(symbols);
+            const wanted = new Set(symbols.map(normalizePriceSymbol));
+            const ticks = eventBus.subscribe('price.tick', e => wanted.has(e.symbol));
+
+            // Stop polling the symbols once the client goes away
+            return {
+                next: () => ticks.next(),
+                return() {
+                    release();
+                    return ticks.return!();
+                },
+                throw(error?: unknown) {
+                    release();
+                    return ticks.throw!(error);
+                },
+                [Symbol.asyncIterator]() {
+                    return this;
+                },
+            };
+        },
+        resolve: (e: any) => ({
+            symbol: e.symbol,
+            price: e.price,
+            source: e.source,
+            confidence: e.confidence,
+            sources: e.sources,
+            timestamp: iso(e.observedAt),
+        }),
+    },
+};
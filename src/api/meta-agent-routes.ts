@@ -65,12 +65,26 @@ router.post('/hire', async (req, res) => {
 /**
  * POST /api/meta-agent/execute/:taskId
  * Execute a delegated task
+ *
+ * Body: { approvedAmount? } - re-execute a task whose agent demanded more
+ * than its listed price (outcome error PAYMENT_APPROVAL_REQUIRED)
  */
 router.post('/execute/:taskId', async (req, res) => {
     try {
         const { taskId } = req.params;
+        // USDC base units the caller accepts above the agent's listed price
+        const { approvedAmount } = req.body || {};
 
-        const outcome = await metaAgentService.executeDelegation(taskId);
+        if (approvedAmount !== undefined && !/^\d+$/.test(String(approvedAmount))) {
+            return res.status(400).json({
+                success: false,
+                error: 'approvedAmount must be an amount in USDC base units'
+            });
+        }
+
+        const outcome = await metaAgentService.executeDelegation(taskId, {
+            approvedAmount: approvedAmount !== undefined ? String(approvedAmount) : undefined
+        });
 
         res.json({
             success: outcome.state === 'settled',
@@ -6,14 +6,28 @@
  * - /metrics - Prometheus metrics
  * - /traces - Recent traces
  * - /alerts - Alert history
+ * - /indexers - Indexer cursors, dead letters, replay and backfill
  */
 
 import { Router } from 'express';
 import { observability } from '../services/observability/observability-service.js';
 import logger from '../lib/logger.js';
+import { authenticateApiKey, requirePermission } from '../middleware/api-auth.js';
+import { IndexerReplayError } from '../services/indexer/event-checkpoint.js';
+import type { DeadLetterStatus } from '../services/indexer/repository/database.repository.js';
 
 const router = Router();
 
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = ['retrying', 'dead', 'replayed', 'resolved'];
+
+const REPLAY_ERROR_STATUS: Record<IndexerReplayError['code'], number> = {
+    NOT_FOUND: 404,
+    ALREADY_RESOLVED: 409,
+    UNSUPPORTED: 400,
+    EVENT_NOT_FOUND: 422,
+    HANDLER_FAILED: 500
+};
+
 // ============================================
 // HEALTH ENDPOINTS
 // ============================================
@@ -274,17 +288,21 @@ router.get('/indexers', async (_req, res) => {
     try {
         // Get indexer state from database
         const { supabase } = await import('../lib/supabase.js');
-        const { data: indexerStates } = await supabase
-            .from('indexer_state')
-            .select('*')
-            .order('updated_at', { ascending: false });
+        const { countOpenDeadLetters } = await import('../services/indexer/repository/database.repository.js');
+        const [{ data: indexerStates }, deadLetters] = await Promise.all([
+            supabase
+                .from('indexer_state')
+                .select('*')
+                .order('updated_at', { ascending: false }),
+            countOpenDeadLetters().catch(() => ({} as Record<string, { retrying: number; dead: number }>))
+        ]);
 
         const indexers = [
             { name: 'Transaction Indexer', key: 'transaction_indexer', schedule: 'Every 1 min' },
-            { name: 'Escrow Session Indexer', key: 'escrow_session_indexer', schedule: 'Every 2 min' },
-            { name: 'Payment Indexer', key: 'payment_indexer', schedule: 'Every 5 min' },
-            { name: 'Agent Indexer', key: 'agent_indexer', schedule: 'Every 15 min' },
-            { name: 'Feedback Indexer', key: 'feedback_indexer', schedule: 'Every 15 min' },
+            { name: 'Escrow Session Indexer', key: 'escrow_session_events', schedule: 'Every 2 min' },
+            { name: 'Payment Indexer', key: 'payment_events', schedule: 'Every 5 min' },
+            { name: 'Agent Indexer', key: 'agent_registry', schedule: 'Every 15 min' },
+            { name: 'Feedback Indexer', key: 'feedback_events', schedule: 'Every 15 min' },
             { name: 'USDC Transfer Indexer', key: 'usdc_transfer_indexer', schedule: 'Every 30 sec' },
             { name: 'RWA State Indexer', key: 'rwa_state_indexer', schedule: 'Every 2 min' },
             { name: 'Reputation Calculator', key: 'reputation_calculator', schedule: 'Daily 1:00 AM' }
@@ -292,12 +310,24 @@ router.get('/indexers', async (_req, res) => {
 
         const indexerStatus = indexers.map(indexer => {
             const state = indexerStates?.find(s => s.indexer_name === indexer.key);
+            // Per-event-type cursors are stored as '<indexer>:<EventName>'
+            const cursors = (indexerStates || [])
+                .filter(s => s.indexer_name.startsWith(`${indexer.key}:`))
+                .map(s => ({
+                    eventType: s.indexer_name.slice(indexer.key.length + 1),
+                    lastBlock: s.last_block,
+                    lastRun: s.updated_at
+                }));
+
             return {
                 name: indexer.name,
+                key: indexer.key,
                 schedule: indexer.schedule,
                 lastBlock: state?.last_block || 0,
                 lastRun: state?.updated_at || null,
-                status: state ? 'active' : 'pending'
+                status: state ? 'active' : 'pending',
+                cursors,
+                deadLetters: deadLetters[indexer.key] || { retrying: 0, dead: 0 }
             };
         });
 
@@ -308,6 +338,130 @@ router.get('/indexers', async (_req, res) => {
     }
 });
 
+/**
+ * POST /api/observability/indexers/backfill
+ * Start re-indexing a block range in the background (admin)
+ *
+ * Body: { fromBlock, toBlock, indexer?: 'escrow'|'agent'|'feedback'|'usdc'|'all', chunkSize?, concurrency? }
+ */
+router.post('/indexers/backfill', authenticateApiKey({ required: true }), requirePermission('admin'), async (req, res) => {
+    try {
+        const { startBackfill } = await import('../services/indexer/backfill.js');
+        const { fromBlock, toBlock, indexer, chunkSize, concurrency } = req.body || {};
+
+        const job = await startBackfill({
+            fromBlock: Number(fromBlock),
+            toBlock: Number(toBlock),
+            indexer: indexer || 'all',
+            chunkSize: chunkSize ? Number(chunkSize) : undefined,
+            concurrency: concurrency ? Number(concurrency) : undefined
+        });
+
+        res.status(202).json({ job });
+    } catch (error) {
+        if ((error as Error).name === 'BackfillError') {
+            return res.status(400).json({ error: (error as Error).message });
+        }
+        logger.error('Failed to start indexer backfill', error as Error);
+        res.status(500).json({ error: 'Failed to start indexer backfill' });
+    }
+});
+
+/**
+ * GET /api/observability/indexers/backfill
+ * Backfill jobs started by this process (admin)
+ */
+router.get('/indexers/backfill', authenticateApiKey({ required: true }), requirePermission('admin'), async (_req, res) => {
+    const { listBackfillJobs } = await import('../services/indexer/backfill.js');
+    res.json({ jobs: listBackfillJobs() });
+});
+
+/**
+ * GET /api/observability/indexers/backfill/:jobId
+ * Backfill progress (admin)
+ */
+router.get('/indexers/backfill/:jobId', authenticateApiKey({ required: true }), requirePermission('admin'), async (req, res) => {
+    const { getBackfillJob } = await import('../services/indexer/backfill.js');
+    const job = getBackfillJob(req.params.jobId as string);
+
+    if (!job) {
+        return res.status(404).json({ error: 'Backfill job not found' });
+    }
+
+    res.json({ job });
+});
+
+/**
+ * GET /api/observability/indexers/dead-letters
+ * Events that failed to index (admin)
+ *
+ * Query: indexer, eventType, status (retrying|dead|replayed|resolved), limit, offset
+ */
+router.get('/indexers/dead-letters', authenticateApiKey({ required: true }), requirePermission('admin'), async (req, res) => {
+    try {
+        const { listIndexerDeadLetters } = await import('../services/indexer/repository/database.repository.js');
+        const status = req.query.status as DeadLetterStatus | undefined;
+
+        if (status && !DEAD_LETTER_STATUSES.includes(status)) {
+            return res.status(400).json({ error: `status must be one of ${DEAD_LETTER_STATUSES.join(', ')}` });
+        }
+
+        const deadLetters = await listIndexerDeadLetters({
+            indexerName: req.query.indexer as string | undefined,
+            eventType: req.query.eventType as string | undefined,
+            status,
+            limit: Math.min(parseInt(req.query.limit as string) || 50, 200),
+            offset: parseInt(req.query.offset as string) || 0
+        });
+
+        res.json({ deadLetters, count: deadLetters.length });
+    } catch (error) {
+        logger.error('Failed to list indexer dead letters', error as Error);
+        res.status(500).json({ error: 'Failed to list indexer dead letters' });
+    }
+});
+
+/**
+ * GET /api/observability/indexers/dead-letters/:id
+ * Single dead letter with its decoded payload (admin)
+ */
+router.get('/indexers/dead-letters/:id', authenticateApiKey({ required: true }), requirePermission('admin'), async (req, res) => {
+    try {
+        const { getIndexerDeadLetter } = await import('../services/indexer/repository/database.repository.js');
+        const deadLetter = await getIndexerDeadLetter(Number(req.params.id));
+
+        if (!deadLetter) {
+            return res.status(404).json({ error: 'Dead letter not found' });
+        }
+
+        res.json({ deadLetter });
+    } catch (error) {
+        logger.error('Failed to get indexer dead letter', error as Error);
+        res.status(500).json({ error: 'Failed to get indexer dead letter' });
+    }
+});
+
+/**
+ * POST /api/observability/indexers/dead-letters/:id/replay
+ * Re-run the indexer handler for a dead-lettered event (admin)
+ */
+router.post('/indexers/dead-letters/:id/replay', authenticateApiKey({ required: true }), requirePermission('admin'), async (req, res) => {
+    const id = Number(req.params.id);
+    try {
+        const { replayDeadLetter } = await import('../services/indexer/index.js');
+        const deadLetter = await replayDeadLetter(id);
+
+        res.json({ success: true, deadLetter });
+    } catch (error) {
+        if (error instanceof IndexerReplayError) {
+            const status = REPLAY_ERROR_STATUS[error.code];
+            return res.status(status).json({ success: false, error: error.message, code: error.code });
+        }
+        logger.error('Failed to replay indexer dead letter', error as Error, { id });
+        res.status(500).json({ success: false, error: 'Failed to replay indexer dead letter' });
+    }
+});
+
 /**
  * GET /api/observability/connections
  * Connection status for RPC and DB
@@ -6,6 +6,8 @@
 
 import { Router } from 'express';
 import { requirePayment, handlePaymentSettlement } from '../services/x402/payment-middleware.js';
+import { outcomeService, OutcomeAlreadyRecordedError } from '../services/outcomes/outcome-service.js';
+import { isDeliveryReceipt } from '../sdk/lib/delivery-receipt.js';
 import { supabase } from '../lib/supabase.js';
 import logger from '../lib/logger.js';
 
@@ -120,6 +122,45 @@ router.post('/services/:id/call',
     }
 );
 
+/**
+ * POST /api/outcomes
+ * 
+ * Record a delivery outcome reported by a provider (RelayService). It only
+ * counts towards payment status and reputation with a delivery receipt
+ * signed by the payee.
+ */
+router.post('/outcomes', async (req, res) => {
+    try {
+        const { paymentId, outcomeType, latencyMs, proofHash, evidence, receipt } = req.body || {};
+
+        if (typeof paymentId !== 'string' || !paymentId) {
+            return res.status(400).json({ error: 'paymentId is required' });
+        }
+        if (!['delivered', 'failed', 'timeout'].includes(outcomeType)) {
+            return res.status(400).json({ error: 'outcomeType must be delivered, failed or timeout' });
+        }
+        if (receipt !== undefined && receipt !== null && !isDeliveryReceipt(receipt)) {
+            return res.status(400).json({ error: 'Malformed delivery receipt' });
+        }
+
+        const outcome = await outcomeService.record({
+            paymentId,
+            outcomeType,
+            latencyMs: typeof latencyMs === 'number' ? latencyMs : undefined,
+            evidence: proofHash ? { ...evidence, proofHash } : evidence,
+            receipt: receipt ?? undefined,
+        });
+
+        res.status(201).json(outcome);
+    } catch (error) {
+        if (error instanceof OutcomeAlreadyRecordedError) {
+            return res.status(409).json({ error: error.message, code: error.code });
+        }
+        logger.error('Outcome recording error', error as Error);
+        res.status(500).json({ error: 'Failed to record outcome' });
+    }
+});
+
 /**
  * GET /api/payments/history
  * 
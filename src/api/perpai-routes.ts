@@ -1,8 +1,10 @@
-import { Router } from 'express';
+import { Router, type Request, type Response } from 'express';
 import { supabase } from '../lib/supabase.js';
 import { perpIndexer } from '../services/indexer/perp-indexer.js';
 import { TradeRouter } from '../services/perpai/trade-router.js';
 import { requirePayment } from '../services/x402/payment-middleware.js';
+import { priceHistoryService, normalizePriceSymbol } from '../services/prices/price-history.js';
+import { CANDLE_INTERVALS, type CandleInterval } from '../services/prices/ohlcv.js';
 import logger from '../lib/logger.js';
 
 const router = Router();
@@ -237,6 +239,113 @@ router.get('/funding-rates/history', async (req, res) => {
     }
 });
 
+// ============================================
+// PRICE HISTORY ENDPOINTS
+// ============================================
+
+/**
+ * Parse an ISO date or epoch milliseconds query parameter
+ */
+function parseTime(value: unknown): number | undefined {
+    if (value === undefined || value === '') return undefined;
+    const time = /^\d+$/.test(String(value)) ? Number(value) : Date.parse(String(value));
+    return Number.isFinite(time) ? time : undefined;
+}
+
+/**
+ * GET /api/perpai/prices/candles
+ * 
+ * OHLCV candles for a symbol (1m, 5m, 1h or 1d), oldest first.
+ */
+router.get('/prices/candles', async (req, res) => {
+    try {
+        const { symbol, interval = '1h', source, from, to, limit } = req.query;
+
+        if (!symbol) {
+            return res.status(400).json({ error: 'symbol is required' });
+        }
+        if (!CANDLE_INTERVALS.includes(interval as CandleInterval)) {
+            return res.status(400).json({ error: `interval must be one of ${CANDLE_INTERVALS.join(', ')}` });
+        }
+
+        const candles = await priceHistoryService.getCandles(normalizePriceSymbol(String(symbol)), interval as CandleInterval, {
+            source: source ? String(source) : undefined,
+            from: parseTime(from),
+            to: parseTime(to),
+            limit: limit ? Number(limit) : undefined,
+        });
+
+        res.json({
+            symbol: normalizePriceSymbol(String(symbol)),
+            interval,
+            candles: candles.map(c => ({
+                time: new Date(c.bucketStart).toISOString(),
+                open: c.open,
+                high: c.high,
+                low: c.low,
+                close: c.close,
+                volume: c.volume,
+                samples: c.sampleCount,
+            })),
+            count: candles.length
+        });
+    } catch (error) {
+        logger.error('Price candles fetch failed', error as Error);
+        res.status(500).json({ error: 'Failed to fetch price candles' });
+    }
+});
+
+/**
+ * Handler for the TWAP/VWAP endpoints
+ */
+function priceAverageHandler(kind: 'twap' | 'vwap') {
+    return async (req: Request, res: Response) => {
+        try {
+            const { symbol, source, from, to } = req.query;
+
+            if (!symbol) {
+                return res.status(400).json({ error: 'symbol is required' });
+            }
+
+            const query = {
+                source: source ? String(source) : undefined,
+                from: parseTime(from),
+                to: parseTime(to),
+            };
+            const average = kind === 'twap'
+                ? await priceHistoryService.getTwap(normalizePriceSymbol(String(symbol)), query)
+                : await priceHistoryService.getVwap(normalizePriceSymbol(String(symbol)), query);
+
+            if (!average) {
+                return res.status(404).json({ error: 'No price history for this range' });
+            }
+
+            res.json({
+                ...average,
+                from: new Date(average.from).toISOString(),
+                to: new Date(average.to).toISOString()
+            });
+        } catch (error) {
+            logger.error('Price average fetch failed', error as Error, { kind });
+            res.status(500).json({ error: 'Failed to compute average price' });
+        }
+    };
+}
+
+/**
+ * GET /api/perpai/prices/twap
+ * 
+ * Time-weighted average price over a range (default: last hour).
+ */
+router.get('/prices/twap', priceAverageHandler('twap'));
+
+/**
+ * GET /api/perpai/prices/vwap
+ * 
+ * Liquidity-weighted average price over a range (default: last hour).
+ */
+router.get('/prices/vwap', priceAverageHandler('vwap'));
+
 // ============================================
 // LIQUIDITY ENDPOINTS
 // ============================================
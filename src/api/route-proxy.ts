@@ -8,97 +8,87 @@
  *   GET    /api/routes        - List user routes
  *   DELETE /api/routes/:id    - Delete a route
  *   ALL    /proxy/:routeId/*  - Proxy handler with x402 payment
+ *
+ * Routes are priced per request, per KB of response, per token or in
+ * volume tiers (see services/x402/route-pricing.ts). Metered routes hold
+ * their maximum price against the caller's session (X-Session-Id) and
+ * capture the metered amount after upstream responds.
+ *
+ * Event-stream and NDJSON responses are relayed as they arrive. Metered
+ * streams requested with Accept: text/event-stream hold up to the
+ * session's remaining budget, are charged chunk by chunk, and are cut off
+ * once the hold is used up. SSE streams end with a relay.usage (or
+ * relay.budget_exhausted) event; every stream reports its charge in the
+ * X-Route-Charge trailer.
  */
 
 import { Router } from 'express';
 import type { Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '../lib/supabase.js';
 import { authenticateApiKey, type AuthenticatedRequest } from '../middleware/api-auth.js';
 import { facilitatorService } from '../services/x402/facilitator-service.js';
+import { entitlementStore } from '../services/x402/entitlement-store.js';
+import {
+    paymentAuthorizationService,
+    type PaymentAuthorization
+} from '../services/x402/payment-authorization.js';
+import { SESSION_BUDGET_CAPTURE } from '../services/x402/payment-middleware.js';
+import {
+    describeRoutePricing,
+    isMeteredPricing,
+    meterRouteUsage,
+    resolveRoutePricing,
+    RoutePricingError,
+    StreamMeter,
+    type RoutePricing,
+    type RouteUsage
+} from '../services/x402/route-pricing.js';
+import { routeStore, RouteInputError } from '../services/x402/route-store.js';
+import { RouteCallCounter, SupabaseRouteCallBackend } from '../services/x402/route-calls.js';
+import { createSessionLedger, fromBaseUnits } from '../services/session/session-ledger.js';
+import {
+    formatSseEvent,
+    isEventStream,
+    isStreamingContentType,
+    readLines,
+    readSseEvents,
+    RELAY_STREAM_EVENTS,
+    type StreamUsage
+} from '../sdk/lib/sse.js';
 import { Facilitator, CronosNetwork } from '@crypto.com/facilitator-client';
 import logger from '../lib/logger.js';
 
 const router = Router();
-
-const API_BASE_URL = process.env.API_BASE_URL || 'https://api.relaycore.xyz';
-
-interface Route {
-    id: string;
-    user_id: string;
-    name: string;
-    upstream_url: string;
-    method: string;
-    price_usdc: string;
-    pay_to: string;
-    secret_headers: Record<string, string>;
-    is_active: boolean;
-    request_count: number;
-    revenue: string;
-    created_at: string;
-}
+const sessionLedger = createSessionLedger(supabase);
+const routeCalls = new RouteCallCounter(new SupabaseRouteCallBackend(supabase));
 
 /**
  * POST /api/routes - Create a new route
  */
 router.post('/', authenticateApiKey({ required: true }), async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { name, upstreamUrl, method, priceUsdc, payTo, secretHeaders } = req.body;
-
-        if (!name || !upstreamUrl) {
-            return res.status(400).json({ error: 'Name and upstream URL are required' });
-        }
-
-        try {
-            new URL(upstreamUrl);
-        } catch {
-            return res.status(400).json({ error: 'Invalid upstream URL' });
-        }
-
-        const routeId = uuidv4();
+        const { name, upstreamUrl, method, priceUsdc, pricing, payTo, secretHeaders } = req.body;
         const userId = req.walletAddress || req.apiKey?.userId;
 
         if (!userId) {
             return res.status(401).json({ error: 'User ID not found' });
         }
 
-        const { data, error } = await supabase
-            .from('routes')
-            .insert({
-                id: routeId,
-                user_id: userId,
-                name,
-                upstream_url: upstreamUrl,
-                method: (method || 'GET').toUpperCase(),
-                price_usdc: priceUsdc || '0.01',
-                pay_to: payTo || userId,
-                secret_headers: secretHeaders || {},
-                is_active: true,
-                request_count: 0,
-                revenue: '0'
-            })
-            .select()
-            .single();
-
-        if (error) {
-            logger.error('Failed to create route', error);
-            return res.status(500).json({ error: 'Failed to create route' });
-        }
-
-        logger.info('Route created', { routeId, userId, name });
-
-        res.status(201).json({
-            id: data.id,
-            name: data.name,
-            method: data.method,
-            upstreamUrl: data.upstream_url,
-            priceUsdc: data.price_usdc,
-            payTo: data.pay_to,
-            proxyUrl: `${API_BASE_URL}/proxy/${data.id}`,
-            isActive: data.is_active,
-            createdAt: data.created_at
+        const route = await routeStore.create(userId, {
+            name,
+            upstreamUrl,
+            method,
+            priceUsdc,
+            pricing,
+            payTo,
+            secretHeaders
         });
+
+        res.status(201).json(route);
     } catch (error) {
+        if (error instanceof RouteInputError || error instanceof RoutePricingError) {
+            return res.status(400).json({ error: error.message });
+        }
         logger.error('Route creation error', error as Error);
         res.status(500).json({ error: 'Internal server error' });
     }
@@ -115,33 +105,7 @@ router.get('/', authenticateApiKey({ required: true }), async (req: Authenticate
             return res.status(401).json({ error: 'User ID not found' });
         }
 
-        const { data, error } = await supabase
-            .from('routes')
-            .select('*')
-            .eq('user_id', userId)
-            .eq('is_active', true)
-            .order('created_at', { ascending: false });
-
-        if (error) {
-            logger.error('Failed to fetch routes', error);
-            return res.status(500).json({ error: 'Failed to fetch routes' });
-        }
-
-        res.json({
-            routes: (data || []).map((r: Route) => ({
-                id: r.id,
-                name: r.name,
-                method: r.method,
-                upstreamUrl: r.upstream_url,
-                priceUsdc: r.price_usdc,
-                payTo: r.pay_to,
-                proxyUrl: `${API_BASE_URL}/proxy/${r.id}`,
-                requestCount: r.request_count,
-                revenue: r.revenue,
-                isActive: r.is_active,
-                createdAt: r.created_at
-            }))
-        });
+        res.json({ routes: await routeStore.listForUser(userId) });
     } catch (error) {
         logger.error('Route list error', error as Error);
         res.status(500).json({ error: 'Internal server error' });
@@ -153,25 +117,14 @@ router.get('/', authenticateApiKey({ required: true }), async (req: Authenticate
  */
 router.delete('/:id', authenticateApiKey({ required: true }), async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { id } = req.params;
+        const id = req.params.id as string;
         const userId = req.walletAddress || req.apiKey?.userId;
 
         if (!userId) {
             return res.status(401).json({ error: 'User ID not found' });
         }
 
-        const { error } = await supabase
-            .from('routes')
-            .update({ is_active: false })
-            .eq('id', id)
-            .eq('user_id', userId);
-
-        if (error) {
-            logger.error('Failed to delete route', error);
-            return res.status(500).json({ error: 'Failed to delete route' });
-        }
-
-        logger.info('Route deleted', { routeId: id, userId });
+        await routeStore.deactivate(userId, id);
         res.json({ success: true });
     } catch (error) {
         logger.error('Route delete error', error as Error);
@@ -193,7 +146,7 @@ export const proxyRouter = Router();
 proxyRouter.all('/:routeId', handleProxyRequest);
 
 async function handleProxyRequest(req: Request, res: Response) {
-    const { routeId } = req.params;
+    const routeId = req.params.routeId as string;
     const startTime = Date.now();
 
     try {
@@ -208,38 +161,88 @@ async function handleProxyRequest(req: Request, res: Response) {
             return res.status(404).json({ error: 'Route not found' });
         }
 
-        const priceBaseUnits = Math.round(parseFloat(route.price_usdc) * 1_000_000).toString();
+        const pricing = resolveRoutePricing(route);
+        const resourceUrl = `/proxy/${routeId}`;
 
         const paymentHeader = req.headers['x-payment'] as string;
         const paymentId = req.headers['x-payment-id'] as string;
+        const sessionId = req.headers['x-session-id'] as string;
+
+        // A paid tiered call claims its call number up front, so the quote it
+        // pays, the payment check and the recorded charge use one snapshot;
+        // a refused payment gives the number back
+        const call = await routeCalls.quote(
+            routeId,
+            pricing,
+            route.request_count || 0,
+            Boolean(sessionId || paymentHeader || paymentId)
+        );
+        const { requestCount, quote } = call;
+        const priceBaseUnits = quote.toString();
+
+        const paymentRequired = (details?: { entitlementError?: string; sessionError?: string }) => res.status(402).json({
+            error: 'Payment Required',
+            paymentId: `pay_${routeId}_${Date.now()}`,
+            paymentRequirements: {
+                scheme: 'exact',
+                network: 'cronos-testnet',
+                payTo: route.pay_to,
+                asset: process.env.USDC_TOKEN_ADDRESS || '0xc01efAaF7C5C61bEbFAeb358E1161b537b8bC0e0',
+                maxAmountRequired: priceBaseUnits,
+                maxTimeoutSeconds: 300,
+                resource: resourceUrl,
+                description: route.name
+            },
+            pricing,
+            pricingSummary: describeRoutePricing(pricing),
+            message: isMeteredPricing(pricing)
+                ? `Metered route (${describeRoutePricing(pricing)}): pay from a session with X-Session-Id`
+                : `Payment of $${fromBaseUnits(quote)} USDC required`,
+            network: 'cronos-testnet',
+            ...details
+        });
 
-        if (!paymentHeader && !paymentId) {
-            return res.status(402).json({
-                error: 'Payment Required',
-                paymentId: `pay_${routeId}_${Date.now()}`,
-                paymentRequirements: {
-                    scheme: 'exact',
-                    network: 'cronos-testnet',
-                    payTo: route.pay_to,
-                    asset: process.env.USDC_TOKEN_ADDRESS || '0xc01efAaF7C5C61bEbFAeb358E1161b537b8bC0e0',
-                    maxAmountRequired: priceBaseUnits,
-                    maxTimeoutSeconds: 300,
-                    resource: `/proxy/${routeId}`,
-                    description: route.name
-                },
-                message: `Payment of $${route.price_usdc} USDC required`,
-                network: 'cronos-testnet'
-            });
-        }
+        // Session payments hold the quote and capture the final amount after upstream responds
+        let authorization: PaymentAuthorization | null = null;
+        let hold = quote;
+
+        if (sessionId) {
+            if (isMeteredPricing(pricing) && isEventStream(req.headers.accept)) {
+                hold = await streamHold(sessionId, quote);
+            }
 
-        if (paymentHeader) {
+            try {
+                authorization = await paymentAuthorizationService.authorizeSession({
+                    sessionId,
+                    amount: hold,
+                    payTo: route.pay_to,
+                    resourceUrl,
+                    captureHandler: SESSION_BUDGET_CAPTURE,
+                    metadata: { routeId, pricingModel: pricing.model }
+                });
+            } catch (sessionError) {
+                logger.warn('Proxy session authorization rejected', {
+                    routeId,
+                    sessionId,
+                    error: (sessionError as Error).message
+                });
+                await routeCalls.refuse(routeId, call);
+                return paymentRequired({ sessionError: (sessionError as Error).message });
+            }
+        } else if (isMeteredPricing(pricing)) {
+            // The final amount is unknown until upstream responds, so a
+            // fixed-amount EIP-3009 payment cannot cover a metered call
+            return paymentRequired();
+        } else if (!paymentHeader && !paymentId) {
+            return paymentRequired();
+        } else if (paymentHeader) {
             // Use facilitator service to verify and settle payment
             // settlePayment internally verifies before settling
             try {
                 const paymentRequirements = facilitatorService.generatePaymentRequirements({
                     merchantAddress: route.pay_to,
                     amount: priceBaseUnits,
-                    resourceUrl: `/proxy/${routeId}`,
+                    resourceUrl,
                     description: route.name
                 });
 
@@ -252,13 +255,30 @@ async function handleProxyRequest(req: Request, res: Response) {
                     routeId,
                     txHash: settleResult.txHash
                 });
+
+                // Record the entitlement and use it for this call
+                const settledPaymentId = paymentId || `pay_${settleResult.txHash}`;
+                await entitlementStore.grant({
+                    paymentId: settledPaymentId,
+                    resourceUrl,
+                    userAddress: (req.headers['x-user-address'] as string) || '0x0000000000000000000000000000000000000000'
+                });
+                await entitlementStore.consume(settledPaymentId, resourceUrl);
             } catch (paymentError) {
                 logger.error('Payment verification/settlement failed', paymentError as Error);
+                await routeCalls.refuse(routeId, call);
                 return res.status(402).json({
                     error: 'Payment verification failed',
                     message: (paymentError as Error).message
                 });
             }
+        } else {
+            const entitlement = await entitlementStore.consume(paymentId, resourceUrl);
+            if (!entitlement.ok) {
+                logger.warn('Proxy entitlement rejected', { routeId, paymentId, reason: entitlement.reason });
+                await routeCalls.refuse(routeId, call);
+                return paymentRequired({ entitlementError: entitlement.reason });
+            }
         }
 
         const proxyPath = req.params[0] || '';
@@ -270,32 +290,78 @@ async function handleProxyRequest(req: Request, res: Response) {
         const upstreamHeaders: Record<string, string> = {
             'Content-Type': req.headers['content-type'] || 'application/json'
         };
+        if (req.headers.accept) {
+            upstreamHeaders.Accept = req.headers.accept;
+        }
 
         if (route.secret_headers) {
             Object.assign(upstreamHeaders, route.secret_headers);
         }
 
-        const upstreamResponse = await fetch(upstreamUrlWithQuery, {
-            method: req.method,
-            headers: upstreamHeaders,
-            body: ['GET', 'HEAD'].includes(req.method) ? undefined : JSON.stringify(req.body)
-        });
+        const upstreamAbort = new AbortController();
+        let upstreamResponse: globalThis.Response;
+        let responseData: string;
+        try {
+            upstreamResponse = await fetch(upstreamUrlWithQuery, {
+                method: req.method,
+                headers: upstreamHeaders,
+                body: ['GET', 'HEAD'].includes(req.method) ? undefined : JSON.stringify(req.body),
+                signal: upstreamAbort.signal
+            });
 
-        const responseData = await upstreamResponse.text();
+            if (upstreamResponse.body && isStreamingContentType(upstreamResponse.headers.get('content-type'))) {
+                return await streamProxyResponse(res, upstreamResponse, upstreamAbort, {
+                    routeId,
+                    pricing,
+                    requestCount,
+                    claimed: call.claimed,
+                    quote,
+                    hold,
+                    authorization,
+                    paymentId: authorization?.paymentId || paymentId || null,
+                    sessionId: sessionId || null,
+                    startTime
+                });
+            }
 
-        await supabase
-            .from('routes')
-            .update({
-                request_count: route.request_count + 1,
-                revenue: (parseFloat(route.revenue) + parseFloat(route.price_usdc)).toFixed(6)
-            })
-            .eq('id', routeId);
+            responseData = await upstreamResponse.text();
+        } catch (upstreamError) {
+            if (authorization) {
+                await paymentAuthorizationService.void(authorization.authorizationId, 'upstream_unreachable')
+                    .catch(err => logger.error('Failed to void proxy authorization', err as Error, { routeId }));
+            }
+            throw upstreamError;
+        }
+
+        // Prepaid calls were charged the quote; session calls are metered now
+        let usage = meterRouteUsage(pricing, { body: responseData, headers: upstreamResponse.headers }, requestCount);
+        if (!authorization) {
+            usage.amount = quote;
+        } else {
+            usage = await settleSessionCharge(authorization, usage, upstreamResponse.status, routeId);
+        }
+
+        await recordRouteUsage(routeId, usage, {
+            paymentId: authorization?.paymentId || paymentId || null,
+            sessionId: sessionId || null,
+            upstreamStatus: upstreamResponse.status,
+            claimed: call.claimed
+        });
 
         const latencyMs = Date.now() - startTime;
-        logger.info('Proxy request completed', { routeId, latencyMs, status: upstreamResponse.status });
+        logger.info('Proxy request completed', {
+            routeId,
+            latencyMs,
+            status: upstreamResponse.status,
+            pricingModel: usage.model,
+            units: usage.units,
+            charged: usage.amount.toString()
+        });
 
         res.setHeader('X-Route-Id', routeId);
         res.setHeader('X-Latency-Ms', latencyMs.toString());
+        res.setHeader('X-Route-Charge', fromBaseUnits(usage.amount));
+        res.setHeader('X-Route-Usage', `${usage.units} ${usage.unit}`);
 
         try {
             res.status(upstreamResponse.status).json(JSON.parse(responseData));
@@ -307,3 +373,184 @@ async function handleProxyRequest(req: Request, res: Response) {
         res.status(502).json({ error: 'Proxy error', message: (error as Error).message });
     }
 }
+
+/**
+ * Hold for a metered stream: the session's remaining budget, so the stream
+ * runs until it is spent, but never more than the route's maximum price
+ */
+async function streamHold(sessionId: string, quote: bigint): Promise<bigint> {
+    try {
+        const { available } = await sessionLedger.getBalance(sessionId);
+        return available > 0n && available < quote ? available : quote;
+    } catch {
+        // authorizeSession reports the session error
+        return quote;
+    }
+}
+
+interface ProxyStreamContext {
+    routeId: string;
+    pricing: RoutePricing;
+    requestCount: number;
+    claimed: boolean;
+    quote: bigint;
+    hold: bigint;
+    authorization: PaymentAuthorization | null;
+    paymentId: string | null;
+    sessionId: string | null;
+    startTime: number;
+}
+
+/**
+ * Relay an event-stream or NDJSON response chunk by chunk. Each SSE event
+ * or line is metered before it is forwarded; the stream stops when the
+ * hold would be exceeded or the client disconnects, and only the chunks
+ * forwarded are charged.
+ */
+async function streamProxyResponse(
+    res: Response,
+    upstream: globalThis.Response,
+    upstreamAbort: AbortController,
+    context: ProxyStreamContext
+): Promise<void> {
+    const { routeId, pricing, authorization } = context;
+    const contentType = upstream.headers.get('content-type') || 'text/event-stream';
+    const sse = isEventStream(contentType);
+    const meter = new StreamMeter(pricing, context.hold, context.requestCount, upstream.headers);
+
+    res.on('close', () => {
+        if (!res.writableFinished) upstreamAbort.abort();
+    });
+
+    res.status(upstream.status);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.setHeader('X-Route-Id', routeId);
+    res.setHeader('Trailer', 'X-Route-Charge, X-Route-Usage');
+    res.flushHeaders();
+
+    let streamError: Error | null = null;
+    try {
+        if (sse) {
+            for await (const event of readSseEvents(upstream.body!)) {
+                const text = formatSseEvent(event);
+                if (!meter.admit(text, [event.data])) break;
+                res.write(text);
+            }
+        } else {
+            for await (const line of readLines(upstream.body!)) {
+                const text = `${line}\n`;
+                if (!meter.admit(text, [line])) break;
+                res.write(text);
+            }
+        }
+    } catch (error) {
+        if (!upstreamAbort.signal.aborted) streamError = error as Error;
+    }
+    if (meter.budgetExhausted) upstreamAbort.abort();
+
+    // Prepaid calls were charged the quote; session calls pay for what was forwarded
+    let usage = meter.usage();
+    if (!authorization) {
+        usage.amount = context.quote;
+    } else {
+        usage = await settleSessionCharge(authorization, usage, upstream.status, routeId);
+    }
+
+    if (!res.destroyed) {
+        if (sse) {
+            if (streamError) {
+                res.write(formatSseEvent({
+                    event: RELAY_STREAM_EVENTS.error,
+                    data: JSON.stringify({ message: streamError.message })
+                }));
+            }
+            const summary: StreamUsage = {
+                units: usage.units,
+                unit: usage.unit,
+                charged: fromBaseUnits(usage.amount),
+                budgetExhausted: meter.budgetExhausted
+            };
+            res.write(formatSseEvent({
+                event: meter.budgetExhausted ? RELAY_STREAM_EVENTS.budgetExhausted : RELAY_STREAM_EVENTS.usage,
+                data: JSON.stringify(summary)
+            }));
+        }
+        res.addTrailers({
+            'X-Route-Charge': fromBaseUnits(usage.amount),
+            'X-Route-Usage': `${usage.units} ${usage.unit}`
+        });
+        res.end();
+    }
+
+    await recordRouteUsage(routeId, usage, {
+        paymentId: context.paymentId,
+        sessionId: context.sessionId,
+        upstreamStatus: upstream.status,
+        claimed: context.claimed
+    });
+
+    logger.info('Proxy stream completed', {
+        routeId,
+        latencyMs: Date.now() - context.startTime,
+        status: upstream.status,
+        pricingModel: usage.model,
+        units: usage.units,
+        charged: usage.amount.toString(),
+        budgetExhausted: meter.budgetExhausted,
+        ...(streamError && { error: streamError.message })
+    });
+}
+
+/**
+ * Capture the metered amount from a session hold, or void it when
+ * upstream failed. Returns the usage with the amount actually charged.
+ */
+async function settleSessionCharge(
+    authorization: PaymentAuthorization,
+    usage: RouteUsage,
+    upstreamStatus: number,
+    routeId: string
+): Promise<RouteUsage> {
+    try {
+        if (upstreamStatus >= 500) {
+            await paymentAuthorizationService.void(authorization.authorizationId, `upstream_${upstreamStatus}`);
+            return { ...usage, amount: 0n };
+        }
+        await paymentAuthorizationService.capture(authorization.authorizationId, usage.amount);
+        return usage;
+    } catch (error) {
+        logger.error('Failed to settle proxy session charge', error as Error, {
+            routeId,
+            authorizationId: authorization.authorizationId
+        });
+        return { ...usage, amount: 0n };
+    }
+}
+
+/**
+ * Record a proxy call and add its charge to the route's revenue. Calls
+ * that claimed their number are already counted.
+ */
+async function recordRouteUsage(
+    routeId: string,
+    usage: RouteUsage,
+    context: { paymentId: string | null; sessionId: string | null; upstreamStatus: number; claimed: boolean }
+): Promise<void> {
+    const { error } = await supabase.rpc('record_route_usage', {
+        p_route_id: routeId,
+        p_payment_id: context.paymentId,
+        p_session_id: context.sessionId,
+        p_pricing_model: usage.model,
+        p_units: usage.units,
+        p_unit: usage.unit,
+        p_amount: usage.amount.toString(),
+        p_upstream_status: context.upstreamStatus,
+        p_claimed: context.claimed
+    });
+
+    if (error) {
+        logger.error('Failed to record route usage', error, { routeId });
+    }
+}
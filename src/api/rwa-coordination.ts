@@ -145,6 +145,7 @@ router.post('/:rwaId/execute', async (req, res) => {
         if (!result.success) {
             return res.status(400).json({
                 success: false,
+                runId: result.runId,
                 completedTransitions: result.completedTransitions,
                 failedAt: result.failedAt,
                 error: result.error
@@ -153,6 +154,7 @@ router.post('/:rwaId/execute', async (req, res) => {
 
         res.json({
             success: true,
+            runId: result.runId,
             completedTransitions: result.completedTransitions
         });
     } catch (error) {
@@ -161,6 +163,35 @@ router.post('/:rwaId/execute', async (req, res) => {
     }
 });
 
+/**
+ * POST /api/rwa/coordination/runs/:runId/resume
+ * Resume an interrupted coordination run without repeating settled transitions
+ */
+router.post('/runs/:runId/resume', async (req, res) => {
+    try {
+        const result = await rwaAgentCoordinator.resumeCoordinationPlan(req.params.runId as string);
+
+        if (!result.success) {
+            return res.status(result.runId ? 400 : 404).json({
+                success: false,
+                runId: result.runId,
+                completedTransitions: result.completedTransitions,
+                failedAt: result.failedAt,
+                error: result.error
+            });
+        }
+
+        res.json({
+            success: true,
+            runId: result.runId,
+            completedTransitions: result.completedTransitions
+        });
+    } catch (error) {
+        logger.error('Coordination resume failed', error as Error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
 /**
  * GET /api/rwa/coordination/:rwaId/assignments
  * Get agent assignments for RWA
@@ -301,17 +301,7 @@ router.get('/:rwaId/next-states', async (req, res) => {
             });
         }
 
-        const validTransitions: Record<RWAState, RWAState[]> = {
-            [RWAState.CREATED]: [RWAState.VERIFIED, RWAState.DISPUTED],
-            [RWAState.VERIFIED]: [RWAState.ESCROWED, RWAState.DISPUTED],
-            [RWAState.ESCROWED]: [RWAState.IN_PROCESS, RWAState.DISPUTED],
-            [RWAState.IN_PROCESS]: [RWAState.FULFILLED, RWAState.DISPUTED],
-            [RWAState.FULFILLED]: [RWAState.SETTLED, RWAState.DISPUTED],
-            [RWAState.SETTLED]: [],
-            [RWAState.DISPUTED]: [RWAState.CREATED]
-        };
-
-        const nextStates = validTransitions[stateMachine.currentState] || [];
+        const nextStates = rwaStateMachineService.getNextStates(stateMachine.currentState);
 
         const statesWithCosts = nextStates.map(state => ({
             state,
@@ -3,6 +3,8 @@ import { supabase } from '../lib/supabase';
 import { graphIndexer } from '../services/indexer/graph-indexer';
 import { temporalIndexer } from '../services/indexer/temporal-indexer';
 import logger from '../lib/logger';
+import { authenticateApiKey, type AuthenticatedRequest } from '../middleware/api-auth';
+import { priceDriftLedger, checkListing, incidentFromCheck, type PriceDriftAction } from '../services/reputation/price-drift';
 
 const router = Router();
 
@@ -372,6 +374,67 @@ router.put('/:id', async (req, res) => {
     }
 });
 
+/**
+ * POST /api/services/:id/price-drift
+ *
+ * Report a 402 challenge that didn't match the service's listing (sent by
+ * RelayAgent when its payment guard trips). The challenge is taken from
+ * `paymentId`, a settled payment made by the reporter, or else fetched
+ * from the listed endpoint by Relay; it counts against the provider's
+ * reputation only if it violates the listing.
+ */
+router.post('/:id/price-drift', authenticateApiKey({ required: true }), async (req: AuthenticatedRequest, res) => {
+    try {
+        const id = req.params.id as string;
+        const { paymentId, action } = req.body || {};
+
+        if (action !== 'refused' && action !== 'approved') {
+            return res.status(400).json({ error: 'action must be refused or approved' });
+        }
+        if (paymentId !== undefined && (typeof paymentId !== 'string' || !paymentId)) {
+            return res.status(400).json({ error: 'paymentId must be a non-empty string' });
+        }
+
+        const { data: service } = await supabase
+            .from('services')
+            .select('id, owner_address, price_per_call, endpoint_url')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (!service) {
+            return res.status(404).json({ error: 'Service not found' });
+        }
+
+        const reporterAddress = req.apiKey!.userId;
+        const demand = await priceDriftLedger.evidenceDemand(service, reporterAddress, paymentId);
+        if (!demand) {
+            return res.status(422).json({
+                error: paymentId
+                    ? 'paymentId must be a settled payment made by the reporter'
+                    : 'The listed endpoint did not return a 402 challenge to check',
+            });
+        }
+
+        const check = checkListing(service, demand);
+        if (check.approved) {
+            return res.status(422).json({ error: 'The challenge matches the listing', recorded: false });
+        }
+
+        await priceDriftLedger.record({
+            serviceId: id,
+            providerAddress: service.owner_address,
+            reporterAddress,
+            ...incidentFromCheck(check),
+            action: action as PriceDriftAction,
+        });
+
+        res.status(201).json({ recorded: true, violations: check.violations.map(v => v.type) });
+    } catch (error) {
+        logger.error('Price drift report error', error as Error);
+        res.status(500).json({ error: 'Failed to record price drift' });
+    }
+});
+
 // ============================================
 // METRICS ENDPOINTS
 // ============================================
@@ -658,7 +721,8 @@ router.get('/schemas/chainable/:id', async (req, res) => {
 /**
  * GET /api/schemas/workflow
  * 
- * Suggest workflows between input and output types.
+ * Suggest workflows between input and output types, as WorkflowDefinitions
+ * (src/sdk/lib/workflow-dag.ts) that RelayAgent.executeWorkflow can run.
  */
 router.get('/schemas/workflow', async (req, res) => {
     try {
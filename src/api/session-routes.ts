@@ -6,8 +6,17 @@
  */
 
 import { Router } from 'express';
+import { ethers } from 'ethers';
 import { supabase } from '../lib/supabase.js';
-import { X402SessionService } from '../services/session/x402-session-service.js';
+import { getX402SessionService } from '../services/session/x402-session-service.js';
+import {
+    SpendingPolicyService,
+    SpendingPolicyError,
+    policyUpdateMessage,
+    approvalDecisionMessage,
+    type SpendApproval,
+    type SpendApprovalStatus
+} from '../services/session/spending-policy.js';
 import { Facilitator, CronosNetwork } from '@crypto.com/facilitator-client';
 import logger from '../lib/logger.js';
 
@@ -15,7 +24,47 @@ const router = Router();
 
 const RELAY_WALLET_ADDRESS = process.env.RELAY_WALLET_ADDRESS || process.env.WALLET_ADDRESS || '0x0000000000000000000000000000000000000000';
 
-const sessionService = new X402SessionService(supabase, RELAY_WALLET_ADDRESS);
+const sessionService = getX402SessionService();
+const spendingPolicies = new SpendingPolicyService(supabase);
+
+// Owner signatures on policy updates must be this fresh
+const POLICY_SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Check that `signature` is the session owner's signature of `message`
+ */
+async function verifySessionOwner(sessionId: string, message: string, signature: unknown): Promise<string | null> {
+    if (typeof signature !== 'string') {
+        return 'Missing owner signature';
+    }
+
+    const session = await sessionService.getSession(sessionId);
+    if (!session) {
+        return 'Session not found';
+    }
+
+    try {
+        const signer = ethers.verifyMessage(message, signature);
+        return signer.toLowerCase() === session.owner_address.toLowerCase() ? null : 'Signature is not from the session owner';
+    } catch {
+        return 'Invalid signature';
+    }
+}
+
+function formatApproval(approval: SpendApproval) {
+    return {
+        approvalId: approval.approvalId,
+        sessionId: approval.sessionId,
+        amount: ethers.formatUnits(approval.amount, 6),
+        agentAddress: approval.agentAddress,
+        serviceId: approval.serviceId,
+        category: approval.category,
+        status: approval.status,
+        createdAt: new Date(approval.createdAt).toISOString(),
+        expiresAt: new Date(approval.expiresAt).toISOString(),
+        decidedAt: approval.decidedAt ? new Date(approval.decidedAt).toISOString() : null
+    };
+}
 
 /**
  * POST /api/sessions/create
@@ -24,7 +73,7 @@ const sessionService = new X402SessionService(supabase, RELAY_WALLET_ADDRESS);
  */
 router.post('/create', async (req, res) => {
     try {
-        const { ownerAddress, maxSpend, durationHours, authorizedAgents } = req.body;
+        const { ownerAddress, maxSpend, durationHours, authorizedAgents, spendingPolicy } = req.body;
 
         if (!ownerAddress || !maxSpend || !durationHours) {
             return res.status(400).json({
@@ -36,7 +85,8 @@ router.post('/create', async (req, res) => {
             ownerAddress,
             maxSpend: String(maxSpend),
             durationHours: Number(durationHours),
-            authorizedAgents: authorizedAgents || []
+            authorizedAgents: authorizedAgents || [],
+            spendingPolicy
         });
 
         logger.info('Session created via API', {
@@ -57,6 +107,9 @@ router.post('/create', async (req, res) => {
             requiresPayment: result.requiresPayment
         });
     } catch (error) {
+        if (error instanceof SpendingPolicyError) {
+            return res.status(400).json({ error: error.message, code: error.code });
+        }
         logger.error('Session creation error', error as Error);
         res.status(500).json({
             error: 'Failed to create session',
@@ -146,6 +199,128 @@ router.get('/:sessionId', async (req, res) => {
     }
 });
 
+/**
+ * GET /api/sessions/:sessionId/policy
+ *
+ * Get the session spending policy
+ */
+router.get('/:sessionId/policy', async (req, res) => {
+    try {
+        const sessionId = req.params.sessionId as string;
+        const policy = await spendingPolicies.getPolicy(sessionId);
+
+        res.json({ sessionId, policy });
+    } catch (error) {
+        logger.error('Spending policy fetch error', error as Error);
+        res.status(500).json({
+            error: 'Failed to fetch spending policy',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * PUT /api/sessions/:sessionId/policy
+ *
+ * Replace the session spending policy (null removes it).
+ * Body: { policy, timestamp, signature } signed by the session owner
+ * over policyUpdateMessage(sessionId, policy, timestamp).
+ */
+router.put('/:sessionId/policy', async (req, res) => {
+    try {
+        const sessionId = req.params.sessionId as string;
+        const { policy, timestamp, signature } = req.body;
+
+        if (policy === undefined || !timestamp) {
+            return res.status(400).json({ error: 'Missing required fields: policy, timestamp, signature' });
+        }
+        if (Math.abs(Date.now() - Number(timestamp)) > POLICY_SIGNATURE_MAX_AGE_MS) {
+            return res.status(401).json({ error: 'Signature timestamp expired' });
+        }
+
+        const authError = await verifySessionOwner(sessionId, policyUpdateMessage(sessionId, policy, Number(timestamp)), signature);
+        if (authError) {
+            return res.status(authError === 'Session not found' ? 404 : 401).json({ error: authError });
+        }
+
+        const saved = await spendingPolicies.setPolicy(sessionId, policy);
+
+        res.json({ sessionId, policy: saved });
+    } catch (error) {
+        if (error instanceof SpendingPolicyError) {
+            return res.status(400).json({ error: error.message, code: error.code });
+        }
+        logger.error('Spending policy update error', error as Error);
+        res.status(500).json({
+            error: 'Failed to update spending policy',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * GET /api/sessions/:sessionId/approvals
+ *
+ * List spend approvals (optionally ?status=pending)
+ */
+router.get('/:sessionId/approvals', async (req, res) => {
+    try {
+        const sessionId = req.params.sessionId as string;
+        const status = req.query.status as SpendApprovalStatus | undefined;
+
+        const approvals = await spendingPolicies.listApprovals(sessionId, status);
+
+        res.json({ sessionId, approvals: approvals.map(formatApproval) });
+    } catch (error) {
+        logger.error('Spend approvals fetch error', error as Error);
+        res.status(500).json({
+            error: 'Failed to fetch spend approvals',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * POST /api/sessions/:sessionId/approvals/:approvalId
+ *
+ * Approve or reject a spend above the approval threshold.
+ * Body: { decision: 'approve' | 'reject', signature } signed by the
+ * session owner over approvalDecisionMessage(sessionId, approvalId, decision).
+ */
+router.post('/:sessionId/approvals/:approvalId', async (req, res) => {
+    try {
+        const sessionId = req.params.sessionId as string;
+        const approvalId = req.params.approvalId as string;
+        const { decision, signature } = req.body;
+
+        if (decision !== 'approve' && decision !== 'reject') {
+            return res.status(400).json({ error: "decision must be 'approve' or 'reject'" });
+        }
+
+        const authError = await verifySessionOwner(sessionId, approvalDecisionMessage(sessionId, approvalId, decision), signature);
+        if (authError) {
+            return res.status(authError === 'Session not found' ? 404 : 401).json({ error: authError });
+        }
+
+        const approval = await spendingPolicies.decideApproval(
+            sessionId,
+            approvalId,
+            decision === 'approve' ? 'approved' : 'rejected'
+        );
+
+        res.json({ approval: formatApproval(approval) });
+    } catch (error) {
+        if (error instanceof SpendingPolicyError) {
+            return res.status(error.code === 'APPROVAL_NOT_FOUND' ? 404 : 409).json({ error: error.message, code: error.code });
+        }
+        logger.error('Spend approval decision error', error as Error);
+        res.status(500).json({
+            error: 'Failed to decide spend approval',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
 /**
  * POST /api/sessions/:sessionId/refund
  *
@@ -11,6 +11,7 @@ router.get('/', async (req, res) => {
             agent_id: req.query.agent_id as string,
             service_id: req.query.service_id as string,
             session_id: req.query.session_id as string | undefined,
+            parent_task_id: req.query.parent_task_id as string | undefined,
             state: req.query.state as TaskQuery['state'],
             limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
             offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
@@ -51,9 +52,19 @@ router.get('/:taskId', async (req, res) => {
     }
 });
 
+router.get('/:taskId/steps', async (req, res) => {
+    try {
+        const steps = await taskStore.getSteps(req.params.taskId);
+        res.json({ steps, count: steps.length });
+    } catch (error) {
+        logger.error('Failed to get step tasks', error as Error);
+        res.status(500).json({ error: 'Failed to get step tasks' });
+    }
+});
+
 router.post('/', async (req, res) => {
     try {
-        const { agent_id, service_id, session_id, inputs } = req.body;
+        const { agent_id, service_id, session_id, parent_task_id, step_id, inputs } = req.body;
 
         if (!agent_id) {
             return res.status(400).json({ error: 'agent_id is required' });
@@ -63,6 +74,8 @@ router.post('/', async (req, res) => {
             agent_id,
             service_id,
             session_id,
+            parent_task_id,
+            step_id,
             inputs: inputs || {},
         });
 
@@ -3,19 +3,66 @@
  * 
  * Endpoints:
  * - POST /api/trade/quote - Get trade quote (0.01 USDC)
- * - POST /api/trade/execute - Execute trade (0.05 USDC)
+ * - POST /api/trade/execute - Execute trade (0.05 USDC; paper orders need an API key instead)
+ * - GET /api/trade/paper/:userAddress - Paper account and open paper positions
+ * - POST /api/trade/paper/close - Close a paper position (API key of the owner)
  */
 
 import express from 'express';
 import { requirePayment } from '../services/x402/payment-middleware.js';
-import { TradeRouter } from '../services/perpai/trade-router.js';
+import { authenticateApiKey, type AuthenticatedRequest } from '../middleware/api-auth.js';
+import { TradeRouter, VenueSelectionError, SplitOrderError } from '../services/perpai/trade-router.js';
+import { PriceConsensusError } from '../services/prices/price-consensus.js';
+import { paperVenue, PaperBalanceError, isPaperTrading } from '../services/perpai/paper-venue.js';
 import logger from '../lib/logger.js';
 
 const router = express.Router();
 const tradeRouter = new TradeRouter();
 
+/**
+ * Prices the sources disagree on are a temporary condition, not a server fault
+ */
+function sendPriceConsensusError(res: express.Response, error: PriceConsensusError) {
+    res.status(503).json({
+        error: error.message,
+        code: error.code,
+        rejectedSources: error.rejectedSources,
+    });
+}
+
 const network = (process.env.CRONOS_NETWORK as 'testnet' | 'mainnet') || 'testnet';
 
+const authenticateOwner = authenticateApiKey({ required: true });
+
+/**
+ * Paper accounts are only touched by the owner's API key
+ */
+function requireAccountOwner(req: AuthenticatedRequest, res: express.Response, next: express.NextFunction) {
+    const userAddress = String(req.body?.userAddress || '').toLowerCase();
+    if (!userAddress || req.walletAddress?.toLowerCase() !== userAddress) {
+        return res.status(403).json({ error: 'API key does not belong to userAddress' });
+    }
+    next();
+}
+
+const paidExecution = requirePayment({
+    merchantAddress: process.env.PAYMENT_RECIPIENT_ADDRESS || '0x0000000000000000000000000000000000000000',
+    amount: '50000', // 0.05 USDC (6 decimals)
+    resourceUrl: '/api/trade/execute',
+});
+
+/**
+ * Real orders pay for execution; paper orders are free but need the
+ * owner's API key
+ */
+function paidOrPaperOwner(req: AuthenticatedRequest, res: express.Response, next: express.NextFunction) {
+    const paper = typeof req.body?.paper === 'boolean' ? req.body.paper : undefined;
+    if (!isPaperTrading({ paper })) {
+        return paidExecution(req, res, next);
+    }
+    return authenticateOwner(req, res, () => requireAccountOwner(req, res, next));
+}
+
 /**
  * Trade Quote Endpoint
  * Requires 0.01 USDC payment via x402
@@ -45,6 +92,13 @@ router.post('/quote',
             logger.info('Trade quote generated', { pair, side, leverage, sizeUsd });
             res.json(quote);
         } catch (error: any) {
+            if (error instanceof PriceConsensusError) {
+                logger.warn('Trade quote failed: no price consensus', { symbol: error.symbol });
+                return sendPriceConsensusError(res, error);
+            }
+            if (error instanceof VenueSelectionError) {
+                return res.status(422).json({ error: error.message, code: error.code, candidates: error.candidates });
+            }
             logger.error('Trade quote failed', error);
             res.status(500).json({ error: error.message || 'Quote generation failed' });
         }
@@ -53,14 +107,10 @@ router.post('/quote',
 
 /**
  * Trade Execute Endpoint
- * Requires 0.05 USDC payment via x402
+ * Requires 0.05 USDC payment via x402, except for paper orders
  */
 router.post('/execute',
-    requirePayment({
-        merchantAddress: process.env.PAYMENT_RECIPIENT_ADDRESS || '0x0000000000000000000000000000000000000000',
-        amount: '50000', // 0.05 USDC (6 decimals)
-        resourceUrl: '/api/trade/execute',
-    }),
+    paidOrPaperOwner,
     async (req, res) => {
         try {
             const { pair, side, leverage, sizeUsd, userAddress, quoteId } = req.body;
@@ -78,15 +128,82 @@ router.post('/execute',
                 maxSlippage: req.body.maxSlippage || 0.5,
                 stopLoss: req.body.stopLoss,
                 takeProfit: req.body.takeProfit,
+                trailingStopPct: req.body.trailingStopPct,
+                split: req.body.split,
+                partialFill: req.body.partialFill === 'accept' ? 'accept' : 'unwind',
+                paper: typeof req.body.paper === 'boolean' ? req.body.paper : undefined,
             });
 
             logger.info('Trade executed', { tradeId: result.tradeId, txHash: result.txHash });
             res.json(result);
         } catch (error: any) {
+            if (error instanceof PriceConsensusError) {
+                logger.warn('Trade execution failed: no price consensus', { symbol: error.symbol });
+                return sendPriceConsensusError(res, error);
+            }
+            if (error instanceof VenueSelectionError) {
+                return res.status(422).json({ error: error.message, code: error.code, candidates: error.candidates });
+            }
+            if (error instanceof PaperBalanceError) {
+                return res.status(422).json({
+                    error: error.message,
+                    code: error.code,
+                    balanceUsd: error.balanceUsd,
+                    requiredUsd: error.requiredUsd,
+                });
+            }
+            if (error instanceof SplitOrderError) {
+                logger.error('Trade execution failed', error, { parentTradeId: error.parentTradeId });
+                return res.status(502).json({
+                    error: error.message,
+                    code: error.code,
+                    tradeId: error.parentTradeId,
+                    filledUsd: error.filledUsd,
+                    attempts: error.attempts,
+                    unwound: error.unwound,
+                });
+            }
             logger.error('Trade execution failed', error);
             res.status(500).json({ error: error.message || 'Trade execution failed' });
         }
     }
 );
 
+/**
+ * Paper Account Endpoint
+ * Balance, realized and unrealized PnL and open paper positions
+ */
+router.get('/paper/:userAddress', async (req, res) => {
+    try {
+        const summary = await paperVenue.getAccountSummary(req.params.userAddress as string);
+        res.json(summary);
+    } catch (error: any) {
+        logger.error('Paper account lookup failed', error);
+        res.status(500).json({ error: error.message || 'Paper account lookup failed' });
+    }
+});
+
+/**
+ * Paper Close Endpoint
+ * Settles a paper position at the current consensus price
+ */
+router.post('/paper/close', authenticateOwner, requireAccountOwner, async (req, res) => {
+    try {
+        const { tradeId, userAddress } = req.body;
+
+        if (!tradeId || !userAddress) {
+            return res.status(400).json({ error: 'Missing required parameters' });
+        }
+
+        const result = await tradeRouter.closePaperTrade(tradeId, userAddress);
+        res.json(result);
+    } catch (error: any) {
+        if (error instanceof PriceConsensusError) {
+            return sendPriceConsensusError(res, error);
+        }
+        logger.error('Paper close failed', error);
+        res.status(500).json({ error: error.message || 'Paper close failed' });
+    }
+});
+
 export default router;
@@ -60,16 +60,16 @@ export default function NetworkGraph({ className = '', isDark = true }: NetworkG
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({
                         query: `{
-                            trades(limit: 30) { id pair venue { name } }
-                            agents(limit: 20) { id name }
+                            trades(first: 30) { edges { node { id pair venue { name } } } }
+                            agents(first: 20) { edges { node { address } } }
                             venues { name }
                         }`
                     })
                 });
                 const { data } = await response.json();
                 setLiveData({
-                    trades: data?.trades || [],
-                    agents: data?.agents || [],
+                    trades: data?.trades?.edges.map((e: any) => e.node) || [],
+                    agents: data?.agents?.edges.map((e: any) => e.node) || [],
                     venues: data?.venues || []
                 });
             } catch (e) {
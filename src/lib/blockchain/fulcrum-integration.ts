@@ -1,5 +1,6 @@
 import { ethers } from 'ethers';
 import { getProvider } from './provider';
+import { settledOrNull, type PerpMarketInfo, type UnsignedPerpTransaction } from './perp-market';
 import logger from '../../lib/logger';
 
 /**
@@ -18,6 +19,8 @@ import logger from '../../lib/logger';
 const FULCROM_TRADING = process.env.VITE_FULCROM_TRADING || '0x0000000000000000000000000000000000000001';
 const FULCROM_STORAGE = process.env.VITE_FULCROM_STORAGE || '0x0000000000000000000000000000000000000002';
 const FULCROM_CALLBACKS = process.env.VITE_FULCROM_CALLBACKS || '0x0000000000000000000000000000000000000003';
+const FULCROM_PAIRS_STORAGE = process.env.VITE_FULCROM_PAIRS_STORAGE || '0x0000000000000000000000000000000000000000';
+const FULCROM_PAIR_INFOS = process.env.VITE_FULCROM_PAIR_INFOS || '0x0000000000000000000000000000000000000000';
 
 // Minimal ABI for Fulcrom Trading
 const TRADING_ABI = [
@@ -31,8 +34,24 @@ const STORAGE_ABI = [
     'function openTrades(address trader, uint256 pairIndex, uint256 index) external view returns (tuple(address trader, uint256 pairIndex, uint256 index, uint256 initialPosToken, uint256 positionSizeDai, uint256 openPrice, bool buy, uint256 leverage, uint256 tp, uint256 sl))',
     'function openTradesCount(address trader, uint256 pairIndex) external view returns (uint256)',
     'function getPendingOrderIds(address trader) external view returns (uint256[] memory)',
+    // side: 0 = long, 1 = short, 2 = max per side
+    'function openInterestDai(uint256 pairIndex, uint256 side) external view returns (uint256)',
 ];
 
+const PAIRS_STORAGE_ABI = [
+    'function pairMaxLeverage(uint256 pairIndex) external view returns (uint256)',
+];
+
+const PAIR_INFOS_ABI = [
+    'function pairParams(uint256 pairIndex) external view returns (uint256 onePercentDepthAbove, uint256 onePercentDepthBelow, uint256 rolloverFeePerBlockP, uint256 fundingFeePerBlockP)',
+];
+
+// Fee percentages per block use 10 decimals
+const FEE_PRECISION = 1e10;
+
+// ~5.7s Cronos blocks
+const BLOCKS_PER_HOUR = 630;
+
 interface FulcrumTrade {
     trader: string;
     pairIndex: bigint;
@@ -50,11 +69,15 @@ export class FulcrumIntegration {
     private provider: ethers.Provider;
     private trading: ethers.Contract;
     private storage: ethers.Contract;
+    private pairsStorage: ethers.Contract;
+    private pairInfos: ethers.Contract;
 
     constructor() {
         this.provider = getProvider();
         this.trading = new ethers.Contract(FULCROM_TRADING, TRADING_ABI, this.provider);
         this.storage = new ethers.Contract(FULCROM_STORAGE, STORAGE_ABI, this.provider);
+        this.pairsStorage = new ethers.Contract(FULCROM_PAIRS_STORAGE, PAIRS_STORAGE_ABI, this.provider);
+        this.pairInfos = new ethers.Contract(FULCROM_PAIR_INFOS, PAIR_INFOS_ABI, this.provider);
     }
 
     /**
@@ -186,6 +209,15 @@ export class FulcrumIntegration {
         }
     }
 
+    /**
+     * Unsigned closeTradeMarket call for the trader to sign
+     */
+    encodeClosePosition(params: { positionKey: string }): UnsignedPerpTransaction {
+        const { pairIndex, index } = this.parsePositionKey(params.positionKey);
+        const data = this.trading.interface.encodeFunctionData('closeTradeMarket', [pairIndex, index]);
+        return { to: FULCROM_TRADING, data, value: '0' };
+    }
+
     /**
      * Get current position details
      */
@@ -287,6 +319,59 @@ export class FulcrumIntegration {
         return { txHash: receipt.hash };
     }
 
+    /**
+     * Market state for one side of a pair.
+     * gTrade-style pricing: impact grows with the side's open interest against
+     * the 1% depth, the heavier side pays funding to the lighter one, and
+     * rollover is charged on every position.
+     */
+    async getMarketInfo(pair: string, isLong: boolean, sizeUsd: number): Promise<PerpMarketInfo> {
+        const pairIndex = this.getPairIndex(pair);
+        const storage = this.storage as any;
+
+        const [maxLeverage, longOi, shortOi, maxOi, params] = await Promise.allSettled([
+            this.pairsStorage.pairMaxLeverage(pairIndex).then((v: bigint) => Number(v)),
+            storage.openInterestDai(pairIndex, 0).then((v: bigint) => Number(ethers.formatUnits(v, 18))),
+            storage.openInterestDai(pairIndex, 1).then((v: bigint) => Number(ethers.formatUnits(v, 18))),
+            storage.openInterestDai(pairIndex, 2).then((v: bigint) => Number(ethers.formatUnits(v, 18))),
+            this.pairInfos.pairParams(pairIndex),
+        ]);
+
+        const longs = settledOrNull(longOi);
+        const shorts = settledOrNull(shortOi);
+        const sideOi = isLong ? longs : shorts;
+        const max = settledOrNull(maxOi);
+        const pairParams = settledOrNull(params);
+
+        let fundingRateHourly: number | null = null;
+        let priceImpactBps: number | null = null;
+        if (pairParams) {
+            const perBlockToHourly = (p: bigint) => (Number(p) / FEE_PRECISION / 100) * BLOCKS_PER_HOUR;
+            const rollover = perBlockToHourly(pairParams.rolloverFeePerBlockP);
+            const funding = perBlockToHourly(pairParams.fundingFeePerBlockP);
+
+            if (longs !== null && shorts !== null) {
+                const paysFunding = isLong ? longs >= shorts : shorts >= longs;
+                fundingRateHourly = rollover + (paysFunding ? funding : -funding);
+            }
+
+            const depth = Number(isLong ? pairParams.onePercentDepthAbove : pairParams.onePercentDepthBelow);
+            if (depth > 0 && sideOi !== null) {
+                // Impact in percent = (open interest + size / 2) / 1% depth
+                priceImpactBps = ((sideOi + sizeUsd / 2) / depth) * 100;
+            }
+        }
+
+        return {
+            pair,
+            isLong,
+            maxLeverage: settledOrNull(maxLeverage),
+            availableOpenInterestUsd: max !== null && sideOi !== null && max > 0 ? Math.max(0, max - sideOi) : null,
+            fundingRateHourly,
+            priceImpactBps,
+        };
+    }
+
     /**
      * Get next trade index for a user
      */
@@ -1,5 +1,12 @@
 import { ethers } from 'ethers';
 import { getProvider } from './provider';
+import {
+    VAULT_MARKET_ABI,
+    readVaultMarketInfo,
+    unknownMarketInfo,
+    type PerpMarketInfo,
+    type UnsignedPerpTransaction
+} from './perp-market';
 import logger from '../../lib/logger';
 
 /**
@@ -15,6 +22,7 @@ import logger from '../../lib/logger';
 // GMX V2 Contract Addresses (Cronos - if deployed, otherwise use testnet)
 const GMX_EXCHANGE_ROUTER = process.env.VITE_GMX_EXCHANGE_ROUTER || '0x0000000000000000000000000000000000000000';
 const GMX_READER = process.env.VITE_GMX_READER || '0x0000000000000000000000000000000000000000';
+const GMX_VAULT = process.env.VITE_GMX_VAULT || '0x0000000000000000000000000000000000000000';
 
 // Minimal ABI for GMX V2 Exchange Router
 const EXCHANGE_ROUTER_ABI = [
@@ -26,6 +34,23 @@ const READER_ABI = [
     'function getPosition(address account, address collateralToken, address indexToken, bool isLong) external view returns (uint256, uint256, uint256, uint256, uint256, uint256, bool, uint256)',
 ];
 
+const VAULT_ABI = [
+    'function maxLeverage() external view returns (uint256)',
+    'function getMaxPrice(address token) external view returns (uint256)',
+    'function getMinPrice(address token) external view returns (uint256)',
+    ...VAULT_MARKET_ABI,
+];
+
+// Index token decimals for supported pairs
+// Keeper fee sent with decrease orders
+const CLOSE_EXECUTION_FEE = ethers.parseEther('0.001');
+
+const INDEX_TOKEN_DECIMALS: Record<string, number> = {
+    'BTC-USD': 8,
+    'ETH-USD': 18,
+    'CRO-USD': 18,
+};
+
 interface GMXPosition {
     size: bigint;
     collateral: bigint;
@@ -41,11 +66,13 @@ export class GMXIntegration {
     private provider: ethers.Provider;
     private exchangeRouter: ethers.Contract;
     private reader: ethers.Contract;
+    private vault: ethers.Contract;
 
     constructor() {
         this.provider = getProvider();
         this.exchangeRouter = new ethers.Contract(GMX_EXCHANGE_ROUTER, EXCHANGE_ROUTER_ABI, this.provider);
         this.reader = new ethers.Contract(GMX_READER, READER_ABI, this.provider);
+        this.vault = new ethers.Contract(GMX_VAULT, VAULT_ABI, this.provider);
     }
 
     /**
@@ -142,16 +169,6 @@ export class GMXIntegration {
         try {
             logger.info('Closing GMX position', { positionKey: params.positionKey });
 
-            const executionFee = ethers.parseEther('0.001');
-
-            // Parse position key to get token and direction
-            const { indexToken, isLong } = this.parsePositionKey(params.positionKey);
-
-            const slippageMultiplier = isLong
-                ? 1 - params.acceptableSlippage / 100
-                : 1 + params.acceptableSlippage / 100;
-            const triggerPrice = Math.floor(params.currentPrice * slippageMultiplier * 1e30);
-
             let signer;
             if (params.privateKey) {
                 signer = new ethers.Wallet(params.privateKey, this.provider);
@@ -167,14 +184,8 @@ export class GMXIntegration {
             const routerWithSigner = this.exchangeRouter.connect(signer) as any;
 
             const tx = await routerWithSigner.createDecreaseOrder(
-                indexToken,
-                ethers.parseUnits(params.sizeUsd.toString(), 30), // sizeDelta
-                indexToken, // collateralToken (same as index for simplicity)
-                0, // collateralDelta (0 to close entire position)
-                isLong,
-                triggerPrice,
-                !isLong, // triggerAboveThreshold (opposite of position direction)
-                { value: executionFee }
+                ...this.decreaseOrderArgs(params),
+                { value: CLOSE_EXECUTION_FEE }
             );
 
             const receipt = await tx.wait();
@@ -188,6 +199,42 @@ export class GMXIntegration {
         }
     }
 
+    /**
+     * Unsigned createDecreaseOrder call for the position owner to sign
+     */
+    encodeClosePosition(params: {
+        positionKey: string;
+        sizeUsd: number;
+        acceptableSlippage: number;
+        currentPrice: number;
+    }): UnsignedPerpTransaction {
+        const data = this.exchangeRouter.interface.encodeFunctionData('createDecreaseOrder', this.decreaseOrderArgs(params));
+        return { to: GMX_EXCHANGE_ROUTER, data, value: CLOSE_EXECUTION_FEE.toString() };
+    }
+
+    /**
+     * createDecreaseOrder arguments that close a whole position
+     */
+    private decreaseOrderArgs(params: { positionKey: string; sizeUsd: number; acceptableSlippage: number; currentPrice: number }) {
+        // Parse position key to get token and direction
+        const { indexToken, isLong } = this.parsePositionKey(params.positionKey);
+
+        const slippageMultiplier = isLong
+            ? 1 - params.acceptableSlippage / 100
+            : 1 + params.acceptableSlippage / 100;
+        const triggerPrice = Math.floor(params.currentPrice * slippageMultiplier * 1e30);
+
+        return [
+            indexToken,
+            ethers.parseUnits(params.sizeUsd.toString(), 30), // sizeDelta
+            indexToken, // collateralToken (same as index for simplicity)
+            0, // collateralDelta (0 to close entire position)
+            isLong,
+            triggerPrice,
+            !isLong, // triggerAboveThreshold (opposite of position direction)
+        ];
+    }
+
     /**
      * Get current position details
      */
@@ -228,6 +275,24 @@ export class GMXIntegration {
         }
     }
 
+    /**
+     * Market state for one side of a pair from the GMX vault
+     */
+    async getMarketInfo(pair: string, isLong: boolean, sizeUsd: number): Promise<PerpMarketInfo> {
+        const decimals = INDEX_TOKEN_DECIMALS[pair];
+        if (decimals === undefined || GMX_VAULT === ethers.ZeroAddress) {
+            return unknownMarketInfo(pair, isLong);
+        }
+
+        return readVaultMarketInfo(this.vault, {
+            pair,
+            token: this.getIndexToken(pair),
+            decimals,
+            isLong,
+            sizeUsd,
+        });
+    }
+
     /**
      * Get index token address for a trading pair
      */
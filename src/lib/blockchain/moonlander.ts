@@ -7,6 +7,12 @@
 
 import { ethers } from 'ethers';
 import { getProvider, getSigner } from './provider';
+import {
+    VAULT_MARKET_ABI,
+    readVaultMarketInfo,
+    type PerpMarketInfo,
+    type UnsignedPerpTransaction
+} from './perp-market';
 
 // Moonlander Perpetual Contract ABI
 const MOONLANDER_PERP_ABI = [
@@ -26,6 +32,7 @@ const MOONLANDER_PERP_ABI = [
     'function maxLeverage() external view returns (uint256)',
     'function liquidationFee() external view returns (uint256)',
     'function getUtilisation() external view returns (uint256)',
+    ...VAULT_MARKET_ABI,
 
     // Events
     'event IncreasePosition(bytes32 key, address account, address indexToken, uint256 collateralDelta, uint256 sizeDelta, bool isLong, uint256 price, uint256 fee)',
@@ -41,6 +48,13 @@ const TOKENS: Record<string, string> = {
     'USDC': '0xc21223249CA28397B4B6541dfFaEcC539BfF0c59'
 };
 
+const TOKEN_DECIMALS: Record<string, number> = {
+    'BTC': 8,
+    'ETH': 18,
+    'CRO': 18,
+    'USDC': 6
+};
+
 // Contract addresses
 const MOONLANDER_ADDRESS = process.env.VITE_MOONLANDER_ADDRESS || '0xE6F6351fb66f3a35313fEEFF9116698665FBEeC9';
 
@@ -224,6 +238,19 @@ export class MoonlanderIntegration {
         }
     }
 
+    /**
+     * Unsigned closePosition call for the position owner to sign
+     */
+    encodeClosePosition(params: ClosePositionParams): UnsignedPerpTransaction {
+        const data = this.contract.interface.encodeFunctionData('closePosition', [
+            params.positionKey,
+            ethers.parseUnits(params.sizeUsd.toFixed(6), 30),
+            ethers.parseUnits(params.currentPrice.toFixed(8), 30)
+        ]);
+
+        return { to: MOONLANDER_ADDRESS, data, value: '0' };
+    }
+
     /**
      * Get position details
      */
@@ -344,6 +371,22 @@ export class MoonlanderIntegration {
         }
     }
 
+    /**
+     * Market state for one side of a pair: leverage cap, open-interest
+     * headroom, hourly borrow rate and estimated impact for sizeUsd
+     */
+    async getMarketInfo(pair: string, isLong: boolean, sizeUsd: number): Promise<PerpMarketInfo> {
+        const symbol = pair.split('-')[0].toUpperCase();
+
+        return readVaultMarketInfo(this.contract, {
+            pair,
+            token: this.getTokenAddress(pair),
+            decimals: TOKEN_DECIMALS[symbol] ?? 18,
+            isLong,
+            sizeUsd,
+        });
+    }
+
     /**
      * Get current token price from contract
      */
@@ -0,0 +1,151 @@
+/**
+ * Perpetual Venue Market Data
+ *
+ * Common shape for the per-side market state that the Moonlander, GMX and
+ * Fulcrom clients expose, so the trade router can compare venues for a
+ * specific pair, side, leverage and size.
+ */
+
+import { ethers } from 'ethers';
+
+export interface PerpMarketInfo {
+    pair: string;
+    isLong: boolean;
+    /** Highest leverage the venue accepts for this market */
+    maxLeverage: number | null;
+    /** Open interest still available on this side (USD); null when uncapped or not exposed */
+    availableOpenInterestUsd: number | null;
+    /** Funding/borrow rate paid by this side per hour, as a fraction; negative when the side receives */
+    fundingRateHourly: number | null;
+    /** Expected price impact for the requested size, in basis points */
+    priceImpactBps: number | null;
+}
+
+/**
+ * Unsigned venue call, for users who sign closes in their own wallet
+ */
+export interface UnsignedPerpTransaction {
+    to: string;
+    data: string;
+    /** Wei, as a decimal string */
+    value: string;
+}
+
+/**
+ * GMX v1-style vault reads used by readVaultMarketInfo. The contract must
+ * also expose maxLeverage(), getMaxPrice(address) and getMinPrice(address).
+ */
+export const VAULT_MARKET_ABI = [
+    'function poolAmounts(address token) external view returns (uint256)',
+    'function reservedAmounts(address token) external view returns (uint256)',
+    'function globalShortSizes(address token) external view returns (uint256)',
+    'function maxGlobalShortSizes(address token) external view returns (uint256)',
+    'function getNextFundingRate(address token) external view returns (uint256)',
+];
+
+// getNextFundingRate precision, charged per hourly interval
+const FUNDING_RATE_PRECISION = 1_000_000;
+
+// maxLeverage() is in basis points (10000 = 1x)
+const LEVERAGE_PRECISION = 10_000;
+
+// Vault prices use 30 decimals
+const PRICE_DECIMALS = 30;
+
+// Price impact of a trade that consumes the venue's entire remaining open interest
+const FULL_DEPTH_IMPACT_BPS = 100;
+
+/**
+ * Impact for oracle-priced venues: half the max/min price spread plus a
+ * linear term for how much of the remaining open interest the trade uses
+ */
+export function estimateOracleVenueImpactBps(
+    sizeUsd: number,
+    availableOpenInterestUsd: number | null,
+    spreadBps: number | null
+): number | null {
+    if (availableOpenInterestUsd === null && spreadBps === null) return null;
+
+    const spreadCost = (spreadBps ?? 0) / 2;
+    if (availableOpenInterestUsd === null) return spreadCost;
+    if (availableOpenInterestUsd <= 0) return Infinity;
+
+    return spreadCost + (sizeUsd / availableOpenInterestUsd) * FULL_DEPTH_IMPACT_BPS;
+}
+
+/**
+ * Resolve a settled contract read, or null when it failed
+ */
+export function settledOrNull<T>(result: PromiseSettledResult<T>): T | null {
+    return result.status === 'fulfilled' ? result.value : null;
+}
+
+/**
+ * Market info with every field unknown, for venues that can't be read
+ */
+export function unknownMarketInfo(pair: string, isLong: boolean): PerpMarketInfo {
+    return {
+        pair,
+        isLong,
+        maxLeverage: null,
+        availableOpenInterestUsd: null,
+        fundingRateHourly: null,
+        priceImpactBps: null,
+    };
+}
+
+/**
+ * Read market info from a GMX v1-style vault. Longs are bounded by the
+ * unreserved pool tokens, shorts by the global short cap (0 = uncapped).
+ * Individual reads that fail come back as null.
+ */
+export async function readVaultMarketInfo(
+    vault: ethers.Contract,
+    params: { pair: string; token: string; decimals: number; isLong: boolean; sizeUsd: number }
+): Promise<PerpMarketInfo> {
+    const contract = vault as any;
+    const { token, isLong } = params;
+
+    const readPrice = async (max: boolean) =>
+        Number(ethers.formatUnits(await (max ? contract.getMaxPrice(token) : contract.getMinPrice(token)), PRICE_DECIMALS));
+
+    const readHeadroom = async (): Promise<number | null> => {
+        if (isLong) {
+            const [pool, reserved, price]: [bigint, bigint, number] = await Promise.all([
+                contract.poolAmounts(token),
+                contract.reservedAmounts(token),
+                readPrice(false),
+            ]);
+            if (price <= 0) throw new Error(`No vault price for ${params.pair}`);
+            return Number(ethers.formatUnits(pool - reserved, params.decimals)) * price;
+        }
+
+        const [max, current]: [bigint, bigint] = await Promise.all([
+            contract.maxGlobalShortSizes(token),
+            contract.globalShortSizes(token),
+        ]);
+        return max === 0n ? null : Number(ethers.formatUnits(max - current, PRICE_DECIMALS));
+    };
+
+    const [maxLeverage, maxPrice, minPrice, fundingRate, headroom] = await Promise.allSettled([
+        contract.maxLeverage().then((v: bigint) => Number(v) / LEVERAGE_PRECISION),
+        readPrice(true),
+        readPrice(false),
+        contract.getNextFundingRate(token).then((v: bigint) => Number(v) / FUNDING_RATE_PRECISION),
+        readHeadroom(),
+    ]);
+
+    const high = settledOrNull(maxPrice);
+    const low = settledOrNull(minPrice);
+    const spreadBps = high && low ? ((high - low) / low) * 10_000 : null;
+    const availableOpenInterestUsd = settledOrNull(headroom);
+
+    return {
+        pair: params.pair,
+        isLong,
+        maxLeverage: settledOrNull(maxLeverage),
+        availableOpenInterestUsd,
+        fundingRateHourly: settledOrNull(fundingRate),
+        priceImpactBps: estimateOracleVenueImpactBps(params.sizeUsd, availableOpenInterestUsd, spreadBps),
+    };
+}
@@ -1,109 +1,123 @@
 /**
  * Ethereum/Cronos Provider Service
- * 
- * Provides a reliable provider using ethers.FallbackProvider or automatic rotation.
- * Supports both Cronos Testnet and Mainnet.
+ *
+ * Shared RPC provider pools, one per chain. Every service that reads from
+ * the chain should get its provider here instead of constructing an
+ * ethers.JsonRpcProvider, so failover, rate-limit backoff and batching
+ * apply everywhere.
+ *
+ * Endpoints per chain, in order of preference:
+ * - CRONOS_RPC_URLS (comma-separated) for the configured network
+ * - CRONOS_RPC_URL, CRONOS_RPC_PRIMARY, CRONOS_RPC_FALLBACK_1/2 for the configured network
+ * - the chain-specific variable (CRONOS_MAINNET_RPC, CRONOS_TESTNET_RPC, ...)
+ * - the public endpoints below
+ *
+ * In the browser the same variables are read with a VITE_ prefix.
  */
 
 import { ethers } from 'ethers';
+import logger from '../logger.js';
+import { RpcProviderPool } from './rpc-pool.js';
 
-// RPC endpoints for Cronos
-const RPC_ENDPOINTS = {
-    testnet: [
-        'https://evm-t3.cronos.org',
-        'https://cronos-testnet.drpc.org'
-    ].filter(Boolean),
-    mainnet: [
-        'https://evm.cronos.org',
-        'https://cronos-evm.publicnode.com'
-    ].filter(Boolean)
-};
+export { RpcProviderPool, RpcPoolError } from './rpc-pool.js';
+export type { RpcEndpointHealth } from './rpc-pool.js';
+
+interface ChainRpcConfig {
+    name: string;
+    env: string[];
+    defaults: string[];
+}
 
-const CHAIN_IDS = {
-    testnet: 338,
-    mainnet: 25
+const CHAIN_RPC_CONFIG: Record<number, ChainRpcConfig> = {
+    25: {
+        name: 'Cronos',
+        env: ['CRONOS_MAINNET_RPC'],
+        defaults: ['https://evm.cronos.org', 'https://cronos-evm.publicnode.com']
+    },
+    338: {
+        name: 'Cronos Testnet',
+        env: ['CRONOS_TESTNET_RPC'],
+        defaults: ['https://evm-t3.cronos.org', 'https://cronos-testnet.drpc.org']
+    },
+    388: {
+        name: 'Cronos zkEVM',
+        env: ['CRONOS_ZKEVM_MAINNET_RPC'],
+        defaults: ['https://mainnet.zkevm.cronos.org']
+    },
+    240: {
+        name: 'Cronos zkEVM Testnet',
+        env: ['CRONOS_ZKEVM_TESTNET_RPC', 'CRONOS_ZKEVM_RPC'],
+        defaults: ['https://testnet.zkevm.cronos.org']
+    }
 };
 
-class ReliableProvider {
-    private provider: ethers.JsonRpcProvider | null = null;
-    private network: 'testnet' | 'mainnet';
-    private rpcIndex = 0;
+// Variables that configure the default network's endpoints
+const DEFAULT_NETWORK_ENV = ['CRONOS_RPC_URL', 'CRONOS_RPC_PRIMARY', 'CRONOS_RPC_FALLBACK_1', 'CRONOS_RPC_FALLBACK_2'];
 
-    constructor(network: 'testnet' | 'mainnet') {
-        this.network = network;
+// Support both browser and Node.js environments
+function readEnv(name: string): string | undefined {
+    if (typeof window !== 'undefined') {
+        return (import.meta.env as Record<string, string | undefined>)[`VITE_${name}`] || undefined;
     }
+    return process.env[name] || process.env[`VITE_${name}`] || undefined;
+}
+
+/**
+ * Chain ID of the configured network (CRONOS_NETWORK: testnet/mainnet or cronos-testnet/cronos-mainnet).
+ */
+export function getDefaultChainId(): number {
+    return (readEnv('CRONOS_NETWORK') || 'testnet').includes('mainnet') ? 25 : 338;
+}
 
-    async getProvider(): Promise<ethers.Provider> {
-        if (this.provider) {
-            try {
-                // Quick health check
-                await this.provider.getNetwork();
-                return this.provider;
-            } catch (e) {
-                console.warn('Current provider unhealthy, rotating...', e);
-                this.provider = null;
-            }
-        }
-
-        return this.rotateProvider();
+export function getRpcUrls(chainId: number): string[] {
+    const config = CHAIN_RPC_CONFIG[chainId];
+    if (!config) {
+        throw new Error(`Unsupported chain ID: ${chainId}`);
     }
 
-    private async rotateProvider(): Promise<ethers.Provider> {
-        const urls = RPC_ENDPOINTS[this.network];
-
-        for (let i = 0; i < urls.length; i++) {
-            const index = (this.rpcIndex + i) % urls.length;
-            const url = urls[index];
-
-            try {
-                console.log(`Trying RPC: ${url}`);
-                // Use StaticJsonRpcProvider-like behavior in v6 via basic JsonRpcProvider
-                const p = new ethers.JsonRpcProvider(url, undefined, {
-                    staticNetwork: new ethers.Network(this.network === 'testnet' ? 'Cronos Testnet' : 'Cronos', CHAIN_IDS[this.network])
-                });
-
-                // Verify connection
-                await p.getNetwork();
-
-                this.provider = p;
-                this.rpcIndex = index; // Stick with this one
-                console.log(`Connected to RPC: ${url}`);
-                return p;
-            } catch (e) {
-                console.warn(`Failed to connect to RPC ${url}:`, e);
-            }
-        }
-
-        throw new Error('All RPC endpoints failed');
+    const urls: string[] = [];
+    if (chainId === getDefaultChainId()) {
+        urls.push(...(readEnv('CRONOS_RPC_URLS') || '').split(','));
+        urls.push(...DEFAULT_NETWORK_ENV.map(name => readEnv(name) || ''));
     }
-}
+    urls.push(...config.env.map(name => readEnv(name) || ''));
+    urls.push(...config.defaults);
 
-// Singleton instances
-const instances: Record<string, ReliableProvider> = {};
+    return [...new Set(urls.map(url => url.trim()).filter(Boolean))];
+}
 
-export function getProvider(): ethers.JsonRpcProvider {
-    // This is a bit of a hack to match the previous sync signature
-    // In a real app, we should propagate async, but for now we fallback to the first URL
-    // and rely on internal reconnection for requests
-    // Support both browser and Node.js environments
-    const isBrowser = typeof window !== 'undefined';
-    const network = ((isBrowser ? import.meta.env.VITE_CRONOS_NETWORK : process.env.VITE_CRONOS_NETWORK) || 'testnet') as 'testnet' | 'mainnet';
+// Singleton pools per chain
+const pools = new Map<number, RpcProviderPool>();
 
-    if (!instances[network]) {
-        instances[network] = new ReliableProvider(network);
+/**
+ * Shared provider pool for a chain (defaults to the configured network).
+ */
+export function getRpcPool(chainId: number = getDefaultChainId()): RpcProviderPool {
+    let pool = pools.get(chainId);
+    if (!pool) {
+        pool = new RpcProviderPool({
+            urls: getRpcUrls(chainId),
+            chainId,
+            name: CHAIN_RPC_CONFIG[chainId].name,
+            timeoutMs: parseInt(readEnv('RPC_TIMEOUT_MS') || '10000', 10),
+            quorum: parseInt(readEnv('RPC_QUORUM') || '2', 10),
+            logger
+        });
+        pools.set(chainId, pool);
     }
+    return pool;
+}
 
-    // Return a proxy that ensures we always get a live provider for calls
-    const rp = instances[network];
-    const urls = RPC_ENDPOINTS[network];
-
-    // Return a standard provider pointing to the primary for now
-    // The previous implementation was Sync, so we must return a provider instance immediately.
-    // We'll use the first one and hope for the best, or better:
+/**
+ * Provider for critical reads (balances, session state) that only answers
+ * when RPC_QUORUM endpoints agree.
+ */
+export function getQuorumProvider(chainId: number = getDefaultChainId()): ethers.JsonRpcProvider {
+    return getRpcPool(chainId).quorum();
+}
 
-    return new ethers.JsonRpcProvider(urls[0], undefined, {
-        staticNetwork: new ethers.Network(network === 'testnet' ? 'Cronos Testnet' : 'Cronos', CHAIN_IDS[network])
-    });
+export function getProvider(chainId?: number): ethers.JsonRpcProvider {
+    return getRpcPool(chainId);
 }
 
 export async function getSigner(): Promise<ethers.Signer> {
@@ -115,10 +129,10 @@ export async function getSigner(): Promise<ethers.Signer> {
 }
 
 export async function getBlockNumber(): Promise<number> {
-    return (await getProvider()).getBlockNumber();
+    return getProvider().getBlockNumber();
 }
 
 export async function getBalance(address: string): Promise<string> {
-    const balance = await (await getProvider()).getBalance(address);
+    const balance = await getQuorumProvider().getBalance(address);
     return ethers.formatEther(balance);
 }
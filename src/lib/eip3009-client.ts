@@ -12,6 +12,7 @@
 
 import { Facilitator, CronosNetwork } from '@crypto.com/facilitator-client';
 import { ethers } from 'ethers';
+import { getQuorumProvider } from './blockchain/provider';
 
 // Network configuration
 const NETWORK_CONFIG = {
@@ -19,13 +20,11 @@ const NETWORK_CONFIG = {
         network: CronosNetwork.CronosTestnet,
         chainId: 338,
         usdcContract: '0xc01efAaF7C5C61bEbFAeb358E1161b537b8bC0e0', // devUSDC.e
-        rpcUrl: 'https://evm-t3.cronos.org',
     },
     mainnet: {
         network: CronosNetwork.CronosMainnet,
         chainId: 25,
         usdcContract: '0xf951eC28187D9E5Ca673Da8FE6757E6f0Be5F77C', // USDC.e
-        rpcUrl: 'https://evm.cronos.org',
     },
 };
 
@@ -184,7 +183,7 @@ export async function getUSDCBalance(
     network: 'testnet' | 'mainnet' = 'testnet'
 ): Promise<string> {
     const config = NETWORK_CONFIG[network];
-    const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+    const provider = getQuorumProvider(config.chainId);
 
     const usdcAbi = [
         'function balanceOf(address account) view returns (uint256)',
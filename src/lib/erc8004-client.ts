@@ -8,6 +8,7 @@
  */
 
 import { ethers } from 'ethers';
+import { getProvider } from './blockchain/provider';
 
 const IDENTITY_REGISTRY_ABI = [
     'function registerAgent(string memory agentURI, address walletAddress) external returns (uint256)',
@@ -101,11 +102,7 @@ export async function getAgentReputation(
     isActive: boolean;
 }> {
     try {
-        const rpcUrl = network === 'testnet'
-            ? 'https://evm-t3-zkevm.cronos.org'
-            : 'https://evm.cronos.org';
-
-        const provider = new ethers.JsonRpcProvider(rpcUrl);
+        const provider = getProvider(network === 'testnet' ? 338 : 25);
 
         const identityRegistry = new ethers.Contract(
             process.env.IDENTITY_REGISTRY_ADDRESS || '',
@@ -0,0 +1,174 @@
+/**
+ * Event Bus
+ *
+ * In-process pub/sub for server-side domain events. Services publish as
+ * their state changes land; GraphQL subscriptions listen. Publishing never
+ * throws: a failing listener is logged and skipped so it can't break the
+ * publisher. Events stay within one process.
+ */
+
+import logger from './logger';
+
+export interface PaymentSettledEvent {
+    paymentId: string;
+    /** Payer, when known */
+    fromAddress: string | null;
+    toAddress: string;
+    /** USDC base units */
+    amount: string;
+    txHash: string | null;
+    resourceUrl: string | null;
+    method: 'eip3009' | 'session' | 'deferred';
+    settledAt: number;
+}
+
+export type SessionEventType = 'activated' | 'reserved' | 'committed' | 'released' | 'closed' | 'refunded';
+
+export interface SessionUpdatedEvent {
+    sessionId: string;
+    event: SessionEventType;
+    isActive: boolean | null;
+    /** USDC amounts; null when the change didn't go through the ledger */
+    spent: string | null;
+    reserved: string | null;
+    remaining: string | null;
+    paymentCount: number | null;
+    updatedAt: number;
+}
+
+export interface TaskStateChangedEvent {
+    taskId: string;
+    agentId: string;
+    serviceId: string | null;
+    sessionId: string | null;
+    state: string;
+    paymentId: string | null;
+    changedAt: number;
+}
+
+export interface RwaStateTransitionedEvent {
+    rwaId: string;
+    transitionId: string;
+    fromState: string;
+    toState: string;
+    agentAddress: string;
+    agentRole: string;
+    paymentHash: string;
+    transitionedAt: number;
+}
+
+export interface PriceTickEvent {
+    symbol: string;
+    price: number;
+    source: string;
+    confidence: number | null;
+    sources: number;
+    observedAt: number;
+}
+
+export interface RelayEvents {
+    'payment.settled': PaymentSettledEvent;
+    'session.updated': SessionUpdatedEvent;
+    'task.stateChanged': TaskStateChangedEvent;
+    'rwa.stateTransitioned': RwaStateTransitionedEvent;
+    'price.tick': PriceTickEvent;
+}
+
+export type RelayEventTopic = keyof RelayEvents;
+
+type Listener<K extends RelayEventTopic> = (payload: RelayEvents[K]) => void;
+
+// Events a slow subscriber may fall behind by before the oldest are dropped
+const MAX_QUEUED_EVENTS = 1000;
+
+export class EventBus {
+    private listeners = new Map<RelayEventTopic, Set<Listener<any>>>();
+
+    publish<K extends RelayEventTopic>(topic: K, payload: RelayEvents[K]): void {
+        for (const listener of this.listeners.get(topic) ?? []) {
+            try {
+                listener(payload);
+            } catch (error) {
+                logger.error('Event listener failed', error as Error, { topic });
+            }
+        }
+    }
+
+    /**
+     * Listen to a topic; returns the unsubscribe function
+     */
+    on<K extends RelayEventTopic>(topic: K, listener: Listener<K>): () => void {
+        let set = this.listeners.get(topic);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(topic, set);
+        }
+        set.add(listener);
+
+        return () => {
+            set!.delete(listener);
+            if (set!.size === 0) this.listeners.delete(topic);
+        };
+    }
+
+    listenerCount(topic: RelayEventTopic): number {
+        return this.listeners.get(topic)?.size ?? 0;
+    }
+
+    /**
+     * Async iterator over a topic's events, as GraphQL subscriptions expect.
+     * Events queue until pulled; return() unsubscribes right away, even
+     * while a next() is pending.
+     */
+    subscribe<K extends RelayEventTopic>(
+        topic: K,
+        filter?: (payload: RelayEvents[K]) => boolean
+    ): AsyncIterableIterator<RelayEvents[K]> {
+        const queue: RelayEvents[K][] = [];
+        let pending: ((result: IteratorResult<RelayEvents[K]>) => void) | null = null;
+        let done = false;
+
+        const off = this.on(topic, (payload) => {
+            if (filter && !filter(payload)) return;
+            if (pending) {
+                const resolve = pending;
+                pending = null;
+                resolve({ value: payload, done: false });
+                return;
+            }
+            queue.push(payload);
+            if (queue.length > MAX_QUEUED_EVENTS) queue.shift();
+        });
+
+        const finish = (): IteratorResult<RelayEvents[K]> => {
+            if (!done) {
+                done = true;
+                off();
+                queue.length = 0;
+                pending?.({ value: undefined, done: true });
+                pending = null;
+            }
+            return { value: undefined, done: true };
+        };
+
+        return {
+            next() {
+                if (queue.length > 0) return Promise.resolve({ value: queue.shift()!, done: false });
+                if (done) return Promise.resolve({ value: undefined, done: true });
+                return new Promise(resolve => { pending = resolve; });
+            },
+            return() {
+                return Promise.resolve(finish());
+            },
+            throw(error?: unknown) {
+                finish();
+                return Promise.reject(error);
+            },
+            [Symbol.asyncIterator]() {
+                return this;
+            },
+        };
+    }
+}
+
+export const eventBus = new EventBus();
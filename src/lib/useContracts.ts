@@ -7,6 +7,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { ethers } from 'ethers';
+import { getProvider } from './blockchain/provider';
 
 // Contract addresses (Cronos Testnet - Chain 338)
 const CONTRACTS = {
@@ -83,7 +84,7 @@ export function useOnChainContracts() {
     // Initialize provider and contracts
     useEffect(() => {
         try {
-            const rpcProvider = new ethers.JsonRpcProvider(RPC_URL);
+            const rpcProvider = getProvider();
             setProvider(rpcProvider);
 
             const identity = new ethers.Contract(
@@ -225,7 +226,7 @@ export function useContractEvents() {
 
     const startListening = useCallback(async () => {
         try {
-            const provider = new ethers.JsonRpcProvider(RPC_URL);
+            const provider = getProvider();
 
             const identityContract = new ethers.Contract(
                 CONTRACTS.identityRegistry,
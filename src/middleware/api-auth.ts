@@ -16,18 +16,41 @@ import { supabase } from '../lib/supabase.js';
 import crypto from 'crypto';
 import logger from '../lib/logger.js';
 
+export interface ApiKeyPermissions {
+    read_services: boolean;
+    read_reputation: boolean;
+    read_outcomes: boolean;
+    read_payments: boolean;
+    execute_payments: boolean;
+    register_agents: boolean;
+    admin?: boolean;
+}
+
+export type PermissionKey = keyof ApiKeyPermissions;
+
+/**
+ * Plan of a key; sets its GraphQL query budget (see api/graphql/query-cost.ts)
+ */
+export type ApiKeyTier = 'free' | 'pro' | 'enterprise';
+
+/**
+ * Permissions of keys created before permissions were stored
+ */
+export const DEFAULT_PERMISSIONS: ApiKeyPermissions = {
+    read_services: true,
+    read_reputation: true,
+    read_outcomes: true,
+    read_payments: true,
+    execute_payments: false,
+    register_agents: true,
+};
+
 export interface AuthenticatedRequest extends Request {
     apiKey?: {
         id: string;
         userId: string;
-        permissions: {
-            read_services: boolean;
-            read_reputation: boolean;
-            read_outcomes: boolean;
-            read_payments: boolean;
-            execute_payments: boolean;
-            register_agents: boolean;
-        };
+        permissions: ApiKeyPermissions;
+        tier: ApiKeyTier;
         rateLimit: number;
     };
     walletAddress?: string;
@@ -159,14 +182,8 @@ export function authenticateApiKey(options: { required?: boolean } = {}) {
             req.apiKey = {
                 id: keyRecord.id,
                 userId: keyRecord.user_id,
-                permissions: keyRecord.permissions || {
-                    read_services: true,
-                    read_reputation: true,
-                    read_outcomes: true,
-                    read_payments: true,
-                    execute_payments: false,
-                    register_agents: true,
-                },
+                permissions: keyRecord.permissions || DEFAULT_PERMISSIONS,
+                tier: keyRecord.tier || 'free',
                 rateLimit: keyRecord.rate_limit || 100,
             };
             req.walletAddress = keyRecord.user_id;
@@ -182,9 +199,6 @@ export function authenticateApiKey(options: { required?: boolean } = {}) {
     };
 }
 
-// Permission keys type
-type PermissionKey = 'read_services' | 'read_reputation' | 'read_outcomes' | 'read_payments' | 'execute_payments' | 'register_agents';
-
 /**
  * Permission check middleware
  * Use after authenticateApiKey
@@ -217,7 +231,8 @@ export function requirePermission(permission: PermissionKey) {
 export async function validateApiKey(apiKey: string): Promise<{
     valid: boolean;
     userId?: string;
-    permissions?: Record<string, boolean>;
+    permissions?: ApiKeyPermissions;
+    tier?: ApiKeyTier;
     error?: string;
 }> {
     if (!apiKey.startsWith('rc_')) {
@@ -244,6 +259,7 @@ export async function validateApiKey(apiKey: string): Promise<{
     return {
         valid: true,
         userId: keyRecord.user_id,
-        permissions: keyRecord.permissions,
+        permissions: keyRecord.permissions || DEFAULT_PERMISSIONS,
+        tier: keyRecord.tier || 'free',
     };
 }
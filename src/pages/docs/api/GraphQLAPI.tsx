@@ -21,7 +21,7 @@ export default function DocsGraphQLAPI() {
                     <code className="text-sm text-gray-800">{`type Query {
   venues: [Venue!]!
   venue(id: ID!): Venue
-  trades(limit: Int, offset: Int): [Trade!]!
+  trades(filter: TradeFilter, orderBy: TradeOrder, first: Int, after: String): TradeConnection!
   trade(id: ID!): Trade
   agents: [Agent!]!
   agent(id: ID!): Agent
@@ -123,20 +123,25 @@ type HealthStatus {
                         <h3 className="font-semibold text-gray-900 mb-3">Get Recent Trades</h3>
                         <pre className="bg-gray-50 border border-gray-200 rounded p-3 text-xs overflow-x-auto">
                             <code className="text-gray-800">{`query {
-  trades(limit: 10) {
-    id
-    pair
-    side
-    leverage
-    sizeUsd
-    entryPrice
-    exitPrice
-    pnl
-    status
-    venue {
-      name
+  trades(first: 10, orderBy: { field: CREATED_AT, direction: DESC }) {
+    pageInfo { hasNextPage endCursor }
+    edges {
+      node {
+        id
+        pair
+        side
+        leverage
+        sizeUsd
+        entryPrice
+        exitPrice
+        pnl
+        status
+        venue {
+          name
+        }
+        createdAt
+      }
     }
-    createdAt
   }
 }`}</code>
                         </pre>
@@ -0,0 +1,69 @@
+/**
+ * Indexer Backfill Script
+ *
+ * Re-indexes a block range without touching the live indexer cursors.
+ *
+ * Usage:
+ *   pnpm indexer:backfill --from 1000000 --to 1200000 [--indexer escrow|agent|feedback|usdc|all]
+ *                         [--chunk-size 1000] [--concurrency 4]
+ */
+
+import { parseArgs } from 'util';
+import { runBackfill, BACKFILL_INDEXERS, type BackfillJob } from '../services/indexer/backfill.js';
+import { logger } from '../lib/logger.js';
+
+function printProgress(job: BackfillJob, indexer: string) {
+    const progress = job.progress[indexer];
+    const percent = Math.floor((progress.chunksDone / progress.chunksTotal) * 100);
+    console.log(
+        `  [${indexer}] ${progress.chunksDone}/${progress.chunksTotal} chunks (${percent}%)` +
+        ` - ${progress.indexed} indexed, ${progress.failed} failed`
+    );
+}
+
+async function backfill() {
+    const { values } = parseArgs({
+        options: {
+            from: { type: 'string' },
+            to: { type: 'string' },
+            indexer: { type: 'string', default: 'all' },
+            'chunk-size': { type: 'string' },
+            concurrency: { type: 'string' }
+        }
+    });
+
+    if (!values.from || !values.to) {
+        console.error('Usage: pnpm indexer:backfill --from <block> --to <block> ' +
+            `[--indexer ${BACKFILL_INDEXERS.join('|')}|all] [--chunk-size <blocks>] [--concurrency <n>]`);
+        process.exit(1);
+    }
+
+    try {
+        console.log(`\nBackfilling ${values.indexer} from block ${values.from} to ${values.to}\n`);
+
+        const job = await runBackfill({
+            fromBlock: parseInt(values.from, 10),
+            toBlock: parseInt(values.to, 10),
+            indexer: values.indexer!,
+            chunkSize: values['chunk-size'] ? parseInt(values['chunk-size'], 10) : undefined,
+            concurrency: values.concurrency ? parseInt(values.concurrency, 10) : undefined
+        }, printProgress);
+
+        console.log(`\n${job.status === 'completed' ? '✓' : '✗'} Backfill ${job.status} (blocks ${job.fromBlock}-${job.toBlock})`);
+        for (const [indexer, progress] of Object.entries(job.progress)) {
+            console.log(`  - ${indexer}: ${progress.indexed} indexed, ${progress.failed} dead-lettered`);
+            for (const chunk of progress.failedChunks) {
+                console.log(`      chunk ${chunk.fromBlock}-${chunk.toBlock} failed: ${chunk.error}`);
+            }
+        }
+        console.log('');
+
+        process.exit(job.status === 'completed' ? 0 : 1);
+    } catch (error) {
+        logger.error('Indexer backfill failed', error as Error);
+        console.error('\n✗ Backfill failed:', (error as Error).message);
+        process.exit(1);
+    }
+}
+
+backfill();
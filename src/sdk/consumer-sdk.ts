@@ -1,4 +1,5 @@
 import { ethers } from 'ethers';
+import type { WorkflowDefinition, WorkflowNode } from './lib/workflow-dag';
 
 /**
  * Service Consumer SDK
@@ -63,13 +64,8 @@ export interface ServiceCallResult<T = unknown> {
     latencyMs: number;
 }
 
-// Workflow step
-export interface WorkflowStep {
-    serviceId: string;
-    serviceName: string;
-    inputType: string;
-    outputType: string;
-}
+// Workflow step (name is the service name)
+export type WorkflowStep = WorkflowNode;
 
 const DEFAULT_API_URL = 'https://api.relaycore.xyz';
 const FACILITATOR_URL = 'https://facilitator.cronoslabs.org/v2/x402';
@@ -159,12 +155,14 @@ export class ServiceConsumerSDK {
 
     /**
      * Suggest a workflow to transform input type to output type
+     *
+     * Suggestions can be run as-is with RelayAgent.executeWorkflow.
      */
     async suggestWorkflow(params: {
         startInputType: string;
         endOutputType: string;
         maxSteps?: number;
-    }): Promise<WorkflowStep[][]> {
+    }): Promise<WorkflowDefinition[]> {
         const query = new URLSearchParams({
             startInputType: params.startInputType,
             endOutputType: params.endOutputType,
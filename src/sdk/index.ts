@@ -27,6 +27,9 @@ export {
     type SelectedService,
     type ExecutionResult,
     type ExecutionError,
+    type ExecuteOptions,
+    type StreamChunk,
+    type StreamExecution,
     type ErrorCode,
     type WorkflowStep as AgentWorkflowStep,
     type WorkflowResult,
@@ -39,6 +42,56 @@ export {
     type TaskStats,
 } from './relay-agent';
 
+// Payment guard - checks 402 challenges against the service listing
+export {
+    checkPaymentDemand,
+    parsePaymentDemand,
+    type PaymentDemand,
+    type PaymentExpectation,
+    type PaymentCheck,
+    type PaymentViolation,
+    type PaymentViolationType,
+    type PaymentApprover,
+} from './lib/payment-guard';
+
+// Workflow DAG - serializable workflows for RelayAgent.executeWorkflow
+export {
+    WORKFLOW_VERSION,
+    validateWorkflow,
+    workflowLevels,
+    workflowFromPath,
+    type WorkflowDefinition,
+    type WorkflowNode,
+    type WorkflowCall,
+    type WorkflowCondition,
+    type WorkflowConditionOp,
+    type WorkflowBudget,
+} from './lib/workflow-dag';
+
+// Delivery receipts - EIP-712 receipts signed by providers, checked by agents
+export {
+    RECEIPT_HEADER,
+    DELIVERY_RECEIPT_TYPES,
+    hashPayload,
+    signDeliveryReceipt,
+    verifyDeliveryReceipt,
+    encodeReceipt,
+    decodeReceipt,
+    type DeliveryReceipt,
+    type ReceiptCheck,
+    type ReceiptExpectation,
+} from './lib/delivery-receipt';
+
+// Streaming - SSE helpers behind RelayAgent.executeStream and streamEvents
+export {
+    RELAY_STREAM_EVENTS,
+    SseParser,
+    formatSseEvent,
+    readSseEvents,
+    type SseEvent,
+    type StreamUsage,
+} from './lib/sse';
+
 // RelayService - For service providers
 export {
     RelayService,
@@ -46,6 +99,7 @@ export {
     defineService,
     hashProof,
     createPaymentMiddleware,
+    streamEvents,
     type ServiceConfig,
     type ServiceDefinition,
     type RegisteredService as ServiceRegistered,
@@ -0,0 +1,189 @@
+/**
+ * Delivery Receipts
+ *
+ * EIP-712 receipts providers sign for each delivery, binding the payment to
+ * hashes of the request and the response. RelayService signs them
+ * (recordDelivery, createPaymentMiddleware), RelayAgent.execute verifies
+ * the one a service returns in the X-Relay-Receipt header, and the outcome
+ * service and reputation engine only count deliveries whose receipt was
+ * signed by the payment's payee.
+ */
+
+import { ethers } from 'ethers';
+
+export const RECEIPT_HEADER = 'X-Relay-Receipt';
+
+export const DELIVERY_RECEIPT_TYPES: Record<string, ethers.TypedDataField[]> = {
+    DeliveryReceipt: [
+        { name: 'paymentId', type: 'string' },
+        { name: 'requestHash', type: 'bytes32' },
+        { name: 'responseHash', type: 'bytes32' },
+        { name: 'timestamp', type: 'uint64' },
+        { name: 'latencyMs', type: 'uint32' },
+    ],
+};
+
+export interface DeliveryReceipt {
+    paymentId: string;
+    /** hashPayload of the request body */
+    requestHash: string;
+    /** hashPayload of the response body */
+    responseHash: string;
+    /** Unix time in ms */
+    timestamp: number;
+    latencyMs: number;
+    chainId: number;
+    /** Address that signed the receipt */
+    provider: string;
+    signature: string;
+}
+
+export interface ReceiptCheck {
+    valid: boolean;
+    /** Recovered signer, when the signature could be recovered */
+    signer?: string;
+    reason?: string;
+}
+
+/** What a receipt is checked against; omitted fields aren't checked */
+export interface ReceiptExpectation {
+    provider?: string | null;
+    paymentId?: string;
+    request?: unknown;
+    response?: unknown;
+}
+
+export function receiptDomain(chainId: number): ethers.TypedDataDomain {
+    return { name: 'Relay Core Delivery Receipt', version: '1', chainId };
+}
+
+function sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object') {
+        const sorted: Record<string, unknown> = {};
+        for (const key of Object.keys(value).sort()) {
+            sorted[key] = sortKeys((value as Record<string, unknown>)[key]);
+        }
+        return sorted;
+    }
+    return value;
+}
+
+/**
+ * keccak256 of the payload as JSON with sorted keys, so a body hashes the
+ * same before serialization and after parsing on the other side
+ */
+export function hashPayload(data: unknown): string {
+    const json = data === undefined ? 'null' : JSON.stringify(data);
+    return ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(sortKeys(JSON.parse(json)))));
+}
+
+function receiptValue(receipt: Pick<DeliveryReceipt, 'paymentId' | 'requestHash' | 'responseHash' | 'timestamp' | 'latencyMs'>) {
+    return {
+        paymentId: receipt.paymentId,
+        requestHash: receipt.requestHash,
+        responseHash: receipt.responseHash,
+        timestamp: receipt.timestamp,
+        latencyMs: receipt.latencyMs,
+    };
+}
+
+export async function signDeliveryReceipt(
+    signer: ethers.Signer,
+    params: {
+        paymentId: string;
+        request?: unknown;
+        response: unknown;
+        latencyMs: number;
+        chainId: number;
+        timestamp?: number;
+    }
+): Promise<DeliveryReceipt> {
+    const value = receiptValue({
+        paymentId: params.paymentId,
+        requestHash: hashPayload(params.request),
+        responseHash: hashPayload(params.response),
+        timestamp: params.timestamp ?? Date.now(),
+        latencyMs: Math.max(0, Math.round(params.latencyMs)),
+    });
+
+    return {
+        ...value,
+        chainId: params.chainId,
+        provider: (await signer.getAddress()).toLowerCase(),
+        signature: await signer.signTypedData(receiptDomain(params.chainId), DELIVERY_RECEIPT_TYPES, value),
+    };
+}
+
+export function isDeliveryReceipt(value: unknown): value is DeliveryReceipt {
+    const receipt = value as DeliveryReceipt;
+    return !!receipt && typeof receipt === 'object'
+        && typeof receipt.paymentId === 'string'
+        && typeof receipt.requestHash === 'string'
+        && typeof receipt.responseHash === 'string'
+        && Number.isInteger(receipt.timestamp)
+        && Number.isInteger(receipt.latencyMs)
+        && Number.isInteger(receipt.chainId)
+        && typeof receipt.provider === 'string'
+        && typeof receipt.signature === 'string';
+}
+
+export function verifyDeliveryReceipt(receipt: unknown, expected: ReceiptExpectation = {}): ReceiptCheck {
+    if (!isDeliveryReceipt(receipt)) {
+        return { valid: false, reason: 'Malformed receipt' };
+    }
+
+    let signer: string;
+    try {
+        signer = ethers.verifyTypedData(
+            receiptDomain(receipt.chainId),
+            DELIVERY_RECEIPT_TYPES,
+            receiptValue(receipt),
+            receipt.signature
+        ).toLowerCase();
+    } catch {
+        return { valid: false, reason: 'Invalid receipt signature' };
+    }
+
+    const fail = (reason: string): ReceiptCheck => ({ valid: false, signer, reason });
+
+    if (signer !== receipt.provider.toLowerCase()) {
+        return fail('Receipt was not signed by its provider');
+    }
+    if (expected.provider && signer !== expected.provider.toLowerCase()) {
+        return fail(`Receipt signed by ${signer}, expected ${expected.provider.toLowerCase()}`);
+    }
+    if (expected.paymentId !== undefined && receipt.paymentId !== expected.paymentId) {
+        return fail(`Receipt is for payment ${receipt.paymentId}`);
+    }
+    if ('request' in expected && receipt.requestHash !== hashPayload(expected.request)) {
+        return fail('Receipt does not match the request');
+    }
+    if ('response' in expected && receipt.responseHash !== hashPayload(expected.response)) {
+        return fail('Receipt does not match the response');
+    }
+
+    return { valid: true, signer };
+}
+
+/** Header value carrying a receipt (base64 JSON) */
+export function encodeReceipt(receipt: DeliveryReceipt): string {
+    const bytes = ethers.toUtf8Bytes(JSON.stringify(receipt));
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+    return btoa(binary);
+}
+
+export function decodeReceipt(header: string | null | undefined): DeliveryReceipt | null {
+    if (!header) return null;
+    try {
+        const binary = atob(header);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+
+        const receipt = JSON.parse(ethers.toUtf8String(bytes));
+        return isDeliveryReceipt(receipt) ? receipt : null;
+    } catch {
+        return null;
+    }
+}
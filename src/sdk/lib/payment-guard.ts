@@ -0,0 +1,184 @@
+/**
+ * Payment Guard
+ *
+ * Checks an x402 402 challenge against what the payer expected before
+ * anything is signed: the amount against the discovered listing price and
+ * the payer's price cap, and payTo, asset and network against the listing.
+ * Shared by RelayAgent.execute and the meta-agent delegation service.
+ *
+ * Amounts in challenges are USDC base units (6 decimals); listing prices
+ * and caps are USDC.
+ */
+
+import { ethers } from 'ethers';
+
+const USDC_DECIMALS = 6;
+
+/** The payment terms of a 402 challenge */
+export interface PaymentDemand {
+    /** Base units */
+    maxAmountRequired: string;
+    payTo: string;
+    asset?: string;
+    network?: string;
+    resource?: string;
+}
+
+/** What the payer agreed to when it picked the service */
+export interface PaymentExpectation {
+    /** Listed price per call in USDC */
+    listedPrice?: string;
+    /** Listed provider address */
+    payTo?: string;
+    /** Accepted token contracts; any asset passes when empty */
+    assets?: string[];
+    network?: string;
+    /** Policy cap per call in USDC */
+    maxPrice?: number | string;
+    /** Percent above the listed price tolerated before it counts as drift */
+    priceTolerancePct?: number;
+}
+
+export type PaymentViolationType =
+    | 'INVALID_AMOUNT'
+    | 'PRICE_ABOVE_LISTING'
+    | 'PRICE_ABOVE_MAX'
+    | 'PAYEE_MISMATCH'
+    | 'ASSET_MISMATCH'
+    | 'NETWORK_MISMATCH';
+
+export interface PaymentViolation {
+    type: PaymentViolationType;
+    message: string;
+    expected?: string;
+    actual: string;
+}
+
+export interface PaymentCheck {
+    /** True when no violation was found */
+    approved: boolean;
+    violations: PaymentViolation[];
+    demand: PaymentDemand;
+    /** Demanded amount in base units; null when it isn't an integer */
+    amount: bigint | null;
+    /** Listed price in base units */
+    listedAmount: bigint | null;
+    /** Percent the demand is above (or below) the listing */
+    driftPct: number | null;
+}
+
+/**
+ * Decide whether to pay a challenge that failed the guard; resolve true to
+ * pay anyway
+ */
+export type PaymentApprover = (check: PaymentCheck) => boolean | Promise<boolean>;
+
+/**
+ * Payment terms from a 402 body, in Relay's `paymentRequirements` shape or
+ * the x402 `accepts` array
+ */
+export function parsePaymentDemand(body: unknown): PaymentDemand | null {
+    const record = body as { paymentRequirements?: unknown; accepts?: unknown[] } | null;
+    const requirements = (record?.paymentRequirements ?? record?.accepts?.[0]) as Record<string, unknown> | undefined;
+
+    if (!requirements || typeof requirements.payTo !== 'string' || requirements.maxAmountRequired == null) {
+        return null;
+    }
+
+    return {
+        maxAmountRequired: String(requirements.maxAmountRequired),
+        payTo: requirements.payTo,
+        asset: typeof requirements.asset === 'string' ? requirements.asset : undefined,
+        network: typeof requirements.network === 'string' ? requirements.network : undefined,
+        resource: typeof requirements.resource === 'string' ? requirements.resource : undefined,
+    };
+}
+
+function toBaseUnits(usdc: string | number): bigint | null {
+    try {
+        return ethers.parseUnits(String(usdc), USDC_DECIMALS);
+    } catch {
+        return null;
+    }
+}
+
+function sameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+export function checkPaymentDemand(demand: PaymentDemand, expected: PaymentExpectation): PaymentCheck {
+    const violations: PaymentViolation[] = [];
+
+    const amount = /^\d+$/.test(demand.maxAmountRequired) ? BigInt(demand.maxAmountRequired) : null;
+    const listedAmount = expected.listedPrice != null ? toBaseUnits(expected.listedPrice) : null;
+    let driftPct: number | null = null;
+
+    if (amount === null) {
+        violations.push({
+            type: 'INVALID_AMOUNT',
+            message: 'Demanded amount is not an integer number of base units',
+            actual: demand.maxAmountRequired,
+        });
+    } else {
+        if (listedAmount !== null && listedAmount > BigInt(0)) {
+            driftPct = Number((amount - listedAmount) * BigInt(10_000) / listedAmount) / 100;
+
+            // Tolerance in basis points keeps the comparison in integers
+            const toleranceBps = BigInt(Math.round((expected.priceTolerancePct ?? 0) * 100));
+            if (amount * BigInt(10_000) > listedAmount * (BigInt(10_000) + toleranceBps)) {
+                violations.push({
+                    type: 'PRICE_ABOVE_LISTING',
+                    message: `Demanded ${ethers.formatUnits(amount, USDC_DECIMALS)} USDC, listed at ${expected.listedPrice} USDC`,
+                    expected: listedAmount.toString(),
+                    actual: amount.toString(),
+                });
+            }
+        }
+
+        const cap = expected.maxPrice != null ? toBaseUnits(expected.maxPrice) : null;
+        if (cap !== null && amount > cap) {
+            violations.push({
+                type: 'PRICE_ABOVE_MAX',
+                message: `Demanded ${ethers.formatUnits(amount, USDC_DECIMALS)} USDC, policy allows at most ${expected.maxPrice} USDC`,
+                expected: cap.toString(),
+                actual: amount.toString(),
+            });
+        }
+    }
+
+    if (expected.payTo && !sameAddress(demand.payTo, expected.payTo)) {
+        violations.push({
+            type: 'PAYEE_MISMATCH',
+            message: 'Payment recipient differs from the listed provider',
+            expected: expected.payTo,
+            actual: demand.payTo,
+        });
+    }
+
+    if (expected.assets?.length && (!demand.asset || !expected.assets.some(a => sameAddress(a, demand.asset!)))) {
+        violations.push({
+            type: 'ASSET_MISMATCH',
+            message: 'Payment token is not an accepted asset',
+            expected: expected.assets.join(','),
+            actual: demand.asset ?? 'unspecified',
+        });
+    }
+
+    if (expected.network && demand.network && demand.network !== expected.network) {
+        violations.push({
+            type: 'NETWORK_MISMATCH',
+            message: `Payment is on ${demand.network}, expected ${expected.network}`,
+            expected: expected.network,
+            actual: demand.network,
+        });
+    }
+
+    return {
+        approved: violations.length === 0,
+        violations,
+        demand,
+        amount,
+        listedAmount,
+        driftPct,
+    };
+}
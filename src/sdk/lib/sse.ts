@@ -0,0 +1,165 @@
+/**
+ * Server-Sent Events
+ *
+ * Parsing and formatting for streamed service responses, shared by
+ * RelayAgent.executeStream, RelayService.streamEvents and the /proxy route.
+ *
+ * The Relay proxy closes every SSE stream with a `relay.usage` event (or
+ * `relay.budget_exhausted` when the session hold ran out mid-stream)
+ * carrying the metered units and the USDC charged.
+ */
+
+export interface SseEvent {
+    event?: string;
+    data: string;
+    id?: string;
+    retry?: number;
+}
+
+/** Control events appended to proxied streams */
+export const RELAY_STREAM_EVENTS = {
+    usage: 'relay.usage',
+    budgetExhausted: 'relay.budget_exhausted',
+    error: 'relay.error',
+} as const;
+
+/** Payload of the proxy's closing control event */
+export interface StreamUsage {
+    units: number;
+    unit: 'request' | 'byte' | 'token';
+    /** USDC */
+    charged: string;
+    /** The stream was cut off because the hold was used up */
+    budgetExhausted: boolean;
+}
+
+export function isEventStream(contentType: string | null | undefined): boolean {
+    return !!contentType && contentType.toLowerCase().startsWith('text/event-stream');
+}
+
+/** Event streams and newline-delimited JSON are relayed chunk by chunk */
+export function isStreamingContentType(contentType: string | null | undefined): boolean {
+    const type = contentType?.toLowerCase() ?? '';
+    return isEventStream(type) || type.startsWith('application/x-ndjson') || type.startsWith('application/jsonl');
+}
+
+export function formatSseEvent(event: SseEvent): string {
+    let text = '';
+    if (event.id !== undefined) text += `id: ${event.id}\n`;
+    if (event.event) text += `event: ${event.event}\n`;
+    if (event.retry !== undefined) text += `retry: ${event.retry}\n`;
+    for (const line of event.data.split('\n')) {
+        text += `data: ${line}\n`;
+    }
+    return `${text}\n`;
+}
+
+/**
+ * Incremental SSE parser; feed it decoded text as it arrives
+ */
+export class SseParser {
+    private buffer = '';
+    private fields: { event?: string; data: string[]; id?: string; retry?: number } = { data: [] };
+
+    push(text: string): SseEvent[] {
+        this.buffer += text;
+        const events: SseEvent[] = [];
+
+        let newline: number;
+        while ((newline = this.buffer.search(/\r\n|\r|\n/)) !== -1) {
+            // A trailing CR may be the first half of a CRLF split across chunks
+            if (newline === this.buffer.length - 1 && this.buffer.endsWith('\r')) break;
+
+            const line = this.buffer.slice(0, newline);
+            const width = this.buffer.startsWith('\r\n', newline) ? 2 : 1;
+            this.buffer = this.buffer.slice(newline + width);
+
+            const event = this.line(line);
+            if (event) events.push(event);
+        }
+
+        return events;
+    }
+
+    /** Dispatch a final event that wasn't followed by a blank line */
+    flush(): SseEvent[] {
+        const rest = this.buffer.replace(/\r$/, '');
+        this.buffer = '';
+        if (rest) this.line(rest);
+
+        const last = this.line('');
+        return last ? [last] : [];
+    }
+
+    private line(line: string): SseEvent | null {
+        if (line === '') {
+            const { event, data, id, retry } = this.fields;
+            this.fields = { data: [] };
+            return data.length ? { event, data: data.join('\n'), id, retry } : null;
+        }
+        if (line.startsWith(':')) return null;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+        switch (field) {
+            case 'event': this.fields.event = value; break;
+            case 'data': this.fields.data.push(value); break;
+            case 'id': this.fields.id = value; break;
+            case 'retry': {
+                const retry = Number(value);
+                if (Number.isInteger(retry)) this.fields.retry = retry;
+                break;
+            }
+        }
+        return null;
+    }
+}
+
+/**
+ * Decoded text chunks of a response body
+ */
+export async function* readTextStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let finished = false;
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            const text = decoder.decode(value, { stream: true });
+            if (text) yield text;
+        }
+        finished = true;
+        const rest = decoder.decode();
+        if (rest) yield rest;
+    } finally {
+        // The reader stopped early: close the connection
+        if (!finished) await reader.cancel().catch(() => undefined);
+        reader.releaseLock();
+    }
+}
+
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+    const parser = new SseParser();
+    for await (const text of readTextStream(body)) {
+        yield* parser.push(text);
+    }
+    yield* parser.flush();
+}
+
+/**
+ * Complete lines of a newline-delimited body, without the newline
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    let buffer = '';
+    for await (const text of readTextStream(body)) {
+        buffer += text;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) yield line.replace(/\r$/, '');
+    }
+    if (buffer) yield buffer;
+}
@@ -0,0 +1,283 @@
+/**
+ * Workflow DAG
+ *
+ * Serializable workflow format shared by RelayAgent.executeWorkflow,
+ * ServiceConsumerSDK.suggestWorkflow and the /api/schemas/workflow route.
+ * Steps name their dependencies; steps whose dependencies are done run in
+ * parallel, and a step with several dependencies waits for all of them
+ * (or any, with `join: 'any'`).
+ *
+ * Step inputs are JSON with references into earlier outputs:
+ * `"$input.pair"` reads the workflow input, `"$steps.quote.price"` the
+ * output of step `quote`. A string that is only a reference is replaced by
+ * the referenced value; references never appear inside longer strings.
+ */
+
+import type { ServiceCriteria } from '../relay-agent';
+
+export const WORKFLOW_VERSION = 1;
+
+export type WorkflowConditionOp = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists' | 'truthy' | 'falsy';
+
+/** Edge condition: the step runs only when it holds */
+export interface WorkflowCondition {
+    /** Reference to test, e.g. "$steps.quote.price" */
+    ref: string;
+    op: WorkflowConditionOp;
+    value?: unknown;
+}
+
+/** A service call (or its undo) */
+export interface WorkflowCall {
+    serviceId?: string;
+    criteria?: ServiceCriteria;
+    /** Input template; defaults to the step's dependency outputs */
+    input?: unknown;
+    timeout?: number;
+}
+
+export interface WorkflowNode extends WorkflowCall {
+    id: string;
+    name?: string;
+    dependsOn?: string[];
+    /** 'all' (default) runs once every dependency succeeded, 'any' once one did */
+    join?: 'all' | 'any';
+    when?: WorkflowCondition;
+    retries?: number;
+    /**
+     * Called when a later step fails, in reverse completion order; its input
+     * defaults to this step's output
+     */
+    compensate?: WorkflowCall;
+    /** Schema types, informational */
+    inputType?: string;
+    outputType?: string;
+}
+
+export interface WorkflowBudget {
+    /** Cap on what the workflow may spend, in USDC */
+    maxSpend: string;
+    /** x402 session to pay from (sent as X-Session-Id); its remaining balance also caps the budget */
+    sessionId?: string;
+}
+
+export interface WorkflowDefinition {
+    version: typeof WORKFLOW_VERSION;
+    name?: string;
+    description?: string;
+    steps: WorkflowNode[];
+    budget?: WorkflowBudget;
+}
+
+const REFERENCE = /^\$(input|steps)(\.[A-Za-z0-9_-]+)*$/;
+
+export function isWorkflowDefinition(value: unknown): value is WorkflowDefinition {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+        && Array.isArray((value as WorkflowDefinition).steps);
+}
+
+function referencesIn(template: unknown, into: string[] = []): string[] {
+    if (typeof template === 'string') {
+        if (REFERENCE.test(template)) into.push(template);
+    } else if (Array.isArray(template)) {
+        template.forEach(item => referencesIn(item, into));
+    } else if (template && typeof template === 'object') {
+        Object.values(template).forEach(item => referencesIn(item, into));
+    }
+    return into;
+}
+
+function referencedStep(ref: string): string | null {
+    const [root, step] = ref.slice(1).split('.');
+    return root === 'steps' ? step ?? null : null;
+}
+
+/**
+ * Problems with a definition; empty when it can be executed
+ */
+export function validateWorkflow(definition: WorkflowDefinition): string[] {
+    const errors: string[] = [];
+
+    if (definition.version !== WORKFLOW_VERSION) {
+        errors.push(`Unsupported workflow version ${definition.version}`);
+    }
+    if (!definition.steps.length) {
+        errors.push('Workflow has no steps');
+    }
+
+    const ids = new Set<string>();
+    for (const step of definition.steps) {
+        if (!step.id) errors.push('Every step needs an id');
+        else if (ids.has(step.id)) errors.push(`Duplicate step id "${step.id}"`);
+        ids.add(step.id);
+    }
+
+    for (const step of definition.steps) {
+        if (!step.serviceId && !step.criteria) {
+            errors.push(`Step "${step.id}" needs a serviceId or criteria`);
+        }
+        if (step.compensate && !step.compensate.serviceId && !step.compensate.criteria) {
+            errors.push(`Compensation of "${step.id}" needs a serviceId or criteria`);
+        }
+        for (const dep of step.dependsOn ?? []) {
+            if (!ids.has(dep)) errors.push(`Step "${step.id}" depends on unknown step "${dep}"`);
+        }
+
+        // Steps may only read outputs they are guaranteed to wait for
+        const upstream = ancestors(definition, step.id);
+        const refs = referencesIn(step.input);
+        if (step.when) refs.push(step.when.ref);
+        for (const ref of refs) {
+            const source = referencedStep(ref);
+            if (source && !upstream.has(source)) {
+                errors.push(`Step "${step.id}" reads "${ref}" but does not depend on "${source}"`);
+            }
+        }
+    }
+
+    if (definition.budget) {
+        const maxSpend = Number(definition.budget.maxSpend);
+        if (!Number.isFinite(maxSpend) || maxSpend < 0) {
+            errors.push('Budget maxSpend must be a non-negative USDC amount');
+        }
+    }
+
+    if (!errors.length) {
+        try {
+            workflowLevels(definition);
+        } catch (err) {
+            errors.push((err as Error).message);
+        }
+    }
+
+    return errors;
+}
+
+function ancestors(definition: WorkflowDefinition, id: string): Set<string> {
+    const byId = new Map(definition.steps.map(s => [s.id, s]));
+    const seen = new Set<string>();
+    const stack = [...(byId.get(id)?.dependsOn ?? [])];
+
+    while (stack.length) {
+        const next = stack.pop()!;
+        if (seen.has(next) || next === id) continue;
+        seen.add(next);
+        stack.push(...(byId.get(next)?.dependsOn ?? []));
+    }
+
+    return seen;
+}
+
+/**
+ * Step ids grouped into levels; every step's dependencies are in earlier
+ * levels, so the steps of a level can run in parallel
+ */
+export function workflowLevels(definition: WorkflowDefinition): string[][] {
+    const remaining = new Map(definition.steps.map(s => [s.id, new Set(s.dependsOn ?? [])]));
+    const levels: string[][] = [];
+
+    while (remaining.size) {
+        const level = Array.from(remaining.entries())
+            .filter(([, deps]) => deps.size === 0)
+            .map(([id]) => id);
+
+        if (!level.length) {
+            throw new Error(`Workflow has a dependency cycle through ${Array.from(remaining.keys()).join(', ')}`);
+        }
+
+        for (const id of level) remaining.delete(id);
+        for (const deps of Array.from(remaining.values())) {
+            for (const id of level) deps.delete(id);
+        }
+        levels.push(level);
+    }
+
+    return levels;
+}
+
+/** Values references resolve against */
+export interface WorkflowScope {
+    input: unknown;
+    steps: Record<string, unknown>;
+}
+
+export function resolveReference(ref: string, scope: WorkflowScope): unknown {
+    const [root, ...path] = ref.slice(1).split('.');
+    let value: unknown = root === 'input' ? scope.input : scope.steps;
+
+    for (const key of path) {
+        if (value === null || value === undefined || typeof value !== 'object') return undefined;
+        value = (value as Record<string, unknown>)[key];
+    }
+
+    return value;
+}
+
+export function resolveTemplate(template: unknown, scope: WorkflowScope): unknown {
+    if (typeof template === 'string') {
+        return REFERENCE.test(template) ? resolveReference(template, scope) : template;
+    }
+    if (Array.isArray(template)) {
+        return template.map(item => resolveTemplate(item, scope));
+    }
+    if (template && typeof template === 'object') {
+        return Object.fromEntries(
+            Object.entries(template).map(([key, item]) => [key, resolveTemplate(item, scope)])
+        );
+    }
+    return template;
+}
+
+/**
+ * Input of a step: its template, or else the workflow input for roots, the
+ * output of a single dependency, or outputs keyed by step id for fan-in
+ */
+export function stepInput(step: WorkflowNode, scope: WorkflowScope): unknown {
+    if (step.input !== undefined) return resolveTemplate(step.input, scope);
+
+    const deps = step.dependsOn ?? [];
+    if (!deps.length) return scope.input;
+    if (deps.length === 1) return scope.steps[deps[0]];
+
+    // With join 'any', dependencies that didn't run are left out
+    return Object.fromEntries(deps.filter(dep => dep in scope.steps).map(dep => [dep, scope.steps[dep]]));
+}
+
+export function evaluateCondition(condition: WorkflowCondition, scope: WorkflowScope): boolean {
+    const actual = resolveReference(condition.ref, scope);
+    const expected = condition.value;
+
+    switch (condition.op) {
+        case 'exists': return actual !== undefined && actual !== null;
+        case 'truthy': return !!actual;
+        case 'falsy': return !actual;
+        case 'eq': return JSON.stringify(actual) === JSON.stringify(expected);
+        case 'neq': return JSON.stringify(actual) !== JSON.stringify(expected);
+        case 'gt': return Number(actual) > Number(expected);
+        case 'gte': return Number(actual) >= Number(expected);
+        case 'lt': return Number(actual) < Number(expected);
+        case 'lte': return Number(actual) <= Number(expected);
+        default: return false;
+    }
+}
+
+/**
+ * A linear workflow calling services in order, each with the previous output
+ */
+export function workflowFromPath(
+    services: Array<{ id: string; name?: string; inputType?: string; outputType?: string }>,
+    name?: string
+): WorkflowDefinition {
+    return {
+        version: WORKFLOW_VERSION,
+        name,
+        steps: services.map((service, i) => ({
+            id: `step${i + 1}`,
+            name: service.name,
+            serviceId: service.id,
+            dependsOn: i > 0 ? [`step${i}`] : undefined,
+            inputType: service.inputType,
+            outputType: service.outputType,
+        })),
+    };
+}
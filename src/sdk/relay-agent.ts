@@ -25,6 +25,40 @@
  */
 
 import { ethers } from 'ethers';
+import {
+    checkPaymentDemand,
+    parsePaymentDemand,
+    type PaymentApprover,
+    type PaymentCheck,
+    type PaymentDemand,
+    type PaymentExpectation
+} from './lib/payment-guard';
+import {
+    evaluateCondition,
+    isWorkflowDefinition,
+    resolveTemplate,
+    stepInput,
+    validateWorkflow,
+    workflowLevels,
+    type WorkflowCall,
+    type WorkflowDefinition,
+    type WorkflowScope
+} from './lib/workflow-dag';
+import {
+    isEventStream,
+    isStreamingContentType,
+    readLines,
+    readSseEvents,
+    RELAY_STREAM_EVENTS,
+    type StreamUsage
+} from './lib/sse';
+import {
+    decodeReceipt,
+    RECEIPT_HEADER,
+    verifyDeliveryReceipt,
+    type DeliveryReceipt,
+    type ReceiptCheck
+} from './lib/delivery-receipt';
 
 // ============================================================================
 // TYPES - Clear, descriptive names
@@ -53,6 +87,10 @@ export interface TrustPolicy {
     maxLatency?: number;
     /** Maximum price per call in USDC */
     maxPrice?: number;
+    /** Percent a 402 may demand above the listed price before payment needs approval (default 0) */
+    priceTolerancePct?: number;
+    /** Token contracts the agent pays in; any when unset */
+    allowedAssets?: string[];
     /** Require verified/reliable services only */
     verifiedOnly?: boolean;
     /** Preferred service providers (addresses) */
@@ -108,6 +146,8 @@ export interface ExecutionResult<T = unknown> {
         txHash: string;
         amount: string;
     };
+    /** Delivery receipt the provider returned, checked against the call */
+    receipt?: ReceiptCheck & { receipt: DeliveryReceipt };
     /** Performance metrics */
     metrics: {
         totalMs: number;
@@ -116,6 +156,46 @@ export interface ExecutionResult<T = unknown> {
     };
 }
 
+/** Options of execute and executeStream */
+export interface ExecuteOptions {
+    /** Time allowed until the service responds; streams are not cut off once open */
+    timeout?: number;
+    /** Pay from an x402 session (sent as X-Session-Id) instead of per call */
+    sessionId?: string;
+    /** Earlier payment whose entitlement should be used before paying again */
+    paymentId?: string;
+    /** Called once a payment is made, before the paid request is sent */
+    onPayment?: (payment: NonNullable<ExecutionResult['payment']>) => void | Promise<void>;
+    /** Cap for this call in USDC; the lower of it and the trust policy's maxPrice applies */
+    maxPrice?: string;
+}
+
+/** A chunk of a streamed response: an SSE event or an NDJSON line */
+export interface StreamChunk<T = unknown> {
+    /** SSE event name, if the service set one */
+    event?: string;
+    /** Parsed JSON, or the raw text when the chunk isn't JSON */
+    data: T;
+    id?: string;
+}
+
+/** Streamed execution; iterate `stream` once */
+export interface StreamExecution<T = unknown> {
+    success: boolean;
+    error?: ExecutionError;
+    payment?: ExecutionResult['payment'];
+    stream?: AsyncIterable<StreamChunk<T>>;
+    /** Metered usage reported by the Relay proxy, once the stream has ended */
+    usage(): StreamUsage | null;
+    /** Stop the stream and close the connection */
+    cancel(): void;
+    metrics: {
+        /** Time until the stream opened */
+        totalMs: number;
+        paymentMs?: number;
+    };
+}
+
 /** Structured error with actionable information */
 export interface ExecutionError {
     code: ErrorCode;
@@ -134,12 +214,14 @@ export type ErrorCode =
     | 'SERVICE_UNAVAILABLE'
     | 'PAYMENT_FAILED'
     | 'PAYMENT_TIMEOUT'
+    | 'PAYMENT_REJECTED'
     | 'EXECUTION_FAILED'
     | 'EXECUTION_TIMEOUT'
     | 'INSUFFICIENT_BALANCE'
     | 'UNAUTHORIZED'
     | 'RATE_LIMITED'
     | 'INVALID_INPUT'
+    | 'BUDGET_EXCEEDED'
     | 'PARTIAL_SUCCESS'
     | 'UNKNOWN';
 
@@ -167,6 +249,8 @@ export interface WorkflowResult<T = unknown> {
         success: boolean;
         data?: unknown;
         error?: ExecutionError;
+        /** DAG step not run: its condition was false or its dependencies didn't succeed */
+        skipped?: boolean;
         durationMs: number;
     }>;
     /** Total workflow duration */
@@ -175,6 +259,12 @@ export interface WorkflowResult<T = unknown> {
     completedSteps: number;
     /** Number of steps that failed */
     failedSteps: number;
+    /** Error that stopped a DAG workflow */
+    error?: ExecutionError;
+    /** USDC paid by a DAG workflow, compensations included */
+    spent?: string;
+    /** Task artifact of a DAG workflow run, for resumeWorkflow */
+    runId?: string;
 }
 
 /** Outcome record for memory */
@@ -238,6 +328,9 @@ export interface TaskArtifact {
     agent_id: string;
     service_id?: string;
     session_id?: string;
+    /** Workflow run this task is a step of */
+    parent_task_id?: string;
+    step_id?: string;
     state: TaskState;
     payment_id?: string;
     facilitator_tx?: string;
@@ -275,6 +368,72 @@ export interface TaskStats {
 // IMPLEMENTATION
 // ============================================================================
 
+/** Spend of a running DAG workflow in USDC base units; no cap without a budget */
+interface WorkflowLedger {
+    cap: bigint | null;
+    spent: bigint;
+    reserved: bigint;
+}
+
+/** USDC amount (string or number, as listings and sessions return them) in base units */
+function toUsdcUnits(value: string | number): bigint {
+    return ethers.parseUnits(Number(value).toFixed(6), 6);
+}
+
+function parseChunk(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Chunks of a streamed response. Relay control events are not yielded:
+ * usage is passed to onUsage and a relay.error is thrown once the stream
+ * has ended. A response that isn't a stream yields its body as one chunk.
+ */
+async function* readStreamChunks<T>(
+    response: Response,
+    signal: AbortSignal,
+    onUsage: (usage: StreamUsage) => void
+): AsyncGenerator<StreamChunk<T>> {
+    const contentType = response.headers.get('content-type');
+
+    try {
+        if (!response.body || !isStreamingContentType(contentType)) {
+            yield { data: parseChunk(await response.text()) as T };
+            return;
+        }
+
+        if (!isEventStream(contentType)) {
+            for await (const line of readLines(response.body)) {
+                if (line.trim()) yield { data: parseChunk(line) as T };
+            }
+            return;
+        }
+
+        let relayError: string | null = null;
+        for await (const event of readSseEvents(response.body)) {
+            switch (event.event) {
+                case RELAY_STREAM_EVENTS.usage:
+                case RELAY_STREAM_EVENTS.budgetExhausted:
+                    onUsage(parseChunk(event.data) as StreamUsage);
+                    break;
+                case RELAY_STREAM_EVENTS.error:
+                    relayError = (parseChunk(event.data) as { message?: string }).message || 'Stream failed';
+                    break;
+                default:
+                    yield { event: event.event, id: event.id, data: parseChunk(event.data) as T };
+            }
+        }
+        if (relayError) throw new Error(relayError);
+    } catch (err) {
+        // cancel() ends the stream quietly
+        if (!signal.aborted) throw err;
+    }
+}
+
 const NETWORK_CONFIG: Record<Network, { apiUrl: string; chainId: number }> = {
     'cronos-mainnet': { apiUrl: 'https://api.relaycore.xyz', chainId: 25 },
     'cronos-testnet': { apiUrl: 'https://testnet-api.relaycore.xyz', chainId: 338 },
@@ -312,6 +471,7 @@ export class RelayAgent {
     private apiUrl: string;
     private apiKey: string;
     private trustPolicy: TrustPolicy = {};
+    private paymentApprover: PaymentApprover | null = null;
     private memoryStore: OutcomeRecord[] = [];
 
     constructor(config: AgentConfig) {
@@ -375,6 +535,18 @@ export class RelayAgent {
         return { ...this.trustPolicy };
     }
 
+    /**
+     * Decide on 402 challenges that don't match the service listing or the
+     * trust policy (higher price, different payTo, asset or network).
+     * Without an approver they are refused.
+     *
+     * @example
+     * agent.setPaymentApprover(check => (check.driftPct ?? 0) < 10);
+     */
+    setPaymentApprover(approver: PaymentApprover | null): void {
+        this.paymentApprover = approver;
+    }
+
     // ==========================================================================
     // SERVICE SELECTION - Decision abstraction, not CRUD
     // ==========================================================================
@@ -502,10 +674,9 @@ export class RelayAgent {
     async execute<TInput = unknown, TOutput = unknown>(
         service: SelectedService | string,
         input?: TInput,
-        options: { timeout?: number } = {}
+        options: ExecuteOptions = {}
     ): Promise<ExecutionResult<TOutput>> {
         const startTime = performance.now();
-        const timeout = options.timeout || 30000;
 
         // Resolve service
         const resolvedService = typeof service === 'string'
@@ -520,77 +691,32 @@ export class RelayAgent {
             };
         }
 
-        // Make initial request
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), timeout);
-
         try {
-            let response = await fetch(resolvedService.endpoint, {
-                method: input ? 'POST' : 'GET',
-                headers: this.getHeaders(),
-                body: input ? JSON.stringify(input) : undefined,
-                signal: controller.signal,
-            });
-
-            let paymentInfo: ExecutionResult<TOutput>['payment'];
-            let paymentMs: number | undefined;
-
-            // Handle 402 Payment Required
-            if (response.status === 402) {
-                if (!this.signer) {
-                    clearTimeout(timeoutId);
-                    return {
-                        success: false,
-                        error: this.createError('UNAUTHORIZED', 'Signer required for paid services', false),
-                        metrics: { totalMs: Math.round(performance.now() - startTime) },
-                    };
-                }
-
-                const paymentRequired = await response.json();
-                const requirements = paymentRequired.paymentRequirements;
-
-                const paymentStart = performance.now();
-                const payment = await this.makePayment(requirements);
-                paymentMs = Math.round(performance.now() - paymentStart);
-
-                paymentInfo = {
-                    id: payment.paymentId,
-                    txHash: payment.txHash,
-                    amount: requirements.maxAmountRequired,
+            const sent = await this.sendPaidRequest(resolvedService, input, options, new AbortController());
+            if ('error' in sent) {
+                return {
+                    success: false,
+                    error: sent.error,
+                    metrics: { totalMs: Math.round(performance.now() - startTime) },
                 };
-
-                // Retry with payment
-                response = await fetch(resolvedService.endpoint, {
-                    method: input ? 'POST' : 'GET',
-                    headers: {
-                        ...this.getHeaders(),
-                        'X-Payment': payment.txHash,
-                        'X-Payment-Id': payment.paymentId,
-                    },
-                    body: input ? JSON.stringify(input) : undefined,
-                    signal: controller.signal,
-                });
             }
 
-            clearTimeout(timeoutId);
+            const { response, payment: paymentInfo, paymentMs } = sent;
             const totalMs = Math.round(performance.now() - startTime);
             const serviceMs = paymentMs ? totalMs - paymentMs : totalMs;
 
             if (!response.ok) {
-                const error = await response.json().catch(() => ({}));
                 return {
                     success: false,
-                    error: this.createError(
-                        response.status === 429 ? 'RATE_LIMITED' : 'EXECUTION_FAILED',
-                        error.message || `Service returned ${response.status}`,
-                        response.status === 429 || response.status >= 500
-                    ),
+                    error: await this.responseError(response),
                     payment: paymentInfo,
                     metrics: { totalMs, paymentMs, serviceMs },
                 };
             }
 
             const data = await response.json();
+            const receipt = decodeReceipt(response.headers.get(RECEIPT_HEADER));
+            const paymentId = paymentInfo?.id ?? options.paymentId;
 
             // Record outcome for memory
             this.recordOutcome({
@@ -605,27 +731,247 @@ export class RelayAgent {
                 success: true,
                 data,
                 payment: paymentInfo,
+                // Must be signed by the listed provider over this payment, request and response
+                receipt: receipt ? {
+                    ...verifyDeliveryReceipt(receipt, {
+                        provider: resolvedService.provider,
+                        paymentId,
+                        request: input ?? null,
+                        response: data,
+                    }),
+                    receipt,
+                } : undefined,
                 metrics: { totalMs, paymentMs, serviceMs },
             };
 
         } catch (err) {
-            clearTimeout(timeoutId);
+            return {
+                success: false,
+                error: this.requestError(err),
+                metrics: { totalMs: Math.round(performance.now() - startTime) },
+            };
+        }
+    }
+
+    /**
+     * Execute a service that streams its response (SSE or NDJSON)
+     *
+     * Payment works as in execute: pay once, then stream. Through a metered
+     * Relay proxy route with a session, the stream is charged as it arrives
+     * and ends early when the session budget runs out; usage() then reports
+     * what was charged.
+     *
+     * @example
+     * const run = await agent.executeStream(service, { prompt }, { sessionId });
+     * if (run.success) {
+     *   for await (const chunk of run.stream!) {
+     *     process.stdout.write(chunk.data.text);
+     *   }
+     *   console.log(run.usage()?.charged, run.usage()?.budgetExhausted);
+     * }
+     */
+    async executeStream<TInput = unknown, TChunk = unknown>(
+        service: SelectedService | string,
+        input?: TInput,
+        options: ExecuteOptions = {}
+    ): Promise<StreamExecution<TChunk>> {
+        const startTime = performance.now();
+        const controller = new AbortController();
+        let usage: StreamUsage | null = null;
+        const handle = {
+            usage: () => usage,
+            cancel: () => controller.abort(),
+        };
+
+        const resolvedService = typeof service === 'string'
+            ? await this.getServiceById(service)
+            : service;
+
+        if (!resolvedService) {
+            return {
+                ...handle,
+                success: false,
+                error: this.createError('SERVICE_NOT_FOUND', 'Service not found', false),
+                metrics: { totalMs: Math.round(performance.now() - startTime) },
+            };
+        }
+
+        try {
+            const sent = await this.sendPaidRequest(resolvedService, input, options, controller, {
+                Accept: 'text/event-stream, application/x-ndjson;q=0.9, application/json;q=0.5',
+            });
+            if ('error' in sent) {
+                return {
+                    ...handle,
+                    success: false,
+                    error: sent.error,
+                    metrics: { totalMs: Math.round(performance.now() - startTime) },
+                };
+            }
+
+            const { response, payment, paymentMs } = sent;
             const totalMs = Math.round(performance.now() - startTime);
 
-            const isTimeout = err instanceof Error && err.name === 'AbortError';
+            if (!response.ok) {
+                return {
+                    ...handle,
+                    success: false,
+                    error: await this.responseError(response),
+                    payment,
+                    metrics: { totalMs, paymentMs },
+                };
+            }
+
+            this.recordOutcome({
+                timestamp: new Date(),
+                serviceId: resolvedService.id,
+                success: true,
+                latencyMs: paymentMs ? totalMs - paymentMs : totalMs,
+                paymentAmount: payment?.amount,
+            });
+
             return {
+                ...handle,
+                success: true,
+                stream: readStreamChunks<TChunk>(response, controller.signal, reported => { usage = reported; }),
+                payment,
+                metrics: { totalMs, paymentMs },
+            };
+        } catch (err) {
+            return {
+                ...handle,
                 success: false,
-                error: this.createError(
-                    isTimeout ? 'EXECUTION_TIMEOUT' : 'EXECUTION_FAILED',
-                    isTimeout ? 'Request timed out' : (err instanceof Error ? err.message : 'Unknown error'),
-                    true,
-                    isTimeout ? 5000 : 1000
-                ),
-                metrics: { totalMs },
+                error: this.requestError(err),
+                metrics: { totalMs: Math.round(performance.now() - startTime) },
             };
         }
     }
 
+    /**
+     * Send a request, paying a 402 challenge if the payment guard (or the
+     * approver) accepts it. The timeout covers everything up to the response
+     * headers; request failures and timeouts are thrown.
+     */
+    private async sendPaidRequest(
+        service: SelectedService,
+        input: unknown,
+        options: ExecuteOptions,
+        controller: AbortController,
+        extraHeaders: Record<string, string> = {}
+    ): Promise<
+        | { response: Response; payment?: ExecutionResult['payment']; paymentMs?: number }
+        | { error: ExecutionError }
+    > {
+        const timeout = options.timeout || 30000;
+        // Pay from an x402 session instead of per call
+        const headers: HeadersInit = options.sessionId
+            ? { ...this.getHeaders(), ...extraHeaders, 'X-Session-Id': options.sessionId }
+            : { ...this.getHeaders(), ...extraHeaders };
+        const initialHeaders: HeadersInit = options.paymentId
+            ? { ...headers, 'X-Payment-Id': options.paymentId }
+            : headers;
+
+        // Make initial request
+        let timeoutId = setTimeout(() => controller.abort(), timeout);
+
+        try {
+            let response = await fetch(service.endpoint, {
+                method: input ? 'POST' : 'GET',
+                headers: initialHeaders,
+                body: input ? JSON.stringify(input) : undefined,
+                signal: controller.signal,
+            });
+
+            if (response.status !== 402) {
+                return { response };
+            }
+
+            // Handle 402 Payment Required
+            if (!this.signer) {
+                return { error: this.createError('UNAUTHORIZED', 'Signer required for paid services', false) };
+            }
+
+            const demand = parsePaymentDemand(await response.json().catch(() => null));
+            if (!demand) {
+                return { error: this.createError('PAYMENT_FAILED', 'Service returned 402 without payment requirements', false) };
+            }
+
+            // Never pay more (or elsewhere) than the service was selected for
+            const check = checkPaymentDemand(demand, this.paymentExpectation(service, options.maxPrice));
+            if (!check.approved) {
+                // Approval may take a while; it doesn't count against the timeout
+                clearTimeout(timeoutId);
+                const approved = this.paymentApprover ? await this.paymentApprover(check) : false;
+
+                if (!approved) {
+                    this.reportPriceDrift(service, check);
+                    return {
+                        error: {
+                            ...this.createError(
+                                'PAYMENT_REJECTED',
+                                check.violations.map(v => v.message).join('; '),
+                                false
+                            ),
+                            details: check.violations,
+                        },
+                    };
+                }
+                timeoutId = setTimeout(() => controller.abort(), timeout);
+            }
+
+            const paymentStart = performance.now();
+            const payment = await this.makePayment(demand);
+            const paymentMs = Math.round(performance.now() - paymentStart);
+
+            // An approved drift is reported with the payment as evidence
+            if (!check.approved) {
+                this.reportPriceDrift(service, check, payment.paymentId);
+            }
+
+            const paymentInfo = {
+                id: payment.paymentId,
+                txHash: payment.txHash,
+                amount: demand.maxAmountRequired,
+            };
+            await options.onPayment?.(paymentInfo);
+
+            // Retry with payment
+            response = await fetch(service.endpoint, {
+                method: input ? 'POST' : 'GET',
+                headers: {
+                    ...headers,
+                    'X-Payment': payment.txHash,
+                    'X-Payment-Id': payment.paymentId,
+                },
+                body: input ? JSON.stringify(input) : undefined,
+                signal: controller.signal,
+            });
+
+            return { response, payment: paymentInfo, paymentMs };
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+
+    private async responseError(response: Response): Promise<ExecutionError> {
+        const error = await response.json().catch(() => ({}));
+        return this.createError(
+            response.status === 429 ? 'RATE_LIMITED' : 'EXECUTION_FAILED',
+            error.message || `Service returned ${response.status}`,
+            response.status === 429 || response.status >= 500
+        );
+    }
+
+    private requestError(err: unknown): ExecutionError {
+        const isTimeout = err instanceof Error && err.name === 'AbortError';
+        return this.createError(
+            isTimeout ? 'EXECUTION_TIMEOUT' : 'EXECUTION_FAILED',
+            isTimeout ? 'Request timed out' : (err instanceof Error ? err.message : 'Unknown error'),
+            true,
+            isTimeout ? 5000 : 1000
+        );
+    }
+
     // ==========================================================================
     // WORKFLOWS - Multi-step execution with retries and fallbacks
     // ==========================================================================
@@ -633,17 +979,38 @@ export class RelayAgent {
     /**
      * Execute a multi-step workflow
      * 
+     * Steps given as an array run in sequence, each output feeding the next
+     * input. A WorkflowDefinition runs as a DAG (see lib/workflow-dag.ts),
+     * e.g. one returned by ServiceConsumerSDK.suggestWorkflow.
+     * 
      * @example
      * const result = await agent.executeWorkflow([
      *   { name: 'getPrice', criteria: { category: 'data.prices' } },
      *   { name: 'validate', transform: (price) => price.value > 0 ? price : null },
      *   { name: 'trade', criteria: { category: 'trading.execution' } },
      * ], { pair: 'BTC/USD' });
+     * 
+     * @example
+     * const result = await agent.executeWorkflow({
+     *   version: 1,
+     *   budget: { maxSpend: '0.5', sessionId },
+     *   steps: [
+     *     { id: 'cex', criteria: { category: 'data.prices' } },
+     *     { id: 'dex', serviceId: 'dex-quotes' },
+     *     { id: 'trade', serviceId: 'perp-exec', dependsOn: ['cex', 'dex'],
+     *       when: { ref: '$steps.dex.spreadBps', op: 'gt', value: 20 },
+     *       compensate: { serviceId: 'perp-close' } },
+     *   ],
+     * }, { pair: 'BTC/USD' });
      */
     async executeWorkflow<TInput = unknown, TOutput = unknown>(
-        steps: WorkflowStep[],
+        steps: WorkflowStep[] | WorkflowDefinition,
         initialInput: TInput
     ): Promise<WorkflowResult<TOutput>> {
+        if (isWorkflowDefinition(steps)) {
+            return this.executeWorkflowDag<TOutput>(steps, initialInput);
+        }
+
         const startTime = performance.now();
         const stepResults: WorkflowResult['stepResults'] = [];
         let currentInput: unknown = initialInput;
@@ -756,6 +1123,318 @@ export class RelayAgent {
         };
     }
 
+    /**
+     * Resume an interrupted DAG workflow run
+     * 
+     * Steps settled in the run are not called again; their stored outputs
+     * feed the remaining steps. A step that was paid for but never settled
+     * is retried with its payment ID so the provider can honor the
+     * entitlement instead of charging again.
+     * 
+     * @example
+     * const first = await agent.executeWorkflow(definition, input);
+     * if (!first.success && first.runId) {
+     *   const resumed = await agent.resumeWorkflow(first.runId);
+     * }
+     */
+    async resumeWorkflow<TOutput = unknown>(runId: string): Promise<WorkflowResult<TOutput>> {
+        const run = await this.getTask(runId);
+        const definition = run?.inputs.workflow;
+
+        if (!run || !isWorkflowDefinition(definition)) {
+            return {
+                success: false,
+                error: this.createError('INVALID_INPUT', `Task ${runId} is not a workflow run`, false),
+                stepResults: [],
+                totalMs: 0,
+                completedSteps: 0,
+                failedSteps: 0,
+            };
+        }
+
+        const steps = await this.getWorkflowSteps(runId);
+        return this.executeWorkflowDag<TOutput>(definition, run.inputs.input, { runId, steps });
+    }
+
+    /**
+     * Run a workflow DAG level by level, the steps of a level in parallel.
+     * After a step fails no further levels start, and completed steps with a
+     * compensation are undone in reverse completion order. Service steps
+     * reserve their listed price against the budget before each attempt
+     * and may not pay a 402 above what is left; compensations aren't capped
+     * by it.
+     * 
+     * The run is a task artifact with a step task per service step, holding
+     * its output, payment ID and cost (with the part the session paid).
+     * Persistence is best effort: when the
+     * task API is unreachable the workflow still runs, without a runId.
+     */
+    private async executeWorkflowDag<TOutput>(
+        definition: WorkflowDefinition,
+        initialInput: unknown,
+        resumed?: { runId: string; steps: TaskArtifact[] }
+    ): Promise<WorkflowResult<TOutput>> {
+        const startTime = performance.now();
+        const stepResults: WorkflowResult['stepResults'] = [];
+        const sessionId = definition.budget?.sessionId;
+        const ledger: WorkflowLedger = { cap: null, spent: BigInt(0), reserved: BigInt(0) };
+
+        const stop = (error: ExecutionError): WorkflowResult<TOutput> => ({
+            success: false,
+            error,
+            stepResults,
+            totalMs: Math.round(performance.now() - startTime),
+            completedSteps: 0,
+            failedSteps: 0,
+            runId: resumed?.runId,
+        });
+
+        const problems = validateWorkflow(definition);
+        if (problems.length) {
+            return stop({ ...this.createError('INVALID_INPUT', problems.join('; '), false), details: problems });
+        }
+
+        const byId = new Map(definition.steps.map(step => [step.id, step]));
+        const scope: WorkflowScope = { input: initialInput, steps: {} };
+        const status = new Map<string, 'succeeded' | 'failed' | 'skipped'>();
+        const completed: string[] = [];
+        const stepTasks = new Map((resumed?.steps ?? []).map(task => [task.step_id ?? '', task]));
+        let failure: ExecutionError | undefined;
+        let resumedSessionSpent = BigInt(0);
+
+        // Settled steps of a resumed run keep their outputs and cost
+        for (const [id, task] of Array.from(stepTasks.entries())) {
+            if (task.state !== 'settled' || !byId.has(id)) continue;
+            scope.steps[id] = task.outputs.data;
+            status.set(id, 'succeeded');
+            completed.push(id);
+            ledger.spent += toUsdcUnits((task.outputs.charged as string) || '0');
+            resumedSessionSpent += toUsdcUnits((task.outputs.sessionCharged as string) || '0');
+            stepResults.push({ stepName: id, success: true, data: task.outputs.data, durationMs: 0 });
+        }
+
+        if (definition.budget) {
+            ledger.cap = toUsdcUnits(definition.budget.maxSpend);
+
+            if (sessionId) {
+                const session = await this.getSession(sessionId).catch(() => null);
+                if (!session?.isActive) {
+                    return stop(this.createError('BUDGET_EXCEEDED', `Session ${sessionId} is not active`, false));
+                }
+                // The session balance already reflects what a resumed run paid from it;
+                // steps paid per call through x402 never touched it
+                const remaining = toUsdcUnits(session.maxSpend) - toUsdcUnits(session.spent) + resumedSessionSpent;
+                if (remaining < ledger.cap) ledger.cap = remaining;
+            }
+        }
+
+        const runId = resumed?.runId ?? await this.createTask({ inputs: { workflow: definition, input: initialInput } })
+            .then(task => task.task_id)
+            .catch(() => undefined);
+        if (resumed) await this.updateTask(resumed.runId, { state: 'pending' }).catch(() => undefined);
+
+        for (const level of workflowLevels(definition)) {
+            await Promise.all(level.map(async id => {
+                if (status.has(id)) return;
+
+                const step = byId.get(id)!;
+                const stepStart = performance.now();
+                const deps = step.dependsOn ?? [];
+                const succeeded = deps.filter(dep => status.get(dep) === 'succeeded').length;
+                const ready = step.join === 'any'
+                    ? deps.length === 0 || succeeded > 0
+                    : succeeded === deps.length;
+
+                if (!ready || (step.when && !evaluateCondition(step.when, scope))) {
+                    status.set(id, 'skipped');
+                    stepResults.push({ stepName: id, success: false, skipped: true, durationMs: 0 });
+                    return;
+                }
+
+                const input = stepInput(step, scope);
+                const task = runId ? await this.openStepTask(runId, step.id, step.serviceId, input, stepTasks.get(id)) : null;
+                const result = await this.runWorkflowCall(step, input, ledger, sessionId, step.retries ?? 0, {
+                    paymentId: task?.payment_id,
+                    onPayment: async payment => {
+                        if (task) {
+                            await this.updateTask(task.task_id, { payment_id: payment.id, facilitator_tx: payment.txHash })
+                                .catch(() => undefined);
+                        }
+                    },
+                });
+                const durationMs = Math.round(performance.now() - stepStart);
+
+                if (result.success) {
+                    scope.steps[id] = result.data;
+                    status.set(id, 'succeeded');
+                    completed.push(id);
+                    stepResults.push({ stepName: id, success: true, data: result.data, durationMs });
+                    if (task) {
+                        await this.settleTask(
+                            task.task_id,
+                            {
+                                data: result.data,
+                                charged: ethers.formatUnits(result.charged, 6),
+                                sessionCharged: ethers.formatUnits(result.sessionCharged, 6),
+                            },
+                            { total_ms: durationMs, payment_ms: result.metrics.paymentMs, service_ms: result.metrics.serviceMs }
+                        ).catch(() => undefined);
+                    }
+                } else {
+                    status.set(id, 'failed');
+                    failure ??= result.error;
+                    stepResults.push({ stepName: id, success: false, error: result.error, durationMs });
+                    if (task && result.error) {
+                        await this.failTask(task.task_id, result.error, { total_ms: durationMs }).catch(() => undefined);
+                    }
+                }
+            }));
+
+            if (failure) break;
+        }
+
+        if (failure) {
+            for (const id of [...completed].reverse()) {
+                const compensation = byId.get(id)!.compensate;
+                if (!compensation) continue;
+
+                const stepStart = performance.now();
+                const input = compensation.input !== undefined
+                    ? resolveTemplate(compensation.input, scope)
+                    : scope.steps[id];
+                const result = await this.runWorkflowCall(compensation, input, { ...ledger, cap: null }, sessionId, 0);
+                ledger.spent += result.charged;
+
+                stepResults.push({
+                    stepName: `${id} (compensate)`,
+                    success: result.success,
+                    data: result.data,
+                    error: result.error,
+                    durationMs: Math.round(performance.now() - stepStart),
+                });
+            }
+        }
+
+        // Output of the last steps that ran: the only one's, or each keyed by step id
+        const consumed = new Set(completed.flatMap(id => byId.get(id)!.dependsOn ?? []));
+        const sinks = completed.filter(id => !consumed.has(id));
+        const data = sinks.length === 1
+            ? scope.steps[sinks[0]]
+            : Object.fromEntries(sinks.map(id => [id, scope.steps[id]]));
+        const totalMs = Math.round(performance.now() - startTime);
+        const spent = ethers.formatUnits(ledger.spent, 6);
+
+        if (runId) {
+            await (failure
+                ? this.failTask(runId, failure, { total_ms: totalMs })
+                : this.settleTask(runId, { data, spent }, { total_ms: totalMs })
+            ).catch(() => undefined);
+        }
+
+        return {
+            success: !failure,
+            data: data as TOutput,
+            stepResults,
+            totalMs,
+            completedSteps: completed.length,
+            failedSteps: Array.from(status.values()).filter(s => s === 'failed').length,
+            error: failure,
+            spent,
+            runId,
+        };
+    }
+
+    /**
+     * Step task of a workflow run, reopened when a resumed run retries it
+     */
+    private async openStepTask(
+        runId: string,
+        stepId: string,
+        serviceId: string | undefined,
+        input: unknown,
+        existing?: TaskArtifact
+    ): Promise<TaskArtifact | null> {
+        if (existing) {
+            if (existing.state !== 'pending') {
+                await this.updateTask(existing.task_id, { state: 'pending' }).catch(() => undefined);
+            }
+            return existing;
+        }
+
+        return this.createTask({
+            service_id: serviceId,
+            parent_task_id: runId,
+            step_id: stepId,
+            inputs: { input },
+        }).catch(() => null);
+    }
+
+    /**
+     * Call a workflow step's service, reserving its listed price against the
+     * ledger before each attempt. `charged` is what the call cost: the 402
+     * payment, or the listed price when a session paid; `sessionCharged` is
+     * the part of it paid from the session.
+     */
+    private async runWorkflowCall(
+        call: WorkflowCall,
+        input: unknown,
+        ledger: WorkflowLedger,
+        sessionId: string | undefined,
+        retries: number,
+        payment: { paymentId?: string; onPayment?: (payment: NonNullable<ExecutionResult['payment']>) => Promise<void> } = {}
+    ): Promise<ExecutionResult & { charged: bigint; sessionCharged: bigint }> {
+        let service: SelectedService | null = null;
+        if (call.serviceId) service = await this.getServiceById(call.serviceId);
+        else if (call.criteria) service = await this.selectService(call.criteria);
+
+        if (!service) {
+            return {
+                success: false,
+                error: this.createError('SERVICE_NOT_FOUND', `No service found for ${call.serviceId ?? 'criteria'}`, false),
+                metrics: { totalMs: 0 },
+                charged: BigInt(0),
+                sessionCharged: BigInt(0),
+            };
+        }
+
+        const estimate = toUsdcUnits(service.price || '0');
+        let charged = BigInt(0);
+        let sessionCharged = BigInt(0);
+
+        for (let attempt = 0; ; attempt++) {
+            if (ledger.cap !== null && ledger.spent + ledger.reserved + estimate > ledger.cap) {
+                return {
+                    success: false,
+                    error: this.createError(
+                        'BUDGET_EXCEEDED',
+                        `${service.name} costs ${service.price} USDC, workflow has ${ethers.formatUnits(ledger.cap - ledger.spent - ledger.reserved, 6)} USDC left`,
+                        false
+                    ),
+                    metrics: { totalMs: 0 },
+                    charged,
+                    sessionCharged,
+                };
+            }
+
+            // A 402 above the listing may not take more than the budget has left
+            const maxPrice = ledger.cap !== null
+                ? ethers.formatUnits(ledger.cap - ledger.spent - ledger.reserved, 6)
+                : undefined;
+            ledger.reserved += estimate;
+            const result = await this.execute(service, input, { timeout: call.timeout, sessionId, maxPrice, ...payment });
+            ledger.reserved -= estimate;
+
+            const cost = result.payment ? BigInt(result.payment.amount) : (sessionId && result.success ? estimate : BigInt(0));
+            ledger.spent += cost;
+            charged += cost;
+            if (!result.payment) sessionCharged += cost;
+
+            if (result.success || !result.error?.retryable || attempt >= retries) {
+                return { ...result, charged, sessionCharged };
+            }
+        }
+    }
+
     // ==========================================================================
     // MEMORY - Built-in hooks for agent learning
     // ==========================================================================
@@ -872,11 +1551,48 @@ export class RelayAgent {
             `latency=${scored.service.latency}ms, price=$${scored.service.price}`;
     }
 
-    private async makePayment(requirements: {
-        payTo: string;
-        maxAmountRequired: string;
-        asset?: string;
-    }): Promise<{ paymentId: string; txHash: string }> {
+    /**
+     * What a 402 from this service may ask for
+     */
+    private paymentExpectation(service: SelectedService, callMaxPrice?: string): PaymentExpectation {
+        const policyMaxPrice = this.trustPolicy.maxPrice;
+        const maxPrice = callMaxPrice !== undefined
+            && (policyMaxPrice === undefined || toUsdcUnits(callMaxPrice) < toUsdcUnits(policyMaxPrice))
+            ? callMaxPrice
+            : policyMaxPrice;
+
+        return {
+            listedPrice: service.price,
+            payTo: service.provider || undefined,
+            assets: this.trustPolicy.allowedAssets,
+            network: this.network,
+            maxPrice,
+            priceTolerancePct: this.trustPolicy.priceTolerancePct,
+        };
+    }
+
+    /**
+     * Report a challenge that failed the payment guard against the
+     * provider's reputation (fire and forget). Relay checks it against the
+     * payment when one was made, and otherwise fetches the challenge itself.
+     */
+    private reportPriceDrift(service: SelectedService, check: PaymentCheck, paymentId?: string): void {
+        fetch(`${this.apiUrl}/api/services/${service.id}/price-drift`, {
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: JSON.stringify({
+                violations: check.violations.map(v => v.type),
+                demandedAmount: check.demand.maxAmountRequired,
+                payTo: check.demand.payTo,
+                paymentId,
+                action: paymentId ? 'approved' : 'refused',
+            }),
+        }).catch(() => {
+            // Reporting is best effort
+        });
+    }
+
+    private async makePayment(requirements: PaymentDemand): Promise<{ paymentId: string; txHash: string }> {
         if (!this.signer) throw this.createError('UNAUTHORIZED', 'Signer required', false);
 
         const signerAddress = await this.signer.getAddress();
@@ -908,7 +1624,8 @@ export class RelayAgent {
         const value = {
             from: signerAddress,
             to: requirements.payTo,
-            value: ethers.parseUnits(requirements.maxAmountRequired, 6),
+            // 402 amounts are already USDC base units
+            value: BigInt(requirements.maxAmountRequired),
             validAfter,
             validBefore,
             nonce,
@@ -1028,6 +1745,8 @@ export class RelayAgent {
     async createTask(params: {
         service_id?: string;
         session_id?: string;
+        parent_task_id?: string;
+        step_id?: string;
         inputs: Record<string, unknown>;
     }): Promise<TaskArtifact> {
         const agentId = await this.getAddress();
@@ -1039,6 +1758,8 @@ export class RelayAgent {
                 agent_id: agentId,
                 service_id: params.service_id,
                 session_id: params.session_id,
+                parent_task_id: params.parent_task_id,
+                step_id: params.step_id,
                 inputs: params.inputs,
             }),
         });
@@ -1050,6 +1771,43 @@ export class RelayAgent {
         return response.json();
     }
 
+    /**
+     * Update a task artifact's state, payment or outputs
+     */
+    async updateTask(taskId: string, updates: {
+        state?: TaskState;
+        payment_id?: string;
+        facilitator_tx?: string;
+        outputs?: Record<string, unknown>;
+    }): Promise<TaskArtifact> {
+        const response = await fetch(`${this.apiUrl}/api/tasks/${taskId}`, {
+            method: 'PATCH',
+            headers: this.getHeaders(),
+            body: JSON.stringify(updates),
+        });
+
+        if (!response.ok) {
+            throw this.createError('EXECUTION_FAILED', 'Failed to update task', true);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Step tasks of a workflow run, oldest first
+     */
+    async getWorkflowSteps(runId: string): Promise<TaskArtifact[]> {
+        const response = await fetch(`${this.apiUrl}/api/tasks/${runId}/steps`, {
+            headers: this.getHeaders()
+        });
+        if (!response.ok) {
+            throw this.createError('EXECUTION_FAILED', 'Failed to get workflow steps', true);
+        }
+
+        const data = await response.json();
+        return data.steps || [];
+    }
+
     /**
      * Get a task artifact by ID
      */
@@ -1219,8 +1977,12 @@ export class RelayAgent {
 
     /**
      * Execute a delegated task
+     *
+     * If the hired agent demands more than its listed price the outcome stays
+     * pending with error PAYMENT_APPROVAL_REQUIRED; call again with
+     * `approvedAmount` (USDC base units) to pay it.
      */
-    async executeDelegation(taskId: string): Promise<{
+    async executeDelegation(taskId: string, options: { approvedAmount?: string } = {}): Promise<{
         success: boolean;
         outcome: {
             taskId: string;
@@ -1228,11 +1990,19 @@ export class RelayAgent {
             state: string;
             outputs?: Record<string, unknown>;
             error?: { code: string; message: string };
+            /** Set when the agent demanded more than its listing; see approvedAmount */
+            paymentCheck?: {
+                violations: Array<{ type: string; message: string }>;
+                demandedAmount: string;
+                listedAmount: string | null;
+                approvable: boolean;
+            };
         };
     }> {
         const response = await fetch(`${this.apiUrl}/api/meta-agent/execute/${taskId}`, {
             method: 'POST',
-            headers: this.getHeaders()
+            headers: this.getHeaders(),
+            body: JSON.stringify(options)
         });
 
         if (!response.ok) {
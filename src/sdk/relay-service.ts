@@ -33,6 +33,14 @@
  */
 
 import { ethers } from 'ethers';
+import { formatSseEvent } from './lib/sse';
+import {
+    encodeReceipt,
+    hashPayload,
+    RECEIPT_HEADER,
+    signDeliveryReceipt,
+    type DeliveryReceipt
+} from './lib/delivery-receipt';
 
 // ============================================================================
 // TYPES - Clear, descriptive names
@@ -127,6 +135,10 @@ export interface DeliveryProof<T = unknown> {
     evidence?: Record<string, unknown>;
     /** Execution latency in ms */
     latencyMs?: number;
+    /** Request the result answers; ctx.deliver() fills in the payment input */
+    request?: unknown;
+    /** Signed receipt; signed automatically when omitted */
+    receipt?: DeliveryReceipt;
 }
 
 /** Payment status */
@@ -153,6 +165,8 @@ export interface OutcomeRecord {
     latencyMs: number;
     proofHash?: string;
     evidence?: Record<string, unknown>;
+    /** Provider-signed receipt of a delivery */
+    receipt?: DeliveryReceipt;
     timestamp: Date;
 }
 
@@ -236,22 +250,15 @@ export function defineService(definition: ServiceDefinition): ServiceDefinition
 }
 
 /**
- * Create a hash of data for delivery proof
+ * Create a hash of data for delivery proof: keccak256 of its JSON with
+ * sorted keys, the response hash a delivery receipt signs
  * 
  * @example
  * const proof = hashProof(result);
  * ctx.deliver({ result, proof });
  */
 export function hashProof(data: unknown): string {
-    const json = JSON.stringify(data);
-    // Simple hash for demo - in production use crypto.subtle or ethers.keccak256
-    let hash = 0;
-    for (let i = 0; i < json.length; i++) {
-        const char = json.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash;
-    }
-    return `0x${Math.abs(hash).toString(16).padStart(16, '0')}`;
+    return hashPayload(data);
 }
 
 // ============================================================================
@@ -623,7 +630,7 @@ export class RelayService {
             payerAddress: params.payerAddress,
             input: params.input,
             timestamp: new Date(),
-            deliver: async (output) => this.recordDelivery(params.paymentId, output),
+            deliver: async (output) => this.recordDelivery(params.paymentId, { request: params.input, ...output }),
             fail: async (reason, retryable) => this.recordFailure(params.paymentId, reason, retryable),
         };
 
@@ -643,18 +650,45 @@ export class RelayService {
     // DELIVERY PROOF - Sacred
     // ==========================================================================
 
+    /**
+     * Sign an EIP-712 delivery receipt over the request and response
+     * 
+     * Relay only counts deliveries towards reputation when they carry a
+     * receipt signed by the address that was paid.
+     */
+    async signReceipt(params: {
+        paymentId: string;
+        request?: unknown;
+        response: unknown;
+        latencyMs: number;
+    }): Promise<DeliveryReceipt> {
+        return signDeliveryReceipt(this.signer, {
+            ...params,
+            chainId: NETWORK_CONFIG[this.network].chainId,
+        });
+    }
+
     /**
      * Record a successful delivery
      * 
      * Called automatically by ctx.deliver() or can be called directly.
+     * Signs a receipt unless the proof already carries one.
      */
     async recordDelivery<T>(paymentId: string, output: DeliveryProof<T>): Promise<void> {
+        const receipt = output.receipt ?? await this.signReceipt({
+            paymentId,
+            request: output.request,
+            response: output.result,
+            latencyMs: output.latencyMs || 0,
+        });
+
         const outcome: OutcomeRecord = {
             paymentId,
             outcomeType: 'delivered',
             latencyMs: output.latencyMs || 0,
-            proofHash: output.proof,
+            proofHash: output.proof || receipt.responseHash,
             evidence: output.evidence,
+            receipt,
             timestamp: new Date(),
         };
 
@@ -699,6 +733,7 @@ export class RelayService {
                     latencyMs: outcome.latencyMs,
                     proofHash: outcome.proofHash,
                     evidence: outcome.evidence,
+                    receipt: outcome.receipt,
                 }),
             });
         } catch (error) {
@@ -822,6 +857,10 @@ export class RelayService {
 /**
  * Create Express middleware for x402 payment handling
  * 
+ * Successful JSON responses of paid requests carry a signed delivery
+ * receipt in the X-Relay-Receipt header, and the delivery is recorded
+ * with it.
+ * 
  * @example
  * const paymentMiddleware = createPaymentMiddleware(provider, {
  *   amount: "0.01",
@@ -840,8 +879,11 @@ export function createPaymentMiddleware(
         timeoutSeconds?: number;
     }
 ) {
-    return async (req: { headers: Record<string, string | undefined> }, res: {
+    return async (req: { headers: Record<string, string | undefined>; body?: unknown }, res: {
         status: (code: number) => { json: (data: unknown) => void };
+        json?: (data: unknown) => unknown;
+        setHeader?: (name: string, value: string) => unknown;
+        statusCode?: number;
     }, next: () => void) => {
         const paymentId = req.headers['x-payment-id'];
         const paymentTx = req.headers['x-payment'];
@@ -865,10 +907,78 @@ export function createPaymentMiddleware(
             });
         }
 
+        if (res.json && res.setHeader) {
+            const startedAt = Date.now();
+            const send = res.json.bind(res);
+            const setHeader = res.setHeader.bind(res);
+
+            res.json = (data: unknown) => {
+                if ((res.statusCode ?? 200) >= 400) return send(data);
+
+                const latencyMs = Date.now() - startedAt;
+                provider.signReceipt({ paymentId, request: req.body, response: data, latencyMs })
+                    .then(receipt => {
+                        setHeader(RECEIPT_HEADER, encodeReceipt(receipt));
+                        void provider.recordDelivery(paymentId, { result: data, request: req.body, latencyMs, receipt });
+                    })
+                    // Deliver even when signing fails; the delivery just won't count
+                    .catch(() => undefined)
+                    .then(() => send(data));
+            };
+        }
+
         next();
     };
 }
 
+// ============================================================================
+// STREAMING
+// ============================================================================
+
+/**
+ * Stream values to the caller as Server-Sent Events, e.g. behind
+ * createPaymentMiddleware (pay once, then stream). Each value is sent as
+ * the JSON data of one event. Stops pulling values when the caller
+ * disconnects, which is also how a Relay proxy route ends a stream whose
+ * session budget ran out. Resolves with the number of events sent.
+ *
+ * @example
+ * app.post('/api/complete', paymentMiddleware, (req, res) =>
+ *   streamEvents(res, generateTokens(req.body.prompt)));
+ */
+export async function streamEvents(
+    res: {
+        setHeader: (name: string, value: string) => void;
+        write: (chunk: string) => unknown;
+        end: () => void;
+        flushHeaders?: () => void;
+        on?: (event: 'close', listener: () => void) => unknown;
+        writableFinished?: boolean;
+    },
+    events: AsyncIterable<unknown>,
+    options: { event?: string } = {}
+): Promise<number> {
+    let closed = false;
+    res.on?.('close', () => {
+        if (!res.writableFinished) closed = true;
+    });
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders?.();
+
+    let sent = 0;
+    for await (const value of events) {
+        if (closed) break;
+        res.write(formatSseEvent({ event: options.event, data: JSON.stringify(value) }));
+        sent++;
+    }
+
+    if (!closed) res.end();
+    return sent;
+}
+
 // ============================================================================
 // FACTORY & EXPORTS
 // ============================================================================
@@ -10,6 +10,7 @@
 
 import { ethers } from 'ethers';
 import logger from '../../lib/logger.js';
+import { getProvider } from '../../lib/blockchain/provider.js';
 import { supabase } from '../../lib/supabase.js';
 import type { AgentCard } from '../../types/meta-agent.js';
 
@@ -58,8 +59,7 @@ export class AgentDiscoveryService {
      */
     private getProvider(): ethers.JsonRpcProvider {
         if (!this.provider) {
-            const rpcUrl = process.env.CRONOS_RPC_URL || 'https://evm-t3.cronos.org';
-            this.provider = new ethers.JsonRpcProvider(rpcUrl);
+            this.provider = getProvider();
         }
         return this.provider;
     }
@@ -8,9 +8,13 @@
 import { supabase } from '../../lib/supabase.js';
 import logger from '../../lib/logger.js';
 import { ethers } from 'ethers';
+import { getProvider } from '../../lib/blockchain/provider.js';
 import { Facilitator, type PaymentRequirements, CronosNetwork } from '@crypto.com/facilitator-client';
 import { escrowPaymentHelper } from '../escrow/escrow-payment-helper.js';
 import { SessionManager } from '../session/session-manager.js';
+import { checkPaymentDemand, parsePaymentDemand, type PaymentCheck, type PaymentDemand } from '../../sdk/lib/payment-guard.js';
+import { priceDriftLedger, incidentFromCheck, PENALIZED_VIOLATIONS } from '../reputation/price-drift.js';
+import { outcomeService } from '../outcomes/outcome-service.js';
 import type {
     AgentCard,
     AgentDiscoveryQuery,
@@ -20,6 +24,20 @@ import type {
     DelegationOutcome
 } from '../../types/meta-agent.js';
 
+/**
+ * Thrown when an agent's 402 challenge doesn't match its listing. Price
+ * increases can be approved by re-executing with an approvedAmount; a
+ * different payTo, asset or network can't.
+ */
+export class PaymentGuardError extends Error {
+    readonly code = 'PAYMENT_REJECTED' as const;
+
+    constructor(readonly check: PaymentCheck, readonly approvable: boolean) {
+        super(`Payment refused: ${check.violations.map(v => v.message).join('; ')}`);
+        this.name = 'PaymentGuardError';
+    }
+}
+
 export class MetaAgentService {
     private sessionManager: SessionManager;
     private facilitator: Facilitator;
@@ -34,9 +52,7 @@ export class MetaAgentService {
         // Initialize Relay wallet for signing x402 payments
         const relayPrivateKey = process.env.RELAY_PRIVATE_KEY;
         if (relayPrivateKey) {
-            const rpcUrl = process.env.CRONOS_RPC_URL || 'https://evm-t3.cronos.org';
-            const provider = new ethers.JsonRpcProvider(rpcUrl);
-            this.relayWallet = new ethers.Wallet(relayPrivateKey, provider);
+            this.relayWallet = new ethers.Wallet(relayPrivateKey, getProvider());
             logger.info('MetaAgentService initialized with x402 Facilitator', {
                 network: this.network,
                 relayWallet: this.relayWallet.address
@@ -238,18 +254,22 @@ export class MetaAgentService {
         // Check for active session first (off-chain, gasless)
         const activeSession = await this.sessionManager.getActiveSession(metaAgentId);
         let paymentResult: { method: string; txHash?: string; escrowSessionId?: number };
+        let reservationId: string | undefined;
 
         if (activeSession) {
             // Use session-based payment (gasless x402)
             logger.info('Using session for payment', { sessionId: activeSession.session_id });
 
-            const budgetCheck = await this.sessionManager.checkBudget(
-                activeSession.session_id,
-                cost.toString()
-            );
-
-            if (!budgetCheck.canAfford) {
-                throw new Error(`Session budget exceeded: ${budgetCheck.reason}`);
+            // Hold the cost now so a concurrent hire cannot spend the same budget
+            try {
+                const reservation = await this.sessionManager.reserveBudget(
+                    activeSession.session_id,
+                    cost.toString(),
+                    { agentId: request.agentId }
+                );
+                reservationId = reservation.reservationId;
+            } catch (error) {
+                throw new Error(`Session budget exceeded: ${(error as Error).message}`);
             }
 
             // Payment will be made via x402 (gasless) and recorded in session
@@ -291,6 +311,9 @@ export class MetaAgentService {
             .single();
 
         if (taskError || !task) {
+            if (reservationId) {
+                await this.sessionManager.releaseBudget(reservationId);
+            }
             throw new Error(`Failed to create task: ${taskError?.message}`);
         }
 
@@ -316,7 +339,7 @@ export class MetaAgentService {
                     resource: request.resourceId,
                     task: request.task
                 }
-            });
+            }, reservationId);
             logger.info('Session payment recorded', {
                 sessionId: paymentResult.escrowSessionId,
                 amount: cost
@@ -337,8 +360,11 @@ export class MetaAgentService {
 
     /**
      * Execute delegated task with x402 payment
+     *
+     * The agent's 402 is checked against its listing first; pass
+     * `approvedAmount` (USDC base units) to pay a price above the listing.
      */
-    async executeDelegation(taskId: string): Promise<DelegationOutcome> {
+    async executeDelegation(taskId: string, options: { approvedAmount?: string } = {}): Promise<DelegationOutcome> {
         const startTime = performance.now();
         logger.info('Executing delegation', { taskId });
 
@@ -402,11 +428,18 @@ export class MetaAgentService {
 
                 logger.info('x402 payment required', { taskId, agentId: task.service_id });
 
+                // Pay what the agent demands, as long as it matches its listing
+                const demand = parsePaymentDemand(paymentData);
+                if (demand) {
+                    await this.guardPayment(taskId, agent, demand, options.approvedAmount);
+                }
+
                 // Execute REAL x402 payment via Facilitator
                 if (this.relayWallet) {
                     try {
-                        const cost = agent.price_per_call || '0.01';
-                        const amountInBaseUnits = ethers.parseUnits(cost, 6).toString();
+                        const amountInBaseUnits = demand?.maxAmountRequired
+                            ?? ethers.parseUnits(agent.price_per_call || '0.01', 6).toString();
+                        const cost = ethers.formatUnits(amountInBaseUnits, 6);
 
                         // Generate EIP-3009 payment header (Relay signs authorization)
                         paymentHeader = await this.facilitator.generatePaymentHeader({
@@ -522,16 +555,15 @@ export class MetaAgentService {
                 })
                 .eq('task_id', taskId);
 
-            // Record outcome with real txHash
+            // Record outcome with real txHash; Relay made the call itself
             if (paymentId) {
-                await supabase
-                    .from('outcomes')
-                    .insert({
-                        payment_id: paymentId,
-                        outcome_type: 'delivered',
-                        latency_ms: totalMs,
-                        evidence: { taskId, result, txHash }
-                    });
+                await outcomeService.record({
+                    paymentId,
+                    outcomeType: 'delivered',
+                    latencyMs: totalMs,
+                    evidence: { taskId, result, txHash, source: 'metaAgent' },
+                    observed: true,
+                });
             }
 
             logger.info('Delegation completed with x402 payment', {
@@ -556,6 +588,10 @@ export class MetaAgentService {
                 }
             };
         } catch (error) {
+            if (error instanceof PaymentGuardError) {
+                return this.refusedDelegation(taskId, task.service_id, agent.price_per_call || '0', error);
+            }
+
             logger.error('Delegation failed', error as Error, { taskId });
 
             // Update task as failed
@@ -584,6 +620,84 @@ export class MetaAgentService {
         }
     }
 
+    /**
+     * Check a 402 against the agent's listing and record drift against its
+     * reputation; throws PaymentGuardError unless the payment may go ahead
+     */
+    private async guardPayment(
+        taskId: string,
+        agent: { id: string; owner_address: string; price_per_call: string | null },
+        demand: PaymentDemand,
+        approvedAmount?: string
+    ): Promise<void> {
+        const check = checkPaymentDemand(demand, {
+            listedPrice: agent.price_per_call || undefined,
+            payTo: agent.owner_address,
+            network: this.network,
+        });
+        if (check.approved) return;
+
+        const approvable = check.violations.every(v => v.type === 'PRICE_ABOVE_LISTING');
+        const approved = approvable && check.amount !== null &&
+            approvedAmount !== undefined && check.amount <= BigInt(approvedAmount);
+
+        // Only violations of the listing count against the provider
+        const penalized = check.violations.filter(v => PENALIZED_VIOLATIONS.includes(v.type));
+        if (penalized.length > 0) {
+            await priceDriftLedger.record({
+                serviceId: agent.id,
+                providerAddress: agent.owner_address,
+                reporterAddress: this.relayWallet?.address ?? 'relay',
+                ...incidentFromCheck({ ...check, violations: penalized }),
+                action: approved ? 'approved' : 'refused',
+            }).catch(() => {
+                // Already logged; the payment decision doesn't depend on it
+            });
+        }
+
+        if (!approved) throw new PaymentGuardError(check, approvable);
+
+        logger.info('Price drift approved for delegation', { taskId, demanded: demand.maxAmountRequired, approvedAmount });
+    }
+
+    /**
+     * Outcome of a delegation whose payment the guard refused. Approvable
+     * tasks stay pending so they can be re-executed with an approvedAmount.
+     */
+    private async refusedDelegation(
+        taskId: string,
+        agentId: string,
+        cost: string,
+        error: PaymentGuardError
+    ): Promise<DelegationOutcome> {
+        const code = error.approvable ? 'PAYMENT_APPROVAL_REQUIRED' : error.code;
+        logger.warn('Delegation payment refused', { taskId, code, violations: error.check.violations.map(v => v.type) });
+
+        if (!error.approvable) {
+            await supabase
+                .from('task_artifacts')
+                .update({
+                    state: 'failed',
+                    error: { code, message: error.message, retryable: false }
+                })
+                .eq('task_id', taskId);
+        }
+
+        return {
+            taskId,
+            agentId,
+            state: error.approvable ? 'pending' : 'failed',
+            cost,
+            error: { code, message: error.message },
+            paymentCheck: {
+                violations: error.check.violations.map(v => ({ type: v.type, message: v.message })),
+                demandedAmount: error.check.demand.maxAmountRequired,
+                listedAmount: error.check.listedAmount?.toString() ?? null,
+                approvable: error.approvable,
+            },
+        };
+    }
+
     /**
      * Get delegation status
      */
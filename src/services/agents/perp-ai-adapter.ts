@@ -68,6 +68,7 @@ export const perpAIQuoteAgent = agentRegistry.register(
             type: 'object',
             properties: {
                 bestVenue: { type: 'object' },
+                venueSelection: { type: 'object' },
                 expectedPrice: { type: 'number' },
                 expectedSlippage: { type: 'number' },
                 liquidationPrice: { type: 'number' },
@@ -116,6 +117,7 @@ export const perpAIQuoteAgent = agentRegistry.register(
             estimatedExecutionTime: quote.estimatedExecutionTime,
             priceSource: quote.priceSource,
             priceSources: quote.priceSources,
+            venueSelection: quote.venueSelection,
         };
     }
 );
@@ -180,6 +182,16 @@ export const perpAITradeAgent = agentRegistry.register(
                     type: 'number',
                     description: 'Take profit price',
                 },
+                trailingStopPct: {
+                    type: 'number',
+                    description: 'Trailing stop distance in percent from the best price since entry',
+                    minimum: 0.1,
+                    maximum: 50,
+                },
+                paper: {
+                    type: 'boolean',
+                    description: 'Simulate the trade against a virtual balance instead of a real venue',
+                },
             },
             required: ['pair', 'side', 'leverage', 'sizeUsd', 'userAddress'],
         },
@@ -195,6 +207,7 @@ export const perpAITradeAgent = agentRegistry.register(
                 actualSlippage: { type: 'number' },
                 executionTime: { type: 'number' },
                 status: { type: 'string' },
+                paper: { type: 'boolean' },
             },
         },
 
@@ -223,6 +236,8 @@ export const perpAITradeAgent = agentRegistry.register(
             maxSlippage: input.maxSlippage as number | undefined,
             stopLoss: input.stopLoss as number | undefined,
             takeProfit: input.takeProfit as number | undefined,
+            trailingStopPct: input.trailingStopPct as number | undefined,
+            paper: input.paper as boolean | undefined,
         };
 
         logger.info('PerpAI Trade Agent invoked', {
@@ -244,6 +259,7 @@ export const perpAITradeAgent = agentRegistry.register(
             actualSlippage: result.actualSlippage,
             executionTime: result.executionTime,
             status: result.status,
+            paper: 'paper' in result ? result.paper : false,
         };
     }
 );
@@ -2,13 +2,16 @@ import { apiClient, type ApiResponse } from '../../lib/api-client.js';
 import { supabase } from '../../lib/supabase.js';
 import { reputationEngine } from '../reputation/reputation-engine.js';
 import { tradeRouter } from '../perpai/trade-router.js';
+import { SessionLedger, SupabaseSessionLedgerBackend, toBaseUnits } from '../session/session-ledger.js';
 import type {
     ServiceQueryParams, ServiceResponse, CreateServiceRequest,
     TradeQuoteRequest, TradeExecuteRequest, TradeQuoteResponse, TradeExecuteResponse,
     ClosePositionRequest, ClosePositionResponse
 } from '../../types/api';
 
-
+// Payments recorded here were already released on-chain, so the ledger
+// only books them against the budget (no spending policy guard)
+const sessionLedger = new SessionLedger(new SupabaseSessionLedgerBackend(supabase));
 
 export const RelayApi = {
     // ============================================
@@ -401,6 +404,9 @@ export const RelayApi = {
 
     async recordSessionPayment(sessionId: number, agentAddress: string, amount: string, executionId: string, txHash: string) {
         try {
+            // Already released on-chain: booked as is, without the budget checks
+            await sessionLedger.recordSettled(String(sessionId), toBaseUnits(amount), { agentAddress, executionId, txHash });
+
             const { error: paymentError } = await supabase
                 .from('escrow_payments')
                 .insert({
@@ -413,20 +419,6 @@ export const RelayApi = {
 
             if (paymentError) throw paymentError;
 
-            // Update session released amount
-            const { data: session } = await supabase
-                .from('escrow_sessions')
-                .select('released')
-                .eq('session_id', sessionId)
-                .single();
-
-            const newReleased = parseFloat(session?.released || '0') + parseFloat(amount);
-
-            await supabase
-                .from('escrow_sessions')
-                .update({ released: newReleased })
-                .eq('session_id', sessionId);
-
             return {
                 data: { success: true, txHash },
                 error: null,
@@ -9,7 +9,7 @@ import logger from '../../lib/logger.js';
 import { bot } from './telegram-bot.js';
 
 export interface NotificationPayload {
-    type: 'payment_received' | 'payment_sent' | 'service_called' | 'reputation_change' | 'health_alert' | 'daily_summary';
+    type: 'payment_received' | 'payment_sent' | 'service_called' | 'reputation_change' | 'health_alert' | 'position_alert' | 'daily_summary';
     title: string;
     message: string;
     data?: Record<string, unknown>;
@@ -99,6 +99,8 @@ function shouldSendNotification(
             return settings.notify_reputation_changes !== false;
         case 'health_alert':
             return settings.notify_health_alerts !== false;
+        case 'position_alert':
+            return settings.notify_position_alerts !== false;
         case 'daily_summary':
             return settings.notify_daily_summary !== false;
         default:
@@ -119,6 +121,7 @@ function formatNotification(notification: NotificationPayload): string {
         service_called: '[CALL]',
         reputation_change: '[REP]',
         health_alert: '[HEALTH]',
+        position_alert: '[POSITION]',
         daily_summary: '[SUMMARY]',
     };
 
@@ -236,6 +239,56 @@ export async function notifyHealthAlert(
     });
 }
 
+/**
+ * Notify when an open position nears its liquidation price
+ */
+export async function notifyLiquidationRisk(
+    walletAddress: string,
+    position: { tradeId: string; pair: string; side: 'long' | 'short'; price: number; liquidationPrice: number },
+    distancePct: number,
+    level: 'warning' | 'critical'
+): Promise<void> {
+    await sendNotification(walletAddress, {
+        type: 'position_alert',
+        title: level === 'critical' ? 'Liquidation Imminent' : 'Liquidation Risk',
+        message: `Your *${position.side} ${position.pair}* position is *${distancePct.toFixed(2)}%* from liquidation.\n\n` +
+            `Price: *$${position.price.toFixed(4)}*\nLiquidation: *$${position.liquidationPrice.toFixed(4)}*`,
+        data: { ...position, distancePct, level },
+        priority: level === 'critical' ? 2 : 1,
+    });
+}
+
+/**
+ * Notify when a stop-loss, take-profit or trailing stop fires, or a paper
+ * position is liquidated. When the user has to sign the close, the message
+ * carries the signing links.
+ */
+export async function notifyPositionTrigger(
+    walletAddress: string,
+    position: { tradeId: string; pair: string; side: 'long' | 'short'; price: number },
+    trigger: 'stop_loss' | 'take_profit' | 'trailing_stop' | 'liquidation',
+    outcome: { closed: true; pnl: number } | { closed: false; signingUrls: string[] }
+): Promise<void> {
+    const labels = {
+        stop_loss: 'Stop-loss',
+        take_profit: 'Take-profit',
+        trailing_stop: 'Trailing stop',
+        liquidation: 'Liquidation',
+    };
+    const label = labels[trigger];
+    const detail = outcome.closed
+        ? `Position closed at *$${position.price.toFixed(4)}* (PnL: *${outcome.pnl >= 0 ? '+' : ''}$${outcome.pnl.toFixed(2)}*).`
+        : `Sign to close at *$${position.price.toFixed(4)}*:\n${outcome.signingUrls.join('\n')}`;
+
+    await sendNotification(walletAddress, {
+        type: 'position_alert',
+        title: `${label} Triggered`,
+        message: `${label} hit on your *${position.side} ${position.pair}* position.\n\n${detail}`,
+        data: { ...position, trigger, ...outcome },
+        priority: outcome.closed ? 1 : 2,
+    });
+}
+
 /**
  * Send daily summary
  */
@@ -336,6 +389,8 @@ export default {
     notifyServiceCalled,
     notifyReputationChange,
     notifyHealthAlert,
+    notifyLiquidationRisk,
+    notifyPositionTrigger,
     sendDailySummary,
     processNotificationQueue,
 };
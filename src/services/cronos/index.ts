@@ -25,6 +25,8 @@ import {
     CronosZkEvm,
     DefiProtocol
 } from '@crypto.com/developer-platform-client';
+import type { ethers } from 'ethers';
+import { getRpcPool } from '../../lib/blockchain/provider.js';
 
 export type CronosNetwork = 'cronos-evm-mainnet' | 'cronos-evm-testnet' | 'cronos-zkevm-mainnet' | 'cronos-zkevm-testnet';
 
@@ -131,6 +133,13 @@ export class CronosSDK {
         return CHAIN_INFO;
     }
 
+    /**
+     * Shared RPC provider pool for direct chain reads on a network
+     */
+    getProvider(network?: CronosNetwork): ethers.JsonRpcProvider {
+        return getRpcPool(this.getChainInfo(network).chainId);
+    }
+
     // Wallet Module
     async createWallet(): Promise<{
         address: string;
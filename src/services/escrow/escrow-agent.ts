@@ -11,11 +11,29 @@
  * - Per-call maximum limits
  * - Agent blacklisting
  * - Comprehensive audit logging
+ *
+ * Pause state, limits, the blacklist, nonces and rate-limit windows are
+ * persisted in an EscrowSecurityStore (see security-store.ts).
  */
 
 import { ethers } from 'ethers';
 import { supabase } from '../../lib/supabase';
 import logger from '../../lib/logger';
+import { getRpcPool, type RpcProviderPool } from '../../lib/blockchain/provider.js';
+import {
+    SpendingPolicyService,
+    SpendingPolicyError,
+    type SpendDetails,
+    type SpendingPolicyDenial
+} from '../session/spending-policy.js';
+import {
+    createEscrowSecurityStore,
+    type EscrowSecurityStore,
+    type EscrowSecuritySettings,
+    type SessionSecurityConfig,
+    type BlacklistEntry,
+    type ExecutionNonce
+} from './security-store.js';
 
 const ESCROW_CONTRACT_ABI = [
     'function createSession(address escrowAgent, uint256 maxSpend, uint256 duration, address[] calldata agents) external returns (uint256)',
@@ -41,10 +59,11 @@ const ERC20_ABI = [
 ];
 
 // Security Constants
-const MAX_CALL_AMOUNT = '1000'; // Maximum USDC per single release
+// Per-call maximum and per-minute rate limit defaults live in security-store.ts
 const RATE_LIMIT_WINDOW_MS = 60000; // 1 minute
-const MAX_CALLS_PER_WINDOW = 100; // Max releases per minute per session
 const NONCE_EXPIRY_MS = 300000; // 5 minute nonce expiry
+// escrow_audit_log.session_id for changes that are not tied to a session
+const GLOBAL_AUDIT_SESSION = 0;
 
 export interface SessionConfig {
     maxSpend: string;
@@ -74,6 +93,8 @@ export interface ReleaseResult {
     amount: string;
     error?: string;
     nonce?: string;
+    /** Set when the session spending policy rejected the release */
+    denial?: SpendingPolicyDenial;
 }
 
 export interface SecurityConfig {
@@ -86,140 +107,183 @@ export interface SecurityConfig {
 export class EscrowAgentService {
     private provider: ethers.JsonRpcProvider;
     private escrowContract: ethers.Contract;
+    // Session state and balances are read through the quorum provider
+    private escrowReader: ethers.Contract;
     private usdcContract: ethers.Contract;
     private agentWallet: ethers.Wallet;
 
-    // Security state
-    private securityConfig: SecurityConfig = {
-        maxPerCall: MAX_CALL_AMOUNT,
-        rateLimitPerMinute: MAX_CALLS_PER_WINDOW,
-        blacklistedAgents: new Set(),
-        paused: false
-    };
+    // Pause, limits, blacklist, nonces and rate limits are kept in a shared
+    // store so they survive restarts and agree across instances
+    private security: EscrowSecurityStore;
 
-    // Rate limiting: sessionId -> {timestamps: number[], count: number}
-    private rateLimitState: Map<number, { timestamps: number[]; count: number }> = new Map();
-
-    // Nonce tracking: executionId -> timestamp (to prevent replay)
-    private usedNonces: Map<string, number> = new Map();
-
-    // Session-specific configs
-    private sessionConfigs: Map<number, { maxPerCall: string; rateLimit: number }> = new Map();
+    private spendingPolicies = new SpendingPolicyService(supabase);
 
     constructor(
-        rpcUrl: string,
+        pool: RpcProviderPool,
         escrowContractAddress: string,
         usdcAddress: string,
-        agentPrivateKey: string
+        agentPrivateKey: string,
+        security: EscrowSecurityStore = createEscrowSecurityStore()
     ) {
-        this.provider = new ethers.JsonRpcProvider(rpcUrl);
+        this.security = security;
+        this.provider = pool;
         this.agentWallet = new ethers.Wallet(agentPrivateKey, this.provider);
         this.escrowContract = new ethers.Contract(
             escrowContractAddress,
             ESCROW_CONTRACT_ABI,
             this.agentWallet
         );
-        this.usdcContract = new ethers.Contract(
-            usdcAddress,
-            ERC20_ABI,
-            this.agentWallet
-        );
+        this.escrowReader = new ethers.Contract(escrowContractAddress, ESCROW_CONTRACT_ABI, pool.quorum());
+        this.usdcContract = new ethers.Contract(usdcAddress, ERC20_ABI, pool.quorum());
 
         // Clean up expired nonces periodically
-        setInterval(() => this.cleanupExpiredNonces(), NONCE_EXPIRY_MS);
+        setInterval(() => {
+            this.cleanupExpiredNonces().catch(error =>
+                logger.error('Failed to clean up expired nonces', error as Error)
+            );
+        }, NONCE_EXPIRY_MS);
     }
 
     // ============================================
     // SECURITY CONTROLS
     // ============================================
+    // Admin changes are written to the audit log with the acting key/user.
 
     /**
      * Emergency pause all operations
      */
-    pause(): void {
-        this.securityConfig.paused = true;
-        logger.warn('Escrow Agent PAUSED');
+    async pause(actor?: string, reason?: string): Promise<void> {
+        await this.security.updateSettings({ paused: true });
+        await this.auditLog('AGENT_PAUSED', GLOBAL_AUDIT_SESSION, null, '0', undefined, 'SUCCESS', undefined, { actor, details: { reason } });
+        logger.warn('Escrow Agent PAUSED', { actor, reason });
     }
 
     /**
      * Resume operations
      */
-    unpause(): void {
-        this.securityConfig.paused = false;
-        logger.info('Escrow Agent RESUMED');
+    async unpause(actor?: string): Promise<void> {
+        await this.security.updateSettings({ paused: false });
+        await this.auditLog('AGENT_RESUMED', GLOBAL_AUDIT_SESSION, null, '0', undefined, 'SUCCESS', undefined, { actor });
+        logger.info('Escrow Agent RESUMED', { actor });
     }
 
     /**
      * Check if system is paused
      */
-    isPaused(): boolean {
-        return this.securityConfig.paused;
+    async isPaused(): Promise<boolean> {
+        return (await this.security.getSettings()).paused;
+    }
+
+    /**
+     * Pause releases for a single session
+     */
+    async pauseSession(sessionId: number, actor?: string, reason?: string): Promise<void> {
+        await this.security.updateSessionConfig(sessionId, { paused: true });
+        await this.auditLog('SESSION_PAUSED', sessionId, null, '0', undefined, 'SUCCESS', undefined, { actor, details: { reason } });
+        logger.warn('Escrow session PAUSED', { sessionId, actor, reason });
+    }
+
+    /**
+     * Resume releases for a single session
+     */
+    async unpauseSession(sessionId: number, actor?: string): Promise<void> {
+        await this.security.updateSessionConfig(sessionId, { paused: false });
+        await this.auditLog('SESSION_RESUMED', sessionId, null, '0', undefined, 'SUCCESS', undefined, { actor });
+        logger.info('Escrow session RESUMED', { sessionId, actor });
     }
 
     /**
      * Blacklist an agent from all sessions
      */
-    blacklistAgent(address: string): void {
-        this.securityConfig.blacklistedAgents.add(address.toLowerCase());
-        logger.warn('Agent blacklisted', { address });
+    async blacklistAgent(address: string, actor?: string, reason?: string): Promise<BlacklistEntry> {
+        const entry = await this.security.addToBlacklist(address, reason, actor);
+        await this.auditLog('AGENT_BLACKLISTED', GLOBAL_AUDIT_SESSION, address.toLowerCase(), '0', undefined, 'SUCCESS', undefined, { actor, details: { reason } });
+        logger.warn('Agent blacklisted', { address, actor, reason });
+        return entry;
     }
 
     /**
      * Remove agent from blacklist
      */
-    unblacklistAgent(address: string): void {
-        this.securityConfig.blacklistedAgents.delete(address.toLowerCase());
-        logger.info('Agent removed from blacklist', { address });
+    async unblacklistAgent(address: string, actor?: string): Promise<boolean> {
+        const removed = await this.security.removeFromBlacklist(address);
+        if (removed) {
+            await this.auditLog('AGENT_UNBLACKLISTED', GLOBAL_AUDIT_SESSION, address.toLowerCase(), '0', undefined, 'SUCCESS', undefined, { actor });
+            logger.info('Agent removed from blacklist', { address, actor });
+        }
+        return removed;
     }
 
     /**
      * Check if agent is blacklisted
      */
-    isBlacklisted(address: string): boolean {
-        return this.securityConfig.blacklistedAgents.has(address.toLowerCase());
+    async isBlacklisted(address: string): Promise<boolean> {
+        return this.security.isBlacklisted(address);
+    }
+
+    async listBlacklist(): Promise<BlacklistEntry[]> {
+        return this.security.listBlacklist();
     }
 
     /**
      * Set global max per call limit
      */
-    setMaxPerCall(amount: string): void {
-        this.securityConfig.maxPerCall = amount;
-        logger.info('Max per call updated', { maxPerCall: amount });
+    async setMaxPerCall(amount: string, actor?: string): Promise<void> {
+        await this.security.updateSettings({ maxPerCall: amount });
+        await this.auditLog('MAX_PER_CALL_UPDATED', GLOBAL_AUDIT_SESSION, null, amount, undefined, 'SUCCESS', undefined, { actor });
+        logger.info('Max per call updated', { maxPerCall: amount, actor });
+    }
+
+    /**
+     * Set global rate limit (releases per minute per session)
+     */
+    async setRateLimit(rateLimitPerMinute: number, actor?: string): Promise<void> {
+        await this.security.updateSettings({ rateLimitPerMinute });
+        await this.auditLog('RATE_LIMIT_UPDATED', GLOBAL_AUDIT_SESSION, null, '0', undefined, 'SUCCESS', undefined, { actor, details: { rateLimitPerMinute } });
+        logger.info('Rate limit updated', { rateLimitPerMinute, actor });
     }
 
     /**
      * Set session-specific limits
      */
-    setSessionLimits(sessionId: number, maxPerCall: string, rateLimit: number): void {
-        this.sessionConfigs.set(sessionId, { maxPerCall, rateLimit });
-        logger.info('Session limits updated', { sessionId, maxPerCall, rateLimit });
+    async setSessionLimits(sessionId: number, maxPerCall: string, rateLimit: number, actor?: string): Promise<void> {
+        await this.security.updateSessionConfig(sessionId, { maxPerCall, rateLimit });
+        await this.auditLog('SESSION_LIMITS_UPDATED', sessionId, null, maxPerCall, undefined, 'SUCCESS', undefined, { actor, details: { rateLimit } });
+        logger.info('Session limits updated', { sessionId, maxPerCall, rateLimit, actor });
+    }
+
+    /**
+     * Current global security configuration
+     */
+    async getSecurityConfig(): Promise<SecurityConfig> {
+        const [settings, blacklist] = await Promise.all([
+            this.security.getSettings(),
+            this.security.listBlacklist()
+        ]);
+
+        return {
+            maxPerCall: settings.maxPerCall,
+            rateLimitPerMinute: settings.rateLimitPerMinute,
+            blacklistedAgents: new Set(blacklist.map(entry => entry.agentAddress)),
+            paused: settings.paused
+        };
+    }
+
+    async getSessionSecurity(sessionId: number): Promise<SessionSecurityConfig | null> {
+        return this.security.getSessionConfig(sessionId);
     }
 
     // ============================================
     // RATE LIMITING
     // ============================================
 
-    private checkRateLimit(sessionId: number): { allowed: boolean; reason?: string } {
-        const now = Date.now();
-        const config = this.sessionConfigs.get(sessionId);
-        const maxCalls = config?.rateLimit || this.securityConfig.rateLimitPerMinute;
-
-        let state = this.rateLimitState.get(sessionId);
-        if (!state) {
-            state = { timestamps: [], count: 0 };
-            this.rateLimitState.set(sessionId, state);
-        }
+    private async checkRateLimit(sessionId: number, sessionConfig: SessionSecurityConfig | null, settings: EscrowSecuritySettings): Promise<{ allowed: boolean; reason?: string }> {
+        const maxCalls = sessionConfig?.rateLimit || settings.rateLimitPerMinute;
 
-        // Remove timestamps outside window
-        state.timestamps = state.timestamps.filter(t => now - t < RATE_LIMIT_WINDOW_MS);
-        state.count = state.timestamps.length;
-
-        if (state.count >= maxCalls) {
+        const allowed = await this.security.hitRateLimit(sessionId, maxCalls, RATE_LIMIT_WINDOW_MS);
+        if (!allowed) {
             return { allowed: false, reason: `Rate limit exceeded: ${maxCalls} calls per minute` };
         }
-
-        state.timestamps.push(now);
-        state.count++;
         return { allowed: true };
     }
 
@@ -227,26 +291,42 @@ export class EscrowAgentService {
     // NONCE MANAGEMENT
     // ============================================
 
-    private validateNonce(executionId: string): { valid: boolean; reason?: string } {
-        if (this.usedNonces.has(executionId)) {
+    /**
+     * Claim the execution ID for this release; a second claim is a replay
+     */
+    private async claimNonce(executionId: string, sessionId: number, agent: string): Promise<{ valid: boolean; reason?: string }> {
+        const claimed = await this.security.claimNonce({
+            executionId,
+            sessionId,
+            agentAddress: agent,
+            expiresAt: Date.now() + NONCE_EXPIRY_MS
+        });
+        if (!claimed) {
             return { valid: false, reason: 'Execution ID already used (replay attack prevented)' };
         }
         return { valid: true };
     }
 
-    private recordNonce(executionId: string): void {
-        this.usedNonces.set(executionId, Date.now());
+    /**
+     * Let a release that did not go through be retried with the same execution ID
+     */
+    private async releaseNonce(executionId: string): Promise<void> {
+        try {
+            await this.security.releaseNonce(executionId);
+        } catch (error) {
+            logger.error('Failed to release execution nonce', error as Error, { executionId });
+        }
     }
 
-    private cleanupExpiredNonces(): void {
-        const now = Date.now();
-        let cleaned = 0;
-        for (const [nonce, timestamp] of this.usedNonces.entries()) {
-            if (now - timestamp > NONCE_EXPIRY_MS) {
-                this.usedNonces.delete(nonce);
-                cleaned++;
-            }
-        }
+    /**
+     * Recently used execution IDs (most recent first)
+     */
+    async listRecentNonces(options: { sessionId?: number; limit?: number } = {}): Promise<ExecutionNonce[]> {
+        return this.security.listNonces(options);
+    }
+
+    private async cleanupExpiredNonces(): Promise<void> {
+        const cleaned = await this.security.purgeExpiredNonces();
         if (cleaned > 0) {
             logger.debug('Cleaned expired nonces', { count: cleaned });
         }
@@ -264,7 +344,7 @@ export class EscrowAgentService {
         txHash: string;
         paymentRequired: { amount: string; escrowContract: string };
     }> {
-        if (this.securityConfig.paused) {
+        if (await this.isPaused()) {
             throw new Error('Escrow Agent is paused');
         }
 
@@ -293,9 +373,10 @@ export class EscrowAgentService {
 
         // Store session-specific config
         if (config.maxPerCall || config.rateLimit) {
-            this.sessionConfigs.set(sessionId, {
-                maxPerCall: config.maxPerCall || this.securityConfig.maxPerCall,
-                rateLimit: config.rateLimit || this.securityConfig.rateLimitPerMinute
+            const settings = await this.security.getSettings();
+            await this.security.updateSessionConfig(sessionId, {
+                maxPerCall: config.maxPerCall || settings.maxPerCall,
+                rateLimit: config.rateLimit || settings.rateLimitPerMinute
             });
         }
 
@@ -318,7 +399,11 @@ export class EscrowAgentService {
      * Get session state from contract
      */
     async getSessionState(sessionId: number): Promise<SessionState> {
-        const result = await this.escrowContract.getSession(sessionId);
+        const [result, settings, sessionConfig] = await Promise.all([
+            this.escrowReader.getSession(sessionId),
+            this.security.getSettings(),
+            this.security.getSessionConfig(sessionId)
+        ]);
 
         return {
             sessionId,
@@ -330,7 +415,7 @@ export class EscrowAgentService {
             maxSpend: ethers.formatUnits(result[5], 6),
             expiry: Number(result[6]),
             active: result[7],
-            paused: this.securityConfig.paused
+            paused: settings.paused || Boolean(sessionConfig?.paused)
         };
     }
 
@@ -344,28 +429,36 @@ export class EscrowAgentService {
     }> {
         const checks: Record<string, boolean> = {};
 
-        // Check 1: System not paused
-        checks.systemNotPaused = !this.securityConfig.paused;
+        const [settings, sessionConfig] = await Promise.all([
+            this.security.getSettings(),
+            this.security.getSessionConfig(sessionId)
+        ]);
+
+        // Check 1: System and session not paused
+        checks.systemNotPaused = !settings.paused;
         if (!checks.systemNotPaused) {
             return { allowed: false, reason: 'Escrow Agent is paused', checks };
         }
+        checks.sessionNotPaused = !sessionConfig?.paused;
+        if (!checks.sessionNotPaused) {
+            return { allowed: false, reason: 'Session is paused', checks };
+        }
 
         // Check 2: Agent not blacklisted
-        checks.notBlacklisted = !this.isBlacklisted(agent);
+        checks.notBlacklisted = !(await this.isBlacklisted(agent));
         if (!checks.notBlacklisted) {
             return { allowed: false, reason: 'Agent is blacklisted', checks };
         }
 
         // Check 3: Amount within per-call limit
-        const sessionConfig = this.sessionConfigs.get(sessionId);
-        const maxPerCall = parseFloat(sessionConfig?.maxPerCall || this.securityConfig.maxPerCall);
+        const maxPerCall = parseFloat(sessionConfig?.maxPerCall || settings.maxPerCall);
         checks.withinCallLimit = parseFloat(amount) <= maxPerCall;
         if (!checks.withinCallLimit) {
             return { allowed: false, reason: `Amount ${amount} exceeds max per call ${maxPerCall}`, checks };
         }
 
         // Check 4: Rate limit not exceeded
-        const rateCheck = this.checkRateLimit(sessionId);
+        const rateCheck = await this.checkRateLimit(sessionId, sessionConfig, settings);
         checks.withinRateLimit = rateCheck.allowed;
         if (!checks.withinRateLimit) {
             return { allowed: false, reason: rateCheck.reason, checks };
@@ -385,7 +478,7 @@ export class EscrowAgentService {
         }
 
         // Check 7: Agent authorized on-chain
-        const isAuthorized = await this.escrowContract.isAgentAuthorized(sessionId, agent);
+        const isAuthorized = await this.escrowReader.isAgentAuthorized(sessionId, agent);
         checks.agentAuthorized = isAuthorized;
         if (!checks.agentAuthorized) {
             return { allowed: false, reason: 'Agent not authorized for this session', checks };
@@ -404,15 +497,21 @@ export class EscrowAgentService {
 
     /**
      * Release payment to agent after successful execution
+     *
+     * `spend` carries the service, category and approval id checked by the
+     * session spending policy (service and category are looked up from the
+     * agent if omitted).
      */
     async releasePayment(
         sessionId: number,
         agent: string,
         amount: string,
-        executionId: string
+        executionId: string,
+        spend: SpendDetails = {}
     ): Promise<ReleaseResult> {
-        // Validate nonce to prevent replay
-        const nonceCheck = this.validateNonce(executionId);
+        // Claim the nonce up front so concurrent replays cannot both pass;
+        // it is given back if the release does not happen
+        const nonceCheck = await this.claimNonce(executionId, sessionId, agent);
         if (!nonceCheck.valid) {
             await this.auditLog('RELEASE_REJECTED', sessionId, agent, amount, executionId, 'REPLAY_ATTACK');
             return {
@@ -425,7 +524,7 @@ export class EscrowAgentService {
 
         // Auto-authorize agent if not already authorized
         try {
-            const isAuthorized = await this.escrowContract.isAgentAuthorized(sessionId, agent);
+            const isAuthorized = await this.escrowReader.isAgentAuthorized(sessionId, agent);
 
             if (!isAuthorized) {
                 logger.info('Agent not authorized, authorizing now', { sessionId, agent });
@@ -435,6 +534,7 @@ export class EscrowAgentService {
             }
         } catch (authError) {
             logger.error('Failed to authorize agent', authError as Error, { sessionId, agent });
+            await this.releaseNonce(executionId);
             return {
                 success: false,
                 executionId,
@@ -447,6 +547,7 @@ export class EscrowAgentService {
         const check = await this.canExecute(sessionId, agent, amount);
         if (!check.allowed) {
             await this.auditLog('RELEASE_REJECTED', sessionId, agent, amount, executionId, check.reason);
+            await this.releaseNonce(executionId);
             return {
                 success: false,
                 executionId,
@@ -455,6 +556,31 @@ export class EscrowAgentService {
             };
         }
 
+        // Record the release as pending before the policy check, so
+        // concurrent releases are checked against each other
+        let usedApprovalId: string | null = null;
+        try {
+            await this.recordPendingPayment(sessionId, agent, amount, executionId);
+            usedApprovalId = await this.spendingPolicies.enforceEscrowRelease(sessionId, executionId, {
+                ...(await this.spendingPolicies.resolveSpend(agent, spend)),
+                amount: ethers.parseUnits(amount, 6)
+            });
+        } catch (error) {
+            const denial = error instanceof SpendingPolicyError ? error.denial : undefined;
+            const message = error instanceof Error ? error.message : 'Spending policy check failed';
+            await this.auditLog('RELEASE_REJECTED', sessionId, agent, amount, executionId, denial ? `POLICY_${denial.code}` : 'POLICY_CHECK_FAILED');
+            await this.markPaymentFailed(executionId);
+            await this.releaseNonce(executionId);
+            return {
+                success: false,
+                executionId,
+                amount,
+                error: message,
+                denial
+            };
+        }
+
+        let releaseTxHash: string | undefined;
         try {
             const amountWei = ethers.parseUnits(amount, 6);
             const execIdBytes = ethers.encodeBytes32String(executionId.slice(0, 31));
@@ -467,9 +593,7 @@ export class EscrowAgentService {
             );
 
             const receipt = await tx.wait();
-
-            // Record nonce to prevent replay
-            this.recordNonce(executionId);
+            releaseTxHash = receipt.hash;
 
             await this.recordPayment(sessionId, agent, amount, executionId, receipt.hash);
             await this.auditLog('PAYMENT_RELEASED', sessionId, agent, amount, executionId, 'SUCCESS', receipt.hash);
@@ -497,9 +621,20 @@ export class EscrowAgentService {
             };
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Unknown error';
-            await this.auditLog('RELEASE_FAILED', sessionId, agent, amount, executionId, message);
+            await this.auditLog('RELEASE_FAILED', sessionId, agent, amount, executionId, message, releaseTxHash);
             logger.error('Payment release failed', error as Error, { sessionId, agent, amount });
 
+            // Keep the nonce and the approval once funds moved on-chain
+            if (!releaseTxHash) {
+                await this.markPaymentFailed(executionId);
+                await this.releaseNonce(executionId);
+                if (usedApprovalId) {
+                    await this.spendingPolicies.restoreApproval(usedApprovalId).catch(err =>
+                        logger.error('Failed to restore spend approval', err as Error, { approvalId: usedApprovalId })
+                    );
+                }
+            }
+
             return {
                 success: false,
                 executionId,
@@ -513,7 +648,7 @@ export class EscrowAgentService {
      * Authorize additional agent for a session
      */
     async authorizeAgent(sessionId: number, agentAddress: string): Promise<{ txHash: string }> {
-        if (this.isBlacklisted(agentAddress)) {
+        if (await this.isBlacklisted(agentAddress)) {
             throw new Error('Cannot authorize blacklisted agent');
         }
 
@@ -543,7 +678,7 @@ export class EscrowAgentService {
      * Get agent spend for a session
      */
     async getAgentSpend(sessionId: number, agentAddress: string): Promise<string> {
-        const spend = await this.escrowContract.getAgentSpend(sessionId, agentAddress);
+        const spend = await this.escrowReader.getAgentSpend(sessionId, agentAddress);
         return ethers.formatUnits(spend, 6);
     }
 
@@ -575,8 +710,8 @@ export class EscrowAgentService {
         const receipt = await tx.wait();
 
         // Cleanup session-specific state
-        this.sessionConfigs.delete(sessionId);
-        this.rateLimitState.delete(sessionId);
+        await this.security.deleteSessionConfig(sessionId);
+        await this.security.clearRateLimit(sessionId);
 
         await this.updateSessionStatus(sessionId, 'closed');
         await this.auditLog('SESSION_CLOSED', sessionId, null, state.remaining);
@@ -596,7 +731,8 @@ export class EscrowAgentService {
         sessionId: number,
         agent: string,
         amount: string,
-        action: () => Promise<T>
+        action: () => Promise<T>,
+        spend: SpendDetails = {}
     ): Promise<{ result?: T; payment: ReleaseResult }> {
         const executionId = `exec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
@@ -616,7 +752,7 @@ export class EscrowAgentService {
             const result = await action();
 
             // Only release payment on successful execution
-            const payment = await this.releasePayment(sessionId, agent, amount, executionId);
+            const payment = await this.releasePayment(sessionId, agent, amount, executionId, spend);
 
             return { result, payment };
         } catch (error) {
@@ -646,7 +782,8 @@ export class EscrowAgentService {
         amount: string,
         executionId?: string,
         status?: string,
-        txHash?: string
+        txHash?: string,
+        admin?: { actor?: string; details?: Record<string, unknown> }
     ): Promise<void> {
         try {
             await supabase.from('escrow_audit_log').insert({
@@ -657,6 +794,8 @@ export class EscrowAgentService {
                 execution_id: executionId || null,
                 status: status || 'SUCCESS',
                 tx_hash: txHash || null,
+                actor: admin?.actor || null,
+                details: admin?.details || null,
                 created_at: new Date().toISOString()
             });
         } catch (error) {
@@ -683,6 +822,30 @@ export class EscrowAgentService {
         }
     }
 
+    /**
+     * Insert the release as pending; throws if it can't be recorded, since
+     * the spending policy relies on seeing it
+     */
+    private async recordPendingPayment(
+        sessionId: number,
+        agent: string,
+        amount: string,
+        executionId: string
+    ): Promise<void> {
+        const { error } = await supabase.from('escrow_payments').insert({
+            session_id: sessionId,
+            agent_address: agent,
+            amount,
+            execution_id: executionId,
+            status: 'pending',
+            created_at: new Date().toISOString()
+        });
+
+        if (error) {
+            throw new Error(`Failed to record pending payment: ${error.message}`);
+        }
+    }
+
     private async recordPayment(
         sessionId: number,
         agent: string,
@@ -691,19 +854,32 @@ export class EscrowAgentService {
         txHash: string
     ): Promise<void> {
         try {
-            await supabase.from('escrow_payments').insert({
+            const { error } = await supabase.from('escrow_payments').upsert({
                 session_id: sessionId,
                 agent_address: agent,
                 amount,
                 execution_id: executionId,
                 tx_hash: txHash,
-                created_at: new Date().toISOString()
-            });
+                status: 'released'
+            }, { onConflict: 'execution_id' });
+
+            if (error) throw error;
         } catch (error) {
             logger.error('Failed to record payment', error as Error);
         }
     }
 
+    private async markPaymentFailed(executionId: string): Promise<void> {
+        try {
+            await supabase.from('escrow_payments')
+                .update({ status: 'failed' })
+                .eq('execution_id', executionId)
+                .eq('status', 'pending');
+        } catch (error) {
+            logger.error('Failed to mark payment failed', error as Error);
+        }
+    }
+
     private async updateSessionStatus(sessionId: number, status: string): Promise<void> {
         try {
             await supabase.from('escrow_sessions')
@@ -718,17 +894,26 @@ export class EscrowAgentService {
     // STATISTICS
     // ============================================
 
-    getStats(): {
+    async getStats(): Promise<{
         paused: boolean;
         blacklistedAgents: number;
         activeSessions: number;
+        pausedSessions: number;
         usedNonces: number;
-    } {
+    }> {
+        const [settings, blacklist, sessionConfigs, usedNonces] = await Promise.all([
+            this.security.getSettings(),
+            this.security.listBlacklist(),
+            this.security.listSessionConfigs(),
+            this.security.countNonces()
+        ]);
+
         return {
-            paused: this.securityConfig.paused,
-            blacklistedAgents: this.securityConfig.blacklistedAgents.size,
-            activeSessions: this.sessionConfigs.size,
-            usedNonces: this.usedNonces.size
+            paused: settings.paused,
+            blacklistedAgents: blacklist.length,
+            activeSessions: sessionConfigs.length,
+            pausedSessions: sessionConfigs.filter(config => config.paused).length,
+            usedNonces
         };
     }
 
@@ -755,7 +940,6 @@ let escrowAgent: EscrowAgentService | null = null;
 
 export function getEscrowAgent(): EscrowAgentService {
     if (!escrowAgent) {
-        const rpcUrl = process.env.CRONOS_RPC_URL || 'https://evm-t3.cronos.org';
         const escrowAddress = process.env.ESCROW_CONTRACT_ADDRESS || '';
         const usdcAddress = process.env.USDC_TOKEN_ADDRESS || '0xc01efAaF7C5C61bEbFAeb358E1161b537b8bC0e0';
         const privateKey = process.env.ESCROW_AGENT_PRIVATE_KEY || process.env.WALLET_PRIVATE_KEY || '';
@@ -764,7 +948,7 @@ export function getEscrowAgent(): EscrowAgentService {
             throw new Error('ESCROW_CONTRACT_ADDRESS and ESCROW_AGENT_PRIVATE_KEY required');
         }
 
-        escrowAgent = new EscrowAgentService(rpcUrl, escrowAddress, usdcAddress, privateKey);
+        escrowAgent = new EscrowAgentService(getRpcPool(), escrowAddress, usdcAddress, privateKey);
     }
     return escrowAgent;
 }
@@ -5,3 +5,15 @@
 export { EscrowAgentService, getEscrowAgent } from './escrow-agent';
 export { registerEscrowAgent, getEscrowAgentInfo, ESCROW_AGENT_CONFIG } from './register';
 export type { SessionConfig, SessionState, ReleaseResult } from './escrow-agent';
+export {
+    InMemoryEscrowSecurityStore,
+    SupabaseEscrowSecurityStore,
+    createEscrowSecurityStore
+} from './security-store';
+export type {
+    EscrowSecurityStore,
+    EscrowSecuritySettings,
+    SessionSecurityConfig,
+    BlacklistEntry,
+    ExecutionNonce
+} from './security-store';
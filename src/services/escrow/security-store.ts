@@ -0,0 +1,576 @@
+/**
+ * Escrow Security Store
+ *
+ * Shared, persisted security state for EscrowAgentService: global and
+ * per-session pause, per-call and rate limits, the agent blacklist,
+ * used execution IDs (replay protection) and rate-limit windows.
+ * Keeping it out of process memory means a restart does not clear
+ * replay protection or un-pause the agent, and every API replica sees
+ * the same state.
+ *
+ * Implementations:
+ * - InMemoryEscrowSecurityStore: single-process, used for tests and fallback
+ * - SupabaseEscrowSecurityStore: shared across replicas (escrow_security_* tables)
+ *
+ * Selected with ESCROW_SECURITY_STORE=memory|supabase.
+ */
+
+import { supabase, isSupabaseAvailable } from '../../lib/supabase.js';
+import logger from '../../lib/logger.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface EscrowSecuritySettings {
+    paused: boolean;
+    /** Maximum USDC per release */
+    maxPerCall: string;
+    rateLimitPerMinute: number;
+    updatedAt: number | null;
+}
+
+export interface SessionSecurityConfig {
+    sessionId: number;
+    paused: boolean;
+    /** Overrides the global limits when set */
+    maxPerCall: string | null;
+    rateLimit: number | null;
+    updatedAt: number;
+}
+
+export interface BlacklistEntry {
+    agentAddress: string;
+    reason: string | null;
+    createdBy: string | null;
+    createdAt: number;
+}
+
+export interface ExecutionNonce {
+    executionId: string;
+    sessionId: number;
+    agentAddress: string;
+    createdAt: number;
+    expiresAt: number;
+}
+
+export type SettingsUpdate = Partial<Pick<EscrowSecuritySettings, 'paused' | 'maxPerCall' | 'rateLimitPerMinute'>>;
+export type SessionConfigUpdate = Partial<Pick<SessionSecurityConfig, 'paused' | 'maxPerCall' | 'rateLimit'>>;
+
+export interface EscrowSecurityStore {
+    getSettings(): Promise<EscrowSecuritySettings>;
+    updateSettings(update: SettingsUpdate): Promise<EscrowSecuritySettings>;
+    getSessionConfig(sessionId: number): Promise<SessionSecurityConfig | null>;
+    updateSessionConfig(sessionId: number, update: SessionConfigUpdate): Promise<SessionSecurityConfig>;
+    deleteSessionConfig(sessionId: number): Promise<void>;
+    listSessionConfigs(): Promise<SessionSecurityConfig[]>;
+    isBlacklisted(agentAddress: string): Promise<boolean>;
+    addToBlacklist(agentAddress: string, reason?: string, createdBy?: string): Promise<BlacklistEntry>;
+    removeFromBlacklist(agentAddress: string): Promise<boolean>;
+    listBlacklist(): Promise<BlacklistEntry[]>;
+    /** Record an execution ID as used. Returns false if it already was (replay). */
+    claimNonce(nonce: Omit<ExecutionNonce, 'createdAt'>): Promise<boolean>;
+    /** Give back a claimed execution ID after a release that did not go through */
+    releaseNonce(executionId: string): Promise<void>;
+    listNonces(options?: { sessionId?: number; limit?: number }): Promise<ExecutionNonce[]>;
+    countNonces(): Promise<number>;
+    /** Remove expired execution IDs. Returns the number removed. */
+    purgeExpiredNonces(): Promise<number>;
+    /** Count one call in the session's sliding window. Returns false once maxCalls is reached. */
+    hitRateLimit(sessionId: number, maxCalls: number, windowMs: number): Promise<boolean>;
+    clearRateLimit(sessionId: number): Promise<void>;
+}
+
+export const DEFAULT_SECURITY_SETTINGS: EscrowSecuritySettings = {
+    paused: false,
+    maxPerCall: '1000',
+    rateLimitPerMinute: 100,
+    updatedAt: null,
+};
+
+// ============================================
+// IN-MEMORY STORE
+// ============================================
+
+export class InMemoryEscrowSecurityStore implements EscrowSecurityStore {
+    private settings: EscrowSecuritySettings = { ...DEFAULT_SECURITY_SETTINGS };
+    private sessionConfigs = new Map<number, SessionSecurityConfig>();
+    private blacklist = new Map<string, BlacklistEntry>();
+    private nonces = new Map<string, ExecutionNonce>();
+    private rateLimitHits = new Map<number, number[]>();
+
+    async getSettings(): Promise<EscrowSecuritySettings> {
+        return { ...this.settings };
+    }
+
+    async updateSettings(update: SettingsUpdate): Promise<EscrowSecuritySettings> {
+        this.settings = { ...this.settings, ...update, updatedAt: Date.now() };
+        return { ...this.settings };
+    }
+
+    async getSessionConfig(sessionId: number): Promise<SessionSecurityConfig | null> {
+        const config = this.sessionConfigs.get(sessionId);
+        return config ? { ...config } : null;
+    }
+
+    async updateSessionConfig(sessionId: number, update: SessionConfigUpdate): Promise<SessionSecurityConfig> {
+        const config: SessionSecurityConfig = {
+            sessionId,
+            paused: false,
+            maxPerCall: null,
+            rateLimit: null,
+            ...this.sessionConfigs.get(sessionId),
+            ...update,
+            updatedAt: Date.now(),
+        };
+        this.sessionConfigs.set(sessionId, config);
+        return { ...config };
+    }
+
+    async deleteSessionConfig(sessionId: number): Promise<void> {
+        this.sessionConfigs.delete(sessionId);
+    }
+
+    async listSessionConfigs(): Promise<SessionSecurityConfig[]> {
+        return Array.from(this.sessionConfigs.values()).map(c => ({ ...c }));
+    }
+
+    async isBlacklisted(agentAddress: string): Promise<boolean> {
+        return this.blacklist.has(agentAddress.toLowerCase());
+    }
+
+    async addToBlacklist(agentAddress: string, reason?: string, createdBy?: string): Promise<BlacklistEntry> {
+        const address = agentAddress.toLowerCase();
+        const entry = this.blacklist.get(address) || {
+            agentAddress: address,
+            reason: reason || null,
+            createdBy: createdBy || null,
+            createdAt: Date.now(),
+        };
+        this.blacklist.set(address, entry);
+        return { ...entry };
+    }
+
+    async removeFromBlacklist(agentAddress: string): Promise<boolean> {
+        return this.blacklist.delete(agentAddress.toLowerCase());
+    }
+
+    async listBlacklist(): Promise<BlacklistEntry[]> {
+        return Array.from(this.blacklist.values()).map(e => ({ ...e }));
+    }
+
+    async claimNonce(nonce: Omit<ExecutionNonce, 'createdAt'>): Promise<boolean> {
+        // Check and insert happen without an await in between, so this is atomic per process
+        if (this.nonces.has(nonce.executionId)) return false;
+        this.nonces.set(nonce.executionId, { ...nonce, createdAt: Date.now() });
+        return true;
+    }
+
+    async releaseNonce(executionId: string): Promise<void> {
+        this.nonces.delete(executionId);
+    }
+
+    async listNonces(options: { sessionId?: number; limit?: number } = {}): Promise<ExecutionNonce[]> {
+        return Array.from(this.nonces.values())
+            .filter(n => options.sessionId === undefined || n.sessionId === options.sessionId)
+            .sort((a, b) => b.createdAt - a.createdAt)
+            .slice(0, options.limit ?? 100)
+            .map(n => ({ ...n }));
+    }
+
+    async countNonces(): Promise<number> {
+        return this.nonces.size;
+    }
+
+    async purgeExpiredNonces(): Promise<number> {
+        const now = Date.now();
+        let removed = 0;
+
+        for (const [executionId, nonce] of this.nonces.entries()) {
+            if (nonce.expiresAt <= now) {
+                this.nonces.delete(executionId);
+                removed++;
+            }
+        }
+
+        return removed;
+    }
+
+    async hitRateLimit(sessionId: number, maxCalls: number, windowMs: number): Promise<boolean> {
+        const now = Date.now();
+        const hits = (this.rateLimitHits.get(sessionId) || []).filter(t => now - t < windowMs);
+        const allowed = hits.length < maxCalls;
+        if (allowed) hits.push(now);
+        this.rateLimitHits.set(sessionId, hits);
+        return allowed;
+    }
+
+    async clearRateLimit(sessionId: number): Promise<void> {
+        this.rateLimitHits.delete(sessionId);
+    }
+}
+
+// ============================================
+// SUPABASE STORE
+// ============================================
+
+interface SettingsRow {
+    paused: boolean;
+    max_per_call: string;
+    rate_limit_per_minute: number;
+    updated_at: string | null;
+}
+
+interface SessionConfigRow {
+    session_id: string;
+    paused: boolean;
+    max_per_call: string | null;
+    rate_limit: number | null;
+    updated_at: string;
+}
+
+interface BlacklistRow {
+    agent_address: string;
+    reason: string | null;
+    created_by: string | null;
+    created_at: string;
+}
+
+interface NonceRow {
+    execution_id: string;
+    session_id: string;
+    agent_address: string;
+    created_at: string;
+    expires_at: string;
+}
+
+const SETTINGS_ID = 'global';
+
+function mapSessionConfigRow(row: SessionConfigRow): SessionSecurityConfig {
+    return {
+        sessionId: Number(row.session_id),
+        paused: row.paused,
+        maxPerCall: row.max_per_call,
+        rateLimit: row.rate_limit,
+        updatedAt: new Date(row.updated_at).getTime(),
+    };
+}
+
+function mapBlacklistRow(row: BlacklistRow): BlacklistEntry {
+    return {
+        agentAddress: row.agent_address,
+        reason: row.reason,
+        createdBy: row.created_by,
+        createdAt: new Date(row.created_at).getTime(),
+    };
+}
+
+function mapNonceRow(row: NonceRow): ExecutionNonce {
+    return {
+        executionId: row.execution_id,
+        sessionId: Number(row.session_id),
+        agentAddress: row.agent_address,
+        createdAt: new Date(row.created_at).getTime(),
+        expiresAt: new Date(row.expires_at).getTime(),
+    };
+}
+
+/**
+ * Postgres-backed store. Nonce claims rely on the execution_id primary
+ * key and rate limiting goes through the escrow_rate_limit_hit function,
+ * so concurrent replicas can neither replay an execution nor exceed the
+ * per-session call rate.
+ */
+export class SupabaseEscrowSecurityStore implements EscrowSecurityStore {
+    async getSettings(): Promise<EscrowSecuritySettings> {
+        const { data, error } = await supabase
+            .from('escrow_security_settings')
+            .select('paused, max_per_call, rate_limit_per_minute, updated_at')
+            .eq('id', SETTINGS_ID)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load escrow security settings: ${error.message}`);
+        }
+        if (!data) return { ...DEFAULT_SECURITY_SETTINGS };
+
+        const row = data as SettingsRow;
+        return {
+            paused: row.paused,
+            maxPerCall: row.max_per_call,
+            rateLimitPerMinute: row.rate_limit_per_minute,
+            updatedAt: row.updated_at ? new Date(row.updated_at).getTime() : null,
+        };
+    }
+
+    async updateSettings(update: SettingsUpdate): Promise<EscrowSecuritySettings> {
+        const next = { ...(await this.getSettings()), ...update };
+
+        const { error } = await supabase
+            .from('escrow_security_settings')
+            .upsert({
+                id: SETTINGS_ID,
+                paused: next.paused,
+                max_per_call: next.maxPerCall,
+                rate_limit_per_minute: next.rateLimitPerMinute,
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'id' });
+
+        if (error) {
+            throw new Error(`Failed to update escrow security settings: ${error.message}`);
+        }
+
+        return this.getSettings();
+    }
+
+    async getSessionConfig(sessionId: number): Promise<SessionSecurityConfig | null> {
+        const { data, error } = await supabase
+            .from('escrow_session_security')
+            .select('*')
+            .eq('session_id', String(sessionId))
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load session security config: ${error.message}`);
+        }
+
+        return data ? mapSessionConfigRow(data as SessionConfigRow) : null;
+    }
+
+    async updateSessionConfig(sessionId: number, update: SessionConfigUpdate): Promise<SessionSecurityConfig> {
+        const current = await this.getSessionConfig(sessionId);
+        const next = { paused: false, maxPerCall: null, rateLimit: null, ...current, ...update };
+
+        const { data, error } = await supabase
+            .from('escrow_session_security')
+            .upsert({
+                session_id: String(sessionId),
+                paused: next.paused,
+                max_per_call: next.maxPerCall,
+                rate_limit: next.rateLimit,
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'session_id' })
+            .select('*')
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to update session security config: ${error.message}`);
+        }
+
+        return mapSessionConfigRow(data as SessionConfigRow);
+    }
+
+    async deleteSessionConfig(sessionId: number): Promise<void> {
+        const { error } = await supabase
+            .from('escrow_session_security')
+            .delete()
+            .eq('session_id', String(sessionId));
+
+        if (error) {
+            throw new Error(`Failed to delete session security config: ${error.message}`);
+        }
+    }
+
+    async listSessionConfigs(): Promise<SessionSecurityConfig[]> {
+        const { data, error } = await supabase
+            .from('escrow_session_security')
+            .select('*')
+            .order('updated_at', { ascending: false })
+            .limit(1000);
+
+        if (error) {
+            throw new Error(`Failed to list session security configs: ${error.message}`);
+        }
+
+        return (data || []).map(row => mapSessionConfigRow(row as SessionConfigRow));
+    }
+
+    async isBlacklisted(agentAddress: string): Promise<boolean> {
+        const { data, error } = await supabase
+            .from('escrow_agent_blacklist')
+            .select('agent_address')
+            .eq('agent_address', agentAddress.toLowerCase())
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to check agent blacklist: ${error.message}`);
+        }
+
+        return data !== null;
+    }
+
+    async addToBlacklist(agentAddress: string, reason?: string, createdBy?: string): Promise<BlacklistEntry> {
+        const address = agentAddress.toLowerCase();
+
+        const { error } = await supabase
+            .from('escrow_agent_blacklist')
+            .upsert({
+                agent_address: address,
+                reason: reason || null,
+                created_by: createdBy || null,
+                created_at: new Date().toISOString(),
+            }, { onConflict: 'agent_address', ignoreDuplicates: true });
+
+        if (error) {
+            throw new Error(`Failed to blacklist agent: ${error.message}`);
+        }
+
+        const { data, error: readError } = await supabase
+            .from('escrow_agent_blacklist')
+            .select('*')
+            .eq('agent_address', address)
+            .single();
+
+        if (readError) {
+            throw new Error(`Failed to read agent blacklist: ${readError.message}`);
+        }
+
+        return mapBlacklistRow(data as BlacklistRow);
+    }
+
+    async removeFromBlacklist(agentAddress: string): Promise<boolean> {
+        const { data, error } = await supabase
+            .from('escrow_agent_blacklist')
+            .delete()
+            .eq('agent_address', agentAddress.toLowerCase())
+            .select('agent_address');
+
+        if (error) {
+            throw new Error(`Failed to remove agent from blacklist: ${error.message}`);
+        }
+
+        return (data || []).length > 0;
+    }
+
+    async listBlacklist(): Promise<BlacklistEntry[]> {
+        const { data, error } = await supabase
+            .from('escrow_agent_blacklist')
+            .select('*')
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            throw new Error(`Failed to list agent blacklist: ${error.message}`);
+        }
+
+        return (data || []).map(row => mapBlacklistRow(row as BlacklistRow));
+    }
+
+    async claimNonce(nonce: Omit<ExecutionNonce, 'createdAt'>): Promise<boolean> {
+        const { error } = await supabase
+            .from('escrow_execution_nonces')
+            .insert({
+                execution_id: nonce.executionId,
+                session_id: String(nonce.sessionId),
+                agent_address: nonce.agentAddress.toLowerCase(),
+                created_at: new Date().toISOString(),
+                expires_at: new Date(nonce.expiresAt).toISOString(),
+            });
+
+        if (!error) return true;
+        // Unique violation: the execution ID was already claimed
+        if (error.code === '23505') return false;
+        throw new Error(`Failed to record execution nonce: ${error.message}`);
+    }
+
+    async releaseNonce(executionId: string): Promise<void> {
+        const { error } = await supabase
+            .from('escrow_execution_nonces')
+            .delete()
+            .eq('execution_id', executionId);
+
+        if (error) {
+            throw new Error(`Failed to release execution nonce: ${error.message}`);
+        }
+    }
+
+    async listNonces(options: { sessionId?: number; limit?: number } = {}): Promise<ExecutionNonce[]> {
+        let query = supabase
+            .from('escrow_execution_nonces')
+            .select('*')
+            .order('created_at', { ascending: false })
+            .limit(options.limit ?? 100);
+
+        if (options.sessionId !== undefined) {
+            query = query.eq('session_id', String(options.sessionId));
+        }
+
+        const { data, error } = await query;
+        if (error) {
+            throw new Error(`Failed to list execution nonces: ${error.message}`);
+        }
+
+        return (data || []).map(row => mapNonceRow(row as NonceRow));
+    }
+
+    async countNonces(): Promise<number> {
+        const { count, error } = await supabase
+            .from('escrow_execution_nonces')
+            .select('execution_id', { count: 'exact', head: true });
+
+        if (error) {
+            throw new Error(`Failed to count execution nonces: ${error.message}`);
+        }
+
+        return count || 0;
+    }
+
+    async purgeExpiredNonces(): Promise<number> {
+        const { data, error } = await supabase
+            .from('escrow_execution_nonces')
+            .delete()
+            .lte('expires_at', new Date().toISOString())
+            .select('execution_id');
+
+        if (error) {
+            throw new Error(`Failed to purge execution nonces: ${error.message}`);
+        }
+
+        return (data || []).length;
+    }
+
+    async hitRateLimit(sessionId: number, maxCalls: number, windowMs: number): Promise<boolean> {
+        const { data, error } = await supabase.rpc('escrow_rate_limit_hit', {
+            p_session_id: String(sessionId),
+            p_max_calls: maxCalls,
+            p_window_ms: windowMs,
+        });
+
+        if (error) {
+            throw new Error(`Failed to check escrow rate limit: ${error.message}`);
+        }
+
+        return data === true;
+    }
+
+    async clearRateLimit(sessionId: number): Promise<void> {
+        const { error } = await supabase
+            .from('escrow_rate_limit_hits')
+            .delete()
+            .eq('session_id', String(sessionId));
+
+        if (error) {
+            throw new Error(`Failed to clear escrow rate limit: ${error.message}`);
+        }
+    }
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+export function createEscrowSecurityStore(
+    kind: string | undefined = process.env.ESCROW_SECURITY_STORE
+): EscrowSecurityStore {
+    switch (kind) {
+        case 'memory':
+            return new InMemoryEscrowSecurityStore();
+        case 'supabase':
+            return new SupabaseEscrowSecurityStore();
+        default:
+            if (isSupabaseAvailable()) {
+                return new SupabaseEscrowSecurityStore();
+            }
+            logger.warn('Supabase not configured, escrow security state will not survive restarts');
+            return new InMemoryEscrowSecurityStore();
+    }
+}
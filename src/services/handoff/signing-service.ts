@@ -13,6 +13,7 @@
  */
 
 import { ethers } from 'ethers';
+import { getProvider } from '../../lib/blockchain/provider';
 import {
     pendingTransactionStore,
     getSigningUrl,
@@ -51,25 +52,6 @@ export interface PrepareTransactionResult {
     description?: string;
 }
 
-// ============================================
-// CHAIN CONFIGURATION
-// ============================================
-
-const CHAIN_RPC_URLS: Record<number, string> = {
-    25: process.env.CRONOS_MAINNET_RPC || 'https://evm.cronos.org',
-    338: process.env.CRONOS_TESTNET_RPC || 'https://evm-t3.cronos.org',
-    388: process.env.CRONOS_ZKEVM_MAINNET_RPC || 'https://mainnet.zkevm.cronos.org',
-    240: process.env.CRONOS_ZKEVM_TESTNET_RPC || 'https://testnet.zkevm.cronos.org'
-};
-
-function getProvider(chainId: number): ethers.JsonRpcProvider {
-    const rpcUrl = CHAIN_RPC_URLS[chainId];
-    if (!rpcUrl) {
-        throw new Error(`Unsupported chain ID: ${chainId}`);
-    }
-    return new ethers.JsonRpcProvider(rpcUrl, chainId);
-}
-
 // ============================================
 // SIGNING SERVICE
 // ============================================
@@ -1,5 +1,5 @@
 import { supabase } from '../../lib/supabase.js';
-import { getProvider } from '../../lib/blockchain/provider.js';
+import { getRpcPool } from '../../lib/blockchain/provider.js';
 
 /**
  * Health Check Service
@@ -98,13 +98,13 @@ export class HealthCheckService {
         const start = Date.now();
 
         try {
-            const provider = getProvider();
-            const blockNumber = await provider.getBlockNumber();
+            const pool = getRpcPool();
+            const blockNumber = await pool.getBlockNumber();
 
             return {
                 status: 'pass',
                 responseTime: Date.now() - start,
-                details: { blockNumber },
+                details: { blockNumber, endpoints: pool.health() },
             };
         } catch (error: any) {
             return {
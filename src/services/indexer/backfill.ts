@@ -0,0 +1,308 @@
+/**
+ * Indexer Backfill
+ *
+ * Re-indexes an explicit block range for one or all block-range indexers,
+ * e.g. to rebuild derived tables after a schema migration.
+ *
+ * - The range is split into chunks of MAX_BLOCKS_PER_RUN that are indexed
+ *   in parallel (INDEXER_BACKFILL_CONCURRENCY per indexer).
+ * - Backfills call each indexer's indexRange(), which never reads or moves
+ *   the live cursors or reorg checkpoints, and every indexer writes with
+ *   upserts, so a backfill can run while the crons keep indexing.
+ * - Escrow events are indexed in phases: sessions first, then everything
+ *   that refers to them, then agent authorizations and revocations one
+ *   chunk at a time in (block, logIndex) order, since each overrides the
+ *   previous one for the same agent.
+ * - Progress is kept on the job and reported through onProgress.
+ * - The indexers and chain head come from a BackfillEnvironment, the live
+ *   ones unless another is passed in.
+ */
+
+import { randomUUID } from 'crypto';
+import logger from '../../lib/logger.js';
+import { INDEXER_CONFIG } from './config/constants.js';
+import * as cronos from './repository/cronos.repository.js';
+import { escrowSessionIndexer, ESCROW_EVENT_TYPES, ESCROW_AGENT_EVENT_TYPES } from './crons/escrow.cron.js';
+import { agentIndexer } from './crons/agent.cron.js';
+import { feedbackIndexer } from './crons/feedback.cron.js';
+import { usdcTransferIndexer } from './crons/usdc-transfer.cron.js';
+
+export interface BackfillPhase {
+    index: (fromBlock: number, toBlock: number) => Promise<{ indexed: number; failed: number }>;
+    /** Index chunks one at a time, oldest first */
+    sequential?: boolean;
+}
+
+export interface BackfillTarget {
+    confirmations: number;
+    /** Groups of work that must finish over the whole range before the next starts */
+    phases: BackfillPhase[];
+}
+
+export const BACKFILL_TARGETS: Record<string, BackfillTarget> = {
+    escrow: {
+        confirmations: INDEXER_CONFIG.CONFIRMATION_DEPTH.escrow,
+        phases: [
+            { index: (from, to) => escrowSessionIndexer.indexRange(from, to, ['SessionCreated']) },
+            {
+                index: (from, to) => escrowSessionIndexer.indexRange(
+                    from,
+                    to,
+                    ESCROW_EVENT_TYPES.filter(type => type !== 'SessionCreated' && !ESCROW_AGENT_EVENT_TYPES.includes(type))
+                )
+            },
+            {
+                index: (from, to) => escrowSessionIndexer.indexRangeInLogOrder(from, to, ESCROW_AGENT_EVENT_TYPES),
+                sequential: true
+            }
+        ]
+    },
+    agent: {
+        confirmations: 0,
+        phases: [{ index: (from, to) => agentIndexer.indexRange(from, to) }]
+    },
+    feedback: {
+        confirmations: 0,
+        phases: [{ index: (from, to) => feedbackIndexer.indexRange(from, to) }]
+    },
+    usdc: {
+        confirmations: INDEXER_CONFIG.CONFIRMATION_DEPTH.usdc,
+        phases: [{ index: (from, to) => usdcTransferIndexer.indexRange(from, to) }]
+    }
+};
+
+export interface BackfillEnvironment {
+    targets: Record<string, BackfillTarget>;
+    getCurrentBlockNumber: () => Promise<number>;
+}
+
+const LIVE_ENVIRONMENT: BackfillEnvironment = {
+    targets: BACKFILL_TARGETS,
+    getCurrentBlockNumber: () => cronos.getCurrentBlockNumber()
+};
+
+const INDEXER_ALIASES: Record<string, string> = {
+    'usdc-transfer': 'usdc'
+};
+
+export const BACKFILL_INDEXERS = Object.keys(BACKFILL_TARGETS);
+
+export class BackfillError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BackfillError';
+    }
+}
+
+export interface BackfillOptions {
+    fromBlock: number;
+    toBlock: number;
+    /** Indexer name or 'all' */
+    indexer: string;
+    chunkSize?: number;
+    concurrency?: number;
+}
+
+export interface BackfillIndexerProgress {
+    chunksTotal: number;
+    chunksDone: number;
+    indexed: number;
+    failed: number;
+    failedChunks: Array<{ fromBlock: number; toBlock: number; error: string }>;
+}
+
+export interface BackfillJob {
+    id: string;
+    indexers: string[];
+    fromBlock: number;
+    toBlock: number;
+    chunkSize: number;
+    concurrency: number;
+    status: 'running' | 'completed' | 'failed';
+    progress: Record<string, BackfillIndexerProgress>;
+    startedAt: string;
+    finishedAt: string | null;
+    error: string | null;
+}
+
+const jobs = new Map<string, BackfillJob>();
+const MAX_TRACKED_JOBS = 50;
+
+/**
+ * Validate options and create a job (clamping the range to confirmed blocks).
+ */
+async function createJob(options: BackfillOptions, env: BackfillEnvironment): Promise<BackfillJob> {
+    const names = Object.keys(env.targets);
+    const requested = INDEXER_ALIASES[options.indexer] ?? options.indexer;
+    const indexers = requested === 'all' ? names : [requested];
+
+    for (const name of indexers) {
+        if (!env.targets[name]) {
+            throw new BackfillError(`Unknown indexer "${options.indexer}" - use one of ${names.join(', ')} or all`);
+        }
+    }
+    if (!Number.isInteger(options.fromBlock) || !Number.isInteger(options.toBlock) || options.fromBlock < 0) {
+        throw new BackfillError('fromBlock and toBlock must be non-negative block numbers');
+    }
+    if (options.fromBlock > options.toBlock) {
+        throw new BackfillError('fromBlock must not be greater than toBlock');
+    }
+
+    // Never backfill blocks the live indexers would still wait on
+    const currentBlock = await env.getCurrentBlockNumber();
+    const deepest = Math.max(...indexers.map(name => env.targets[name].confirmations));
+    const toBlock = Math.min(options.toBlock, currentBlock - deepest);
+    if (options.fromBlock > toBlock) {
+        throw new BackfillError(`Range is not confirmed yet (confirmed head is ${currentBlock - deepest})`);
+    }
+
+    const chunkSize = options.chunkSize ?? INDEXER_CONFIG.MAX_BLOCKS_PER_RUN;
+    const concurrency = options.concurrency ?? INDEXER_CONFIG.BACKFILL_CONCURRENCY;
+    const chunks = Math.ceil((toBlock - options.fromBlock + 1) / chunkSize);
+
+    return {
+        id: randomUUID(),
+        indexers,
+        fromBlock: options.fromBlock,
+        toBlock,
+        chunkSize,
+        concurrency,
+        status: 'running',
+        progress: Object.fromEntries(indexers.map(name => [name, {
+            chunksTotal: chunks * env.targets[name].phases.length,
+            chunksDone: 0,
+            indexed: 0,
+            failed: 0,
+            failedChunks: []
+        }])),
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        error: null
+    };
+}
+
+/**
+ * Index one chunk, retrying RPC/database errors with a linear backoff.
+ */
+async function indexChunk(
+    phase: BackfillPhase,
+    fromBlock: number,
+    toBlock: number
+): Promise<{ indexed: number; failed: number }> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await phase.index(fromBlock, toBlock);
+        } catch (error) {
+            if (attempt >= INDEXER_CONFIG.MAX_RETRIES) {
+                throw error;
+            }
+            await new Promise(resolve => setTimeout(resolve, INDEXER_CONFIG.RETRY_DELAY_MS * attempt));
+        }
+    }
+}
+
+async function backfillIndexer(
+    job: BackfillJob,
+    target: BackfillTarget,
+    name: string,
+    onProgress?: (job: BackfillJob, indexer: string) => void
+): Promise<void> {
+    const progress = job.progress[name];
+    const chunks: Array<[number, number]> = [];
+    for (let from = job.fromBlock; from <= job.toBlock; from += job.chunkSize) {
+        chunks.push([from, Math.min(from + job.chunkSize - 1, job.toBlock)]);
+    }
+
+    for (const phase of target.phases) {
+        let next = 0;
+        const worker = async () => {
+            while (next < chunks.length) {
+                const [fromBlock, toBlock] = chunks[next++];
+                try {
+                    const result = await indexChunk(phase, fromBlock, toBlock);
+                    progress.indexed += result.indexed;
+                    progress.failed += result.failed;
+                } catch (error) {
+                    progress.failedChunks.push({ fromBlock, toBlock, error: (error as Error).message });
+                    logger.error('Backfill chunk failed', error as Error, { jobId: job.id, indexer: name, fromBlock, toBlock });
+                }
+                progress.chunksDone++;
+                onProgress?.(job, name);
+            }
+        };
+
+        const workers = phase.sequential ? 1 : Math.min(job.concurrency, chunks.length);
+        await Promise.all(Array.from({ length: workers }, worker));
+    }
+}
+
+function trackJob(job: BackfillJob): BackfillJob {
+    if (jobs.size >= MAX_TRACKED_JOBS) {
+        // Maps iterate in insertion order, so this drops the oldest finished job
+        const finished = [...jobs.values()].find(j => j.status !== 'running');
+        if (finished) jobs.delete(finished.id);
+    }
+    jobs.set(job.id, job);
+    return job;
+}
+
+async function execute(
+    job: BackfillJob,
+    env: BackfillEnvironment,
+    onProgress?: (job: BackfillJob, indexer: string) => void
+): Promise<BackfillJob> {
+    logger.info('Indexer backfill started', {
+        jobId: job.id,
+        indexers: job.indexers,
+        fromBlock: job.fromBlock,
+        toBlock: job.toBlock
+    });
+
+    try {
+        await Promise.all(job.indexers.map(name => backfillIndexer(job, env.targets[name], name, onProgress)));
+        const failedChunks = job.indexers.reduce((n, name) => n + job.progress[name].failedChunks.length, 0);
+        job.status = failedChunks > 0 ? 'failed' : 'completed';
+        if (failedChunks > 0) {
+            job.error = `${failedChunks} chunk(s) failed`;
+        }
+    } catch (error) {
+        job.status = 'failed';
+        job.error = (error as Error).message;
+    }
+
+    job.finishedAt = new Date().toISOString();
+    logger.info('Indexer backfill finished', { jobId: job.id, status: job.status, progress: job.progress });
+    return job;
+}
+
+/**
+ * Run a backfill to completion (script use).
+ */
+export async function runBackfill(
+    options: BackfillOptions,
+    onProgress?: (job: BackfillJob, indexer: string) => void,
+    env: BackfillEnvironment = LIVE_ENVIRONMENT
+): Promise<BackfillJob> {
+    const job = trackJob(await createJob(options, env));
+    return execute(job, env, onProgress);
+}
+
+/**
+ * Start a backfill in the background and return the job for polling.
+ */
+export async function startBackfill(
+    options: BackfillOptions,
+    env: BackfillEnvironment = LIVE_ENVIRONMENT
+): Promise<BackfillJob> {
+    const job = trackJob(await createJob(options, env));
+    void execute(job, env);
+    return job;
+}
+
+export function getBackfillJob(id: string): BackfillJob | null {
+    return jobs.get(id) ?? null;
+}
+
+export function listBackfillJobs(): BackfillJob[] {
+    return [...jobs.values()].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
@@ -4,8 +4,6 @@
 
 export const INDEXER_CONFIG = {
     // Cronos Network
-    CRONOS_TESTNET_RPC: process.env.CRONOS_RPC_URL || 'https://evm-t3.cronos.org',
-    CRONOS_MAINNET_RPC: 'https://evm.cronos.org',
     CHAIN_ID_TESTNET: 338,
     CHAIN_ID_MAINNET: 25,
 
@@ -33,6 +31,21 @@ export const INDEXER_CONFIG = {
     MAX_BLOCKS_PER_RUN: 1000,
     RETRY_DELAY_MS: 5000,
     MAX_RETRIES: 3,
+    // Chunks indexed in parallel per indexer during a backfill
+    BACKFILL_CONCURRENCY: parseInt(process.env.INDEXER_BACKFILL_CONCURRENCY || '4'),
+
+    // Reorg Protection
+    // Blocks an event must be buried under before an indexer will read it
+    CONFIRMATION_DEPTH: {
+        escrow: parseInt(process.env.ESCROW_INDEXER_CONFIRMATIONS || '6'),
+        usdc: parseInt(process.env.USDC_INDEXER_CONFIRMATIONS || '6'),
+        payment: parseInt(process.env.PAYMENT_INDEXER_CONFIRMATIONS || '6'),
+        transaction: parseInt(process.env.TRANSACTION_INDEXER_CONFIRMATIONS || '6'),
+    },
+    // Indexed block hashes kept per indexer for reorg detection
+    REORG_HASH_WINDOW: parseInt(process.env.INDEXER_REORG_HASH_WINDOW || '128'),
+    // How far back (in blocks) record-based indexers re-verify what they indexed
+    REORG_RECHECK_BLOCKS: parseInt(process.env.INDEXER_REORG_RECHECK_BLOCKS || '500'),
 } as const;
 
 export const CONTRACT_ABIS: Record<string, string[]> = {
@@ -3,15 +3,23 @@
  * 
  * Indexes agent registration events from the IdentityRegistry contract.
  * Tracks agent lifecycle: registration, deactivation, reactivation.
+ *
+ * Events are processed one by one through event-checkpoint.ts: agents are
+ * upserted by id, a failing event holds the cursor until it is retried or
+ * dead-lettered, and dead letters can be replayed.
  */
 
 import schedule from 'node-schedule';
+import { ethers } from 'ethers';
 import logger from '../../../lib/logger.js';
-import { INDEXER_CONFIG } from '../config/constants.js';
+import { INDEXER_CONFIG, CONTRACT_ABIS } from '../config/constants.js';
 import * as cronos from '../repository/cronos.repository.js';
 import * as db from '../repository/database.repository.js';
+import { processEventBatch, replayEvent, IndexerReplayError } from '../event-checkpoint.js';
 
-const INDEXER_NAME = 'agent_registry';
+export const AGENT_INDEXER_NAME = 'agent_registry';
+const INDEXER_NAME = AGENT_INDEXER_NAME;
+const EVENT_TYPE = 'AgentRegistered';
 
 class AgentIndexer {
     private isRunning = false;
@@ -44,54 +52,26 @@ class AgentIndexer {
 
             logger.info('Scanning blocks for agent events', { fromBlock, toBlock });
 
-            const events = await cronos.queryAgentRegisteredEvents(fromBlock, toBlock);
-
-            if (events.length === 0) {
-                logger.debug('No agent registration events found');
-                await db.updateIndexerState(INDEXER_NAME, toBlock);
-                return;
-            }
-
-            logger.info('Processing agent events', { count: events.length });
-
-            let indexed = 0;
-            let failed = 0;
-
-            for (const event of events) {
-                try {
-                    const agentId = Number(event.args[0]);
-                    const owner = event.args[1] as string;
-                    const agentURI = event.args[2] as string;
-
-                    const block = await cronos.getBlock(event.blockNumber);
-                    const timestamp = block
-                        ? new Date(block.timestamp * 1000).toISOString()
-                        : new Date().toISOString();
-
-                    await db.upsertAgent({
-                        agentId,
-                        ownerAddress: owner,
-                        agentURI,
-                        isActive: true,
-                        registeredAt: timestamp,
-                        registrationTxHash: event.transactionHash,
-                        registrationBlock: event.blockNumber
-                    });
-
-                    indexed++;
-                    logger.debug('Indexed agent', { agentId, owner });
-                } catch (error) {
-                    failed++;
-                    logger.error('Failed to index agent event', error as Error, {
-                        txHash: event.transactionHash
-                    });
-                }
+            const batch = await processEventBatch({
+                indexerName: INDEXER_NAME,
+                eventType: EVENT_TYPE,
+                chainId: await cronos.getChainId(),
+                fetch: cronos.queryAgentRegisteredEvents,
+                handle: (event) => this.handleRegistration(event)
+            }, fromBlock, toBlock);
+
+            // Held below an event that will be retried
+            if (batch.cursor > (state?.lastBlock ?? 0)) {
+                await db.updateIndexerState(INDEXER_NAME, batch.cursor);
             }
 
-            await db.updateIndexerState(INDEXER_NAME, toBlock);
-
             const duration = Date.now() - startTime;
-            logger.info('Agent indexer completed', { indexed, failed, durationMs: duration });
+            logger.info('Agent indexer completed', {
+                indexed: batch.processed,
+                retrying: batch.retrying,
+                deadLettered: batch.deadLettered,
+                durationMs: duration
+            });
         } catch (error) {
             logger.error('Agent indexer error', error as Error);
         } finally {
@@ -99,6 +79,67 @@ class AgentIndexer {
         }
     }
 
+    /**
+     * Index agent events in [fromBlock, toBlock]. Does not move the cursor,
+     * so it is also used for backfills. Failing events go straight to the
+     * dead letters.
+     */
+    async indexRange(fromBlock: number, toBlock: number): Promise<{ indexed: number; failed: number }> {
+        const batch = await processEventBatch({
+            indexerName: INDEXER_NAME,
+            eventType: EVENT_TYPE,
+            chainId: await cronos.getChainId(),
+            fetch: cronos.queryAgentRegisteredEvents,
+            handle: (event) => this.handleRegistration(event),
+            maxAttempts: 1
+        }, fromBlock, toBlock);
+
+        return { indexed: batch.processed, failed: batch.deadLettered };
+    }
+
+    /**
+     * Re-run the handler for a single dead-lettered event.
+     */
+    async replay(deadLetter: db.IndexerDeadLetter): Promise<void> {
+        if (deadLetter.eventType !== EVENT_TYPE) {
+            throw new IndexerReplayError(`Unknown agent event type: ${deadLetter.eventType}`, 'UNSUPPORTED');
+        }
+
+        const event = await cronos.getContractEventLog(
+            INDEXER_CONFIG.IDENTITY_REGISTRY,
+            CONTRACT_ABIS.IDENTITY_REGISTRY,
+            deadLetter.txHash,
+            deadLetter.logIndex
+        );
+        await replayEvent(deadLetter, event, (e) => this.handleRegistration(e));
+    }
+
+    /**
+     * Index an AgentRegistered event.
+     */
+    private async handleRegistration(event: ethers.EventLog): Promise<void> {
+        const agentId = Number(event.args[0]);
+        const owner = event.args[1] as string;
+        const agentURI = event.args[2] as string;
+
+        const block = await cronos.getBlock(event.blockNumber);
+        const timestamp = block
+            ? new Date(block.timestamp * 1000).toISOString()
+            : new Date().toISOString();
+
+        await db.upsertAgent({
+            agentId,
+            ownerAddress: owner,
+            agentURI,
+            isActive: true,
+            registeredAt: timestamp,
+            registrationTxHash: event.transactionHash,
+            registrationBlock: event.blockNumber
+        });
+
+        logger.debug('Indexed agent', { agentId, owner });
+    }
+
     /**
      * Start scheduled indexer.
      */
@@ -11,19 +11,68 @@
  * - SessionClosed: Session closed
  * - AgentAuthorized: Agent added to session
  * - AgentRevoked: Agent removed from session
+ *
+ * Only blocks ESCROW_INDEXER_CONFIRMATIONS deep are indexed. Each run first
+ * checks the stored block hashes for a reorg and rolls back everything
+ * indexed from orphaned blocks before continuing.
+ *
+ * Each event type advances its own cursor and events are written by
+ * (chainId, txHash, logIndex), so a failing event only holds back its own
+ * type and re-processing a range is safe. Session totals and agent earnings
+ * are recomputed from the stored events rather than incremented.
  */
 
 import schedule from 'node-schedule';
+import { ethers } from 'ethers';
 import logger from '../../../lib/logger.js';
 import { INDEXER_CONFIG } from '../config/constants.js';
 import * as cronos from '../repository/cronos.repository.js';
 import * as db from '../repository/database.repository.js';
-
-const INDEXER_NAME = 'escrow_session_events';
+import { ReorgGuard } from '../reorg-guard.js';
+import {
+    eventCursorName,
+    processEventBatch,
+    replayEvent,
+    IndexerReplayError,
+    type EventHandler
+} from '../event-checkpoint.js';
+
+export const ESCROW_INDEXER_NAME = 'escrow_session_events';
+const INDEXER_NAME = ESCROW_INDEXER_NAME;
+
+// Processing order; every other event refers to a session from SessionCreated
+export const ESCROW_EVENT_TYPES = [
+    'SessionCreated',
+    'FundsDeposited',
+    'PaymentReleased',
+    'SessionRefunded',
+    'SessionClosed',
+    'AgentAuthorized',
+    'AgentRevoked'
+];
+
+// Each overrides the previous one for the same agent, so they must be applied in log order
+export const ESCROW_AGENT_EVENT_TYPES = ['AgentAuthorized', 'AgentRevoked'];
 
 class EscrowSessionIndexer {
     private isRunning = false;
     private cronHandle: schedule.Job | null = null;
+    private reorgGuard = new ReorgGuard(INDEXER_NAME, INDEXER_CONFIG.CONFIRMATION_DEPTH.escrow);
+    private chainId = 0;
+
+    /**
+     * Event handlers by event type. In run(), other event types never index
+     * past the SessionCreated cursor, so their sessions always exist.
+     */
+    private handlers: Record<string, EventHandler> = {
+        SessionCreated: (event) => this.handleSessionCreated(event),
+        FundsDeposited: (event) => this.handleDeposit(event),
+        PaymentReleased: (event) => this.handleRelease(event),
+        SessionRefunded: (event) => this.handleRefund(event),
+        SessionClosed: (event) => this.handleClose(event),
+        AgentAuthorized: (event) => this.handleAuthorization(event),
+        AgentRevoked: (event) => this.handleRevocation(event)
+    };
 
     /**
      * Execute indexer run - processes all escrow events in block range.
@@ -39,41 +88,95 @@ class EscrowSessionIndexer {
 
         try {
             logger.info('Escrow session indexer started');
+            this.chainId = await cronos.getChainId();
+
+            // Undo anything indexed from blocks that are no longer canonical
+            const reorg = await this.reorgGuard.detect();
+            if (reorg) {
+                const removed = await db.rollbackEscrowEvents(reorg.forkBlock, INDEXER_NAME);
+                await this.reorgGuard.rewind(reorg);
+                logger.info('Rolled back escrow events after reorg', { removed, forkBlock: reorg.forkBlock });
+            }
 
             // Get current state
             const state = await db.getIndexerState(INDEXER_NAME);
-            const currentBlock = await cronos.getCurrentBlockNumber();
+            const confirmedHead = this.reorgGuard.confirmedHead(await cronos.getCurrentBlockNumber());
 
             let fromBlock: number;
             if (!state || state.lastBlock === 0) {
                 // Start from escrow contract deployment block
-                fromBlock = INDEXER_CONFIG.ESCROW_CONTRACT_DEPLOY_BLOCK || currentBlock - INDEXER_CONFIG.MAX_BLOCKS_PER_RUN;
+                fromBlock = INDEXER_CONFIG.ESCROW_CONTRACT_DEPLOY_BLOCK || confirmedHead - INDEXER_CONFIG.MAX_BLOCKS_PER_RUN;
             } else {
                 fromBlock = state.lastBlock + 1;
             }
 
-            const toBlock = Math.min(fromBlock + INDEXER_CONFIG.MAX_BLOCKS_PER_RUN, currentBlock);
-
-            if (fromBlock > toBlock) {
+            if (fromBlock > confirmedHead) {
                 logger.debug('No new blocks to index');
                 return;
             }
 
-            logger.info('Indexing escrow events', { fromBlock, toBlock, range: toBlock - fromBlock });
-
-            // Process each event type
-            const results = {
-                sessionsCreated: await this.processSessionCreatedEvents(fromBlock, toBlock),
-                deposited: await this.processDepositEvents(fromBlock, toBlock),
-                released: await this.processReleaseEvents(fromBlock, toBlock),
-                refunded: await this.processRefundEvents(fromBlock, toBlock),
-                closed: await this.processCloseEvents(fromBlock, toBlock),
-                authorized: await this.processAuthorizationEvents(fromBlock, toBlock),
-                revoked: await this.processRevocationEvents(fromBlock, toBlock)
-            };
+            // Event types without a cursor of their own start from the indexer cursor
+            const cursors = new Map(
+                (await db.getIndexerCursors(INDEXER_NAME)).map(c => [c.eventType, c.lastBlock])
+            );
+
+            const results: Record<string, number> = {};
+            let sessionsCursor = confirmedHead;
+            let lowestCursor = Infinity;
+            let highestCursor = fromBlock - 1;
+            let retrying = 0;
+            let deadLettered = 0;
+
+            for (const eventType of ESCROW_EVENT_TYPES) {
+                const handle = this.handlers[eventType];
+                const cursor = Math.max(cursors.get(eventType) ?? 0, fromBlock - 1);
+                const toBlock = Math.min(cursor + 1 + INDEXER_CONFIG.MAX_BLOCKS_PER_RUN, confirmedHead, sessionsCursor);
+                let nextCursor = cursor;
+
+                if (cursor < toBlock) {
+                    try {
+                        const batch = await processEventBatch({
+                            indexerName: INDEXER_NAME,
+                            eventType,
+                            chainId: this.chainId,
+                            fetch: (from, to) => cronos.queryEscrowEvents(eventType, from, to),
+                            handle: (event) => {
+                                this.reorgGuard.track(event.blockNumber, event.blockHash);
+                                return handle(event);
+                            }
+                        }, cursor + 1, toBlock);
+
+                        nextCursor = batch.cursor;
+                        results[eventType] = batch.processed;
+                        retrying += batch.retrying;
+                        deadLettered += batch.deadLettered;
+
+                        if (nextCursor > cursor) {
+                            await db.updateIndexerState(eventCursorName(INDEXER_NAME, eventType), nextCursor);
+                        }
+                    } catch (error) {
+                        logger.error(`Failed to process ${eventType} events`, error as Error, {
+                            fromBlock: cursor + 1,
+                            toBlock
+                        });
+                    }
+                }
+
+                if (eventType === 'SessionCreated') {
+                    sessionsCursor = nextCursor;
+                }
+                lowestCursor = Math.min(lowestCursor, nextCursor);
+                highestCursor = Math.max(highestCursor, nextCursor);
+            }
 
-            // Update indexer state
-            await db.updateIndexerState(INDEXER_NAME, toBlock);
+            // Checkpoint block hashes up to the furthest cursor; the indexer
+            // cursor is the slowest event type
+            if (highestCursor >= fromBlock) {
+                await this.reorgGuard.commit(highestCursor);
+            }
+            if (lowestCursor >= fromBlock) {
+                await db.updateIndexerState(INDEXER_NAME, lowestCursor);
+            }
 
             const duration = Date.now() - startTime;
             const totalEvents = Object.values(results).reduce((a, b) => a + b, 0);
@@ -81,8 +184,10 @@ class EscrowSessionIndexer {
             logger.info('Escrow session indexer completed', {
                 ...results,
                 totalEvents,
+                retrying,
+                deadLettered,
                 durationMs: duration,
-                blocksProcessed: toBlock - fromBlock + 1
+                lastBlock: lowestCursor
             });
 
         } catch (error) {
@@ -93,282 +198,278 @@ class EscrowSessionIndexer {
     }
 
     /**
-     * Process SessionCreated events.
+     * Index an explicit block range without touching the cursors or reorg
+     * checkpoints (backfill). Failing events go straight to the dead letters.
      */
-    private async processSessionCreatedEvents(fromBlock: number, toBlock: number): Promise<number> {
-        try {
-            const events = await cronos.queryEscrowEvents('SessionCreated', fromBlock, toBlock);
-
-            for (const event of events) {
-                const block = await cronos.getBlock(event.blockNumber);
-                const timestamp = block ? new Date(block.timestamp * 1000).toISOString() : new Date().toISOString();
-
-                await db.insertEscrowSession({
-                    sessionId: event.args[0].toString(),
-                    owner: event.args[1],
-                    escrowAgent: event.args[2],
-                    maxSpend: event.args[3].toString(),
-                    expiry: new Date(Number(event.args[4]) * 1000).toISOString(),
-                    deposited: '0',
-                    released: '0',
-                    isActive: true,
-                    createdAt: timestamp,
-                    createdTxHash: event.transactionHash,
-                    createdBlock: event.blockNumber
-                });
-
-                logger.debug('Indexed SessionCreated', {
-                    sessionId: event.args[0].toString(),
-                    owner: event.args[1]
-                });
+    async indexRange(
+        fromBlock: number,
+        toBlock: number,
+        eventTypes: string[] = ESCROW_EVENT_TYPES
+    ): Promise<{ indexed: number; failed: number }> {
+        this.chainId = await cronos.getChainId();
+        let indexed = 0;
+        let failed = 0;
+
+        for (const eventType of eventTypes) {
+            const handle = this.handlers[eventType];
+            if (!handle) {
+                throw new Error(`Unknown escrow event type: ${eventType}`);
             }
 
-            return events.length;
-        } catch (error) {
-            logger.error('Failed to process SessionCreated events', error as Error);
-            return 0;
+            const batch = await processEventBatch({
+                indexerName: INDEXER_NAME,
+                eventType,
+                chainId: this.chainId,
+                fetch: (from, to) => cronos.queryEscrowEvents(eventType, from, to),
+                handle,
+                maxAttempts: 1
+            }, fromBlock, toBlock);
+
+            indexed += batch.processed;
+            failed += batch.deadLettered;
         }
+
+        return { indexed, failed };
     }
 
     /**
-     * Process FundsDeposited events.
+     * Like indexRange, but merges the event types and applies them in
+     * (block, logIndex) order, for events that depend on each other.
      */
-    private async processDepositEvents(fromBlock: number, toBlock: number): Promise<number> {
-        try {
-            const events = await cronos.queryEscrowEvents('FundsDeposited', fromBlock, toBlock);
-
-            for (const event of events) {
-                const block = await cronos.getBlock(event.blockNumber);
-                const timestamp = block ? new Date(block.timestamp * 1000).toISOString() : new Date().toISOString();
-
-                await db.insertSessionEvent({
-                    sessionId: event.args[0].toString(),
-                    eventType: 'DEPOSIT',
-                    actor: event.args[1],
-                    amount: event.args[2].toString(),
-                    timestamp,
-                    txHash: event.transactionHash,
-                    blockNumber: event.blockNumber
-                });
-
-                // Update session deposited amount
-                await db.incrementSessionDeposited(
-                    event.args[0].toString(),
-                    event.args[2].toString()
-                );
-
-                logger.debug('Indexed FundsDeposited', {
-                    sessionId: event.args[0].toString(),
-                    amount: event.args[2].toString()
-                });
+    async indexRangeInLogOrder(
+        fromBlock: number,
+        toBlock: number,
+        eventTypes: string[]
+    ): Promise<{ indexed: number; failed: number }> {
+        for (const eventType of eventTypes) {
+            if (!this.handlers[eventType]) {
+                throw new Error(`Unknown escrow event type: ${eventType}`);
             }
+        }
+        this.chainId = await cronos.getChainId();
+
+        const batch = await processEventBatch({
+            indexerName: INDEXER_NAME,
+            eventType: eventTypes.join(','),
+            chainId: this.chainId,
+            fetch: async (from, to) => (
+                await Promise.all(eventTypes.map(eventType => cronos.queryEscrowEvents(eventType, from, to)))
+            ).flat(),
+            handle: (event) => this.handlers[event.eventName](event),
+            maxAttempts: 1
+        }, fromBlock, toBlock);
+
+        return { indexed: batch.processed, failed: batch.deadLettered };
+    }
 
-            return events.length;
-        } catch (error) {
-            logger.error('Failed to process FundsDeposited events', error as Error);
-            return 0;
+    /**
+     * Re-run the handler for a single dead-lettered event.
+     */
+    async replay(deadLetter: db.IndexerDeadLetter): Promise<void> {
+        const handle = this.handlers[deadLetter.eventType];
+        if (!handle) {
+            throw new IndexerReplayError(`Unknown escrow event type: ${deadLetter.eventType}`, 'UNSUPPORTED');
         }
+        this.chainId = await cronos.getChainId();
+        await replayEvent(deadLetter, await cronos.getEscrowEventLog(deadLetter.txHash, deadLetter.logIndex), handle);
+    }
+
+    private async eventTimestamp(event: ethers.EventLog): Promise<string> {
+        const block = await cronos.getBlock(event.blockNumber);
+        return block ? new Date(block.timestamp * 1000).toISOString() : new Date().toISOString();
+    }
+
+    private eventKey(event: ethers.EventLog) {
+        return {
+            chainId: this.chainId,
+            txHash: event.transactionHash,
+            logIndex: event.index,
+            blockNumber: event.blockNumber,
+            blockHash: event.blockHash
+        };
     }
 
     /**
-     * Process PaymentReleased events - critical for tracking agent earnings.
+     * Index a SessionCreated event.
      */
-    private async processReleaseEvents(fromBlock: number, toBlock: number): Promise<number> {
-        try {
-            const events = await cronos.queryEscrowEvents('PaymentReleased', fromBlock, toBlock);
-
-            for (const event of events) {
-                const block = await cronos.getBlock(event.blockNumber);
-                const timestamp = block ? new Date(block.timestamp * 1000).toISOString() : new Date().toISOString();
-
-                await db.insertSessionEvent({
-                    sessionId: event.args[0].toString(),
-                    eventType: 'RELEASE',
-                    actor: event.args[1], // agent address
-                    amount: event.args[2].toString(),
-                    executionId: event.args[3], // bytes32 execution ID
-                    timestamp,
-                    txHash: event.transactionHash,
-                    blockNumber: event.blockNumber
-                });
-
-                // Update session released amount
-                await db.incrementSessionReleased(
-                    event.args[0].toString(),
-                    event.args[2].toString()
-                );
-
-                // Update agent earnings
-                await db.incrementAgentEarnings(
-                    event.args[1],
-                    event.args[2].toString()
-                );
-
-                logger.debug('Indexed PaymentReleased', {
-                    sessionId: event.args[0].toString(),
-                    agent: event.args[1],
-                    amount: event.args[2].toString()
-                });
-            }
+    private async handleSessionCreated(event: ethers.EventLog): Promise<void> {
+        const timestamp = await this.eventTimestamp(event);
+        const sessionId = event.args[0].toString();
+
+        await db.insertEscrowSession({
+            sessionId,
+            owner: event.args[1],
+            escrowAgent: event.args[2],
+            maxSpend: event.args[3].toString(),
+            expiry: new Date(Number(event.args[4]) * 1000).toISOString(),
+            isActive: true,
+            createdAt: timestamp,
+            createdTxHash: event.transactionHash,
+            createdBlock: event.blockNumber,
+            indexedBy: INDEXER_NAME
+        });
 
-            return events.length;
-        } catch (error) {
-            logger.error('Failed to process PaymentReleased events', error as Error);
-            return 0;
-        }
+        // A replayed SessionCreated must not wipe totals of later events
+        await db.refreshSessionTotals(sessionId);
+
+        logger.debug('Indexed SessionCreated', {
+            sessionId,
+            owner: event.args[1]
+        });
     }
 
     /**
-     * Process SessionRefunded events.
+     * Index a FundsDeposited event.
      */
-    private async processRefundEvents(fromBlock: number, toBlock: number): Promise<number> {
-        try {
-            const events = await cronos.queryEscrowEvents('SessionRefunded', fromBlock, toBlock);
-
-            for (const event of events) {
-                const block = await cronos.getBlock(event.blockNumber);
-                const timestamp = block ? new Date(block.timestamp * 1000).toISOString() : new Date().toISOString();
-
-                await db.insertSessionEvent({
-                    sessionId: event.args[0].toString(),
-                    eventType: 'REFUND',
-                    actor: event.args[1], // owner address
-                    amount: event.args[2].toString(),
-                    timestamp,
-                    txHash: event.transactionHash,
-                    blockNumber: event.blockNumber
-                });
-
-                logger.debug('Indexed SessionRefunded', {
-                    sessionId: event.args[0].toString(),
-                    amount: event.args[2].toString()
-                });
-            }
+    private async handleDeposit(event: ethers.EventLog): Promise<void> {
+        const timestamp = await this.eventTimestamp(event);
+        const sessionId = event.args[0].toString();
+
+        await db.upsertSessionEvent({
+            sessionId,
+            eventType: 'DEPOSIT',
+            actor: event.args[1],
+            amount: event.args[2].toString(),
+            timestamp,
+            ...this.eventKey(event)
+        });
 
-            return events.length;
-        } catch (error) {
-            logger.error('Failed to process SessionRefunded events', error as Error);
-            return 0;
-        }
+        // Update session deposited amount
+        await db.refreshSessionTotals(sessionId);
+
+        logger.debug('Indexed FundsDeposited', {
+            sessionId,
+            amount: event.args[2].toString()
+        });
     }
 
     /**
-     * Process SessionClosed events.
+     * Index a PaymentReleased event - critical for tracking agent earnings.
      */
-    private async processCloseEvents(fromBlock: number, toBlock: number): Promise<number> {
-        try {
-            const events = await cronos.queryEscrowEvents('SessionClosed', fromBlock, toBlock);
-
-            for (const event of events) {
-                const block = await cronos.getBlock(event.blockNumber);
-                const timestamp = block ? new Date(block.timestamp * 1000).toISOString() : new Date().toISOString();
-
-                await db.updateSessionClosed(
-                    event.args[0].toString(),
-                    timestamp,
-                    event.transactionHash,
-                    event.blockNumber
-                );
-
-                await db.insertSessionEvent({
-                    sessionId: event.args[0].toString(),
-                    eventType: 'CLOSE',
-                    timestamp,
-                    txHash: event.transactionHash,
-                    blockNumber: event.blockNumber
-                });
-
-                logger.debug('Indexed SessionClosed', {
-                    sessionId: event.args[0].toString()
-                });
-            }
+    private async handleRelease(event: ethers.EventLog): Promise<void> {
+        const timestamp = await this.eventTimestamp(event);
+        const sessionId = event.args[0].toString();
+
+        await db.upsertSessionEvent({
+            sessionId,
+            eventType: 'RELEASE',
+            actor: event.args[1], // agent address
+            amount: event.args[2].toString(),
+            executionId: event.args[3], // bytes32 execution ID
+            timestamp,
+            ...this.eventKey(event)
+        });
 
-            return events.length;
-        } catch (error) {
-            logger.error('Failed to process SessionClosed events', error as Error);
-            return 0;
-        }
+        // Update session on-chain released amount and agent earnings
+        await db.refreshSessionTotals(sessionId);
+        await db.refreshAgentEarnings(event.args[1]);
+
+        logger.debug('Indexed PaymentReleased', {
+            sessionId,
+            agent: event.args[1],
+            amount: event.args[2].toString()
+        });
     }
 
     /**
-     * Process AgentAuthorized events.
+     * Index a SessionRefunded event.
      */
-    private async processAuthorizationEvents(fromBlock: number, toBlock: number): Promise<number> {
-        try {
-            const events = await cronos.queryEscrowEvents('AgentAuthorized', fromBlock, toBlock);
-
-            for (const event of events) {
-                const block = await cronos.getBlock(event.blockNumber);
-                const timestamp = block ? new Date(block.timestamp * 1000).toISOString() : new Date().toISOString();
-
-                await db.insertSessionAgent({
-                    sessionId: event.args[0].toString(),
-                    agentAddress: event.args[1],
-                    isAuthorized: true,
-                    authorizedAt: timestamp,
-                    txHash: event.transactionHash,
-                    blockNumber: event.blockNumber
-                });
-
-                await db.insertSessionEvent({
-                    sessionId: event.args[0].toString(),
-                    eventType: 'AUTHORIZE',
-                    actor: event.args[1],
-                    timestamp,
-                    txHash: event.transactionHash,
-                    blockNumber: event.blockNumber
-                });
-
-                logger.debug('Indexed AgentAuthorized', {
-                    sessionId: event.args[0].toString(),
-                    agent: event.args[1]
-                });
-            }
+    private async handleRefund(event: ethers.EventLog): Promise<void> {
+        const timestamp = await this.eventTimestamp(event);
+
+        await db.upsertSessionEvent({
+            sessionId: event.args[0].toString(),
+            eventType: 'REFUND',
+            actor: event.args[1], // owner address
+            amount: event.args[2].toString(),
+            timestamp,
+            ...this.eventKey(event)
+        });
 
-            return events.length;
-        } catch (error) {
-            logger.error('Failed to process AgentAuthorized events', error as Error);
-            return 0;
-        }
+        logger.debug('Indexed SessionRefunded', {
+            sessionId: event.args[0].toString(),
+            amount: event.args[2].toString()
+        });
     }
 
     /**
-     * Process AgentRevoked events.
+     * Index a SessionClosed event.
      */
-    private async processRevocationEvents(fromBlock: number, toBlock: number): Promise<number> {
-        try {
-            const events = await cronos.queryEscrowEvents('AgentRevoked', fromBlock, toBlock);
-
-            for (const event of events) {
-                const block = await cronos.getBlock(event.blockNumber);
-                const timestamp = block ? new Date(block.timestamp * 1000).toISOString() : new Date().toISOString();
-
-                await db.updateSessionAgentRevoked(
-                    event.args[0].toString(),
-                    event.args[1],
-                    timestamp
-                );
-
-                await db.insertSessionEvent({
-                    sessionId: event.args[0].toString(),
-                    eventType: 'REVOKE',
-                    actor: event.args[1],
-                    timestamp,
-                    txHash: event.transactionHash,
-                    blockNumber: event.blockNumber
-                });
-
-                logger.debug('Indexed AgentRevoked', {
-                    sessionId: event.args[0].toString(),
-                    agent: event.args[1]
-                });
-            }
+    private async handleClose(event: ethers.EventLog): Promise<void> {
+        const timestamp = await this.eventTimestamp(event);
+
+        await db.updateSessionClosed(
+            event.args[0].toString(),
+            timestamp,
+            event.transactionHash,
+            event.blockNumber
+        );
+
+        await db.upsertSessionEvent({
+            sessionId: event.args[0].toString(),
+            eventType: 'CLOSE',
+            timestamp,
+            ...this.eventKey(event)
+        });
 
-            return events.length;
-        } catch (error) {
-            logger.error('Failed to process AgentRevoked events', error as Error);
-            return 0;
-        }
+        logger.debug('Indexed SessionClosed', {
+            sessionId: event.args[0].toString()
+        });
+    }
+
+    /**
+     * Index an AgentAuthorized event.
+     */
+    private async handleAuthorization(event: ethers.EventLog): Promise<void> {
+        const timestamp = await this.eventTimestamp(event);
+
+        await db.insertSessionAgent({
+            sessionId: event.args[0].toString(),
+            agentAddress: event.args[1],
+            isAuthorized: true,
+            authorizedAt: timestamp,
+            txHash: event.transactionHash,
+            blockNumber: event.blockNumber
+        });
+
+        await db.upsertSessionEvent({
+            sessionId: event.args[0].toString(),
+            eventType: 'AUTHORIZE',
+            actor: event.args[1],
+            timestamp,
+            ...this.eventKey(event)
+        });
+
+        logger.debug('Indexed AgentAuthorized', {
+            sessionId: event.args[0].toString(),
+            agent: event.args[1]
+        });
+    }
+
+    /**
+     * Index an AgentRevoked event.
+     */
+    private async handleRevocation(event: ethers.EventLog): Promise<void> {
+        const timestamp = await this.eventTimestamp(event);
+
+        await db.updateSessionAgentRevoked(
+            event.args[0].toString(),
+            event.args[1],
+            timestamp
+        );
+
+        await db.upsertSessionEvent({
+            sessionId: event.args[0].toString(),
+            eventType: 'REVOKE',
+            actor: event.args[1],
+            timestamp,
+            ...this.eventKey(event)
+        });
+
+        logger.debug('Indexed AgentRevoked', {
+            sessionId: event.args[0].toString(),
+            agent: event.args[1]
+        });
     }
 
     /**
@@ -3,15 +3,23 @@
  * 
  * Indexes feedback submission events from the ReputationRegistry contract.
  * Tracks all on-chain feedback for reputation calculations.
+ *
+ * Events are processed one by one through event-checkpoint.ts: feedback is
+ * upserted by (chainId, txHash, logIndex), a failing event holds the cursor
+ * until it is retried or dead-lettered, and dead letters can be replayed.
  */
 
 import schedule from 'node-schedule';
+import { ethers } from 'ethers';
 import logger from '../../../lib/logger.js';
-import { INDEXER_CONFIG } from '../config/constants.js';
+import { INDEXER_CONFIG, CONTRACT_ABIS } from '../config/constants.js';
 import * as cronos from '../repository/cronos.repository.js';
 import * as db from '../repository/database.repository.js';
+import { processEventBatch, replayEvent, IndexerReplayError } from '../event-checkpoint.js';
 
-const INDEXER_NAME = 'feedback_events';
+export const FEEDBACK_INDEXER_NAME = 'feedback_events';
+const INDEXER_NAME = FEEDBACK_INDEXER_NAME;
+const EVENT_TYPE = 'FeedbackSubmitted';
 
 class FeedbackIndexer {
     private isRunning = false;
@@ -44,57 +52,27 @@ class FeedbackIndexer {
 
             logger.info('Scanning blocks for feedback events', { fromBlock, toBlock });
 
-            const events = await cronos.queryFeedbackEvents(fromBlock, toBlock);
-
-            if (events.length === 0) {
-                logger.debug('No feedback events found');
-                await db.updateIndexerState(INDEXER_NAME, toBlock);
-                return;
-            }
-
-            logger.info('Processing feedback events', { count: events.length });
-
-            let indexed = 0;
-            let failed = 0;
-
-            for (const event of events) {
-                try {
-                    const subject = event.args[0] as string;
-                    const submitter = event.args[1] as string;
-                    const tag = event.args[2] as string;
-                    const score = Number(event.args[3]);
-                    const comment = event.args[4] as string;
-
-                    const block = await cronos.getBlock(event.blockNumber);
-                    const timestamp = block
-                        ? new Date(block.timestamp * 1000).toISOString()
-                        : new Date().toISOString();
-
-                    await db.insertFeedbackEvent({
-                        subjectAddress: subject,
-                        submitterAddress: submitter,
-                        tag,
-                        score,
-                        comment,
-                        txHash: event.transactionHash,
-                        blockNumber: event.blockNumber,
-                        timestamp
-                    });
-
-                    indexed++;
-                    logger.debug('Indexed feedback', { subject, tag, score });
-                } catch (error) {
-                    failed++;
-                    logger.error('Failed to index feedback event', error as Error, {
-                        txHash: event.transactionHash
-                    });
-                }
+            const chainId = await cronos.getChainId();
+            const batch = await processEventBatch({
+                indexerName: INDEXER_NAME,
+                eventType: EVENT_TYPE,
+                chainId,
+                fetch: cronos.queryFeedbackEvents,
+                handle: (event) => this.handleFeedback(event, chainId)
+            }, fromBlock, toBlock);
+
+            // Held below an event that will be retried
+            if (batch.cursor > (state?.lastBlock ?? 0)) {
+                await db.updateIndexerState(INDEXER_NAME, batch.cursor);
             }
 
-            await db.updateIndexerState(INDEXER_NAME, toBlock);
-
             const duration = Date.now() - startTime;
-            logger.info('Feedback indexer completed', { indexed, failed, durationMs: duration });
+            logger.info('Feedback indexer completed', {
+                indexed: batch.processed,
+                retrying: batch.retrying,
+                deadLettered: batch.deadLettered,
+                durationMs: duration
+            });
         } catch (error) {
             logger.error('Feedback indexer error', error as Error);
         } finally {
@@ -102,6 +80,73 @@ class FeedbackIndexer {
         }
     }
 
+    /**
+     * Index feedback events in [fromBlock, toBlock]. Does not move the cursor,
+     * so it is also used for backfills. Failing events go straight to the
+     * dead letters.
+     */
+    async indexRange(fromBlock: number, toBlock: number): Promise<{ indexed: number; failed: number }> {
+        const chainId = await cronos.getChainId();
+        const batch = await processEventBatch({
+            indexerName: INDEXER_NAME,
+            eventType: EVENT_TYPE,
+            chainId,
+            fetch: cronos.queryFeedbackEvents,
+            handle: (event) => this.handleFeedback(event, chainId),
+            maxAttempts: 1
+        }, fromBlock, toBlock);
+
+        return { indexed: batch.processed, failed: batch.deadLettered };
+    }
+
+    /**
+     * Re-run the handler for a single dead-lettered event.
+     */
+    async replay(deadLetter: db.IndexerDeadLetter): Promise<void> {
+        if (deadLetter.eventType !== EVENT_TYPE) {
+            throw new IndexerReplayError(`Unknown feedback event type: ${deadLetter.eventType}`, 'UNSUPPORTED');
+        }
+
+        const event = await cronos.getContractEventLog(
+            INDEXER_CONFIG.REPUTATION_REGISTRY,
+            CONTRACT_ABIS.REPUTATION_REGISTRY,
+            deadLetter.txHash,
+            deadLetter.logIndex
+        );
+        await replayEvent(deadLetter, event, (e) => this.handleFeedback(e, deadLetter.chainId));
+    }
+
+    /**
+     * Index a FeedbackSubmitted event.
+     */
+    private async handleFeedback(event: ethers.EventLog, chainId: number): Promise<void> {
+        const subject = event.args[0] as string;
+        const submitter = event.args[1] as string;
+        const tag = event.args[2] as string;
+        const score = Number(event.args[3]);
+        const comment = event.args[4] as string;
+
+        const block = await cronos.getBlock(event.blockNumber);
+        const timestamp = block
+            ? new Date(block.timestamp * 1000).toISOString()
+            : new Date().toISOString();
+
+        await db.insertFeedbackEvent({
+            subjectAddress: subject,
+            submitterAddress: submitter,
+            tag,
+            score,
+            comment,
+            chainId,
+            txHash: event.transactionHash,
+            logIndex: event.index,
+            blockNumber: event.blockNumber,
+            timestamp
+        });
+
+        logger.debug('Indexed feedback', { subject, tag, score });
+    }
+
     /**
      * Start scheduled indexer.
      */
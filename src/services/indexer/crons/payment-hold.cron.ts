@@ -0,0 +1,71 @@
+/**
+ * Payment Hold Expiry
+ *
+ * Sweeps holds nobody resolved (e.g. the process died mid-call): voids
+ * payment authorizations past their expiry, then releases any session
+ * reservations still pending past their TTL so the budget comes back.
+ */
+
+import schedule from 'node-schedule';
+import logger from '../../../lib/logger.js';
+import { supabase } from '../../../lib/supabase.js';
+import { paymentAuthorizationService } from '../../x402/payment-authorization.js';
+import { createSessionLedger } from '../../session/session-ledger.js';
+
+class PaymentHoldExpiry {
+    private isRunning = false;
+    private cronHandle: schedule.Job | null = null;
+    private ledger = createSessionLedger(supabase);
+
+    /**
+     * Void expired authorizations and release expired reservations once
+     */
+    async run(): Promise<void> {
+        if (this.isRunning) {
+            logger.debug('Payment hold expiry already running');
+            return;
+        }
+
+        this.isRunning = true;
+        try {
+            // Authorizations first, so their reservations are released through them
+            const voided = await paymentAuthorizationService.voidExpired();
+            const released = await this.ledger.releaseExpired();
+
+            if (voided > 0 || released > 0) {
+                logger.info('Expired payment holds swept', { voided, released });
+            }
+        } catch (error) {
+            logger.error('Payment hold expiry failed', error as Error);
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    /**
+     * Start scheduled sweeps
+     */
+    start(): schedule.Job {
+        // Run every minute
+        const cronSchedule = '30 * * * * *';
+        this.cronHandle = schedule.scheduleJob(cronSchedule, async () => {
+            await this.run();
+        });
+        logger.info('Payment hold expiry scheduled', { cron: cronSchedule });
+
+        return this.cronHandle;
+    }
+
+    /**
+     * Stop scheduled sweeps
+     */
+    stop(): void {
+        if (this.cronHandle) {
+            this.cronHandle.cancel();
+            this.cronHandle = null;
+            logger.info('Payment hold expiry stopped');
+        }
+    }
+}
+
+export const paymentHoldExpiry = new PaymentHoldExpiry();
@@ -3,6 +3,11 @@
  * 
  * Indexes x402 payment transactions from the Cronos blockchain.
  * Enriches payment records with block confirmations and timestamps.
+ *
+ * A payment is only marked indexed once its block is
+ * PAYMENT_INDEXER_CONFIRMATIONS deep. Payments indexed within the last
+ * REORG_RECHECK_BLOCKS are re-verified each run; if their transaction left
+ * the recorded block they are reset and indexed again.
  */
 
 import schedule from 'node-schedule';
@@ -32,6 +37,14 @@ class PaymentIndexer {
         try {
             logger.info('Payment indexer started');
 
+            const currentBlock = await cronos.getCurrentBlockNumber();
+            const confirmedHead = currentBlock - INDEXER_CONFIG.CONFIRMATION_DEPTH.payment;
+
+            const reorged = await this.recheckIndexedPayments(currentBlock);
+            if (reorged > 0) {
+                logger.warn('Payments moved by chain reorg, re-indexing', { count: reorged });
+            }
+
             const payments = await db.getUnindexedPayments(INDEXER_CONFIG.BATCH_SIZE);
 
             if (payments.length === 0) {
@@ -43,13 +56,16 @@ class PaymentIndexer {
 
             let indexed = 0;
             let failed = 0;
+            let awaitingConfirmations = 0;
 
             for (const payment of payments) {
                 try {
                     const tx = await cronos.getTransaction(payment.tx_hash);
 
-                    if (tx && tx.blockNumber) {
-                        await db.updatePaymentBlockNumber(payment.payment_id, tx.blockNumber);
+                    if (tx && tx.blockNumber && tx.blockNumber > confirmedHead) {
+                        awaitingConfirmations++;
+                    } else if (tx && tx.blockNumber) {
+                        await db.updatePaymentBlockNumber(payment.payment_id, tx.blockNumber, tx.blockHash ?? undefined);
                         indexed++;
                         logger.debug('Indexed payment', {
                             paymentId: payment.payment_id,
@@ -65,7 +81,7 @@ class PaymentIndexer {
             }
 
             const duration = Date.now() - startTime;
-            logger.info('Payment indexer completed', { indexed, failed, durationMs: duration });
+            logger.info('Payment indexer completed', { indexed, failed, awaitingConfirmations, durationMs: duration });
         } catch (error) {
             logger.error('Payment indexer error', error as Error);
         } finally {
@@ -73,6 +89,35 @@ class PaymentIndexer {
         }
     }
 
+    /**
+     * Re-verify recently indexed payments against the canonical chain and
+     * reset those whose transaction is gone or now in a different block.
+     */
+    private async recheckIndexedPayments(currentBlock: number): Promise<number> {
+        const recent = await db.getRecentlyIndexedPayments(
+            currentBlock - INDEXER_CONFIG.REORG_RECHECK_BLOCKS,
+            INDEXER_CONFIG.BATCH_SIZE
+        );
+
+        let reorged = 0;
+        for (const payment of recent) {
+            try {
+                const receipt = await cronos.getTransactionReceipt(payment.tx_hash);
+                const moved = !receipt
+                    || receipt.blockNumber !== Number(payment.block_number)
+                    || (payment.block_hash !== null && receipt.blockHash !== payment.block_hash);
+
+                if (moved) {
+                    await db.resetPaymentBlockNumber(payment.payment_id);
+                    reorged++;
+                }
+            } catch (error) {
+                logger.error('Failed to re-verify payment', error as Error, { paymentId: payment.payment_id });
+            }
+        }
+        return reorged;
+    }
+
     /**
      * Start scheduled indexer.
      */
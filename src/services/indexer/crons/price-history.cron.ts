@@ -0,0 +1,62 @@
+/**
+ * Price History Indexer
+ *
+ * Snapshots aggregated prices for the tracked symbols (PRICE_HISTORY_SYMBOLS)
+ * every minute and rolls them into OHLCV candles; see prices/price-history.ts.
+ */
+
+import schedule from 'node-schedule';
+import logger from '../../../lib/logger.js';
+import { priceHistoryService } from '../../prices/price-history.js';
+
+class PriceHistoryIndexer {
+    private isRunning = false;
+    private cronHandle: schedule.Job | null = null;
+
+    /**
+     * Take one snapshot of every tracked symbol
+     */
+    async run(): Promise<void> {
+        if (this.isRunning) {
+            logger.debug('Price history indexer already running');
+            return;
+        }
+
+        this.isRunning = true;
+        try {
+            const recorded = await priceHistoryService.snapshot();
+            logger.debug('Price history snapshot recorded', { snapshots: recorded });
+        } catch (error) {
+            logger.error('Price history indexer failed', error as Error);
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    /**
+     * Start scheduled indexing
+     */
+    start(): schedule.Job {
+        // Run every minute
+        const cronSchedule = '0 * * * * *';
+        this.cronHandle = schedule.scheduleJob(cronSchedule, async () => {
+            await this.run();
+        });
+        logger.info('Price history indexer scheduled', { cron: cronSchedule });
+
+        return this.cronHandle;
+    }
+
+    /**
+     * Stop scheduled indexer
+     */
+    stop(): void {
+        if (this.cronHandle) {
+            this.cronHandle.cancel();
+            this.cronHandle = null;
+            logger.info('Price history indexer stopped');
+        }
+    }
+}
+
+export const priceHistoryIndexer = new PriceHistoryIndexer();
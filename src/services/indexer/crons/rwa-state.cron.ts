@@ -10,6 +10,7 @@
 import { CronJob } from 'cron';
 import { supabase } from '../../../lib/supabase.js';
 import logger from '../../../lib/logger.js';
+import { outcomeService, OutcomeAlreadyRecordedError } from '../../outcomes/outcome-service.js';
 
 export class RWAStateIndexer {
     private job: CronJob | null = null;
@@ -96,24 +97,29 @@ export class RWAStateIndexer {
                 continue;
             }
 
-            await supabase
-                .from('outcomes')
-                .upsert({
-                    payment_id: transition.payment_hash,
-                    outcome_type: 'success',
-                    latency_ms: 0,
+            // Transitions are re-read every run; the first one recorded wins
+            try {
+                await outcomeService.record({
+                    paymentId: transition.payment_hash,
+                    outcomeType: 'delivered',
+                    latencyMs: 0,
                     evidence: {
                         rwaId: transition.rwa_id,
                         fromState: transition.from_state,
                         toState: transition.to_state,
                         agentAddress: transition.agent_address,
                         agentRole: transition.agent_role,
-                        proof: transition.proof
+                        proof: transition.proof,
+                        transitionedAt: transition.transitioned_at,
+                        source: 'rwaStateTransition'
                     },
-                    created_at: transition.transitioned_at
-                }, {
-                    onConflict: 'payment_id'
+                    observed: true
                 });
+            } catch (error) {
+                if (!(error instanceof OutcomeAlreadyRecordedError)) {
+                    logger.error('Failed to record RWA transition outcome', error as Error, { rwaId: transition.rwa_id });
+                }
+            }
         }
     }
 
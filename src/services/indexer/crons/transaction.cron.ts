@@ -9,6 +9,10 @@
  * - Enriches with gas usage, status, timestamps
  * - Correlates with MCP tool invocations
  * - Updates agent execution records
+ *
+ * Receipts are only accepted once TRANSACTION_INDEXER_CONFIRMATIONS deep.
+ * Confirmations within the last REORG_RECHECK_BLOCKS are re-verified each
+ * run; a transaction whose block was reorged out goes back to 'broadcast'.
  */
 
 import schedule from 'node-schedule';
@@ -41,6 +45,14 @@ class TransactionIndexer {
         try {
             logger.info('Transaction indexer started');
 
+            const currentBlock = await cronos.getCurrentBlockNumber();
+            const confirmedHead = currentBlock - INDEXER_CONFIG.CONFIRMATION_DEPTH.transaction;
+
+            const reorged = await this.recheckConfirmedTransactions(currentBlock);
+            if (reorged > 0) {
+                logger.warn('Transactions moved by chain reorg, re-indexing', { count: reorged });
+            }
+
             // Get transactions that need chain validation
             const pendingTxs = await db.getTransactionsToIndex(INDEXER_CONFIG.BATCH_SIZE);
 
@@ -58,7 +70,7 @@ class TransactionIndexer {
 
             for (const tx of pendingTxs) {
                 try {
-                    const result = await this.processTransaction(tx);
+                    const result = await this.processTransaction(tx, confirmedHead);
                     switch (result) {
                         case 'confirmed': confirmed++; break;
                         case 'failed': failed++; break;
@@ -101,7 +113,7 @@ class TransactionIndexer {
         tool: string;
         session_id: string | null;
         agent_id: string | null;
-    }): Promise<'confirmed' | 'failed' | 'pending' | 'expired'> {
+    }, confirmedHead: number): Promise<'confirmed' | 'failed' | 'pending' | 'expired'> {
 
         // Check if expired
         if (new Date(tx.expires_at) < new Date() && tx.status === 'pending') {
@@ -138,6 +150,11 @@ class TransactionIndexer {
             return 'pending';
         }
 
+        if (receipt.blockNumber > confirmedHead) {
+            // Mined but not yet deep enough to be safe from reorgs
+            return 'pending';
+        }
+
         // Get block for timestamp
         const block = await cronos.getBlock(receipt.blockNumber);
         const timestamp = block ? new Date(block.timestamp * 1000).toISOString() : new Date().toISOString();
@@ -233,6 +250,43 @@ class TransactionIndexer {
         }
     }
 
+    /**
+     * Re-verify recent confirmations against the canonical chain and roll
+     * back those whose transaction is gone or now in a different block.
+     */
+    private async recheckConfirmedTransactions(currentBlock: number): Promise<number> {
+        const recent = await db.getRecentlyConfirmedTransactions(
+            currentBlock - INDEXER_CONFIG.REORG_RECHECK_BLOCKS,
+            INDEXER_CONFIG.BATCH_SIZE
+        );
+
+        let reorged = 0;
+        for (const tx of recent) {
+            try {
+                const receipt = await cronos.getTransactionReceipt(tx.tx_hash);
+                const moved = !receipt
+                    || receipt.blockNumber !== tx.block_number
+                    || (tx.block_hash !== null && receipt.blockHash !== tx.block_hash);
+
+                if (moved) {
+                    await db.rollbackTransactionConfirmation(tx.transaction_id, tx.tx_hash);
+                    await db.insertTransactionStateChange(tx.transaction_id, 'broadcast', {
+                        reason: 'reorg',
+                        previousBlockNumber: tx.block_number,
+                        previousBlockHash: tx.block_hash,
+                        currentBlockNumber: receipt?.blockNumber ?? null
+                    });
+                    reorged++;
+                }
+            } catch (error) {
+                logger.error('Failed to re-verify transaction', error as Error, {
+                    transactionId: tx.transaction_id
+                });
+            }
+        }
+        return reorged;
+    }
+
     /**
      * Process escrow payment release for agent earnings tracking.
      */
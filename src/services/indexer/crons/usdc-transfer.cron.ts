@@ -6,15 +6,31 @@
  *
  * This ensures all x402/EIP-3009 payments appear in the explorer even if they
  * were settled by the Facilitator (which doesn't go through our API).
+ *
+ * Only blocks USDC_INDEXER_CONFIRMATIONS deep are scanned, and transfers
+ * from blocks orphaned by a reorg are removed and re-indexed.
+ *
+ * Logs are processed one by one through event-checkpoint.ts: a failing log
+ * holds the cursor until it is retried or dead-lettered, and dead letters
+ * can be replayed. on_chain_transactions is keyed by tx_hash, so each
+ * transaction is recorded once, by its first relay transfer log.
  */
 
 import schedule from 'node-schedule';
 import { ethers } from 'ethers';
 import logger from '../../../lib/logger.js';
+import { getRpcPool } from '../../../lib/blockchain/provider.js';
 import { INDEXER_CONFIG } from '../config/constants.js';
 import { supabase } from '../../../lib/supabase.js';
+import * as db from '../repository/database.repository.js';
+import { ReorgGuard } from '../reorg-guard.js';
+import { processEventBatch, replayEvent, IndexerReplayError } from '../event-checkpoint.js';
+
+export const USDC_INDEXER_NAME = 'usdc_transfer_indexer';
+const INDEXER_NAME = USDC_INDEXER_NAME;
 
-const INDEXER_NAME = 'usdc_transfer_indexer';
+// Dead letters of both transfer topics are recorded under this event type
+const EVENT_TYPE = 'Transfer';
 
 // USDC contract addresses
 const USDC_ADDRESSES = {
@@ -22,12 +38,6 @@ const USDC_ADDRESSES = {
     mainnet: '0xf951eC28187D9E5Ca673Da8FE6757E6f0Be5F77C'
 };
 
-// RPC URLs
-const RPC_URLS = {
-    testnet: 'https://evm-t3.cronos.org',
-    mainnet: 'https://evm.cronos.org'
-};
-
 // Transfer event signature
 const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
 
@@ -40,14 +50,22 @@ class USDCTransferIndexer {
     private network: 'testnet' | 'mainnet';
     private provider: ethers.JsonRpcProvider;
     private usdcAddress: string;
+    private chainId: number;
     private relayWalletAddress: string;
     private lastIndexedBlock: number = 0;
+    private reorgGuard: ReorgGuard;
 
     constructor() {
         this.network = (process.env.CRONOS_NETWORK === 'cronos-mainnet' ? 'mainnet' : 'testnet');
-        this.provider = new ethers.JsonRpcProvider(RPC_URLS[this.network]);
+        this.chainId = this.network === 'mainnet' ? INDEXER_CONFIG.CHAIN_ID_MAINNET : INDEXER_CONFIG.CHAIN_ID_TESTNET;
+        this.provider = getRpcPool(this.chainId);
         this.usdcAddress = USDC_ADDRESSES[this.network];
         this.relayWalletAddress = process.env.RELAY_WALLET_ADDRESS || process.env.PAYMENT_RECIPIENT_ADDRESS || '';
+        this.reorgGuard = new ReorgGuard(
+            INDEXER_NAME,
+            INDEXER_CONFIG.CONFIRMATION_DEPTH.usdc,
+            async (blockNumber) => (await this.provider.getBlock(blockNumber))?.hash ?? null
+        );
 
         logger.info('USDC Transfer Indexer initialized', {
             network: this.network,
@@ -108,21 +126,29 @@ class USDCTransferIndexer {
         const startTime = Date.now();
 
         try {
-            // Get current block
-            const currentBlock = await this.provider.getBlockNumber();
+            // Remove transfers indexed from blocks that are no longer canonical
+            const reorg = await this.reorgGuard.detect();
+            if (reorg) {
+                const removed = await db.rollbackOnChainTransactions(INDEXER_NAME, reorg.forkBlock);
+                await this.reorgGuard.rewind(reorg);
+                logger.info('Rolled back USDC transfers after reorg', { removed: removed.length, forkBlock: reorg.forkBlock });
+            }
+
+            // Get newest block with enough confirmations
+            const confirmedHead = this.reorgGuard.confirmedHead(await this.provider.getBlockNumber());
 
             // Get last indexed block
             const lastBlock = await this.getLastIndexedBlock();
-            const fromBlock = lastBlock > 0 ? lastBlock + 1 : currentBlock - 1000; // Start from last 1000 blocks if fresh
+            const fromBlock = lastBlock > 0 ? lastBlock + 1 : confirmedHead - 1000; // Start from last 1000 blocks if fresh
 
             // Don't index if already up to date
-            if (fromBlock >= currentBlock) {
-                logger.debug('USDC indexer up to date', { currentBlock });
+            if (fromBlock >= confirmedHead) {
+                logger.debug('USDC indexer up to date', { confirmedHead });
                 return;
             }
 
             // Limit batch size to avoid RPC timeout
-            const toBlock = Math.min(fromBlock + INDEXER_CONFIG.BATCH_SIZE * 10, currentBlock);
+            const toBlock = Math.min(fromBlock + INDEXER_CONFIG.BATCH_SIZE * 10, confirmedHead);
 
             logger.info('Indexing USDC transfers', {
                 fromBlock,
@@ -130,72 +156,31 @@ class USDCTransferIndexer {
                 relayWallet: this.relayWalletAddress
             });
 
-            // Fetch Transfer logs where Relay is sender or recipient
-            const relayAddressPadded = ethers.zeroPadValue(this.relayWalletAddress.toLowerCase(), 32);
-
-            // Transfers FROM Relay (refunds, agent payments)
-            const outgoingLogs = await this.provider.getLogs({
-                address: this.usdcAddress,
-                topics: [TRANSFER_TOPIC, relayAddressPadded, null],
-                fromBlock,
-                toBlock
-            });
-
-            // Transfers TO Relay (session deposits)
-            const incomingLogs = await this.provider.getLogs({
-                address: this.usdcAddress,
-                topics: [TRANSFER_TOPIC, null, relayAddressPadded],
-                fromBlock,
-                toBlock
-            });
-
-            // Also check for TransferWithAuthorization (x402/EIP-3009)
-            const x402OutgoingLogs = await this.provider.getLogs({
-                address: this.usdcAddress,
-                topics: [TRANSFER_WITH_AUTH_TOPIC, relayAddressPadded, null],
-                fromBlock,
-                toBlock
-            });
-
-            const x402IncomingLogs = await this.provider.getLogs({
-                address: this.usdcAddress,
-                topics: [TRANSFER_WITH_AUTH_TOPIC, null, relayAddressPadded],
-                fromBlock,
-                toBlock
-            });
-
-            const allLogs = [...outgoingLogs, ...incomingLogs, ...x402OutgoingLogs, ...x402IncomingLogs];
-
-            logger.info('Found USDC transfer logs', {
-                outgoing: outgoingLogs.length,
-                incoming: incomingLogs.length,
-                x402Outgoing: x402OutgoingLogs.length,
-                x402Incoming: x402IncomingLogs.length,
-                total: allLogs.length
-            });
-
-            // Process each log
-            let indexed = 0;
-            for (const log of allLogs) {
-                try {
+            const batch = await processEventBatch<ethers.Log>({
+                indexerName: INDEXER_NAME,
+                eventType: EVENT_TYPE,
+                chainId: this.chainId,
+                fetch: (from, to) => this.fetchTransferLogs(from, to),
+                handle: async (log) => {
+                    this.reorgGuard.track(log.blockNumber, log.blockHash);
                     await this.processTransferLog(log);
-                    indexed++;
-                } catch (error) {
-                    logger.warn('Failed to process transfer log', {
-                        txHash: log.transactionHash,
-                        error: error instanceof Error ? error.message : 'Unknown'
-                    });
                 }
-            }
+            }, fromBlock, toBlock);
 
-            // Update last indexed block
-            await this.updateLastIndexedBlock(toBlock);
+            // Checkpoint block hashes, then update last indexed block (held
+            // below a log that will be retried)
+            if (batch.cursor >= fromBlock) {
+                await this.reorgGuard.commit(batch.cursor);
+                await this.updateLastIndexedBlock(batch.cursor);
+            }
 
             const duration = Date.now() - startTime;
             logger.info('USDC transfer indexer completed', {
-                indexed,
+                indexed: batch.processed,
+                retrying: batch.retrying,
+                deadLettered: batch.deadLettered,
                 fromBlock,
-                toBlock,
+                toBlock: batch.cursor,
                 durationMs: duration
             });
 
@@ -206,6 +191,96 @@ class USDCTransferIndexer {
         }
     }
 
+    /**
+     * Index USDC transfers to and from the relay wallet in [fromBlock, toBlock].
+     * Does not move the cursor, so it is also used for backfills. Failing
+     * logs go straight to the dead letters.
+     */
+    async indexRange(fromBlock: number, toBlock: number): Promise<{ indexed: number; failed: number }> {
+        if (!this.relayWalletAddress) {
+            throw new Error('RELAY_WALLET_ADDRESS not configured');
+        }
+
+        const batch = await processEventBatch<ethers.Log>({
+            indexerName: INDEXER_NAME,
+            eventType: EVENT_TYPE,
+            chainId: this.chainId,
+            fetch: (from, to) => this.fetchTransferLogs(from, to),
+            handle: (log) => this.processTransferLog(log),
+            maxAttempts: 1
+        }, fromBlock, toBlock);
+
+        return { indexed: batch.processed, failed: batch.deadLettered };
+    }
+
+    /**
+     * Re-run the handler for a single dead-lettered transfer log.
+     */
+    async replay(deadLetter: db.IndexerDeadLetter): Promise<void> {
+        if (deadLetter.eventType !== EVENT_TYPE) {
+            throw new IndexerReplayError(`Unknown USDC event type: ${deadLetter.eventType}`, 'UNSUPPORTED');
+        }
+
+        const receipt = await this.provider.getTransactionReceipt(deadLetter.txHash);
+        const log = receipt?.logs.find(l =>
+            l.index === deadLetter.logIndex &&
+            l.address.toLowerCase() === this.usdcAddress.toLowerCase()
+        ) ?? null;
+
+        await replayEvent<ethers.Log>(deadLetter, log, (l) => this.processTransferLog(l));
+    }
+
+    /**
+     * Transfer and TransferWithAuthorization logs to and from the relay wallet
+     */
+    private async fetchTransferLogs(fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+        // Fetch Transfer logs where Relay is sender or recipient
+        const relayAddressPadded = ethers.zeroPadValue(this.relayWalletAddress.toLowerCase(), 32);
+
+        // Transfers FROM Relay (refunds, agent payments)
+        const outgoingLogs = await this.provider.getLogs({
+            address: this.usdcAddress,
+            topics: [TRANSFER_TOPIC, relayAddressPadded, null],
+            fromBlock,
+            toBlock
+        });
+
+        // Transfers TO Relay (session deposits)
+        const incomingLogs = await this.provider.getLogs({
+            address: this.usdcAddress,
+            topics: [TRANSFER_TOPIC, null, relayAddressPadded],
+            fromBlock,
+            toBlock
+        });
+
+        // Also check for TransferWithAuthorization (x402/EIP-3009)
+        const x402OutgoingLogs = await this.provider.getLogs({
+            address: this.usdcAddress,
+            topics: [TRANSFER_WITH_AUTH_TOPIC, relayAddressPadded, null],
+            fromBlock,
+            toBlock
+        });
+
+        const x402IncomingLogs = await this.provider.getLogs({
+            address: this.usdcAddress,
+            topics: [TRANSFER_WITH_AUTH_TOPIC, null, relayAddressPadded],
+            fromBlock,
+            toBlock
+        });
+
+        const allLogs = [...outgoingLogs, ...incomingLogs, ...x402OutgoingLogs, ...x402IncomingLogs];
+
+        logger.info('Found USDC transfer logs', {
+            outgoing: outgoingLogs.length,
+            incoming: incomingLogs.length,
+            x402Outgoing: x402OutgoingLogs.length,
+            x402Incoming: x402IncomingLogs.length,
+            total: allLogs.length
+        });
+
+        return allLogs;
+    }
+
     /**
      * Process a single Transfer log
      */
@@ -233,20 +308,8 @@ class USDCTransferIndexer {
             type = 'relay_incoming';
         }
 
-        // Check if already exists
-        const { data: existing } = await supabase
-            .from('on_chain_transactions')
-            .select('id')
-            .eq('tx_hash', log.transactionHash)
-            .single();
-
-        if (existing) {
-            logger.debug('Transaction already indexed', { txHash: log.transactionHash });
-            return;
-        }
-
-        // Insert into on_chain_transactions
-        const { error } = await supabase.from('on_chain_transactions').insert({
+        // Logs are re-processed on retries and backfills; keep the first row per transaction
+        const { error } = await supabase.from('on_chain_transactions').upsert({
             tx_hash: log.transactionHash,
             from_address: from.toLowerCase(),
             to_address: to.toLowerCase(),
@@ -264,21 +327,21 @@ class USDCTransferIndexer {
                 network: this.network,
                 indexedBy: INDEXER_NAME
             }
-        });
+        }, { onConflict: 'tx_hash', ignoreDuplicates: true });
 
         if (error) {
-            logger.warn('Failed to insert transaction', { txHash: log.transactionHash, error });
-        } else {
-            logger.debug('Indexed USDC transfer', {
-                txHash: log.transactionHash,
-                type,
-                from,
-                to,
-                amount,
-                isX402
-            });
+            throw new Error(`Failed to insert transaction: ${error.message}`);
         }
 
+        logger.debug('Indexed USDC transfer', {
+            txHash: log.transactionHash,
+            type,
+            from,
+            to,
+            amount,
+            isX402
+        });
+
         // Also update payments table if this matches a pending payment
         if (isFromRelay) {
             await supabase
@@ -0,0 +1,248 @@
+/**
+ * Event Checkpointing
+ *
+ * Per-event processing for log-based indexers.
+ *
+ * - Every log is identified by (chainId, txHash, logIndex) and handlers
+ *   persist it with upserts, so a range can be re-processed safely.
+ * - Each event type keeps its own cursor in indexer_state
+ *   ('<indexer>:<EventName>'); one failing event type does not hold back
+ *   the others.
+ * - A failing event is recorded in indexer_dead_letters and its cursor is
+ *   held just below it so the next run retries it. After MAX_EVENT_ATTEMPTS
+ *   the event is marked dead and the cursor moves past it; dead events can
+ *   be replayed through the observability API.
+ */
+
+import { ethers } from 'ethers';
+import logger from '../../lib/logger.js';
+import { INDEXER_CONFIG } from './config/constants.js';
+import * as db from './repository/database.repository.js';
+
+export const MAX_EVENT_ATTEMPTS = INDEXER_CONFIG.MAX_RETRIES;
+
+/**
+ * Handlers usually take decoded EventLogs; sources that decode logs
+ * themselves (USDC transfers) can work on raw logs instead.
+ */
+export type EventHandler<T extends ethers.Log = ethers.EventLog> = (event: T) => Promise<void>;
+
+export interface CheckpointedEventSource<T extends ethers.Log = ethers.EventLog> {
+    indexerName: string;
+    /** Event type for logs; events fetched together are keyed by their own eventName */
+    eventType: string;
+    chainId: number;
+    fetch: (fromBlock: number, toBlock: number) => Promise<T[]>;
+    handle: EventHandler<T>;
+    /** Attempts before an event is dead; 1 never holds the cursor (backfill) */
+    maxAttempts?: number;
+}
+
+export interface EventBatchResult {
+    /** Block the event-type cursor can advance to */
+    cursor: number;
+    processed: number;
+    /** Events that failed and will be retried on the next run */
+    retrying: number;
+    /** Events that exhausted their attempts in this batch */
+    deadLettered: number;
+}
+
+/**
+ * Where failing events are tracked (the repository layer by default)
+ */
+export interface DeadLetterStore {
+    /** Keys ('<txHash>:<logIndex>') of unresolved dead letters */
+    getOpenDeadLetterKeys(indexerName: string, eventType: string): Promise<Set<string>>;
+    recordIndexerFailure(failure: db.IndexerFailure): Promise<db.IndexerDeadLetter>;
+    resolveIndexerDeadLetter(key: db.IndexerEventKey, status: 'replayed' | 'resolved'): Promise<void>;
+}
+
+export class IndexerReplayError extends Error {
+    constructor(
+        message: string,
+        public code: 'NOT_FOUND' | 'ALREADY_RESOLVED' | 'UNSUPPORTED' | 'EVENT_NOT_FOUND' | 'HANDLER_FAILED'
+    ) {
+        super(message);
+        this.name = 'IndexerReplayError';
+    }
+}
+
+/**
+ * indexer_state key of an event-type cursor.
+ */
+export function eventCursorName(indexerName: string, eventType: string): string {
+    return `${indexerName}:${eventType}`;
+}
+
+/**
+ * Decoded event arguments as JSON, for dead letter payloads.
+ */
+export function serializeEventArgs(event: ethers.EventLog): Record<string, unknown> {
+    const args: Record<string, unknown> = {};
+    event.fragment.inputs.forEach((input, i) => {
+        const value = event.args[i];
+        args[input.name || String(i)] = typeof value === 'bigint' ? value.toString() : value;
+    });
+    return args;
+}
+
+/**
+ * Process one event type over [fromBlock, toBlock] in log order.
+ * Fetch errors propagate; the caller leaves the cursor where it was.
+ */
+export async function processEventBatch<T extends ethers.Log = ethers.EventLog>(
+    source: CheckpointedEventSource<T>,
+    fromBlock: number,
+    toBlock: number,
+    deadLetters: DeadLetterStore = db
+): Promise<EventBatchResult> {
+    const events = await source.fetch(fromBlock, toBlock);
+    events.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    // A source can merge several event types so dependent events run in log order
+    const eventTypeOf = (event: T) => (event instanceof ethers.EventLog && event.eventName) || source.eventType;
+    const eventTypes = [...new Set(events.map(eventTypeOf))];
+    const openDeadLetters = new Set(
+        (await Promise.all(eventTypes.map(type => deadLetters.getOpenDeadLetterKeys(source.indexerName, type))))
+            .flatMap(keys => [...keys])
+    );
+
+    const result: EventBatchResult = { cursor: toBlock, processed: 0, retrying: 0, deadLettered: 0 };
+
+    for (const event of events) {
+        const key = { chainId: source.chainId, txHash: event.transactionHash, logIndex: event.index };
+
+        try {
+            await source.handle(event);
+            result.processed++;
+
+            if (openDeadLetters.has(`${key.txHash}:${key.logIndex}`)) {
+                await deadLetters.resolveIndexerDeadLetter(key, 'resolved');
+            }
+        } catch (error) {
+            const deadLetter = await deadLetters.recordIndexerFailure({
+                indexerName: source.indexerName,
+                eventType: eventTypeOf(event),
+                ...key,
+                blockNumber: event.blockNumber,
+                payload: event instanceof ethers.EventLog
+                    ? serializeEventArgs(event)
+                    : { topics: [...event.topics], data: event.data },
+                error: (error as Error).message,
+                maxAttempts: source.maxAttempts ?? MAX_EVENT_ATTEMPTS
+            });
+
+            if (deadLetter.status === 'retrying') {
+                logger.warn('Indexer event failed, will retry', {
+                    indexer: source.indexerName,
+                    eventType: eventTypeOf(event),
+                    ...key,
+                    attempts: deadLetter.attempts,
+                    error: deadLetter.lastError
+                });
+                // Everything before this block is done; retry from its block
+                result.cursor = event.blockNumber - 1;
+                result.retrying++;
+                break;
+            }
+
+            logger.error('Indexer event dead-lettered', error as Error, {
+                indexer: source.indexerName,
+                eventType: eventTypeOf(event),
+                deadLetterId: deadLetter.id,
+                ...key,
+                attempts: deadLetter.attempts
+            });
+            result.deadLettered++;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Re-run the handler for a single dead-lettered event and mark it replayed.
+ * `event` is the log looked up again on chain.
+ */
+export async function replayEvent<T extends ethers.Log = ethers.EventLog>(
+    deadLetter: db.IndexerDeadLetter,
+    event: T | null,
+    handle: EventHandler<T>,
+    deadLetters: DeadLetterStore = db
+): Promise<void> {
+    if (!event || (event instanceof ethers.EventLog && event.eventName !== deadLetter.eventType)) {
+        throw new IndexerReplayError('Event log not found on chain', 'EVENT_NOT_FOUND');
+    }
+
+    const key = { chainId: deadLetter.chainId, txHash: deadLetter.txHash, logIndex: deadLetter.logIndex };
+    try {
+        await handle(event);
+    } catch (error) {
+        await deadLetters.recordIndexerFailure({
+            indexerName: deadLetter.indexerName,
+            eventType: deadLetter.eventType,
+            ...key,
+            blockNumber: deadLetter.blockNumber,
+            error: (error as Error).message,
+            // Replays never move it back to retrying
+            maxAttempts: 1
+        });
+        throw new IndexerReplayError((error as Error).message, 'HANDLER_FAILED');
+    }
+
+    await deadLetters.resolveIndexerDeadLetter(key, 'replayed');
+    logger.info('Replayed indexer event', { indexer: deadLetter.indexerName, ...key, eventType: deadLetter.eventType });
+}
+
+/**
+ * Process-local dead letter store for tests, with the attempt counting of
+ * record_indexer_failure
+ */
+export class InMemoryDeadLetterStore implements DeadLetterStore {
+    private deadLetters = new Map<string, db.IndexerDeadLetter>();
+
+    get(key: db.IndexerEventKey): db.IndexerDeadLetter | undefined {
+        return this.deadLetters.get(`${key.chainId}:${key.txHash}:${key.logIndex}`);
+    }
+
+    async getOpenDeadLetterKeys(indexerName: string, eventType: string): Promise<Set<string>> {
+        return new Set([...this.deadLetters.values()]
+            .filter(d => d.indexerName === indexerName && d.eventType === eventType)
+            .filter(d => d.status === 'retrying' || d.status === 'dead')
+            .map(d => `${d.txHash}:${d.logIndex}`));
+    }
+
+    async recordIndexerFailure(failure: db.IndexerFailure): Promise<db.IndexerDeadLetter> {
+        const now = new Date().toISOString();
+        const existing = this.get(failure);
+        const attempts = (existing?.attempts ?? 0) + 1;
+
+        const deadLetter: db.IndexerDeadLetter = {
+            id: existing?.id ?? this.deadLetters.size + 1,
+            indexerName: failure.indexerName,
+            eventType: failure.eventType,
+            chainId: failure.chainId,
+            txHash: failure.txHash,
+            logIndex: failure.logIndex,
+            blockNumber: failure.blockNumber,
+            payload: failure.payload ?? existing?.payload ?? null,
+            lastError: failure.error,
+            attempts,
+            status: attempts >= failure.maxAttempts ? 'dead' : 'retrying',
+            firstFailedAt: existing?.firstFailedAt ?? now,
+            lastFailedAt: now,
+            resolvedAt: null
+        };
+        this.deadLetters.set(`${failure.chainId}:${failure.txHash}:${failure.logIndex}`, deadLetter);
+        return { ...deadLetter };
+    }
+
+    async resolveIndexerDeadLetter(key: db.IndexerEventKey, status: 'replayed' | 'resolved'): Promise<void> {
+        const deadLetter = this.get(key);
+        if (deadLetter && (deadLetter.status === 'retrying' || deadLetter.status === 'dead')) {
+            deadLetter.status = status;
+            deadLetter.resolvedAt = new Date().toISOString();
+        }
+    }
+}
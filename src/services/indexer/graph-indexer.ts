@@ -4,6 +4,7 @@
 
 import logger from '../../lib/logger.js';
 import { supabase } from '../../lib/supabase.js';
+import { workflowFromPath, type WorkflowDefinition } from '../../sdk/lib/workflow-dag.js';
 
 export interface ServiceNode {
     id: string;
@@ -138,7 +139,11 @@ export const graphIndexer = {
         return this.getServiceGraph();
     },
 
-    async suggestWorkflows(startInputType: string, endOutputType: string, maxSteps: number): Promise<unknown[]> {
+    /**
+     * Linear workflows from services accepting startInputType to services
+     * producing endOutputType, in the format RelayAgent.executeWorkflow runs
+     */
+    async suggestWorkflows(startInputType: string, endOutputType: string, maxSteps: number): Promise<WorkflowDefinition[]> {
         logger.info('Suggesting workflows', { startInputType, endOutputType, maxSteps });
 
         // Find services that accept startInputType
@@ -156,15 +161,33 @@ export const graphIndexer = {
         if (!startServices || !endServices) return [];
 
         // Find paths between start and end services
-        const workflows: unknown[] = [];
+        const paths: string[][] = [];
         for (const start of startServices) {
             for (const end of endServices) {
-                const paths = await this.findServicePath(start.service_id, end.service_id, maxSteps);
-                workflows.push(...paths.map(path => ({ path, steps: path.length })));
+                paths.push(...await this.findServicePath(start.service_id, end.service_id, maxSteps));
             }
         }
 
-        return workflows;
+        if (paths.length === 0) return [];
+
+        const ids = [...new Set(paths.flat())];
+        const [{ data: services }, { data: schemas }] = await Promise.all([
+            supabase.from('services').select('id, name').in('id', ids),
+            supabase.from('service_schemas').select('service_id, input_type, output_type').in('service_id', ids),
+        ]);
+
+        const names = new Map((services || []).map(s => [s.id, s.name as string]));
+        const types = new Map((schemas || []).map(s => [s.service_id, s]));
+
+        return paths.map(path => workflowFromPath(
+            path.map(id => ({
+                id,
+                name: names.get(id),
+                inputType: types.get(id)?.input_type ?? undefined,
+                outputType: types.get(id)?.output_type ?? undefined,
+            })),
+            `${startInputType} to ${endOutputType}`
+        ));
     },
 
     async indexServiceRelationships(): Promise<void> {
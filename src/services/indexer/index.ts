@@ -15,13 +15,17 @@
 
 import logger from '../../lib/logger.js';
 import { transactionIndexer } from './crons/transaction.cron.js';
-import { escrowSessionIndexer } from './crons/escrow.cron.js';
+import { escrowSessionIndexer, ESCROW_INDEXER_NAME } from './crons/escrow.cron.js';
 import { paymentIndexer } from './crons/payment.cron.js';
-import { agentIndexer } from './crons/agent.cron.js';
-import { feedbackIndexer } from './crons/feedback.cron.js';
+import { agentIndexer, AGENT_INDEXER_NAME } from './crons/agent.cron.js';
+import { feedbackIndexer, FEEDBACK_INDEXER_NAME } from './crons/feedback.cron.js';
 import { reputationCalculator } from './crons/reputation.cron.js';
 import { rwaStateIndexer } from './crons/rwa-state.cron.js';
-import { usdcTransferIndexer } from './crons/usdc-transfer.cron.js';
+import { usdcTransferIndexer, USDC_INDEXER_NAME } from './crons/usdc-transfer.cron.js';
+import { priceHistoryIndexer } from './crons/price-history.cron.js';
+import { paymentHoldExpiry } from './crons/payment-hold.cron.js';
+import { IndexerReplayError } from './event-checkpoint.js';
+import * as db from './repository/database.repository.js';
 
 // Track cron handles for cleanup
 const cronHandles: { cancel: () => void }[] = [];
@@ -57,6 +61,12 @@ export function startIndexers() {
         usdcTransferIndexer.start();
         logger.info('✓ USDC Transfer Indexer started (every 30 sec)');
 
+        priceHistoryIndexer.start();
+        logger.info('✓ Price History Indexer started (every 1 min)');
+
+        paymentHoldExpiry.start();
+        logger.info('✓ Payment Hold Expiry started (every 1 min)');
+
         logger.info('All indexers started successfully');
     } catch (error) {
         logger.error('Failed to start indexers', error as Error);
@@ -78,6 +88,8 @@ export async function stopIndexers(): Promise<void> {
     reputationCalculator.stop();
     rwaStateIndexer.stop();
     usdcTransferIndexer.stop();
+    priceHistoryIndexer.stop();
+    paymentHoldExpiry.stop();
 
     for (const handle of cronHandles) {
         handle.cancel();
@@ -118,11 +130,24 @@ export async function runIndexer(name: string): Promise<void> {
         case 'rwa-state':
             await rwaStateIndexer.run();
             break;
+        case 'prices':
+        case 'price-history':
+            await priceHistoryIndexer.run();
+            break;
+        case 'holds':
+        case 'payment-hold':
+            await paymentHoldExpiry.run();
+            break;
         default:
             throw new Error(`Unknown indexer: ${name}`);
     }
 }
 
+/**
+ * Re-index an explicit block range; see backfill.ts.
+ */
+export { runBackfill, startBackfill, getBackfillJob } from './backfill.js';
+
 /**
  * Run all indexers once (for testing or manual execution).
  */
@@ -137,6 +162,38 @@ export async function runAllIndexers(): Promise<void> {
     logger.info('All indexers completed');
 }
 
+/**
+ * Replay a dead-lettered event through its indexer.
+ */
+export async function replayDeadLetter(id: number): Promise<db.IndexerDeadLetter> {
+    const deadLetter = await db.getIndexerDeadLetter(id);
+    if (!deadLetter) {
+        throw new IndexerReplayError(`Dead letter not found: ${id}`, 'NOT_FOUND');
+    }
+    if (deadLetter.status === 'replayed' || deadLetter.status === 'resolved') {
+        throw new IndexerReplayError(`Dead letter already ${deadLetter.status}`, 'ALREADY_RESOLVED');
+    }
+
+    switch (deadLetter.indexerName) {
+        case ESCROW_INDEXER_NAME:
+            await escrowSessionIndexer.replay(deadLetter);
+            break;
+        case AGENT_INDEXER_NAME:
+            await agentIndexer.replay(deadLetter);
+            break;
+        case FEEDBACK_INDEXER_NAME:
+            await feedbackIndexer.replay(deadLetter);
+            break;
+        case USDC_INDEXER_NAME:
+            await usdcTransferIndexer.replay(deadLetter);
+            break;
+        default:
+            throw new IndexerReplayError(`Replay not supported for indexer: ${deadLetter.indexerName}`, 'UNSUPPORTED');
+    }
+
+    return (await db.getIndexerDeadLetter(id)) ?? deadLetter;
+}
+
 export {
     transactionIndexer,
     escrowSessionIndexer,
@@ -145,7 +202,9 @@ export {
     feedbackIndexer,
     reputationCalculator,
     rwaStateIndexer,
-    usdcTransferIndexer
+    usdcTransferIndexer,
+    priceHistoryIndexer,
+    paymentHoldExpiry
 };
 
 if (typeof process !== 'undefined' && process.on) {
@@ -0,0 +1,199 @@
+/**
+ * Reorg Guard
+ *
+ * Chain reorganization protection for block-range indexers.
+ *
+ * - Confirmation depth: an indexer only reads blocks that are at least
+ *   `confirmations` deep, so shallow reorgs never reach the database.
+ * - Block hash checkpoints: after each run the indexer records the hash of
+ *   every block it indexed events from plus the end of the range, keeping
+ *   the newest REORG_HASH_WINDOW per indexer.
+ * - Detection: before each run the newest checkpoint is compared with the
+ *   canonical chain. Block hashes commit to their ancestors, so a match
+ *   means nothing below it changed; on a mismatch the guard walks back to
+ *   the newest checkpoint that still matches.
+ *
+ * Rolling back indexed data is indexer-specific and goes through the
+ * repository layer; the guard rewinds the checkpoints and indexer state.
+ */
+
+import logger from '../../lib/logger.js';
+import { INDEXER_CONFIG } from './config/constants.js';
+import * as cronos from './repository/cronos.repository.js';
+import * as db from './repository/database.repository.js';
+
+export type BlockHashFetcher = (blockNumber: number) => Promise<string | null>;
+
+export interface BlockCheckpoint {
+    blockNumber: number;
+    blockHash: string;
+}
+
+/**
+ * Where checkpoints and indexer cursors are kept (the repository layer by default)
+ */
+export interface CheckpointStore {
+    /** Newest checkpoints first */
+    getIndexedBlockHashes(indexerName: string, limit: number): Promise<BlockCheckpoint[]>;
+    recordIndexedBlockHashes(indexerName: string, blocks: BlockCheckpoint[], window: number): Promise<void>;
+    /** Drop checkpoints at or above fromBlock */
+    deleteIndexedBlockHashes(indexerName: string, fromBlock: number): Promise<void>;
+    /** Lower the indexer's cursors to lastBlock */
+    rewindIndexerState(indexerName: string, lastBlock: number): Promise<void>;
+}
+
+export interface ReorgDetection {
+    /** First block whose indexed data must be rolled back */
+    forkBlock: number;
+    /** Newest checkpoint that no longer matches the chain */
+    staleBlock: number;
+    /** True when no checkpoint in the window matched */
+    exceedsWindow: boolean;
+}
+
+const fetchCronosBlockHash: BlockHashFetcher = async (blockNumber) => {
+    const block = await cronos.getBlock(blockNumber);
+    return block?.hash ?? null;
+};
+
+export class ReorgGuard {
+    private pending = new Map<number, string>();
+
+    constructor(
+        private indexerName: string,
+        readonly confirmations: number,
+        private fetchBlockHash: BlockHashFetcher = fetchCronosBlockHash,
+        private window: number = INDEXER_CONFIG.REORG_HASH_WINDOW,
+        private store: CheckpointStore = db
+    ) { }
+
+    /**
+     * Newest block that is deep enough to index.
+     */
+    confirmedHead(currentBlock: number): number {
+        return currentBlock - this.confirmations;
+    }
+
+    /**
+     * Compare stored checkpoints with the canonical chain.
+     * Returns null when the indexed history is still canonical.
+     */
+    async detect(): Promise<ReorgDetection | null> {
+        const checkpoints = await this.store.getIndexedBlockHashes(this.indexerName, this.window);
+        if (checkpoints.length === 0) {
+            return null;
+        }
+
+        for (let i = 0; i < checkpoints.length; i++) {
+            const checkpoint = checkpoints[i];
+            const canonicalHash = await this.fetchBlockHash(checkpoint.blockNumber);
+
+            if (canonicalHash === checkpoint.blockHash) {
+                return i === 0 ? null : {
+                    forkBlock: checkpoint.blockNumber + 1,
+                    staleBlock: checkpoints[0].blockNumber,
+                    exceedsWindow: false
+                };
+            }
+        }
+
+        const oldest = checkpoints[checkpoints.length - 1];
+        return {
+            forkBlock: oldest.blockNumber,
+            staleBlock: checkpoints[0].blockNumber,
+            exceedsWindow: true
+        };
+    }
+
+    /**
+     * Queue a block hash to be checkpointed by commit().
+     */
+    track(blockNumber: number, blockHash: string | null | undefined): void {
+        if (blockHash) {
+            this.pending.set(blockNumber, blockHash);
+        }
+    }
+
+    /**
+     * Checkpoint the tracked blocks plus the end of the indexed range.
+     */
+    async commit(toBlock: number): Promise<void> {
+        if (!this.pending.has(toBlock)) {
+            this.track(toBlock, await this.fetchBlockHash(toBlock));
+        }
+
+        const blocks = [...this.pending.entries()].map(([blockNumber, blockHash]) => ({ blockNumber, blockHash }));
+        this.pending.clear();
+        await this.store.recordIndexedBlockHashes(this.indexerName, blocks, this.window);
+    }
+
+    /**
+     * Drop checkpoints from the fork onwards and move the indexer cursors
+     * back so the affected blocks are indexed again.
+     */
+    async rewind(detection: ReorgDetection): Promise<void> {
+        this.pending.clear();
+        await this.store.deleteIndexedBlockHashes(this.indexerName, detection.forkBlock);
+        await this.store.rewindIndexerState(this.indexerName, detection.forkBlock - 1);
+
+        const meta = {
+            indexer: this.indexerName,
+            forkBlock: detection.forkBlock,
+            staleBlock: detection.staleBlock
+        };
+        if (detection.exceedsWindow) {
+            // Blocks below the window cannot be verified any more
+            logger.error('Chain reorg deeper than the block hash window', undefined, meta);
+        } else {
+            logger.warn('Chain reorg detected, re-indexing', meta);
+        }
+    }
+}
+
+/**
+ * Process-local checkpoint store for tests
+ */
+export class InMemoryCheckpointStore implements CheckpointStore {
+    private checkpoints = new Map<string, Map<number, string>>();
+    private cursors = new Map<string, number>();
+
+    setCursor(name: string, lastBlock: number): void {
+        this.cursors.set(name, lastBlock);
+    }
+
+    getCursor(name: string): number | undefined {
+        return this.cursors.get(name);
+    }
+
+    async getIndexedBlockHashes(indexerName: string, limit: number): Promise<BlockCheckpoint[]> {
+        return [...(this.checkpoints.get(indexerName) ?? new Map<number, string>()).entries()]
+            .map(([blockNumber, blockHash]) => ({ blockNumber, blockHash }))
+            .sort((a, b) => b.blockNumber - a.blockNumber)
+            .slice(0, limit);
+    }
+
+    async recordIndexedBlockHashes(indexerName: string, blocks: BlockCheckpoint[], window: number): Promise<void> {
+        const stored = this.checkpoints.get(indexerName) ?? new Map<number, string>();
+        blocks.forEach(block => stored.set(block.blockNumber, block.blockHash));
+
+        [...stored.keys()].sort((a, b) => b - a).slice(window).forEach(blockNumber => stored.delete(blockNumber));
+        this.checkpoints.set(indexerName, stored);
+    }
+
+    async deleteIndexedBlockHashes(indexerName: string, fromBlock: number): Promise<void> {
+        const stored = this.checkpoints.get(indexerName);
+        if (!stored) return;
+
+        for (const blockNumber of [...stored.keys()]) {
+            if (blockNumber >= fromBlock) stored.delete(blockNumber);
+        }
+    }
+
+    async rewindIndexerState(indexerName: string, lastBlock: number): Promise<void> {
+        for (const [name, block] of this.cursors) {
+            if ((name === indexerName || name.startsWith(`${indexerName}:`)) && block > lastBlock) {
+                this.cursors.set(name, lastBlock);
+            }
+        }
+    }
+}
@@ -4,20 +4,33 @@
 
 import { ethers } from 'ethers';
 import logger from '../../../lib/logger.js';
+import { getRpcPool } from '../../../lib/blockchain/provider.js';
 import { INDEXER_CONFIG, CONTRACT_ABIS } from '../config/constants.js';
 
 let provider: ethers.JsonRpcProvider | null = null;
+let chainId: number | null = null;
 
 /**
- * Get or create the Cronos RPC provider.
+ * Get the shared Cronos testnet provider pool.
  */
 export function getProvider(): ethers.JsonRpcProvider {
     if (!provider) {
-        provider = new ethers.JsonRpcProvider(INDEXER_CONFIG.CRONOS_TESTNET_RPC);
+        provider = getRpcPool(INDEXER_CONFIG.CHAIN_ID_TESTNET);
     }
     return provider;
 }
 
+/**
+ * Chain id of the connected network (cached after the first call).
+ */
+export async function getChainId(): Promise<number> {
+    if (chainId === null) {
+        const network = await getProvider().getNetwork();
+        chainId = Number(network.chainId);
+    }
+    return chainId;
+}
+
 /**
  * Fetch the current block number.
  */
@@ -93,6 +106,35 @@ export async function queryContractEvents(
     }
 }
 
+/**
+ * Fetch and decode a single contract event log (dead letter replays).
+ */
+export async function getContractEventLog(
+    contractAddress: string,
+    abi: ethers.InterfaceAbi,
+    txHash: string,
+    logIndex: number,
+    provider: ethers.Provider = getProvider()
+): Promise<ethers.EventLog | null> {
+    try {
+        const receipt = await provider.getTransactionReceipt(txHash);
+        const log = receipt?.logs.find(l =>
+            l.index === logIndex &&
+            l.address.toLowerCase() === contractAddress.toLowerCase()
+        );
+        if (!log) {
+            return null;
+        }
+
+        const iface = new ethers.Interface(abi);
+        const fragment = iface.getEvent(log.topics[0]);
+        return fragment ? new ethers.EventLog(log, iface, fragment) : null;
+    } catch (error) {
+        logger.error('Failed to fetch event log', error as Error, { contractAddress, txHash, logIndex });
+        throw error;
+    }
+}
+
 /**
  * Query IdentityRegistry events.
  */
@@ -235,6 +277,13 @@ export async function queryEscrowEvents(
     }
 }
 
+/**
+ * Fetch and decode a single EscrowSession log by transaction hash and log index.
+ */
+export async function getEscrowEventLog(txHash: string, logIndex: number): Promise<ethers.EventLog | null> {
+    return getContractEventLog(INDEXER_CONFIG.ESCROW_CONTRACT, ESCROW_ABI, txHash, logIndex);
+}
+
 /**
  * Get escrow session details from contract.
  */
@@ -85,12 +85,13 @@ export async function getUnindexedPayments(limit: number = 100): Promise<Array<{
 
 export async function updatePaymentBlockNumber(
     paymentId: string,
-    blockNumber: number
+    blockNumber: number,
+    blockHash?: string
 ): Promise<void> {
     try {
         const { error } = await supabase
             .from('payments')
-            .update({ block_number: blockNumber })
+            .update({ block_number: blockNumber, block_hash: blockHash ?? null })
             .eq('payment_id', paymentId);
 
         if (error) {
@@ -195,35 +196,58 @@ export async function upsertReputation(reputation: {
     }
 }
 
+/**
+ * Upsert a feedback event keyed by (chainId, txHash, logIndex).
+ */
 export async function insertFeedbackEvent(feedback: {
     subjectAddress: string;
     submitterAddress: string;
     tag: string;
     score: number;
     comment: string;
+    chainId: number;
     txHash: string;
+    logIndex: number;
     blockNumber: number;
     timestamp: string;
 }): Promise<void> {
     try {
+        // Rows indexed before the event key existed are adopted instead of duplicated
+        const { error: adoptError } = await supabase
+            .from('feedback_events')
+            .update({ chain_id: feedback.chainId, log_index: feedback.logIndex })
+            .eq('tx_hash', feedback.txHash)
+            .eq('submitter_address', feedback.submitterAddress)
+            .eq('tag', feedback.tag)
+            .is('log_index', null);
+
+        if (adoptError) {
+            throw new Error(adoptError.message);
+        }
+
         const { error } = await supabase
             .from('feedback_events')
-            .insert({
+            .upsert({
                 subject_address: feedback.subjectAddress,
                 submitter_address: feedback.submitterAddress,
                 tag: feedback.tag,
                 score: feedback.score,
                 comment: feedback.comment,
+                chain_id: feedback.chainId,
                 tx_hash: feedback.txHash,
+                log_index: feedback.logIndex,
                 block_number: feedback.blockNumber,
                 created_at: feedback.timestamp
-            });
+            }, { onConflict: 'chain_id,tx_hash,log_index' });
 
-        if (error && error.code !== '23505') {
+        if (error) {
             throw new Error(error.message);
         }
     } catch (error) {
-        logger.error('Failed to insert feedback event', error as Error, { txHash: feedback.txHash });
+        logger.error('Failed to insert feedback event', error as Error, {
+            txHash: feedback.txHash,
+            logIndex: feedback.logIndex
+        });
         throw error;
     }
 }
@@ -332,6 +356,7 @@ export async function getAllAgentAddresses(): Promise<string[]> {
 
 /**
  * Insert a new escrow session.
+ * Totals are left to refreshSessionTotals, so a replay never resets them.
  */
 export async function insertEscrowSession(session: {
     sessionId: string;
@@ -339,12 +364,11 @@ export async function insertEscrowSession(session: {
     escrowAgent: string;
     maxSpend: string;
     expiry: string;
-    deposited: string;
-    released: string;
     isActive: boolean;
     createdAt: string;
     createdTxHash: string;
     createdBlock: number;
+    indexedBy?: string;
 }): Promise<void> {
     try {
         const { error } = await supabase
@@ -355,12 +379,11 @@ export async function insertEscrowSession(session: {
                 escrow_agent: session.escrowAgent,
                 max_spend: session.maxSpend,
                 expiry: session.expiry,
-                deposited: session.deposited,
-                released: session.released,
                 is_active: session.isActive,
                 created_at: session.createdAt,
                 created_tx_hash: session.createdTxHash,
                 created_block: session.createdBlock,
+                indexed_by: session.indexedBy ?? null,
                 updated_at: new Date().toISOString()
             }, { onConflict: 'session_id' });
 
@@ -374,108 +397,65 @@ export async function insertEscrowSession(session: {
 }
 
 /**
- * Insert a session event for audit trail.
+ * Upsert a session event keyed by (chainId, txHash, logIndex).
  */
-export async function insertSessionEvent(event: {
+export async function upsertSessionEvent(event: {
     sessionId: string;
     eventType: 'DEPOSIT' | 'RELEASE' | 'REFUND' | 'CLOSE' | 'AUTHORIZE' | 'REVOKE';
     actor?: string;
     amount?: string;
     executionId?: string;
     timestamp: string;
+    chainId: number;
     txHash: string;
+    logIndex: number;
     blockNumber: number;
+    blockHash?: string;
 }): Promise<void> {
     try {
         const { error } = await supabase
             .from('escrow_session_events')
-            .insert({
+            .upsert({
                 session_id: event.sessionId,
                 event_type: event.eventType,
                 actor_address: event.actor,
                 amount: event.amount,
                 execution_id: event.executionId,
+                chain_id: event.chainId,
                 tx_hash: event.txHash,
+                log_index: event.logIndex,
                 block_number: event.blockNumber,
+                block_hash: event.blockHash,
                 created_at: event.timestamp
-            });
-
-        if (error && error.code !== '23505') { // Ignore duplicate key
-            throw new Error(error.message);
-        }
-    } catch (error) {
-        logger.error('Failed to insert session event', error as Error, { txHash: event.txHash });
-        throw error;
-    }
-}
-
-/**
- * Increment session deposited amount.
- */
-export async function incrementSessionDeposited(sessionId: string, amount: string): Promise<void> {
-    try {
-        // First get current value
-        const { data, error: fetchError } = await supabase
-            .from('escrow_sessions')
-            .select('deposited')
-            .eq('session_id', sessionId)
-            .single();
-
-        if (fetchError) {
-            throw new Error(fetchError.message);
-        }
-
-        const currentDeposited = BigInt(data?.deposited || '0');
-        const newDeposited = (currentDeposited + BigInt(amount)).toString();
-
-        const { error } = await supabase
-            .from('escrow_sessions')
-            .update({
-                deposited: newDeposited,
-                updated_at: new Date().toISOString()
-            })
-            .eq('session_id', sessionId);
+            }, { onConflict: 'chain_id,tx_hash,log_index' });
 
         if (error) {
             throw new Error(error.message);
         }
     } catch (error) {
-        logger.error('Failed to increment session deposited', error as Error, { sessionId });
+        logger.error('Failed to upsert session event', error as Error, {
+            txHash: event.txHash,
+            logIndex: event.logIndex
+        });
         throw error;
     }
 }
 
 /**
- * Increment session released amount.
+ * Recompute session on-chain deposited/released from its indexed events.
+ * A changed deposit or a close also bumps ledger_version.
  */
-export async function incrementSessionReleased(sessionId: string, amount: string): Promise<void> {
+export async function refreshSessionTotals(sessionId: string): Promise<void> {
     try {
-        const { data, error: fetchError } = await supabase
-            .from('escrow_sessions')
-            .select('released')
-            .eq('session_id', sessionId)
-            .single();
-
-        if (fetchError) {
-            throw new Error(fetchError.message);
-        }
-
-        const currentReleased = BigInt(data?.released || '0');
-        const newReleased = (currentReleased + BigInt(amount)).toString();
-
-        const { error } = await supabase
-            .from('escrow_sessions')
-            .update({
-                released: newReleased,
-                updated_at: new Date().toISOString()
-            })
-            .eq('session_id', sessionId);
+        const { error } = await supabase.rpc('refresh_escrow_session_totals', {
+            p_session_id: sessionId
+        });
 
         if (error) {
             throw new Error(error.message);
         }
     } catch (error) {
-        logger.error('Failed to increment session released', error as Error, { sessionId });
+        logger.error('Failed to refresh session totals', error as Error, { sessionId });
         throw error;
     }
 }
@@ -575,34 +555,20 @@ export async function updateSessionAgentRevoked(
 }
 
 /**
- * Increment agent earnings from payments.
+ * Recompute agent earnings from indexed PaymentReleased events.
  */
-export async function incrementAgentEarnings(agentAddress: string, amount: string): Promise<void> {
+export async function refreshAgentEarnings(agentAddress: string): Promise<void> {
     try {
-        // Get or create agent earnings record
-        const { data: existing } = await supabase
-            .from('agent_earnings')
-            .select('total_earned')
-            .eq('agent_address', agentAddress)
-            .single();
-
-        const currentEarned = BigInt(existing?.total_earned || '0');
-        const newEarned = (currentEarned + BigInt(amount)).toString();
-
-        const { error } = await supabase
-            .from('agent_earnings')
-            .upsert({
-                agent_address: agentAddress,
-                total_earned: newEarned,
-                updated_at: new Date().toISOString()
-            }, { onConflict: 'agent_address' });
+        const { error } = await supabase.rpc('refresh_agent_earnings', {
+            p_agent_address: agentAddress
+        });
 
         if (error) {
             throw new Error(error.message);
         }
     } catch (error) {
-        logger.error('Failed to increment agent earnings', error as Error, { agentAddress });
-        // Don't throw - this is supplementary data
+        logger.error('Failed to refresh agent earnings', error as Error, { agentAddress });
+        throw error;
     }
 }
 
@@ -621,7 +587,7 @@ export async function getActiveSessionsForOwner(ownerAddress: string): Promise<A
     try {
         const { data, error } = await supabase
             .from('escrow_sessions')
-            .select('session_id, escrow_agent, max_spend, deposited, released, expiry, created_at')
+            .select('session_id, escrow_agent, max_spend, onchain_deposited, onchain_released, expiry, created_at')
             .eq('owner_address', ownerAddress)
             .eq('is_active', true)
             .order('created_at', { ascending: false });
@@ -634,8 +600,8 @@ export async function getActiveSessionsForOwner(ownerAddress: string): Promise<A
             sessionId: s.session_id,
             escrowAgent: s.escrow_agent,
             maxSpend: s.max_spend,
-            deposited: s.deposited,
-            released: s.released,
+            deposited: s.onchain_deposited,
+            released: s.onchain_released,
             expiry: s.expiry,
             createdAt: s.created_at
         }));
@@ -681,6 +647,493 @@ export async function getSessionEvents(sessionId: string): Promise<Array<{
     }
 }
 
+// ============================================
+// REORG HANDLING
+// ============================================
+
+/**
+ * Get the newest indexed block hashes for an indexer (newest first).
+ */
+export async function getIndexedBlockHashes(indexerName: string, limit: number): Promise<Array<{
+    blockNumber: number;
+    blockHash: string;
+}>> {
+    try {
+        const { data, error } = await supabase
+            .from('indexer_block_hashes')
+            .select('block_number, block_hash')
+            .eq('indexer_name', indexerName)
+            .order('block_number', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        return (data || []).map(row => ({ blockNumber: Number(row.block_number), blockHash: row.block_hash }));
+    } catch (error) {
+        logger.error('Failed to get indexed block hashes', error as Error, { indexerName });
+        throw error;
+    }
+}
+
+/**
+ * Store indexed block hashes and keep only the newest `window` of them.
+ */
+export async function recordIndexedBlockHashes(
+    indexerName: string,
+    blocks: Array<{ blockNumber: number; blockHash: string }>,
+    window: number
+): Promise<void> {
+    if (blocks.length === 0) return;
+
+    try {
+        const { error } = await supabase
+            .from('indexer_block_hashes')
+            .upsert(blocks.map(block => ({
+                indexer_name: indexerName,
+                block_number: block.blockNumber,
+                block_hash: block.blockHash,
+                indexed_at: new Date().toISOString()
+            })), { onConflict: 'indexer_name,block_number' });
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        const { data: cutoff } = await supabase
+            .from('indexer_block_hashes')
+            .select('block_number')
+            .eq('indexer_name', indexerName)
+            .order('block_number', { ascending: false })
+            .range(window, window);
+
+        if (cutoff && cutoff.length > 0) {
+            await supabase
+                .from('indexer_block_hashes')
+                .delete()
+                .eq('indexer_name', indexerName)
+                .lte('block_number', cutoff[0].block_number);
+        }
+    } catch (error) {
+        logger.error('Failed to record indexed block hashes', error as Error, { indexerName });
+        throw error;
+    }
+}
+
+/**
+ * Forget indexed block hashes at or above a block (after a rollback).
+ */
+export async function deleteIndexedBlockHashes(indexerName: string, fromBlock: number): Promise<void> {
+    try {
+        const { error } = await supabase
+            .from('indexer_block_hashes')
+            .delete()
+            .eq('indexer_name', indexerName)
+            .gte('block_number', fromBlock);
+
+        if (error) {
+            throw new Error(error.message);
+        }
+    } catch (error) {
+        logger.error('Failed to delete indexed block hashes', error as Error, { indexerName, fromBlock });
+        throw error;
+    }
+}
+
+/**
+ * Roll back escrow events at or above a block, reversing session and
+ * agent earnings aggregates. Returns the number of events removed.
+ */
+export async function rollbackEscrowEvents(fromBlock: number, indexedBy: string): Promise<number> {
+    try {
+        const { data, error } = await supabase.rpc('rollback_escrow_events', {
+            p_from_block: fromBlock,
+            p_indexed_by: indexedBy
+        });
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        return Number(data) || 0;
+    } catch (error) {
+        logger.error('Failed to roll back escrow events', error as Error, { fromBlock });
+        throw error;
+    }
+}
+
+/**
+ * Remove on-chain transactions an indexer recorded at or above a block,
+ * and unlink session payments that pointed at them.
+ * Returns the removed transaction hashes.
+ */
+export async function rollbackOnChainTransactions(indexedBy: string, fromBlock: number): Promise<string[]> {
+    try {
+        const { data, error } = await supabase
+            .from('on_chain_transactions')
+            .delete()
+            .eq('metadata->>indexedBy', indexedBy)
+            .gte('block_number', fromBlock)
+            .select('tx_hash');
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        const txHashes = (data || []).map(row => row.tx_hash as string);
+        if (txHashes.length > 0) {
+            const { error: unlinkError } = await supabase
+                .from('session_payments')
+                .update({ tx_hash: null, facilitator_tx_hash: null })
+                .in('tx_hash', txHashes);
+
+            if (unlinkError) {
+                throw new Error(unlinkError.message);
+            }
+        }
+
+        return txHashes;
+    } catch (error) {
+        logger.error('Failed to roll back on-chain transactions', error as Error, { indexedBy, fromBlock });
+        throw error;
+    }
+}
+
+/**
+ * Get payments indexed at or above a block, for reorg re-verification.
+ */
+export async function getRecentlyIndexedPayments(sinceBlock: number, limit: number = 100): Promise<Array<{
+    payment_id: string;
+    tx_hash: string;
+    block_number: number;
+    block_hash: string | null;
+}>> {
+    try {
+        const { data, error } = await supabase
+            .from('payments')
+            .select('payment_id, tx_hash, block_number, block_hash')
+            .gte('block_number', Math.max(sinceBlock, 1))
+            .order('block_number', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        return data || [];
+    } catch (error) {
+        logger.error('Failed to get recently indexed payments', error as Error);
+        throw error;
+    }
+}
+
+/**
+ * Mark a payment as unindexed so the next run indexes it again.
+ */
+export async function resetPaymentBlockNumber(paymentId: string): Promise<void> {
+    try {
+        const { error } = await supabase
+            .from('payments')
+            .update({ block_number: 0, block_hash: null })
+            .eq('payment_id', paymentId);
+
+        if (error) {
+            throw new Error(error.message);
+        }
+    } catch (error) {
+        logger.error('Failed to reset payment block number', error as Error, { paymentId });
+        throw error;
+    }
+}
+
+// ============================================
+// INDEXER CHECKPOINTS & DEAD LETTERS
+// ============================================
+
+export type DeadLetterStatus = 'retrying' | 'dead' | 'replayed' | 'resolved';
+
+export interface IndexerEventKey {
+    chainId: number;
+    txHash: string;
+    logIndex: number;
+}
+
+export interface IndexerFailure extends IndexerEventKey {
+    indexerName: string;
+    eventType: string;
+    blockNumber: number;
+    payload?: Record<string, unknown>;
+    error: string;
+    maxAttempts: number;
+}
+
+export interface IndexerDeadLetter {
+    id: number;
+    indexerName: string;
+    eventType: string;
+    chainId: number;
+    txHash: string;
+    logIndex: number;
+    blockNumber: number;
+    payload: Record<string, unknown> | null;
+    lastError: string | null;
+    attempts: number;
+    status: DeadLetterStatus;
+    firstFailedAt: string;
+    lastFailedAt: string;
+    resolvedAt: string | null;
+}
+
+function mapDeadLetter(row: any): IndexerDeadLetter {
+    return {
+        id: Number(row.id),
+        indexerName: row.indexer_name,
+        eventType: row.event_type,
+        chainId: row.chain_id,
+        txHash: row.tx_hash,
+        logIndex: row.log_index,
+        blockNumber: Number(row.block_number),
+        payload: row.payload,
+        lastError: row.last_error,
+        attempts: row.attempts,
+        status: row.status,
+        firstFailedAt: row.first_failed_at,
+        lastFailedAt: row.last_failed_at,
+        resolvedAt: row.resolved_at
+    };
+}
+
+/**
+ * Get the per-event-type cursors of an indexer ('<indexer>:<EventName>').
+ */
+export async function getIndexerCursors(indexerName: string): Promise<Array<{
+    eventType: string;
+    lastBlock: number;
+    lastRunAt: string | null;
+}>> {
+    try {
+        const { data, error } = await supabase
+            .from('indexer_state')
+            .select('indexer_name, last_block, last_run_at')
+            .like('indexer_name', `${indexerName}:%`);
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        return (data || []).map(row => ({
+            eventType: row.indexer_name.slice(indexerName.length + 1),
+            lastBlock: Number(row.last_block),
+            lastRunAt: row.last_run_at
+        }));
+    } catch (error) {
+        logger.error('Failed to get indexer cursors', error as Error, { indexerName });
+        throw error;
+    }
+}
+
+/**
+ * Move an indexer and all of its event-type cursors back to lastBlock.
+ * Cursors already at or below lastBlock are left alone.
+ */
+export async function rewindIndexerState(indexerName: string, lastBlock: number): Promise<void> {
+    try {
+        const now = new Date().toISOString();
+
+        // A lagging event-type cursor can hold the global cursor below the
+        // fork, so it is only ever lowered
+        const { error: globalError } = await supabase
+            .from('indexer_state')
+            .update({ last_block: lastBlock, last_run_at: now })
+            .eq('indexer_name', indexerName)
+            .gt('last_block', lastBlock);
+
+        if (globalError) {
+            throw new Error(globalError.message);
+        }
+
+        const { error } = await supabase
+            .from('indexer_state')
+            .update({ last_block: lastBlock, last_run_at: now })
+            .like('indexer_name', `${indexerName}:%`)
+            .gt('last_block', lastBlock);
+
+        if (error) {
+            throw new Error(error.message);
+        }
+    } catch (error) {
+        logger.error('Failed to rewind indexer state', error as Error, { indexerName, lastBlock });
+        throw error;
+    }
+}
+
+/**
+ * Record a failed attempt at indexing an event.
+ * Returns the dead letter; its status is 'dead' once maxAttempts is reached.
+ */
+export async function recordIndexerFailure(failure: IndexerFailure): Promise<IndexerDeadLetter> {
+    try {
+        const { data, error } = await supabase.rpc('record_indexer_failure', {
+            p_indexer_name: failure.indexerName,
+            p_event_type: failure.eventType,
+            p_chain_id: failure.chainId,
+            p_tx_hash: failure.txHash,
+            p_log_index: failure.logIndex,
+            p_block_number: failure.blockNumber,
+            p_payload: failure.payload ?? null,
+            p_error: failure.error,
+            p_max_attempts: failure.maxAttempts
+        });
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        return mapDeadLetter(data);
+    } catch (error) {
+        logger.error('Failed to record indexer failure', error as Error, {
+            indexerName: failure.indexerName,
+            txHash: failure.txHash,
+            logIndex: failure.logIndex
+        });
+        throw error;
+    }
+}
+
+/**
+ * Keys ('<txHash>:<logIndex>') of unresolved dead letters for an event type.
+ */
+export async function getOpenDeadLetterKeys(indexerName: string, eventType: string): Promise<Set<string>> {
+    try {
+        const { data, error } = await supabase
+            .from('indexer_dead_letters')
+            .select('tx_hash, log_index')
+            .eq('indexer_name', indexerName)
+            .eq('event_type', eventType)
+            .in('status', ['retrying', 'dead']);
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        return new Set((data || []).map(row => `${row.tx_hash}:${row.log_index}`));
+    } catch (error) {
+        logger.error('Failed to get open dead letters', error as Error, { indexerName, eventType });
+        throw error;
+    }
+}
+
+/**
+ * Close a dead letter once its event has been indexed.
+ */
+export async function resolveIndexerDeadLetter(
+    key: IndexerEventKey,
+    status: 'replayed' | 'resolved'
+): Promise<void> {
+    try {
+        const { error } = await supabase
+            .from('indexer_dead_letters')
+            .update({ status, resolved_at: new Date().toISOString() })
+            .eq('chain_id', key.chainId)
+            .eq('tx_hash', key.txHash)
+            .eq('log_index', key.logIndex)
+            .in('status', ['retrying', 'dead']);
+
+        if (error) {
+            throw new Error(error.message);
+        }
+    } catch (error) {
+        logger.error('Failed to resolve dead letter', error as Error, { txHash: key.txHash, logIndex: key.logIndex });
+        throw error;
+    }
+}
+
+/**
+ * List dead letters, newest failure first.
+ */
+export async function listIndexerDeadLetters(filters: {
+    indexerName?: string;
+    eventType?: string;
+    status?: DeadLetterStatus;
+    limit?: number;
+    offset?: number;
+} = {}): Promise<IndexerDeadLetter[]> {
+    try {
+        const limit = filters.limit ?? 50;
+        const offset = filters.offset ?? 0;
+
+        let query = supabase
+            .from('indexer_dead_letters')
+            .select('*')
+            .order('last_failed_at', { ascending: false })
+            .range(offset, offset + limit - 1);
+
+        if (filters.indexerName) query = query.eq('indexer_name', filters.indexerName);
+        if (filters.eventType) query = query.eq('event_type', filters.eventType);
+        if (filters.status) query = query.eq('status', filters.status);
+
+        const { data, error } = await query;
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        return (data || []).map(mapDeadLetter);
+    } catch (error) {
+        logger.error('Failed to list dead letters', error as Error, filters);
+        throw error;
+    }
+}
+
+/**
+ * Get a dead letter by id.
+ */
+export async function getIndexerDeadLetter(id: number): Promise<IndexerDeadLetter | null> {
+    try {
+        const { data, error } = await supabase
+            .from('indexer_dead_letters')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error && error.code !== 'PGRST116') {
+            throw new Error(error.message);
+        }
+
+        return data ? mapDeadLetter(data) : null;
+    } catch (error) {
+        logger.error('Failed to get dead letter', error as Error, { id });
+        throw error;
+    }
+}
+
+/**
+ * Count unresolved dead letters per indexer.
+ */
+export async function countOpenDeadLetters(): Promise<Record<string, { retrying: number; dead: number }>> {
+    try {
+        const { data, error } = await supabase
+            .from('indexer_dead_letters')
+            .select('indexer_name, status')
+            .in('status', ['retrying', 'dead']);
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        const counts: Record<string, { retrying: number; dead: number }> = {};
+        for (const row of data || []) {
+            const entry = counts[row.indexer_name] ??= { retrying: 0, dead: 0 };
+            entry[row.status as 'retrying' | 'dead']++;
+        }
+        return counts;
+    } catch (error) {
+        logger.error('Failed to count dead letters', error as Error);
+        throw error;
+    }
+}
+
 // ============================================
 // TRANSACTION INDEXER DATABASE OPERATIONS
 // ============================================
@@ -781,6 +1234,72 @@ export async function insertTransactionStateChange(
     }
 }
 
+/**
+ * Get transactions confirmed at or above a block, for reorg re-verification.
+ */
+export async function getRecentlyConfirmedTransactions(sinceBlock: number, limit: number = 100): Promise<Array<{
+    transaction_id: string;
+    tx_hash: string;
+    block_number: number;
+    block_hash: string | null;
+}>> {
+    try {
+        const { data, error } = await supabase
+            .from('pending_transactions')
+            .select('transaction_id, tx_hash, block_number, block_hash')
+            .in('status', ['confirmed', 'failed'])
+            .not('tx_hash', 'is', null)
+            .gte('block_number', sinceBlock)
+            .order('block_number', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        return data || [];
+    } catch (error) {
+        logger.error('Failed to get recently confirmed transactions', error as Error);
+        throw error;
+    }
+}
+
+/**
+ * Undo a confirmation whose block was reorged out: the transaction goes
+ * back to 'broadcast' and its on-chain record is removed until re-indexed.
+ */
+export async function rollbackTransactionConfirmation(transactionId: string, txHash: string): Promise<void> {
+    try {
+        const { error } = await supabase
+            .from('pending_transactions')
+            .update({
+                status: 'broadcast',
+                block_number: null,
+                block_hash: null,
+                gas_used: null,
+                confirmed_at: null,
+                error_message: null
+            })
+            .eq('transaction_id', transactionId);
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        const { error: deleteError } = await supabase
+            .from('on_chain_transactions')
+            .delete()
+            .eq('tx_hash', txHash);
+
+        if (deleteError) {
+            throw new Error(deleteError.message);
+        }
+    } catch (error) {
+        logger.error('Failed to roll back transaction confirmation', error as Error, { transactionId });
+        throw error;
+    }
+}
+
 /**
  * Upsert on-chain transaction record.
  */
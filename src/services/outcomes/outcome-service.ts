@@ -3,9 +3,18 @@
  * 
  * Records delivery outcomes for payments (delivered, failed, timeout)
  * per ARCHITECTURE.md specification
+ *
+ * An outcome only counts (payment status, capture, reputation) when it is
+ * backed by a delivery receipt signed by the payment's payee (see
+ * sdk/lib/delivery-receipt.ts) or was observed by Relay itself. Other
+ * outcomes are kept as evidence. Each payment has at most one counted
+ * outcome; a second one is rejected with OutcomeAlreadyRecordedError.
  */
 
 import { supabase } from '../../lib/supabase';
+import logger from '../../lib/logger';
+import { paymentAuthorizationService } from '../x402/payment-authorization';
+import { verifyDeliveryReceipt, type DeliveryReceipt, type ReceiptCheck } from '../../sdk/lib/delivery-receipt';
 
 export interface Outcome {
     id: string;
@@ -13,6 +22,10 @@ export interface Outcome {
     outcomeType: 'delivered' | 'failed' | 'timeout';
     latencyMs?: number;
     evidence?: Record<string, any>;
+    /** Backed by a valid receipt from the payee */
+    receiptVerified: boolean;
+    /** Counted towards payment status and reputation */
+    counted: boolean;
     createdAt: string;
 }
 
@@ -21,6 +34,21 @@ export interface RecordOutcomeRequest {
     outcomeType: 'delivered' | 'failed' | 'timeout';
     latencyMs?: number;
     evidence?: Record<string, any>;
+    /** Amount to capture in base units for partial delivery (defaults to the authorized amount) */
+    captureAmount?: string;
+    /** Provider-signed delivery receipt */
+    receipt?: DeliveryReceipt;
+    /** Recorded by Relay from what it saw itself (e.g. requirePayment), so no receipt is needed */
+    observed?: boolean;
+}
+
+export class OutcomeAlreadyRecordedError extends Error {
+    readonly code = 'OUTCOME_ALREADY_RECORDED' as const;
+
+    constructor(public readonly paymentId: string) {
+        super(`A counted outcome was already recorded for payment ${paymentId}`);
+        this.name = 'OutcomeAlreadyRecordedError';
+    }
 }
 
 export class OutcomeService {
@@ -28,35 +56,82 @@ export class OutcomeService {
      * Record an outcome for a payment
      */
     async record(request: RecordOutcomeRequest): Promise<Outcome> {
+        const check = request.receipt ? await this.verifyReceipt(request.paymentId, request.receipt) : null;
+        const counted = request.observed === true || check?.valid === true;
+        const latencyMs = request.latencyMs ?? (check?.valid ? request.receipt?.latencyMs : undefined);
+
         const { data, error } = await supabase
             .from('outcomes')
             .insert({
                 payment_id: request.paymentId,
                 outcome_type: request.outcomeType,
-                latency_ms: request.latencyMs,
+                latency_ms: latencyMs,
                 evidence: request.evidence,
+                receipt: request.receipt ?? null,
+                receipt_signer: check?.signer ?? null,
+                receipt_verified: check?.valid ?? false,
+                observed: request.observed ?? false,
             })
             .select()
             .single();
 
         if (error) {
+            // idx_outcomes_counted: one counted outcome per payment
+            if (error.code === '23505') {
+                throw new OutcomeAlreadyRecordedError(request.paymentId);
+            }
             throw new Error(`Failed to record outcome: ${error.message}`);
         }
 
+        if (!counted) {
+            logger.warn('Outcome recorded without a valid delivery receipt', {
+                paymentId: request.paymentId,
+                outcomeType: request.outcomeType,
+                reason: check?.reason ?? 'No receipt',
+            });
+            return formatOutcome(data);
+        }
+
         // Update payment status based on outcome
         await this.updatePaymentStatus(request.paymentId, request.outcomeType);
 
         // Update service reputation
-        await this.updateServiceReputation(request.paymentId, request.outcomeType, request.latencyMs);
-
-        return {
-            id: data.id,
-            paymentId: data.payment_id,
-            outcomeType: data.outcome_type,
-            latencyMs: data.latency_ms,
-            evidence: data.evidence,
-            createdAt: data.created_at,
-        };
+        await this.updateServiceReputation(request.paymentId, request.outcomeType, latencyMs);
+
+        // Capture or void a deferred (two-phase) payment
+        await this.resolveAuthorization(request);
+
+        return formatOutcome(data);
+    }
+
+    /**
+     * Check a receipt against the payment it claims: it must be signed by
+     * the address that was paid
+     */
+    async verifyReceipt(paymentId: string, receipt: DeliveryReceipt): Promise<ReceiptCheck> {
+        const payee = await this.payee(paymentId);
+
+        if (!payee) {
+            return { valid: false, reason: 'Payment not found' };
+        }
+
+        return verifyDeliveryReceipt(receipt, { provider: payee, paymentId });
+    }
+
+    /**
+     * Address a payment went to, from the payments table or, for deferred
+     * payments, its authorization
+     */
+    private async payee(paymentId: string): Promise<string | null> {
+        const { data: payment } = await supabase
+            .from('payments')
+            .select('to_address')
+            .eq('payment_id', paymentId)
+            .maybeSingle();
+
+        return payment?.to_address
+            ?? (await paymentAuthorizationService.getByPaymentId(paymentId))?.payTo
+            ?? null;
     }
 
     /**
@@ -72,14 +147,26 @@ export class OutcomeService {
             return [];
         }
 
-        return data.map(d => ({
-            id: d.id,
-            paymentId: d.payment_id,
-            outcomeType: d.outcome_type,
-            latencyMs: d.latency_ms,
-            evidence: d.evidence,
-            createdAt: d.created_at,
-        }));
+        return data.map(formatOutcome);
+    }
+
+    /**
+     * Settle the open authorization behind a payment, if there is one.
+     * A settlement failure is logged but does not undo the recorded outcome.
+     */
+    private async resolveAuthorization(request: RecordOutcomeRequest): Promise<void> {
+        try {
+            await paymentAuthorizationService.resolveOutcome(
+                request.paymentId,
+                request.outcomeType,
+                request.captureAmount !== undefined ? BigInt(request.captureAmount) : undefined
+            );
+        } catch (error) {
+            logger.error('Failed to resolve payment authorization', error as Error, {
+                paymentId: request.paymentId,
+                outcomeType: request.outcomeType,
+            });
+        }
     }
 
     /**
@@ -94,7 +181,7 @@ export class OutcomeService {
         await supabase
             .from('payments')
             .update({ status })
-            .eq('id', paymentId);
+            .eq('payment_id', paymentId);
     }
 
     /**
@@ -106,19 +193,14 @@ export class OutcomeService {
         latencyMs?: number
     ): Promise<void> {
         // Get the payment to find related service
-        const { data: payment } = await supabase
-            .from('payments')
-            .select('to_address')
-            .eq('id', paymentId)
-            .single();
-
-        if (!payment) return;
+        const serviceId = await this.payee(paymentId);
+        if (!serviceId) return;
 
         // Get or create reputation record
         const { data: existing } = await supabase
             .from('reputations')
             .select('*')
-            .eq('service_id', payment.to_address)
+            .eq('service_id', serviceId)
             .single();
 
         const isSuccess = outcomeType === 'delivered';
@@ -148,7 +230,7 @@ export class OutcomeService {
         await supabase
             .from('reputations')
             .upsert({
-                service_id: payment.to_address,
+                service_id: serviceId,
                 total_payments: totalPayments,
                 successful_payments: successfulPayments,
                 failed_payments: failedPayments,
@@ -159,4 +241,17 @@ export class OutcomeService {
     }
 }
 
+function formatOutcome(d: any): Outcome {
+    return {
+        id: d.id,
+        paymentId: d.payment_id,
+        outcomeType: d.outcome_type,
+        latencyMs: d.latency_ms,
+        evidence: d.evidence,
+        receiptVerified: d.receipt_verified ?? false,
+        counted: (d.receipt_verified ?? false) || (d.observed ?? false),
+        createdAt: d.created_at,
+    };
+}
+
 export const outcomeService = new OutcomeService();
@@ -0,0 +1,138 @@
+/**
+ * Perp Order Splitting
+ *
+ * Plans how one order is divided into child orders across venues. Sizes are
+ * allocated in proportion to each venue's effective depth, so every venue
+ * sees roughly the same marginal price impact, and capped at its remaining
+ * open interest. Small orders, or orders with one eligible venue, stay whole.
+ */
+
+import type { VenueScore } from './venue-scoring';
+
+export interface SplitOptions {
+    /** Orders below this size go to the best venue only */
+    thresholdUsd: number;
+    maxVenues: number;
+    /** Children smaller than this are folded into the largest one */
+    minChildUsd: number;
+}
+
+export interface ChildOrderPlan {
+    venueId: string;
+    venueName: string;
+    sizeUsd: number;
+    /** Estimated impact for this child's size, in bps; null when the venue doesn't report impact */
+    expectedImpactBps: number | null;
+}
+
+export const DEFAULT_SPLIT_OPTIONS: SplitOptions = {
+    thresholdUsd: Number(process.env.TRADE_SPLIT_THRESHOLD_USD) || 25_000,
+    maxVenues: Number(process.env.TRADE_SPLIT_MAX_VENUES) || 3,
+    minChildUsd: 1_000,
+};
+
+// Price impact, in bps, of an order that uses a venue's whole effective depth
+const FULL_DEPTH_IMPACT_BPS = 100;
+
+/**
+ * Depth implied by a venue's quote: impact scales linearly with size, so a
+ * venue quoting I bps for S dollars has S × 100 / I dollars of depth
+ */
+function effectiveDepth(venue: VenueScore, sizeUsd: number): number | null {
+    const { priceImpactBps, availableOpenInterestUsd } = venue.market;
+    if (priceImpactBps !== null && priceImpactBps > 0 && Number.isFinite(priceImpactBps)) {
+        return (sizeUsd * FULL_DEPTH_IMPACT_BPS) / priceImpactBps;
+    }
+    return availableOpenInterestUsd;
+}
+
+function childImpact(venue: VenueScore, childUsd: number, totalUsd: number): number | null {
+    const impact = venue.market.priceImpactBps;
+    return impact === null ? null : impact * (childUsd / totalUsd);
+}
+
+/**
+ * Allocate an order across ranked venue candidates (best first)
+ */
+export function planChildOrders(
+    sizeUsd: number,
+    candidates: VenueScore[],
+    overrides: Partial<SplitOptions> = {}
+): ChildOrderPlan[] {
+    const options = { ...DEFAULT_SPLIT_OPTIONS, ...overrides };
+    const eligible = candidates.filter(v => v.eligible).slice(0, options.maxVenues);
+
+    if (eligible.length === 0) return [];
+    if (eligible.length === 1 || sizeUsd < options.thresholdUsd) {
+        const best = eligible[0];
+        return [{
+            venueId: best.venueId,
+            venueName: best.venueName,
+            sizeUsd,
+            expectedImpactBps: best.market.priceImpactBps,
+        }];
+    }
+
+    // Venues without depth data get the median of the known depths (equal split if none known)
+    const known = eligible
+        .map(v => effectiveDepth(v, sizeUsd))
+        .filter((d): d is number => d !== null && d > 0)
+        .sort((a, b) => a - b);
+    const fallbackDepth = known.length > 0 ? known[Math.floor(known.length / 2)] : 1;
+    const depths = eligible.map(v => effectiveDepth(v, sizeUsd) ?? fallbackDepth);
+
+    // Proportional allocation, capped at open interest headroom; overflow moves to uncapped venues
+    const allocation = new Array<number>(eligible.length).fill(0);
+    let remaining = sizeUsd;
+    let open = eligible.map((_, i) => i);
+    while (remaining > 0.01 && open.length > 0) {
+        const totalDepth = open.reduce((sum, i) => sum + depths[i], 0);
+        const stillOpen: number[] = [];
+        let placed = 0;
+
+        for (const i of open) {
+            const share = remaining * (depths[i] / totalDepth);
+            const headroom = eligible[i].market.availableOpenInterestUsd;
+            const room = headroom === null ? Infinity : headroom - allocation[i];
+            const take = Math.min(share, room);
+            allocation[i] += take;
+            placed += take;
+            if (take < room) stillOpen.push(i);
+        }
+
+        remaining -= placed;
+        if (stillOpen.length === open.length) break;
+        open = stillOpen;
+    }
+
+    // Fold dust children into the largest allocation
+    const largest = allocation.indexOf(Math.max(...allocation));
+    for (let i = 0; i < allocation.length; i++) {
+        if (i !== largest && allocation[i] > 0 && allocation[i] < options.minChildUsd) {
+            allocation[largest] += allocation[i];
+            allocation[i] = 0;
+        }
+    }
+
+    // Round to cents; the largest child absorbs the rounding difference
+    const cents = allocation.map(a => Math.round(a * 100) / 100);
+    cents[largest] = Math.round((sizeUsd - cents.reduce((sum, c, i) => i === largest ? sum : sum + c, 0)) * 100) / 100;
+
+    return eligible
+        .map((venue, i) => ({
+            venueId: venue.venueId,
+            venueName: venue.venueName,
+            sizeUsd: cents[i],
+            expectedImpactBps: childImpact(venue, cents[i], sizeUsd),
+        }))
+        .filter(child => child.sizeUsd > 0);
+}
+
+/**
+ * Average entry of several fills: total notional over total units
+ */
+export function blendedEntryPrice(fills: Array<{ sizeUsd: number; entryPrice: number }>): number {
+    const notional = fills.reduce((sum, f) => sum + f.sizeUsd, 0);
+    const units = fills.reduce((sum, f) => sum + f.sizeUsd / f.entryPrice, 0);
+    return units > 0 ? notional / units : 0;
+}
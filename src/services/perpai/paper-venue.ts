@@ -0,0 +1,406 @@
+/**
+ * Paper Trading Venue
+ *
+ * Simulated perp venue for dry runs. Fills are priced off the aggregator's
+ * consensus price plus a slippage model, pay the fee schedule of the venue
+ * the router would have routed to, and are recorded in `trades` with
+ * `paper = true`. Margin comes from a virtual USD account per user
+ * (`paper_accounts`) that is credited with PnL on close. The position
+ * monitor liquidates paper positions whose price crosses liquidation.
+ *
+ * Paper mode is chosen per request (`paper: true`) or for the whole server
+ * with TRADING_MODE=paper.
+ */
+
+import { randomUUID } from 'crypto';
+import { supabase } from '../../lib/supabase';
+import logger from '../../lib/logger';
+import { multiDexAggregator } from '../prices/price-aggregator';
+import type { TradeExecuteRequest } from '../../types/api';
+import { liquidationPriceFor } from './position-rules';
+
+export interface PaperSlippageModel {
+    /** Full bid/ask spread; each fill crosses half of it */
+    spreadBps: number;
+    /** Depth used to estimate impact when the venue reports none */
+    depthUsd: number;
+}
+
+export const DEFAULT_PAPER_SLIPPAGE: PaperSlippageModel = {
+    spreadBps: Number(process.env.PAPER_SPREAD_BPS) || 4,
+    depthUsd: Number(process.env.PAPER_DEPTH_USD) || 50_000_000,
+};
+
+export const PAPER_STARTING_BALANCE_USD = Number(process.env.PAPER_STARTING_BALANCE_USD) || 100_000;
+
+/** Venue the paper fill is modelled on, taken from the router's quote */
+export interface PaperFillQuote {
+    venueId: string;
+    venueName: string;
+    markPrice: number;
+    tradingFeeBps: number;
+    /** Venue-reported impact for this size, if any */
+    priceImpactBps: number | null;
+}
+
+export interface PaperPosition {
+    side: 'long' | 'short';
+    sizeUsd: number;
+    entryPrice: number;
+    leverage: number;
+    liquidationPrice: number | null;
+    tradingFeeBps: number;
+}
+
+export interface PaperSettlement {
+    exitPrice: number;
+    pnl: number;
+    fee: number;
+    /** Margin plus PnL less the closing fee, returned to the balance */
+    payout: number;
+    liquidated: boolean;
+}
+
+export interface PaperAccount {
+    userAddress: string;
+    balanceUsd: number;
+    startingBalanceUsd: number;
+    realizedPnlUsd: number;
+    feesPaidUsd: number;
+    liquidations: number;
+}
+
+interface PaperAccountRow {
+    user_address: string;
+    balance_usd: number | string;
+    starting_balance_usd: number | string;
+    realized_pnl_usd: number | string;
+    fees_paid_usd: number | string;
+    liquidations: number;
+}
+
+/** Columns of a paper trade row the venue reads */
+export interface PaperTradeRow {
+    id: string;
+    user_address: string;
+    pair: string;
+    side: 'long' | 'short';
+    size_usd: number | string;
+    entry_price: number | string;
+    leverage: number | string;
+    liquidation_price: number | string | null;
+    metadata: { paper?: { tradingFeeBps: number; slippageBps: number } } | null;
+}
+
+/**
+ * Raised when a paper account can't cover the margin and fee of an order
+ */
+export class PaperBalanceError extends Error {
+    readonly code = 'INSUFFICIENT_PAPER_BALANCE' as const;
+
+    constructor(message: string, public readonly balanceUsd: number, public readonly requiredUsd: number) {
+        super(message);
+        this.name = 'PaperBalanceError';
+    }
+}
+
+export function isPaperTrading(request: { paper?: boolean }): boolean {
+    return request.paper ?? process.env.TRADING_MODE === 'paper';
+}
+
+/**
+ * Slippage of one fill: half the spread plus the venue's reported impact,
+ * or a linear impact against the modelled depth
+ */
+export function paperSlippageBps(
+    sizeUsd: number,
+    venueImpactBps: number | null,
+    model: PaperSlippageModel = DEFAULT_PAPER_SLIPPAGE
+): number {
+    const impactBps = venueImpactBps ?? (sizeUsd / model.depthUsd) * 10_000;
+    return model.spreadBps / 2 + impactBps;
+}
+
+/**
+ * Fill price after slippage; buys (opening longs, closing shorts) fill above the mark
+ */
+export function paperFillPrice(
+    markPrice: number,
+    side: 'long' | 'short',
+    action: 'open' | 'close',
+    slippageBps: number
+): number {
+    const buying = (side === 'long') === (action === 'open');
+    return markPrice * (buying ? 1 + slippageBps / 10_000 : 1 - slippageBps / 10_000);
+}
+
+export function paperPnl(side: 'long' | 'short', entryPrice: number, exitPrice: number, sizeUsd: number): number {
+    return ((exitPrice - entryPrice) / entryPrice) * sizeUsd * (side === 'long' ? 1 : -1);
+}
+
+/**
+ * Settle a paper position at an exit price. Past the liquidation price the
+ * whole margin is lost and nothing is paid out.
+ */
+export function settlePaperPosition(position: PaperPosition, exitPrice: number): PaperSettlement {
+    const margin = position.sizeUsd / position.leverage;
+    const liquidation = position.liquidationPrice;
+
+    if (liquidation !== null && (position.side === 'long' ? exitPrice <= liquidation : exitPrice >= liquidation)) {
+        return { exitPrice: liquidation, pnl: -margin, fee: 0, payout: 0, liquidated: true };
+    }
+
+    const pnl = paperPnl(position.side, position.entryPrice, exitPrice, position.sizeUsd);
+    const fee = position.sizeUsd * (position.tradingFeeBps / 10_000);
+    return { exitPrice, pnl, fee, payout: Math.max(0, margin + pnl - fee), liquidated: false };
+}
+
+function toAccount(row: PaperAccountRow): PaperAccount {
+    return {
+        userAddress: row.user_address,
+        balanceUsd: Number(row.balance_usd),
+        startingBalanceUsd: Number(row.starting_balance_usd),
+        realizedPnlUsd: Number(row.realized_pnl_usd),
+        feesPaidUsd: Number(row.fees_paid_usd),
+        liquidations: row.liquidations,
+    };
+}
+
+function paperTxHash(): string {
+    return `paper-${randomUUID()}`;
+}
+
+export class PaperVenue {
+    /**
+     * A user's paper account, opened with the starting balance on first use
+     */
+    async getAccount(userAddress: string): Promise<PaperAccount> {
+        const address = userAddress.toLowerCase();
+
+        const { error: insertError } = await supabase
+            .from('paper_accounts')
+            .upsert({
+                user_address: address,
+                balance_usd: PAPER_STARTING_BALANCE_USD,
+                starting_balance_usd: PAPER_STARTING_BALANCE_USD,
+            }, { onConflict: 'user_address', ignoreDuplicates: true });
+
+        if (insertError) throw insertError;
+
+        const { data, error } = await supabase
+            .from('paper_accounts')
+            .select('*')
+            .eq('user_address', address)
+            .single();
+
+        if (error) throw error;
+        return toAccount(data as PaperAccountRow);
+    }
+
+    /**
+     * Account plus open paper positions marked to the current consensus price.
+     * Positions on pairs without consensus are listed without unrealized PnL.
+     */
+    async getAccountSummary(userAddress: string) {
+        const account = await this.getAccount(userAddress);
+
+        const { data: trades, error } = await supabase
+            .from('trades')
+            .select('*')
+            .eq('user_address', userAddress)
+            .eq('paper', true)
+            .eq('status', 'open')
+            .order('created_at', { ascending: false });
+
+        if (error) throw error;
+
+        const pairs = [...new Set((trades || []).map(t => t.pair as string))];
+        const prices = new Map<string, number>();
+        await Promise.all(pairs.map(async (pair) => {
+            const aggregated = await multiDexAggregator.getAggregatedPrice(pair.replace('-', '/') as any).catch(() => null);
+            if (aggregated?.consensus) prices.set(pair, aggregated.bestPrice);
+        }));
+
+        const positions = (trades || []).map(trade => {
+            const sizeUsd = Number(trade.size_usd);
+            const entryPrice = Number(trade.entry_price);
+            const markPrice = prices.get(trade.pair) ?? null;
+            return {
+                tradeId: trade.id as string,
+                pair: trade.pair as string,
+                side: trade.side as 'long' | 'short',
+                sizeUsd,
+                leverage: Number(trade.leverage),
+                marginUsd: sizeUsd / Number(trade.leverage),
+                entryPrice,
+                liquidationPrice: trade.liquidation_price === null ? null : Number(trade.liquidation_price),
+                markPrice,
+                unrealizedPnl: markPrice === null ? null : paperPnl(trade.side, entryPrice, markPrice, sizeUsd),
+                openedAt: trade.created_at as string,
+            };
+        });
+
+        const marginUsd = positions.reduce((sum, p) => sum + p.marginUsd, 0);
+        const unrealizedPnl = positions.reduce((sum, p) => sum + (p.unrealizedPnl ?? 0), 0);
+
+        return {
+            ...account,
+            marginUsd,
+            unrealizedPnl,
+            equityUsd: account.balanceUsd + marginUsd + unrealizedPnl,
+            positions,
+        };
+    }
+
+    /**
+     * Fill an order against the paper account and record it as a paper trade
+     */
+    async openPosition(request: TradeExecuteRequest, quote: PaperFillQuote) {
+        const slippageBps = paperSlippageBps(request.sizeUsd, quote.priceImpactBps);
+        const entryPrice = paperFillPrice(quote.markPrice, request.side, 'open', slippageBps);
+        const liquidationPrice = liquidationPriceFor(entryPrice, request.side, request.leverage);
+        const fee = request.sizeUsd * (quote.tradingFeeBps / 10_000);
+        const marginUsd = request.sizeUsd / request.leverage;
+
+        // Take margin and fees up front; concurrent orders can't both spend the same balance
+        const account = await this.getAccount(request.userAddress);
+        const balanceUsd = await this.adjustAccount(account.userAddress, { balance: -(marginUsd + fee), fees: fee });
+        if (balanceUsd === null) {
+            const current = await this.getAccount(request.userAddress);
+            throw new PaperBalanceError(
+                `Paper balance $${current.balanceUsd.toFixed(2)} can't cover $${marginUsd.toFixed(2)} margin and $${fee.toFixed(2)} fees`,
+                current.balanceUsd,
+                marginUsd + fee
+            );
+        }
+
+        const txHash = paperTxHash();
+        const { data: trade, error } = await supabase
+            .from('trades')
+            .insert({
+                user_address: request.userAddress,
+                venue_id: quote.venueId,
+                pair: request.pair,
+                side: request.side,
+                leverage: request.leverage,
+                size_usd: request.sizeUsd,
+                entry_price: entryPrice,
+                liquidation_price: liquidationPrice,
+                stop_loss: request.stopLoss,
+                take_profit: request.takeProfit,
+                trailing_stop_pct: request.trailingStopPct,
+                tx_hash_open: txHash,
+                status: 'open',
+                paper: true,
+                metadata: {
+                    venue: quote.venueName.toLowerCase(),
+                    paper: { markPrice: quote.markPrice, tradingFeeBps: quote.tradingFeeBps, slippageBps, openFee: fee },
+                },
+            })
+            .select()
+            .single();
+
+        if (error) {
+            await this.adjustAccount(account.userAddress, { balance: marginUsd + fee, fees: -fee });
+            throw error;
+        }
+
+        logger.info('Paper trade opened', {
+            tradeId: trade.id,
+            pair: request.pair,
+            side: request.side,
+            size: request.sizeUsd,
+            entryPrice,
+            balanceUsd,
+        });
+
+        return {
+            tradeId: trade.id as string,
+            txHash,
+            entryPrice,
+            liquidationPrice,
+            slippageBps,
+            feesUsd: fee,
+            balanceUsd,
+        };
+    }
+
+    /**
+     * Close a paper position at the mark price, or liquidate it when the mark
+     * is past its liquidation price, and settle the account
+     */
+    async closePosition(trade: PaperTradeRow, markPrice: number) {
+        const side = trade.side;
+        const sizeUsd = Number(trade.size_usd);
+        const slippageBps = trade.metadata?.paper?.slippageBps ?? paperSlippageBps(sizeUsd, null);
+        const settlement = settlePaperPosition({
+            side,
+            sizeUsd,
+            entryPrice: Number(trade.entry_price),
+            leverage: Number(trade.leverage),
+            liquidationPrice: trade.liquidation_price === null ? null : Number(trade.liquidation_price),
+            tradingFeeBps: trade.metadata?.paper?.tradingFeeBps ?? 0,
+        }, paperFillPrice(markPrice, side, 'close', slippageBps));
+
+        const txHash = paperTxHash();
+        const status = settlement.liquidated ? 'liquidated' : 'closed';
+
+        // Only settle once, whoever gets here first
+        const { data: updated, error } = await supabase
+            .from('trades')
+            .update({
+                exit_price: settlement.exitPrice,
+                pnl_usd: settlement.pnl,
+                tx_hash_close: txHash,
+                status,
+                closed_at: new Date().toISOString(),
+            })
+            .eq('id', trade.id)
+            .eq('status', 'open')
+            .select('id');
+
+        if (error) throw error;
+        if (!updated || updated.length === 0) {
+            throw new Error(`Paper trade ${trade.id} is already closed`);
+        }
+
+        const account = await this.getAccount(trade.user_address);
+        const balanceUsd = await this.adjustAccount(account.userAddress, {
+            balance: settlement.payout,
+            pnl: settlement.pnl,
+            fees: settlement.fee,
+            liquidations: settlement.liquidated ? 1 : 0,
+        });
+
+        logger.info(settlement.liquidated ? 'Paper position liquidated' : 'Paper position closed', {
+            tradeId: trade.id,
+            exitPrice: settlement.exitPrice,
+            pnl: settlement.pnl,
+            balanceUsd,
+        });
+
+        return { ...settlement, txHash, status, balanceUsd };
+    }
+
+    /**
+     * Apply a delta to the account in one UPDATE (adjust_paper_account).
+     * Returns the new balance, or null when a debit exceeds the balance.
+     */
+    private async adjustAccount(
+        userAddress: string,
+        delta: { balance: number; pnl?: number; fees?: number; liquidations?: number }
+    ): Promise<number | null> {
+        const { data, error } = await supabase.rpc('adjust_paper_account', {
+            p_user_address: userAddress,
+            p_balance: delta.balance,
+            p_pnl: delta.pnl ?? 0,
+            p_fees: delta.fees ?? 0,
+            p_liquidations: delta.liquidations ?? 0,
+        });
+
+        if (error) throw error;
+        return data === null ? null : Number(data);
+    }
+}
+
+export const paperVenue = new PaperVenue();
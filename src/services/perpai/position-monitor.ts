@@ -0,0 +1,376 @@
+/**
+ * Position Monitor
+ *
+ * Server-side worker that watches open trades. Each run prices every pair
+ * once through the aggregator's consensus, then for each open position:
+ * - tracks the trailing-stop peak,
+ * - alerts the owner on Telegram when the price nears liquidation,
+ * - closes the position when its stop-loss, take-profit or trailing stop fires.
+ *
+ * Closes go through the trade router. When the router can't close the
+ * position itself, the monitor creates handoff signing requests and sends
+ * the links to the owner; the trade is marked closed once they confirm.
+ * Pairs without a price consensus are skipped rather than acted on.
+ * Paper positions that cross their liquidation price are liquidated here,
+ * since no venue will do it for them.
+ *
+ * Only one process runs the monitor at a time: each run first takes or
+ * renews the `position_monitor` worker lease, and processes that don't hold
+ * it skip the run.
+ */
+
+import schedule from 'node-schedule';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { supabase } from '../../lib/supabase';
+import logger from '../../lib/logger';
+import { getDefaultChainId } from '../../lib/blockchain/provider';
+import { multiDexAggregator } from '../prices/price-aggregator';
+import { pendingTransactionStore, signingService } from '../handoff';
+import { notifyLiquidationRisk, notifyPositionTrigger } from '../bot-linking/notification-service';
+import { tradeRouter } from './trade-router';
+import { paperVenue, type PaperTradeRow } from './paper-venue';
+import { evaluatePosition, isRiskEscalation, type LiquidationRisk, type PositionTrigger } from './position-rules';
+
+interface MonitoredTrade {
+    id: string;
+    user_address: string;
+    pair: string;
+    side: 'long' | 'short';
+    size_usd: number | string;
+    entry_price: number | string;
+    liquidation_price: number | string | null;
+    stop_loss: number | string | null;
+    take_profit: number | string | null;
+    trailing_stop_pct: number | string | null;
+    trailing_peak_price: number | string | null;
+    liquidation_alert_level: LiquidationRisk;
+    close_trigger_price: number | string | null;
+    close_signing_ids: string[] | null;
+    close_requested_at: string | null;
+    paper: boolean;
+    leverage: number | string;
+    metadata: PaperTradeRow['metadata'];
+}
+
+// Every 15 seconds by default
+const MONITOR_CRON = process.env.POSITION_MONITOR_CRON || '*/15 * * * * *';
+
+// Handoff requests still waiting on the user or the chain
+const IN_FLIGHT_STATUSES = new Set(['pending', 'signed', 'broadcast']);
+
+// Handoff close requests expire after this long unsigned
+const HANDOFF_TTL_SECONDS = 15 * 60;
+
+// Requests this process no longer knows about (restart, another replica)
+// are assumed in flight until the signing window plus time to confirm
+const UNKNOWN_REQUEST_WINDOW_MS = (HANDOFF_TTL_SECONDS + 10 * 60) * 1000;
+
+const LEASE_NAME = 'position_monitor';
+const LEASE_TTL_SECONDS = 60;
+
+function numberOrNull(value: number | string | null): number | null {
+    return value === null || value === undefined ? null : Number(value);
+}
+
+class PositionMonitor {
+    private isRunning = false;
+    private cronHandle: schedule.Job | null = null;
+    private readonly leaseHolder = `${hostname()}:${process.pid}:${randomUUID()}`;
+
+    /**
+     * Check every open position once
+     */
+    async run(): Promise<void> {
+        if (this.isRunning) {
+            logger.debug('Position monitor already running');
+            return;
+        }
+
+        this.isRunning = true;
+        try {
+            if (!(await this.acquireLease())) {
+                logger.debug('Position monitor lease held by another process');
+                return;
+            }
+
+            // Children of split orders are closed through their parent
+            const { data: trades, error } = await supabase
+                .from('trades')
+                .select('*')
+                .eq('status', 'open')
+                .in('order_type', ['single', 'parent']);
+
+            if (error) throw error;
+            if (!trades || trades.length === 0) return;
+
+            const prices = await this.pricePairs([...new Set(trades.map(t => t.pair as string))]);
+
+            for (const trade of trades as MonitoredTrade[]) {
+                const price = prices.get(trade.pair);
+                if (price === undefined) continue;
+
+                try {
+                    await this.checkTrade(trade, price);
+                } catch (error) {
+                    logger.error('Position check failed', error as Error, { tradeId: trade.id });
+                }
+            }
+        } catch (error) {
+            logger.error('Position monitor run failed', error as Error);
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    /**
+     * Take or renew the single-worker lease
+     */
+    private async acquireLease(): Promise<boolean> {
+        const { data, error } = await supabase.rpc('acquire_worker_lease', {
+            p_name: LEASE_NAME,
+            p_holder: this.leaseHolder,
+            p_ttl_seconds: LEASE_TTL_SECONDS,
+        });
+        if (error) throw error;
+        return data === true;
+    }
+
+    /**
+     * Consensus price per pair; pairs without consensus are left out
+     */
+    private async pricePairs(pairs: string[]): Promise<Map<string, number>> {
+        const prices = new Map<string, number>();
+
+        await Promise.all(pairs.map(async (pair) => {
+            try {
+                const aggregated = await multiDexAggregator.getAggregatedPrice(pair.replace('-', '/') as any);
+                if (aggregated.consensus) {
+                    prices.set(pair, aggregated.bestPrice);
+                } else {
+                    logger.warn('Skipping positions without price consensus', { pair, reason: aggregated.consensusError });
+                }
+            } catch (error) {
+                logger.warn('Failed to price pair for position monitor', { pair, error: (error as Error).message });
+            }
+        }));
+
+        return prices;
+    }
+
+    private async checkTrade(trade: MonitoredTrade, price: number): Promise<void> {
+        if (trade.close_signing_ids && trade.close_signing_ids.length > 0) {
+            const waiting = await this.settleHandoffClose(trade);
+            if (waiting) return;
+        }
+
+        const liquidationPrice = numberOrNull(trade.liquidation_price);
+        const evaluation = evaluatePosition({
+            side: trade.side,
+            entryPrice: Number(trade.entry_price),
+            stopLoss: numberOrNull(trade.stop_loss),
+            takeProfit: numberOrNull(trade.take_profit),
+            trailingStopPct: numberOrNull(trade.trailing_stop_pct),
+            trailingPeakPrice: numberOrNull(trade.trailing_peak_price),
+            liquidationPrice,
+        }, price);
+
+        if (trade.paper && evaluation.liquidationDistancePct !== null && evaluation.liquidationDistancePct <= 0) {
+            const result = await paperVenue.closePosition(trade, price);
+            await notifyPositionTrigger(
+                trade.user_address,
+                { tradeId: trade.id, pair: trade.pair, side: trade.side, price: result.exitPrice },
+                'liquidation',
+                { closed: true, pnl: result.pnl }
+            );
+            return;
+        }
+
+        const updates: Record<string, unknown> = {};
+        if (evaluation.trailingPeakPrice !== null && evaluation.trailingPeakPrice !== numberOrNull(trade.trailing_peak_price)) {
+            updates.trailing_peak_price = evaluation.trailingPeakPrice;
+        }
+
+        // Alert once per escalation; dropping back re-arms the alert
+        const risk = evaluation.liquidationRisk;
+        if (risk !== trade.liquidation_alert_level) {
+            updates.liquidation_alert_level = risk;
+            if (risk !== 'safe' && isRiskEscalation(trade.liquidation_alert_level, risk)) {
+                logger.warn('Position nearing liquidation', {
+                    tradeId: trade.id,
+                    distancePct: evaluation.liquidationDistancePct,
+                    level: risk,
+                });
+                await notifyLiquidationRisk(
+                    trade.user_address,
+                    { tradeId: trade.id, pair: trade.pair, side: trade.side, price, liquidationPrice: liquidationPrice! },
+                    evaluation.liquidationDistancePct!,
+                    risk
+                );
+            }
+        }
+
+        if (Object.keys(updates).length > 0) {
+            await supabase.from('trades').update(updates).eq('id', trade.id);
+        }
+
+        if (evaluation.trigger) {
+            await this.closeTriggered(trade, evaluation.trigger, price);
+        }
+    }
+
+    /**
+     * Close through the router, or hand the close to the user to sign
+     */
+    private async closeTriggered(trade: MonitoredTrade, trigger: PositionTrigger, price: number): Promise<void> {
+        const position = { tradeId: trade.id, pair: trade.pair, side: trade.side, price };
+        logger.info('Position rule triggered', { tradeId: trade.id, trigger, price });
+
+        try {
+            const result = await tradeRouter.closePosition(trade.id, trade.user_address);
+            await supabase
+                .from('trades')
+                .update({ close_trigger: trigger, close_trigger_price: price })
+                .eq('id', trade.id);
+            await notifyPositionTrigger(trade.user_address, position, trigger, { closed: true, pnl: result.pnl });
+            return;
+        } catch (error) {
+            logger.warn('Router could not close triggered position, requesting user signature', {
+                tradeId: trade.id,
+                error: (error as Error).message,
+            });
+        }
+
+        const transactions = await tradeRouter.buildCloseTransactions(trade.id, trade.user_address);
+        if (transactions.length === 0) {
+            logger.warn('No open positions to close for triggered trade', { tradeId: trade.id });
+            return;
+        }
+
+        const chainId = getDefaultChainId();
+        const requests = transactions.map(tx => signingService.prepareTransaction({
+            chainId,
+            to: tx.to,
+            data: tx.data,
+            value: tx.value,
+            ttlSeconds: HANDOFF_TTL_SECONDS,
+            context: {
+                tool: 'position_monitor',
+                params: { tradeId: tx.tradeId, parentTradeId: trade.id, trigger },
+                description: `${tx.description} (${trigger.replace('_', ' ')})`,
+            },
+        }));
+
+        await supabase
+            .from('trades')
+            .update({
+                close_trigger: trigger,
+                close_trigger_price: price,
+                close_signing_ids: requests.map(r => r.transactionId),
+                close_requested_at: new Date().toISOString(),
+            })
+            .eq('id', trade.id);
+
+        await notifyPositionTrigger(trade.user_address, position, trigger, {
+            closed: false,
+            signingUrls: requests.map(r => r.signingUrl),
+        });
+    }
+
+    /**
+     * Mark positions closed as their handoff closes confirm. Returns true
+     * while any request is still in flight; failed or expired requests are
+     * dropped so the rules can fire again. The handoff store is per process,
+     * so requests it doesn't know are treated as in flight until they could
+     * no longer be signed and confirmed.
+     */
+    private async settleHandoffClose(trade: MonitoredTrade): Promise<boolean> {
+        const requests = trade.close_signing_ids!.map(id => pendingTransactionStore.get(id));
+        const exitPrice = Number(trade.close_trigger_price);
+
+        const confirmed = requests.filter(r => r?.status === 'confirmed');
+        for (const request of confirmed) {
+            const closedId = request!.context.params.tradeId as string;
+            if (closedId !== trade.id) {
+                await this.markClosed(closedId, exitPrice, request!.txHash);
+            }
+        }
+
+        if (confirmed.length === requests.length) {
+            await this.markClosed(trade.id, exitPrice, confirmed[0]?.txHash);
+            logger.info('Handoff close confirmed', { tradeId: trade.id, transactions: confirmed.length });
+            return true;
+        }
+
+        if (requests.some(r => r && IN_FLIGHT_STATUSES.has(r.status))) {
+            return true;
+        }
+
+        const requestedAt = trade.close_requested_at ? new Date(trade.close_requested_at).getTime() : 0;
+        if (requests.some(r => !r) && Date.now() < requestedAt + UNKNOWN_REQUEST_WINDOW_MS) {
+            return true;
+        }
+
+        await supabase.from('trades').update({ close_signing_ids: null }).eq('id', trade.id);
+        logger.info('Handoff close lapsed, re-arming position rules', { tradeId: trade.id });
+        return false;
+    }
+
+    private async markClosed(tradeId: string, exitPrice: number, txHash?: string): Promise<void> {
+        const { data: row } = await supabase
+            .from('trades')
+            .select('side, size_usd, entry_price')
+            .eq('id', tradeId)
+            .single();
+        if (!row) return;
+
+        const entryPrice = Number(row.entry_price);
+        const pnl = (exitPrice - entryPrice) * (Number(row.size_usd) / entryPrice) * (row.side === 'long' ? 1 : -1);
+
+        await supabase
+            .from('trades')
+            .update({
+                exit_price: exitPrice,
+                pnl_usd: pnl,
+                tx_hash_close: txHash,
+                status: 'closed',
+                closed_at: new Date().toISOString(),
+            })
+            .eq('id', tradeId)
+            .eq('status', 'open');
+    }
+
+    /**
+     * Start scheduled monitoring
+     */
+    start(): schedule.Job {
+        this.cronHandle = schedule.scheduleJob(MONITOR_CRON, async () => {
+            await this.run();
+        });
+        logger.info('Position monitor scheduled', { cron: MONITOR_CRON });
+
+        // Run immediately on start
+        this.run().catch(err => logger.error('Initial position monitor run failed', err as Error));
+
+        return this.cronHandle;
+    }
+
+    /**
+     * Stop scheduled monitoring
+     */
+    stop(): void {
+        if (this.cronHandle) {
+            this.cronHandle.cancel();
+            this.cronHandle = null;
+            logger.info('Position monitor stopped');
+        }
+
+        supabase
+            .rpc('release_worker_lease', { p_name: LEASE_NAME, p_holder: this.leaseHolder })
+            .then(({ error }) => {
+                if (error) logger.warn('Failed to release position monitor lease', { error: error.message });
+            });
+    }
+}
+
+export const positionMonitor = new PositionMonitor();
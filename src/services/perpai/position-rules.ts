@@ -0,0 +1,120 @@
+/**
+ * Position Rules
+ *
+ * Evaluates an open position against the current price: stop-loss,
+ * take-profit and trailing-stop triggers, and how close the price is to
+ * the liquidation price. Pure, so the monitor decides what to do with it.
+ */
+
+export type PositionTrigger = 'stop_loss' | 'take_profit' | 'trailing_stop';
+
+export type LiquidationRisk = 'safe' | 'warning' | 'critical';
+
+export interface MonitoredPosition {
+    side: 'long' | 'short';
+    entryPrice: number;
+    stopLoss: number | null;
+    takeProfit: number | null;
+    /** Trailing distance in percent of the best price seen */
+    trailingStopPct: number | null;
+    /** Best price seen so far: highest for longs, lowest for shorts */
+    trailingPeakPrice: number | null;
+    liquidationPrice: number | null;
+}
+
+export interface PositionRuleOptions {
+    /** Alert when the price is within this many percent of liquidation */
+    warningDistancePct: number;
+    criticalDistancePct: number;
+}
+
+export interface PositionEvaluation {
+    trigger: PositionTrigger | null;
+    /** Level that was crossed */
+    triggerPrice: number | null;
+    trailingPeakPrice: number | null;
+    trailingStopPrice: number | null;
+    /** Price move left before liquidation, in percent; null without a liquidation price */
+    liquidationDistancePct: number | null;
+    liquidationRisk: LiquidationRisk;
+}
+
+export const DEFAULT_POSITION_RULE_OPTIONS: PositionRuleOptions = {
+    warningDistancePct: Number(process.env.POSITION_MONITOR_WARNING_PCT) || 10,
+    criticalDistancePct: Number(process.env.POSITION_MONITOR_CRITICAL_PCT) || 5,
+};
+
+const RISK_RANK: Record<LiquidationRisk, number> = { safe: 0, warning: 1, critical: 2 };
+
+/**
+ * Price at which a position loses 90% of its margin
+ */
+export function liquidationPriceFor(entryPrice: number, side: 'long' | 'short', leverage: number): number {
+    return side === 'long'
+        ? entryPrice * (1 - 0.9 / leverage)
+        : entryPrice * (1 + 0.9 / leverage);
+}
+
+function isSet(level: number | null): level is number {
+    return level !== null && Number.isFinite(level) && level > 0;
+}
+
+/**
+ * Evaluate a position at the current price. Stop-loss wins over the
+ * trailing stop, which wins over take-profit, when several fire at once.
+ */
+export function evaluatePosition(
+    position: MonitoredPosition,
+    price: number,
+    overrides: Partial<PositionRuleOptions> = {}
+): PositionEvaluation {
+    const options = { ...DEFAULT_POSITION_RULE_OPTIONS, ...overrides };
+    const isLong = position.side === 'long';
+
+    // Adverse: price at or past the level against the position; favorable: with it
+    const adverse = (level: number) => (isLong ? price <= level : price >= level);
+    const favorable = (level: number) => (isLong ? price >= level : price <= level);
+
+    let trailingPeakPrice: number | null = null;
+    let trailingStopPrice: number | null = null;
+    if (isSet(position.trailingStopPct)) {
+        const previous = position.trailingPeakPrice ?? position.entryPrice;
+        trailingPeakPrice = isLong ? Math.max(previous, price) : Math.min(previous, price);
+        trailingStopPrice = trailingPeakPrice * (isLong
+            ? 1 - position.trailingStopPct / 100
+            : 1 + position.trailingStopPct / 100);
+    }
+
+    let trigger: PositionTrigger | null = null;
+    let triggerPrice: number | null = null;
+    if (isSet(position.stopLoss) && adverse(position.stopLoss)) {
+        trigger = 'stop_loss';
+        triggerPrice = position.stopLoss;
+    } else if (trailingStopPrice !== null && adverse(trailingStopPrice)) {
+        trigger = 'trailing_stop';
+        triggerPrice = trailingStopPrice;
+    } else if (isSet(position.takeProfit) && favorable(position.takeProfit)) {
+        trigger = 'take_profit';
+        triggerPrice = position.takeProfit;
+    }
+
+    let liquidationDistancePct: number | null = null;
+    let liquidationRisk: LiquidationRisk = 'safe';
+    if (isSet(position.liquidationPrice)) {
+        liquidationDistancePct = ((isLong ? price - position.liquidationPrice : position.liquidationPrice - price) / price) * 100;
+        if (liquidationDistancePct <= options.criticalDistancePct) {
+            liquidationRisk = 'critical';
+        } else if (liquidationDistancePct <= options.warningDistancePct) {
+            liquidationRisk = 'warning';
+        }
+    }
+
+    return { trigger, triggerPrice, trailingPeakPrice, trailingStopPrice, liquidationDistancePct, liquidationRisk };
+}
+
+/**
+ * Whether the risk level rose since the user was last alerted
+ */
+export function isRiskEscalation(previous: LiquidationRisk, current: LiquidationRisk): boolean {
+    return RISK_RANK[current] > RISK_RANK[previous];
+}
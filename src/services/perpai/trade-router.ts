@@ -4,149 +4,289 @@ import { fulcrumIntegration } from '../../lib/blockchain/fulcrum-integration';
 import type { TradeQuoteRequest, TradeExecuteRequest } from '../../types/api';
 import { supabase } from '../../lib/supabase';
 import { multiDexAggregator } from '../prices/price-aggregator';
+import { PriceConsensusError } from '../prices/price-consensus';
+import { unknownMarketInfo, type PerpMarketInfo, type UnsignedPerpTransaction } from '../../lib/blockchain/perp-market';
 import logger from '../../lib/logger';
+import {
+    scoreVenue,
+    rankVenues,
+    explainVenueSelection,
+    type VenueScore,
+    type VenueSelection,
+} from './venue-scoring';
+import { planChildOrders, blendedEntryPrice, type ChildOrderPlan } from './order-splitter';
+import { liquidationPriceFor } from './position-rules';
+import { paperVenue, isPaperTrading } from './paper-venue';
 
-interface VenueScore {
+interface PerpVenueIntegration {
+    getMarketInfo(pair: string, isLong: boolean, sizeUsd: number): Promise<PerpMarketInfo>;
+}
+
+interface DexVenueRow {
+    id: string;
+    name: string;
+    max_leverage: number | null;
+    trading_fee_bps: number | null;
+    supported_pairs: string[] | null;
+}
+
+// Used when dex_venues is empty
+const DEFAULT_VENUES: DexVenueRow[] = [
+    { id: 'moonlander-default', name: 'Moonlander', max_leverage: null, trading_fee_bps: 10, supported_pairs: null },
+];
+
+type TradeQuote = Awaited<ReturnType<TradeRouter['getQuote']>>;
+type AggregatedPrice = Awaited<ReturnType<typeof multiDexAggregator.getAggregatedPrice>>;
+
+/**
+ * The consensus price, or PriceConsensusError when too few sources agree.
+ * bestPrice is 0 without consensus, which must never reach a venue as an
+ * acceptable price.
+ */
+function consensusPrice(priceData: AggregatedPrice, pair: string): number {
+    if (!priceData.consensus) {
+        throw new PriceConsensusError(
+            priceData.symbol,
+            `No price consensus for ${pair}: ${priceData.consensusError}`,
+            priceData.rejectedSources
+        );
+    }
+    return priceData.bestPrice;
+}
+
+interface ChildFill {
+    tradeId: string | null;
     venueId: string;
     venueName: string;
-    reputationScore: number;
-    liquidityScore: number;
-    feeScore: number;
-    latencyMs: number;
-    compositeScore: number;
+    sizeUsd: number;
+    entryPrice: number;
+    txHash: string;
+    positionKey: string;
+}
+
+interface ChildAttempt {
+    venue: string;
+    sizeUsd: number;
+    filled: boolean;
+    txHash?: string;
+    error?: string;
+    /** Venue whose failed child this attempt replaced */
+    retryOf?: string;
+}
+
+interface ClosePositionResult {
+    tradeId: string;
+    txHash: string;
+    exitPrice: number;
+    pnl: number;
+    pnlPercentage: number;
+    executionTime: number;
+    status: string;
+    childOrders?: Array<ClosePositionResult & { sizeUsd: number }>;
+}
+
+export interface CloseTransaction extends UnsignedPerpTransaction {
+    tradeId: string;
+    venue: string;
+    sizeUsd: number;
+    description: string;
+}
+
+interface UnwindResult {
+    venue: string;
+    sizeUsd: number;
+    closed: boolean;
+    txHash?: string;
+    error?: string;
+}
+
+/**
+ * Raised when no venue can take the order at the requested leverage and size
+ */
+export class VenueSelectionError extends Error {
+    readonly code = 'NO_ELIGIBLE_VENUE' as const;
+
+    constructor(message: string, public readonly candidates: VenueScore[]) {
+        super(message);
+        this.name = 'VenueSelectionError';
+    }
+}
+
+/**
+ * Raised when a split order can't be filled in full and partial fills weren't accepted
+ */
+export class SplitOrderError extends Error {
+    readonly code = 'SPLIT_ORDER_FAILED' as const;
+
+    constructor(
+        message: string,
+        public readonly parentTradeId: string | null,
+        public readonly filledUsd: number,
+        public readonly attempts: ChildAttempt[],
+        public readonly unwound: UnwindResult[]
+    ) {
+        super(message);
+        this.name = 'SplitOrderError';
+    }
+}
+
+/**
+ * Venue name a trade row was opened on
+ */
+function tradeVenueName(trade: any): string {
+    return trade.dex_venues?.name?.toLowerCase() ||
+        trade.metadata?.venue?.toLowerCase() ||
+        'moonlander';
+}
+
+/**
+ * Position client for a venue name, defaulting to Moonlander
+ */
+function positionClientFor(venueName: string) {
+    if (venueName.includes('gmx')) return gmxIntegration;
+    if (venueName.includes('fulcrum') || venueName.includes('fulcrom')) return fulcrumIntegration;
+    return moonlanderIntegration;
+}
+
+/**
+ * Perp client for a venue name; null for spot DEXes and unknown venues
+ */
+function perpIntegrationFor(venueName: string): PerpVenueIntegration | null {
+    const name = venueName.toLowerCase();
+    if (name.includes('moonlander')) return moonlanderIntegration;
+    if (name.includes('gmx')) return gmxIntegration;
+    if (name.includes('fulcrom') || name.includes('fulcrum') || name.includes('gains')) return fulcrumIntegration;
+    return null;
 }
 
 export class TradeRouter {
     /**
-     * Get quotes from ALL venues in parallel
-     * Select best based on composite score (price, reputation, latency)
+     * Score every perp venue listing the pair against this order's side,
+     * leverage and size, using live market state from each venue's client.
+     * Returns the winner with the full breakdown so callers can explain it.
      */
-    async getBestVenue(_request: TradeQuoteRequest): Promise<VenueScore> {
+    async getBestVenue(request: TradeQuoteRequest): Promise<VenueSelection> {
         const startTime = performance.now();
 
-        // Query venues for scoring
         const venuesResult = await supabase
             .from('dex_venues')
             .select('*')
             .eq('is_active', true);
 
-        const venues = venuesResult.data || [];
+        const rows: DexVenueRow[] = venuesResult.data?.length ? venuesResult.data : DEFAULT_VENUES;
+        const venues = rows.filter(venue =>
+            perpIntegrationFor(venue.name) !== null &&
+            (!venue.supported_pairs?.length || venue.supported_pairs.includes(request.pair))
+        );
 
         if (venues.length === 0) {
-            // Default to Moonlander if no venues in DB
-            return {
-                venueId: 'moonlander-default',
-                venueName: 'Moonlander',
-                reputationScore: 100,
-                liquidityScore: 100,
-                feeScore: 100,
-                latencyMs: Math.round(performance.now() - startTime),
-                compositeScore: 100,
-            };
+            throw new VenueSelectionError(`No perp venue lists ${request.pair}`, []);
         }
 
         // Score each venue in parallel
-        const scoredVenues = await Promise.all(
+        const scores = await Promise.all(
             venues.map(async (venue) => {
                 const venueStart = performance.now();
+                const isLong = request.side === 'long';
 
-                // Get venue-specific metrics
-                const { data: trades } = await supabase
-                    .from('trades')
-                    .select('status')
-                    .eq('venue_id', venue.id)
-                    .limit(100);
-
-                const successRate = trades
-                    ? trades.filter(t => t.status === 'closed').length / Math.max(trades.length, 1)
-                    : 0.8;
+                const [market, successRate] = await Promise.all([
+                    perpIntegrationFor(venue.name)!
+                        .getMarketInfo(request.pair, isLong, request.sizeUsd)
+                        .catch((error: Error) => {
+                            logger.warn('Venue market data unavailable', { venue: venue.name, error: error.message });
+                            return unknownMarketInfo(request.pair, isLong);
+                        }),
+                    this.getVenueSuccessRate(venue.id),
+                ]);
 
-                const reputationScore = successRate * 100;
-                const feeScore = Math.max(0, 100 - (venue.trading_fee_bps / 5));
-
-                // Query actual liquidity based on recent trade volume
-                const { data: recentTrades } = await supabase
-                    .from('trades')
-                    .select('size_usd')
-                    .eq('venue_id', venue.id)
-                    .gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
-
-                const totalVolume = recentTrades?.reduce((sum, t) => sum + (parseFloat(t.size_usd) || 0), 0) || 0;
-                // Score based on 24h volume: 100k+ = 100, 10k+ = 80, 1k+ = 60, else 40
-                const liquidityScore = totalVolume >= 100000 ? 100
-                    : totalVolume >= 10000 ? 80
-                        : totalVolume >= 1000 ? 60
-                            : 40;
-
-                // Weights optimized for execution quality
-                const weights = {
-                    reputation: 0.4,
-                    liquidity: 0.3,
-                    fees: 0.2,
-                    latency: 0.1,
-                };
-
-                const latencyMs = Math.round(performance.now() - venueStart);
-                const latencyScore = Math.max(0, 100 - (latencyMs / 10));
-
-                const compositeScore =
-                    reputationScore * weights.reputation +
-                    liquidityScore * weights.liquidity +
-                    feeScore * weights.fees +
-                    latencyScore * weights.latency;
-
-                return {
-                    venueId: venue.id,
-                    venueName: venue.name,
-                    reputationScore,
-                    liquidityScore,
-                    feeScore,
-                    latencyMs,
-                    compositeScore,
-                };
+                return scoreVenue(
+                    {
+                        venueId: venue.id,
+                        venueName: venue.name,
+                        tradingFeeBps: venue.trading_fee_bps ?? 30,
+                        maxLeverage: venue.max_leverage,
+                        successRate,
+                    },
+                    market,
+                    request,
+                    Math.round(performance.now() - venueStart)
+                );
             })
         );
 
-        // Sort by composite score (best first)
-        scoredVenues.sort((a, b) => b.compositeScore - a.compositeScore);
+        const candidates = rankVenues(scores);
+        const best = candidates[0];
+
+        if (!best.eligible) {
+            throw new VenueSelectionError(
+                `No venue can take a $${request.sizeUsd} ${request.side} on ${request.pair} at ${request.leverage}x: ` +
+                candidates.map(v => `${v.venueName} (${v.ineligibleReason})`).join(', '),
+                candidates
+            );
+        }
 
-        const best = scoredVenues[0];
+        const reason = explainVenueSelection(best, candidates, request);
         logger.info('Best venue selected', {
             venue: best.venueName,
             score: best.compositeScore,
+            reason,
             latencyMs: Math.round(performance.now() - startTime),
         });
 
-        return best;
+        return { best, candidates, reason };
     }
 
     /**
-     * Get quote with real-time price from aggregator
+     * Share of a venue's recent trades that closed; null without history
+     */
+    private async getVenueSuccessRate(venueId: string): Promise<number | null> {
+        const { data: trades } = await supabase
+            .from('trades')
+            .select('status')
+            .eq('venue_id', venueId)
+            .eq('paper', false)
+            .limit(100);
+
+        if (!trades || trades.length === 0) return null;
+        return trades.filter(t => t.status === 'closed').length / trades.length;
+    }
+
+    /**
+     * Get quote with real-time price from aggregator.
+     * Throws PriceConsensusError rather than quote off a price the sources disagree on.
      */
     async getQuote(request: TradeQuoteRequest) {
         const startTime = performance.now();
 
         // Parallel: best venue + current price
-        const [bestVenue, priceData] = await Promise.all([
+        const [selection, priceData] = await Promise.all([
             this.getBestVenue(request),
             multiDexAggregator.getAggregatedPrice(
                 request.pair.replace('-', '/') as any
             ),
         ]);
 
+        if (!priceData.consensus) {
+            throw new PriceConsensusError(
+                priceData.symbol,
+                `No price consensus for ${request.pair}: ${priceData.consensusError}`,
+                priceData.rejectedSources
+            );
+        }
+
+        const bestVenue = selection.best;
         const basePrice = priceData.bestPrice;
-        const slippageBps = request.sizeUsd > 10000 ? 50 : 20;
+        // Venue-reported impact for this size, else the flat size-based estimate
+        const slippageBps = bestVenue.market.priceImpactBps ?? (request.sizeUsd > 10000 ? 50 : 20);
         const expectedSlippage = (slippageBps / 10000) * 100;
 
         const expectedPrice = request.side === 'long'
             ? basePrice * (1 + expectedSlippage / 100)
             : basePrice * (1 - expectedSlippage / 100);
 
-        const liquidationPrice = request.side === 'long'
-            ? expectedPrice * (1 - 0.9 / request.leverage)
-            : expectedPrice * (1 + 0.9 / request.leverage);
+        const liquidationPrice = liquidationPriceFor(expectedPrice, request.side, request.leverage);
 
-        const totalFees = request.sizeUsd * 0.001;
+        const totalFees = request.sizeUsd * (bestVenue.market.tradingFeeBps / 10000);
         const latencyMs = Math.round(performance.now() - startTime);
 
         return {
@@ -154,27 +294,58 @@ export class TradeRouter {
                 id: bestVenue.venueId,
                 name: bestVenue.venueName,
                 reputationScore: bestVenue.reputationScore,
+                compositeScore: bestVenue.compositeScore,
+            },
+            venueSelection: {
+                reason: selection.reason,
+                candidates: selection.candidates,
             },
             priceSource: priceData.bestSource,
             priceSources: priceData.sources.length,
+            priceConfidence: priceData.confidence,
+            rejectedPriceSources: priceData.rejectedSources,
+            markPrice: basePrice,
             expectedPrice,
             expectedSlippage,
-            priceImpact: expectedSlippage / 2, // Approximate price impact
+            priceImpact: bestVenue.market.priceImpactBps !== null
+                ? bestVenue.market.priceImpactBps / 100
+                : expectedSlippage / 2, // Approximate price impact
             liquidationPrice,
             totalFees,
             estimatedExecutionTime: 3000,
             quoteLatencyMs: latencyMs,
-            alternativeVenues: [],
+            alternativeVenues: selection.candidates
+                .filter(v => v.eligible && v.venueId !== bestVenue.venueId)
+                .map(v => ({
+                    name: v.venueName,
+                    score: v.compositeScore,
+                    expectedSlippage: v.market.priceImpactBps === null ? null : v.market.priceImpactBps / 100,
+                })),
         };
     }
 
     /**
-     * Execute trade with best venue routing
+     * Execute trade with best venue routing.
+     * Orders above the split threshold are divided across venues (see executeSplitOrder).
+     * Paper orders are filled in full on the paper venue instead (see paper-venue.ts).
      */
     async executeTrade(request: TradeExecuteRequest) {
         const startTime = performance.now();
         const quote = await this.getQuote(request);
 
+        if (isPaperTrading(request)) {
+            return this.executePaperTrade(request, quote, startTime);
+        }
+
+        const plan = planChildOrders(
+            request.sizeUsd,
+            quote.venueSelection.candidates,
+            request.split === false ? { thresholdUsd: Infinity } : {}
+        );
+        if (plan.length > 1) {
+            return this.executeSplitOrder(request, quote, plan, startTime);
+        }
+
         logger.info('Executing trade', {
             pair: request.pair,
             side: request.side,
@@ -183,22 +354,9 @@ export class TradeRouter {
         });
 
         try {
-            let result;
-
             // Route to the appropriate venue based on best score
             const venueName = quote.bestVenue.name.toLowerCase();
-
-            if (venueName.includes('moonlander')) {
-                result = await this.executeOnMoonlander(request, quote);
-            } else if (venueName.includes('gmx')) {
-                result = await this.executeOnGMX(request, quote);
-            } else if (venueName.includes('fulcrom') || venueName.includes('gains')) {
-                result = await this.executeOnFulcrom(request, quote);
-            } else {
-                // Default to Moonlander
-                logger.warn('Unknown venue, defaulting to Moonlander', { venue: venueName });
-                result = await this.executeOnMoonlander(request, quote);
-            }
+            const result = await this.openOnVenue(venueName, request, quote.expectedPrice);
 
             // Record trade in database
             const { data: trade } = await supabase
@@ -214,9 +372,10 @@ export class TradeRouter {
                     liquidation_price: quote.liquidationPrice,
                     stop_loss: request.stopLoss,
                     take_profit: request.takeProfit,
+                    trailing_stop_pct: request.trailingStopPct,
                     tx_hash_open: result.txHash,
                     status: 'open',
-                    metadata: { quote, priceSource: quote.priceSource, venue: venueName },
+                    metadata: { quote, priceSource: quote.priceSource, venue: venueName, positionKey: result.positionKey },
                 })
                 .select()
                 .single();
@@ -230,57 +389,7 @@ export class TradeRouter {
                 executionTime,
             });
 
-            // Record outcome to ERC-8004 Reputation Registry (if configured)
-            if (process.env.REPUTATION_REGISTRY_ADDRESS && process.env.RELAY_CORE_AGENT_ID) {
-                try {
-                    const { calculateTradeScore } = await import('../../lib/erc8004-client');
-
-                    const tradeScore = calculateTradeScore({
-                        success: true,
-                        slippage: quote.expectedSlippage,
-                        executionTime,
-                        priceImpact: quote.priceImpact || 0,
-                    });
-
-                    logger.info('Trade outcome recorded to ERC-8004', {
-                        agentId: process.env.RELAY_CORE_AGENT_ID,
-                        score: tradeScore,
-                        venue: venueName,
-                    });
-
-                    // Note: Actual on-chain recording would happen here with a signer
-                    // For now, we just log it. Frontend can record it when user confirms.
-                } catch (error) {
-                    logger.warn('Failed to record trade outcome to ERC-8004', error as Error);
-                }
-            }
-
-            // Request validation for high-value trades (>$10k)
-            if (request.sizeUsd >= 10000) {
-                try {
-                    const { requestValidationForTrade } = await import('../validation/trade-validation');
-
-                    await requestValidationForTrade({
-                        tradeId: trade?.id || '',
-                        pair: request.pair,
-                        side: request.side,
-                        sizeUsd: request.sizeUsd,
-                        leverage: request.leverage,
-                        venue: venueName,
-                        expectedPrice: quote.expectedPrice,
-                        actualPrice: quote.expectedPrice, // Would be actual from contract
-                        slippage: quote.expectedSlippage,
-                        executionTime,
-                    });
-
-                    logger.info('Validation requested for high-value trade', {
-                        tradeId: trade?.id,
-                        sizeUsd: request.sizeUsd,
-                    });
-                } catch (error) {
-                    logger.warn('Failed to request validation', error as Error);
-                }
-            }
+            await this.recordTradeOutcome(trade?.id || '', request, quote, venueName, quote.expectedPrice, executionTime);
 
             return {
                 tradeId: trade?.id || '',
@@ -301,10 +410,362 @@ export class TradeRouter {
         }
     }
 
+    /**
+     * Simulate the fill on the paper venue, priced like the best venue.
+     * No reputation or validation reporting: nothing touched a real venue.
+     */
+    private async executePaperTrade(request: TradeExecuteRequest, quote: TradeQuote, startTime: number) {
+        const venue = quote.venueSelection.candidates.find(v => v.venueId === quote.bestVenue.id)!;
+
+        const fill = await paperVenue.openPosition(request, {
+            venueId: venue.venueId,
+            venueName: venue.venueName,
+            markPrice: quote.markPrice,
+            tradingFeeBps: venue.market.tradingFeeBps,
+            priceImpactBps: venue.market.priceImpactBps,
+        });
+
+        return {
+            tradeId: fill.tradeId,
+            txHash: fill.txHash,
+            venue: quote.bestVenue.name,
+            entryPrice: fill.entryPrice,
+            liquidationPrice: fill.liquidationPrice,
+            actualSlippage: fill.slippageBps / 100,
+            executionTime: Math.round(performance.now() - startTime),
+            status: 'success',
+            paper: true,
+            feesUsd: fill.feesUsd,
+            paperBalanceUsd: fill.balanceUsd,
+        };
+    }
+
+    /**
+     * Post-trade reporting: ERC-8004 reputation outcome and validation for
+     * high-value trades. Failures are logged, never thrown.
+     */
+    private async recordTradeOutcome(
+        tradeId: string,
+        request: TradeExecuteRequest,
+        quote: TradeQuote,
+        venueName: string,
+        actualPrice: number,
+        executionTime: number
+    ) {
+        // Record outcome to ERC-8004 Reputation Registry (if configured)
+        if (process.env.REPUTATION_REGISTRY_ADDRESS && process.env.RELAY_CORE_AGENT_ID) {
+            try {
+                const { calculateTradeScore } = await import('../../lib/erc8004-client');
+
+                const tradeScore = calculateTradeScore({
+                    success: true,
+                    slippage: quote.expectedSlippage,
+                    executionTime,
+                    priceImpact: quote.priceImpact || 0,
+                });
+
+                logger.info('Trade outcome recorded to ERC-8004', {
+                    agentId: process.env.RELAY_CORE_AGENT_ID,
+                    score: tradeScore,
+                    venue: venueName,
+                });
+
+                // Note: Actual on-chain recording would happen here with a signer
+                // For now, we just log it. Frontend can record it when user confirms.
+            } catch (error) {
+                logger.warn('Failed to record trade outcome to ERC-8004', error as Error);
+            }
+        }
+
+        // Request validation for high-value trades (>$10k)
+        if (request.sizeUsd >= 10000) {
+            try {
+                const { requestValidationForTrade } = await import('../validation/trade-validation');
+
+                await requestValidationForTrade({
+                    tradeId,
+                    pair: request.pair,
+                    side: request.side,
+                    sizeUsd: request.sizeUsd,
+                    leverage: request.leverage,
+                    venue: venueName,
+                    expectedPrice: quote.expectedPrice,
+                    actualPrice,
+                    slippage: quote.expectedSlippage,
+                    executionTime,
+                });
+
+                logger.info('Validation requested for high-value trade', {
+                    tradeId,
+                    sizeUsd: request.sizeUsd,
+                });
+            } catch (error) {
+                logger.warn('Failed to request validation', error as Error);
+            }
+        }
+    }
+
+    /**
+     * Execute an order as child orders across venues, tracked under a parent
+     * row in `trades`. Children are sent in parallel; a child that fails is
+     * retried once on the best remaining venue with room. If the order still
+     * isn't fully filled, the filled children are unwound unless the request
+     * accepts partial fills.
+     */
+    private async executeSplitOrder(
+        request: TradeExecuteRequest,
+        quote: TradeQuote,
+        plan: ChildOrderPlan[],
+        startTime: number
+    ) {
+        logger.info('Executing split order', {
+            pair: request.pair,
+            side: request.side,
+            size: request.sizeUsd,
+            children: plan.map(c => `${c.venueName}: $${c.sizeUsd}`),
+        });
+
+        const { data: parent } = await supabase
+            .from('trades')
+            .insert({
+                user_address: request.userAddress,
+                pair: request.pair,
+                side: request.side,
+                leverage: request.leverage,
+                size_usd: request.sizeUsd,
+                entry_price: quote.expectedPrice,
+                liquidation_price: quote.liquidationPrice,
+                stop_loss: request.stopLoss,
+                take_profit: request.takeProfit,
+                trailing_stop_pct: request.trailingStopPct,
+                order_type: 'parent',
+                status: 'pending',
+                metadata: { quote, priceSource: quote.priceSource, plan },
+            })
+            .select()
+            .single();
+        const parentId: string | null = parent?.id ?? null;
+
+        const fills: ChildFill[] = [];
+        const attempts: ChildAttempt[] = [];
+        const failedVenues = new Set<string>();
+
+        const firstPass = await Promise.allSettled(plan.map(child => this.fillChild(request, quote, child, parentId)));
+        const retries: ChildOrderPlan[] = [];
+        firstPass.forEach((result, i) => {
+            const child = plan[i];
+            if (result.status === 'fulfilled') {
+                fills.push(result.value);
+                attempts.push({ venue: child.venueName, sizeUsd: child.sizeUsd, filled: true, txHash: result.value.txHash });
+            } else {
+                failedVenues.add(child.venueId);
+                attempts.push({ venue: child.venueName, sizeUsd: child.sizeUsd, filled: false, error: (result.reason as Error).message });
+                retries.push(child);
+            }
+        });
+
+        for (const child of retries) {
+            const venue = this.pickRetryVenue(quote.venueSelection.candidates, child.sizeUsd, failedVenues, fills);
+            if (!venue) continue;
+
+            const retry: ChildOrderPlan = {
+                venueId: venue.venueId,
+                venueName: venue.venueName,
+                sizeUsd: child.sizeUsd,
+                expectedImpactBps: venue.market.priceImpactBps === null
+                    ? null
+                    : venue.market.priceImpactBps * (child.sizeUsd / request.sizeUsd),
+            };
+
+            try {
+                const fill = await this.fillChild(request, quote, retry, parentId);
+                fills.push(fill);
+                attempts.push({ venue: retry.venueName, sizeUsd: retry.sizeUsd, filled: true, txHash: fill.txHash, retryOf: child.venueName });
+            } catch (error) {
+                failedVenues.add(retry.venueId);
+                attempts.push({ venue: retry.venueName, sizeUsd: retry.sizeUsd, filled: false, error: (error as Error).message, retryOf: child.venueName });
+            }
+        }
+
+        const filledUsd = fills.reduce((sum, f) => sum + f.sizeUsd, 0);
+        const unfilledUsd = Math.round((request.sizeUsd - filledUsd) * 100) / 100;
+
+        if (unfilledUsd > 0 && request.partialFill !== 'accept') {
+            const unwound = await this.unwindFills(request, quote, fills);
+
+            if (parentId) {
+                await supabase
+                    .from('trades')
+                    .update({
+                        status: 'failed',
+                        size_usd: 0,
+                        metadata: { quote, priceSource: quote.priceSource, plan, attempts, unwound },
+                    })
+                    .eq('id', parentId);
+            }
+
+            throw new SplitOrderError(
+                `Split order filled $${filledUsd} of $${request.sizeUsd}; ` +
+                `${unwound.every(u => u.closed) ? 'filled children were unwound' : 'some children could not be unwound'}`,
+                parentId,
+                filledUsd,
+                attempts,
+                unwound
+            );
+        }
+
+        const entryPrice = blendedEntryPrice(fills);
+        const liquidationPrice = liquidationPriceFor(entryPrice, request.side, request.leverage);
+
+        if (parentId) {
+            await supabase
+                .from('trades')
+                .update({
+                    size_usd: filledUsd,
+                    entry_price: entryPrice,
+                    liquidation_price: liquidationPrice,
+                    tx_hash_open: fills[0].txHash,
+                    status: 'open',
+                    metadata: { quote, priceSource: quote.priceSource, plan, attempts, unfilledUsd },
+                })
+                .eq('id', parentId);
+        }
+
+        const executionTime = Math.round(performance.now() - startTime);
+        const venues = fills.map(f => f.venueName).join(', ');
+
+        logger.info('Split order executed', {
+            tradeId: parentId,
+            venues,
+            filledUsd,
+            unfilledUsd,
+            entryPrice,
+            executionTime,
+        });
+
+        await this.recordTradeOutcome(parentId || '', request, quote, venues, entryPrice, executionTime);
+
+        return {
+            tradeId: parentId || '',
+            txHash: fills[0].txHash,
+            venue: venues,
+            entryPrice,
+            liquidationPrice,
+            actualSlippage: Math.abs(entryPrice / quote.markPrice - 1) * 100,
+            executionTime,
+            status: unfilledUsd > 0 ? 'partially_filled' : 'success',
+            filledSizeUsd: filledUsd,
+            childOrders: fills,
+        };
+    }
+
+    /**
+     * Open one child order and record it under the parent
+     */
+    private async fillChild(
+        request: TradeExecuteRequest,
+        quote: TradeQuote,
+        child: ChildOrderPlan,
+        parentId: string | null
+    ): Promise<ChildFill> {
+        const direction = request.side === 'long' ? 1 : -1;
+        const expectedPrice = quote.markPrice * (1 + direction * (child.expectedImpactBps ?? 0) / 10000);
+
+        const result = await this.openOnVenue(child.venueName, { ...request, sizeUsd: child.sizeUsd }, expectedPrice);
+        if (result.status === 'failed') {
+            throw new Error(`Open position reverted on ${child.venueName}: ${result.txHash}`);
+        }
+
+        const entryPrice = result.entryPrice || expectedPrice;
+
+        const { data: row } = await supabase
+            .from('trades')
+            .insert({
+                user_address: request.userAddress,
+                venue_id: child.venueId,
+                parent_trade_id: parentId,
+                order_type: 'child',
+                pair: request.pair,
+                side: request.side,
+                leverage: request.leverage,
+                size_usd: child.sizeUsd,
+                entry_price: entryPrice,
+                liquidation_price: liquidationPriceFor(entryPrice, request.side, request.leverage),
+                tx_hash_open: result.txHash,
+                status: 'open',
+                metadata: { venue: child.venueName, positionKey: result.positionKey },
+            })
+            .select()
+            .single();
+
+        return {
+            tradeId: row?.id ?? null,
+            venueId: child.venueId,
+            venueName: child.venueName,
+            sizeUsd: child.sizeUsd,
+            entryPrice,
+            txHash: result.txHash,
+            positionKey: result.positionKey,
+        };
+    }
+
+    /**
+     * Best-ranked eligible venue that hasn't failed and can still absorb sizeUsd
+     */
+    private pickRetryVenue(
+        candidates: VenueScore[],
+        sizeUsd: number,
+        failedVenues: Set<string>,
+        fills: ChildFill[]
+    ): VenueScore | null {
+        return candidates.find(venue => {
+            if (!venue.eligible || failedVenues.has(venue.venueId)) return false;
+
+            const headroom = venue.market.availableOpenInterestUsd;
+            if (headroom === null) return true;
+
+            const used = fills.filter(f => f.venueId === venue.venueId).reduce((sum, f) => sum + f.sizeUsd, 0);
+            return headroom - used >= sizeUsd;
+        }) ?? null;
+    }
+
+    /**
+     * Close every filled child of a split order that couldn't complete
+     */
+    private async unwindFills(request: TradeExecuteRequest, quote: TradeQuote, fills: ChildFill[]): Promise<UnwindResult[]> {
+        return Promise.all(fills.map(async (fill): Promise<UnwindResult> => {
+            try {
+                const result = await this.closeOnVenue(fill.venueName, {
+                    positionKey: fill.positionKey,
+                    sizeUsd: fill.sizeUsd,
+                    currentPrice: quote.markPrice,
+                    userAddress: request.userAddress,
+                });
+
+                if (fill.tradeId) {
+                    await supabase
+                        .from('trades')
+                        .update({
+                            exit_price: quote.markPrice,
+                            tx_hash_close: result.txHash,
+                            status: 'closed',
+                            closed_at: new Date().toISOString(),
+                        })
+                        .eq('id', fill.tradeId);
+                }
+
+                return { venue: fill.venueName, sizeUsd: fill.sizeUsd, closed: true, txHash: result.txHash };
+            } catch (error) {
+                logger.error('Failed to unwind child order', error as Error, { venue: fill.venueName, tradeId: fill.tradeId });
+                return { venue: fill.venueName, sizeUsd: fill.sizeUsd, closed: false, error: (error as Error).message };
+            }
+        }));
+    }
+
     /**
      * Execute trade on Moonlander
      */
-    private async executeOnMoonlander(request: TradeExecuteRequest, quote: any) {
+    private async executeOnMoonlander(request: TradeExecuteRequest, currentPrice: number) {
         return await moonlanderIntegration.openPosition({
             pair: request.pair,
             isLong: request.side === 'long',
@@ -312,7 +773,7 @@ export class TradeRouter {
             sizeUsd: request.sizeUsd,
             leverage: request.leverage,
             acceptableSlippage: request.maxSlippage || 0.5,
-            currentPrice: quote.expectedPrice,
+            currentPrice,
             userAddress: request.userAddress,
             stopLoss: request.stopLoss,
             takeProfit: request.takeProfit,
@@ -322,7 +783,7 @@ export class TradeRouter {
     /**
      * Execute trade on GMX
      */
-    private async executeOnGMX(request: TradeExecuteRequest, quote: any) {
+    private async executeOnGMX(request: TradeExecuteRequest, currentPrice: number) {
         return await gmxIntegration.openPosition({
             pair: request.pair,
             isLong: request.side === 'long',
@@ -330,7 +791,7 @@ export class TradeRouter {
             sizeUsd: request.sizeUsd,
             leverage: request.leverage,
             acceptableSlippage: request.maxSlippage || 0.5,
-            currentPrice: quote.expectedPrice,
+            currentPrice,
             userAddress: request.userAddress,
             stopLoss: request.stopLoss,
             takeProfit: request.takeProfit,
@@ -340,7 +801,7 @@ export class TradeRouter {
     /**
      * Execute trade on Fulcrom
      */
-    private async executeOnFulcrom(request: TradeExecuteRequest, quote: any) {
+    private async executeOnFulcrom(request: TradeExecuteRequest, currentPrice: number) {
         return await fulcrumIntegration.openPosition({
             pair: request.pair,
             isLong: request.side === 'long',
@@ -348,17 +809,59 @@ export class TradeRouter {
             sizeUsd: request.sizeUsd,
             leverage: request.leverage,
             acceptableSlippage: request.maxSlippage || 0.5,
-            currentPrice: quote.expectedPrice,
+            currentPrice,
             userAddress: request.userAddress,
             stopLoss: request.stopLoss,
             takeProfit: request.takeProfit,
         });
     }
 
+    /**
+     * Open a position on a venue by name. Unknown venues are an error;
+     * orders are never rerouted to a venue that wasn't selected.
+     */
+    private async openOnVenue(
+        venueName: string,
+        request: TradeExecuteRequest,
+        currentPrice: number
+    ): Promise<{ txHash: string; positionKey: string; entryPrice?: number; status?: string }> {
+        const name = venueName.toLowerCase();
+
+        if (name.includes('moonlander')) return this.executeOnMoonlander(request, currentPrice);
+        if (name.includes('gmx')) return this.executeOnGMX(request, currentPrice);
+        if (name.includes('fulcrom') || name.includes('fulcrum') || name.includes('gains')) {
+            return this.executeOnFulcrom(request, currentPrice);
+        }
+
+        throw new Error(`No execution client for venue ${venueName}`);
+    }
+
+    /**
+     * Close a position opened by openOnVenue
+     */
+    private async closeOnVenue(
+        venueName: string,
+        params: { positionKey: string; sizeUsd: number; currentPrice: number; userAddress: string }
+    ): Promise<{ txHash: string }> {
+        const name = venueName.toLowerCase();
+
+        if (name.includes('moonlander')) {
+            return moonlanderIntegration.closePosition({ ...params, acceptableSlippage: 0.5 });
+        }
+        if (name.includes('gmx')) {
+            return gmxIntegration.closePosition({ ...params, acceptableSlippage: 0.5 });
+        }
+        if (name.includes('fulcrom') || name.includes('fulcrum') || name.includes('gains')) {
+            return fulcrumIntegration.closePosition({ positionKey: params.positionKey, userAddress: params.userAddress });
+        }
+
+        throw new Error(`No execution client for venue ${venueName}`);
+    }
+
     /**
      * Close position with real-time price
      */
-    async closePosition(tradeId: string, userAddress: string) {
+    async closePosition(tradeId: string, userAddress: string): Promise<ClosePositionResult> {
         const { data: trade } = await supabase
             .from('trades')
             .select('*, dex_venues(*)')
@@ -368,19 +871,17 @@ export class TradeRouter {
 
         if (!trade) throw new Error('Trade not found');
 
-        // Determine which venue the position was opened on
-        const venueName = trade.dex_venues?.name?.toLowerCase() ||
-                          trade.metadata?.venue?.toLowerCase() ||
-                          'moonlander';
-
-        // Select the correct integration based on venue
-        const getIntegration = () => {
-            if (venueName.includes('gmx')) return gmxIntegration;
-            if (venueName.includes('fulcrum') || venueName.includes('fulcrom')) return fulcrumIntegration;
-            return moonlanderIntegration; // Default
-        };
+        if (trade.order_type === 'parent') {
+            return this.closeParentOrder(trade, userAddress);
+        }
 
-        const integration = getIntegration();
+        if (trade.paper) {
+            return this.closePaperPosition(trade);
+        }
+
+        // Determine which venue the position was opened on
+        const venueName = tradeVenueName(trade);
+        const integration = positionClientFor(venueName);
 
         try {
             // Get position and current price in parallel
@@ -399,7 +900,7 @@ export class TradeRouter {
                 throw new Error(`Position not found on ${venueName}`);
             }
 
-            const currentPrice = priceData.bestPrice;
+            const currentPrice = consensusPrice(priceData, trade.pair);
 
             const result = await integration.closePosition({
                 positionKey: position.key,
@@ -446,6 +947,176 @@ export class TradeRouter {
         }
     }
 
+    /**
+     * Unsigned close transactions for a trade, for the user to sign through
+     * handoff when the router can't close the position itself. Split orders
+     * get one transaction per open child.
+     */
+    async buildCloseTransactions(tradeId: string, userAddress: string): Promise<CloseTransaction[]> {
+        const { data: trade } = await supabase
+            .from('trades')
+            .select('*, dex_venues(*)')
+            .eq('id', tradeId)
+            .eq('user_address', userAddress)
+            .single();
+
+        if (!trade) throw new Error('Trade not found');
+
+        // Paper trades settle server-side; there is nothing to sign
+        if (trade.paper) return [];
+
+        if (trade.order_type === 'parent') {
+            const { data: children } = await supabase
+                .from('trades')
+                .select('id')
+                .eq('parent_trade_id', trade.id)
+                .eq('status', 'open');
+
+            const perChild: CloseTransaction[][] = await Promise.all(
+                (children || []).map(child => this.buildCloseTransactions(child.id, userAddress))
+            );
+            return perChild.flat();
+        }
+
+        const venueName = tradeVenueName(trade);
+        const sizeUsd = Number(trade.size_usd);
+
+        const isGmx = venueName.includes('gmx');
+        const isFulcrom = venueName.includes('fulcrum') || venueName.includes('fulcrom');
+
+        // Key recorded at open; Moonlander positions can also be looked up on-chain
+        let positionKey: string | undefined = trade.metadata?.positionKey;
+        if (!positionKey && !isGmx && !isFulcrom) {
+            positionKey = (await moonlanderIntegration.getPosition(userAddress, trade.pair, trade.side === 'long'))?.key;
+        }
+        if (!positionKey) {
+            throw new Error(`Position not found on ${venueName}`);
+        }
+
+        const priceData = await multiDexAggregator.getAggregatedPrice(trade.pair.replace('-', '/') as any);
+        const params = { positionKey, sizeUsd, acceptableSlippage: 0.5, currentPrice: consensusPrice(priceData, trade.pair) };
+
+        let transaction: UnsignedPerpTransaction;
+        if (isGmx) {
+            transaction = gmxIntegration.encodeClosePosition(params);
+        } else if (isFulcrom) {
+            transaction = fulcrumIntegration.encodeClosePosition(params);
+        } else {
+            transaction = moonlanderIntegration.encodeClosePosition(params);
+        }
+
+        return [{
+            ...transaction,
+            tradeId: trade.id,
+            venue: venueName,
+            sizeUsd,
+            description: `Close ${trade.side} ${trade.pair} ($${sizeUsd.toFixed(2)}) on ${venueName}`,
+        }];
+    }
+
+    /**
+     * Close a trade only if it is a paper trade, so callers without a
+     * signer can't reach real venues
+     */
+    async closePaperTrade(tradeId: string, userAddress: string): Promise<ClosePositionResult> {
+        const { data: trade } = await supabase
+            .from('trades')
+            .select('*')
+            .eq('id', tradeId)
+            .eq('user_address', userAddress)
+            .single();
+
+        if (!trade || !trade.paper) throw new Error('Paper trade not found');
+
+        return this.closePaperPosition(trade);
+    }
+
+    /**
+     * Settle a paper trade at the current consensus price
+     */
+    private async closePaperPosition(trade: any): Promise<ClosePositionResult> {
+        const startTime = performance.now();
+        const priceData = await multiDexAggregator.getAggregatedPrice(trade.pair.replace('-', '/') as any);
+
+        if (!priceData.consensus) {
+            throw new PriceConsensusError(
+                priceData.symbol,
+                `No price consensus for ${trade.pair}: ${priceData.consensusError}`,
+                priceData.rejectedSources
+            );
+        }
+
+        const result = await paperVenue.closePosition(trade, priceData.bestPrice);
+
+        return {
+            tradeId: trade.id,
+            txHash: result.txHash,
+            exitPrice: result.exitPrice,
+            pnl: result.pnl,
+            pnlPercentage: (result.pnl / Number(trade.size_usd)) * 100,
+            executionTime: Math.round(performance.now() - startTime),
+            status: result.status,
+        };
+    }
+
+    /**
+     * Close a split order by closing each open child, then the parent.
+     * The parent stays open if any child fails to close.
+     */
+    private async closeParentOrder(parent: any, userAddress: string): Promise<ClosePositionResult> {
+        const startTime = performance.now();
+
+        const { data: children } = await supabase
+            .from('trades')
+            .select('id, size_usd')
+            .eq('parent_trade_id', parent.id)
+            .eq('status', 'open');
+
+        const results = await Promise.allSettled(
+            (children || []).map(child => this.closePosition(child.id, userAddress))
+        );
+
+        const closed = results.flatMap((result, i) =>
+            result.status === 'fulfilled' ? [{ ...result.value, sizeUsd: Number(children![i].size_usd) }] : []
+        );
+        const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+        if (failures.length > 0) {
+            throw new Error(
+                `Closed ${closed.length} of ${results.length} child positions for trade ${parent.id}: ` +
+                failures.map(f => (f.reason as Error).message).join('; ')
+            );
+        }
+
+        const exitPrice = blendedEntryPrice(closed.map(c => ({ sizeUsd: c.sizeUsd, entryPrice: c.exitPrice })));
+        const pnl = closed.reduce((sum, c) => sum + c.pnl, 0);
+        const pnlPercentage = (pnl / parent.size_usd) * 100;
+
+        await supabase
+            .from('trades')
+            .update({
+                exit_price: exitPrice,
+                pnl_usd: pnl,
+                tx_hash_close: closed[0]?.txHash,
+                status: 'closed',
+                closed_at: new Date().toISOString(),
+            })
+            .eq('id', parent.id);
+
+        logger.info('Split order closed', { tradeId: parent.id, children: closed.length, pnl });
+
+        return {
+            tradeId: parent.id,
+            txHash: closed[0]?.txHash || '',
+            exitPrice,
+            pnl,
+            pnlPercentage,
+            executionTime: Math.round(performance.now() - startTime),
+            status: 'success',
+            childOrders: closed,
+        };
+    }
+
     /**
      * Get ranked list of trading venues
      */
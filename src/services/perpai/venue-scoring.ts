@@ -0,0 +1,213 @@
+/**
+ * Perp Venue Scoring
+ *
+ * Scores a venue for one specific order (pair, side, leverage, size) from
+ * its live market state and track record. Every score is 0-100; data a
+ * venue doesn't report scores a neutral 50 so it neither helps nor hurts.
+ */
+
+import type { PerpMarketInfo } from '../../lib/blockchain/perp-market';
+
+export interface VenueCandidate {
+    venueId: string;
+    venueName: string;
+    tradingFeeBps: number;
+    /** Leverage cap configured in dex_venues */
+    maxLeverage: number | null;
+    /** Share of past trades on this venue that closed cleanly; null without history */
+    successRate: number | null;
+}
+
+export interface VenueOrder {
+    side: 'long' | 'short';
+    leverage: number;
+    sizeUsd: number;
+    /** Maximum acceptable slippage, in percent */
+    maxSlippage?: number;
+}
+
+export type VenueScoreFactor = 'priceImpact' | 'openInterest' | 'funding' | 'fees' | 'reputation';
+
+export interface VenueScoreComponent {
+    score: number;
+    weight: number;
+    detail: string;
+}
+
+export interface VenueScore {
+    venueId: string;
+    venueName: string;
+    eligible: boolean;
+    /** Why the venue can't take this order */
+    ineligibleReason?: string;
+    reputationScore: number;
+    liquidityScore: number;
+    feeScore: number;
+    latencyMs: number;
+    compositeScore: number;
+    market: PerpMarketInfo & { tradingFeeBps: number };
+    breakdown: Record<VenueScoreFactor, VenueScoreComponent>;
+}
+
+export interface VenueSelection {
+    best: VenueScore;
+    /** All venues considered, best first; ineligible venues last */
+    candidates: VenueScore[];
+    /** One-line explanation of the choice */
+    reason: string;
+}
+
+// Weights optimized for execution quality on the requested size
+export const VENUE_SCORE_WEIGHTS: Record<VenueScoreFactor, number> = {
+    priceImpact: 0.3,
+    openInterest: 0.2,
+    funding: 0.15,
+    fees: 0.15,
+    reputation: 0.2,
+};
+
+const NEUTRAL_SCORE = 50;
+
+// Success rate assumed for venues without trade history
+const DEFAULT_SUCCESS_RATE = 0.8;
+
+function clampScore(value: number): number {
+    return Math.round(Math.max(0, Math.min(100, value)) * 10) / 10;
+}
+
+function formatUsd(value: number): string {
+    return `$${Math.round(value).toLocaleString('en-US')}`;
+}
+
+/**
+ * Score a venue for one order
+ */
+export function scoreVenue(
+    candidate: VenueCandidate,
+    market: PerpMarketInfo,
+    order: VenueOrder,
+    latencyMs: number = 0
+): VenueScore {
+    const side = order.side === 'long' ? 'longs' : 'shorts';
+    const { priceImpactBps, availableOpenInterestUsd, fundingRateHourly } = market;
+
+    // 50 bps of impact scores 0
+    const priceImpact: VenueScoreComponent = priceImpactBps === null
+        ? { score: NEUTRAL_SCORE, weight: VENUE_SCORE_WEIGHTS.priceImpact, detail: 'price impact not reported' }
+        : {
+            score: clampScore(100 - priceImpactBps * 2),
+            weight: VENUE_SCORE_WEIGHTS.priceImpact,
+            detail: `~${priceImpactBps.toFixed(1)} bps impact for ${formatUsd(order.sizeUsd)}`,
+        };
+
+    // Share of remaining open interest the order would use
+    const openInterest: VenueScoreComponent = availableOpenInterestUsd === null
+        ? { score: NEUTRAL_SCORE, weight: VENUE_SCORE_WEIGHTS.openInterest, detail: 'open interest cap not reported' }
+        : {
+            score: clampScore(100 * (1 - order.sizeUsd / Math.max(availableOpenInterestUsd, 1))),
+            weight: VENUE_SCORE_WEIGHTS.openInterest,
+            detail: `${formatUsd(availableOpenInterestUsd)} open interest available for ${side}`,
+        };
+
+    // Paying 2 bps/hour scores 0, receiving 2 bps/hour scores 100
+    const fundingBpsHourly = fundingRateHourly === null ? null : fundingRateHourly * 10_000;
+    const funding: VenueScoreComponent = fundingBpsHourly === null
+        ? { score: NEUTRAL_SCORE, weight: VENUE_SCORE_WEIGHTS.funding, detail: 'funding rate not reported' }
+        : {
+            score: clampScore(NEUTRAL_SCORE - fundingBpsHourly * 25),
+            weight: VENUE_SCORE_WEIGHTS.funding,
+            detail: `${side} ${fundingBpsHourly >= 0 ? 'pay' : 'receive'} ${Math.abs(fundingBpsHourly).toFixed(3)} bps/hour`,
+        };
+
+    const fees: VenueScoreComponent = {
+        score: clampScore(100 - candidate.tradingFeeBps * 2),
+        weight: VENUE_SCORE_WEIGHTS.fees,
+        detail: `${candidate.tradingFeeBps} bps trading fee`,
+    };
+
+    const successRate = candidate.successRate ?? DEFAULT_SUCCESS_RATE;
+    const reputation: VenueScoreComponent = {
+        score: clampScore(successRate * 100),
+        weight: VENUE_SCORE_WEIGHTS.reputation,
+        detail: candidate.successRate === null
+            ? 'no trade history'
+            : `${Math.round(successRate * 100)}% of past trades closed cleanly`,
+    };
+
+    const breakdown = { priceImpact, openInterest, funding, fees, reputation };
+    const compositeScore = clampScore(
+        Object.values(breakdown).reduce((sum, component) => sum + component.score * component.weight, 0)
+    );
+
+    return {
+        venueId: candidate.venueId,
+        venueName: candidate.venueName,
+        ...checkEligibility(candidate, market, order),
+        reputationScore: reputation.score,
+        liquidityScore: openInterest.score,
+        feeScore: fees.score,
+        latencyMs,
+        compositeScore,
+        market: { ...market, tradingFeeBps: candidate.tradingFeeBps },
+        breakdown,
+    };
+}
+
+/**
+ * Hard limits: leverage cap, open interest headroom and slippage tolerance
+ */
+function checkEligibility(
+    candidate: VenueCandidate,
+    market: PerpMarketInfo,
+    order: VenueOrder
+): { eligible: boolean; ineligibleReason?: string } {
+    const caps = [candidate.maxLeverage, market.maxLeverage].filter((cap): cap is number => cap !== null && cap > 0);
+    const maxLeverage = caps.length > 0 ? Math.min(...caps) : null;
+    if (maxLeverage !== null && order.leverage > maxLeverage) {
+        return { eligible: false, ineligibleReason: `max leverage ${maxLeverage}x is below ${order.leverage}x` };
+    }
+
+    if (market.availableOpenInterestUsd !== null && order.sizeUsd > market.availableOpenInterestUsd) {
+        return {
+            eligible: false,
+            ineligibleReason: `only ${formatUsd(market.availableOpenInterestUsd)} open interest available for ${order.side}s`,
+        };
+    }
+
+    if (order.maxSlippage !== undefined && market.priceImpactBps !== null && market.priceImpactBps / 100 > order.maxSlippage) {
+        return {
+            eligible: false,
+            ineligibleReason: `price impact ${(market.priceImpactBps / 100).toFixed(2)}% exceeds max slippage ${order.maxSlippage}%`,
+        };
+    }
+
+    return { eligible: true };
+}
+
+/**
+ * Eligible venues first, each group by composite score
+ */
+export function rankVenues(scores: VenueScore[]): VenueScore[] {
+    return [...scores].sort((a, b) =>
+        Number(b.eligible) - Number(a.eligible) || b.compositeScore - a.compositeScore
+    );
+}
+
+/**
+ * Explain why the best venue won, naming its strongest factor and any venues ruled out
+ */
+export function explainVenueSelection(best: VenueScore, ranked: VenueScore[], order: VenueOrder): string {
+    const [topFactor] = (Object.entries(best.breakdown) as Array<[VenueScoreFactor, VenueScoreComponent]>)
+        .sort(([, a], [, b]) => b.score * b.weight - a.score * a.weight);
+    const ruledOut = ranked.filter(v => !v.eligible).map(v => `${v.venueName} (${v.ineligibleReason})`);
+
+    let reason = `${best.venueName} scored ${best.compositeScore} for a ${formatUsd(order.sizeUsd)} ${order.side} at ${order.leverage}x`
+        + `, led by ${topFactor[0]}: ${topFactor[1].detail}`;
+    if (ranked.length > 1) {
+        reason += `; ${ranked.length - 1} other venue(s) considered`;
+    }
+    if (ruledOut.length > 0) {
+        reason += `; ruled out ${ruledOut.join(', ')}`;
+    }
+    return reason;
+}
@@ -0,0 +1,170 @@
+/**
+ * OHLCV Candles and Time/Volume-Weighted Averages
+ *
+ * Candles are built incrementally from price snapshots. Besides OHLC each
+ * candle keeps running sums so TWAP and VWAP over any range can be computed
+ * by combining candles instead of rescanning snapshots:
+ * - TWAP: each price holds until the next snapshot in the same bucket
+ * - VWAP: snapshots are weighted by the liquidity their sources report.
+ *   DEX pools report liquidity rather than traded volume, so "volume" here
+ *   is a liquidity proxy; snapshots without liquidity weigh 1.
+ */
+
+export type CandleInterval = '1m' | '5m' | '1h' | '1d';
+
+export const CANDLE_INTERVALS: CandleInterval[] = ['1m', '5m', '1h', '1d'];
+
+export const INTERVAL_MS: Record<CandleInterval, number> = {
+    '1m': 60_000,
+    '5m': 5 * 60_000,
+    '1h': 60 * 60_000,
+    '1d': 24 * 60 * 60_000,
+};
+
+export interface PriceSnapshot {
+    symbol: string;
+    /** Source name, or CONSENSUS_SOURCE for the aggregated price */
+    source: string;
+    price: number;
+    /** Liquidity weight, see module comment */
+    weight: number;
+    observedAt: number;
+}
+
+export interface Candle {
+    symbol: string;
+    source: string;
+    interval: CandleInterval;
+    bucketStart: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+    sampleCount: number;
+    /** Time of the latest snapshot merged in */
+    lastAt: number;
+    /** Σ price × ms the price held, for TWAP */
+    timeWeightedSum: number;
+    coveredMs: number;
+    /** Σ price × weight, for VWAP (divide by volume) */
+    weightedPriceSum: number;
+}
+
+export interface PriceAverage {
+    symbol: string;
+    source: string;
+    kind: 'twap' | 'vwap';
+    price: number;
+    from: number;
+    to: number;
+    /** Candle interval the average was computed from */
+    interval: CandleInterval;
+    candles: number;
+    /** Share of the range covered by candles, 0-1 */
+    coverage: number;
+}
+
+/** Source name under which aggregated consensus prices are stored */
+export const CONSENSUS_SOURCE = 'consensus';
+
+export function bucketStart(timestamp: number, interval: CandleInterval): number {
+    return Math.floor(timestamp / INTERVAL_MS[interval]) * INTERVAL_MS[interval];
+}
+
+/**
+ * Merge a snapshot into the candle for its bucket. Returns a new candle;
+ * snapshots older than the candle's latest are ignored.
+ */
+export function mergeSnapshot(candle: Candle | null, snapshot: PriceSnapshot, interval: CandleInterval): Candle {
+    const start = bucketStart(snapshot.observedAt, interval);
+
+    if (!candle || candle.bucketStart !== start) {
+        return {
+            symbol: snapshot.symbol,
+            source: snapshot.source,
+            interval,
+            bucketStart: start,
+            open: snapshot.price,
+            high: snapshot.price,
+            low: snapshot.price,
+            close: snapshot.price,
+            volume: snapshot.weight,
+            sampleCount: 1,
+            lastAt: snapshot.observedAt,
+            timeWeightedSum: 0,
+            coveredMs: 0,
+            weightedPriceSum: snapshot.price * snapshot.weight,
+        };
+    }
+
+    if (snapshot.observedAt <= candle.lastAt) return candle;
+
+    const heldMs = snapshot.observedAt - candle.lastAt;
+    return {
+        ...candle,
+        high: Math.max(candle.high, snapshot.price),
+        low: Math.min(candle.low, snapshot.price),
+        close: snapshot.price,
+        volume: candle.volume + snapshot.weight,
+        sampleCount: candle.sampleCount + 1,
+        lastAt: snapshot.observedAt,
+        timeWeightedSum: candle.timeWeightedSum + candle.close * heldMs,
+        coveredMs: candle.coveredMs + heldMs,
+        weightedPriceSum: candle.weightedPriceSum + snapshot.price * snapshot.weight,
+    };
+}
+
+/**
+ * Build candles for one interval from snapshots of a single symbol and source
+ */
+export function buildCandles(snapshots: PriceSnapshot[], interval: CandleInterval): Candle[] {
+    const candles: Candle[] = [];
+    for (const snapshot of [...snapshots].sort((a, b) => a.observedAt - b.observedAt)) {
+        const last = candles[candles.length - 1] ?? null;
+        const merged = mergeSnapshot(last, snapshot, interval);
+        if (merged.bucketStart === last?.bucketStart) {
+            candles[candles.length - 1] = merged;
+        } else {
+            candles.push(merged);
+        }
+    }
+    return candles;
+}
+
+/**
+ * Candle interval to average a range over: the finest one that covers the
+ * range in at most maxCandles candles (one query page)
+ */
+export function intervalForRange(rangeMs: number, maxCandles: number = 720): CandleInterval {
+    return CANDLE_INTERVALS.find(interval => rangeMs / INTERVAL_MS[interval] <= maxCandles) ?? '1d';
+}
+
+/**
+ * Time-weighted average within one candle; a single snapshot is its own average
+ */
+export function candleTwap(candle: Candle): number {
+    return candle.coveredMs > 0 ? candle.timeWeightedSum / candle.coveredMs : candle.close;
+}
+
+/**
+ * Time-weighted average price over candles. Each candle stands for its
+ * whole bucket; buckets without snapshots are left out.
+ */
+export function computeTwap(candles: Candle[]): number | null {
+    let sum = 0;
+    let ms = 0;
+    for (const candle of candles) {
+        sum += candleTwap(candle) * INTERVAL_MS[candle.interval];
+        ms += INTERVAL_MS[candle.interval];
+    }
+    return ms > 0 ? sum / ms : null;
+}
+
+/**
+ * Volume (liquidity) weighted average price over candles
+ */
+export function computeVwap(candles: Candle[]): number | null {
+    const volume = candles.reduce((sum, c) => sum + c.volume, 0);
+    return volume > 0 ? candles.reduce((sum, c) => sum + c.weightedPriceSum, 0) / volume : null;
+}
@@ -2,30 +2,61 @@
 import { pythPriceService, type PriceFeedSymbol } from './pyth-price-service';
 import { ethers } from 'ethers';
 import logger from '../../lib/logger';
+import { getRpcPool } from '../../lib/blockchain/provider';
+import {
+    computePriceConsensus,
+    PYTH_SOURCE,
+    type PriceConsensusOptions,
+    type RejectedPriceSource,
+} from './price-consensus';
 
 /**
  * Multi-DEX Price Aggregator for Cronos
  * 
  * Sources: Pyth Oracle, VVS Finance, MM Finance, Fulcrom, CroSwap, Moonlander
- * Queries all sources in parallel for lowest latency.
+ * Queries all sources in parallel for lowest latency, then combines them
+ * into a consensus price (see price-consensus.ts).
  */
 
 interface PriceSource {
     name: string;
     price: number;
     latencyMs: number;
+    /** When the source observed the price */
     timestamp: number;
+    /** Pool liquidity, where the source reports it */
+    liquidityUsd?: number;
+    /** Pyth confidence interval */
+    confidence?: number;
 }
 
 interface AggregatedPrice {
     symbol: string;
+    /** Consensus price, or the highest quote in 'best' mode */
     bestPrice: number;
     bestSource: string;
     sources: PriceSource[];
+    /** Whether enough fresh sources agreed; trading must not proceed without it */
+    consensus: boolean;
+    /** 0-1, see computePriceConsensus */
+    confidence: number;
+    rejectedSources: RejectedPriceSource[];
+    consensusError?: string;
     aggregatedAt: number;
     totalLatencyMs: number;
 }
 
+/**
+ * 'consensus' prices at the liquidity-weighted median of agreeing sources;
+ * 'best' keeps the legacy highest-quote behaviour for display only.
+ */
+type AggregationMode = 'consensus' | 'best';
+
+interface AggregationOptions {
+    mode?: AggregationMode;
+    consensus?: Partial<PriceConsensusOptions>;
+}
+
 // Official Cronos Token Addresses (verified)
 const TOKENS: Record<string, { address: string; decimals: number }> = {
     WCRO: { address: '0x5C7F8A570d578ED60E9aE2ed85db5aD1b0b3e6e7', decimals: 18 },
@@ -40,8 +71,8 @@ const TOKENS: Record<string, { address: string; decimals: number }> = {
     USD: { address: '0xc21223249CA28397B4B6541dfFaEcC539BfF0c59', decimals: 6 }, // Alias for USDC
 };
 
-// Cronos RPC Provider
-const CRONOS_RPC = 'https://evm.cronos.org';
+// DEX pools are read from Cronos mainnet
+const CRONOS_MAINNET_CHAIN_ID = 25;
 
 // Simple in-memory cache with TTL
 interface CacheEntry {
@@ -61,18 +92,18 @@ export class MultiDexAggregator {
     private provider: ethers.JsonRpcProvider;
 
     constructor() {
-        this.provider = new ethers.JsonRpcProvider(CRONOS_RPC);
+        this.provider = getRpcPool(CRONOS_MAINNET_CHAIN_ID);
     }
 
     /**
      * Check cache for recent price
      */
-    private getFromCache(symbol: string, sourceName: string, customTtl?: number): number | null {
+    private getFromCache(symbol: string, sourceName: string, customTtl?: number): CacheEntry | null {
         const key = `${symbol}:${sourceName}`;
         const entry = priceCache.get(key);
         const ttl = customTtl || CACHE_TTL_MS;
         if (entry && Date.now() - entry.timestamp < ttl) {
-            return entry.price;
+            return entry;
         }
         return null;
     }
@@ -87,9 +118,9 @@ export class MultiDexAggregator {
 
     /**
      * Get price from ALL Cronos sources in parallel
-     * Returns best price with full source breakdown
+     * Returns the consensus price with full source breakdown
      */
-    async getAggregatedPrice(symbol: PriceFeedSymbol): Promise<AggregatedPrice> {
+    async getAggregatedPrice(symbol: PriceFeedSymbol, options: AggregationOptions = {}): Promise<AggregatedPrice> {
         const startTime = performance.now();
         const sources: PriceSource[] = [];
 
@@ -143,24 +174,50 @@ export class MultiDexAggregator {
 
         const totalLatency = Math.round(performance.now() - startTime);
 
-        // Sort by price (best first)
+        // Sort by price (highest first)
         const validSources = sources.filter(s => s.price > 0);
         validSources.sort((a, b) => b.price - a.price);
 
-        const bestSource = validSources[0];
+        const consensus = computePriceConsensus(validSources, options.consensus);
+
+        let bestPrice: number;
+        let bestSource: PriceSource | undefined;
+        if (options.mode === 'best') {
+            bestSource = validSources[0];
+            bestPrice = bestSource?.price || 0;
+        } else {
+            // Attribute the consensus price to the accepted source closest to it
+            bestPrice = consensus.price;
+            bestSource = [...consensus.accepted]
+                .sort((a, b) => Math.abs(a.price - bestPrice) - Math.abs(b.price - bestPrice))[0];
+        }
+
+        if (!consensus.reached) {
+            logger.warn('Price consensus not reached', {
+                symbol,
+                reason: consensus.reason,
+                rejected: consensus.rejectedSources.map(r => `${r.name}: ${r.reason}`),
+            });
+        }
 
         logger.info(`Price aggregation complete: ${validSources.length}/6 sources`, {
             symbol,
             sources: validSources.map(s => s.name),
-            bestPrice: bestSource?.price,
+            bestPrice,
+            consensus: consensus.reached,
+            confidence: consensus.confidence,
             latency: totalLatency
         });
 
         return {
             symbol,
-            bestPrice: bestSource?.price || 0,
+            bestPrice,
             bestSource: bestSource?.name || 'none',
             sources: validSources,
+            consensus: consensus.reached,
+            confidence: consensus.confidence,
+            rejectedSources: consensus.rejectedSources,
+            consensusError: consensus.reason,
             aggregatedAt: Date.now(),
             totalLatencyMs: totalLatency,
         };
@@ -172,12 +229,13 @@ export class MultiDexAggregator {
     private async queryPyth(symbol: PriceFeedSymbol): Promise<PriceSource | null> {
         const start = performance.now();
         try {
-            const price = await pythPriceService.getPrice(symbol);
+            const { price, confidence, publishTime } = await pythPriceService.getPriceWithConfidence(symbol);
             return {
-                name: 'Pyth Oracle',
+                name: PYTH_SOURCE,
                 price,
+                confidence,
                 latencyMs: Math.round(performance.now() - start),
-                timestamp: Date.now(),
+                timestamp: publishTime * 1000,
             };
         } catch (error) {
             return null;
@@ -191,13 +249,13 @@ export class MultiDexAggregator {
         const start = performance.now();
 
         // Check cache first with longer TTL to avoid rate limiting
-        const cachedPrice = this.getFromCache(symbol, 'VVS Finance', VVS_CACHE_TTL_MS);
-        if (cachedPrice !== null) {
+        const cached = this.getFromCache(symbol, 'VVS Finance', VVS_CACHE_TTL_MS);
+        if (cached !== null) {
             return {
                 name: 'VVS Finance',
-                price: cachedPrice,
+                price: cached.price,
                 latencyMs: 0,
-                timestamp: Date.now(),
+                timestamp: cached.timestamp,
             };
         }
 
@@ -404,6 +462,7 @@ export class MultiDexAggregator {
             return {
                 name: 'CroSwap',
                 price: Number(pair.priceUsd),
+                liquidityUsd: Number(pair.liquidity?.usd) || undefined,
                 latencyMs: Math.round(performance.now() - start),
                 timestamp: Date.now(),
             };
@@ -486,8 +545,8 @@ export class MultiDexAggregator {
         const symbol = params.pair.replace('-', '/') as PriceFeedSymbol;
         const aggregated = await this.getAggregatedPrice(symbol);
 
-        const bestVenue = aggregated.sources[0] || {
-            name: 'Pyth Oracle',
+        const bestVenue = aggregated.sources.find(s => s.name === aggregated.bestSource) || {
+            name: PYTH_SOURCE,
             price: aggregated.bestPrice,
             latencyMs: 0,
         };
@@ -507,7 +566,7 @@ export class MultiDexAggregator {
 export const multiDexAggregator = new MultiDexAggregator();
 
 // Export types for frontend
-export type { PriceSource, AggregatedPrice };
+export type { PriceSource, AggregatedPrice, AggregationMode, AggregationOptions };
 
 // Backward-compatible simple interface
 export const priceAggregator = {
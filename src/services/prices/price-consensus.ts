@@ -0,0 +1,253 @@
+/**
+ * Price Consensus
+ *
+ * Turns the per-source quotes collected by the multi-DEX aggregator into a
+ * single price that one bad pool cannot move:
+ *
+ * 1. Quotes older than their source's staleness limit are dropped
+ * 2. A Pyth quote whose confidence interval is too wide is dropped
+ * 3. Outliers are rejected by median absolute deviation (MAD) around the
+ *    liquidity-weighted median, with a hard cap on relative deviation
+ * 4. The consensus price is the liquidity-weighted median of what is left
+ *
+ * Consensus is only reached when enough sources survive and the price sits
+ * inside Pyth's (widened) confidence band.
+ */
+
+export const PYTH_SOURCE = 'Pyth Oracle';
+
+export interface ConsensusQuote {
+    name: string;
+    price: number;
+    /** When the source observed the price (ms since epoch) */
+    timestamp: number;
+    /** Pool liquidity behind the quote, used as its weight */
+    liquidityUsd?: number;
+    /** Pyth confidence interval, in quote currency */
+    confidence?: number;
+}
+
+export type PriceRejectionReason = 'invalid_price' | 'stale' | 'wide_confidence' | 'outlier';
+
+export interface RejectedPriceSource {
+    name: string;
+    price: number;
+    reason: PriceRejectionReason;
+    detail: string;
+}
+
+export interface PriceConsensusOptions {
+    /** Per-source staleness limits (ms), falling back to defaultMaxAgeMs */
+    maxAgeMs: Record<string, number>;
+    defaultMaxAgeMs: number;
+    /** Weight for sources that don't report liquidity */
+    defaultLiquidityUsd: Record<string, number>;
+    fallbackLiquidityUsd: number;
+    /** Sources that must agree for a consensus */
+    minSources: number;
+    /** Reject quotes more than this many scaled MADs from the median */
+    madThreshold: number;
+    /** Floor on the MAD scale, relative to price, so tight clusters don't reject rounding noise */
+    minDeviation: number;
+    /** Reject quotes deviating more than this from the median regardless of MAD */
+    maxDeviation: number;
+    /** Drop Pyth when confidence / price exceeds this */
+    maxPythConfidenceRatio: number;
+    /** Consensus must lie within multiplier × conf + tolerance × price of Pyth */
+    pythBandMultiplier: number;
+    pythBandTolerance: number;
+    now?: number;
+}
+
+export interface PriceConsensus<T extends ConsensusQuote = ConsensusQuote> {
+    reached: boolean;
+    /** Weighted median of accepted sources; 0 when none survived */
+    price: number;
+    /** 0-1: share of quoted weight that agreed, discounted by dispersion. 0 without consensus */
+    confidence: number;
+    accepted: T[];
+    rejectedSources: RejectedPriceSource[];
+    /** Why consensus was not reached */
+    reason?: string;
+}
+
+export const DEFAULT_CONSENSUS_OPTIONS: PriceConsensusOptions = {
+    maxAgeMs: {
+        [PYTH_SOURCE]: 60_000,
+        'VVS Finance': 120_000, // served from a 60s cache behind a 60s rate limit
+        'MM Finance': 30_000,
+        'Fulcrom Finance': 60_000,
+        'CroSwap': 120_000,
+        'Moonlander': 60_000,
+    },
+    defaultMaxAgeMs: 60_000,
+    defaultLiquidityUsd: {
+        [PYTH_SOURCE]: 1_000_000,
+        'Fulcrom Finance': 500_000,
+        'Moonlander': 500_000,
+        'VVS Finance': 250_000,
+        'MM Finance': 100_000,
+    },
+    fallbackLiquidityUsd: 50_000,
+    minSources: 2,
+    madThreshold: 3.5,
+    minDeviation: 0.002,
+    maxDeviation: 0.02,
+    maxPythConfidenceRatio: 0.01,
+    pythBandMultiplier: 3,
+    pythBandTolerance: 0.005,
+};
+
+// Relative dispersion at which confidence bottoms out at 0
+const ZERO_CONFIDENCE_DISPERSION = 0.01;
+
+// Scales MAD to a standard deviation for normally distributed quotes
+const MAD_SCALE = 1.4826;
+
+export class PriceConsensusError extends Error {
+    readonly code = 'NO_CONSENSUS' as const;
+
+    constructor(
+        public readonly symbol: string,
+        message: string,
+        public readonly rejectedSources: RejectedPriceSource[] = []
+    ) {
+        super(message);
+        this.name = 'PriceConsensusError';
+    }
+}
+
+/**
+ * Weight of a quote: reported liquidity, or the source's configured default
+ */
+function weightOf(quote: ConsensusQuote, options: PriceConsensusOptions): number {
+    if (quote.liquidityUsd !== undefined && quote.liquidityUsd > 0) {
+        return quote.liquidityUsd;
+    }
+    return options.defaultLiquidityUsd[quote.name] ?? options.fallbackLiquidityUsd;
+}
+
+/**
+ * Weighted median; averages the two middle prices when the weight splits exactly in half
+ */
+export function weightedMedian(values: Array<{ price: number; weight: number }>): number {
+    if (values.length === 0) return 0;
+
+    const sorted = [...values].sort((a, b) => a.price - b.price);
+    const half = sorted.reduce((sum, v) => sum + v.weight, 0) / 2;
+
+    let cumulative = 0;
+    for (let i = 0; i < sorted.length; i++) {
+        cumulative += sorted[i].weight;
+        if (cumulative === half && i + 1 < sorted.length) {
+            return (sorted[i].price + sorted[i + 1].price) / 2;
+        }
+        if (cumulative > half) {
+            return sorted[i].price;
+        }
+    }
+    return sorted[sorted.length - 1].price;
+}
+
+function median(values: number[]): number {
+    return weightedMedian(values.map(price => ({ price, weight: 1 })));
+}
+
+function percent(ratio: number): string {
+    return `${(ratio * 100).toFixed(2)}%`;
+}
+
+/**
+ * Compute the consensus price for a set of quotes
+ */
+export function computePriceConsensus<T extends ConsensusQuote>(
+    quotes: T[],
+    overrides: Partial<PriceConsensusOptions> = {}
+): PriceConsensus<T> {
+    const options = { ...DEFAULT_CONSENSUS_OPTIONS, ...overrides };
+    const now = options.now ?? Date.now();
+    const rejectedSources: RejectedPriceSource[] = [];
+    const reject = (quote: T, reason: PriceRejectionReason, detail: string) =>
+        rejectedSources.push({ name: quote.name, price: quote.price, reason, detail });
+
+    // Staleness and Pyth confidence
+    const fresh: T[] = [];
+    for (const quote of quotes) {
+        if (!Number.isFinite(quote.price) || quote.price <= 0) {
+            reject(quote, 'invalid_price', 'Price is not a positive number');
+            continue;
+        }
+
+        const maxAge = options.maxAgeMs[quote.name] ?? options.defaultMaxAgeMs;
+        const age = now - quote.timestamp;
+        if (age > maxAge) {
+            reject(quote, 'stale', `Quote is ${Math.round(age / 1000)}s old (limit ${Math.round(maxAge / 1000)}s)`);
+            continue;
+        }
+
+        if (quote.name === PYTH_SOURCE && quote.confidence !== undefined) {
+            const ratio = quote.confidence / quote.price;
+            if (ratio > options.maxPythConfidenceRatio) {
+                reject(quote, 'wide_confidence', `Confidence interval is ${percent(ratio)} of price (limit ${percent(options.maxPythConfidenceRatio)})`);
+                continue;
+            }
+        }
+
+        fresh.push(quote);
+    }
+
+    if (fresh.length === 0) {
+        return { reached: false, price: 0, confidence: 0, accepted: [], rejectedSources, reason: 'No fresh price sources' };
+    }
+
+    // MAD outlier rejection around the weighted median
+    const center = weightedMedian(fresh.map(q => ({ price: q.price, weight: weightOf(q, options) })));
+    const mad = median(fresh.map(q => Math.abs(q.price - center)));
+    const scale = Math.max(MAD_SCALE * mad, center * options.minDeviation);
+
+    const accepted: T[] = [];
+    for (const quote of fresh) {
+        const deviation = Math.abs(quote.price - center);
+        if (deviation / scale > options.madThreshold || deviation / center > options.maxDeviation) {
+            reject(quote, 'outlier', `${percent(deviation / center)} from median ${center}`);
+            continue;
+        }
+        accepted.push(quote);
+    }
+
+    const weighted = accepted.map(q => ({ price: q.price, weight: weightOf(q, options) }));
+    const price = weightedMedian(weighted);
+
+    let reason: string | undefined;
+    if (accepted.length < options.minSources) {
+        reason = `Only ${accepted.length} of ${quotes.length} sources agree (need ${options.minSources})`;
+    }
+
+    // A confident Pyth quote is the reference even when the DEXes outvote it
+    const pyth = fresh.find(q => q.name === PYTH_SOURCE);
+    if (!reason && pyth?.confidence !== undefined) {
+        const band = options.pythBandMultiplier * pyth.confidence + options.pythBandTolerance * pyth.price;
+        if (Math.abs(price - pyth.price) > band) {
+            reason = `Consensus ${price} is outside the Pyth band ${pyth.price} ± ${band}`;
+        }
+    }
+
+    if (reason) {
+        return { reached: false, price, confidence: 0, accepted, rejectedSources, reason };
+    }
+
+    const acceptedWeight = weighted.reduce((sum, v) => sum + v.weight, 0);
+    const quotedWeight = quotes
+        .filter(q => Number.isFinite(q.price) && q.price > 0)
+        .reduce((sum, q) => sum + weightOf(q, options), 0);
+    const dispersion = weighted.reduce((sum, v) => sum + v.weight * Math.abs(v.price - price), 0) / acceptedWeight / price;
+    const confidence = (acceptedWeight / quotedWeight) * Math.max(0, 1 - dispersion / ZERO_CONFIDENCE_DISPERSION);
+
+    return {
+        reached: true,
+        price,
+        confidence: Math.round(confidence * 1000) / 1000,
+        accepted,
+        rejectedSources,
+    };
+}
@@ -0,0 +1,274 @@
+/**
+ * Price History Service
+ *
+ * Snapshots aggregated prices into `price_snapshots` (one row per source
+ * plus the consensus price) and folds each snapshot into the 1m/5m/1h/1d
+ * candles in `price_candles`. TWAP/VWAP queries combine candles, so they
+ * resist single-block or single-venue price manipulation that a spot read
+ * would pick up.
+ */
+
+import { supabase } from '../../lib/supabase';
+import logger from '../../lib/logger';
+import { multiDexAggregator, type AggregatedPrice } from './price-aggregator';
+import type { PriceFeedSymbol } from './pyth-price-service';
+import {
+    CANDLE_INTERVALS,
+    CONSENSUS_SOURCE,
+    INTERVAL_MS,
+    bucketStart,
+    computeTwap,
+    computeVwap,
+    intervalForRange,
+    mergeSnapshot,
+    type Candle,
+    type CandleInterval,
+    type PriceAverage,
+    type PriceSnapshot,
+} from './ohlcv';
+
+export const HISTORY_SYMBOLS: PriceFeedSymbol[] = (process.env.PRICE_HISTORY_SYMBOLS || 'BTC/USD,ETH/USD,CRO/USD')
+    .split(',')
+    .map(s => s.trim() as PriceFeedSymbol)
+    .filter(Boolean);
+
+export interface CandleQuery {
+    source?: string;
+    from?: number;
+    to?: number;
+    limit?: number;
+}
+
+interface CandleRow {
+    symbol: string;
+    source: string;
+    interval: CandleInterval;
+    bucket_start: string;
+    open: number | string;
+    high: number | string;
+    low: number | string;
+    close: number | string;
+    volume: number | string;
+    sample_count: number;
+    last_at: string;
+    time_weighted_sum: number | string;
+    covered_ms: number | string;
+    weighted_price_sum: number | string;
+}
+
+// Default range for averages when none is given
+const DEFAULT_WINDOW_MS = 60 * 60_000;
+
+/**
+ * 'btc-usd' and 'BTC/USD' both name the BTC/USD series
+ */
+export function normalizePriceSymbol(symbol: string): string {
+    return symbol.trim().toUpperCase().replace('-', '/');
+}
+
+function toCandle(row: CandleRow): Candle {
+    return {
+        symbol: row.symbol,
+        source: row.source,
+        interval: row.interval,
+        bucketStart: new Date(row.bucket_start).getTime(),
+        open: Number(row.open),
+        high: Number(row.high),
+        low: Number(row.low),
+        close: Number(row.close),
+        volume: Number(row.volume),
+        sampleCount: row.sample_count,
+        lastAt: new Date(row.last_at).getTime(),
+        timeWeightedSum: Number(row.time_weighted_sum),
+        coveredMs: Number(row.covered_ms),
+        weightedPriceSum: Number(row.weighted_price_sum),
+    };
+}
+
+function toRow(candle: Candle): CandleRow & { updated_at: string } {
+    return {
+        symbol: candle.symbol,
+        source: candle.source,
+        interval: candle.interval,
+        bucket_start: new Date(candle.bucketStart).toISOString(),
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+        sample_count: candle.sampleCount,
+        last_at: new Date(candle.lastAt).toISOString(),
+        time_weighted_sum: candle.timeWeightedSum,
+        covered_ms: candle.coveredMs,
+        weighted_price_sum: candle.weightedPriceSum,
+        updated_at: new Date().toISOString(),
+    };
+}
+
+/**
+ * One snapshot per source, plus the consensus price when sources agreed.
+ * The consensus snapshot is weighted by the liquidity of accepted sources.
+ */
+export function snapshotsFromAggregate(aggregated: AggregatedPrice): Array<PriceSnapshot & { confidence: number | null }> {
+    const observedAt = aggregated.aggregatedAt;
+    const rejected = new Set(aggregated.rejectedSources.map(r => r.name));
+
+    const snapshots = aggregated.sources
+        .filter(source => source.price > 0)
+        .map(source => ({
+            symbol: aggregated.symbol,
+            source: source.name,
+            price: source.price,
+            weight: source.liquidityUsd && source.liquidityUsd > 0 ? source.liquidityUsd : 1,
+            confidence: source.confidence ?? null,
+            observedAt,
+        }));
+
+    if (aggregated.consensus && aggregated.bestPrice > 0) {
+        const liquidity = aggregated.sources
+            .filter(source => !rejected.has(source.name))
+            .reduce((sum, source) => sum + (source.liquidityUsd ?? 0), 0);
+        snapshots.push({
+            symbol: aggregated.symbol,
+            source: CONSENSUS_SOURCE,
+            price: aggregated.bestPrice,
+            weight: liquidity > 0 ? liquidity : 1,
+            confidence: aggregated.confidence,
+            observedAt,
+        });
+    }
+
+    return snapshots;
+}
+
+export class PriceHistoryService {
+    /**
+     * Snapshot every tracked symbol and update the current candles
+     */
+    async snapshot(symbols: PriceFeedSymbol[] = HISTORY_SYMBOLS): Promise<number> {
+        let recorded = 0;
+
+        for (const symbol of symbols) {
+            try {
+                const aggregated = await multiDexAggregator.getAggregatedPrice(symbol);
+                const snapshots = snapshotsFromAggregate(aggregated);
+                if (snapshots.length === 0) continue;
+
+                const { error } = await supabase
+                    .from('price_snapshots')
+                    .upsert(snapshots.map(s => ({
+                        symbol: s.symbol,
+                        source: s.source,
+                        price: s.price,
+                        weight: s.weight,
+                        confidence: s.confidence,
+                        observed_at: new Date(s.observedAt).toISOString(),
+                    })), { onConflict: 'symbol,source,observed_at', ignoreDuplicates: true });
+
+                if (error) throw error;
+
+                await this.updateCandles(symbol, snapshots);
+                recorded += snapshots.length;
+            } catch (error) {
+                logger.error('Price snapshot failed', error as Error, { symbol });
+            }
+        }
+
+        return recorded;
+    }
+
+    /**
+     * Fold snapshots taken at the same moment into the open candle of every interval
+     */
+    private async updateCandles(symbol: string, snapshots: PriceSnapshot[]): Promise<void> {
+        const observedAt = snapshots[0].observedAt;
+        const buckets = CANDLE_INTERVALS.map(interval => new Date(bucketStart(observedAt, interval)).toISOString());
+
+        const { data: rows, error } = await supabase
+            .from('price_candles')
+            .select('*')
+            .eq('symbol', symbol)
+            .in('bucket_start', [...new Set(buckets)]);
+
+        if (error) throw error;
+
+        const existing = new Map<string, Candle>();
+        for (const row of (rows || []) as CandleRow[]) {
+            const candle = toCandle(row);
+            existing.set(`${candle.source}:${candle.interval}:${candle.bucketStart}`, candle);
+        }
+
+        const merged = snapshots.flatMap(snapshot => CANDLE_INTERVALS.map(interval => {
+            const key = `${snapshot.source}:${interval}:${bucketStart(snapshot.observedAt, interval)}`;
+            return mergeSnapshot(existing.get(key) ?? null, snapshot, interval);
+        }));
+
+        const { error: upsertError } = await supabase
+            .from('price_candles')
+            .upsert(merged.map(toRow), { onConflict: 'symbol,source,interval,bucket_start' });
+
+        if (upsertError) throw upsertError;
+    }
+
+    /**
+     * Candles for a symbol, oldest first
+     */
+    async getCandles(symbol: string, interval: CandleInterval, query: CandleQuery = {}): Promise<Candle[]> {
+        const to = query.to ?? Date.now();
+        const limit = Math.min(query.limit ?? 500, 1000);
+        const from = query.from ?? to - limit * INTERVAL_MS[interval];
+
+        const { data, error } = await supabase
+            .from('price_candles')
+            .select('*')
+            .eq('symbol', symbol)
+            .eq('source', query.source ?? CONSENSUS_SOURCE)
+            .eq('interval', interval)
+            .gte('bucket_start', new Date(bucketStart(from, interval)).toISOString())
+            .lte('bucket_start', new Date(to).toISOString())
+            .order('bucket_start', { ascending: false })
+            .limit(limit);
+
+        if (error) throw error;
+
+        return ((data || []) as CandleRow[]).map(toCandle).reverse();
+    }
+
+    async getTwap(symbol: string, query: CandleQuery = {}): Promise<PriceAverage | null> {
+        return this.getAverage('twap', symbol, query);
+    }
+
+    async getVwap(symbol: string, query: CandleQuery = {}): Promise<PriceAverage | null> {
+        return this.getAverage('vwap', symbol, query);
+    }
+
+    /**
+     * TWAP or VWAP over [from, to] (default: the last hour), from the finest
+     * candle interval that fits the range. Null when there is no history.
+     */
+    private async getAverage(kind: 'twap' | 'vwap', symbol: string, query: CandleQuery): Promise<PriceAverage | null> {
+        const to = query.to ?? Date.now();
+        const from = query.from ?? to - DEFAULT_WINDOW_MS;
+        const interval = intervalForRange(to - from);
+        const source = query.source ?? CONSENSUS_SOURCE;
+
+        const candles = await this.getCandles(symbol, interval, { source, from, to, limit: 1000 });
+        const price = kind === 'twap' ? computeTwap(candles) : computeVwap(candles);
+        if (price === null) return null;
+
+        const buckets = Math.max(1, Math.ceil((to - bucketStart(from, interval)) / INTERVAL_MS[interval]));
+        return {
+            symbol,
+            source,
+            kind,
+            price,
+            from,
+            to,
+            interval,
+            candles: candles.length,
+            coverage: Math.min(1, candles.length / buckets),
+        };
+    }
+}
+
+export const priceHistoryService = new PriceHistoryService();
@@ -0,0 +1,109 @@
+/**
+ * Price Ticker
+ *
+ * Publishes `price.tick` events for the symbols someone is watching. The
+ * aggregator is polled only while at least one watcher holds a symbol, so
+ * idle symbols cost nothing. Only consensus prices are published; a round
+ * without consensus is skipped rather than ticking a price trading would
+ * refuse.
+ *
+ * Server-only: the aggregator itself is shared with the browser bundle.
+ */
+
+import logger from '../../lib/logger';
+import { eventBus } from '../../lib/event-bus';
+import { multiDexAggregator } from './price-aggregator';
+import { PRICE_FEED_IDS, type PriceFeedSymbol } from './pyth-price-service';
+import { normalizePriceSymbol } from './price-history';
+
+const TICK_INTERVAL_MS = parseInt(process.env.PRICE_TICK_INTERVAL_MS || '5000', 10);
+
+export function isPriceFeedSymbol(symbol: string): symbol is PriceFeedSymbol {
+    return symbol in PRICE_FEED_IDS;
+}
+
+class PriceTicker {
+    private watchers = new Map<PriceFeedSymbol, number>();
+    private timer: NodeJS.Timeout | null = null;
+    private isTicking = false;
+
+    /**
+     * Start ticking the given symbols; returns the release function.
+     * Throws on symbols without a price feed.
+     */
+    watch(symbols: string[]): () => void {
+        const normalized = [...new Set(symbols.map(normalizePriceSymbol))];
+        const unknown = normalized.filter(s => !isPriceFeedSymbol(s));
+        if (unknown.length > 0) {
+            throw new Error(`Unknown price symbols: ${unknown.join(', ')}`);
+        }
+
+        for (const symbol of normalized as PriceFeedSymbol[]) {
+            this.watchers.set(symbol, (this.watchers.get(symbol) ?? 0) + 1);
+        }
+        this.ensureTimer();
+
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+
+            for (const symbol of normalized as PriceFeedSymbol[]) {
+                const count = (this.watchers.get(symbol) ?? 1) - 1;
+                if (count > 0) this.watchers.set(symbol, count);
+                else this.watchers.delete(symbol);
+            }
+            if (this.watchers.size === 0) this.stopTimer();
+        };
+    }
+
+    watchedSymbols(): PriceFeedSymbol[] {
+        return [...this.watchers.keys()];
+    }
+
+    /**
+     * Price every watched symbol once
+     */
+    async tick(): Promise<void> {
+        if (this.isTicking) return;
+
+        this.isTicking = true;
+        try {
+            for (const symbol of this.watchedSymbols()) {
+                try {
+                    const aggregated = await multiDexAggregator.getAggregatedPrice(symbol);
+                    if (!aggregated.consensus) continue;
+
+                    eventBus.publish('price.tick', {
+                        symbol,
+                        price: aggregated.bestPrice,
+                        source: aggregated.bestSource,
+                        confidence: aggregated.confidence,
+                        sources: aggregated.sources.length,
+                        observedAt: aggregated.aggregatedAt,
+                    });
+                } catch (error) {
+                    logger.warn('Price tick failed', { symbol, error: (error as Error).message });
+                }
+            }
+        } finally {
+            this.isTicking = false;
+        }
+    }
+
+    private ensureTimer(): void {
+        if (this.timer) return;
+
+        this.timer = setInterval(() => { void this.tick(); }, TICK_INTERVAL_MS);
+        this.timer.unref();
+        void this.tick();
+    }
+
+    private stopTimer(): void {
+        if (!this.timer) return;
+        clearInterval(this.timer);
+        this.timer = null;
+    }
+}
+
+export const priceTicker = new PriceTicker();
@@ -42,12 +42,21 @@ export class PythPriceService {
      * Get latest price for a symbol
      */
     async getPrice(symbol: PriceFeedSymbol): Promise<number> {
+        return this.formatPrice(await this.getPriceData(symbol));
+    }
+
+    /**
+     * Fetch raw price data, served from cache within the TTL.
+     * Falls back to a stale cached value when Hermes is unreachable;
+     * callers that care can check publishTime.
+     */
+    private async getPriceData(symbol: PriceFeedSymbol): Promise<PriceData> {
         const feedId = PRICE_FEED_IDS[symbol];
 
         // Check cache
         const cached = this.priceCache.get(feedId);
         if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
-            return this.formatPrice(cached.data);
+            return cached.data;
         }
 
         try {
@@ -78,14 +87,14 @@ export class PythPriceService {
                 timestamp: Date.now(),
             });
 
-            return this.formatPrice(data);
+            return data;
         } catch (error) {
             console.error(`Failed to fetch price for ${symbol}:`, error);
 
             // Return cached value if available, even if stale
             if (cached) {
                 console.warn(`Using stale cached price for ${symbol}`);
-                return this.formatPrice(cached.data);
+                return cached.data;
             }
 
             throw error;
@@ -127,20 +136,12 @@ export class PythPriceService {
         confidence: number;
         publishTime: number;
     }> {
-        const feedId = PRICE_FEED_IDS[symbol];
-
-        const priceUpdates = await this.connection.getLatestPriceUpdates([feedId]);
-        const priceFeed = priceUpdates.parsed?.[0];
-        const priceData = priceFeed?.price;
-
-        if (!priceData) {
-            throw new Error(`Price data not available for ${symbol}`);
-        }
+        const data = await this.getPriceData(symbol);
 
         return {
-            price: Number(priceData.price) * Math.pow(10, priceData.expo),
-            confidence: Number(priceData.conf) * Math.pow(10, priceData.expo),
-            publishTime: priceData.publish_time,
+            price: this.formatPrice(data),
+            confidence: data.conf * Math.pow(10, data.expo),
+            publishTime: data.publishTime,
         };
     }
 
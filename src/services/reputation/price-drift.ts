@@ -0,0 +1,190 @@
+/**
+ * Price Drift Ledger
+ *
+ * Incidents where a provider's 402 challenge didn't match its listing
+ * (see sdk/lib/payment-guard.ts), reported by SDK agents and by the
+ * meta-agent delegation service. The reputation engine penalizes providers
+ * for recent incidents, whether or not the payer went ahead and paid.
+ *
+ * Reports are not taken at their word: the demand is read from the
+ * reporter's settled payment, or from a 402 Relay fetches from the listed
+ * endpoint itself, and checked against the listing here. Only violations
+ * of the listing count (PENALIZED_VIOLATIONS), and each reporter counts
+ * once per service per reputation window.
+ */
+
+import { supabase } from '../../lib/supabase.js';
+import logger from '../../lib/logger.js';
+import {
+    checkPaymentDemand,
+    parsePaymentDemand,
+    type PaymentCheck,
+    type PaymentDemand,
+    type PaymentViolationType,
+} from '../../sdk/lib/payment-guard.js';
+
+/**
+ * Violations that are the provider's fault. PRICE_ABOVE_MAX (the payer's
+ * own cap) and ASSET_MISMATCH (the payer's accepted assets) aren't.
+ */
+export const PENALIZED_VIOLATIONS: readonly PaymentViolationType[] = [
+    'PRICE_ABOVE_LISTING',
+    'PAYEE_MISMATCH',
+    'NETWORK_MISMATCH',
+];
+
+const CHALLENGE_TIMEOUT_MS = 5000;
+
+export type PriceDriftAction = 'refused' | 'approved';
+
+/** The listing a challenge is checked against */
+export interface DriftListing {
+    id: string;
+    owner_address: string;
+    price_per_call: string | null;
+    endpoint_url?: string | null;
+}
+
+export interface PriceDriftIncident {
+    serviceId: string;
+    providerAddress?: string | null;
+    reporterAddress: string;
+    violations: PaymentViolationType[];
+    listedAmount?: string | null;
+    demandedAmount: string;
+    demandedPayTo?: string | null;
+    asset?: string | null;
+    network?: string | null;
+    resourceUrl?: string | null;
+    action: PriceDriftAction;
+}
+
+/**
+ * Check a demand against a listing; only penalized violations are kept
+ */
+export function checkListing(listing: DriftListing, demand: PaymentDemand): PaymentCheck {
+    const check = checkPaymentDemand(demand, {
+        listedPrice: listing.price_per_call || undefined,
+        payTo: listing.owner_address,
+        network: process.env.CRONOS_NETWORK || 'cronos-testnet',
+    });
+    const violations = check.violations.filter(v => PENALIZED_VIOLATIONS.includes(v.type));
+    return { ...check, violations, approved: violations.length === 0 };
+}
+
+/**
+ * Incident fields of a failed guard check
+ */
+export function incidentFromCheck(check: PaymentCheck): Pick<
+    PriceDriftIncident,
+    'violations' | 'listedAmount' | 'demandedAmount' | 'demandedPayTo' | 'asset' | 'network' | 'resourceUrl'
+> {
+    return {
+        violations: check.violations.map(v => v.type),
+        listedAmount: check.listedAmount?.toString() ?? null,
+        demandedAmount: check.demand.maxAmountRequired,
+        demandedPayTo: check.demand.payTo,
+        asset: check.demand.asset ?? null,
+        network: check.demand.network ?? null,
+        resourceUrl: check.demand.resource ?? null,
+    };
+}
+
+export class PriceDriftLedger {
+    async record(incident: PriceDriftIncident): Promise<void> {
+        const { error } = await supabase.from('price_drift_incidents').insert({
+            service_id: incident.serviceId,
+            provider_address: incident.providerAddress?.toLowerCase() ?? null,
+            reporter_address: incident.reporterAddress.toLowerCase(),
+            violations: incident.violations,
+            listed_amount: incident.listedAmount ?? null,
+            demanded_amount: incident.demandedAmount,
+            demanded_pay_to: incident.demandedPayTo?.toLowerCase() ?? null,
+            asset: incident.asset ?? null,
+            network: incident.network ?? null,
+            resource_url: incident.resourceUrl ?? null,
+            action: incident.action,
+        });
+
+        if (error) {
+            logger.error('Failed to record price drift incident', error, { serviceId: incident.serviceId });
+            throw new Error('Failed to record price drift incident');
+        }
+
+        logger.warn('Price drift incident recorded', {
+            serviceId: incident.serviceId,
+            violations: incident.violations,
+            demandedAmount: incident.demandedAmount,
+            listedAmount: incident.listedAmount,
+            action: incident.action,
+        });
+    }
+
+    /**
+     * The demand a report is about, from evidence Relay can check: the
+     * reporter's own payment when there is one, otherwise the 402 the
+     * listed endpoint returns now. Null when neither can be had.
+     */
+    async evidenceDemand(listing: DriftListing, reporterAddress: string, paymentId?: string): Promise<PaymentDemand | null> {
+        if (paymentId) {
+            return this.paymentDemand(paymentId, reporterAddress);
+        }
+        return listing.endpoint_url ? this.observeChallenge(listing.endpoint_url) : null;
+    }
+
+    private async paymentDemand(paymentId: string, reporterAddress: string): Promise<PaymentDemand | null> {
+        const reporter = reporterAddress.toLowerCase();
+
+        const { data: payment } = await supabase
+            .from('payments')
+            .select('from_address, to_address, amount, resource_url')
+            .eq('payment_id', paymentId)
+            .maybeSingle();
+
+        if (!payment || String(payment.from_address).toLowerCase() !== reporter) return null;
+
+        return {
+            maxAmountRequired: String(payment.amount),
+            payTo: payment.to_address,
+            resource: payment.resource_url ?? undefined,
+        };
+    }
+
+    private async observeChallenge(endpointUrl: string): Promise<PaymentDemand | null> {
+        try {
+            const response = await fetch(endpointUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: '{}',
+                signal: AbortSignal.timeout(CHALLENGE_TIMEOUT_MS),
+            });
+            if (response.status !== 402) return null;
+            return parsePaymentDemand(await response.json().catch(() => null));
+        } catch (error) {
+            logger.warn('Could not fetch 402 challenge for price drift report', { endpointUrl, error: (error as Error).message });
+            return null;
+        }
+    }
+
+    /**
+     * Reporters with a penalized incident against the service since
+     * `since`; repeated reports from one reporter count once
+     */
+    async countSince(serviceId: string, since: Date): Promise<number> {
+        const { data, error } = await supabase
+            .from('price_drift_incidents')
+            .select('reporter_address')
+            .eq('service_id', serviceId)
+            .gte('created_at', since.toISOString())
+            .overlaps('violations', [...PENALIZED_VIOLATIONS]);
+
+        if (error) {
+            logger.error('Failed to count price drift incidents', error, { serviceId });
+            return 0;
+        }
+
+        return new Set((data || []).map(row => row.reporter_address)).size;
+    }
+}
+
+export const priceDriftLedger = new PriceDriftLedger();
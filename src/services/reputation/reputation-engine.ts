@@ -1,4 +1,10 @@
 import { supabase } from '../../lib/supabase';
+import { priceDriftLedger } from './price-drift';
+
+// Each price drift incident in the window costs PRICE_DRIFT_PENALTY points
+const PRICE_DRIFT_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const PRICE_DRIFT_PENALTY = 5;
+const MAX_PRICE_DRIFT_PENALTY = 25;
 
 interface ReputationScore {
     serviceId: string;
@@ -30,14 +36,21 @@ export class ReputationEngine {
             };
         }
 
+        // A payment only counts as delivered when a receipt signed by the
+        // payee (or Relay's own observation) backs it; see outcome-service.ts
+        const outcomes = await this.countedOutcomes(payments.map(p => p.payment_id).filter(Boolean));
+        const delivered = new Set(outcomes.filter(o => o.outcome_type === 'delivered').map(o => o.payment_id));
+        const undelivered = new Set(outcomes.filter(o => o.outcome_type !== 'delivered').map(o => o.payment_id));
+
         const totalPayments = payments.length;
-        const successfulPayments = payments.filter(p => p.status === 'success').length;
-        const failedPayments = payments.filter(p => p.status === 'failed').length;
+        const successfulPayments = payments.filter(p => delivered.has(p.payment_id)).length;
+        const failedPayments = payments.filter(p =>
+            p.status === 'failed' || (undelivered.has(p.payment_id) && !delivered.has(p.payment_id))).length;
         const successRate = (successfulPayments / totalPayments) * 100;
 
-        const latencies = payments
-            .filter(p => p.latency_ms)
-            .map(p => p.latency_ms)
+        const latencies = outcomes
+            .filter(o => o.outcome_type === 'delivered' && o.latency_ms)
+            .map(o => o.latency_ms as number)
             .sort((a, b) => a - b);
 
         const avgLatency = latencies.length > 0
@@ -62,13 +75,17 @@ export class ReputationEngine {
         const volumeScore = Math.min(100, (totalVolume / 1000) * 100);
         const repeatScore = Math.min(100, (repeatCustomers / totalPayments) * 100);
 
+        // Demanding more than the listed price (or paying elsewhere) costs trust
+        const priceDriftIncidents = await priceDriftLedger.countSince(serviceId, new Date(now - PRICE_DRIFT_WINDOW_MS));
+        const priceDriftPenalty = Math.min(MAX_PRICE_DRIFT_PENALTY, priceDriftIncidents * PRICE_DRIFT_PENALTY);
+
         // Weighted reputation score
-        const reputationScore = (
+        const reputationScore = Math.max(0, (
             reliabilityScore * 0.4 +
             speedScore * 0.2 +
             volumeScore * 0.2 +
             repeatScore * 0.2
-        ) * recencyWeight;
+        ) * recencyWeight - priceDriftPenalty);
 
         // Update database
         await supabase.from('reputations').upsert({
@@ -86,6 +103,7 @@ export class ReputationEngine {
             speed_score: Math.round(speedScore * 100) / 100,
             volume_score: Math.round(volumeScore * 100) / 100,
             recency_weight: Math.round(recencyWeight * 100) / 100,
+            price_drift_incidents: priceDriftIncidents,
             last_calculated: new Date().toISOString()
         });
 
@@ -100,6 +118,22 @@ export class ReputationEngine {
         };
     }
 
+    private async countedOutcomes(paymentIds: string[]): Promise<Array<{
+        payment_id: string;
+        outcome_type: string;
+        latency_ms: number | null;
+    }>> {
+        if (!paymentIds.length) return [];
+
+        const { data } = await supabase
+            .from('outcomes')
+            .select('payment_id, outcome_type, latency_ms')
+            .in('payment_id', paymentIds)
+            .or('receipt_verified.eq.true,observed.eq.true');
+
+        return data || [];
+    }
+
     async calculateAllReputations() {
         const { data: services } = await supabase
             .from('services')
@@ -11,6 +11,11 @@
 import { supabase } from '../../lib/supabase.js';
 import logger from '../../lib/logger.js';
 import { rwaStateMachineService, RWAState, AgentRole } from './state-machine.js';
+import { taskStore } from '../tasks/index.js';
+
+/** Task artifact agent and workflow of coordination runs */
+const COORDINATOR_AGENT_ID = 'rwa-coordinator';
+const COORDINATION_WORKFLOW = 'rwa_coordination';
 
 export interface AgentCapability {
     role: AgentRole;
@@ -287,71 +292,127 @@ export class RWAAgentCoordinator {
 
     /**
      * Execute coordination plan (orchestrate all agents)
+     *
+     * The run is a task artifact with a step task per assignment holding the
+     * transition's payment. Pass the runId of an interrupted run to resume it:
+     * settled steps are skipped, and a step whose transition was recorded
+     * before the interruption is settled from that transition instead of
+     * paying the agent again.
      */
     async executeCoordinationPlan(
         rwaId: string,
-        sessionId: number
+        sessionId: number,
+        runId?: string
     ): Promise<{
         success: boolean;
+        runId?: string;
         completedTransitions: number;
         failedAt?: RWAState;
         error?: string;
     }> {
-        logger.info('Executing coordination plan', { rwaId });
+        logger.info('Executing coordination plan', { rwaId, runId });
 
         const { data: assignments } = await supabase
             .from('rwa_agent_assignments')
             .select('*')
             .eq('rwa_id', rwaId)
-            .eq('status', 'assigned')
+            .in('status', runId ? ['assigned', 'active', 'failed', 'completed'] : ['assigned'])
             .order('metadata->order', { ascending: true });
 
         if (!assignments || assignments.length === 0) {
             return {
                 success: false,
+                runId,
                 completedTransitions: 0,
                 error: 'No agent assignments found'
             };
         }
 
+        const run = runId
+            ? await taskStore.update(runId, { state: 'pending' })
+            : await taskStore.create({
+                agent_id: COORDINATOR_AGENT_ID,
+                inputs: { workflow: COORDINATION_WORKFLOW, rwaId, sessionId }
+            });
+        const stepTasks = new Map(
+            (runId ? await taskStore.getSteps(runId) : []).map(task => [task.step_id, task])
+        );
+
         let completedTransitions = 0;
 
+        const fail = async (error: string, failedAt?: RWAState) => {
+            await taskStore.markFailed(run.task_id, { code: 'COORDINATION_FAILED', message: error, retryable: true })
+                .catch(err => logger.error('Failed to record coordination run failure', err as Error, { runId: run.task_id }));
+            return { success: false, runId: run.task_id, completedTransitions, failedAt, error };
+        };
+
         for (const assignment of assignments) {
+            const targetState = assignment.metadata.targetState as RWAState;
+            let stepTask = stepTasks.get(assignment.id);
+            const resumedStep = !!stepTask;
+
+            if (stepTask?.state === 'settled' || (!stepTask && assignment.status === 'completed')) {
+                completedTransitions++;
+                continue;
+            }
+
             try {
                 await supabase
                     .from('rwa_agent_assignments')
                     .update({ status: 'active' })
                     .eq('id', assignment.id);
 
-                const targetState = assignment.metadata.targetState as RWAState;
+                if (stepTask) {
+                    await taskStore.update(stepTask.task_id, { state: 'pending' });
+                } else {
+                    stepTask = await taskStore.create({
+                        agent_id: assignment.agent_address,
+                        parent_task_id: run.task_id,
+                        step_id: assignment.id,
+                        inputs: { rwaId, role: assignment.agent_role, targetState, order: assignment.metadata.order }
+                    });
+                }
 
-                const result = await rwaStateMachineService.transition({
-                    rwaId,
-                    toState: targetState,
-                    agentAddress: assignment.agent_address,
-                    agentRole: assignment.agent_role,
-                    sessionId,
-                    proof: {
-                        automated: true,
-                        coordinationPlan: true,
-                        timestamp: Date.now()
-                    }
-                });
+                // Interrupted after the transition paid the agent: settle from it
+                const recorded = resumedStep
+                    ? await this.findTransitionSince(rwaId, targetState, assignment.agent_address, stepTask.timestamps.created)
+                    : null;
+
+                const result = recorded
+                    ? { success: true, paymentHash: recorded.payment_hash as string, transitionId: recorded.id as string, error: undefined }
+                    : await rwaStateMachineService.transition({
+                        rwaId,
+                        toState: targetState,
+                        agentAddress: assignment.agent_address,
+                        agentRole: assignment.agent_role,
+                        sessionId,
+                        proof: {
+                            automated: true,
+                            coordinationPlan: true,
+                            timestamp: Date.now()
+                        }
+                    });
 
                 if (!result.success) {
                     await supabase
                         .from('rwa_agent_assignments')
                         .update({ status: 'failed' })
                         .eq('id', assignment.id);
+                    await taskStore.markFailed(stepTask.task_id, {
+                        code: 'TRANSITION_FAILED',
+                        message: result.error || 'Transition failed',
+                        retryable: true
+                    });
 
-                    return {
-                        success: false,
-                        completedTransitions,
-                        failedAt: targetState,
-                        error: result.error
-                    };
+                    return fail(result.error || 'Transition failed', targetState);
                 }
 
+                await taskStore.update(stepTask.task_id, {
+                    state: 'settled',
+                    payment_id: result.paymentHash,
+                    outputs: { transitionId: result.transitionId, toState: targetState }
+                });
+
                 await supabase
                     .from('rwa_agent_assignments')
                     .update({
@@ -366,7 +427,8 @@ export class RWAAgentCoordinator {
                     rwaId,
                     agent: assignment.agent_address,
                     role: assignment.agent_role,
-                    state: targetState
+                    state: targetState,
+                    resumed: !!recorded
                 });
 
             } catch (error) {
@@ -379,26 +441,72 @@ export class RWAAgentCoordinator {
                     .from('rwa_agent_assignments')
                     .update({ status: 'failed' })
                     .eq('id', assignment.id);
+                if (stepTask) {
+                    await taskStore.markFailed(stepTask.task_id, {
+                        code: 'TRANSITION_FAILED',
+                        message: (error as Error).message,
+                        retryable: true
+                    }).catch(() => undefined);
+                }
 
-                return {
-                    success: false,
-                    completedTransitions,
-                    error: (error as Error).message
-                };
+                return fail((error as Error).message);
             }
         }
 
+        await taskStore.markSettled(run.task_id, { completedTransitions });
+
         logger.info('Coordination plan executed successfully', {
             rwaId,
+            runId: run.task_id,
             completedTransitions
         });
 
         return {
             success: true,
+            runId: run.task_id,
             completedTransitions
         };
     }
 
+    /**
+     * Resume an interrupted coordination run
+     */
+    async resumeCoordinationPlan(runId: string): Promise<{
+        success: boolean;
+        runId?: string;
+        completedTransitions: number;
+        failedAt?: RWAState;
+        error?: string;
+    }> {
+        const run = await taskStore.get(runId);
+
+        if (!run || run.inputs.workflow !== COORDINATION_WORKFLOW) {
+            return { success: false, completedTransitions: 0, error: 'Coordination run not found' };
+        }
+
+        return this.executeCoordinationPlan(run.inputs.rwaId as string, run.inputs.sessionId as number, runId);
+    }
+
+    private async findTransitionSince(
+        rwaId: string,
+        toState: RWAState,
+        agentAddress: string,
+        since: string
+    ): Promise<Record<string, unknown> | null> {
+        const { data } = await supabase
+            .from('rwa_state_transitions')
+            .select('id, payment_hash')
+            .eq('rwa_id', rwaId)
+            .eq('to_state', toState)
+            .eq('agent_address', agentAddress)
+            .gte('transitioned_at', since)
+            .order('transitioned_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        return data;
+    }
+
     /**
      * Get agent assignments for RWA
      */
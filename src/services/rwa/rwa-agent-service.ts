@@ -12,6 +12,7 @@ import { supabase } from '../../lib/supabase';
 import logger from '../../lib/logger';
 import { facilitatorService } from '../x402/facilitator-service.js';
 import { escrowPaymentHelper, type EscrowSession } from '../escrow/escrow-payment-helper.js';
+import { outcomeService } from '../outcomes/outcome-service';
 
 // ============================================
 // INTERFACES
@@ -691,20 +692,20 @@ export class RWAAgentService {
                 .eq('agent_address', request.agent_address)
                 .eq('metadata->>requestId', requestId);
 
-            // Record outcome for reputation (using 'delivered' for successful outcomes)
-            await supabase
-                .from('outcomes')
-                .insert({
-                    payment_id: requestId,
-                    outcome_type: 'delivered',
-                    latency_ms: latencyMs,
-                    evidence: {
-                        requestId,
-                        proof,
-                        slaMetrics: { latencyMs, proofFormatValid },
-                        settlementStatus: 'success'
-                    }
-                });
+            // Record outcome for reputation; the SLA was checked here, so it counts
+            await outcomeService.record({
+                paymentId: requestId,
+                outcomeType: 'delivered',
+                latencyMs,
+                evidence: {
+                    requestId,
+                    proof,
+                    slaMetrics: { latencyMs, proofFormatValid },
+                    settlementStatus: 'success',
+                    source: 'rwaSla'
+                },
+                observed: true
+            });
 
             logger.info('RWA payment confirmed to agent', {
                 requestId,
@@ -16,6 +16,7 @@
 import { supabase } from '../../lib/supabase';
 import logger from '../../lib/logger';
 import { getEscrowAgent } from '../escrow/escrow-agent';
+import { verifyDeliveryReceipt, type DeliveryReceipt } from '../../sdk/lib/delivery-receipt';
 import { ethers } from 'ethers';
 
 // Service types that qualify as RWA
@@ -54,6 +55,8 @@ export interface ExecutionProof {
     timestamp: number;
     result: Record<string, unknown>;
     signature?: string;
+    /** EIP-712 delivery receipt with paymentId = requestId, over the request input and the result */
+    receipt?: DeliveryReceipt;
     hash?: string;
     externalRef?: string;
     providerAddress: string;
@@ -257,9 +260,10 @@ export class RWASettlementAgent {
 
         const service = this.registeredServices.get(request.service_id);
         const sla = service?.sla || request.sla_terms;
+        const provider = service?.provider ?? await this.registeredProvider(request.service_id);
 
         // Verify SLA compliance
-        const verification = this.verifySLA(proof, sla, request.requested_at);
+        const verification = this.verifySLA(proof, sla, request.requested_at, provider, request.input);
 
         // Record verification result
         try {
@@ -278,13 +282,28 @@ export class RWASettlementAgent {
         return verification;
     }
 
+    /**
+     * Owner of a service registered by another instance
+     */
+    private async registeredProvider(serviceId: string): Promise<string | null> {
+        const { data } = await supabase
+            .from('services')
+            .select('owner_address')
+            .eq('id', serviceId)
+            .maybeSingle();
+
+        return data?.owner_address ?? null;
+    }
+
     /**
      * Verify proof against SLA terms
      */
     private verifySLA(
         proof: ExecutionProof,
         sla: SLATerms,
-        requestedAt: string
+        requestedAt: string,
+        provider: string | null,
+        input: unknown
     ): VerificationResult {
         const now = Date.now();
         const requestTime = new Date(requestedAt).getTime();
@@ -295,15 +314,20 @@ export class RWASettlementAgent {
         const fieldsPresent = sla.requiredFields.filter(f => resultKeys.includes(f));
         const fieldsMissing = sla.requiredFields.filter(f => !resultKeys.includes(f));
 
+        // A signature, whatever the format, must come from the registered provider
+        const signed = !!proof.signature || !!proof.receipt;
+        const signatureValid = !signed || this.verifySignature(proof, provider, input);
+
         // Check proof format
         let proofFormatValid = false;
         if (sla.proofFormat === 'json') {
             proofFormatValid = typeof proof.result === 'object';
         } else if (sla.proofFormat === 'signed') {
-            proofFormatValid = !!proof.signature && this.verifySignature(proof);
+            proofFormatValid = signed;
         } else if (sla.proofFormat === 'hashed') {
             proofFormatValid = !!proof.hash && this.verifyHash(proof);
         }
+        proofFormatValid = proofFormatValid && signatureValid;
 
         // Check validity period
         const withinValidity = (now - proof.timestamp) < (sla.validityPeriodSeconds * 1000);
@@ -325,6 +349,7 @@ export class RWASettlementAgent {
         if (!valid) {
             if (!latencyOk) reason = `Latency ${latencyMs}ms exceeds SLA ${sla.maxLatencyMs}ms`;
             else if (!fieldsOk) reason = `Missing required fields: ${fieldsMissing.join(', ')}`;
+            else if (!signatureValid) reason = 'Proof is not signed by the registered provider';
             else if (!proofFormatValid) reason = `Invalid proof format: expected ${sla.proofFormat}`;
             else if (!withinValidity) reason = 'Proof expired';
         }
@@ -333,9 +358,21 @@ export class RWASettlementAgent {
     }
 
     /**
-     * Verify cryptographic signature on proof
+     * Verify cryptographic signature on proof: a delivery receipt, or a
+     * signed message over requestId, timestamp and result, from the
+     * service's registered provider
      */
-    private verifySignature(proof: ExecutionProof): boolean {
+    private verifySignature(proof: ExecutionProof, provider: string | null, input: unknown): boolean {
+        if (!provider || proof.providerAddress.toLowerCase() !== provider.toLowerCase()) return false;
+
+        if (proof.receipt) {
+            return verifyDeliveryReceipt(proof.receipt, {
+                provider,
+                paymentId: proof.requestId,
+                request: input,
+                response: proof.result
+            }).valid;
+        }
         if (!proof.signature) return false;
 
         try {
@@ -346,7 +383,7 @@ export class RWASettlementAgent {
             });
 
             const recoveredAddress = ethers.verifyMessage(message, proof.signature);
-            return recoveredAddress.toLowerCase() === proof.providerAddress.toLowerCase();
+            return recoveredAddress.toLowerCase() === provider.toLowerCase();
         } catch {
             return false;
         }
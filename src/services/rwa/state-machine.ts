@@ -9,6 +9,7 @@
 
 import { supabase } from '../../lib/supabase.js';
 import logger, { PerformanceTracker } from '../../lib/logger.js';
+import { eventBus } from '../../lib/event-bus.js';
 
 export enum RWAState {
     CREATED = 'created',
@@ -172,6 +173,10 @@ export class RWAStateMachineService {
         return validNextStates.includes(toState);
     }
 
+    getNextStates(fromState: RWAState): RWAState[] {
+        return VALID_TRANSITIONS[fromState] || [];
+    }
+
     getTransitionCost(fromState: RWAState, toState: RWAState): string {
         const key = `${fromState}->${toState}`;
         return TRANSITION_COSTS[key] || '0.00';
@@ -352,6 +357,17 @@ export class RWAStateMachineService {
             durationMs: totalDuration
         });
 
+        eventBus.publish('rwa.stateTransitioned', {
+            rwaId: request.rwaId,
+            transitionId: transition.id,
+            fromState: stateMachine.currentState,
+            toState: request.toState,
+            agentAddress: request.agentAddress,
+            agentRole: request.agentRole,
+            paymentHash: paymentId,
+            transitionedAt: Date.now(),
+        });
+
         return {
             success: true,
             rwaId: request.rwaId,
@@ -6,7 +6,22 @@
  */
 
 export { SessionManager } from './session-manager';
-export { X402SessionService } from './x402-session-service';
+export { X402SessionService, getX402SessionService } from './x402-session-service';
+export {
+    SessionLedger,
+    SessionLedgerError,
+    SupabaseSessionLedgerBackend,
+    InMemorySessionLedgerBackend,
+    createSessionLedger,
+    toBaseUnits,
+    fromBaseUnits
+} from './session-ledger';
+export {
+    SpendingPolicyService,
+    SpendingPolicyError,
+    evaluateSpendingPolicy,
+    validateSpendingPolicy
+} from './spending-policy';
 export type {
     Session,
     SessionPayment,
@@ -14,6 +29,23 @@ export type {
     SessionBudgetCheck,
     RecordPaymentParams,
     SessionStats,
-    SessionSummary
+    SessionSummary,
+    SessionSpendingPolicy
 } from './types';
 export type { X402PaymentRequest, SessionCreationResult } from './x402-session-service';
+export type {
+    SessionLedgerBackend,
+    SessionLedgerState,
+    SessionReservation,
+    SessionBalance,
+    ReservationStatus
+} from './session-ledger';
+export type {
+    SpendDetails,
+    SpendAttempt,
+    PolicySpend,
+    SpendingPolicyDenial,
+    SpendingPolicyDenialCode,
+    SpendApproval,
+    SpendApprovalStatus
+} from './spending-policy';
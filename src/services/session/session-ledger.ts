@@ -0,0 +1,748 @@
+/**
+ * Session Ledger - Atomic Session Budget Accounting
+ *
+ * Single entry point for every session spend. Amounts are USDC base
+ * units (6 decimals) held as bigints, never floats.
+ *
+ * Every balance change is a compare-and-swap on the session's
+ * ledger_version: the write only lands if nobody else changed the
+ * session since it was read, otherwise the operation re-reads and
+ * retries. Two concurrent spends can therefore never both pass the
+ * budget check.
+ *
+ * Spending is two-step: reserve() holds funds and returns a
+ * reservation, which is then commit()ed (optionally for a smaller
+ * amount) or release()d. debit() does both in one call. A hold whose
+ * payment already went through is committed with commitSettled(); if
+ * that commit keeps failing the reservation is flagged 'reconciling',
+ * which the expiry sweep never releases.
+ *
+ * An optional guard (the session spending policy, see spending-policy.ts)
+ * checks each reservation once it is recorded; a rejected hold is
+ * released again.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ethers } from 'ethers';
+import logger from '../../lib/logger.js';
+import { eventBus, type SessionEventType } from '../../lib/event-bus.js';
+import { SpendingPolicyService, type SpendDetails } from './spending-policy.js';
+
+export const USDC_DECIMALS = 6;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SessionLedgerState {
+    sessionId: string;
+    maxSpend: bigint;
+    spent: bigint;
+    reserved: bigint;
+    paymentCount: number;
+    isActive: boolean;
+    expiresAt: number;
+    version: number;
+}
+
+/** 'reconciling': paid, but the commit failed; held until it is committed */
+export type ReservationStatus = 'pending' | 'committed' | 'released' | 'reconciling';
+
+export interface SessionReservation {
+    reservationId: string;
+    sessionId: string;
+    amount: bigint;
+    capturedAmount: bigint | null;
+    status: ReservationStatus;
+    createdAt: number;
+    expiresAt: number;
+    metadata?: Record<string, unknown>;
+    /** Who the reservation pays, for spending policy checks */
+    spend?: SpendDetails;
+}
+
+export interface SessionBalance {
+    sessionId: string;
+    maxSpend: bigint;
+    spent: bigint;
+    reserved: bigint;
+    available: bigint;
+}
+
+export type SessionLedgerErrorCode =
+    | 'SESSION_NOT_FOUND'
+    | 'SESSION_INACTIVE'
+    | 'SESSION_EXPIRED'
+    | 'INSUFFICIENT_BUDGET'
+    | 'INVALID_AMOUNT'
+    | 'RESERVATION_NOT_FOUND'
+    | 'RESERVATION_SETTLED'
+    | 'CONFLICT';
+
+export class SessionLedgerError extends Error {
+    code: SessionLedgerErrorCode;
+
+    constructor(code: SessionLedgerErrorCode, message: string) {
+        super(message);
+        this.name = 'SessionLedgerError';
+        this.code = code;
+    }
+}
+
+/**
+ * Storage backend for the ledger. compareAndSwap must only apply the
+ * update when the stored version equals expectedVersion.
+ */
+export interface SessionLedgerBackend {
+    load(sessionId: string): Promise<SessionLedgerState | null>;
+    compareAndSwap(
+        expectedVersion: number,
+        next: SessionLedgerState
+    ): Promise<boolean>;
+    insertReservation(reservation: SessionReservation): Promise<void>;
+    getReservation(reservationId: string): Promise<SessionReservation | null>;
+    /** Move a reservation out of `from`; returns false if it was no longer in that status */
+    transitionReservation(
+        reservationId: string,
+        from: ReservationStatus,
+        to: ReservationStatus,
+        capturedAmount?: bigint
+    ): Promise<boolean>;
+    listExpiredReservations(now: number): Promise<SessionReservation[]>;
+}
+
+export interface ReserveOptions {
+    /** How long the hold lasts before it can be swept (default 10 minutes) */
+    ttlMs?: number;
+    metadata?: Record<string, unknown>;
+    spend?: SpendDetails;
+}
+
+/**
+ * Runs after a reservation is recorded; throwing rejects the reservation
+ */
+export type ReservationGuard = (reservation: SessionReservation) => Promise<void>;
+
+/**
+ * Runs after a reservation is released, to give back what its guard used up
+ */
+export type ReservationReleaseHook = (reservation: SessionReservation) => Promise<void>;
+
+// ============================================
+// AMOUNT HELPERS
+// ============================================
+
+/**
+ * Convert a decimal USDC amount ("1.25") to base units (1250000n)
+ */
+export function toBaseUnits(amount: string | number): bigint {
+    const value = typeof amount === 'number' ? amount.toFixed(USDC_DECIMALS) : amount.trim();
+    return ethers.parseUnits(value || '0', USDC_DECIMALS);
+}
+
+/**
+ * Convert base units back to a decimal USDC string
+ */
+export function fromBaseUnits(units: bigint): string {
+    return ethers.formatUnits(units, USDC_DECIMALS);
+}
+
+function generateReservationId(): string {
+    return `rsv_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`;
+}
+
+// ============================================
+// LEDGER
+// ============================================
+
+const MAX_CAS_ATTEMPTS = 20;
+const SETTLED_COMMIT_ATTEMPTS = 3;
+const DEFAULT_RESERVATION_TTL_MS = 10 * 60 * 1000;
+
+export class SessionLedger {
+    constructor(
+        private backend: SessionLedgerBackend,
+        private guard?: ReservationGuard,
+        private onRelease?: ReservationReleaseHook
+    ) { }
+
+    async getBalance(sessionId: string): Promise<SessionBalance> {
+        const state = await this.backend.load(sessionId);
+        if (!state) {
+            throw new SessionLedgerError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+        }
+
+        return {
+            sessionId,
+            maxSpend: state.maxSpend,
+            spent: state.spent,
+            reserved: state.reserved,
+            available: available(state),
+        };
+    }
+
+    /**
+     * Hold `amount` base units against the session budget
+     */
+    async reserve(sessionId: string, amount: bigint, options: ReserveOptions = {}): Promise<SessionReservation> {
+        if (amount <= 0n) {
+            throw new SessionLedgerError('INVALID_AMOUNT', 'Reservation amount must be positive');
+        }
+
+        const now = Date.now();
+        const reservation: SessionReservation = {
+            reservationId: generateReservationId(),
+            sessionId,
+            amount,
+            capturedAmount: null,
+            status: 'pending',
+            createdAt: now,
+            expiresAt: now + (options.ttlMs ?? DEFAULT_RESERVATION_TTL_MS),
+            metadata: options.metadata,
+            spend: options.spend,
+        };
+
+        // The row goes in first: a hold is never on the balance without a
+        // reservation the expiry sweep can find
+        await this.backend.insertReservation(reservation);
+
+        try {
+            await this.mutate(sessionId, 'reserved', (state) => {
+                assertSpendable(state);
+                if (available(state) < amount) {
+                    throw new SessionLedgerError(
+                        'INSUFFICIENT_BUDGET',
+                        `Insufficient session budget. Need ${fromBaseUnits(amount)}, have ${fromBaseUnits(available(state))}`
+                    );
+                }
+                return { ...state, reserved: state.reserved + amount };
+            });
+        } catch (error) {
+            // Nothing was held; close the row without touching the balance
+            await this.backend.transitionReservation(reservation.reservationId, 'pending', 'released').catch((closeError) => {
+                logger.error('Failed to close reservation that was never held', closeError as Error, {
+                    reservationId: reservation.reservationId,
+                });
+            });
+            throw error;
+        }
+
+        if (this.guard) {
+            // Checked after the hold is recorded so concurrent reservations see each other
+            try {
+                await this.guard(reservation);
+            } catch (error) {
+                await this.release(reservation.reservationId);
+                throw error;
+            }
+        }
+
+        logger.info('Session budget reserved', {
+            sessionId,
+            reservationId: reservation.reservationId,
+            amount: amount.toString(),
+        });
+
+        return reservation;
+    }
+
+    /**
+     * Turn a reservation into spend. `amount` defaults to the full
+     * reservation and may not exceed it; the rest is returned to the budget.
+     */
+    async commit(reservationId: string, amount?: bigint): Promise<SessionReservation> {
+        const reservation = await this.requireOpen(reservationId, ['pending', 'reconciling']);
+        const captured = amount ?? reservation.amount;
+
+        if (captured < 0n || captured > reservation.amount) {
+            throw new SessionLedgerError(
+                'INVALID_AMOUNT',
+                `Commit amount ${captured} outside reservation of ${reservation.amount}`
+            );
+        }
+
+        await this.settle(reservation, 'committed', captured, (state) => ({
+            ...state,
+            reserved: state.reserved - reservation.amount,
+            spent: state.spent + captured,
+            paymentCount: captured > 0n ? state.paymentCount + 1 : state.paymentCount,
+        }));
+
+        logger.info('Session reservation committed', {
+            sessionId: reservation.sessionId,
+            reservationId,
+            amount: captured.toString(),
+        });
+
+        return { ...reservation, status: 'committed', capturedAmount: captured };
+    }
+
+    /**
+     * Commit a reservation whose payment has already been made. The commit
+     * is retried; if it still fails the reservation is flagged
+     * 'reconciling' so it is never released, and the error is rethrown.
+     */
+    async commitSettled(reservationId: string, amount?: bigint): Promise<SessionReservation> {
+        let lastError: unknown;
+        for (let attempt = 0; attempt < SETTLED_COMMIT_ATTEMPTS; attempt++) {
+            try {
+                return await this.commit(reservationId, amount);
+            } catch (error) {
+                if (error instanceof SessionLedgerError && error.code === 'INVALID_AMOUNT') throw error;
+                lastError = error;
+            }
+        }
+
+        const flagged = await this.backend.transitionReservation(reservationId, 'pending', 'reconciling')
+            .catch(() => false);
+        logger.error('Settled payment could not be committed; reservation needs reconciliation', lastError as Error, {
+            reservationId,
+            flagged,
+        });
+        throw lastError;
+    }
+
+    /**
+     * Drop a reservation and return its funds to the budget
+     */
+    async release(reservationId: string): Promise<SessionReservation> {
+        const reservation = await this.requireOpen(reservationId, ['pending']);
+
+        await this.settle(reservation, 'released', undefined, (state) => ({
+            ...state,
+            reserved: state.reserved - reservation.amount,
+        }));
+
+        logger.info('Session reservation released', {
+            sessionId: reservation.sessionId,
+            reservationId,
+        });
+
+        const released: SessionReservation = { ...reservation, status: 'released' };
+        if (this.onRelease) {
+            // The funds are back either way; a failed hook is only logged
+            await this.onRelease(released).catch((error) => {
+                logger.error('Reservation release hook failed', error as Error, { reservationId });
+            });
+        }
+
+        return released;
+    }
+
+    /**
+     * Reserve and immediately commit
+     */
+    async debit(sessionId: string, amount: bigint, metadata?: Record<string, unknown>): Promise<SessionReservation> {
+        const reservation = await this.reserve(sessionId, amount, { metadata });
+        return this.commit(reservation.reservationId);
+    }
+
+    /**
+     * Book a spend that already happened elsewhere, such as a chain-confirmed
+     * escrow release, as a reconciliation entry. It is recorded even when the
+     * session is inactive, expired or over budget: the money has moved.
+     */
+    async recordSettled(sessionId: string, amount: bigint, metadata?: Record<string, unknown>): Promise<SessionReservation> {
+        if (amount <= 0n) {
+            throw new SessionLedgerError('INVALID_AMOUNT', 'Settled amount must be positive');
+        }
+
+        await this.mutate(sessionId, 'committed', (state) => ({
+            ...state,
+            spent: state.spent + amount,
+            paymentCount: state.paymentCount + 1,
+        }));
+
+        const now = Date.now();
+        const entry: SessionReservation = {
+            reservationId: generateReservationId(),
+            sessionId,
+            amount,
+            capturedAmount: amount,
+            status: 'committed',
+            createdAt: now,
+            expiresAt: now,
+            metadata: { ...metadata, reconciliation: true },
+        };
+
+        // The balance already holds the spend; the entry is its history
+        await this.backend.insertReservation(entry).catch((error) => {
+            logger.error('Failed to record reconciliation entry', error as Error, { sessionId, amount: amount.toString() });
+        });
+
+        logger.info('Settled session spend recorded', { sessionId, reservationId: entry.reservationId, amount: amount.toString() });
+        return entry;
+    }
+
+    /**
+     * Release holds whose TTL passed (e.g. the process died mid-call)
+     */
+    async releaseExpired(now: number = Date.now()): Promise<number> {
+        const expired = await this.backend.listExpiredReservations(now);
+        let released = 0;
+
+        for (const reservation of expired) {
+            try {
+                await this.release(reservation.reservationId);
+                released++;
+            } catch (error) {
+                if (!(error instanceof SessionLedgerError && error.code === 'RESERVATION_SETTLED')) {
+                    logger.error('Failed to release expired reservation', error as Error, {
+                        reservationId: reservation.reservationId,
+                    });
+                }
+            }
+        }
+
+        return released;
+    }
+
+    /**
+     * Move an open reservation to `to` and apply its balance change. If the
+     * balance update fails the reservation goes back to where it was, so
+     * the hold stays tracked and can still be settled (or swept, if pending).
+     */
+    private async settle(
+        reservation: SessionReservation,
+        to: 'committed' | 'released',
+        capturedAmount: bigint | undefined,
+        update: (state: SessionLedgerState) => SessionLedgerState
+    ): Promise<void> {
+        const { reservationId, status: from } = reservation;
+
+        const moved = await this.backend.transitionReservation(reservationId, from, to, capturedAmount);
+        if (!moved) {
+            throw new SessionLedgerError('RESERVATION_SETTLED', `Reservation ${reservationId} already settled`);
+        }
+
+        try {
+            await this.mutate(reservation.sessionId, to, update);
+        } catch (error) {
+            await this.backend.transitionReservation(reservationId, to, from).catch((restoreError) => {
+                logger.error('Failed to restore reservation after ledger update failed', restoreError as Error, {
+                    reservationId,
+                });
+            });
+            throw error;
+        }
+    }
+
+    private async requireOpen(reservationId: string, statuses: ReservationStatus[]): Promise<SessionReservation> {
+        const reservation = await this.backend.getReservation(reservationId);
+        if (!reservation) {
+            throw new SessionLedgerError('RESERVATION_NOT_FOUND', `Reservation ${reservationId} not found`);
+        }
+        if (!statuses.includes(reservation.status)) {
+            throw new SessionLedgerError('RESERVATION_SETTLED', `Reservation ${reservationId} already ${reservation.status}`);
+        }
+        return reservation;
+    }
+
+    /**
+     * Read-modify-write with compare-and-swap, retried on version conflicts
+     */
+    private async mutate(
+        sessionId: string,
+        event: SessionEventType,
+        update: (state: SessionLedgerState) => SessionLedgerState
+    ): Promise<SessionLedgerState> {
+        for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+            const state = await this.backend.load(sessionId);
+            if (!state) {
+                throw new SessionLedgerError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+            }
+
+            const next = { ...update(state), version: state.version + 1 };
+            if (await this.backend.compareAndSwap(state.version, next)) {
+                eventBus.publish('session.updated', {
+                    sessionId,
+                    event,
+                    isActive: next.isActive,
+                    spent: fromBaseUnits(next.spent),
+                    reserved: fromBaseUnits(next.reserved),
+                    remaining: fromBaseUnits(available(next)),
+                    paymentCount: next.paymentCount,
+                    updatedAt: Date.now(),
+                });
+                return next;
+            }
+
+            // Lost the race; back off briefly before re-reading
+            await new Promise(resolve => setTimeout(resolve, Math.random() * 10 * (attempt + 1)));
+        }
+
+        throw new SessionLedgerError('CONFLICT', `Too much contention on session ${sessionId}`);
+    }
+}
+
+function available(state: SessionLedgerState): bigint {
+    const remaining = state.maxSpend - state.spent - state.reserved;
+    return remaining > 0n ? remaining : 0n;
+}
+
+function assertSpendable(state: SessionLedgerState): void {
+    if (!state.isActive) {
+        throw new SessionLedgerError('SESSION_INACTIVE', `Session ${state.sessionId} is not active`);
+    }
+    if (state.expiresAt <= Date.now()) {
+        throw new SessionLedgerError('SESSION_EXPIRED', `Session ${state.sessionId} has expired`);
+    }
+}
+
+// ============================================
+// SUPABASE BACKEND
+// ============================================
+
+interface SessionLedgerRow {
+    session_id: string;
+    max_spend: string | null;
+    deposited: string | null;
+    released: string | null;
+    spent_base_units: string | null;
+    reserved_base_units: string | null;
+    payment_count: number | null;
+    is_active: boolean;
+    expiry: string;
+    ledger_version: number | null;
+}
+
+interface ReservationRow {
+    reservation_id: string;
+    session_id: string;
+    amount: string;
+    captured_amount: string | null;
+    status: ReservationStatus;
+    created_at: string;
+    expires_at: string;
+    metadata: Record<string, unknown> | null;
+    agent_address: string | null;
+    service_id: string | null;
+    category: string | null;
+    approval_id: string | null;
+}
+
+function mapReservationRow(row: ReservationRow): SessionReservation {
+    return {
+        reservationId: row.reservation_id,
+        sessionId: row.session_id,
+        amount: BigInt(row.amount),
+        capturedAmount: row.captured_amount !== null ? BigInt(row.captured_amount) : null,
+        status: row.status,
+        createdAt: new Date(row.created_at).getTime(),
+        expiresAt: new Date(row.expires_at).getTime(),
+        metadata: row.metadata || undefined,
+        spend: row.agent_address || row.service_id || row.category || row.approval_id
+            ? {
+                agentAddress: row.agent_address || undefined,
+                serviceId: row.service_id || undefined,
+                category: row.category || undefined,
+                approvalId: row.approval_id || undefined,
+            }
+            : undefined,
+    };
+}
+
+/**
+ * Stores ledger state on escrow_sessions (spent_base_units,
+ * reserved_base_units, ledger_version) and holds in session_reservations.
+ * The decimal released/spent columns are kept in sync for existing readers.
+ */
+export class SupabaseSessionLedgerBackend implements SessionLedgerBackend {
+    constructor(private supabase: SupabaseClient) { }
+
+    async load(sessionId: string): Promise<SessionLedgerState | null> {
+        const { data, error } = await this.supabase
+            .from('escrow_sessions')
+            .select('session_id, max_spend, deposited, released, spent_base_units, reserved_base_units, payment_count, is_active, expiry, ledger_version')
+            .eq('session_id', sessionId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load session ledger: ${error.message}`);
+        }
+        if (!data) return null;
+
+        const row = data as SessionLedgerRow;
+        return {
+            sessionId: row.session_id,
+            maxSpend: toBaseUnits(row.max_spend || row.deposited || '0'),
+            spent: row.spent_base_units !== null
+                ? BigInt(row.spent_base_units)
+                : toBaseUnits(row.released || '0'),
+            reserved: BigInt(row.reserved_base_units || '0'),
+            paymentCount: row.payment_count || 0,
+            isActive: row.is_active,
+            expiresAt: new Date(row.expiry).getTime(),
+            version: row.ledger_version || 0,
+        };
+    }
+
+    async compareAndSwap(expectedVersion: number, next: SessionLedgerState): Promise<boolean> {
+        let query = this.supabase
+            .from('escrow_sessions')
+            .update({
+                spent_base_units: next.spent.toString(),
+                reserved_base_units: next.reserved.toString(),
+                released: fromBaseUnits(next.spent),
+                spent: fromBaseUnits(next.spent),
+                payment_count: next.paymentCount,
+                ledger_version: next.version,
+                updated_at: new Date().toISOString(),
+            })
+            .eq('session_id', next.sessionId);
+
+        // Rows created before the ledger migration have a NULL version
+        query = expectedVersion === 0
+            ? query.or('ledger_version.is.null,ledger_version.eq.0')
+            : query.eq('ledger_version', expectedVersion);
+
+        const { data, error } = await query.select('session_id');
+
+        if (error) {
+            throw new Error(`Failed to update session ledger: ${error.message}`);
+        }
+
+        return (data || []).length === 1;
+    }
+
+    async insertReservation(reservation: SessionReservation): Promise<void> {
+        const { error } = await this.supabase
+            .from('session_reservations')
+            .insert({
+                reservation_id: reservation.reservationId,
+                session_id: reservation.sessionId,
+                amount: reservation.amount.toString(),
+                captured_amount: reservation.capturedAmount !== null ? reservation.capturedAmount.toString() : null,
+                status: reservation.status,
+                created_at: new Date(reservation.createdAt).toISOString(),
+                expires_at: new Date(reservation.expiresAt).toISOString(),
+                metadata: reservation.metadata || {},
+                agent_address: reservation.spend?.agentAddress?.toLowerCase() ?? null,
+                service_id: reservation.spend?.serviceId ?? null,
+                category: reservation.spend?.category ?? null,
+                approval_id: reservation.spend?.approvalId ?? null,
+            });
+
+        if (error) {
+            throw new Error(`Failed to record reservation: ${error.message}`);
+        }
+    }
+
+    async getReservation(reservationId: string): Promise<SessionReservation | null> {
+        const { data, error } = await this.supabase
+            .from('session_reservations')
+            .select('*')
+            .eq('reservation_id', reservationId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to get reservation: ${error.message}`);
+        }
+
+        return data ? mapReservationRow(data as ReservationRow) : null;
+    }
+
+    async transitionReservation(
+        reservationId: string,
+        from: ReservationStatus,
+        to: ReservationStatus,
+        capturedAmount?: bigint
+    ): Promise<boolean> {
+        const { data, error } = await this.supabase
+            .from('session_reservations')
+            .update({
+                status: to,
+                captured_amount: capturedAmount !== undefined ? capturedAmount.toString() : null,
+                settled_at: new Date().toISOString(),
+            })
+            .eq('reservation_id', reservationId)
+            .eq('status', from)
+            .select('reservation_id');
+
+        if (error) {
+            throw new Error(`Failed to update reservation: ${error.message}`);
+        }
+
+        return (data || []).length === 1;
+    }
+
+    async listExpiredReservations(now: number): Promise<SessionReservation[]> {
+        const { data, error } = await this.supabase
+            .from('session_reservations')
+            .select('*')
+            .eq('status', 'pending')
+            .lt('expires_at', new Date(now).toISOString())
+            .limit(100);
+
+        if (error) {
+            throw new Error(`Failed to list expired reservations: ${error.message}`);
+        }
+
+        return (data || []).map(row => mapReservationRow(row as ReservationRow));
+    }
+}
+
+// ============================================
+// IN-MEMORY BACKEND
+// ============================================
+
+/**
+ * Process-local backend for tests and local tooling
+ */
+export class InMemorySessionLedgerBackend implements SessionLedgerBackend {
+    private sessions = new Map<string, SessionLedgerState>();
+    private reservations = new Map<string, SessionReservation>();
+
+    setSession(state: Omit<SessionLedgerState, 'version'> & { version?: number }): void {
+        this.sessions.set(state.sessionId, { version: 0, ...state });
+    }
+
+    async load(sessionId: string): Promise<SessionLedgerState | null> {
+        const state = this.sessions.get(sessionId);
+        return state ? { ...state } : null;
+    }
+
+    async compareAndSwap(expectedVersion: number, next: SessionLedgerState): Promise<boolean> {
+        const current = this.sessions.get(next.sessionId);
+        if (!current || current.version !== expectedVersion) return false;
+        this.sessions.set(next.sessionId, { ...next });
+        return true;
+    }
+
+    async insertReservation(reservation: SessionReservation): Promise<void> {
+        this.reservations.set(reservation.reservationId, { ...reservation });
+    }
+
+    async getReservation(reservationId: string): Promise<SessionReservation | null> {
+        const reservation = this.reservations.get(reservationId);
+        return reservation ? { ...reservation } : null;
+    }
+
+    async transitionReservation(
+        reservationId: string,
+        from: ReservationStatus,
+        to: ReservationStatus,
+        capturedAmount?: bigint
+    ): Promise<boolean> {
+        const reservation = this.reservations.get(reservationId);
+        if (!reservation || reservation.status !== from) return false;
+        reservation.status = to;
+        reservation.capturedAmount = capturedAmount ?? null;
+        return true;
+    }
+
+    async listExpiredReservations(now: number): Promise<SessionReservation[]> {
+        return Array.from(this.reservations.values())
+            .filter(r => r.status === 'pending' && r.expiresAt < now)
+            .map(r => ({ ...r }));
+    }
+}
+
+export function createSessionLedger(supabase: SupabaseClient): SessionLedger {
+    const policies = new SpendingPolicyService(supabase);
+    return new SessionLedger(
+        new SupabaseSessionLedgerBackend(supabase),
+        policies.guardReservation,
+        policies.releaseReservation
+    );
+}
@@ -7,6 +7,15 @@
 
 import { SupabaseClient } from '@supabase/supabase-js';
 import logger from '../../lib/logger.js';
+import { eventBus } from '../../lib/event-bus.js';
+import {
+    createSessionLedger,
+    fromBaseUnits,
+    toBaseUnits,
+    SessionLedgerError,
+    type SessionLedger,
+    type SessionReservation
+} from './session-ledger.js';
 import type {
     Session,
     SessionPayment,
@@ -18,10 +27,14 @@ import type {
 } from './types';
 
 export class SessionManager {
+    private ledger: SessionLedger;
+
     constructor(
         private supabase: SupabaseClient,
         private relayWalletAddress: string
-    ) { }
+    ) {
+        this.ledger = createSessionLedger(supabase);
+    }
 
     /**
      * Create a new spending session
@@ -102,41 +115,57 @@ export class SessionManager {
             };
         }
 
-        const maxSpend = parseFloat(session.max_spend);
-        const released = parseFloat(session.released);
-        const requestAmount = parseFloat(amount);
-        const remaining = maxSpend - released;
-
-        const canAfford = remaining >= requestAmount;
+        // Advisory only: reserveBudget() is what actually holds the funds
+        const balance = await this.ledger.getBalance(sessionId);
+        const requestAmount = toBaseUnits(amount);
+        const canAfford = balance.available >= requestAmount;
 
         return {
             canAfford,
-            remaining: remaining.toFixed(6),
-            released: released.toFixed(6),
-            maxSpend: maxSpend.toFixed(6),
-            reason: canAfford ? undefined : `Insufficient budget (need ${requestAmount}, have ${remaining})`
+            remaining: fromBaseUnits(balance.available),
+            released: fromBaseUnits(balance.spent),
+            maxSpend: fromBaseUnits(balance.maxSpend),
+            reason: canAfford
+                ? undefined
+                : `Insufficient budget (need ${amount}, have ${fromBaseUnits(balance.available)})`
         };
     }
 
     /**
-     * Record a payment from the session
+     * Hold funds for a payment that will be recorded later
+     */
+    async reserveBudget(sessionId: string, amount: string, metadata?: Record<string, unknown>): Promise<SessionReservation> {
+        return this.ledger.reserve(sessionId, toBaseUnits(amount), { metadata });
+    }
+
+    /**
+     * Return held funds to the session when a payment does not go ahead
+     */
+    async releaseBudget(reservationId: string): Promise<void> {
+        try {
+            await this.ledger.release(reservationId);
+        } catch (error) {
+            if (error instanceof SessionLedgerError && error.code === 'RESERVATION_SETTLED') return;
+            throw error;
+        }
+    }
+
+    /**
+     * Record a payment from the session.
+     * Commits `reservationId` if given, otherwise debits the session directly.
      */
-    async recordPayment(sessionId: string, payment: RecordPaymentParams): Promise<void> {
+    async recordPayment(sessionId: string, payment: RecordPaymentParams, reservationId?: string): Promise<void> {
         logger.info('Recording session payment', {
             sessionId,
             agent: payment.agentAddress,
             amount: payment.amount
         });
 
-        // Update session spending atomically
-        const { error: updateError } = await this.supabase.rpc(
-            'increment_session_spending',
-            { p_session_id: sessionId, p_amount: payment.amount }
-        );
-
-        if (updateError) {
-            logger.error('Failed to update session spending', updateError);
-            throw updateError;
+        const amount = toBaseUnits(payment.amount);
+        if (reservationId) {
+            await this.ledger.commit(reservationId, amount);
+        } else {
+            await this.ledger.debit(sessionId, amount, payment.metadata);
         }
 
         // Record payment
@@ -248,19 +277,19 @@ export class SessionManager {
 
         const payments = await this.getSessionPayments(sessionId);
 
-        const maxSpend = parseFloat(session.max_spend);
-        const released = parseFloat(session.released);
-        const remaining = maxSpend - released;
-        const utilizationPercent = maxSpend > 0 ? (released / maxSpend) * 100 : 0;
+        const balance = await this.ledger.getBalance(sessionId);
+        const utilizationBps = balance.maxSpend > 0n
+            ? Number((balance.spent * 10000n) / balance.maxSpend)
+            : 0;
 
         return {
             session,
             payments,
             stats: {
-                totalReleased: released.toFixed(6),
+                totalReleased: fromBaseUnits(balance.spent),
                 paymentCount: payments.length,
-                remaining: remaining.toFixed(6),
-                utilizationPercent: parseFloat(utilizationPercent.toFixed(2))
+                remaining: fromBaseUnits(balance.available),
+                utilizationPercent: utilizationBps / 100
             }
         };
     }
@@ -285,6 +314,16 @@ export class SessionManager {
         }
 
         logger.info('Session closed', { sessionId });
+        eventBus.publish('session.updated', {
+            sessionId,
+            event: 'closed',
+            isActive: false,
+            spent: null,
+            reserved: null,
+            remaining: null,
+            paymentCount: null,
+            updatedAt: Date.now(),
+        });
     }
 
     /**
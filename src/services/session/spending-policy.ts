@@ -0,0 +1,685 @@
+/**
+ * Session Spending Policies
+ *
+ * Declarative rules on top of a session's max_spend (per-call maximum,
+ * rolling daily limit, per-agent and per-service caps, a category
+ * allowlist and an approval threshold), stored on
+ * escrow_sessions.spending_policy and checked on every session spend:
+ *
+ * - x402 session spends go through SessionLedger.reserve(), which calls
+ *   guardReservation() once the hold is recorded. The hold is part of the
+ *   history other spends are checked against, so two concurrent spends
+ *   can both be denied but never both get past a limit.
+ * - On-chain escrow releases record a pending escrow_payments row, then
+ *   call enforceEscrowRelease(), which checks them against the released
+ *   and other pending rows of the session, with the same guarantee.
+ *
+ * Denials are thrown as SpendingPolicyError carrying a structured
+ * SpendingPolicyDenial. A payment above approvalThreshold opens a pending
+ * approval (retries reuse it while it waits on the owner); after the owner
+ * approves it the spend is retried with the approval id, which is used up
+ * by that spend. A spend that doesn't go through gives it back: a released
+ * reservation through releaseReservation(), a failed escrow release with
+ * restoreApproval().
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ethers } from 'ethers';
+import logger from '../../lib/logger.js';
+import type { SessionSpendingPolicy } from './types';
+import { toBaseUnits, fromBaseUnits, type SessionReservation } from './session-ledger.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Who a session spend pays; used for caps and the category allowlist */
+export interface SpendDetails {
+    agentAddress?: string;
+    serviceId?: string;
+    category?: string;
+    /** Approved approval for a payment above the approval threshold */
+    approvalId?: string;
+}
+
+export interface SpendAttempt extends SpendDetails {
+    /** USDC base units */
+    amount: bigint;
+}
+
+/** A past spend counted against the policy limits */
+export interface PolicySpend {
+    amount: bigint;
+    agentAddress?: string;
+    serviceId?: string;
+    createdAt: number;
+}
+
+export type SpendingPolicyDenialCode =
+    | 'MAX_PER_CALL_EXCEEDED'
+    | 'DAILY_LIMIT_EXCEEDED'
+    | 'AGENT_CAP_EXCEEDED'
+    | 'SERVICE_CAP_EXCEEDED'
+    | 'CATEGORY_NOT_ALLOWED'
+    | 'APPROVAL_REQUIRED';
+
+export interface SpendingPolicyDenial {
+    code: SpendingPolicyDenialCode;
+    reason: string;
+    /** Requested amount (USDC) */
+    requested: string;
+    /** The limit that was hit (USDC) */
+    limit?: string;
+    /** Spend already counted against that limit (USDC) */
+    spent?: string;
+    agentAddress?: string;
+    serviceId?: string;
+    category?: string;
+    /** Approval the owner has to grant (APPROVAL_REQUIRED) */
+    approvalId?: string;
+}
+
+export type SpendingPolicyErrorCode =
+    | 'DENIED'
+    | 'INVALID_POLICY'
+    | 'APPROVAL_NOT_FOUND'
+    | 'APPROVAL_DECIDED';
+
+export class SpendingPolicyError extends Error {
+    code: SpendingPolicyErrorCode;
+    denial?: SpendingPolicyDenial;
+
+    constructor(code: SpendingPolicyErrorCode, message: string, denial?: SpendingPolicyDenial) {
+        super(message);
+        this.name = 'SpendingPolicyError';
+        this.code = code;
+        this.denial = denial;
+    }
+}
+
+export type SpendApprovalStatus = 'pending' | 'approved' | 'rejected' | 'used';
+
+export interface SpendApproval {
+    approvalId: string;
+    sessionId: string;
+    amount: bigint;
+    agentAddress?: string;
+    serviceId?: string;
+    category?: string;
+    status: SpendApprovalStatus;
+    createdAt: number;
+    expiresAt: number;
+    decidedAt: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const APPROVAL_TTL_MS = DAY_MS;
+
+// Pending escrow releases older than this were abandoned and no longer count
+const PENDING_RELEASE_TTL_MS = 15 * 60 * 1000;
+
+const POLICY_FIELDS = ['maxPerCall', 'dailyLimit', 'agentCaps', 'serviceCaps', 'allowedCategories', 'approvalThreshold'];
+
+// ============================================
+// POLICY EVALUATION
+// ============================================
+
+function invalidPolicy(message: string): SpendingPolicyError {
+    return new SpendingPolicyError('INVALID_POLICY', message);
+}
+
+function parseAmount(field: string, value: unknown): string {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        throw invalidPolicy(`${field} must be a USDC amount`);
+    }
+    let units: bigint;
+    try {
+        units = toBaseUnits(value);
+    } catch {
+        throw invalidPolicy(`${field} must be a USDC amount, got "${value}"`);
+    }
+    if (units < 0n) {
+        throw invalidPolicy(`${field} must not be negative`);
+    }
+    return fromBaseUnits(units);
+}
+
+function parseCaps(field: string, value: unknown, normalizeKey: (key: string) => string): Record<string, string> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw invalidPolicy(`${field} must map ids to USDC amounts`);
+    }
+    return Object.fromEntries(
+        Object.entries(value).map(([key, cap]) => [normalizeKey(key), parseAmount(`${field}.${key}`, cap)])
+    );
+}
+
+/**
+ * Validate and normalize a policy from user input (amounts to canonical
+ * decimals, agent addresses and categories to lowercase).
+ */
+export function validateSpendingPolicy(input: unknown): SessionSpendingPolicy {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        throw invalidPolicy('Spending policy must be an object');
+    }
+
+    const raw = input as Record<string, unknown>;
+    const unknownField = Object.keys(raw).find(key => !POLICY_FIELDS.includes(key));
+    if (unknownField) {
+        throw invalidPolicy(`Unknown spending policy field "${unknownField}"`);
+    }
+
+    const policy: SessionSpendingPolicy = {};
+    if (raw.maxPerCall !== undefined) policy.maxPerCall = parseAmount('maxPerCall', raw.maxPerCall);
+    if (raw.dailyLimit !== undefined) policy.dailyLimit = parseAmount('dailyLimit', raw.dailyLimit);
+    if (raw.approvalThreshold !== undefined) {
+        policy.approvalThreshold = parseAmount('approvalThreshold', raw.approvalThreshold);
+    }
+    if (raw.agentCaps !== undefined) {
+        policy.agentCaps = parseCaps('agentCaps', raw.agentCaps, key => {
+            if (!ethers.isAddress(key)) throw invalidPolicy(`agentCaps key "${key}" is not an address`);
+            return key.toLowerCase();
+        });
+    }
+    if (raw.serviceCaps !== undefined) {
+        policy.serviceCaps = parseCaps('serviceCaps', raw.serviceCaps, key => key);
+    }
+    if (raw.allowedCategories !== undefined) {
+        if (!Array.isArray(raw.allowedCategories) || raw.allowedCategories.some(c => typeof c !== 'string')) {
+            throw invalidPolicy('allowedCategories must be a list of category names');
+        }
+        policy.allowedCategories = raw.allowedCategories.map(c => (c as string).toLowerCase());
+    }
+
+    return policy;
+}
+
+/**
+ * Check one spend against a policy. `history` holds earlier spends of the
+ * session (not the attempt itself). Returns null when the spend is allowed.
+ */
+export function evaluateSpendingPolicy(
+    policy: SessionSpendingPolicy,
+    attempt: SpendAttempt,
+    history: PolicySpend[],
+    options: { approved?: boolean; now?: number } = {}
+): SpendingPolicyDenial | null {
+    const now = options.now ?? Date.now();
+    const requested = fromBaseUnits(attempt.amount);
+    const agentAddress = attempt.agentAddress?.toLowerCase();
+
+    const deny = (code: SpendingPolicyDenialCode, reason: string, limit?: bigint, spent?: bigint): SpendingPolicyDenial => ({
+        code,
+        reason,
+        requested,
+        ...(limit !== undefined && { limit: fromBaseUnits(limit) }),
+        ...(spent !== undefined && { spent: fromBaseUnits(spent) }),
+        ...(agentAddress && { agentAddress }),
+        ...(attempt.serviceId && { serviceId: attempt.serviceId }),
+        ...(attempt.category && { category: attempt.category }),
+    });
+    const total = (spends: PolicySpend[]) => spends.reduce((sum, spend) => sum + spend.amount, 0n);
+
+    if (policy.allowedCategories) {
+        const category = attempt.category?.toLowerCase();
+        if (!category || !policy.allowedCategories.includes(category)) {
+            return deny('CATEGORY_NOT_ALLOWED', `Category "${attempt.category ?? 'unknown'}" is not allowed by the session policy`);
+        }
+    }
+
+    if (policy.maxPerCall !== undefined) {
+        const limit = toBaseUnits(policy.maxPerCall);
+        if (attempt.amount > limit) {
+            return deny('MAX_PER_CALL_EXCEEDED', `Payment of ${requested} USDC exceeds the per-call maximum of ${policy.maxPerCall} USDC`, limit);
+        }
+    }
+
+    const agentCap = agentAddress ? policy.agentCaps?.[agentAddress] : undefined;
+    if (agentCap !== undefined) {
+        const limit = toBaseUnits(agentCap);
+        const spent = total(history.filter(spend => spend.agentAddress === agentAddress));
+        if (spent + attempt.amount > limit) {
+            return deny('AGENT_CAP_EXCEEDED', `Agent ${agentAddress} would exceed its cap of ${agentCap} USDC`, limit, spent);
+        }
+    }
+
+    const serviceCap = attempt.serviceId ? policy.serviceCaps?.[attempt.serviceId] : undefined;
+    if (serviceCap !== undefined) {
+        const limit = toBaseUnits(serviceCap);
+        const spent = total(history.filter(spend => spend.serviceId === attempt.serviceId));
+        if (spent + attempt.amount > limit) {
+            return deny('SERVICE_CAP_EXCEEDED', `Service ${attempt.serviceId} would exceed its cap of ${serviceCap} USDC`, limit, spent);
+        }
+    }
+
+    if (policy.dailyLimit !== undefined) {
+        const limit = toBaseUnits(policy.dailyLimit);
+        const spent = total(history.filter(spend => spend.createdAt > now - DAY_MS));
+        if (spent + attempt.amount > limit) {
+            return deny('DAILY_LIMIT_EXCEEDED', `Payment would exceed the daily limit of ${policy.dailyLimit} USDC`, limit, spent);
+        }
+    }
+
+    if (policy.approvalThreshold !== undefined && !options.approved) {
+        const limit = toBaseUnits(policy.approvalThreshold);
+        if (attempt.amount > limit) {
+            return deny('APPROVAL_REQUIRED', `Payments above ${policy.approvalThreshold} USDC need the session owner's approval`, limit);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Message the session owner signs to replace the policy
+ */
+export function policyUpdateMessage(sessionId: string, policy: unknown, timestamp: number): string {
+    return `Relay Core: set spending policy for session ${sessionId}\nPolicy: ${ethers.id(JSON.stringify(policy))}\nTimestamp: ${timestamp}`;
+}
+
+/**
+ * Message the session owner signs to approve or reject a spend
+ */
+export function approvalDecisionMessage(sessionId: string, approvalId: string, decision: 'approve' | 'reject'): string {
+    return `Relay Core: ${decision} spend ${approvalId} for session ${sessionId}`;
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+interface ApprovalRow {
+    approval_id: string;
+    session_id: string;
+    amount: string;
+    agent_address: string | null;
+    service_id: string | null;
+    category: string | null;
+    status: SpendApprovalStatus;
+    created_at: string;
+    expires_at: string;
+    decided_at: string | null;
+}
+
+function mapApprovalRow(row: ApprovalRow): SpendApproval {
+    return {
+        approvalId: row.approval_id,
+        sessionId: row.session_id,
+        amount: BigInt(row.amount),
+        agentAddress: row.agent_address || undefined,
+        serviceId: row.service_id || undefined,
+        category: row.category || undefined,
+        status: row.status,
+        createdAt: new Date(row.created_at).getTime(),
+        expiresAt: new Date(row.expires_at).getTime(),
+        decidedAt: row.decided_at ? new Date(row.decided_at).getTime() : null,
+    };
+}
+
+function generateApprovalId(): string {
+    return `apr_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`;
+}
+
+export class SpendingPolicyService {
+    constructor(private supabase: SupabaseClient) { }
+
+    async getPolicy(sessionId: string): Promise<SessionSpendingPolicy | null> {
+        const { data, error } = await this.supabase
+            .from('escrow_sessions')
+            .select('spending_policy')
+            .eq('session_id', sessionId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load spending policy: ${error.message}`);
+        }
+
+        return (data?.spending_policy as SessionSpendingPolicy | null) ?? null;
+    }
+
+    /**
+     * Replace the policy of a session (null removes it)
+     */
+    async setPolicy(sessionId: string, policy: unknown): Promise<SessionSpendingPolicy | null> {
+        const normalized = policy === null ? null : validateSpendingPolicy(policy);
+
+        const { data, error } = await this.supabase
+            .from('escrow_sessions')
+            .update({ spending_policy: normalized, updated_at: new Date().toISOString() })
+            .eq('session_id', sessionId)
+            .select('session_id');
+
+        if (error) {
+            throw new Error(`Failed to save spending policy: ${error.message}`);
+        }
+        if (!data || data.length === 0) {
+            throw new Error(`Session ${sessionId} not found`);
+        }
+
+        logger.info('Session spending policy updated', { sessionId, policy: normalized });
+        return normalized;
+    }
+
+    /**
+     * Fill in the service and category of a payee from the services table
+     */
+    async resolveSpend(agentAddress: string, details: SpendDetails = {}): Promise<SpendDetails> {
+        const resolved: SpendDetails = { ...details, agentAddress: agentAddress.toLowerCase() };
+        if (resolved.serviceId && resolved.category) {
+            return resolved;
+        }
+
+        try {
+            const { data } = await this.supabase
+                .from('services')
+                .select('id, category')
+                .ilike('owner_address', agentAddress)
+                .limit(1)
+                .maybeSingle();
+
+            resolved.serviceId = resolved.serviceId ?? data?.id;
+            resolved.category = resolved.category ?? data?.category ?? undefined;
+        } catch {
+            // Unknown payee: caps by service and category cannot match it
+        }
+
+        return resolved;
+    }
+
+    /**
+     * Check a spend against the session policy; throws SpendingPolicyError
+     * with the denial, and uses up the approval the spend relied on.
+     * Returns the id of the approval it used up, if any.
+     */
+    async enforce(sessionId: string, attempt: SpendAttempt, history: PolicySpend[]): Promise<string | null> {
+        const policy = await this.getPolicy(sessionId);
+        if (!policy) return null;
+
+        const approval = attempt.approvalId ? await this.getApproval(attempt.approvalId) : null;
+        const approved = approval !== null && approval.status === 'approved' && approvalCovers(approval, sessionId, attempt);
+
+        const denial = evaluateSpendingPolicy(policy, attempt, history, { approved });
+        if (denial) {
+            if (denial.code === 'APPROVAL_REQUIRED') {
+                // Keep pointing at an approval that is still waiting on the owner
+                const waiting = approval?.status === 'pending' && approvalCovers(approval, sessionId, attempt)
+                    ? approval
+                    : await this.findPendingApproval(sessionId, attempt);
+                denial.approvalId = waiting ? waiting.approvalId : (await this.requestApproval(sessionId, attempt)).approvalId;
+            }
+
+            logger.warn('Session spend denied by policy', { sessionId, ...denial });
+            throw new SpendingPolicyError('DENIED', denial.reason, denial);
+        }
+
+        if (approved && policy.approvalThreshold !== undefined && attempt.amount > toBaseUnits(policy.approvalThreshold)) {
+            await this.useApproval(approval.approvalId);
+            return approval.approvalId;
+        }
+        return null;
+    }
+
+    /**
+     * SessionLedger guard: checks a fresh reservation against the session's
+     * other pending and committed reservations.
+     */
+    guardReservation = async (reservation: SessionReservation): Promise<void> => {
+        const history = await this.reservationHistory(reservation.sessionId, reservation.reservationId);
+        await this.enforce(reservation.sessionId, { ...reservation.spend, amount: reservation.amount }, history);
+    };
+
+    /**
+     * SessionLedger release hook: gives back the approval a released
+     * reservation relied on, unless another open or spent reservation
+     * holds it (then this one never used it up).
+     */
+    releaseReservation = async (reservation: SessionReservation): Promise<void> => {
+        const approvalId = reservation.spend?.approvalId;
+        if (!approvalId) return;
+
+        const { data, error } = await this.supabase
+            .from('session_reservations')
+            .select('reservation_id')
+            .eq('approval_id', approvalId)
+            .neq('reservation_id', reservation.reservationId)
+            .in('status', ['pending', 'committed', 'reconciling'])
+            .limit(1);
+
+        if (error) {
+            throw new Error(`Failed to check spend approval use: ${error.message}`);
+        }
+        if (data && data.length > 0) return;
+
+        await this.restoreApproval(approvalId);
+        logger.info('Session spend approval restored', { sessionId: reservation.sessionId, approvalId });
+    };
+
+    /**
+     * Check an on-chain escrow release against the policy of its session.
+     * The release must already be recorded as a pending escrow_payments row
+     * under executionId; it is checked against the session's released and
+     * other pending rows. Returns the approval it used up, to be given back
+     * if the release fails.
+     */
+    async enforceEscrowRelease(sessionId: number, executionId: string, attempt: SpendAttempt): Promise<string | null> {
+        const policy = await this.getPolicy(String(sessionId));
+        if (!policy) return null;
+
+        const { data, error } = await this.supabase
+            .from('escrow_payments')
+            .select('execution_id, agent_address, amount, status, created_at')
+            .eq('session_id', sessionId)
+            .in('status', ['pending', 'released']);
+
+        if (error) {
+            throw new Error(`Failed to load escrow payments: ${error.message}`);
+        }
+
+        const staleBefore = Date.now() - PENDING_RELEASE_TTL_MS;
+        const rows = (data || [])
+            .filter(row => row.execution_id !== executionId)
+            .filter(row => row.status === 'released' || new Date(row.created_at).getTime() > staleBefore);
+
+        // escrow_payments has no service column; resolve each payee once
+        const services = new Map<string, string | undefined>();
+        const history: PolicySpend[] = [];
+        for (const row of rows) {
+            const agentAddress = String(row.agent_address).toLowerCase();
+            if (policy.serviceCaps && !services.has(agentAddress)) {
+                services.set(agentAddress, (await this.resolveSpend(agentAddress)).serviceId);
+            }
+            history.push({
+                amount: toBaseUnits(String(row.amount)),
+                agentAddress,
+                serviceId: services.get(agentAddress),
+                createdAt: new Date(row.created_at).getTime(),
+            });
+        }
+
+        return this.enforce(String(sessionId), attempt, history);
+    }
+
+    async getApproval(approvalId: string): Promise<SpendApproval | null> {
+        const { data, error } = await this.supabase
+            .from('session_spend_approvals')
+            .select('*')
+            .eq('approval_id', approvalId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to get spend approval: ${error.message}`);
+        }
+
+        return data ? mapApprovalRow(data as ApprovalRow) : null;
+    }
+
+    async listApprovals(sessionId: string, status?: SpendApprovalStatus): Promise<SpendApproval[]> {
+        let query = this.supabase
+            .from('session_spend_approvals')
+            .select('*')
+            .eq('session_id', sessionId)
+            .order('created_at', { ascending: false })
+            .limit(100);
+
+        if (status) {
+            query = query.eq('status', status);
+        }
+
+        const { data, error } = await query;
+        if (error) {
+            throw new Error(`Failed to list spend approvals: ${error.message}`);
+        }
+
+        return (data || []).map(row => mapApprovalRow(row as ApprovalRow));
+    }
+
+    /**
+     * Owner decision on a pending approval
+     */
+    async decideApproval(sessionId: string, approvalId: string, decision: 'approved' | 'rejected'): Promise<SpendApproval> {
+        const approval = await this.getApproval(approvalId);
+        if (!approval || approval.sessionId !== sessionId) {
+            throw new SpendingPolicyError('APPROVAL_NOT_FOUND', `Approval ${approvalId} not found`);
+        }
+        if (approval.status !== 'pending' || approval.expiresAt <= Date.now()) {
+            throw new SpendingPolicyError('APPROVAL_DECIDED', `Approval ${approvalId} is ${approval.status === 'pending' ? 'expired' : approval.status}`);
+        }
+
+        const decidedAt = new Date();
+        const { data, error } = await this.supabase
+            .from('session_spend_approvals')
+            .update({ status: decision, decided_at: decidedAt.toISOString() })
+            .eq('approval_id', approvalId)
+            .eq('status', 'pending')
+            .select('approval_id');
+
+        if (error) {
+            throw new Error(`Failed to update spend approval: ${error.message}`);
+        }
+        if (!data || data.length === 0) {
+            throw new SpendingPolicyError('APPROVAL_DECIDED', `Approval ${approvalId} was already decided`);
+        }
+
+        logger.info('Session spend approval decided', { sessionId, approvalId, decision });
+        return { ...approval, status: decision, decidedAt: decidedAt.getTime() };
+    }
+
+    private async requestApproval(sessionId: string, attempt: SpendAttempt): Promise<SpendApproval> {
+        const now = Date.now();
+        const approval: SpendApproval = {
+            approvalId: generateApprovalId(),
+            sessionId,
+            amount: attempt.amount,
+            agentAddress: attempt.agentAddress?.toLowerCase(),
+            serviceId: attempt.serviceId,
+            category: attempt.category,
+            status: 'pending',
+            createdAt: now,
+            expiresAt: now + APPROVAL_TTL_MS,
+            decidedAt: null,
+        };
+
+        const { error } = await this.supabase
+            .from('session_spend_approvals')
+            .insert({
+                approval_id: approval.approvalId,
+                session_id: sessionId,
+                amount: approval.amount.toString(),
+                agent_address: approval.agentAddress ?? null,
+                service_id: approval.serviceId ?? null,
+                category: approval.category ?? null,
+                status: approval.status,
+                created_at: new Date(now).toISOString(),
+                expires_at: new Date(approval.expiresAt).toISOString(),
+            });
+
+        if (error) {
+            throw new Error(`Failed to request spend approval: ${error.message}`);
+        }
+
+        logger.info('Session spend approval requested', {
+            sessionId,
+            approvalId: approval.approvalId,
+            amount: fromBaseUnits(approval.amount),
+        });
+        return approval;
+    }
+
+    /**
+     * Give back an approval used up by a spend that did not go through
+     */
+    async restoreApproval(approvalId: string): Promise<void> {
+        const { error } = await this.supabase
+            .from('session_spend_approvals')
+            .update({ status: 'approved', used_at: null })
+            .eq('approval_id', approvalId)
+            .eq('status', 'used');
+
+        if (error) {
+            throw new Error(`Failed to restore spend approval: ${error.message}`);
+        }
+    }
+
+    /**
+     * Approval still waiting on the owner for the same spend, so retries
+     * don't open a new one each time
+     */
+    private async findPendingApproval(sessionId: string, attempt: SpendAttempt): Promise<SpendApproval | null> {
+        const pending = await this.listApprovals(sessionId, 'pending');
+        return pending.find(approval =>
+            approval.amount === attempt.amount
+            && approval.agentAddress === attempt.agentAddress?.toLowerCase()
+            && approval.serviceId === attempt.serviceId
+            && approvalCovers(approval, sessionId, attempt)
+        ) ?? null;
+    }
+
+    private async useApproval(approvalId: string): Promise<void> {
+        const { data, error } = await this.supabase
+            .from('session_spend_approvals')
+            .update({ status: 'used', used_at: new Date().toISOString() })
+            .eq('approval_id', approvalId)
+            .eq('status', 'approved')
+            .select('approval_id');
+
+        if (error) {
+            throw new Error(`Failed to use spend approval: ${error.message}`);
+        }
+        if (!data || data.length === 0) {
+            throw new SpendingPolicyError('APPROVAL_DECIDED', `Approval ${approvalId} was already used`);
+        }
+    }
+
+    /**
+     * Pending (unexpired), committed and reconciling reservations of a session
+     */
+    private async reservationHistory(sessionId: string, excludeReservationId: string): Promise<PolicySpend[]> {
+        const { data, error } = await this.supabase
+            .from('session_reservations')
+            .select('reservation_id, amount, captured_amount, status, agent_address, service_id, created_at, expires_at')
+            .eq('session_id', sessionId)
+            .in('status', ['pending', 'committed', 'reconciling']);
+
+        if (error) {
+            throw new Error(`Failed to load session spend history: ${error.message}`);
+        }
+
+        const now = Date.now();
+        return (data || [])
+            .filter(row => row.reservation_id !== excludeReservationId)
+            .filter(row => row.status !== 'pending' || new Date(row.expires_at).getTime() > now)
+            .map(row => ({
+                amount: BigInt(row.status === 'committed' && row.captured_amount !== null ? row.captured_amount : row.amount),
+                agentAddress: row.agent_address?.toLowerCase() ?? undefined,
+                serviceId: row.service_id ?? undefined,
+                createdAt: new Date(row.created_at).getTime(),
+            }));
+    }
+}
+
+function approvalCovers(approval: SpendApproval, sessionId: string, attempt: SpendAttempt): boolean {
+    return approval.sessionId === sessionId
+        && approval.expiresAt > Date.now()
+        && approval.amount >= attempt.amount
+        && (!approval.agentAddress || approval.agentAddress === attempt.agentAddress?.toLowerCase())
+        && (!approval.serviceId || approval.serviceId === attempt.serviceId);
+}
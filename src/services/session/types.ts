@@ -38,6 +38,26 @@ export interface CreateSessionParams {
     maxSpend: string;
     durationHours: number;
     authorizedAgents?: string[];
+    spendingPolicy?: SessionSpendingPolicy;
+}
+
+/**
+ * Spending rules on top of max_spend. Amounts are decimal USDC strings;
+ * unset fields do not restrict.
+ */
+export interface SessionSpendingPolicy {
+    /** Largest single payment */
+    maxPerCall?: string;
+    /** Total spend over any rolling 24 hours */
+    dailyLimit?: string;
+    /** Total spend per agent address over the session */
+    agentCaps?: Record<string, string>;
+    /** Total spend per service id over the session */
+    serviceCaps?: Record<string, string>;
+    /** Service categories that may be paid */
+    allowedCategories?: string[];
+    /** Payments above this amount need the owner's approval */
+    approvalThreshold?: string;
 }
 
 export interface SessionBudgetCheck {
@@ -15,7 +15,20 @@ import { SupabaseClient } from '@supabase/supabase-js';
 import { ethers } from 'ethers';
 import { Facilitator, type PaymentRequirements, CronosNetwork } from '@crypto.com/facilitator-client';
 import logger from '../../lib/logger.js';
+import { supabase } from '../../lib/supabase.js';
+import { eventBus } from '../../lib/event-bus.js';
+import { getProvider } from '../../lib/blockchain/provider.js';
 import type { Session, CreateSessionParams, RecordPaymentParams } from './types';
+import { createSessionLedger, fromBaseUnits, type SessionLedger } from './session-ledger.js';
+import { SpendingPolicyService, validateSpendingPolicy, type SpendDetails } from './spending-policy.js';
+import {
+    paymentAuthorizationService,
+    registerCaptureHandler,
+    type PaymentAuthorization
+} from '../x402/payment-authorization.js';
+
+/** Capture handler that pays an agent for a deferred session payment */
+export const AGENT_PAYOUT_CAPTURE = 'x402_agent_payout';
 
 export interface X402PaymentRequest {
     payTo: string;
@@ -42,6 +55,8 @@ export class X402SessionService {
     private network: CronosNetwork;
     private relayWallet: ethers.Wallet | null = null;
     private host: string;
+    private ledger: SessionLedger;
+    private spendingPolicies: SpendingPolicyService;
 
     constructor(
         private supabase: SupabaseClient,
@@ -52,13 +67,16 @@ export class X402SessionService {
         this.network = (process.env.CRONOS_NETWORK || 'cronos-testnet') as CronosNetwork;
         this.facilitator = new Facilitator({ network: this.network });
         this.host = process.env.PUBLIC_HOST || 'https://api.relaycore.xyz';
+        this.ledger = createSessionLedger(supabase);
+        this.spendingPolicies = new SpendingPolicyService(supabase);
+        registerCaptureHandler(AGENT_PAYOUT_CAPTURE, (authorization, amount) =>
+            this.captureAgentPayment(authorization, amount)
+        );
 
         // Initialize Relay wallet for signing x402 payments
         const relayPrivateKey = process.env.RELAY_PRIVATE_KEY;
         if (relayPrivateKey) {
-            const rpcUrl = process.env.CRONOS_RPC_URL || 'https://evm-t3.cronos.org';
-            const provider = new ethers.JsonRpcProvider(rpcUrl);
-            this.relayWallet = new ethers.Wallet(relayPrivateKey, provider);
+            this.relayWallet = new ethers.Wallet(relayPrivateKey, getProvider());
             logger.info('X402SessionService initialized with Facilitator', {
                 network: this.network,
                 relayWallet: this.relayWallet.address
@@ -92,6 +110,7 @@ export class X402SessionService {
             duration: params.durationHours
         });
 
+        const spendingPolicy = params.spendingPolicy ? validateSpendingPolicy(params.spendingPolicy) : null;
         const expiresAt = new Date(Date.now() + params.durationHours * 3600000);
         const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
@@ -103,6 +122,7 @@ export class X402SessionService {
                 owner_address: params.ownerAddress.toLowerCase(),
                 escrow_agent: this.relayWalletAddress.toLowerCase(),
                 max_spend: params.maxSpend,
+                spending_policy: spendingPolicy,
                 expiry: expiresAt.toISOString(),
                 deposited: '0',
                 released: '0',
@@ -158,8 +178,7 @@ export class X402SessionService {
     ): Promise<void> {
         logger.info('Verifying payment transaction on-chain', { txHash, expectedAmount, expectedRecipient });
 
-        const rpcUrl = process.env.CRONOS_RPC_URL || 'https://evm-t3.cronos.org';
-        const provider = new ethers.JsonRpcProvider(rpcUrl);
+        const provider = getProvider();
         const usdcAddress = process.env.USDC_TOKEN_ADDRESS || '0xc01efAaF7C5C61bEbFAeb358E1161b537b8bC0e0';
 
         // Get transaction from blockchain
@@ -275,9 +294,7 @@ export class X402SessionService {
         await this.verifyPaymentTransaction(txHash, amount, this.relayWalletAddress);
 
         // Get transaction receipt for block number
-        const rpcUrl = process.env.CRONOS_RPC_URL || 'https://evm-t3.cronos.org';
-        const provider = new ethers.JsonRpcProvider(rpcUrl);
-        const receipt = await provider.getTransactionReceipt(txHash);
+        const receipt = await getProvider().getTransactionReceipt(txHash);
 
         // Activate session
         const { data: activatedSession, error: updateError } = await this.supabase
@@ -303,6 +320,16 @@ export class X402SessionService {
             deposited: amount,
             txHash
         });
+        eventBus.publish('session.updated', {
+            sessionId,
+            event: 'activated',
+            isActive: true,
+            spent: null,
+            reserved: null,
+            remaining: null,
+            paymentCount: null,
+            updatedAt: Date.now(),
+        });
 
         return activatedSession;
     }
@@ -310,6 +337,9 @@ export class X402SessionService {
     /**
      * Pay agent from session budget via REAL x402 (EIP-3009)
      * Relay signs an authorization, Facilitator settles on-chain
+     *
+     * metadata.serviceId, metadata.category and metadata.approvalId are used
+     * for the session spending policy; a denial throws SpendingPolicyError.
      */
     async payAgentFromSession(
         sessionId: string,
@@ -328,95 +358,176 @@ export class X402SessionService {
             throw new Error('Relay wallet not configured - cannot execute x402 payments');
         }
 
-        // Get session and verify budget
-        const { data: session, error } = await this.supabase
-            .from('escrow_sessions')
-            .select('*')
-            .eq('session_id', sessionId)
-            .single();
+        // Hold the amount before paying so concurrent payments cannot overspend
+        const amountInBaseUnits = ethers.parseUnits(amount, 6);
+        const reservation = await this.ledger.reserve(sessionId, amountInBaseUnits, {
+            metadata: { agentAddress, agentName },
+            spend: await this.resolveSpend(agentAddress, metadata)
+        });
 
-        if (error || !session) {
-            throw new Error(`Session ${sessionId} not found`);
+        let txHash: string;
+        try {
+            txHash = await this.settleAgentPayment(agentAddress, agentName, amountInBaseUnits);
+        } catch (paymentError) {
+            logger.error('x402 agent payment failed', paymentError as Error);
+            await this.ledger.release(reservation.reservationId);
+            throw new Error(`x402 payment failed: ${paymentError instanceof Error ? paymentError.message : 'Unknown error'}`);
         }
 
-        if (!session.is_active) {
-            throw new Error(`Session ${sessionId} is not active`);
+        // Payment settled on-chain: convert the hold into spend. If that keeps
+        // failing the hold is flagged for reconciliation, never released
+        try {
+            await this.ledger.commitSettled(reservation.reservationId);
+        } catch (commitError) {
+            logger.error('Agent paid but session spend not committed', commitError as Error, {
+                sessionId,
+                reservationId: reservation.reservationId,
+                txHash
+            });
+            throw commitError;
         }
+        await this.recordAgentPayment(sessionId, agentAddress, agentName, amount, txHash, metadata);
+
+        const balance = await this.ledger.getBalance(sessionId);
+        const newSpent = fromBaseUnits(balance.spent);
+        const newRemaining = fromBaseUnits(balance.available);
+
+        logger.info('Agent payment completed', {
+            sessionId,
+            txHash,
+            newSpent,
+            remaining: newRemaining
+        });
 
-        // Check budget
-        const maxSpend = parseFloat(session.max_spend);
-        const spent = parseFloat(session.spent || '0');
-        const paymentAmount = parseFloat(amount);
-        const remaining = maxSpend - spent;
+        return {
+            txHash,
+            newSpent,
+            remaining: newRemaining
+        };
+    }
 
-        if (remaining < paymentAmount) {
-            throw new Error(`Insufficient session budget. Need ${paymentAmount}, have ${remaining}`);
+    /**
+     * Authorize an agent payment without paying it yet.
+     *
+     * The quoted amount is held against the session budget. The agent is
+     * paid on capture (OutcomeService 'delivered', or an explicit
+     * paymentAuthorizationService.capture) for the captured amount only;
+     * a void returns the hold to the session.
+     */
+    async authorizeAgentPayment(
+        sessionId: string,
+        agentAddress: string,
+        agentName: string,
+        amount: string,
+        metadata?: Record<string, any>
+    ): Promise<PaymentAuthorization> {
+        if (!this.relayWallet) {
+            throw new Error('Relay wallet not configured - cannot execute x402 payments');
         }
 
-        // Execute REAL x402 payment via Facilitator
-        let txHash: string;
-        try {
-            logger.info('Generating x402 payment header for agent payment', {
-                from: this.relayWallet.address,
-                to: agentAddress,
-                amount
-            });
+        return paymentAuthorizationService.authorizeSession({
+            sessionId,
+            amount: ethers.parseUnits(amount, 6),
+            payTo: agentAddress,
+            resourceUrl: `${this.host}/api/agents/${agentName}/invoke`,
+            captureHandler: AGENT_PAYOUT_CAPTURE,
+            metadata: { ...metadata, agentName },
+            spend: await this.resolveSpend(agentAddress, metadata)
+        });
+    }
 
-            // Generate EIP-3009 payment header (Relay signs the authorization)
-            const amountInBaseUnits = ethers.parseUnits(amount, 6).toString();
-            const paymentHeader = await this.facilitator.generatePaymentHeader({
-                to: agentAddress,
-                value: amountInBaseUnits,
-                signer: this.relayWallet,
-                validBefore: Math.floor(Date.now() / 1000) + 300 // 5 min expiry
-            });
+    private resolveSpend(agentAddress: string, metadata?: Record<string, any>): Promise<SpendDetails> {
+        return this.spendingPolicies.resolveSpend(agentAddress, {
+            serviceId: metadata?.serviceId,
+            category: metadata?.category,
+            approvalId: metadata?.approvalId
+        });
+    }
 
-            // Build payment requirements for the agent
-            const paymentRequirements = this.facilitator.generatePaymentRequirements({
-                payTo: agentAddress,
-                maxAmountRequired: amountInBaseUnits,
-                resource: `${this.host}/api/agents/${agentName}/invoke`,
-                description: `Agent payment: ${amount} USDC`
-            });
+    /**
+     * Capture handler for authorizeAgentPayment: pays the agent the captured amount
+     */
+    private async captureAgentPayment(authorization: PaymentAuthorization, amount: bigint): Promise<string> {
+        const agentName = String(authorization.metadata?.agentName || 'agent');
+        const txHash = await this.settleAgentPayment(authorization.payTo, agentName, amount);
+
+        await this.recordAgentPayment(
+            authorization.sessionId!,
+            authorization.payTo,
+            agentName,
+            fromBaseUnits(amount),
+            txHash,
+            { ...authorization.metadata, authorizationId: authorization.authorizationId }
+        );
 
-            // Build verify request
-            const verifyRequest = this.facilitator.buildVerifyRequest(paymentHeader, paymentRequirements);
+        return txHash;
+    }
 
-            // Verify the EIP-3009 authorization
-            const verifyResult = await this.facilitator.verifyPayment(verifyRequest);
-            if (!verifyResult.isValid) {
-                throw new Error('Payment verification failed');
-            }
+    /**
+     * Pay an agent from the Relay wallet via the Facilitator (EIP-3009)
+     */
+    private async settleAgentPayment(agentAddress: string, agentName: string, amountInBaseUnits: bigint): Promise<string> {
+        if (!this.relayWallet) {
+            throw new Error('Relay wallet not configured - cannot execute x402 payments');
+        }
 
-            // Settle on-chain via Facilitator (gasless for Relay!)
-            logger.info('Settling agent payment on-chain via Facilitator');
-            const settleResult = await this.facilitator.settlePayment(verifyRequest);
-            txHash = settleResult.txHash;
+        const amount = fromBaseUnits(amountInBaseUnits);
+        logger.info('Generating x402 payment header for agent payment', {
+            from: this.relayWallet.address,
+            to: agentAddress,
+            amount
+        });
 
-            logger.info('Agent payment settled via x402', {
-                txHash,
-                from: this.relayWallet.address,
-                to: agentAddress,
-                amount
-            });
+        // Generate EIP-3009 payment header (Relay signs the authorization)
+        const paymentHeader = await this.facilitator.generatePaymentHeader({
+            to: agentAddress,
+            value: amountInBaseUnits.toString(),
+            signer: this.relayWallet,
+            validBefore: Math.floor(Date.now() / 1000) + 300 // 5 min expiry
+        });
 
-        } catch (paymentError) {
-            logger.error('x402 agent payment failed', paymentError as Error);
-            throw new Error(`x402 payment failed: ${paymentError instanceof Error ? paymentError.message : 'Unknown error'}`);
-        }
+        // Build payment requirements for the agent
+        const paymentRequirements = this.facilitator.generatePaymentRequirements({
+            payTo: agentAddress,
+            maxAmountRequired: amountInBaseUnits.toString(),
+            resource: `${this.host}/api/agents/${agentName}/invoke`,
+            description: `Agent payment: ${amount} USDC`
+        });
 
-        // Update session spending atomically
-        const { error: updateError } = await this.supabase.rpc(
-            'increment_session_spending',
-            { p_session_id: sessionId, p_amount: amount }
-        );
+        // Build verify request
+        const verifyRequest = this.facilitator.buildVerifyRequest(paymentHeader, paymentRequirements);
 
-        if (updateError) {
-            logger.error('Failed to update session spending', updateError);
-            throw updateError;
+        // Verify the EIP-3009 authorization
+        const verifyResult = await this.facilitator.verifyPayment(verifyRequest);
+        if (!verifyResult.isValid) {
+            throw new Error('Payment verification failed');
         }
 
-        // Record payment with real txHash
+        // Settle on-chain via Facilitator (gasless for Relay!)
+        logger.info('Settling agent payment on-chain via Facilitator');
+        const settleResult = await this.facilitator.settlePayment(verifyRequest);
+
+        logger.info('Agent payment settled via x402', {
+            txHash: settleResult.txHash,
+            from: this.relayWallet.address,
+            to: agentAddress,
+            amount
+        });
+
+        return settleResult.txHash;
+    }
+
+    /**
+     * Record a settled agent payment for the session and the explorer
+     */
+    private async recordAgentPayment(
+        sessionId: string,
+        agentAddress: string,
+        agentName: string,
+        amount: string,
+        txHash: string,
+        metadata?: Record<string, any>
+    ): Promise<void> {
         const { error: insertError } = await this.supabase
             .from('session_payments')
             .insert({
@@ -437,23 +548,7 @@ export class X402SessionService {
         }
 
         // Record in on_chain_transactions for explorer
-        await this.recordTransaction(txHash, this.relayWallet.address, agentAddress, amount, 'agent_payment');
-
-        const newSpent = (spent + paymentAmount).toFixed(6);
-        const newRemaining = (maxSpend - spent - paymentAmount).toFixed(6);
-
-        logger.info('Agent payment completed', {
-            sessionId,
-            txHash,
-            newSpent,
-            remaining: newRemaining
-        });
-
-        return {
-            txHash,
-            newSpent,
-            remaining: newRemaining
-        };
+        await this.recordTransaction(txHash, this.relayWallet!.address, agentAddress, amount, 'agent_payment');
     }
 
     /**
@@ -504,17 +599,15 @@ export class X402SessionService {
             throw new Error(`Session ${sessionId} not found`);
         }
 
-        const deposited = parseFloat(session.deposited || '0');
-        const released = parseFloat(session.released || '0');
-        const spent = parseFloat(session.spent || '0');
-
-        // Calculate actual spent (use released if spent field doesn't exist)
-        const actualSpent = spent > 0 ? spent : released;
-        const refundAmount = deposited - actualSpent;
+        // Pending reservations are still owed to agents and are not refundable
+        const deposited = ethers.parseUnits(session.deposited || '0', 6);
+        const balance = await this.ledger.getBalance(sessionId);
+        const refundUnits = deposited - balance.spent - balance.reserved;
 
-        if (refundAmount <= 0) {
+        if (refundUnits <= 0n) {
             throw new Error('No funds to refund');
         }
+        const refundAmountStr = fromBaseUnits(refundUnits);
 
         // Check if session can be refunded
         const now = new Date();
@@ -529,8 +622,7 @@ export class X402SessionService {
         // Execute refund payment via x402/EIP-3009 (gasless for Relay!)
         let txHash: string | undefined;
         try {
-            const refundAmountStr = refundAmount.toFixed(6);
-            const amountInBaseUnits = ethers.parseUnits(refundAmountStr, 6).toString();
+            const amountInBaseUnits = refundUnits.toString();
 
             logger.info('Generating x402 refund payment', {
                 from: this.relayWallet.address,
@@ -583,7 +675,7 @@ export class X402SessionService {
         // Record refund in escrow_refunds table
         await this.supabase.from('escrow_refunds').insert({
             session_id: sessionId,
-            amount: refundAmount.toFixed(6),
+            amount: refundAmountStr,
             recipient: session.owner_address,
             tx_hash: txHash,
             reason: 'session_close',
@@ -597,7 +689,7 @@ export class X402SessionService {
             txHash!,
             this.relayWallet.address,
             session.owner_address,
-            refundAmount.toFixed(6),
+            refundAmountStr,
             'session_refund'
         );
 
@@ -618,12 +710,22 @@ export class X402SessionService {
 
         logger.info('Session refunded and closed via x402', {
             sessionId,
-            refundAmount: refundAmount.toFixed(6),
+            refundAmount: refundAmountStr,
             txHash
         });
+        eventBus.publish('session.updated', {
+            sessionId,
+            event: 'refunded',
+            isActive: false,
+            spent: null,
+            reserved: null,
+            remaining: null,
+            paymentCount: null,
+            updatedAt: Date.now(),
+        });
 
         return {
-            refundAmount: refundAmount.toFixed(6),
+            refundAmount: refundAmountStr,
             txHash
         };
     }
@@ -648,3 +750,17 @@ export class X402SessionService {
         return data;
     }
 }
+
+let x402SessionService: X402SessionService | null = null;
+
+/**
+ * Shared service for the relay wallet. One instance per process keeps a
+ * single agent payout capture handler registered.
+ */
+export function getX402SessionService(): X402SessionService {
+    if (!x402SessionService) {
+        const relayWalletAddress = process.env.RELAY_WALLET_ADDRESS || process.env.WALLET_ADDRESS || '0x0000000000000000000000000000000000000000';
+        x402SessionService = new X402SessionService(supabase, relayWalletAddress);
+    }
+    return x402SessionService;
+}
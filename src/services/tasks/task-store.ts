@@ -7,6 +7,7 @@
 
 import { supabase } from '../../lib/supabase';
 import logger from '../../lib/logger';
+import { eventBus } from '../../lib/event-bus';
 import type {
     TaskArtifact,
     TaskState,
@@ -30,6 +31,8 @@ export class TaskStore {
             agent_id: input.agent_id,
             service_id: input.service_id,
             session_id: input.session_id,
+            parent_task_id: input.parent_task_id,
+            step_id: input.step_id,
             state: 'pending',
             retries: 0,
             timestamps: {
@@ -47,6 +50,8 @@ export class TaskStore {
                 agent_id: task.agent_id,
                 service_id: task.service_id,
                 session_id: task.session_id,
+                parent_task_id: task.parent_task_id,
+                step_id: task.step_id,
                 state: task.state,
                 retries: task.retries,
                 inputs: task.inputs,
@@ -61,6 +66,7 @@ export class TaskStore {
         }
 
         logger.info('Task artifact created', { task_id: task.task_id, agent_id: task.agent_id });
+        this.publishState(task);
         return task;
     }
 
@@ -96,7 +102,9 @@ export class TaskStore {
         }
 
         logger.info('Task artifact updated', { task_id: taskId, state: updates.state });
-        return this.mapRow(data);
+        const task = this.mapRow(data);
+        if (updates.state) this.publishState(task);
+        return task;
     }
 
     async get(taskId: string): Promise<TaskArtifact | null> {
@@ -124,6 +132,7 @@ export class TaskStore {
         if (query.agent_id) builder = builder.eq('agent_id', query.agent_id);
         if (query.service_id) builder = builder.eq('service_id', query.service_id);
         if (query.session_id) builder = builder.eq('session_id', query.session_id);
+        if (query.parent_task_id) builder = builder.eq('parent_task_id', query.parent_task_id);
         if (query.state) builder = builder.eq('state', query.state);
         if (query.from) builder = builder.gte('created_at', query.from.toISOString());
         if (query.to) builder = builder.lte('created_at', query.to.toISOString());
@@ -141,6 +150,24 @@ export class TaskStore {
         return (data || []).map(row => this.mapRow(row));
     }
 
+    /**
+     * Step tasks of a workflow run, oldest first
+     */
+    async getSteps(parentTaskId: string): Promise<TaskArtifact[]> {
+        const { data, error } = await supabase
+            .from('task_artifacts')
+            .select('*')
+            .eq('parent_task_id', parentTaskId)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            logger.error('Failed to get step tasks', error, { task_id: parentTaskId });
+            throw new Error(`Failed to get step tasks: ${error.message}`);
+        }
+
+        return (data || []).map(row => this.mapRow(row));
+    }
+
     async getStats(agentId?: string): Promise<TaskStats> {
         let builder = supabase
             .from('task_artifacts')
@@ -204,12 +231,26 @@ export class TaskStore {
         });
     }
 
+    private publishState(task: TaskArtifact): void {
+        eventBus.publish('task.stateChanged', {
+            taskId: task.task_id,
+            agentId: task.agent_id,
+            serviceId: task.service_id ?? null,
+            sessionId: task.session_id ?? null,
+            state: task.state,
+            paymentId: task.payment_id ?? null,
+            changedAt: Date.now(),
+        });
+    }
+
     private mapRow(row: Record<string, unknown>): TaskArtifact {
         return {
             task_id: row.task_id as string,
             agent_id: row.agent_id as string,
             service_id: row.service_id as string | undefined,
             session_id: row.session_id as string | undefined,
+            parent_task_id: row.parent_task_id as string | undefined,
+            step_id: row.step_id as string | undefined,
             state: row.state as TaskState,
             payment_id: row.payment_id as string | undefined,
             facilitator_tx: row.facilitator_tx as string | undefined,
@@ -8,6 +8,9 @@
 import { requestTradeValidation } from '../../lib/erc8004-client';
 import { ethers } from 'ethers';
 import logger from '../../lib/logger';
+import { getRpcPool } from '../../lib/blockchain/provider';
+
+const CRONOS_ZKEVM_TESTNET_CHAIN_ID = 240;
 
 const HIGH_VALUE_THRESHOLD = 10000; // $10,000 USD
 const VALIDATOR_ADDRESS = process.env.VALIDATOR_ADDRESS || '0x0000000000000000000000000000000000000000';
@@ -125,9 +128,7 @@ export async function getValidationStatus(
             return { completed: false, error: 'Validation registry not configured' };
         }
 
-        const provider = new ethers.JsonRpcProvider(
-            process.env.CRONOS_ZKEVM_RPC || 'https://testnet-zkevm.cronos.org'
-        );
+        const provider = getRpcPool(CRONOS_ZKEVM_TESTNET_CHAIN_ID);
 
         const validationRegistry = new ethers.Contract(
             process.env.VALIDATION_REGISTRY_ADDRESS,
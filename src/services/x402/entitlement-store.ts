@@ -0,0 +1,726 @@
+/**
+ * Entitlement Store
+ *
+ * Durable, replay-safe storage for x402 entitlements. An entitlement is
+ * granted once a payment settles and is consumed every time the paid
+ * resource is accessed with the same `x-payment-id`. The route's policy is
+ * recorded as an offer when the 402 challenge is issued, together with the
+ * payment it asked for, so settlement grants what the route advertised and
+ * only for that payment.
+ *
+ * Implementations:
+ * - InMemoryEntitlementStore: single-process, used for tests and fallback
+ * - SupabaseEntitlementStore: shared across API replicas (x402_entitlements)
+ * - SqliteEntitlementStore: embeddable file-backed store for local dev
+ *
+ * Selected with ENTITLEMENT_STORE=memory|supabase|sqlite.
+ */
+
+import { supabase, isSupabaseAvailable } from '../../lib/supabase.js';
+import logger from '../../lib/logger.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface EntitlementPolicy {
+    /** Number of calls the entitlement covers (null = unlimited) */
+    maxUses: number | null;
+    /** Lifetime of the entitlement in milliseconds (null = no expiry) */
+    ttlMs: number | null;
+}
+
+export interface Entitlement {
+    paymentId: string;
+    resourceUrl: string;
+    userAddress: string;
+    maxUses: number | null;
+    useCount: number;
+    createdAt: number;
+    expiresAt: number | null;
+    lastUsedAt: number | null;
+    revokedAt: number | null;
+    revokeReason: string | null;
+}
+
+export interface GrantEntitlementInput {
+    paymentId: string;
+    resourceUrl: string;
+    userAddress: string;
+    policy?: Partial<EntitlementPolicy>;
+    /** When the payment settled; the TTL runs from here (defaults to now) */
+    grantedAt?: number;
+}
+
+/** Payment a 402 challenge asked for */
+export interface OfferedPayment {
+    payTo: string;
+    asset: string;
+    /** Amount in base units */
+    maxAmountRequired: string;
+}
+
+/** Policy a 402 challenge was issued with, keyed by its payment ID */
+export interface EntitlementOffer {
+    paymentId: string;
+    resourceUrl: string;
+    policy: EntitlementPolicy;
+    /** Null for offers recorded before the payment was stored with them */
+    payment: OfferedPayment | null;
+    createdAt: number;
+}
+
+export interface OfferEntitlementInput {
+    paymentId: string;
+    resourceUrl: string;
+    policy?: Partial<EntitlementPolicy>;
+    payment: OfferedPayment;
+}
+
+export type OfferMismatchReason =
+    | 'not_offered'
+    | 'resource_mismatch'
+    | 'pay_to_mismatch'
+    | 'asset_mismatch'
+    | 'amount_mismatch';
+
+export type ConsumeFailureReason =
+    | 'not_found'
+    | 'resource_mismatch'
+    | 'revoked'
+    | 'expired'
+    | 'exhausted';
+
+export type ConsumeResult =
+    | { ok: true; entitlement: Entitlement }
+    | { ok: false; reason: ConsumeFailureReason };
+
+export interface EntitlementStore {
+    /** Grant an entitlement. Idempotent: an existing grant keeps its usage counters. */
+    grant(input: GrantEntitlementInput): Promise<Entitlement>;
+    get(paymentId: string): Promise<Entitlement | null>;
+    /** Atomically use one call of the entitlement for the given resource. */
+    consume(paymentId: string, resourceUrl: string): Promise<ConsumeResult>;
+    revoke(paymentId: string, reason?: string): Promise<boolean>;
+    /** Record the policy a payment challenge was issued with */
+    offer(input: OfferEntitlementInput): Promise<EntitlementOffer>;
+    getOffer(paymentId: string): Promise<EntitlementOffer | null>;
+    /** Remove expired entitlements and stale offers. Returns the number of entitlements removed. */
+    purge(): Promise<number>;
+}
+
+export const DEFAULT_ENTITLEMENT_POLICY: EntitlementPolicy = {
+    maxUses: parseOptionalInt(process.env.X402_ENTITLEMENT_MAX_USES, 1),
+    ttlMs: parseOptionalInt(process.env.X402_ENTITLEMENT_TTL_MS, 24 * 60 * 60 * 1000),
+};
+
+function parseOptionalInt(value: string | undefined, fallback: number | null): number | null {
+    if (value === undefined || value === '') return fallback;
+    if (value === 'unlimited' || value === '0') return null;
+    const parsed = parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Challenges are settled within minutes; offers older than this are dropped
+const OFFER_TTL_MS = 24 * 60 * 60 * 1000;
+
+function buildOffer(input: OfferEntitlementInput): EntitlementOffer {
+    return {
+        paymentId: input.paymentId,
+        resourceUrl: input.resourceUrl,
+        policy: { ...DEFAULT_ENTITLEMENT_POLICY, ...input.policy },
+        payment: { ...input.payment },
+        createdAt: Date.now(),
+    };
+}
+
+function buildEntitlement(input: GrantEntitlementInput): Entitlement {
+    const policy = { ...DEFAULT_ENTITLEMENT_POLICY, ...input.policy };
+    const now = input.grantedAt ?? Date.now();
+    return {
+        paymentId: input.paymentId,
+        resourceUrl: input.resourceUrl,
+        userAddress: input.userAddress.toLowerCase(),
+        maxUses: policy.maxUses,
+        useCount: 0,
+        createdAt: now,
+        expiresAt: policy.ttlMs ? now + policy.ttlMs : null,
+        lastUsedAt: null,
+        revokedAt: null,
+        revokeReason: null,
+    };
+}
+
+/**
+ * Explain why an entitlement cannot be consumed, or null if it can.
+ */
+export function checkEntitlement(
+    entitlement: Entitlement | null,
+    resourceUrl: string,
+    now: number = Date.now()
+): ConsumeFailureReason | null {
+    if (!entitlement) return 'not_found';
+    if (entitlement.resourceUrl !== resourceUrl) return 'resource_mismatch';
+    if (entitlement.revokedAt !== null) return 'revoked';
+    if (entitlement.expiresAt !== null && entitlement.expiresAt <= now) return 'expired';
+    if (entitlement.maxUses !== null && entitlement.useCount >= entitlement.maxUses) return 'exhausted';
+    return null;
+}
+
+/**
+ * Explain why a settlement doesn't pay for what the challenge offered, or
+ * null if it does. Addresses compare case-insensitively, amounts exactly.
+ */
+export function checkOffer(
+    offer: EntitlementOffer | null,
+    requirements: { resource?: string; payTo?: string; asset?: string; maxAmountRequired?: string }
+): OfferMismatchReason | null {
+    if (!offer?.payment) return 'not_offered';
+    if (offer.resourceUrl !== (requirements.resource || '')) return 'resource_mismatch';
+    if (!sameAddress(offer.payment.payTo, requirements.payTo)) return 'pay_to_mismatch';
+    if (!sameAddress(offer.payment.asset, requirements.asset)) return 'asset_mismatch';
+    if (!sameAmount(offer.payment.maxAmountRequired, requirements.maxAmountRequired)) return 'amount_mismatch';
+    return null;
+}
+
+function sameAddress(offered: string, settled: string | undefined): boolean {
+    return typeof settled === 'string' && offered.toLowerCase() === settled.toLowerCase();
+}
+
+function sameAmount(offered: string, settled: string | undefined): boolean {
+    try {
+        return settled !== undefined && BigInt(offered) === BigInt(settled);
+    } catch {
+        return false;
+    }
+}
+
+// ============================================
+// IN-MEMORY STORE
+// ============================================
+
+export class InMemoryEntitlementStore implements EntitlementStore {
+    private entitlements = new Map<string, Entitlement>();
+    private offers = new Map<string, EntitlementOffer>();
+
+    async grant(input: GrantEntitlementInput): Promise<Entitlement> {
+        const existing = this.entitlements.get(input.paymentId);
+        if (existing) return { ...existing };
+
+        const entitlement = buildEntitlement(input);
+        this.entitlements.set(input.paymentId, entitlement);
+        return { ...entitlement };
+    }
+
+    async get(paymentId: string): Promise<Entitlement | null> {
+        const entitlement = this.entitlements.get(paymentId);
+        return entitlement ? { ...entitlement } : null;
+    }
+
+    async consume(paymentId: string, resourceUrl: string): Promise<ConsumeResult> {
+        // Check and increment happen without an await in between, so this is atomic per process
+        const now = Date.now();
+        const entitlement = this.entitlements.get(paymentId) || null;
+        const reason = checkEntitlement(entitlement, resourceUrl, now);
+        if (reason) return { ok: false, reason };
+
+        entitlement!.useCount += 1;
+        entitlement!.lastUsedAt = now;
+        return { ok: true, entitlement: { ...entitlement! } };
+    }
+
+    async revoke(paymentId: string, reason?: string): Promise<boolean> {
+        const entitlement = this.entitlements.get(paymentId);
+        if (!entitlement || entitlement.revokedAt !== null) return false;
+
+        entitlement.revokedAt = Date.now();
+        entitlement.revokeReason = reason || null;
+        return true;
+    }
+
+    async offer(input: OfferEntitlementInput): Promise<EntitlementOffer> {
+        const offer = buildOffer(input);
+        this.offers.set(offer.paymentId, offer);
+        return { ...offer };
+    }
+
+    async getOffer(paymentId: string): Promise<EntitlementOffer | null> {
+        const offer = this.offers.get(paymentId);
+        return offer ? { ...offer } : null;
+    }
+
+    async purge(): Promise<number> {
+        const now = Date.now();
+        let removed = 0;
+
+        for (const [paymentId, offer] of this.offers.entries()) {
+            if (offer.createdAt <= now - OFFER_TTL_MS) this.offers.delete(paymentId);
+        }
+
+        for (const [paymentId, entitlement] of this.entitlements.entries()) {
+            if (entitlement.expiresAt !== null && entitlement.expiresAt <= now) {
+                this.entitlements.delete(paymentId);
+                removed++;
+            }
+        }
+
+        return removed;
+    }
+}
+
+// ============================================
+// SUPABASE STORE
+// ============================================
+
+interface EntitlementRow {
+    payment_id: string;
+    resource_url: string;
+    user_address: string;
+    max_uses: number | null;
+    use_count: number;
+    created_at: string;
+    expires_at: string | null;
+    last_used_at: string | null;
+    revoked_at: string | null;
+    revoke_reason: string | null;
+}
+
+interface OfferRow {
+    payment_id: string;
+    resource_url: string;
+    max_uses: number | null;
+    ttl_ms: number | string | null;
+    pay_to: string | null;
+    asset: string | null;
+    max_amount_required: string | null;
+    created_at: string | number;
+}
+
+function mapOfferRow(row: OfferRow): EntitlementOffer {
+    return {
+        paymentId: row.payment_id,
+        resourceUrl: row.resource_url,
+        policy: {
+            maxUses: row.max_uses,
+            ttlMs: row.ttl_ms === null ? null : Number(row.ttl_ms),
+        },
+        payment: row.pay_to && row.asset && row.max_amount_required
+            ? { payTo: row.pay_to, asset: row.asset, maxAmountRequired: row.max_amount_required }
+            : null,
+        createdAt: typeof row.created_at === 'number' ? row.created_at : new Date(row.created_at).getTime(),
+    };
+}
+
+function toTime(value: string | null): number | null {
+    return value ? new Date(value).getTime() : null;
+}
+
+function mapEntitlementRow(row: EntitlementRow): Entitlement {
+    return {
+        paymentId: row.payment_id,
+        resourceUrl: row.resource_url,
+        userAddress: row.user_address,
+        maxUses: row.max_uses,
+        useCount: row.use_count,
+        createdAt: new Date(row.created_at).getTime(),
+        expiresAt: toTime(row.expires_at),
+        lastUsedAt: toTime(row.last_used_at),
+        revokedAt: toTime(row.revoked_at),
+        revokeReason: row.revoke_reason,
+    };
+}
+
+/**
+ * Postgres-backed store. Consumption goes through the
+ * consume_x402_entitlement function, a single conditional UPDATE,
+ * so concurrent replicas can never use more than max_uses calls.
+ */
+export class SupabaseEntitlementStore implements EntitlementStore {
+    async grant(input: GrantEntitlementInput): Promise<Entitlement> {
+        const entitlement = buildEntitlement(input);
+
+        const { error } = await supabase
+            .from('x402_entitlements')
+            .upsert({
+                payment_id: entitlement.paymentId,
+                resource_url: entitlement.resourceUrl,
+                user_address: entitlement.userAddress,
+                max_uses: entitlement.maxUses,
+                use_count: 0,
+                created_at: new Date(entitlement.createdAt).toISOString(),
+                expires_at: entitlement.expiresAt ? new Date(entitlement.expiresAt).toISOString() : null,
+            }, { onConflict: 'payment_id', ignoreDuplicates: true });
+
+        if (error) {
+            throw new Error(`Failed to grant entitlement: ${error.message}`);
+        }
+
+        return (await this.get(input.paymentId)) || entitlement;
+    }
+
+    async get(paymentId: string): Promise<Entitlement | null> {
+        const { data, error } = await supabase
+            .from('x402_entitlements')
+            .select('*')
+            .eq('payment_id', paymentId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to get entitlement: ${error.message}`);
+        }
+
+        return data ? mapEntitlementRow(data as EntitlementRow) : null;
+    }
+
+    async consume(paymentId: string, resourceUrl: string): Promise<ConsumeResult> {
+        const { data, error } = await supabase.rpc('consume_x402_entitlement', {
+            p_payment_id: paymentId,
+            p_resource_url: resourceUrl,
+        });
+
+        if (error) {
+            throw new Error(`Failed to consume entitlement: ${error.message}`);
+        }
+
+        const rows = (data || []) as EntitlementRow[];
+        if (rows.length > 0) {
+            return { ok: true, entitlement: mapEntitlementRow(rows[0]) };
+        }
+
+        // Nothing was updated; read back the row only to report why
+        const current = await this.get(paymentId);
+        return { ok: false, reason: checkEntitlement(current, resourceUrl) || 'exhausted' };
+    }
+
+    async revoke(paymentId: string, reason?: string): Promise<boolean> {
+        const { data, error } = await supabase
+            .from('x402_entitlements')
+            .update({ revoked_at: new Date().toISOString(), revoke_reason: reason || null })
+            .eq('payment_id', paymentId)
+            .is('revoked_at', null)
+            .select('payment_id');
+
+        if (error) {
+            throw new Error(`Failed to revoke entitlement: ${error.message}`);
+        }
+
+        return (data || []).length > 0;
+    }
+
+    async offer(input: OfferEntitlementInput): Promise<EntitlementOffer> {
+        const offer = buildOffer(input);
+
+        const { error } = await supabase
+            .from('x402_entitlement_offers')
+            .upsert({
+                payment_id: offer.paymentId,
+                resource_url: offer.resourceUrl,
+                max_uses: offer.policy.maxUses,
+                ttl_ms: offer.policy.ttlMs,
+                pay_to: input.payment.payTo,
+                asset: input.payment.asset,
+                max_amount_required: input.payment.maxAmountRequired,
+                created_at: new Date(offer.createdAt).toISOString(),
+            }, { onConflict: 'payment_id' });
+
+        if (error) {
+            throw new Error(`Failed to record entitlement offer: ${error.message}`);
+        }
+
+        return offer;
+    }
+
+    async getOffer(paymentId: string): Promise<EntitlementOffer | null> {
+        const { data, error } = await supabase
+            .from('x402_entitlement_offers')
+            .select('*')
+            .eq('payment_id', paymentId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to get entitlement offer: ${error.message}`);
+        }
+
+        return data ? mapOfferRow(data as OfferRow) : null;
+    }
+
+    async purge(): Promise<number> {
+        const { error: offerError } = await supabase
+            .from('x402_entitlement_offers')
+            .delete()
+            .lte('created_at', new Date(Date.now() - OFFER_TTL_MS).toISOString());
+
+        if (offerError) {
+            logger.warn('Failed to purge entitlement offers', { error: offerError.message });
+        }
+
+        const { data, error } = await supabase
+            .from('x402_entitlements')
+            .delete()
+            .lte('expires_at', new Date().toISOString())
+            .select('payment_id');
+
+        if (error) {
+            throw new Error(`Failed to purge entitlements: ${error.message}`);
+        }
+
+        return (data || []).length;
+    }
+}
+
+// ============================================
+// SQLITE STORE
+// ============================================
+
+/**
+ * Minimal surface of node:sqlite's DatabaseSync used by this store.
+ */
+interface SqliteStatement {
+    run(...params: unknown[]): { changes: number | bigint };
+    get(...params: unknown[]): unknown;
+}
+
+interface SqliteDatabase {
+    exec(sql: string): void;
+    prepare(sql: string): SqliteStatement;
+}
+
+interface SqliteRow {
+    payment_id: string;
+    resource_url: string;
+    user_address: string;
+    max_uses: number | null;
+    use_count: number;
+    created_at: number;
+    expires_at: number | null;
+    last_used_at: number | null;
+    revoked_at: number | null;
+    revoke_reason: string | null;
+}
+
+function mapSqliteRow(row: SqliteRow): Entitlement {
+    return {
+        paymentId: row.payment_id,
+        resourceUrl: row.resource_url,
+        userAddress: row.user_address,
+        maxUses: row.max_uses,
+        useCount: row.use_count,
+        createdAt: row.created_at,
+        expiresAt: row.expires_at,
+        lastUsedAt: row.last_used_at,
+        revokedAt: row.revoked_at,
+        revokeReason: row.revoke_reason,
+    };
+}
+
+/**
+ * Whether this Node version ships node:sqlite (added in 22.5)
+ */
+export function isSqliteSupported(version: string = process.versions.node): boolean {
+    const [major, minor] = version.split('.').map(Number);
+    return major > 22 || (major === 22 && minor >= 5);
+}
+
+/**
+ * File-backed store using the built-in node:sqlite module (Node >= 22.5).
+ * Intended for local development where Supabase is not available.
+ * The database is opened on first use; if it can't be opened, that call
+ * fails and the next one retries.
+ */
+export class SqliteEntitlementStore implements EntitlementStore {
+    private db: Promise<SqliteDatabase> | null = null;
+
+    constructor(private filename: string = process.env.ENTITLEMENT_SQLITE_PATH || '.relay/entitlements.db') {}
+
+    private database(): Promise<SqliteDatabase> {
+        if (!this.db) {
+            this.db = this.open().catch((error: Error) => {
+                this.db = null;
+                throw new Error(`Failed to open SQLite entitlement store at ${this.filename}: ${error.message}`);
+            });
+        }
+        return this.db;
+    }
+
+    private async open(): Promise<SqliteDatabase> {
+        if (!isSqliteSupported()) {
+            throw new Error(`node:sqlite requires Node >= 22.5 (running ${process.versions.node})`);
+        }
+
+        // Module name kept in a variable so bundlers and older Node typings leave it alone
+        const moduleName = 'node:sqlite';
+        const { DatabaseSync } = await import(/* @vite-ignore */ moduleName);
+
+        if (this.filename !== ':memory:') {
+            const { mkdirSync } = await import('fs');
+            const { dirname } = await import('path');
+            mkdirSync(dirname(this.filename), { recursive: true });
+        }
+
+        const db = new DatabaseSync(this.filename) as SqliteDatabase;
+
+        // Offers only live until settlement; a table from before they stored the payment is recreated
+        const offersHavePayment = db.prepare(
+            "SELECT 1 FROM pragma_table_info('x402_entitlement_offers') WHERE name = 'pay_to'"
+        ).get();
+        if (!offersHavePayment) {
+            db.exec('DROP TABLE IF EXISTS x402_entitlement_offers');
+        }
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS x402_entitlements (
+                payment_id TEXT PRIMARY KEY,
+                resource_url TEXT NOT NULL,
+                user_address TEXT NOT NULL,
+                max_uses INTEGER,
+                use_count INTEGER NOT NULL DEFAULT 0,
+                created_at INTEGER NOT NULL,
+                expires_at INTEGER,
+                last_used_at INTEGER,
+                revoked_at INTEGER,
+                revoke_reason TEXT
+            );
+            CREATE TABLE IF NOT EXISTS x402_entitlement_offers (
+                payment_id TEXT PRIMARY KEY,
+                resource_url TEXT NOT NULL,
+                max_uses INTEGER,
+                ttl_ms INTEGER,
+                pay_to TEXT,
+                asset TEXT,
+                max_amount_required TEXT,
+                created_at INTEGER NOT NULL
+            )
+        `);
+        return db;
+    }
+
+    async grant(input: GrantEntitlementInput): Promise<Entitlement> {
+        const db = await this.database();
+        const entitlement = buildEntitlement(input);
+
+        db.prepare(`
+            INSERT OR IGNORE INTO x402_entitlements
+                (payment_id, resource_url, user_address, max_uses, use_count, created_at, expires_at)
+            VALUES (?, ?, ?, ?, 0, ?, ?)
+        `).run(
+            entitlement.paymentId,
+            entitlement.resourceUrl,
+            entitlement.userAddress,
+            entitlement.maxUses,
+            entitlement.createdAt,
+            entitlement.expiresAt
+        );
+
+        return (await this.get(input.paymentId)) || entitlement;
+    }
+
+    async get(paymentId: string): Promise<Entitlement | null> {
+        const db = await this.database();
+        const row = db.prepare('SELECT * FROM x402_entitlements WHERE payment_id = ?').get(paymentId);
+        return row ? mapSqliteRow(row as SqliteRow) : null;
+    }
+
+    async consume(paymentId: string, resourceUrl: string): Promise<ConsumeResult> {
+        const db = await this.database();
+        const now = Date.now();
+
+        const row = db.prepare(`
+            UPDATE x402_entitlements
+            SET use_count = use_count + 1, last_used_at = ?
+            WHERE payment_id = ?
+              AND resource_url = ?
+              AND revoked_at IS NULL
+              AND (expires_at IS NULL OR expires_at > ?)
+              AND (max_uses IS NULL OR use_count < max_uses)
+            RETURNING *
+        `).get(now, paymentId, resourceUrl, now);
+
+        if (row) {
+            return { ok: true, entitlement: mapSqliteRow(row as SqliteRow) };
+        }
+
+        const current = await this.get(paymentId);
+        return { ok: false, reason: checkEntitlement(current, resourceUrl, now) || 'exhausted' };
+    }
+
+    async revoke(paymentId: string, reason?: string): Promise<boolean> {
+        const db = await this.database();
+        const result = db.prepare(`
+            UPDATE x402_entitlements
+            SET revoked_at = ?, revoke_reason = ?
+            WHERE payment_id = ? AND revoked_at IS NULL
+        `).run(Date.now(), reason || null, paymentId);
+
+        return Number(result.changes) > 0;
+    }
+
+    async offer(input: OfferEntitlementInput): Promise<EntitlementOffer> {
+        const db = await this.database();
+        const offer = buildOffer(input);
+
+        db.prepare(`
+            INSERT OR REPLACE INTO x402_entitlement_offers
+                (payment_id, resource_url, max_uses, ttl_ms, pay_to, asset, max_amount_required, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            offer.paymentId,
+            offer.resourceUrl,
+            offer.policy.maxUses,
+            offer.policy.ttlMs,
+            input.payment.payTo,
+            input.payment.asset,
+            input.payment.maxAmountRequired,
+            offer.createdAt
+        );
+
+        return offer;
+    }
+
+    async getOffer(paymentId: string): Promise<EntitlementOffer | null> {
+        const db = await this.database();
+        const row = db.prepare('SELECT * FROM x402_entitlement_offers WHERE payment_id = ?').get(paymentId);
+        return row ? mapOfferRow(row as OfferRow) : null;
+    }
+
+    async purge(): Promise<number> {
+        const db = await this.database();
+        db.prepare('DELETE FROM x402_entitlement_offers WHERE created_at <= ?').run(Date.now() - OFFER_TTL_MS);
+
+        const result = db.prepare(
+            'DELETE FROM x402_entitlements WHERE expires_at IS NOT NULL AND expires_at <= ?'
+        ).run(Date.now());
+
+        return Number(result.changes);
+    }
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+export function createEntitlementStore(
+    kind: string | undefined = process.env.ENTITLEMENT_STORE
+): EntitlementStore {
+    switch (kind) {
+        case 'memory':
+            return new InMemoryEntitlementStore();
+        case 'sqlite':
+            if (isSqliteSupported()) {
+                return new SqliteEntitlementStore();
+            }
+            logger.warn('ENTITLEMENT_STORE=sqlite needs Node >= 22.5, using the default store', {
+                node: process.versions.node,
+            });
+            return createEntitlementStore('');
+        case 'supabase':
+            return new SupabaseEntitlementStore();
+        default:
+            if (isSupabaseAvailable()) {
+                return new SupabaseEntitlementStore();
+            }
+            logger.warn('Supabase not configured, entitlements will not survive restarts');
+            return new InMemoryEntitlementStore();
+    }
+}
+
+export const entitlementStore: EntitlementStore = createEntitlementStore();
@@ -64,6 +64,23 @@ export class FacilitatorService {
         }
     }
 
+    /**
+     * Verify an x402 payment authorization without settling it.
+     * Used to hold an EIP-3009 authorization until the call outcome is known.
+     */
+    async verifyPayment(params: {
+        paymentHeader: string;
+        paymentRequirements: PaymentRequirements;
+    }): Promise<boolean> {
+        const verifyRequest = this.facilitator.buildVerifyRequest(
+            params.paymentHeader,
+            params.paymentRequirements
+        );
+
+        const verifyResult = await this.facilitator.verifyPayment(verifyRequest);
+        return verifyResult.isValid;
+    }
+
     /**
      * Generate payment requirements for a protected resource
      * 
@@ -0,0 +1,639 @@
+/**
+ * Payment Authorization Service
+ *
+ * Two-phase "reserve then capture" payments for paid calls:
+ * 1. authorize: hold the quoted amount (session ledger reservation, or a
+ *    verified but unsettled EIP-3009 authorization)
+ * 2. run the paid handler
+ * 3. capture the actual amount (<= authorized) or void the hold
+ *
+ * OutcomeService.record resolves authorizations automatically:
+ * 'delivered' captures, 'failed' / 'timeout' voids.
+ *
+ * EIP-3009 authorizations sign an exact value, so they can only be
+ * captured in full. Partial capture needs a session authorization.
+ */
+
+import type { PaymentRequirements } from '@crypto.com/facilitator-client';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../../lib/supabase.js';
+import logger from '../../lib/logger.js';
+import { eventBus } from '../../lib/event-bus.js';
+import { facilitatorService } from './facilitator-service.js';
+import { createSessionLedger, SessionLedgerError, type SessionLedger } from '../session/session-ledger.js';
+import type { SpendDetails } from '../session/spending-policy.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AuthorizationMethod = 'session' | 'eip3009';
+
+export type AuthorizationStatus = 'authorized' | 'capturing' | 'captured' | 'voided' | 'failed';
+
+export interface PaymentAuthorization {
+    authorizationId: string;
+    paymentId: string;
+    method: AuthorizationMethod;
+    status: AuthorizationStatus;
+    /** Authorized amount in USDC base units */
+    amount: bigint;
+    capturedAmount: bigint | null;
+    payTo: string;
+    resourceUrl: string;
+    sessionId?: string;
+    reservationId?: string;
+    paymentHeader?: string;
+    paymentRequirements?: PaymentRequirements;
+    /** Name of a registered capture handler that moves the funds on capture */
+    captureHandler?: string;
+    txHash?: string;
+    voidReason?: string;
+    metadata?: Record<string, unknown>;
+    createdAt: number;
+    expiresAt: number;
+}
+
+export interface AuthorizeSessionParams {
+    sessionId: string;
+    amount: bigint;
+    payTo: string;
+    resourceUrl: string;
+    paymentId?: string;
+    captureHandler?: string;
+    metadata?: Record<string, unknown>;
+    ttlMs?: number;
+    /** Payee details for the session spending policy */
+    spend?: SpendDetails;
+}
+
+export interface AuthorizeEip3009Params {
+    paymentHeader: string;
+    paymentRequirements: PaymentRequirements;
+    paymentId?: string;
+    metadata?: Record<string, unknown>;
+}
+
+export type PaymentAuthorizationErrorCode =
+    | 'NOT_FOUND'
+    | 'NOT_AUTHORIZED'
+    | 'INVALID_AMOUNT'
+    | 'VERIFICATION_FAILED'
+    | 'CAPTURE_FAILED';
+
+export class PaymentAuthorizationError extends Error {
+    code: PaymentAuthorizationErrorCode;
+
+    constructor(code: PaymentAuthorizationErrorCode, message: string) {
+        super(message);
+        this.name = 'PaymentAuthorizationError';
+        this.code = code;
+    }
+}
+
+/** Fields written when an authorization settles */
+export interface AuthorizationSettlement {
+    capturedAmount?: bigint;
+    txHash?: string | null;
+    voidReason?: string;
+}
+
+/**
+ * Storage for authorizations. transition must only apply the update when
+ * the stored status equals `from`.
+ */
+export interface PaymentAuthorizationStore {
+    insert(authorization: PaymentAuthorization): Promise<PaymentAuthorization>;
+    get(authorizationId: string): Promise<PaymentAuthorization | null>;
+    getByPaymentId(paymentId: string): Promise<PaymentAuthorization | null>;
+    /** Move an authorization out of `from`; returns false if it was no longer in that status */
+    transition(authorizationId: string, from: AuthorizationStatus, to: AuthorizationStatus): Promise<boolean>;
+    settle(
+        authorizationId: string,
+        status: AuthorizationStatus,
+        settlement: AuthorizationSettlement
+    ): Promise<PaymentAuthorization>;
+    listExpired(now: number): Promise<PaymentAuthorization[]>;
+}
+
+/**
+ * Moves funds for a session capture (e.g. paying an agent on-chain).
+ * Returns the settlement transaction hash, if any.
+ */
+export type CaptureHandler = (
+    authorization: PaymentAuthorization,
+    amount: bigint
+) => Promise<string | undefined>;
+
+const captureHandlers = new Map<string, CaptureHandler>();
+
+/**
+ * Register a named capture handler. Names are persisted with the
+ * authorization, so a capture can run in a different process.
+ */
+export function registerCaptureHandler(name: string, handler: CaptureHandler): void {
+    captureHandlers.set(name, handler);
+}
+
+const DEFAULT_AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+
+// ============================================
+// SUPABASE STORE
+// ============================================
+
+interface AuthorizationRow {
+    authorization_id: string;
+    payment_id: string;
+    method: AuthorizationMethod;
+    status: AuthorizationStatus;
+    amount: string;
+    captured_amount: string | null;
+    pay_to: string;
+    resource_url: string;
+    session_id: string | null;
+    reservation_id: string | null;
+    payment_header: string | null;
+    payment_requirements: PaymentRequirements | null;
+    capture_handler: string | null;
+    tx_hash: string | null;
+    void_reason: string | null;
+    metadata: Record<string, unknown> | null;
+    created_at: string;
+    expires_at: string;
+}
+
+function mapAuthorizationRow(row: AuthorizationRow): PaymentAuthorization {
+    return {
+        authorizationId: row.authorization_id,
+        paymentId: row.payment_id,
+        method: row.method,
+        status: row.status,
+        amount: BigInt(row.amount),
+        capturedAmount: row.captured_amount !== null ? BigInt(row.captured_amount) : null,
+        payTo: row.pay_to,
+        resourceUrl: row.resource_url,
+        sessionId: row.session_id || undefined,
+        reservationId: row.reservation_id || undefined,
+        paymentHeader: row.payment_header || undefined,
+        paymentRequirements: row.payment_requirements || undefined,
+        captureHandler: row.capture_handler || undefined,
+        txHash: row.tx_hash || undefined,
+        voidReason: row.void_reason || undefined,
+        metadata: row.metadata || undefined,
+        createdAt: new Date(row.created_at).getTime(),
+        expiresAt: new Date(row.expires_at).getTime(),
+    };
+}
+
+/**
+ * Stores authorizations in payment_authorizations
+ */
+export class SupabasePaymentAuthorizationStore implements PaymentAuthorizationStore {
+    constructor(private supabase: SupabaseClient) { }
+
+    async insert(authorization: PaymentAuthorization): Promise<PaymentAuthorization> {
+        const { data, error } = await this.supabase
+            .from('payment_authorizations')
+            .insert({
+                authorization_id: authorization.authorizationId,
+                payment_id: authorization.paymentId,
+                method: authorization.method,
+                status: authorization.status,
+                amount: authorization.amount.toString(),
+                pay_to: authorization.payTo.toLowerCase(),
+                resource_url: authorization.resourceUrl,
+                session_id: authorization.sessionId || null,
+                reservation_id: authorization.reservationId || null,
+                payment_header: authorization.paymentHeader || null,
+                payment_requirements: authorization.paymentRequirements || null,
+                capture_handler: authorization.captureHandler || null,
+                metadata: authorization.metadata || {},
+                expires_at: new Date(authorization.expiresAt).toISOString(),
+            })
+            .select()
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to record payment authorization: ${error.message}`);
+        }
+
+        return mapAuthorizationRow(data as AuthorizationRow);
+    }
+
+    async get(authorizationId: string): Promise<PaymentAuthorization | null> {
+        return this.findOne('authorization_id', authorizationId);
+    }
+
+    async getByPaymentId(paymentId: string): Promise<PaymentAuthorization | null> {
+        return this.findOne('payment_id', paymentId);
+    }
+
+    async transition(authorizationId: string, from: AuthorizationStatus, to: AuthorizationStatus): Promise<boolean> {
+        const { data, error } = await this.supabase
+            .from('payment_authorizations')
+            .update({ status: to, updated_at: new Date().toISOString() })
+            .eq('authorization_id', authorizationId)
+            .eq('status', from)
+            .select('authorization_id');
+
+        if (error) {
+            throw new Error(`Failed to claim payment authorization: ${error.message}`);
+        }
+
+        return (data || []).length === 1;
+    }
+
+    async settle(
+        authorizationId: string,
+        status: AuthorizationStatus,
+        settlement: AuthorizationSettlement
+    ): Promise<PaymentAuthorization> {
+        const { data, error } = await this.supabase
+            .from('payment_authorizations')
+            .update({
+                status,
+                ...(settlement.capturedAmount !== undefined && { captured_amount: settlement.capturedAmount.toString() }),
+                ...(settlement.txHash !== undefined && { tx_hash: settlement.txHash }),
+                ...(settlement.voidReason !== undefined && { void_reason: settlement.voidReason }),
+                settled_at: new Date().toISOString(),
+                updated_at: new Date().toISOString(),
+            })
+            .eq('authorization_id', authorizationId)
+            .select()
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to update payment authorization: ${error.message}`);
+        }
+
+        return mapAuthorizationRow(data as AuthorizationRow);
+    }
+
+    async listExpired(now: number): Promise<PaymentAuthorization[]> {
+        const { data, error } = await this.supabase
+            .from('payment_authorizations')
+            .select('*')
+            .eq('status', 'authorized')
+            .lt('expires_at', new Date(now).toISOString())
+            .limit(100);
+
+        if (error) {
+            throw new Error(`Failed to list expired authorizations: ${error.message}`);
+        }
+
+        return (data || []).map(row => mapAuthorizationRow(row as AuthorizationRow));
+    }
+
+    private async findOne(column: string, value: string): Promise<PaymentAuthorization | null> {
+        const { data, error } = await this.supabase
+            .from('payment_authorizations')
+            .select('*')
+            .eq(column, value)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to get payment authorization: ${error.message}`);
+        }
+
+        return data ? mapAuthorizationRow(data as AuthorizationRow) : null;
+    }
+}
+
+// ============================================
+// IN-MEMORY STORE
+// ============================================
+
+/**
+ * Process-local store for tests and local tooling
+ */
+export class InMemoryPaymentAuthorizationStore implements PaymentAuthorizationStore {
+    private authorizations = new Map<string, PaymentAuthorization>();
+
+    async insert(authorization: PaymentAuthorization): Promise<PaymentAuthorization> {
+        const stored = { ...authorization, payTo: authorization.payTo.toLowerCase() };
+        this.authorizations.set(authorization.authorizationId, stored);
+        return { ...stored };
+    }
+
+    async get(authorizationId: string): Promise<PaymentAuthorization | null> {
+        const authorization = this.authorizations.get(authorizationId);
+        return authorization ? { ...authorization } : null;
+    }
+
+    async getByPaymentId(paymentId: string): Promise<PaymentAuthorization | null> {
+        const authorization = Array.from(this.authorizations.values()).find(a => a.paymentId === paymentId);
+        return authorization ? { ...authorization } : null;
+    }
+
+    async transition(authorizationId: string, from: AuthorizationStatus, to: AuthorizationStatus): Promise<boolean> {
+        const authorization = this.authorizations.get(authorizationId);
+        if (!authorization || authorization.status !== from) return false;
+        authorization.status = to;
+        return true;
+    }
+
+    async settle(
+        authorizationId: string,
+        status: AuthorizationStatus,
+        settlement: AuthorizationSettlement
+    ): Promise<PaymentAuthorization> {
+        const authorization = this.authorizations.get(authorizationId);
+        if (!authorization) {
+            throw new Error(`Failed to update payment authorization: ${authorizationId} not found`);
+        }
+
+        authorization.status = status;
+        if (settlement.capturedAmount !== undefined) authorization.capturedAmount = settlement.capturedAmount;
+        if (settlement.txHash !== undefined) authorization.txHash = settlement.txHash || undefined;
+        if (settlement.voidReason !== undefined) authorization.voidReason = settlement.voidReason;
+        return { ...authorization };
+    }
+
+    async listExpired(now: number): Promise<PaymentAuthorization[]> {
+        return Array.from(this.authorizations.values())
+            .filter(a => a.status === 'authorized' && a.expiresAt < now)
+            .map(a => ({ ...a }));
+    }
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class PaymentAuthorizationService {
+    constructor(
+        private ledger: SessionLedger = createSessionLedger(supabase),
+        private store: PaymentAuthorizationStore = new SupabasePaymentAuthorizationStore(supabase)
+    ) { }
+
+    /**
+     * Reserve the quoted amount against a session budget
+     */
+    async authorizeSession(params: AuthorizeSessionParams): Promise<PaymentAuthorization> {
+        const reservation = await this.ledger.reserve(params.sessionId, params.amount, {
+            ttlMs: params.ttlMs,
+            metadata: { resourceUrl: params.resourceUrl, payTo: params.payTo },
+            spend: params.spend,
+        });
+
+        try {
+            return await this.insert({
+                paymentId: params.paymentId || `session_pay_${uuidv4()}`,
+                method: 'session',
+                amount: params.amount,
+                payTo: params.payTo,
+                resourceUrl: params.resourceUrl,
+                sessionId: params.sessionId,
+                reservationId: reservation.reservationId,
+                captureHandler: params.captureHandler,
+                metadata: params.metadata,
+                expiresAt: reservation.expiresAt,
+            });
+        } catch (error) {
+            await this.ledger.release(reservation.reservationId);
+            throw error;
+        }
+    }
+
+    /**
+     * Verify an EIP-3009 authorization and hold it unsettled
+     */
+    async authorizeEip3009(params: AuthorizeEip3009Params): Promise<PaymentAuthorization> {
+        const isValid = await facilitatorService.verifyPayment({
+            paymentHeader: params.paymentHeader,
+            paymentRequirements: params.paymentRequirements,
+        });
+
+        if (!isValid) {
+            throw new PaymentAuthorizationError('VERIFICATION_FAILED', 'Payment authorization is invalid');
+        }
+
+        const timeoutMs = (params.paymentRequirements.maxTimeoutSeconds || 300) * 1000;
+
+        return this.insert({
+            paymentId: params.paymentId || `pay_${uuidv4()}`,
+            method: 'eip3009',
+            amount: BigInt(params.paymentRequirements.maxAmountRequired),
+            payTo: params.paymentRequirements.payTo,
+            resourceUrl: params.paymentRequirements.resource || '',
+            paymentHeader: params.paymentHeader,
+            paymentRequirements: params.paymentRequirements,
+            metadata: params.metadata,
+            expiresAt: Date.now() + Math.min(timeoutMs, DEFAULT_AUTHORIZATION_TTL_MS),
+        });
+    }
+
+    async get(authorizationId: string): Promise<PaymentAuthorization | null> {
+        return this.store.get(authorizationId);
+    }
+
+    async getByPaymentId(paymentId: string): Promise<PaymentAuthorization | null> {
+        return this.store.getByPaymentId(paymentId);
+    }
+
+    /**
+     * Capture `amount` (defaults to the full authorization) and release the rest
+     */
+    async capture(authorizationId: string, amount?: bigint): Promise<PaymentAuthorization> {
+        const authorization = await this.requireAuthorized(authorizationId);
+        const captureAmount = amount ?? authorization.amount;
+
+        if (captureAmount < 0n || captureAmount > authorization.amount) {
+            throw new PaymentAuthorizationError(
+                'INVALID_AMOUNT',
+                `Capture amount ${captureAmount} exceeds authorized ${authorization.amount}`
+            );
+        }
+        if (captureAmount === 0n) {
+            return this.void(authorizationId, 'zero_capture');
+        }
+        if (authorization.method === 'eip3009' && captureAmount !== authorization.amount) {
+            throw new PaymentAuthorizationError(
+                'INVALID_AMOUNT',
+                'EIP-3009 authorizations can only be captured in full'
+            );
+        }
+
+        await this.claim(authorizationId);
+
+        let txHash: string | undefined;
+        let fundsMoved = false;
+        try {
+            if (authorization.method === 'eip3009') {
+                const result = await facilitatorService.settlePayment({
+                    paymentHeader: authorization.paymentHeader!,
+                    paymentRequirements: authorization.paymentRequirements!,
+                });
+                txHash = result.txHash;
+            } else {
+                if (authorization.captureHandler) {
+                    const handler = captureHandlers.get(authorization.captureHandler);
+                    if (!handler) {
+                        throw new Error(`No capture handler registered as ${authorization.captureHandler}`);
+                    }
+                    txHash = await handler(authorization, captureAmount);
+                    fundsMoved = true;
+                }
+                // A paid hold that can't be committed is flagged for reconciliation, never swept
+                await (fundsMoved
+                    ? this.ledger.commitSettled(authorization.reservationId!, captureAmount)
+                    : this.ledger.commit(authorization.reservationId!, captureAmount));
+            }
+        } catch (error) {
+            logger.error('Payment capture failed', error as Error, { authorizationId, fundsMoved, txHash });
+            // Once funds have moved the hold must stay in place for reconciliation
+            if (authorization.method === 'session' && !fundsMoved) {
+                await this.ledger.release(authorization.reservationId!).catch(() => undefined);
+            }
+            await this.store.settle(authorizationId, 'failed', {
+                voidReason: (error as Error).message,
+                txHash: txHash || null,
+            });
+            throw new PaymentAuthorizationError('CAPTURE_FAILED', (error as Error).message);
+        }
+
+        const captured = await this.store.settle(authorizationId, 'captured', {
+            capturedAmount: captureAmount,
+            txHash: txHash || null,
+        });
+
+        logger.info('Payment captured', {
+            authorizationId,
+            paymentId: authorization.paymentId,
+            amount: captureAmount.toString(),
+            authorized: authorization.amount.toString(),
+            txHash,
+        });
+
+        eventBus.publish('payment.settled', {
+            paymentId: authorization.paymentId,
+            fromAddress: null,
+            toAddress: authorization.payTo.toLowerCase(),
+            amount: captureAmount.toString(),
+            txHash: txHash ?? null,
+            resourceUrl: authorization.resourceUrl,
+            method: 'deferred',
+            settledAt: Date.now(),
+        });
+
+        return captured;
+    }
+
+    /**
+     * Cancel an authorization. Session holds return to the budget; unsettled
+     * EIP-3009 authorizations are simply never submitted.
+     */
+    async void(authorizationId: string, reason: string): Promise<PaymentAuthorization> {
+        const authorization = await this.requireAuthorized(authorizationId);
+        await this.claim(authorizationId);
+
+        if (authorization.method === 'session') {
+            try {
+                await this.ledger.release(authorization.reservationId!);
+            } catch (error) {
+                // Already released, e.g. by the reservation sweep; nothing left to return
+                if (!(error instanceof SessionLedgerError && error.code === 'RESERVATION_SETTLED')) {
+                    logger.error('Failed to release voided authorization', error as Error, { authorizationId });
+                    // Don't leave it in 'capturing'; an unreleased hold is swept once it expires
+                    await this.store.settle(authorizationId, 'failed', { voidReason: (error as Error).message });
+                    throw error;
+                }
+            }
+        }
+
+        const voided = await this.store.settle(authorizationId, 'voided', { voidReason: reason });
+        logger.info('Payment authorization voided', { authorizationId, paymentId: authorization.paymentId, reason });
+        return voided;
+    }
+
+    /**
+     * Capture or void the authorization behind a payment based on its outcome.
+     * Returns null when the payment has no open authorization.
+     */
+    async resolveOutcome(
+        paymentId: string,
+        outcomeType: 'delivered' | 'failed' | 'timeout',
+        captureAmount?: bigint
+    ): Promise<PaymentAuthorization | null> {
+        const authorization = await this.getByPaymentId(paymentId);
+        if (!authorization || authorization.status !== 'authorized') {
+            return null;
+        }
+
+        if (outcomeType === 'delivered') {
+            return this.capture(authorization.authorizationId, captureAmount);
+        }
+        return this.void(authorization.authorizationId, `outcome_${outcomeType}`);
+    }
+
+    /**
+     * Void authorizations whose hold expired without an outcome
+     */
+    async voidExpired(now: number = Date.now()): Promise<number> {
+        const expired = await this.store.listExpired(now);
+
+        let voided = 0;
+        for (const authorization of expired) {
+            try {
+                await this.void(authorization.authorizationId, 'expired');
+                voided++;
+            } catch (err) {
+                logger.warn('Failed to void expired authorization', {
+                    authorizationId: authorization.authorizationId,
+                    error: (err as Error).message,
+                });
+            }
+        }
+        return voided;
+    }
+
+    private async insert(
+        input: Omit<PaymentAuthorization, 'authorizationId' | 'status' | 'capturedAmount' | 'createdAt'>
+    ): Promise<PaymentAuthorization> {
+        const authorization = await this.store.insert({
+            ...input,
+            authorizationId: `auth_${uuidv4()}`,
+            status: 'authorized',
+            capturedAmount: null,
+            createdAt: Date.now(),
+        });
+
+        logger.info('Payment authorized', {
+            authorizationId: authorization.authorizationId,
+            paymentId: input.paymentId,
+            method: input.method,
+            amount: input.amount.toString(),
+        });
+
+        return authorization;
+    }
+
+    private async requireAuthorized(authorizationId: string): Promise<PaymentAuthorization> {
+        const authorization = await this.get(authorizationId);
+        if (!authorization) {
+            throw new PaymentAuthorizationError('NOT_FOUND', `Authorization ${authorizationId} not found`);
+        }
+        if (authorization.status !== 'authorized') {
+            throw new PaymentAuthorizationError(
+                'NOT_AUTHORIZED',
+                `Authorization ${authorizationId} is ${authorization.status}`
+            );
+        }
+        return authorization;
+    }
+
+    /**
+     * Take exclusive ownership of an open authorization (authorized -> capturing)
+     */
+    private async claim(authorizationId: string): Promise<void> {
+        if (!(await this.store.transition(authorizationId, 'authorized', 'capturing'))) {
+            throw new PaymentAuthorizationError(
+                'NOT_AUTHORIZED',
+                `Authorization ${authorizationId} is already being settled`
+            );
+        }
+    }
+}
+
+export const paymentAuthorizationService = new PaymentAuthorizationService();
@@ -4,6 +4,26 @@ import type { PaymentRequirements } from '@crypto.com/facilitator-client';
 import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '../../lib/supabase.js';
 import logger from '../../lib/logger.js';
+import { eventBus } from '../../lib/event-bus.js';
+import {
+    checkOffer,
+    entitlementStore,
+    type ConsumeFailureReason,
+    type EntitlementPolicy,
+} from './entitlement-store.js';
+import {
+    createSessionLedger,
+    fromBaseUnits,
+    SessionLedgerError,
+    type SessionReservation,
+} from '../session/session-ledger.js';
+import { SpendingPolicyService, SpendingPolicyError, type SpendDetails } from '../session/spending-policy.js';
+import {
+    paymentAuthorizationService,
+    registerCaptureHandler,
+    type PaymentAuthorization,
+} from './payment-authorization.js';
+import { outcomeService } from '../outcomes/outcome-service.js';
 
 /**
  * Extended Request interface with payment metadata
@@ -12,18 +32,127 @@ export interface X402ProtectedRequest extends Request {
     paymentId?: string;
     isEntitled?: boolean;
     userAddress?: string;
+    /** Open authorization when the route uses deferred capture */
+    paymentAuthorization?: PaymentAuthorization;
 }
 
 /**
- * In-memory entitlement cache (for fast lookups)
- * In production, this is backed by Supabase
+ * Ledger for session-budget payments (atomic, base-unit debits)
  */
-const entitlementCache = new Map<string, {
-    paymentId: string;
-    resourceUrl: string;
-    userAddress: string;
-    timestamp: number;
-}>();
+const sessionLedger = createSessionLedger(supabase);
+const spendingPolicies = new SpendingPolicyService(supabase);
+
+/**
+ * Payee details of a session spend, checked against the session's spending policy
+ */
+async function resolveSessionSpend(
+    req: Request,
+    params: { merchantAddress: string; serviceId?: string; category?: string }
+): Promise<SpendDetails> {
+    return spendingPolicies.resolveSpend(params.merchantAddress, {
+        serviceId: params.serviceId,
+        category: params.category,
+        approvalId: (req.headers['x-spend-approval-id'] as string) || undefined,
+    });
+}
+
+/**
+ * 403 with the structured denial, so agents can tell a policy limit from
+ * an unpaid request (and pick up the approval id to wait on)
+ */
+function rejectSpend(res: Response, sessionId: string, error: SpendingPolicyError) {
+    logger.warn('Session payment denied by spending policy', { sessionId, code: error.denial?.code });
+    return res.status(403).json({
+        error: 'Payment denied by session spending policy',
+        code: error.denial?.code,
+        denial: error.denial
+    });
+}
+
+/**
+ * Record a session-budget payment to a merchant in session_payments
+ */
+async function recordSessionPayment(params: {
+    sessionId: string;
+    merchantAddress: string;
+    amount: bigint;
+    executionId: string;
+    reference: string;
+}) {
+    // Try to get agent name from services table
+    let agentName = params.merchantAddress;
+    try {
+        const { data: agentService } = await supabase
+            .from('services')
+            .select('name')
+            .ilike('owner_address', params.merchantAddress)
+            .single();
+        if (agentService?.name) {
+            agentName = agentService.name;
+        }
+    } catch {
+        // Use address if service lookup fails
+    }
+
+    const { error } = await supabase.from('session_payments').insert({
+        session_id: params.sessionId,
+        agent_address: params.merchantAddress,
+        agent_name: agentName,
+        amount: fromBaseUnits(params.amount),
+        execution_id: params.executionId,
+        tx_hash: `session_${params.sessionId}_${params.reference}`,
+        payment_method: 'session_budget',
+        status: 'completed' // Must match CHECK constraint: pending, completed, failed, refunded
+    });
+
+    return { agentName, error };
+}
+
+/**
+ * Capture handler for deferred session-budget payments: books the captured
+ * amount to the merchant once the outcome is known.
+ */
+export const SESSION_BUDGET_CAPTURE = 'session_budget';
+
+registerCaptureHandler(SESSION_BUDGET_CAPTURE, async (authorization, amount) => {
+    const { error } = await recordSessionPayment({
+        sessionId: authorization.sessionId!,
+        merchantAddress: authorization.payTo,
+        amount,
+        executionId: authorization.paymentId,
+        reference: authorization.authorizationId,
+    });
+    if (error) {
+        throw new Error(`Failed to record session payment: ${error.message}`);
+    }
+    return undefined;
+});
+
+/**
+ * Resolve a deferred payment from the response once the handler is done,
+ * unless the handler already recorded an outcome itself.
+ */
+function settleOnFinish(res: Response, authorization: PaymentAuthorization, startTime: number) {
+    res.once('close', async () => {
+        try {
+            const current = await paymentAuthorizationService.getByPaymentId(authorization.paymentId);
+            if (!current || current.status !== 'authorized') return;
+
+            const delivered = res.writableFinished && res.statusCode < 400;
+            await outcomeService.record({
+                paymentId: authorization.paymentId,
+                outcomeType: delivered ? 'delivered' : 'failed',
+                latencyMs: Date.now() - startTime,
+                evidence: { statusCode: res.statusCode, source: 'requirePayment' },
+                observed: true,
+            });
+        } catch (error) {
+            logger.error('Failed to settle deferred payment', error as Error, {
+                paymentId: authorization.paymentId,
+            });
+        }
+    });
+}
 
 /**
  * Update service reputation based on payment outcome
@@ -110,147 +239,165 @@ export function requirePayment(params: {
     merchantAddress: string;
     amount: string;
     resourceUrl: string;
+    /** Usage quota for entitlements granted by this middleware */
+    entitlement?: Partial<EntitlementPolicy>;
+    /**
+     * 'immediate' (default) charges before the handler runs.
+     * 'deferred' authorizes the amount, runs the handler, then captures or
+     * voids based on the recorded outcome (or the response status).
+     * Handlers may record their own outcome with a smaller captureAmount.
+     */
+    capture?: 'immediate' | 'deferred';
+    /** Service and category used by session spending policies (looked up from the merchant if omitted) */
+    serviceId?: string;
+    category?: string;
 }) {
     return async (req: X402ProtectedRequest, res: Response, next: NextFunction) => {
         console.log('Payment Middleware - Headers:', JSON.stringify(req.headers, null, 2));
         const paymentId = req.headers['x-payment-id'] as string;
         const sessionId = req.headers['x-session-id'] as string;
+        const paymentHeader = req.headers['x-payment'] as string;
+        let entitlementFailure: ConsumeFailureReason | null = null;
+
+        // Consume an existing entitlement (one use per call)
+        if (paymentId) {
+            try {
+                const result = await entitlementStore.consume(paymentId, params.resourceUrl);
+                if (result.ok) {
+                    req.isEntitled = true;
+                    req.paymentId = paymentId;
+                    req.userAddress = result.entitlement.userAddress;
+                    logger.info('Entitlement consumed', {
+                        paymentId,
+                        useCount: result.entitlement.useCount,
+                        maxUses: result.entitlement.maxUses
+                    });
+                    return next();
+                }
+                entitlementFailure = result.reason;
+            } catch (error) {
+                logger.error('Entitlement store error', error as Error, { paymentId });
+            }
+        }
+
+        // Two-phase payment: authorize now, capture or void after the handler
+        if (params.capture === 'deferred' && (sessionId || paymentHeader)) {
+            try {
+                const authorization = sessionId
+                    ? await paymentAuthorizationService.authorizeSession({
+                        sessionId,
+                        amount: BigInt(params.amount),
+                        payTo: params.merchantAddress,
+                        resourceUrl: params.resourceUrl,
+                        captureHandler: SESSION_BUDGET_CAPTURE,
+                        spend: await resolveSessionSpend(req, params),
+                    })
+                    : await paymentAuthorizationService.authorizeEip3009({
+                        paymentHeader,
+                        paymentId,
+                        paymentRequirements: facilitatorService.generatePaymentRequirements({
+                            merchantAddress: params.merchantAddress,
+                            amount: params.amount,
+                            resourceUrl: params.resourceUrl,
+                        }),
+                    });
 
-        // Check if user is already entitled (cache first)
-        if (paymentId && entitlementCache.has(paymentId)) {
-            const entitlement = entitlementCache.get(paymentId)!;
-            if (entitlement.resourceUrl === params.resourceUrl) {
                 req.isEntitled = true;
-                req.paymentId = paymentId;
-                req.userAddress = entitlement.userAddress;
-                logger.info('Entitlement verified (cache)', { paymentId });
+                req.paymentId = authorization.paymentId;
+                req.paymentAuthorization = authorization;
+                req.userAddress = req.headers['x-user-address'] as string | undefined;
+
+                settleOnFinish(res, authorization, Date.now());
                 return next();
+            } catch (error) {
+                if (sessionId && error instanceof SpendingPolicyError) {
+                    return rejectSpend(res, sessionId, error);
+                }
+                logger.warn('Payment authorization failed', {
+                    sessionId,
+                    error: (error as Error).message
+                });
             }
         }
 
         // Check for session-based payment
-        if (sessionId) {
+        if (sessionId && params.capture !== 'deferred') {
             console.log('Session payment requested', { sessionId });
+            let reservation: SessionReservation | null = null;
             try {
-                const { data: session, error: sessionError } = await supabase
+                const amountRequired = BigInt(params.amount); // Base units
+                reservation = await sessionLedger.reserve(sessionId, amountRequired, {
+                    metadata: { resourceUrl: params.resourceUrl, merchant: params.merchantAddress },
+                    spend: await resolveSessionSpend(req, params),
+                });
+
+                const { data: session } = await supabase
                     .from('escrow_sessions')
-                    .select('*')
+                    .select('owner_address')
                     .eq('session_id', sessionId)
-                    .eq('is_active', true)
                     .single();
 
-                console.log('Session query result', {
-                    found: !!session,
-                    error: sessionError?.message,
-                    session_id: session?.session_id,
-                    deposited: session?.deposited,
-                    released: session?.released
+                // Record session payment with agent details
+                const sessionPaymentId = `session_pay_${uuidv4()}`;
+                const { agentName, error: paymentError } = await recordSessionPayment({
+                    sessionId,
+                    merchantAddress: params.merchantAddress,
+                    amount: amountRequired,
+                    executionId: sessionPaymentId,
+                    reference: reservation.reservationId,
                 });
 
-                if (session && !sessionError) {
-                    const amountRequired = parseFloat(params.amount) / 1000000; // Convert from base units to USDC
-                    const spent = parseFloat(session.released || '0'); // Use released as spent
-                    const maxSpend = parseFloat(session.max_spend || session.deposited || '0');
-                    const remaining = maxSpend - spent;
+                if (paymentError) {
+                    console.error('Failed to record session payment:', paymentError);
+                    await sessionLedger.release(reservation.reservationId);
+                } else {
+                    await sessionLedger.commit(reservation.reservationId);
+
+                    eventBus.publish('payment.settled', {
+                        paymentId: sessionPaymentId,
+                        fromAddress: session?.owner_address?.toLowerCase() ?? null,
+                        toAddress: params.merchantAddress.toLowerCase(),
+                        amount: amountRequired.toString(),
+                        txHash: null,
+                        resourceUrl: params.resourceUrl,
+                        method: 'session',
+                        settledAt: Date.now(),
+                    });
 
-                    console.log('Session balance check', {
+                    // Grant entitlement
+                    req.isEntitled = true;
+                    req.paymentId = sessionPaymentId;
+                    req.userAddress = session?.owner_address;
+
+                    console.log('Session payment processed successfully', {
                         sessionId,
-                        amountRequired,
-                        spent,
-                        maxSpend,
-                        remaining,
-                        hasEnough: remaining >= amountRequired
+                        paymentId: sessionPaymentId,
+                        agentName
                     });
 
-                    if (remaining >= amountRequired) {
-                        // Deduct from session by updating released amount
-                        const newReleased = spent + amountRequired;
-                        const newPaymentCount = (session.payment_count || 0) + 1;
-
-                        console.log('Attempting to deduct from session', {
-                            sessionId,
-                            currentReleased: spent,
-                            newReleased,
-                            newPaymentCount
-                        });
-
-                        const { error: updateError } = await supabase
-                            .from('escrow_sessions')
-                            .update({
-                                released: newReleased.toString(),
-                                payment_count: newPaymentCount,
-                            })
-                            .eq('session_id', sessionId);
-
-                        if (updateError) {
-                            console.error('Failed to update session', updateError);
-                        } else {
-                            // Record session payment with agent details
-                            const sessionPaymentId = `session_pay_${uuidv4()}`;
-
-                            // Try to get agent name from services table
-                            let agentName = params.merchantAddress;
-                            try {
-                                const { data: agentService } = await supabase
-                                    .from('services')
-                                    .select('name')
-                                    .ilike('owner_address', params.merchantAddress)
-                                    .single();
-                                if (agentService?.name) {
-                                    agentName = agentService.name;
-                                }
-                            } catch {
-                                // Use address if service lookup fails
-                            }
-
-                            const { error: paymentError } = await supabase.from('session_payments').insert({
-                                session_id: sessionId,
-                                agent_address: params.merchantAddress,
-                                agent_name: agentName,
-                                amount: amountRequired.toString(),
-                                execution_id: sessionPaymentId,
-                                tx_hash: `session_${sessionId}_${newPaymentCount}`,
-                                payment_method: 'session_budget',
-                                status: 'completed' // Must match CHECK constraint: pending, completed, failed, refunded
-                            });
-
-                            if (paymentError) {
-                                console.error('Failed to record session payment:', paymentError);
-                            }
-
-                            // Grant entitlement
-                            req.isEntitled = true;
-                            req.paymentId = sessionPaymentId;
-                            req.userAddress = session.owner_address;
-
-                            console.log('Session payment processed successfully', {
-                                sessionId,
-                                paymentId: sessionPaymentId,
-                                agentName
-                            });
-
-                            return next();
-                        }
-                    } else {
-                        console.warn('Insufficient session balance', {
-                            sessionId,
-                            required: amountRequired,
-                            remaining,
-                        });
-                    }
-                } else {
-                    console.warn('Session not found or inactive', {
+                    return next();
+                }
+            } catch (error) {
+                if (error instanceof SpendingPolicyError) {
+                    return rejectSpend(res, sessionId, error);
+                }
+                if (error instanceof SessionLedgerError) {
+                    console.warn('Session payment rejected', {
                         sessionId,
-                        error: sessionError?.message
+                        code: error.code,
+                        reason: error.message
                     });
+                } else {
+                    console.error('Session payment error', error);
+                    if (reservation?.status === 'pending') {
+                        await sessionLedger.release(reservation.reservationId).catch(() => undefined);
+                    }
                 }
-            } catch (error) {
-                console.error('Session payment error', error);
             }
         }
 
-        // Check Supabase for entitlement
-        if (paymentId) {
+        // Settled payment with no entitlement yet (e.g. recorded before the store existed)
+        if (paymentId && entitlementFailure === 'not_found') {
             try {
                 const { data, error } = await supabase
                     .from('payments')
@@ -261,19 +408,23 @@ export function requirePayment(params: {
                     .single();
 
                 if (data && !error) {
-                    // Cache the entitlement
-                    entitlementCache.set(paymentId, {
+                    await entitlementStore.grant({
                         paymentId,
                         resourceUrl: params.resourceUrl,
                         userAddress: data.from_address,
-                        timestamp: Date.now(),
+                        policy: params.entitlement,
+                        grantedAt: data.timestamp ? new Date(data.timestamp).getTime() : undefined,
                     });
 
-                    req.isEntitled = true;
-                    req.paymentId = paymentId;
-                    req.userAddress = data.from_address;
-                    logger.info('Entitlement verified (database)', { paymentId });
-                    return next();
+                    const result = await entitlementStore.consume(paymentId, params.resourceUrl);
+                    if (result.ok) {
+                        req.isEntitled = true;
+                        req.paymentId = paymentId;
+                        req.userAddress = data.from_address;
+                        logger.info('Entitlement verified (database)', { paymentId });
+                        return next();
+                    }
+                    entitlementFailure = result.reason;
                 }
             } catch (error) {
                 logger.error('Error checking entitlement', error as Error);
@@ -288,7 +439,25 @@ export function requirePayment(params: {
             resourceUrl: params.resourceUrl,
         });
 
-        logger.info('Issuing 402 challenge', { paymentId: newPaymentId });
+        // Settlement grants the entitlement with this route's quota, for this payment only
+        try {
+            await entitlementStore.offer({
+                paymentId: newPaymentId,
+                resourceUrl: params.resourceUrl,
+                policy: params.entitlement,
+                payment: {
+                    payTo: paymentRequirements.payTo,
+                    asset: String(paymentRequirements.asset),
+                    maxAmountRequired: paymentRequirements.maxAmountRequired,
+                },
+            });
+        } catch (error) {
+            // Without an offer the challenge could not be settled
+            logger.error('Failed to record entitlement offer', error as Error, { paymentId: newPaymentId });
+            return res.status(503).json({ error: 'Payment challenge unavailable, retry shortly' });
+        }
+
+        logger.info('Issuing 402 challenge', { paymentId: newPaymentId, entitlementFailure });
 
         // Return 402 Payment Required with x402 challenge
         res.status(402).json({
@@ -297,6 +466,7 @@ export function requirePayment(params: {
             paymentRequirements,
             message: `Payment of ${params.amount} base units required to access this resource`,
             network: facilitatorService.getNetwork(),
+            ...(entitlementFailure && { entitlementError: entitlementFailure }),
         });
     };
 }
@@ -326,6 +496,17 @@ export async function handlePaymentSettlement(req: Request, res: Response) {
         logger.info('Processing payment settlement', { paymentId });
         logger.debug('Payment requirements', { paymentRequirements });
 
+        // Only settle the payment the challenge asked for
+        const offer = await entitlementStore.getOffer(paymentId);
+        const offerMismatch = checkOffer(offer, paymentRequirements);
+        if (offerMismatch || !offer) {
+            logger.warn('Settlement does not match the payment challenge', { paymentId, reason: offerMismatch });
+            return res.status(402).json({
+                error: 'Payment requirements do not match the payment challenge',
+                code: offerMismatch,
+            });
+        }
+
         // Build proper PaymentRequirements for Facilitator SDK
         const facilitatorRequirements = {
             scheme: 'exact',
@@ -342,7 +523,7 @@ export async function handlePaymentSettlement(req: Request, res: Response) {
         logger.debug('Built facilitator requirements', { facilitatorRequirements });
 
         // Build VerifyRequest using Facilitator SDK
-        const verifyRequest = facilitatorService.getFacilitator().buildVerifyRequest(
+        facilitatorService.getFacilitator().buildVerifyRequest(
             paymentHeader,
             facilitatorRequirements
         );
@@ -374,13 +555,17 @@ export async function handlePaymentSettlement(req: Request, res: Response) {
             logger.warn('Could not extract user address from payment header');
         }
 
-        // Store entitlement in cache
-        entitlementCache.set(paymentId, {
-            paymentId,
-            resourceUrl: paymentRequirements.resource || '',
-            userAddress,
-            timestamp: Date.now(),
-        });
+        // Grant entitlement for the paid resource, with the quota the challenge was issued with
+        try {
+            await entitlementStore.grant({
+                paymentId,
+                resourceUrl: offer.resourceUrl,
+                userAddress,
+                policy: offer.policy,
+            });
+        } catch (error) {
+            logger.error('Failed to grant entitlement', error as Error, { paymentId });
+        }
 
         // Store payment in Supabase for persistence and indexing
         try {
@@ -427,6 +612,17 @@ export async function handlePaymentSettlement(req: Request, res: Response) {
             logger.error('Database error', error as Error);
         }
 
+        eventBus.publish('payment.settled', {
+            paymentId,
+            fromAddress: userAddress === '0x0000000000000000000000000000000000000000' ? null : userAddress,
+            toAddress: (paymentRequirements.payTo || '').toLowerCase(),
+            amount: paymentRequirements.maxAmountRequired || '0',
+            txHash: result.txHash || null,
+            resourceUrl: paymentRequirements.resource || null,
+            method: 'eip3009',
+            settledAt: Date.now(),
+        });
+
         res.json({
             success: true,
             paymentId,
@@ -444,38 +640,28 @@ export async function handlePaymentSettlement(req: Request, res: Response) {
 }
 
 /**
- * Extract user address from EIP-3009 payment header
+ * Clear expired entitlements from the store (run periodically)
  */
-function extractUserAddress(paymentHeader: string): string {
+export async function clearExpiredEntitlements() {
     try {
-        // Payment header is ABI-encoded: (from, to, value, validAfter, validBefore, nonce, signature)
-        // The first 32 bytes after the initial offset contain the 'from' address
-        const decoded = paymentHeader.slice(2); // Remove 0x
-        const fromAddress = '0x' + decoded.slice(24, 64); // Extract address (20 bytes, padded to 32)
-        return fromAddress;
+        const cleared = await entitlementStore.purge();
+        if (cleared > 0) {
+            logger.info('Cleared expired entitlements', { count: cleared });
+        }
     } catch (error) {
-        console.error('Failed to extract user address:', error);
-        return '0x0000000000000000000000000000000000000000';
+        logger.error('Failed to clear expired entitlements', error as Error);
     }
 }
 
 /**
- * Clear expired entitlements from cache (run periodically)
+ * Revoke an entitlement so its payment ID can no longer be used
  */
-export function clearExpiredEntitlements(maxAgeMs: number = 24 * 60 * 60 * 1000) {
-    const now = Date.now();
-    let cleared = 0;
-
-    for (const [paymentId, entitlement] of entitlementCache.entries()) {
-        if (now - entitlement.timestamp > maxAgeMs) {
-            entitlementCache.delete(paymentId);
-            cleared++;
-        }
-    }
-
-    if (cleared > 0) {
-        logger.info('Cleared expired entitlements', { count: cleared });
+export async function revokeEntitlement(paymentId: string, reason?: string): Promise<boolean> {
+    const revoked = await entitlementStore.revoke(paymentId, reason);
+    if (revoked) {
+        logger.info('Entitlement revoked', { paymentId, reason });
     }
+    return revoked;
 }
 
 // Clear expired entitlements every hour
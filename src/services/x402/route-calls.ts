@@ -0,0 +1,114 @@
+/**
+ * Route Call Numbers
+ *
+ * Tiered routes are priced by call volume (routes.request_count). A paid
+ * call claims its call number before it is quoted, so concurrent calls
+ * can't all be priced from the same count, and the quote, the payment
+ * check and the recorded charge use that one number. A call whose payment
+ * is refused gives its number back, so unpaid requests (say, with a made-up
+ * X-Payment-Id) never move a route into a cheaper tier.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import logger from '../../lib/logger.js';
+import { quoteRoutePrice, type RoutePricing } from './route-pricing.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RouteCallBackend {
+    /** Increment the route's call count; returns the count including this call */
+    claim(routeId: string): Promise<number>;
+    /** Undo a claim */
+    release(routeId: string): Promise<void>;
+}
+
+export interface RouteCallQuote {
+    /** Route call volume before this call */
+    requestCount: number;
+    /** Price (or hold, for metered routes) in base units */
+    quote: bigint;
+    /** True when the call holds a claimed call number */
+    claimed: boolean;
+}
+
+// ============================================
+// COUNTER
+// ============================================
+
+export class RouteCallCounter {
+    constructor(private backend: RouteCallBackend) { }
+
+    /**
+     * Quote a call. Paid tiered calls claim their call number; others are
+     * quoted from `currentCount` (the route row as read).
+     */
+    async quote(routeId: string, pricing: RoutePricing, currentCount: number, paying: boolean): Promise<RouteCallQuote> {
+        const claimed = paying && pricing.model === 'tiered';
+        const requestCount = claimed ? (await this.backend.claim(routeId)) - 1 : currentCount;
+        return { requestCount, quote: quoteRoutePrice(pricing, requestCount), claimed };
+    }
+
+    /**
+     * Give back the call number of a call whose payment was refused
+     */
+    async refuse(routeId: string, call: RouteCallQuote): Promise<void> {
+        if (!call.claimed) return;
+
+        try {
+            await this.backend.release(routeId);
+            call.claimed = false;
+        } catch (error) {
+            logger.error('Failed to release route call number', error as Error, { routeId });
+        }
+    }
+}
+
+// ============================================
+// BACKENDS
+// ============================================
+
+export class SupabaseRouteCallBackend implements RouteCallBackend {
+    constructor(private supabase: SupabaseClient) { }
+
+    async claim(routeId: string): Promise<number> {
+        const { data, error } = await this.supabase.rpc('claim_route_call', { p_route_id: routeId });
+        if (error || data === null) {
+            throw new Error(`Failed to claim route call: ${error?.message ?? 'route not found'}`);
+        }
+        return Number(data);
+    }
+
+    async release(routeId: string): Promise<void> {
+        const { error } = await this.supabase.rpc('release_route_call', { p_route_id: routeId });
+        if (error) {
+            throw new Error(`Failed to release route call: ${error.message}`);
+        }
+    }
+}
+
+/**
+ * Process-local backend for tests
+ */
+export class InMemoryRouteCallBackend implements RouteCallBackend {
+    private counts = new Map<string, number>();
+
+    setCount(routeId: string, count: number): void {
+        this.counts.set(routeId, count);
+    }
+
+    getCount(routeId: string): number {
+        return this.counts.get(routeId) ?? 0;
+    }
+
+    async claim(routeId: string): Promise<number> {
+        const count = this.getCount(routeId) + 1;
+        this.counts.set(routeId, count);
+        return count;
+    }
+
+    async release(routeId: string): Promise<void> {
+        this.counts.set(routeId, Math.max(this.getCount(routeId) - 1, 0));
+    }
+}
@@ -0,0 +1,453 @@
+/**
+ * Route Pricing
+ *
+ * Pricing models for x402 proxy routes:
+ * - per_request: flat price per call
+ * - per_kb:      price per KB of upstream response body
+ * - per_token:   price per 1K tokens, read from an upstream response
+ *                header or a JSON path in the response body
+ * - tiered:      per-call price that drops as the route's call volume grows
+ *
+ * per_request and tiered prices are known before the call. per_kb and
+ * per_token are metered: the proxy holds maxPriceUsdc against the caller's
+ * session budget and captures the metered amount after upstream responds.
+ * Streamed responses are metered chunk by chunk (StreamMeter) and cut off
+ * when the hold is used up.
+ *
+ * All amounts are computed in USDC base units (6 decimals).
+ */
+
+import { toBaseUnits } from '../session/session-ledger.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PricingModel = 'per_request' | 'per_kb' | 'per_token' | 'tiered';
+
+export interface TokenSource {
+    /** Response header carrying the token count, e.g. x-usage-tokens */
+    header?: string;
+    /** Dot path into the JSON response body, e.g. usage.total_tokens */
+    jsonPath?: string;
+}
+
+export interface PricingTier {
+    /** Inclusive upper bound of route call volume for this tier, null = unbounded */
+    upTo: number | null;
+    priceUsdc: string;
+}
+
+export interface PerRequestPricing {
+    model: 'per_request';
+    priceUsdc: string;
+}
+
+export interface PerKbPricing {
+    model: 'per_kb';
+    pricePerKbUsdc: string;
+    /** Amount held up front; the charge never exceeds it */
+    maxPriceUsdc: string;
+    minPriceUsdc?: string;
+}
+
+export interface PerTokenPricing {
+    model: 'per_token';
+    pricePer1kTokensUsdc: string;
+    tokenSource: TokenSource;
+    /** Amount held up front; the charge never exceeds it */
+    maxPriceUsdc: string;
+    minPriceUsdc?: string;
+}
+
+export interface TieredPricing {
+    model: 'tiered';
+    tiers: PricingTier[];
+}
+
+export type RoutePricing = PerRequestPricing | PerKbPricing | PerTokenPricing | TieredPricing;
+
+export interface RouteUsage {
+    model: PricingModel;
+    /** Metered quantity: requests, bytes or tokens */
+    units: number;
+    unit: 'request' | 'byte' | 'token';
+    /** Final charge in base units */
+    amount: bigint;
+}
+
+export interface UpstreamResult {
+    body: string;
+    headers: Headers;
+}
+
+export class RoutePricingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RoutePricingError';
+    }
+}
+
+const PRICING_MODELS: PricingModel[] = ['per_request', 'per_kb', 'per_token', 'tiered'];
+
+// ============================================
+// PARSING
+// ============================================
+
+function requirePrice(value: unknown, field: string): string {
+    const price = typeof value === 'number' ? value.toString() : value;
+    if (typeof price !== 'string' || !/^\d+(\.\d{1,6})?$/.test(price)) {
+        throw new RoutePricingError(`${field} must be a USDC amount with at most 6 decimals`);
+    }
+    return price;
+}
+
+function optionalPrice(value: unknown, field: string): string | undefined {
+    return value === undefined || value === null ? undefined : requirePrice(value, field);
+}
+
+function priceBounds(raw: Record<string, unknown>): { maxPriceUsdc: string; minPriceUsdc?: string } {
+    const maxPriceUsdc = requirePrice(raw.maxPriceUsdc, 'pricing.maxPriceUsdc');
+    const minPriceUsdc = optionalPrice(raw.minPriceUsdc, 'pricing.minPriceUsdc');
+    if (minPriceUsdc !== undefined && toBaseUnits(minPriceUsdc) > toBaseUnits(maxPriceUsdc)) {
+        throw new RoutePricingError('pricing.minPriceUsdc must not exceed pricing.maxPriceUsdc');
+    }
+    return { maxPriceUsdc, minPriceUsdc };
+}
+
+/**
+ * Validate a pricing definition from the routes API.
+ * Without one, the route is priced per request at `fallbackPriceUsdc`.
+ */
+export function parseRoutePricing(input: unknown, fallbackPriceUsdc = '0.01'): RoutePricing {
+    if (input === undefined || input === null) {
+        return { model: 'per_request', priceUsdc: requirePrice(fallbackPriceUsdc, 'priceUsdc') };
+    }
+    if (typeof input !== 'object') {
+        throw new RoutePricingError('pricing must be an object');
+    }
+
+    const raw = input as Record<string, any>;
+    if (!PRICING_MODELS.includes(raw.model)) {
+        throw new RoutePricingError(`pricing.model must be one of ${PRICING_MODELS.join(', ')}`);
+    }
+
+    switch (raw.model as PricingModel) {
+        case 'per_request':
+            return {
+                model: 'per_request',
+                priceUsdc: requirePrice(raw.priceUsdc ?? fallbackPriceUsdc, 'pricing.priceUsdc'),
+            };
+
+        case 'per_kb':
+            return {
+                model: 'per_kb',
+                pricePerKbUsdc: requirePrice(raw.pricePerKbUsdc, 'pricing.pricePerKbUsdc'),
+                ...priceBounds(raw),
+            };
+
+        case 'per_token': {
+            const source = raw.tokenSource || {};
+            if (!source.header && !source.jsonPath) {
+                throw new RoutePricingError('pricing.tokenSource needs a header or jsonPath');
+            }
+            return {
+                model: 'per_token',
+                pricePer1kTokensUsdc: requirePrice(raw.pricePer1kTokensUsdc, 'pricing.pricePer1kTokensUsdc'),
+                tokenSource: {
+                    header: source.header ? String(source.header).toLowerCase() : undefined,
+                    jsonPath: source.jsonPath ? String(source.jsonPath) : undefined,
+                },
+                ...priceBounds(raw),
+            };
+        }
+
+        case 'tiered': {
+            if (!Array.isArray(raw.tiers) || raw.tiers.length === 0) {
+                throw new RoutePricingError('pricing.tiers must be a non-empty array');
+            }
+            const tiers: PricingTier[] = raw.tiers.map((tier: any, i: number) => {
+                const upTo = tier.upTo ?? null;
+                if (upTo !== null && (!Number.isInteger(upTo) || upTo <= 0)) {
+                    throw new RoutePricingError(`pricing.tiers[${i}].upTo must be a positive integer or null`);
+                }
+                return { upTo, priceUsdc: requirePrice(tier.priceUsdc, `pricing.tiers[${i}].priceUsdc`) };
+            });
+
+            for (let i = 1; i < tiers.length; i++) {
+                const prev = tiers[i - 1].upTo;
+                if (prev === null || (tiers[i].upTo !== null && tiers[i].upTo! <= prev)) {
+                    throw new RoutePricingError('pricing.tiers must be ordered by increasing upTo, with null last');
+                }
+            }
+            return { model: 'tiered', tiers };
+        }
+    }
+}
+
+/**
+ * Pricing for a stored route; routes created before pricing models
+ * existed are priced per request at price_usdc.
+ */
+export function resolveRoutePricing(route: { pricing?: unknown; price_usdc: string | number }): RoutePricing {
+    return parseRoutePricing(route.pricing, String(route.price_usdc));
+}
+
+export function isMeteredPricing(pricing: RoutePricing): pricing is PerKbPricing | PerTokenPricing {
+    return pricing.model === 'per_kb' || pricing.model === 'per_token';
+}
+
+// ============================================
+// PRICING
+// ============================================
+
+function tierPrice(pricing: TieredPricing, callNumber: number): bigint {
+    const tier = pricing.tiers.find(t => t.upTo === null || callNumber <= t.upTo)
+        ?? pricing.tiers[pricing.tiers.length - 1];
+    return toBaseUnits(tier.priceUsdc);
+}
+
+/**
+ * Amount to charge (or hold, for metered routes) before calling upstream.
+ * `requestCount` is the route's call volume so far.
+ */
+export function quoteRoutePrice(pricing: RoutePricing, requestCount: number): bigint {
+    switch (pricing.model) {
+        case 'per_request':
+            return toBaseUnits(pricing.priceUsdc);
+        case 'tiered':
+            return tierPrice(pricing, requestCount + 1);
+        case 'per_kb':
+        case 'per_token':
+            return toBaseUnits(pricing.maxPriceUsdc);
+    }
+}
+
+function readJsonPath(value: unknown, path: string): unknown {
+    const segments = path.replace(/^\$\.?/, '').split('.').filter(Boolean);
+    let current: any = value;
+    for (const segment of segments) {
+        if (current === null || typeof current !== 'object') return undefined;
+        current = current[segment];
+    }
+    return current;
+}
+
+/**
+ * Read the token count reported by upstream, or null if it is missing
+ */
+export function readTokenCount(source: TokenSource, upstream: UpstreamResult): number | null {
+    let raw: unknown;
+    if (source.header) {
+        raw = upstream.headers.get(source.header);
+    }
+    if ((raw === undefined || raw === null) && source.jsonPath) {
+        try {
+            raw = readJsonPath(JSON.parse(upstream.body), source.jsonPath);
+        } catch {
+            raw = undefined;
+        }
+    }
+
+    const count = Number(raw);
+    return raw !== undefined && raw !== null && raw !== '' && Number.isFinite(count) && count >= 0
+        ? Math.ceil(count)
+        : null;
+}
+
+function clamp(amount: bigint, min: string | undefined, max: string | bigint): bigint {
+    const floor = min ? toBaseUnits(min) : 0n;
+    const ceiling = typeof max === 'bigint' ? max : toBaseUnits(max);
+    if (amount < floor) amount = floor;
+    return amount > ceiling ? ceiling : amount;
+}
+
+function kbCharge(pricing: PerKbPricing, bytes: number): bigint {
+    return (BigInt(bytes) * toBaseUnits(pricing.pricePerKbUsdc) + 1023n) / 1024n;
+}
+
+function tokenCharge(pricing: PerTokenPricing, tokens: number | null): bigint {
+    return tokens === null ? 0n : (BigInt(tokens) * toBaseUnits(pricing.pricePer1kTokensUsdc) + 999n) / 1000n;
+}
+
+/**
+ * Final charge for a call once upstream has responded.
+ * Fractions of a base unit round up. Metered charges are clamped to
+ * [minPriceUsdc, maxPriceUsdc]; a per_token route whose upstream reports
+ * no token count is charged its minimum.
+ */
+export function meterRouteUsage(
+    pricing: RoutePricing,
+    upstream: UpstreamResult,
+    requestCount: number
+): RouteUsage {
+    switch (pricing.model) {
+        case 'per_request':
+        case 'tiered':
+            return {
+                model: pricing.model,
+                units: 1,
+                unit: 'request',
+                amount: quoteRoutePrice(pricing, requestCount),
+            };
+
+        case 'per_kb': {
+            const bytes = Buffer.byteLength(upstream.body);
+            return {
+                model: 'per_kb',
+                units: bytes,
+                unit: 'byte',
+                amount: clamp(kbCharge(pricing, bytes), pricing.minPriceUsdc, pricing.maxPriceUsdc),
+            };
+        }
+
+        case 'per_token': {
+            const tokens = readTokenCount(pricing.tokenSource, upstream);
+            return {
+                model: 'per_token',
+                units: tokens ?? 0,
+                unit: 'token',
+                amount: clamp(tokenCharge(pricing, tokens), pricing.minPriceUsdc, pricing.maxPriceUsdc),
+            };
+        }
+    }
+}
+
+// Rough token size used for stream chunks that carry no token count
+const ESTIMATED_BYTES_PER_TOKEN = 4;
+
+function meteredTokens(reported: number | null, estimated: number): number | null {
+    return reported === null && estimated === 0 ? null : (reported ?? 0) + estimated;
+}
+
+/**
+ * Running charge of a streamed call.
+ *
+ * Each chunk is admitted only while the charge including it stays within
+ * `limit` (the session hold); the first chunk that would exceed it is
+ * refused and the stream should end there, so callers never receive data
+ * they haven't paid for. per_token streams read the cumulative token count
+ * from each record (SSE event data or NDJSON line) via tokenSource.jsonPath,
+ * or from the upstream header when it is known up front. Chunks forwarded
+ * since the last reported count are charged an estimate (bytes / 4) until
+ * the next count replaces it, so a stream that never reports one still
+ * pays for what it sent. per_request and tiered streams are prepaid and
+ * never run out.
+ */
+export class StreamMeter {
+    private bytes = 0;
+    private tokens: number | null = null;
+    /** Estimated tokens forwarded since the last reported count */
+    private estimatedTokens = 0;
+    private countFixed = false;
+    private exhausted = false;
+
+    constructor(
+        private pricing: RoutePricing,
+        private limit: bigint,
+        private requestCount: number,
+        headers: Headers = new Headers()
+    ) {
+        if (pricing.model === 'per_token' && pricing.tokenSource.header) {
+            this.tokens = readTokenCount({ header: pricing.tokenSource.header }, { body: '', headers });
+            this.countFixed = this.tokens !== null;
+        }
+    }
+
+    get budgetExhausted(): boolean {
+        return this.exhausted;
+    }
+
+    /**
+     * Count a chunk about to be forwarded; false means stop the stream
+     */
+    admit(text: string, records: string[] = []): boolean {
+        if (this.exhausted) return false;
+
+        const chunkBytes = Buffer.byteLength(text);
+        const bytes = this.bytes + chunkBytes;
+        let tokens = this.tokens;
+        let estimatedTokens = this.estimatedTokens;
+
+        if (this.pricing.model === 'per_token' && !this.countFixed) {
+            let reported = false;
+            if (this.pricing.tokenSource.jsonPath) {
+                const source = { jsonPath: this.pricing.tokenSource.jsonPath };
+                for (const body of records) {
+                    const count = readTokenCount(source, { body, headers: new Headers() });
+                    if (count !== null) {
+                        tokens = Math.max(tokens ?? 0, count);
+                        reported = true;
+                    }
+                }
+            }
+            // A reported count covers everything up to and including this chunk
+            estimatedTokens = reported ? 0 : estimatedTokens + Math.ceil(chunkBytes / ESTIMATED_BYTES_PER_TOKEN);
+        }
+
+        if (this.charge(bytes, meteredTokens(tokens, estimatedTokens)) > this.limit) {
+            this.exhausted = true;
+            return false;
+        }
+
+        this.bytes = bytes;
+        this.tokens = tokens;
+        this.estimatedTokens = estimatedTokens;
+        return true;
+    }
+
+    /** Usage of the admitted chunks */
+    usage(): RouteUsage {
+        switch (this.pricing.model) {
+            case 'per_request':
+            case 'tiered':
+                return meterRouteUsage(this.pricing, { body: '', headers: new Headers() }, this.requestCount);
+            case 'per_kb':
+                return {
+                    model: 'per_kb',
+                    units: this.bytes,
+                    unit: 'byte',
+                    amount: clamp(this.charge(this.bytes, this.tokens), this.pricing.minPriceUsdc, this.limit),
+                };
+            case 'per_token': {
+                const tokens = meteredTokens(this.tokens, this.estimatedTokens);
+                return {
+                    model: 'per_token',
+                    units: tokens ?? 0,
+                    unit: 'token',
+                    amount: clamp(this.charge(this.bytes, tokens), this.pricing.minPriceUsdc, this.limit),
+                };
+            }
+        }
+    }
+
+    private charge(bytes: number, tokens: number | null): bigint {
+        switch (this.pricing.model) {
+            case 'per_kb': return kbCharge(this.pricing, bytes);
+            case 'per_token': return tokenCharge(this.pricing, tokens);
+            default: return 0n;
+        }
+    }
+}
+
+/**
+ * Human-readable pricing, e.g. "$0.002 / KB (max $0.50)" or
+ * "$0.01 up to 1000, $0.005 after calls (per request)"
+ */
+export function describeRoutePricing(pricing: RoutePricing): string {
+    const bounds = (p: PerKbPricing | PerTokenPricing) =>
+        p.minPriceUsdc ? `(min $${p.minPriceUsdc}, max $${p.maxPriceUsdc})` : `(max $${p.maxPriceUsdc})`;
+
+    switch (pricing.model) {
+        case 'per_request':
+            return `$${pricing.priceUsdc} / request`;
+        case 'per_kb':
+            return `$${pricing.pricePerKbUsdc} / KB ${bounds(pricing)}`;
+        case 'per_token':
+            return `$${pricing.pricePer1kTokensUsdc} / 1K tokens ${bounds(pricing)}`;
+        case 'tiered':
+            return pricing.tiers
+                .map(t => t.upTo === null ? `$${t.priceUsdc} after` : `$${t.priceUsdc} up to ${t.upTo}`)
+                .join(', ') + ' calls (per request)';
+    }
+}
@@ -0,0 +1,193 @@
+/**
+ * Route Store
+ *
+ * Persistence for x402 proxy routes (the `routes` table), shared by the
+ * REST route API and GraphQL. A route belongs to the wallet behind the API
+ * key that created it; deleting a route deactivates it. Upstream secret
+ * headers are stored but never formatted back out.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../../lib/supabase.js';
+import logger from '../../lib/logger.js';
+import { fromBaseUnits } from '../session/session-ledger.js';
+import {
+    describeRoutePricing,
+    parseRoutePricing,
+    quoteRoutePrice,
+    resolveRoutePricing,
+    type RoutePricing
+} from './route-pricing.js';
+
+const API_BASE_URL = process.env.API_BASE_URL || 'https://api.relaycore.xyz';
+
+export interface ProxyRouteRow {
+    id: string;
+    user_id: string;
+    name: string;
+    upstream_url: string;
+    method: string;
+    price_usdc: string;
+    pricing: RoutePricing | null;
+    pay_to: string;
+    secret_headers: Record<string, string>;
+    is_active: boolean;
+    request_count: number;
+    revenue: string;
+    created_at: string;
+}
+
+export interface CreateRouteInput {
+    name: string;
+    upstreamUrl: string;
+    method?: string;
+    priceUsdc?: string;
+    pricing?: unknown;
+    payTo?: string;
+    secretHeaders?: Record<string, string>;
+}
+
+export interface ProxyRoute {
+    id: string;
+    name: string;
+    method: string;
+    upstreamUrl: string;
+    priceUsdc: string;
+    pricing: RoutePricing;
+    pricingSummary: string;
+    payTo: string;
+    proxyUrl: string;
+    requestCount: number;
+    revenue: string;
+    isActive: boolean;
+    createdAt: string;
+}
+
+/**
+ * Thrown for route input that can't be stored; pricing problems throw
+ * RoutePricingError instead
+ */
+export class RouteInputError extends Error {
+    readonly code = 'INVALID_ROUTE' as const;
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'RouteInputError';
+    }
+}
+
+export function formatProxyRoute(row: ProxyRouteRow): ProxyRoute {
+    const pricing = resolveRoutePricing(row);
+    return {
+        id: row.id,
+        name: row.name,
+        method: row.method,
+        upstreamUrl: row.upstream_url,
+        priceUsdc: row.price_usdc,
+        pricing,
+        pricingSummary: describeRoutePricing(pricing),
+        payTo: row.pay_to,
+        proxyUrl: `${API_BASE_URL}/proxy/${row.id}`,
+        requestCount: row.request_count || 0,
+        revenue: row.revenue || '0',
+        isActive: row.is_active,
+        createdAt: row.created_at
+    };
+}
+
+export class RouteStore {
+    async create(userId: string, input: CreateRouteInput): Promise<ProxyRoute> {
+        if (!input.name || !input.upstreamUrl) {
+            throw new RouteInputError('Name and upstream URL are required');
+        }
+
+        try {
+            new URL(input.upstreamUrl);
+        } catch {
+            throw new RouteInputError('Invalid upstream URL');
+        }
+
+        const pricing = parseRoutePricing(input.pricing, input.priceUsdc || '0.01');
+
+        const { data, error } = await supabase
+            .from('routes')
+            .insert({
+                id: uuidv4(),
+                user_id: userId,
+                name: input.name,
+                upstream_url: input.upstreamUrl,
+                method: (input.method || 'GET').toUpperCase(),
+                // Flat price for per-request routes, first tier or cap otherwise
+                price_usdc: fromBaseUnits(quoteRoutePrice(pricing, 0)),
+                pricing,
+                pay_to: input.payTo || userId,
+                secret_headers: input.secretHeaders || {},
+                is_active: true,
+                request_count: 0,
+                revenue: '0'
+            })
+            .select()
+            .single();
+
+        if (error) {
+            logger.error('Failed to create route', error);
+            throw new Error('Failed to create route');
+        }
+
+        logger.info('Route created', { routeId: data.id, userId, name: input.name });
+        return formatProxyRoute(data as ProxyRouteRow);
+    }
+
+    /**
+     * Active routes of a user, newest first
+     */
+    async listForUser(userId: string): Promise<ProxyRoute[]> {
+        const { data, error } = await supabase
+            .from('routes')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('is_active', true)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            logger.error('Failed to fetch routes', error);
+            throw new Error('Failed to fetch routes');
+        }
+
+        return ((data || []) as ProxyRouteRow[]).map(formatProxyRoute);
+    }
+
+    async getForUser(userId: string, routeId: string): Promise<ProxyRoute | null> {
+        const { data, error } = await supabase
+            .from('routes')
+            .select('*')
+            .eq('id', routeId)
+            .eq('user_id', userId)
+            .eq('is_active', true)
+            .maybeSingle();
+
+        if (error) {
+            logger.error('Failed to fetch route', error, { routeId });
+            throw new Error('Failed to fetch route');
+        }
+
+        return data ? formatProxyRoute(data as ProxyRouteRow) : null;
+    }
+
+    async deactivate(userId: string, routeId: string): Promise<void> {
+        const { error } = await supabase
+            .from('routes')
+            .update({ is_active: false })
+            .eq('id', routeId)
+            .eq('user_id', userId);
+
+        if (error) {
+            logger.error('Failed to delete route', error);
+            throw new Error('Failed to delete route');
+        }
+
+        logger.info('Route deleted', { routeId, userId });
+    }
+}
+
+export const routeStore = new RouteStore();
@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+    runBackfill,
+    BackfillError,
+    BACKFILL_TARGETS,
+    type BackfillEnvironment,
+    type BackfillTarget
+} from '@/services/indexer/backfill';
+import { escrowSessionIndexer, ESCROW_AGENT_EVENT_TYPES } from '@/services/indexer/crons/escrow.cron';
+
+type Range = [number, number];
+
+/**
+ * Single-phase indexer that records the chunks it is given and indexes
+ * one event per block
+ */
+function recordingTarget(confirmations = 0, index?: (from: number, to: number) => Promise<void>) {
+    const chunks: Range[] = [];
+    const target: BackfillTarget = {
+        confirmations,
+        phases: [{
+            index: async (from, to) => {
+                chunks.push([from, to]);
+                await index?.(from, to);
+                return { indexed: to - from + 1, failed: 0 };
+            }
+        }]
+    };
+    return { target, chunks };
+}
+
+function environment(targets: Record<string, BackfillTarget>, head = 1_000_000): BackfillEnvironment {
+    return { targets, getCurrentBlockNumber: async () => head };
+}
+
+describe('Indexer Backfill', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('should split the range into chunks and count what they indexed', async () => {
+        const { target, chunks } = recordingTarget();
+        const progress: number[] = [];
+
+        const job = await runBackfill(
+            { indexer: 'usdc', fromBlock: 0, toBlock: 2499, chunkSize: 1000, concurrency: 2 },
+            (j, name) => progress.push(j.progress[name].chunksDone),
+            environment({ usdc: target })
+        );
+
+        expect(chunks.sort((a, b) => a[0] - b[0])).toEqual([[0, 999], [1000, 1999], [2000, 2499]]);
+        expect(progress).toEqual([1, 2, 3]);
+        expect(job).toMatchObject({ status: 'completed', toBlock: 2499, error: null });
+        expect(job.progress.usdc).toMatchObject({ chunksTotal: 3, chunksDone: 3, indexed: 2500, failed: 0 });
+    });
+
+    it('should index escrow sessions, then their events, then agent events chunk by chunk in log order', async () => {
+        const calls: Array<{ phase: string; range: Range }> = [];
+        vi.spyOn(escrowSessionIndexer, 'indexRange').mockImplementation(async (from, to, eventTypes) => {
+            const sessions = eventTypes!.includes('SessionCreated');
+            if (sessions) expect(eventTypes).toEqual(['SessionCreated']);
+            expect(eventTypes!.some(type => ESCROW_AGENT_EVENT_TYPES.includes(type))).toBe(false);
+            calls.push({ phase: sessions ? 'sessions' : 'events', range: [from, to] });
+            return { indexed: 1, failed: 0 };
+        });
+        let agentWorkers = 0;
+        vi.spyOn(escrowSessionIndexer, 'indexRangeInLogOrder').mockImplementation(async (from, to, eventTypes) => {
+            expect(eventTypes).toEqual(ESCROW_AGENT_EVENT_TYPES);
+            expect(++agentWorkers).toBe(1);
+            await new Promise(resolve => setTimeout(resolve, 1));
+            agentWorkers--;
+            calls.push({ phase: 'agents', range: [from, to] });
+            return { indexed: 1, failed: 0 };
+        });
+
+        const job = await runBackfill(
+            { indexer: 'escrow', fromBlock: 0, toBlock: 2999, chunkSize: 1000, concurrency: 4 },
+            undefined,
+            environment({ escrow: BACKFILL_TARGETS.escrow })
+        );
+
+        expect(calls.map(c => c.phase)).toEqual([
+            'sessions', 'sessions', 'sessions',
+            'events', 'events', 'events',
+            'agents', 'agents', 'agents',
+        ]);
+        expect(calls.filter(c => c.phase === 'agents').map(c => c.range)).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+        expect(job.progress.escrow).toMatchObject({ chunksTotal: 9, chunksDone: 9, indexed: 9 });
+    });
+
+    it('should retry failing chunks and report the ones that never succeed', async () => {
+        vi.useFakeTimers();
+        const attempts = new Map<number, number>();
+        const { target } = recordingTarget(0, async (from) => {
+            const attempt = (attempts.get(from) ?? 0) + 1;
+            attempts.set(from, attempt);
+            if (from === 1000) throw new Error('rpc timeout');
+            if (from === 0 && attempt === 1) throw new Error('connection reset');
+        });
+
+        const running = runBackfill(
+            { indexer: 'usdc', fromBlock: 0, toBlock: 2999, chunkSize: 1000, concurrency: 3 },
+            undefined,
+            environment({ usdc: target })
+        );
+        await vi.runAllTimersAsync();
+        const job = await running;
+
+        expect(Object.fromEntries(attempts)).toEqual({ 0: 2, 1000: 3, 2000: 1 });
+        expect(job).toMatchObject({ status: 'failed', error: '1 chunk(s) failed' });
+        expect(job.progress.usdc).toMatchObject({
+            chunksDone: 3,
+            indexed: 2000,
+            failedChunks: [{ fromBlock: 1000, toBlock: 1999, error: 'rpc timeout' }],
+        });
+    });
+
+    it('should only backfill blocks every selected indexer has confirmed', async () => {
+        const shallow = recordingTarget(0);
+        const deep = recordingTarget(6);
+        const env = environment({ agent: shallow.target, escrow: deep.target }, 1000);
+
+        const job = await runBackfill({ indexer: 'all', fromBlock: 0, toBlock: 5000, chunkSize: 1000 }, undefined, env);
+        expect(job.toBlock).toBe(994);
+        expect(shallow.chunks).toEqual([[0, 994]]);
+
+        expect((await runBackfill({ indexer: 'agent', fromBlock: 0, toBlock: 5000 }, undefined, env)).toBlock).toBe(1000);
+
+        await expect(runBackfill({ indexer: 'escrow', fromBlock: 995, toBlock: 5000 }, undefined, env))
+            .rejects.toThrow('Range is not confirmed yet (confirmed head is 994)');
+    });
+
+    it('should reject unknown indexers and inverted ranges', async () => {
+        const env = environment({ usdc: recordingTarget().target });
+
+        await expect(runBackfill({ indexer: 'nope', fromBlock: 0, toBlock: 1 }, undefined, env))
+            .rejects.toBeInstanceOf(BackfillError);
+        await expect(runBackfill({ indexer: 'usdc-transfer', fromBlock: 5, toBlock: 1 }, undefined, env))
+            .rejects.toThrow('fromBlock must not be greater than toBlock');
+    });
+});
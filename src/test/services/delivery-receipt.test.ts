@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+    decodeReceipt,
+    encodeReceipt,
+    hashPayload,
+    signDeliveryReceipt,
+    verifyDeliveryReceipt,
+} from '@/sdk/lib/delivery-receipt';
+
+const provider = new ethers.Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const request = { pair: 'BTC/USD' };
+const response = { price: 100, source: { venue: 'cex', at: 1 } };
+
+function sign(overrides: { response?: unknown; paymentId?: string } = {}) {
+    return signDeliveryReceipt(provider, {
+        paymentId: overrides.paymentId ?? 'pay_1',
+        request,
+        response: overrides.response ?? response,
+        latencyMs: 42.4,
+        chainId: 338,
+        timestamp: 1760000000000,
+    });
+}
+
+describe('Delivery Receipts', () => {
+    it('should hash payloads independently of key order', () => {
+        expect(hashPayload({ a: 1, b: { c: [1, 2], d: 'x' } })).toBe(hashPayload({ b: { d: 'x', c: [1, 2] }, a: 1 }));
+        expect(hashPayload(undefined)).toBe(hashPayload(null));
+        expect(hashPayload({ a: 1 })).not.toBe(hashPayload({ a: 2 }));
+    });
+
+    it('should verify a receipt from the expected provider for the same call', async () => {
+        const receipt = await sign();
+
+        expect(receipt.latencyMs).toBe(42);
+        expect(receipt.provider).toBe(provider.address.toLowerCase());
+        expect(verifyDeliveryReceipt(receipt, {
+            provider: provider.address,
+            paymentId: 'pay_1',
+            request: { pair: 'BTC/USD' },
+            response: JSON.parse(JSON.stringify(response)),
+        })).toEqual({ valid: true, signer: provider.address.toLowerCase() });
+
+        expect(decodeReceipt(encodeReceipt(receipt))).toEqual(receipt);
+        expect(decodeReceipt('not a receipt')).toBeNull();
+    });
+
+    it('should reject receipts for another payee, payment or body', async () => {
+        const receipt = await sign();
+
+        expect(verifyDeliveryReceipt(receipt, { provider: '0x2222222222222222222222222222222222222222' }).reason)
+            .toContain('expected');
+        expect(verifyDeliveryReceipt(receipt, { paymentId: 'pay_2' }).valid).toBe(false);
+        expect(verifyDeliveryReceipt(receipt, { response: { price: 101 } }).reason).toBe('Receipt does not match the response');
+
+        // Any change to a signed field breaks the signature
+        const tampered = { ...receipt, latencyMs: 1 };
+        expect(verifyDeliveryReceipt(tampered).reason).toBe('Receipt was not signed by its provider');
+        expect(verifyDeliveryReceipt({ ...receipt, signature: '0x1234' }).reason).toBe('Invalid receipt signature');
+    });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+    InMemoryEntitlementStore,
+    SqliteEntitlementStore,
+    checkEntitlement,
+    checkOffer,
+    createEntitlementStore,
+    isSqliteSupported,
+    type EntitlementStore,
+} from '@/services/x402/entitlement-store';
+
+const resource = 'https://api.relaycore.xyz/api/perpai/quote';
+const payment = {
+    payTo: '0x1111111111111111111111111111111111111111',
+    asset: '0xc01efAaF7C5C61bEbFAeb358E1161b537b8bC0e0',
+    maxAmountRequired: '10000',
+};
+
+const stores: Array<[string, () => EntitlementStore, boolean]> = [
+    ['InMemoryEntitlementStore', () => new InMemoryEntitlementStore(), true],
+    ['SqliteEntitlementStore', () => new SqliteEntitlementStore(':memory:'), isSqliteSupported()],
+];
+
+describe.each(stores)('%s', (_name, createStore, supported) => {
+    describe.skipIf(!supported)('entitlements', () => {
+        it('should grant idempotently and keep usage counters', async () => {
+            const store = createStore();
+            await store.grant({ paymentId: 'pay_1', resourceUrl: resource, userAddress: '0xABC', policy: { maxUses: 3 } });
+            await store.consume('pay_1', resource);
+
+            const regranted = await store.grant({ paymentId: 'pay_1', resourceUrl: resource, userAddress: '0xabc' });
+            expect(regranted).toMatchObject({ userAddress: '0xabc', maxUses: 3, useCount: 1 });
+        });
+
+        it('should consume up to maxUses for the paid resource only', async () => {
+            const store = createStore();
+            await store.grant({ paymentId: 'pay_1', resourceUrl: resource, userAddress: '0xabc', policy: { maxUses: 2 } });
+
+            expect(await store.consume('pay_1', `${resource}/other`)).toEqual({ ok: false, reason: 'resource_mismatch' });
+            expect((await store.consume('pay_1', resource)).ok).toBe(true);
+            expect((await store.consume('pay_1', resource)).ok).toBe(true);
+            expect(await store.consume('pay_1', resource)).toEqual({ ok: false, reason: 'exhausted' });
+            expect(await store.consume('pay_2', resource)).toEqual({ ok: false, reason: 'not_found' });
+        });
+
+        it('should refuse revoked and expired entitlements and purge expired ones', async () => {
+            const store = createStore();
+            await store.grant({ paymentId: 'pay_1', resourceUrl: resource, userAddress: '0xabc', policy: { maxUses: null } });
+            await store.grant({
+                paymentId: 'pay_2',
+                resourceUrl: resource,
+                userAddress: '0xabc',
+                policy: { ttlMs: 1000 },
+                grantedAt: Date.now() - 2000,
+            });
+
+            expect(await store.revoke('pay_1', 'refunded')).toBe(true);
+            expect(await store.revoke('pay_1')).toBe(false);
+            expect(await store.consume('pay_1', resource)).toEqual({ ok: false, reason: 'revoked' });
+            expect(await store.consume('pay_2', resource)).toEqual({ ok: false, reason: 'expired' });
+
+            expect(await store.purge()).toBe(1);
+            expect(await store.get('pay_2')).toBeNull();
+        });
+
+        it('should keep the policy a challenge was offered with', async () => {
+            const store = createStore();
+            await store.offer({ paymentId: 'pay_1', resourceUrl: resource, policy: { maxUses: 5, ttlMs: null }, payment });
+
+            expect(await store.getOffer('pay_1')).toMatchObject({
+                paymentId: 'pay_1',
+                resourceUrl: resource,
+                policy: { maxUses: 5, ttlMs: null },
+                payment,
+            });
+            expect(await store.getOffer('pay_2')).toBeNull();
+        });
+    });
+});
+
+describe('Entitlement Store', () => {
+    it('should explain why an entitlement cannot be used', () => {
+        const entitlement = {
+            paymentId: 'pay_1',
+            resourceUrl: resource,
+            userAddress: '0xabc',
+            maxUses: 1,
+            useCount: 0,
+            createdAt: 0,
+            expiresAt: 1000,
+            lastUsedAt: null,
+            revokedAt: null,
+            revokeReason: null,
+        };
+
+        expect(checkEntitlement(entitlement, resource, 500)).toBeNull();
+        expect(checkEntitlement(entitlement, resource, 1000)).toBe('expired');
+        expect(checkEntitlement({ ...entitlement, useCount: 1 }, resource, 500)).toBe('exhausted');
+        expect(checkEntitlement(null, resource)).toBe('not_found');
+    });
+
+    it('should only accept settlements of the offered payment', () => {
+        const offer = {
+            paymentId: 'pay_1',
+            resourceUrl: resource,
+            policy: { maxUses: 1, ttlMs: null },
+            payment,
+            createdAt: 0,
+        };
+        const settled = { ...payment, resource };
+
+        expect(checkOffer(offer, settled)).toBeNull();
+        expect(checkOffer(offer, { ...settled, payTo: payment.payTo.toUpperCase().replace('0X', '0x') })).toBeNull();
+        expect(checkOffer(offer, { ...settled, resource: `${resource}/other` })).toBe('resource_mismatch');
+        expect(checkOffer(offer, { ...settled, payTo: '0x2222222222222222222222222222222222222222' })).toBe('pay_to_mismatch');
+        expect(checkOffer(offer, { ...settled, asset: undefined })).toBe('asset_mismatch');
+        expect(checkOffer(offer, { ...settled, maxAmountRequired: '1' })).toBe('amount_mismatch');
+        expect(checkOffer(offer, { ...settled, maxAmountRequired: '0.01' })).toBe('amount_mismatch');
+        expect(checkOffer({ ...offer, payment: null }, settled)).toBe('not_offered');
+        expect(checkOffer(null, settled)).toBe('not_offered');
+    });
+
+    it('should detect node:sqlite support from the Node version', () => {
+        expect(isSqliteSupported('20.19.5')).toBe(false);
+        expect(isSqliteSupported('22.4.0')).toBe(false);
+        expect(isSqliteSupported('22.5.0')).toBe(true);
+        expect(isSqliteSupported('24.1.0')).toBe(true);
+    });
+
+    it.skipIf(isSqliteSupported())('should fail sqlite calls cleanly where node:sqlite is missing', async () => {
+        // Constructing the store must not open the database
+        const store = new SqliteEntitlementStore(':memory:');
+
+        await expect(store.get('pay_1')).rejects.toThrow('node:sqlite requires Node >= 22.5');
+        await expect(store.get('pay_1')).rejects.toThrow('Failed to open SQLite entitlement store');
+        expect(createEntitlementStore('sqlite')).not.toBeInstanceOf(SqliteEntitlementStore);
+    });
+});
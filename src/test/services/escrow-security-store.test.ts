@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryEscrowSecurityStore } from '@/services/escrow/security-store';
+
+const AGENT = '0xAbCdEf0000000000000000000000000000000001';
+
+describe('Escrow Security Store', () => {
+    let store: InMemoryEscrowSecurityStore;
+
+    beforeEach(() => {
+        store = new InMemoryEscrowSecurityStore();
+    });
+
+    it('should reject a second claim of the same execution ID', async () => {
+        const nonce = { executionId: 'exec_1', sessionId: 7, agentAddress: AGENT, expiresAt: Date.now() + 60_000 };
+
+        const claims = await Promise.all([store.claimNonce(nonce), store.claimNonce(nonce)]);
+
+        expect(claims.filter(Boolean)).toHaveLength(1);
+        expect(await store.listNonces({ sessionId: 7 })).toHaveLength(1);
+    });
+
+    it('should allow an execution ID again once released', async () => {
+        const nonce = { executionId: 'exec_2', sessionId: 7, agentAddress: AGENT, expiresAt: Date.now() + 60_000 };
+
+        await store.claimNonce(nonce);
+        await store.releaseNonce('exec_2');
+
+        expect(await store.claimNonce(nonce)).toBe(true);
+    });
+
+    it('should stop counting calls at the rate limit', async () => {
+        const results = [];
+        for (let i = 0; i < 5; i++) {
+            results.push(await store.hitRateLimit(1, 3, 60_000));
+        }
+
+        expect(results).toEqual([true, true, true, false, false]);
+        expect(await store.hitRateLimit(2, 3, 60_000)).toBe(true);
+    });
+
+    it('should keep session overrides separate from global settings', async () => {
+        await store.updateSettings({ paused: false, maxPerCall: '50' });
+        await store.updateSessionConfig(7, { paused: true });
+        await store.updateSessionConfig(7, { rateLimit: 10 });
+
+        expect((await store.getSettings()).maxPerCall).toBe('50');
+        expect(await store.getSessionConfig(7)).toMatchObject({ paused: true, rateLimit: 10, maxPerCall: null });
+    });
+
+    it('should match blacklisted agents case-insensitively', async () => {
+        await store.addToBlacklist(AGENT, 'drained a session', 'ops');
+
+        expect(await store.isBlacklisted(AGENT.toLowerCase())).toBe(true);
+        expect(await store.removeFromBlacklist(AGENT.toUpperCase().replace('0X', '0x'))).toBe(true);
+        expect(await store.isBlacklisted(AGENT)).toBe(false);
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { EventBus, type TaskStateChangedEvent } from '@/lib/event-bus';
+
+function taskEvent(agentId: string, state: string): TaskStateChangedEvent {
+    return {
+        taskId: `task_${state}`,
+        agentId,
+        serviceId: null,
+        sessionId: null,
+        state,
+        paymentId: null,
+        changedAt: 0,
+    };
+}
+
+describe('Event Bus', () => {
+    it('should queue matching events until they are pulled', async () => {
+        const bus = new EventBus();
+        const events = bus.subscribe('task.stateChanged', e => e.agentId === 'agent-1');
+
+        bus.publish('task.stateChanged', taskEvent('agent-1', 'pending'));
+        bus.publish('task.stateChanged', taskEvent('agent-2', 'pending'));
+        bus.publish('task.stateChanged', taskEvent('agent-1', 'settled'));
+
+        expect((await events.next()).value.state).toBe('pending');
+        expect((await events.next()).value.state).toBe('settled');
+    });
+
+    it('should unsubscribe on return, ending a pending next', async () => {
+        const bus = new EventBus();
+        const events = bus.subscribe('task.stateChanged');
+        const pending = events.next();
+
+        expect(bus.listenerCount('task.stateChanged')).toBe(1);
+        await events.return!();
+
+        expect(await pending).toEqual({ value: undefined, done: true });
+        expect(bus.listenerCount('task.stateChanged')).toBe(0);
+    });
+
+    it('should keep publishing when a listener throws', () => {
+        const bus = new EventBus();
+        const received: string[] = [];
+
+        bus.on('task.stateChanged', () => { throw new Error('boom'); });
+        bus.on('task.stateChanged', e => received.push(e.state));
+
+        expect(() => bus.publish('task.stateChanged', taskEvent('agent-1', 'failed'))).not.toThrow();
+        expect(received).toEqual(['failed']);
+    });
+});
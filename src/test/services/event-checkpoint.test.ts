@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ethers } from 'ethers';
+import {
+    processEventBatch,
+    replayEvent,
+    IndexerReplayError,
+    InMemoryDeadLetterStore,
+    type CheckpointedEventSource
+} from '@/services/indexer/event-checkpoint';
+
+const CHAIN_ID = 338;
+
+function log(blockNumber: number, index = 0): ethers.Log {
+    return {
+        blockNumber,
+        index,
+        transactionHash: `0xtx${blockNumber}`,
+        topics: ['0xtopic'],
+        data: '0x',
+    } as unknown as ethers.Log;
+}
+
+const key = (event: ethers.Log) => ({ chainId: CHAIN_ID, txHash: event.transactionHash, logIndex: event.index });
+
+describe('Event Checkpointing', () => {
+    let deadLetters: InMemoryDeadLetterStore;
+    let events: ethers.Log[];
+    let failing: Set<number>;
+    let handled: number[];
+
+    function source(maxAttempts = 3): CheckpointedEventSource<ethers.Log> {
+        return {
+            indexerName: 'usdc_transfer',
+            eventType: 'Transfer',
+            chainId: CHAIN_ID,
+            maxAttempts,
+            fetch: async (fromBlock, toBlock) => events.filter(e => e.blockNumber >= fromBlock && e.blockNumber <= toBlock),
+            handle: async (event) => {
+                if (failing.has(event.blockNumber)) throw new Error(`decode failed at ${event.blockNumber}`);
+                handled.push(event.blockNumber);
+            },
+        };
+    }
+
+    beforeEach(() => {
+        deadLetters = new InMemoryDeadLetterStore();
+        // Fetched out of order; handled in log order
+        events = [log(14), log(10, 1), log(12), log(10, 0)];
+        failing = new Set([12]);
+        handled = [];
+    });
+
+    it('should hold the cursor below a failing event so the next run retries it', async () => {
+        const result = await processEventBatch(source(), 1, 20, deadLetters);
+
+        expect(result).toEqual({ cursor: 11, processed: 2, retrying: 1, deadLettered: 0 });
+        expect(handled).toEqual([10, 10]);
+        expect(deadLetters.get(key(log(12)))).toMatchObject({
+            status: 'retrying',
+            attempts: 1,
+            blockNumber: 12,
+            lastError: 'decode failed at 12',
+            payload: { topics: ['0xtopic'], data: '0x' },
+        });
+    });
+
+    it('should dead-letter an event after its last attempt and move past it', async () => {
+        expect((await processEventBatch(source(), 11, 20, deadLetters)).cursor).toBe(11);
+        expect((await processEventBatch(source(), 12, 20, deadLetters)).cursor).toBe(11);
+
+        const result = await processEventBatch(source(), 12, 20, deadLetters);
+
+        expect(result).toEqual({ cursor: 20, processed: 1, retrying: 0, deadLettered: 1 });
+        expect(handled).toEqual([14]);
+        expect(deadLetters.get(key(log(12)))).toMatchObject({ status: 'dead', attempts: 3 });
+    });
+
+    it('should never hold the cursor with a single attempt', async () => {
+        const result = await processEventBatch(source(1), 1, 20, deadLetters);
+
+        expect(result).toEqual({ cursor: 20, processed: 3, retrying: 0, deadLettered: 1 });
+    });
+
+    it('should resolve the dead letter of an event that succeeds on a later run', async () => {
+        await processEventBatch(source(), 12, 20, deadLetters);
+        failing.clear();
+
+        await processEventBatch(source(), 12, 20, deadLetters);
+
+        expect(deadLetters.get(key(log(12)))).toMatchObject({ status: 'resolved' });
+        expect(await deadLetters.getOpenDeadLetterKeys('usdc_transfer', 'Transfer')).toEqual(new Set());
+    });
+
+    it('should mark a dead letter replayed once its handler succeeds', async () => {
+        await processEventBatch(source(1), 12, 20, deadLetters);
+        const deadLetter = deadLetters.get(key(log(12)))!;
+
+        const error = await replayEvent(deadLetter, log(12), source().handle, deadLetters).catch(e => e);
+        expect(error).toBeInstanceOf(IndexerReplayError);
+        expect(error.code).toBe('HANDLER_FAILED');
+        expect(deadLetters.get(key(log(12)))).toMatchObject({ status: 'dead', attempts: 2 });
+
+        failing.clear();
+        await replayEvent(deadLetter, log(12), source().handle, deadLetters);
+
+        expect(handled).toContain(12);
+        expect(deadLetters.get(key(log(12)))).toMatchObject({ status: 'replayed' });
+        expect(deadLetters.get(key(log(12)))?.resolvedAt).not.toBeNull();
+    });
+
+    it('should refuse to replay an event that is no longer on chain', async () => {
+        await processEventBatch(source(1), 12, 20, deadLetters);
+
+        const error = await replayEvent(deadLetters.get(key(log(12)))!, null, source().handle, deadLetters).catch(e => e);
+
+        expect(error).toMatchObject({ code: 'EVENT_NOT_FOUND' });
+    });
+});
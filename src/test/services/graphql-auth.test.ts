@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { requireOwner, requirePermission, type GraphQLContext } from '@/api/graphql/auth';
+import type { GraphQLLoaders } from '@/api/graphql/loaders';
+import { DEFAULT_PERMISSIONS } from '@/middleware/api-auth';
+
+function context(overrides: Partial<GraphQLContext> = {}): GraphQLContext {
+    return {
+        apiKey: 'rc_test',
+        authenticated: true,
+        userId: '0xAbC',
+        permissions: DEFAULT_PERMISSIONS,
+        tier: 'free',
+        ip: '127.0.0.1',
+        loaders: {} as GraphQLLoaders,
+        ...overrides,
+    };
+}
+
+describe('GraphQL Auth', () => {
+    it('should reject requests without a valid API key', () => {
+        expect(() => requirePermission(context({ authenticated: false }), 'read_payments'))
+            .toThrow('API key required');
+    });
+
+    it('should check the key permission, letting admin keys through', () => {
+        expect(requirePermission(context(), 'read_payments')).toBe('0xAbC');
+        expect(() => requirePermission(context(), 'execute_payments')).toThrow('Permission denied: execute_payments');
+
+        const admin = context({ permissions: { ...DEFAULT_PERMISSIONS, admin: true } });
+        expect(requirePermission(admin, 'execute_payments')).toBe('0xAbC');
+    });
+
+    it('should match owners case-insensitively', () => {
+        expect(() => requireOwner(context(), '0xabc')).not.toThrow();
+        expect(() => requireOwner(context(), '0xdef')).toThrow('Only the owner');
+        expect(() => requireOwner(context(), null)).toThrow('Only the owner');
+    });
+});
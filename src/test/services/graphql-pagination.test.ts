@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { decodeCursor, encodeCursor, keysetFilter, pageSize } from '@/api/graphql/pagination';
+
+describe('GraphQL Pagination', () => {
+    it('should round-trip cursors and reject ones from another ordering', () => {
+        const cursor = encodeCursor('timestamp', '2026-01-01T12:00:00+00:00', 'abc');
+
+        expect(decodeCursor(cursor, 'timestamp')).toEqual({ value: '2026-01-01T12:00:00+00:00', id: 'abc' });
+        expect(() => decodeCursor(cursor, 'amount_value')).toThrow('different orderBy');
+        expect(() => decodeCursor('not-a-cursor', 'timestamp')).toThrow('Invalid cursor');
+    });
+
+    it('should select rows past the cursor, breaking ties on id', () => {
+        expect(keysetFilter('amount_value', 'id', false, { value: 500, id: 'p1' }))
+            .toBe('amount_value.lt."500",and(amount_value.eq."500",id.lt."p1")');
+        expect(keysetFilter('name', 'id', true, { value: 'a "b"', id: 'p1' }))
+            .toBe('name.gt."a \\"b\\"",and(name.eq."a \\"b\\"",id.gt."p1")');
+    });
+
+    it('should clamp page sizes and detect backward paging', () => {
+        expect(pageSize({})).toEqual({ size: 100, backward: false });
+        expect(pageSize({ first: 5000 })).toEqual({ size: 1000, backward: false });
+        expect(pageSize({ last: 10, before: 'x' })).toEqual({ size: 10, backward: true });
+        expect(() => pageSize({ first: 1, last: 1 })).toThrow();
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { buildSchema, parse } from 'graphql';
+import typeDefs from '@/api/graphql/schema';
+import { enforceQueryCost, queryComplexity, queryDepth, queryTier } from '@/api/graphql/query-cost';
+import { DEFAULT_PERMISSIONS } from '@/middleware/api-auth';
+
+const schema = buildSchema(typeDefs);
+
+describe('GraphQL Query Cost', () => {
+    it('should measure depth through fragments, ignoring introspection', () => {
+        const document = parse(`
+            query {
+                sessions { edges { node { ...SessionFields } } }
+                __schema { types { fields { type { ofType { name } } } } }
+            }
+            fragment SessionFields on Session { payments { agent { address } } }
+        `);
+
+        expect(queryDepth(document)).toBe(6);
+    });
+
+    it('should multiply list fields by their page size', () => {
+        const page = (first: number) => queryComplexity(schema, parse(`
+            { payments(first: ${first}) { edges { node { paymentId amount } } } }
+        `));
+
+        // payments + first x (edges + node + 2 scalars)
+        expect(page(10)).toBe(1 + 10 * 4);
+        expect(page(100)).toBe(1 + 100 * 4);
+    });
+
+    it('should reject operations over the tier budget', () => {
+        const document = parse(`
+            { services(first: 1000) { edges { node { id name reputation { reputationScore } } } } }
+        `);
+
+        expect(() => enforceQueryCost(schema, document, {}, null, 'public')).toThrow('exceeds the public limit');
+        expect(enforceQueryCost(schema, document, {}, null, 'pro').complexity).toBeLessThanOrEqual(25_000);
+
+        expect(queryTier({ authenticated: false, permissions: null, tier: null })).toBe('public');
+        expect(queryTier({ authenticated: true, permissions: DEFAULT_PERMISSIONS, tier: 'pro' })).toBe('pro');
+        expect(queryTier({
+            authenticated: true,
+            permissions: { ...DEFAULT_PERMISSIONS, admin: true },
+            tier: 'free',
+        })).toBe('enterprise');
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { supabase } from '@/lib/supabase';
+import { rewindIndexerState } from '@/services/indexer/repository/database.repository';
+
+const INDEXER = 'escrow_session';
+
+type Row = { indexer_name: string; last_block: number; last_run_at: string };
+
+/**
+ * Serve `from('indexer_state').update(...)` chains from an in-memory table,
+ * applying the eq / like / gt filters the repository uses
+ */
+function stubIndexerState(rows: Row[]) {
+    vi.spyOn(supabase, 'from').mockImplementation(((table: string) => {
+        expect(table).toBe('indexer_state');
+
+        return {
+            update(values: Partial<Row>) {
+                const filters: Array<(row: Row) => boolean> = [];
+                const query = {
+                    eq(column: keyof Row, value: unknown) {
+                        filters.push(row => row[column] === value);
+                        return query;
+                    },
+                    like(column: keyof Row, pattern: string) {
+                        const prefix = pattern.replace(/%$/, '');
+                        filters.push(row => String(row[column]).startsWith(prefix));
+                        return query;
+                    },
+                    gt(column: keyof Row, value: number) {
+                        filters.push(row => Number(row[column]) > value);
+                        return query;
+                    },
+                    then(resolve: (result: { error: null }) => void) {
+                        rows.filter(row => filters.every(f => f(row))).forEach(row => Object.assign(row, values));
+                        resolve({ error: null });
+                    },
+                };
+                return query;
+            },
+        };
+    }) as unknown as typeof supabase.from);
+}
+
+function cursor(rows: Row[], name: string): number | undefined {
+    return rows.find(row => row.indexer_name === name)?.last_block;
+}
+
+describe('Indexer State', () => {
+    let rows: Row[];
+
+    beforeEach(() => {
+        rows = [];
+        stubIndexerState(rows);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    const row = (indexer_name: string, last_block: number): Row =>
+        ({ indexer_name, last_block, last_run_at: '2026-01-01T00:00:00.000Z' });
+
+    it('should rewind every cursor past the fork block', async () => {
+        rows.push(row(INDEXER, 200), row(`${INDEXER}:Deposited`, 200), row(`${INDEXER}:Released`, 200));
+
+        await rewindIndexerState(INDEXER, 149);
+
+        expect(rows.map(r => r.last_block)).toEqual([149, 149, 149]);
+    });
+
+    it('should not move cursors forward on a reorg while an event type is lagging', async () => {
+        // Released is retrying a failed event at block 101, holding the global cursor at 100
+        rows.push(
+            row(INDEXER, 100),
+            row(`${INDEXER}:Deposited`, 200),
+            row(`${INDEXER}:Released`, 100),
+            row('other_indexer', 300),
+        );
+
+        // Fork at block 150
+        await rewindIndexerState(INDEXER, 149);
+
+        expect(cursor(rows, INDEXER)).toBe(100);
+        expect(cursor(rows, `${INDEXER}:Released`)).toBe(100);
+        expect(cursor(rows, `${INDEXER}:Deposited`)).toBe(149);
+        expect(cursor(rows, 'other_indexer')).toBe(300);
+    });
+});
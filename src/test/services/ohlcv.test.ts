@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildCandles,
+    mergeSnapshot,
+    computeTwap,
+    computeVwap,
+    intervalForRange,
+    type PriceSnapshot,
+} from '@/services/prices/ohlcv';
+
+const T0 = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+function snapshot(offsetSec: number, price: number, weight = 1): PriceSnapshot {
+    return { symbol: 'BTC/USD', source: 'consensus', price, weight, observedAt: T0 + offsetSec * 1000 };
+}
+
+describe('OHLCV', () => {
+    it('should build OHLC candles per bucket', () => {
+        const candles = buildCandles([
+            snapshot(0, 100),
+            snapshot(20, 104),
+            snapshot(40, 98),
+            snapshot(50, 101),
+            snapshot(70, 102),
+        ], '1m');
+
+        expect(candles).toHaveLength(2);
+        expect(candles[0]).toMatchObject({ bucketStart: T0, open: 100, high: 104, low: 98, close: 101, sampleCount: 4 });
+        expect(candles[1]).toMatchObject({ bucketStart: T0 + 60_000, open: 102, close: 102, sampleCount: 1 });
+    });
+
+    it('should weight TWAP by how long each price held', () => {
+        // 100 for 45s, then 200 for 15s
+        const candles = buildCandles([snapshot(0, 100), snapshot(45, 200), snapshot(60, 200)], '5m');
+
+        expect(computeTwap(candles)).toBeCloseTo(125);
+    });
+
+    it('should weight VWAP by reported liquidity', () => {
+        const candles = buildCandles([snapshot(0, 100, 3_000_000), snapshot(30, 110, 1_000_000)], '5m');
+
+        expect(computeVwap(candles)).toBeCloseTo(102.5);
+        expect(candles[0].volume).toBe(4_000_000);
+    });
+
+    it('should ignore snapshots older than the candle', () => {
+        const candle = mergeSnapshot(null, snapshot(30, 100), '1m');
+
+        expect(mergeSnapshot(candle, snapshot(10, 500), '1m')).toBe(candle);
+    });
+
+    it('should pick the finest interval that fits the range', () => {
+        expect(intervalForRange(60 * 60_000)).toBe('1m');
+        expect(intervalForRange(2 * 24 * 60 * 60_000)).toBe('5m');
+        expect(intervalForRange(14 * 24 * 60 * 60_000)).toBe('1h');
+        expect(intervalForRange(365 * 24 * 60 * 60_000)).toBe('1d');
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { planChildOrders, blendedEntryPrice } from '@/services/perpai/order-splitter';
+import { scoreVenue, type VenueScore } from '@/services/perpai/venue-scoring';
+import { unknownMarketInfo, type PerpMarketInfo } from '@/lib/blockchain/perp-market';
+
+const order = { side: 'long' as const, leverage: 5, sizeUsd: 100_000 };
+
+function venue(venueName: string, market: Partial<PerpMarketInfo>, eligible = true): VenueScore {
+    const score = scoreVenue(
+        { venueId: venueName.toLowerCase(), venueName, tradingFeeBps: 10, maxLeverage: null, successRate: 0.9 },
+        { ...unknownMarketInfo('ETH-USD', true), ...market },
+        order
+    );
+    return { ...score, eligible };
+}
+
+const options = { thresholdUsd: 25_000, maxVenues: 3, minChildUsd: 1_000 };
+
+describe('Order Splitter', () => {
+    it('should keep small orders on the best venue', () => {
+        const plan = planChildOrders(10_000, [venue('Moonlander', { priceImpactBps: 2 }), venue('GMX v2', { priceImpactBps: 4 })], options);
+
+        expect(plan).toEqual([{ venueId: 'moonlander', venueName: 'Moonlander', sizeUsd: 10_000, expectedImpactBps: 2 }]);
+    });
+
+    it('should split in proportion to depth so impact evens out', () => {
+        // 10 bps for the full size implies 4x the depth of 40 bps
+        const plan = planChildOrders(100_000, [
+            venue('Moonlander', { priceImpactBps: 10 }),
+            venue('Fulcrom Finance', { priceImpactBps: 40 }),
+        ], options);
+
+        expect(plan.map(c => [c.venueName, c.sizeUsd])).toEqual([['Moonlander', 80_000], ['Fulcrom Finance', 20_000]]);
+        expect(plan[0].expectedImpactBps).toBeCloseTo(8);
+        expect(plan[1].expectedImpactBps).toBeCloseTo(8);
+    });
+
+    it('should cap children at open interest headroom and move the overflow', () => {
+        const plan = planChildOrders(100_000, [
+            venue('Moonlander', { priceImpactBps: 10, availableOpenInterestUsd: 120_000 }),
+            venue('GMX v2', { priceImpactBps: 10, availableOpenInterestUsd: 30_000 }),
+            venue('Fulcrom Finance', { priceImpactBps: 10 }, false),
+        ], options);
+
+        expect(plan.map(c => [c.venueName, c.sizeUsd])).toEqual([['Moonlander', 70_000], ['GMX v2', 30_000]]);
+    });
+
+    it('should fold dust children into the largest one', () => {
+        const plan = planChildOrders(100_000, [
+            venue('Moonlander', { priceImpactBps: 1 }),
+            venue('GMX v2', { priceImpactBps: 200 }),
+        ], options);
+
+        expect(plan).toHaveLength(1);
+        expect(plan[0]).toMatchObject({ venueName: 'Moonlander', sizeUsd: 100_000 });
+    });
+
+    it('should blend entry prices by units held', () => {
+        expect(blendedEntryPrice([
+            { sizeUsd: 50_000, entryPrice: 100 },
+            { sizeUsd: 50_000, entryPrice: 125 },
+        ])).toBeCloseTo(111.111, 3);
+    });
+});
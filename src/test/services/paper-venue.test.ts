@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    isPaperTrading,
+    paperFillPrice,
+    paperSlippageBps,
+    settlePaperPosition,
+    type PaperPosition,
+} from '@/services/perpai/paper-venue';
+
+const model = { spreadBps: 4, depthUsd: 10_000_000 };
+
+function position(overrides: Partial<PaperPosition> = {}): PaperPosition {
+    return {
+        side: 'long',
+        sizeUsd: 10_000,
+        entryPrice: 100,
+        leverage: 10,
+        liquidationPrice: 91,
+        tradingFeeBps: 10,
+        ...overrides,
+    };
+}
+
+describe('Paper Venue', () => {
+    it('should add half the spread to venue impact, or model impact from depth', () => {
+        expect(paperSlippageBps(100_000, 15, model)).toBe(17);
+        expect(paperSlippageBps(100_000, null, model)).toBeCloseTo(102);
+    });
+
+    it('should fill buys above and sells below the mark', () => {
+        expect(paperFillPrice(100, 'long', 'open', 50)).toBeCloseTo(100.5);
+        expect(paperFillPrice(100, 'long', 'close', 50)).toBeCloseTo(99.5);
+        expect(paperFillPrice(100, 'short', 'open', 50)).toBeCloseTo(99.5);
+        expect(paperFillPrice(100, 'short', 'close', 50)).toBeCloseTo(100.5);
+    });
+
+    it('should pay back margin plus PnL less the closing fee', () => {
+        const long = settlePaperPosition(position(), 110);
+        expect(long).toMatchObject({ liquidated: false, fee: 10 });
+        expect(long.pnl).toBeCloseTo(1000);
+        expect(long.payout).toBeCloseTo(1990);
+
+        const short = settlePaperPosition(position({ side: 'short', liquidationPrice: 109 }), 95);
+        expect(short.pnl).toBeCloseTo(500);
+    });
+
+    it('should lose the whole margin past the liquidation price', () => {
+        expect(settlePaperPosition(position(), 90)).toEqual({
+            exitPrice: 91,
+            pnl: -1000,
+            fee: 0,
+            payout: 0,
+            liquidated: true,
+        });
+    });
+
+    it('should follow the request flag over the trading mode', () => {
+        vi.stubEnv('TRADING_MODE', 'paper');
+
+        expect(isPaperTrading({})).toBe(true);
+        expect(isPaperTrading({ paper: false })).toBe(false);
+
+        vi.unstubAllEnvs();
+    });
+});
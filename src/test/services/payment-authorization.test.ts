@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    PaymentAuthorizationService,
+    InMemoryPaymentAuthorizationStore,
+    registerCaptureHandler
+} from '@/services/x402/payment-authorization';
+import {
+    SessionLedger,
+    InMemorySessionLedgerBackend,
+    toBaseUnits
+} from '@/services/session/session-ledger';
+
+const PAYEE = '0x1111111111111111111111111111111111111111';
+const RESOURCE = 'https://api.relaycore.xyz/api/perpai/quote';
+
+describe('Payment Authorization', () => {
+    let backend: InMemorySessionLedgerBackend;
+    let ledger: SessionLedger;
+    let store: InMemoryPaymentAuthorizationStore;
+    let service: PaymentAuthorizationService;
+
+    beforeEach(() => {
+        backend = new InMemorySessionLedgerBackend();
+        backend.setSession({
+            sessionId: 'session_1',
+            maxSpend: toBaseUnits('1.00'),
+            spent: 0n,
+            reserved: 0n,
+            paymentCount: 0,
+            isActive: true,
+            expiresAt: Date.now() + 60 * 60 * 1000,
+        });
+        ledger = new SessionLedger(backend);
+        store = new InMemoryPaymentAuthorizationStore();
+        service = new PaymentAuthorizationService(ledger, store);
+    });
+
+    function authorize(amount = '0.40', ttlMs?: number) {
+        return service.authorizeSession({
+            sessionId: 'session_1',
+            amount: toBaseUnits(amount),
+            payTo: PAYEE,
+            resourceUrl: RESOURCE,
+            ttlMs,
+        });
+    }
+
+    it('should capture the full authorization by default', async () => {
+        const authorization = await authorize();
+        const captured = await service.capture(authorization.authorizationId);
+
+        expect(captured).toMatchObject({ status: 'captured', capturedAmount: toBaseUnits('0.40') });
+        expect(await ledger.getBalance('session_1')).toMatchObject({ spent: toBaseUnits('0.40'), reserved: 0n });
+    });
+
+    it('should return the uncaptured rest of a partial capture to the budget', async () => {
+        const authorization = await authorize();
+        await service.capture(authorization.authorizationId, toBaseUnits('0.15'));
+
+        expect(await ledger.getBalance('session_1')).toMatchObject({
+            spent: toBaseUnits('0.15'),
+            reserved: 0n,
+            available: toBaseUnits('0.85'),
+        });
+        await expect(service.capture(authorization.authorizationId)).rejects.toMatchObject({ code: 'NOT_AUTHORIZED' });
+    });
+
+    it('should refuse captures above the authorized amount', async () => {
+        const authorization = await authorize();
+
+        await expect(service.capture(authorization.authorizationId, toBaseUnits('0.41')))
+            .rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+        expect((await service.get(authorization.authorizationId))?.status).toBe('authorized');
+    });
+
+    it('should release the hold when voided', async () => {
+        const authorization = await authorize();
+        const voided = await service.void(authorization.authorizationId, 'outcome_failed');
+
+        expect(voided).toMatchObject({ status: 'voided', voidReason: 'outcome_failed' });
+        expect(await ledger.getBalance('session_1')).toMatchObject({ spent: 0n, reserved: 0n });
+    });
+
+    it('should void an authorization whose reservation was already swept', async () => {
+        const authorization = await authorize('0.40', -1);
+
+        expect(await ledger.releaseExpired()).toBe(1);
+        expect(await service.voidExpired()).toBe(1);
+
+        expect((await service.get(authorization.authorizationId))?.status).toBe('voided');
+        expect(await ledger.getBalance('session_1')).toMatchObject({ reserved: 0n });
+    });
+
+    it('should not leave a void stuck in capturing when the release fails', async () => {
+        const authorization = await authorize();
+        backend.transitionReservation = async () => {
+            throw new Error('connection reset');
+        };
+
+        await expect(service.void(authorization.authorizationId, 'outcome_timeout')).rejects.toThrow('connection reset');
+        expect(await service.get(authorization.authorizationId)).toMatchObject({
+            status: 'failed',
+            voidReason: 'connection reset',
+        });
+    });
+
+    it('should keep a paid hold out of the expiry sweep when its commit fails', async () => {
+        const load = backend.load.bind(backend);
+        registerCaptureHandler('test_pay_then_fail', async () => {
+            // Paid; the ledger is unreachable from here on
+            backend.load = async () => {
+                throw new Error('connection reset');
+            };
+            return '0xpaid';
+        });
+        const authorization = await service.authorizeSession({
+            sessionId: 'session_1',
+            amount: toBaseUnits('0.40'),
+            payTo: PAYEE,
+            resourceUrl: RESOURCE,
+            captureHandler: 'test_pay_then_fail',
+        });
+
+        await expect(service.capture(authorization.authorizationId)).rejects.toMatchObject({ code: 'CAPTURE_FAILED' });
+        expect(await service.get(authorization.authorizationId)).toMatchObject({ status: 'failed', txHash: '0xpaid' });
+        expect(await backend.getReservation(authorization.reservationId!)).toMatchObject({ status: 'reconciling' });
+
+        backend.load = load;
+        expect(await ledger.releaseExpired(Date.now() + 60 * 60 * 1000)).toBe(0);
+        expect(await ledger.getBalance('session_1')).toMatchObject({ reserved: toBaseUnits('0.40'), spent: 0n });
+
+        // Reconciling commits it as spend
+        await ledger.commit(authorization.reservationId!);
+        expect(await ledger.getBalance('session_1')).toMatchObject({ reserved: 0n, spent: toBaseUnits('0.40') });
+    });
+
+    it('should only capture EIP-3009 authorizations in full', async () => {
+        const authorization = await store.insert({
+            authorizationId: 'auth_1',
+            paymentId: 'pay_1',
+            method: 'eip3009',
+            status: 'authorized',
+            amount: 1000n,
+            capturedAmount: null,
+            payTo: PAYEE,
+            resourceUrl: RESOURCE,
+            createdAt: Date.now(),
+            expiresAt: Date.now() + 60_000,
+        });
+
+        await expect(service.capture(authorization.authorizationId, 500n)).rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+        expect(await service.capture(authorization.authorizationId, 0n)).toMatchObject({
+            status: 'voided',
+            voidReason: 'zero_capture',
+        });
+    });
+});
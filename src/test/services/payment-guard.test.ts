@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { checkPaymentDemand, parsePaymentDemand } from '@/sdk/lib/payment-guard';
+
+const PROVIDER = '0x1111111111111111111111111111111111111111';
+
+function demand(maxAmountRequired: string, overrides: Record<string, unknown> = {}) {
+    return parsePaymentDemand({
+        paymentRequirements: {
+            payTo: PROVIDER,
+            maxAmountRequired,
+            asset: '0xUSDC',
+            network: 'cronos-testnet',
+            ...overrides,
+        },
+    })!;
+}
+
+describe('Payment Guard', () => {
+    it('should read Relay and x402 402 bodies', () => {
+        expect(demand('10000').maxAmountRequired).toBe('10000');
+        expect(parsePaymentDemand({ accepts: [{ payTo: PROVIDER, maxAmountRequired: 5 }] })?.maxAmountRequired).toBe('5');
+        expect(parsePaymentDemand({ error: 'Payment Required' })).toBeNull();
+    });
+
+    it('should flag demands above the listing beyond the tolerance', () => {
+        // Listed at 0.01 USDC = 10000 base units
+        expect(checkPaymentDemand(demand('10000'), { listedPrice: '0.01' }).approved).toBe(true);
+
+        const drift = checkPaymentDemand(demand('10400'), { listedPrice: '0.01' });
+        expect(drift.violations.map(v => v.type)).toEqual(['PRICE_ABOVE_LISTING']);
+        expect(drift.driftPct).toBe(4);
+
+        expect(checkPaymentDemand(demand('10400'), { listedPrice: '0.01', priceTolerancePct: 5 }).approved).toBe(true);
+        expect(checkPaymentDemand(demand('20000'), { listedPrice: '0.05', maxPrice: 0.015 }).violations[0].type)
+            .toBe('PRICE_ABOVE_MAX');
+    });
+
+    it('should flag a different payee, asset or network', () => {
+        const check = checkPaymentDemand(demand('10000', { payTo: '0x2222222222222222222222222222222222222222' }), {
+            listedPrice: '0.01',
+            payTo: PROVIDER.toUpperCase().replace('0X', '0x'),
+            assets: ['0xOTHER'],
+            network: 'cronos-mainnet',
+        });
+
+        expect(check.violations.map(v => v.type)).toEqual(['PAYEE_MISMATCH', 'ASSET_MISMATCH', 'NETWORK_MISMATCH']);
+        expect(checkPaymentDemand(demand('0.01'), {}).violations[0].type).toBe('INVALID_AMOUNT');
+    });
+});
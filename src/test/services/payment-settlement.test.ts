@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import { handlePaymentSettlement } from '@/services/x402/payment-middleware';
+import { entitlementStore, type EntitlementOffer } from '@/services/x402/entitlement-store';
+import { facilitatorService } from '@/services/x402/facilitator-service';
+import { supabase } from '@/lib/supabase';
+
+const resource = 'https://api.relaycore.xyz/api/perpai/quote';
+
+const offer: EntitlementOffer = {
+    paymentId: 'pay_1',
+    resourceUrl: resource,
+    policy: { maxUses: 5, ttlMs: null },
+    payment: {
+        payTo: '0x1111111111111111111111111111111111111111',
+        asset: '0xc01efAaF7C5C61bEbFAeb358E1161b537b8bC0e0',
+        maxAmountRequired: '10000',
+    },
+    createdAt: 0,
+};
+
+function settle(paymentRequirements: Record<string, unknown>) {
+    const req = {
+        body: { paymentId: 'pay_1', paymentHeader: '0xheader', paymentRequirements },
+        headers: { 'x-user-address': '0xABC' },
+    } as unknown as Request;
+
+    const res = {
+        statusCode: 200,
+        body: undefined as unknown,
+        status(code: number) {
+            this.statusCode = code;
+            return this;
+        },
+        json(body: unknown) {
+            this.body = body;
+            return this;
+        },
+    };
+
+    return handlePaymentSettlement(req, res as unknown as Response).then(() => res);
+}
+
+describe('Payment Settlement', () => {
+    let settlePayment: ReturnType<typeof vi.spyOn>;
+    let grant: ReturnType<typeof vi.spyOn>;
+    let insertPayment: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.spyOn(entitlementStore, 'getOffer').mockImplementation(async id => id === offer.paymentId ? offer : null);
+        grant = vi.spyOn(entitlementStore, 'grant').mockImplementation(async input => ({
+            ...input,
+            userAddress: input.userAddress.toLowerCase(),
+            maxUses: input.policy?.maxUses ?? null,
+            useCount: 0,
+            createdAt: 0,
+            expiresAt: null,
+            lastUsedAt: null,
+            revokedAt: null,
+            revokeReason: null,
+        }));
+        vi.spyOn(facilitatorService, 'getFacilitator').mockReturnValue({
+            buildVerifyRequest: () => ({}),
+        } as unknown as ReturnType<typeof facilitatorService.getFacilitator>);
+        settlePayment = vi.spyOn(facilitatorService, 'settlePayment').mockResolvedValue({
+            txHash: '0xsettled',
+            timestamp: Date.now(),
+        } as unknown as Awaited<ReturnType<typeof facilitatorService.settlePayment>>);
+
+        insertPayment = vi.fn(async () => ({ error: null }));
+        vi.spyOn(supabase, 'from').mockReturnValue({ insert: insertPayment } as unknown as ReturnType<typeof supabase.from>);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should refuse to settle less than the challenge asked for', async () => {
+        const res = await settle({ ...offer.payment, resource, maxAmountRequired: '1' });
+
+        expect(res.statusCode).toBe(402);
+        expect(res.body).toMatchObject({ code: 'amount_mismatch' });
+        expect(settlePayment).not.toHaveBeenCalled();
+        expect(grant).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to settle a payment to another payee', async () => {
+        const res = await settle({ ...offer.payment, resource, payTo: '0x2222222222222222222222222222222222222222' });
+
+        expect(res.statusCode).toBe(402);
+        expect(res.body).toMatchObject({ code: 'pay_to_mismatch' });
+        expect(settlePayment).not.toHaveBeenCalled();
+    });
+
+    it('should refuse payment IDs that were never challenged', async () => {
+        vi.mocked(entitlementStore.getOffer).mockResolvedValue(null);
+
+        const res = await settle({ ...offer.payment, resource });
+
+        expect(res.statusCode).toBe(402);
+        expect(res.body).toMatchObject({ code: 'not_offered' });
+        expect(settlePayment).not.toHaveBeenCalled();
+    });
+
+    it('should grant the offered entitlement for the offered payment', async () => {
+        const res = await settle({ ...offer.payment, resource });
+
+        expect(settlePayment).toHaveBeenCalledTimes(1);
+        expect(grant).toHaveBeenCalledWith({
+            paymentId: 'pay_1',
+            resourceUrl: resource,
+            userAddress: '0xabc',
+            policy: offer.policy,
+        });
+        expect(insertPayment).toHaveBeenCalledWith(expect.objectContaining({ payment_id: 'pay_1', amount: '10000' }));
+        expect(res.body).toMatchObject({ success: true, txHash: '0xsettled' });
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { evaluatePosition, isRiskEscalation, type MonitoredPosition } from '@/services/perpai/position-rules';
+
+function position(overrides: Partial<MonitoredPosition> = {}): MonitoredPosition {
+    return {
+        side: 'long',
+        entryPrice: 100,
+        stopLoss: null,
+        takeProfit: null,
+        trailingStopPct: null,
+        trailingPeakPrice: null,
+        liquidationPrice: null,
+        ...overrides,
+    };
+}
+
+const options = { warningDistancePct: 10, criticalDistancePct: 5 };
+
+describe('Position Rules', () => {
+    it('should fire stop-loss and take-profit on the right side of the price', () => {
+        expect(evaluatePosition(position({ stopLoss: 95, takeProfit: 120 }), 94, options))
+            .toMatchObject({ trigger: 'stop_loss', triggerPrice: 95 });
+        expect(evaluatePosition(position({ stopLoss: 95, takeProfit: 120 }), 121, options).trigger).toBe('take_profit');
+        expect(evaluatePosition(position({ stopLoss: 95, takeProfit: 120 }), 110, options).trigger).toBeNull();
+
+        const short = position({ side: 'short', stopLoss: 105, takeProfit: 80 });
+        expect(evaluatePosition(short, 106, options).trigger).toBe('stop_loss');
+        expect(evaluatePosition(short, 79, options).trigger).toBe('take_profit');
+    });
+
+    it('should trail the best price and fire on the retrace', () => {
+        const rising = evaluatePosition(position({ trailingStopPct: 5, trailingPeakPrice: 110 }), 120, options);
+        expect(rising).toMatchObject({ trigger: null, trailingPeakPrice: 120 });
+        expect(rising.trailingStopPrice).toBeCloseTo(114);
+
+        const retrace = evaluatePosition(position({ trailingStopPct: 5, trailingPeakPrice: 120 }), 113, options);
+        expect(retrace).toMatchObject({ trigger: 'trailing_stop', trailingPeakPrice: 120 });
+
+        const short = evaluatePosition(position({ side: 'short', trailingStopPct: 5, trailingPeakPrice: 90 }), 95, options);
+        expect(short.trigger).toBe('trailing_stop');
+        expect(short.trailingStopPrice).toBeCloseTo(94.5);
+    });
+
+    it('should prefer the stop-loss when several rules fire', () => {
+        const evaluation = evaluatePosition(position({ stopLoss: 98, trailingStopPct: 1, trailingPeakPrice: 100 }), 97, options);
+
+        expect(evaluation.trigger).toBe('stop_loss');
+    });
+
+    it('should grade liquidation risk by distance and alert only on escalation', () => {
+        const long = position({ liquidationPrice: 90 });
+
+        expect(evaluatePosition(long, 120, options).liquidationRisk).toBe('safe');
+        expect(evaluatePosition(long, 97, options)).toMatchObject({ liquidationRisk: 'warning' });
+        expect(evaluatePosition(long, 94, options).liquidationRisk).toBe('critical');
+        expect(evaluatePosition(position({ side: 'short', liquidationPrice: 110 }), 108, options).liquidationDistancePct)
+            .toBeCloseTo(1.852, 3);
+
+        expect(isRiskEscalation('safe', 'warning')).toBe(true);
+        expect(isRiskEscalation('warning', 'critical')).toBe(true);
+        expect(isRiskEscalation('critical', 'warning')).toBe(false);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { computePriceConsensus, weightedMedian, PYTH_SOURCE } from '@/services/prices/price-consensus';
+
+const NOW = 1_700_000_000_000;
+
+function quote(name: string, price: number, extra: { ageMs?: number; liquidityUsd?: number; confidence?: number } = {}) {
+    return {
+        name,
+        price,
+        timestamp: NOW - (extra.ageMs ?? 0),
+        liquidityUsd: extra.liquidityUsd,
+        confidence: extra.confidence,
+    };
+}
+
+describe('Price Consensus', () => {
+    it('should weight the median by liquidity', () => {
+        expect(weightedMedian([
+            { price: 100, weight: 1 },
+            { price: 101, weight: 1 },
+            { price: 102, weight: 5 },
+        ])).toBe(102);
+        expect(weightedMedian([{ price: 100, weight: 1 }, { price: 102, weight: 1 }])).toBe(101);
+    });
+
+    it('should ignore a single bad pool instead of taking the highest price', () => {
+        const result = computePriceConsensus([
+            quote(PYTH_SOURCE, 0.1, { confidence: 0.0001 }),
+            quote('MM Finance', 0.1002),
+            quote('Fulcrom Finance', 0.0999),
+            quote('CroSwap', 0.13, { liquidityUsd: 2_000 }),
+        ], { now: NOW });
+
+        expect(result.reached).toBe(true);
+        expect(result.price).toBe(0.1);
+        expect(result.rejectedSources).toEqual([expect.objectContaining({ name: 'CroSwap', reason: 'outlier' })]);
+        expect(result.confidence).toBeGreaterThan(0.5);
+    });
+
+    it('should drop quotes past their source staleness limit', () => {
+        const result = computePriceConsensus([
+            quote(PYTH_SOURCE, 100, { confidence: 0.05 }),
+            quote('MM Finance', 100.1, { ageMs: 45_000 }),
+            quote('VVS Finance', 100.1, { ageMs: 45_000 }),
+        ], { now: NOW });
+
+        expect(result.reached).toBe(true);
+        expect(result.rejectedSources).toEqual([expect.objectContaining({ name: 'MM Finance', reason: 'stale' })]);
+    });
+
+    it('should drop Pyth when its confidence interval is too wide', () => {
+        const result = computePriceConsensus([
+            quote(PYTH_SOURCE, 100, { confidence: 5 }),
+            quote('MM Finance', 100),
+            quote('Fulcrom Finance', 100.1),
+        ], { now: NOW });
+
+        expect(result.reached).toBe(true);
+        expect(result.rejectedSources[0]).toMatchObject({ name: PYTH_SOURCE, reason: 'wide_confidence' });
+    });
+
+    it('should not reach consensus when the price leaves the Pyth band', () => {
+        const result = computePriceConsensus([
+            quote(PYTH_SOURCE, 100, { confidence: 0.05 }),
+            quote('MM Finance', 101.5),
+            quote('Fulcrom Finance', 101.6),
+            quote('Moonlander', 101.5),
+        ], { now: NOW });
+
+        expect(result.reached).toBe(false);
+        expect(result.confidence).toBe(0);
+        expect(result.reason).toMatch(/Pyth band/);
+    });
+
+    it('should not reach consensus when two sources disagree', () => {
+        const result = computePriceConsensus([
+            quote('MM Finance', 100),
+            quote('CroSwap', 120),
+        ], { now: NOW });
+
+        expect(result.reached).toBe(false);
+        expect(result.accepted).toHaveLength(1);
+        expect(result.reason).toMatch(/Only 1 of 2 sources agree/);
+    });
+});
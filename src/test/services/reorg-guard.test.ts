@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ReorgGuard, InMemoryCheckpointStore } from '@/services/indexer/reorg-guard';
+
+const INDEXER = 'escrow_session';
+
+/**
+ * Canonical chain: every block hashes to `0x<block>` until a reorg
+ * replaces the blocks from some height on
+ */
+function chain() {
+    const forks = new Map<number, string>();
+    return {
+        fetch: async (blockNumber: number) => forks.get(blockNumber) ?? `0x${blockNumber.toString(16)}`,
+        reorg(fromBlock: number, toBlock: number) {
+            for (let block = fromBlock; block <= toBlock; block++) {
+                forks.set(block, `0xfork${block.toString(16)}`);
+            }
+        },
+    };
+}
+
+describe('Reorg Guard', () => {
+    let canonical: ReturnType<typeof chain>;
+    let store: InMemoryCheckpointStore;
+    let guard: ReorgGuard;
+
+    // Index events in `blocks` and checkpoint up to the last of them
+    async function index(...blocks: number[]) {
+        for (const block of blocks) {
+            guard.track(block, await canonical.fetch(block));
+        }
+        await guard.commit(blocks[blocks.length - 1]);
+    }
+
+    beforeEach(() => {
+        canonical = chain();
+        store = new InMemoryCheckpointStore();
+        guard = new ReorgGuard(INDEXER, 12, canonical.fetch, 5, store);
+    });
+
+    it('should only index blocks that are deep enough', () => {
+        expect(guard.confirmedHead(1000)).toBe(988);
+    });
+
+    it('should checkpoint tracked blocks and the end of the range within the window', async () => {
+        guard.track(100, '0x64');
+        await guard.commit(105);
+
+        expect(await store.getIndexedBlockHashes(INDEXER, 10)).toEqual([
+            { blockNumber: 105, blockHash: '0x69' },
+            { blockNumber: 100, blockHash: '0x64' },
+        ]);
+
+        await index(110, 120, 130, 140, 150);
+        expect((await store.getIndexedBlockHashes(INDEXER, 10)).map(c => c.blockNumber)).toEqual([150, 140, 130, 120, 110]);
+    });
+
+    it('should find nothing while the indexed history is canonical', async () => {
+        await index(100, 110, 120);
+
+        expect(await guard.detect()).toBeNull();
+    });
+
+    it('should find the fork block above the newest matching checkpoint', async () => {
+        await index(100, 110, 120);
+        canonical.reorg(115, 125);
+
+        expect(await guard.detect()).toEqual({ forkBlock: 111, staleBlock: 120, exceedsWindow: false });
+    });
+
+    it('should flag a reorg deeper than every checkpoint', async () => {
+        await index(100, 110, 120);
+        canonical.reorg(90, 125);
+
+        expect(await guard.detect()).toEqual({ forkBlock: 100, staleBlock: 120, exceedsWindow: true });
+    });
+
+    it('should drop stale checkpoints and rewind the cursors to below the fork', async () => {
+        await index(100, 110, 120);
+        store.setCursor(INDEXER, 105);
+        store.setCursor(`${INDEXER}:Deposited`, 120);
+        // Held back by a failing event
+        store.setCursor(`${INDEXER}:Released`, 105);
+        store.setCursor('usdc_transfer', 120);
+
+        canonical.reorg(115, 125);
+        await guard.rewind((await guard.detect())!);
+
+        expect((await store.getIndexedBlockHashes(INDEXER, 10)).map(c => c.blockNumber)).toEqual([110, 100]);
+        expect(store.getCursor(`${INDEXER}:Deposited`)).toBe(110);
+        expect(store.getCursor(`${INDEXER}:Released`)).toBe(105);
+        expect(store.getCursor(INDEXER)).toBe(105);
+        expect(store.getCursor('usdc_transfer')).toBe(120);
+
+        // Re-indexed on the new chain, the history matches again
+        await index(115, 125);
+        expect(await guard.detect()).toBeNull();
+    });
+});
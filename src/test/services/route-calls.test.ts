@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RouteCallCounter, InMemoryRouteCallBackend } from '@/services/x402/route-calls';
+import type { RoutePricing } from '@/services/x402/route-pricing';
+
+const ROUTE = 'route_1';
+
+// 0.01 for calls 1-2, 0.005 after
+const tiered: RoutePricing = {
+    model: 'tiered',
+    tiers: [
+        { upTo: 2, priceUsdc: '0.01' },
+        { upTo: null, priceUsdc: '0.005' },
+    ],
+};
+
+describe('Route Call Numbers', () => {
+    let backend: InMemoryRouteCallBackend;
+    let counter: RouteCallCounter;
+
+    beforeEach(() => {
+        backend = new InMemoryRouteCallBackend();
+        backend.setCount(ROUTE, 1);
+        counter = new RouteCallCounter(backend);
+    });
+
+    it('should give concurrent paid calls their own call numbers', async () => {
+        const calls = await Promise.all([
+            counter.quote(ROUTE, tiered, 1, true),
+            counter.quote(ROUTE, tiered, 1, true),
+        ]);
+
+        expect(calls.map(c => c.requestCount)).toEqual([1, 2]);
+        expect(calls.map(c => c.quote)).toEqual([10000n, 5000n]);
+        expect(backend.getCount(ROUTE)).toBe(3);
+    });
+
+    it('should not advance the tier for a refused payment', async () => {
+        for (let i = 0; i < 5; i++) {
+            const call = await counter.quote(ROUTE, tiered, backend.getCount(ROUTE), true);
+            expect(call).toMatchObject({ requestCount: 1, quote: 10000n, claimed: true });
+            await counter.refuse(ROUTE, call);
+        }
+
+        expect(backend.getCount(ROUTE)).toBe(1);
+        expect((await counter.quote(ROUTE, tiered, backend.getCount(ROUTE), true)).quote).toBe(10000n);
+    });
+
+    it('should only claim numbers for paid tiered calls', async () => {
+        expect(await counter.quote(ROUTE, tiered, 1, false)).toEqual({ requestCount: 1, quote: 10000n, claimed: false });
+        expect(await counter.quote(ROUTE, { model: 'per_request', priceUsdc: '0.02' }, 1, true))
+            .toEqual({ requestCount: 1, quote: 20000n, claimed: false });
+        expect(backend.getCount(ROUTE)).toBe(1);
+    });
+});
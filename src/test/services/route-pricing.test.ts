@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+    meterRouteUsage,
+    parseRoutePricing,
+    quoteRoutePrice,
+    resolveRoutePricing,
+    type RoutePricing
+} from '@/services/x402/route-pricing';
+
+function upstream(body: string, headers: Record<string, string> = {}) {
+    return { body, headers: new Headers(headers) };
+}
+
+const tiered: RoutePricing = {
+    model: 'tiered',
+    tiers: [
+        { upTo: 2, priceUsdc: '0.01' },
+        { upTo: 5, priceUsdc: '0.005' },
+        { upTo: null, priceUsdc: '0.001' },
+    ],
+};
+
+describe('Route Pricing', () => {
+    it('should price legacy routes per request at price_usdc', () => {
+        expect(resolveRoutePricing({ price_usdc: 0.02 })).toEqual({ model: 'per_request', priceUsdc: '0.02' });
+        expect(parseRoutePricing({ model: 'per_request' }, '0.05')).toEqual({ model: 'per_request', priceUsdc: '0.05' });
+    });
+
+    it('should parse ordered tiers and reject unordered ones', () => {
+        expect(parseRoutePricing({
+            model: 'tiered',
+            tiers: [{ upTo: 2, priceUsdc: '0.01' }, { upTo: 5, priceUsdc: 0.005 }, { priceUsdc: '0.001' }],
+        })).toEqual(tiered);
+
+        expect(() => parseRoutePricing({ model: 'tiered', tiers: [] })).toThrow('non-empty');
+        expect(() => parseRoutePricing({ model: 'tiered', tiers: [{ upTo: 0, priceUsdc: '0.01' }] }))
+            .toThrow('pricing.tiers[0].upTo');
+        expect(() => parseRoutePricing({
+            model: 'tiered',
+            tiers: [{ upTo: 5, priceUsdc: '0.01' }, { upTo: 2, priceUsdc: '0.005' }],
+        })).toThrow('increasing upTo');
+        expect(() => parseRoutePricing({
+            model: 'tiered',
+            tiers: [{ upTo: null, priceUsdc: '0.01' }, { upTo: 2, priceUsdc: '0.005' }],
+        })).toThrow('null last');
+        expect(() => parseRoutePricing({ model: 'tiered', tiers: [{ upTo: 1, priceUsdc: '0.0000001' }] }))
+            .toThrow('at most 6 decimals');
+    });
+
+    it('should reject a minimum price above the maximum', () => {
+        expect(() => parseRoutePricing({
+            model: 'per_kb',
+            pricePerKbUsdc: '0.001',
+            maxPriceUsdc: '0.01',
+            minPriceUsdc: '0.02',
+        })).toThrow('pricing.minPriceUsdc must not exceed pricing.maxPriceUsdc');
+        expect(() => parseRoutePricing({
+            model: 'per_token',
+            pricePer1kTokensUsdc: '0.001',
+            tokenSource: { header: 'X-Usage-Tokens' },
+            maxPriceUsdc: '0.5',
+            minPriceUsdc: '0.6',
+        })).toThrow('pricing.minPriceUsdc');
+
+        expect(parseRoutePricing({
+            model: 'per_token',
+            pricePer1kTokensUsdc: '0.001',
+            tokenSource: { header: 'X-Usage-Tokens' },
+            maxPriceUsdc: '0.5',
+            minPriceUsdc: '0.5',
+        })).toMatchObject({ tokenSource: { header: 'x-usage-tokens' }, minPriceUsdc: '0.5' });
+    });
+
+    it('should price tiered calls by their call number', () => {
+        // requestCount is the volume before the call
+        expect(quoteRoutePrice(tiered, 0)).toBe(10000n);
+        expect(quoteRoutePrice(tiered, 1)).toBe(10000n);
+        expect(quoteRoutePrice(tiered, 2)).toBe(5000n);
+        expect(quoteRoutePrice(tiered, 5)).toBe(1000n);
+
+        expect(meterRouteUsage(tiered, upstream('{}'), 4)).toEqual({ model: 'tiered', units: 1, unit: 'request', amount: 5000n });
+    });
+
+    it('should meter per-kb responses within the price bounds', () => {
+        // 0.001024 USDC per KB = 1 base unit per byte
+        const pricing = parseRoutePricing({
+            model: 'per_kb',
+            pricePerKbUsdc: '0.001024',
+            maxPriceUsdc: '0.00001',
+            minPriceUsdc: '0.000002',
+        });
+
+        expect(quoteRoutePrice(pricing, 0)).toBe(10n);
+        expect(meterRouteUsage(pricing, upstream('x'), 0)).toEqual({ model: 'per_kb', units: 1, unit: 'byte', amount: 2n });
+        expect(meterRouteUsage(pricing, upstream('12345'), 0).amount).toBe(5n);
+        expect(meterRouteUsage(pricing, upstream('x'.repeat(100)), 0)).toMatchObject({ units: 100, amount: 10n });
+    });
+
+    it('should meter per-token responses from the header or the body', () => {
+        // 1 base unit per 1k tokens, rounded up
+        const pricing = parseRoutePricing({
+            model: 'per_token',
+            pricePer1kTokensUsdc: '0.000001',
+            tokenSource: { header: 'x-usage-tokens', jsonPath: 'usage.total_tokens' },
+            maxPriceUsdc: '0.000005',
+            minPriceUsdc: '0.000001',
+        });
+
+        expect(meterRouteUsage(pricing, upstream('{}', { 'x-usage-tokens': '2500' }), 0))
+            .toEqual({ model: 'per_token', units: 2500, unit: 'token', amount: 3n });
+        expect(meterRouteUsage(pricing, upstream('{"usage":{"total_tokens":1200}}'), 0))
+            .toMatchObject({ units: 1200, amount: 2n });
+        expect(meterRouteUsage(pricing, upstream('{"usage":{"total_tokens":99000}}'), 0).amount).toBe(5n);
+
+        // No count reported: charged the minimum
+        expect(meterRouteUsage(pricing, upstream('not json'), 0)).toMatchObject({ units: 0, amount: 1n });
+    });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import * as serverPool from '@/lib/blockchain/rpc-pool';
+import * as mcpPool from '../../../mcp-server/rpc-pool';
+
+const A = 'https://rpc-a.test';
+const B = 'https://rpc-b.test';
+const C = 'https://rpc-c.test';
+
+type Payload = ethers.JsonRpcPayload;
+type Reply = { status?: number; statusMessage?: string; headers?: Record<string, string>; body?: unknown };
+
+/**
+ * Answer FetchRequests from the pool with `respond`, keyed by endpoint URL,
+ * and record which endpoint got which request
+ */
+function stubRpc(respond: (url: string, request: Payload | Payload[]) => Reply) {
+    const calls: Array<{ url: string; request: Payload | Payload[] }> = [];
+
+    ethers.FetchRequest.registerGetUrl(async req => {
+        const request = JSON.parse(ethers.toUtf8String(req.body!));
+        calls.push({ url: req.url, request });
+
+        const reply = respond(req.url, request);
+        return {
+            statusCode: reply.status ?? 200,
+            statusMessage: reply.statusMessage ?? 'OK',
+            headers: reply.headers ?? {},
+            body: reply.body === undefined ? null : ethers.toUtf8Bytes(JSON.stringify(reply.body)),
+        };
+    });
+
+    return calls;
+}
+
+function result(request: Payload | Payload[], value: unknown) {
+    return Array.isArray(request)
+        ? request.map(p => ({ jsonrpc: '2.0', id: p.id, result: value }))
+        : { jsonrpc: '2.0', id: request.id, result: value };
+}
+
+const payload = (id: number, method = 'eth_blockNumber', params: unknown[] = []): Payload =>
+    ({ jsonrpc: '2.0', id, method, params });
+
+describe.each([
+    ['server', serverPool],
+    ['MCP server', mcpPool],
+])('RPC Provider Pool (%s)', (_name, { RpcProviderPool, RpcPoolError }) => {
+    const pools: InstanceType<typeof RpcProviderPool>[] = [];
+
+    function pool(urls: string[], options: { maxAttempts?: number; quorum?: number } = {}) {
+        const created = new RpcProviderPool({ urls, chainId: 338, timeoutMs: 1000, ...options });
+        pools.push(created);
+        return created;
+    }
+
+    afterEach(() => {
+        ethers.FetchRequest.registerGetUrl(ethers.FetchRequest.createGetUrlFunc());
+        pools.splice(0).forEach(p => p.destroy());
+    });
+
+    it('should fail over to the next endpoint and cool the failed one down', async () => {
+        const calls = stubRpc((url, request) => url === A
+            ? { status: 503, statusMessage: 'Service Unavailable' }
+            : { body: result(request, '0x10') });
+        const rpc = pool([A, B]);
+
+        expect(await rpc._send(payload(1))).toEqual([{ jsonrpc: '2.0', id: 1, result: '0x10' }]);
+        expect(calls.map(c => c.url)).toEqual([A, B]);
+
+        const [a, b] = rpc.health();
+        expect(a).toMatchObject({ failures: 1, consecutiveFailures: 1, lastError: 'HTTP 503 Service Unavailable' });
+        expect(a.coolingDownUntil).not.toBeNull();
+        expect(b).toMatchObject({ failures: 0, requests: 1 });
+
+        // The healthy endpoint is preferred from now on
+        expect(rpc.rankedEndpoints().map(e => e.url)).toEqual([B, A]);
+    });
+
+    it('should return JSON-RPC errors without retrying them', async () => {
+        const calls = stubRpc((_url, request) => ({
+            body: { jsonrpc: '2.0', id: (request as Payload).id, error: { code: 3, message: 'execution reverted' } },
+        }));
+        const rpc = pool([A, B]);
+
+        expect(await rpc._send(payload(1, 'eth_call'))).toEqual([
+            { jsonrpc: '2.0', id: 1, error: { code: 3, message: 'execution reverted' } },
+        ]);
+        expect(calls).toHaveLength(1);
+        expect(rpc.health()[0].failures).toBe(0);
+    });
+
+    it('should honour Retry-After on rate-limited endpoints', async () => {
+        const calls = stubRpc((url, request) => url === A
+            ? { status: 429, statusMessage: 'Too Many Requests', headers: { 'retry-after': '30' } }
+            : { body: result(request, '0x1') });
+        const rpc = pool([A, B]);
+
+        const before = Date.now();
+        await rpc._send(payload(1));
+
+        const cooldown = Date.parse(rpc.health()[0].coolingDownUntil!) - before;
+        expect(cooldown).toBeGreaterThanOrEqual(29000);
+        expect(cooldown).toBeLessThanOrEqual(31000);
+        expect(calls.map(c => c.url)).toEqual([A, B]);
+    });
+
+    it('should treat rate-limit JSON-RPC errors as endpoint failures', async () => {
+        stubRpc((url, request) => url === A
+            ? { body: { jsonrpc: '2.0', id: (request as Payload).id, error: { code: -32005, message: 'limit exceeded' } } }
+            : { body: result(request, '0x2') });
+        const rpc = pool([A, B]);
+
+        expect(await rpc._send(payload(1))).toEqual([{ jsonrpc: '2.0', id: 1, result: '0x2' }]);
+        expect(rpc.health()[0]).toMatchObject({ failures: 1, lastError: 'Rate limited' });
+    });
+
+    it('should send batches one by one to endpoints that reject them', async () => {
+        const calls = stubRpc((_url, request) => Array.isArray(request)
+            ? { status: 400, body: { error: 'batch not supported' } }
+            : { body: result(request, `0x${request.id}`) });
+        const rpc = pool([A]);
+
+        expect(await rpc._send([payload(1), payload(2)])).toEqual([
+            { jsonrpc: '2.0', id: 1, result: '0x1' },
+            { jsonrpc: '2.0', id: 2, result: '0x2' },
+        ]);
+        expect(calls.map(c => Array.isArray(c.request))).toEqual([true, false, false]);
+
+        // Batch support is remembered per endpoint
+        await rpc._send([payload(3), payload(4)]);
+        expect(calls.slice(3).map(c => Array.isArray(c.request))).toEqual([false, false]);
+    });
+
+    it('should give up once every attempt has failed', async () => {
+        const calls = stubRpc(() => ({ status: 502 }));
+        const rpc = pool([A, B], { maxAttempts: 2 });
+
+        const error = await rpc._send(payload(1)).catch(e => e);
+        expect(error).toBeInstanceOf(RpcPoolError);
+        expect(error).toMatchObject({ code: 'ALL_ENDPOINTS_FAILED' });
+        expect(error.errors).toHaveLength(2);
+        expect(calls.map(c => c.url)).toEqual([A, B]);
+    });
+
+    it('should only answer quorum reads that enough endpoints agree on', async () => {
+        const balances: Record<string, string> = { [A]: '0x64', [B]: '0x63', [C]: '0x64' };
+        const calls = stubRpc((url, request) => ({ body: result(request, balances[url]) }));
+        const rpc = pool([A, B, C]);
+        const read = payload(1, 'eth_getBalance', ['0x1111111111111111111111111111111111111111', 'latest']);
+
+        // A and B disagree, so C is asked as well
+        expect(await rpc.quorum()._send(read)).toEqual([{ jsonrpc: '2.0', id: 1, result: '0x64' }]);
+        expect(calls.map(c => c.url).sort()).toEqual([A, B, C]);
+
+        balances[C] = '0x65';
+        const error = await rpc.quorum()._send(read).catch(e => e);
+        expect(error).toBeInstanceOf(RpcPoolError);
+        expect(error).toMatchObject({ code: 'QUORUM_NOT_REACHED' });
+    });
+
+    it('should send other quorum provider methods through the pool', async () => {
+        const calls = stubRpc((_url, request) => ({ body: result(request, '0x5') }));
+        const rpc = pool([A, B, C]);
+
+        expect(await rpc.quorum()._send(payload(1))).toEqual([{ jsonrpc: '2.0', id: 1, result: '0x5' }]);
+        expect(calls).toHaveLength(1);
+    });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    SessionLedger,
+    SessionLedgerError,
+    InMemorySessionLedgerBackend,
+    toBaseUnits,
+    fromBaseUnits,
+    type SessionLedgerState
+} from '@/services/session/session-ledger';
+
+/**
+ * Backend that yields between every read and write so concurrent
+ * ledger operations interleave the way they would against Postgres.
+ */
+class SlowBackend extends InMemorySessionLedgerBackend {
+    private async jitter() {
+        await new Promise(resolve => setTimeout(resolve, Math.random() * 3));
+    }
+
+    async load(sessionId: string) {
+        await this.jitter();
+        return super.load(sessionId);
+    }
+
+    async compareAndSwap(expectedVersion: number, next: SessionLedgerState) {
+        await this.jitter();
+        return super.compareAndSwap(expectedVersion, next);
+    }
+}
+
+describe('Session Ledger', () => {
+    let backend: SlowBackend;
+    let ledger: SessionLedger;
+
+    beforeEach(() => {
+        backend = new SlowBackend();
+        backend.setSession({
+            sessionId: 'session_1',
+            maxSpend: toBaseUnits('1.00'),
+            spent: 0n,
+            reserved: 0n,
+            paymentCount: 0,
+            isActive: true,
+            expiresAt: Date.now() + 60 * 60 * 1000,
+        });
+        ledger = new SessionLedger(backend);
+    });
+
+    it('should convert between decimals and base units without drift', () => {
+        expect(toBaseUnits('0.1') + toBaseUnits('0.2')).toBe(toBaseUnits('0.3'));
+        expect(fromBaseUnits(1_250_000n)).toBe('1.25');
+    });
+
+    it('should never double-spend under concurrent debits', async () => {
+        // Budget covers exactly 10 calls at 0.10 USDC
+        const price = toBaseUnits('0.10');
+        const results = await Promise.allSettled(
+            Array.from({ length: 30 }, () => ledger.debit('session_1', price))
+        );
+
+        const succeeded = results.filter(r => r.status === 'fulfilled');
+        const rejected = results.filter(r => r.status === 'rejected') as PromiseRejectedResult[];
+
+        expect(succeeded).toHaveLength(10);
+        for (const failure of rejected) {
+            expect(failure.reason).toBeInstanceOf(SessionLedgerError);
+            expect(failure.reason.code).toBe('INSUFFICIENT_BUDGET');
+        }
+
+        const balance = await ledger.getBalance('session_1');
+        expect(balance.spent).toBe(toBaseUnits('1.00'));
+        expect(balance.reserved).toBe(0n);
+        expect(balance.available).toBe(0n);
+    });
+
+    it('should hold reserved funds until commit or release', async () => {
+        const reservation = await ledger.reserve('session_1', toBaseUnits('0.60'));
+
+        await expect(ledger.reserve('session_1', toBaseUnits('0.50'))).rejects.toMatchObject({
+            code: 'INSUFFICIENT_BUDGET'
+        });
+
+        await ledger.commit(reservation.reservationId, toBaseUnits('0.25'));
+        const balance = await ledger.getBalance('session_1');
+        expect(balance.spent).toBe(toBaseUnits('0.25'));
+        expect(balance.available).toBe(toBaseUnits('0.75'));
+
+        await expect(ledger.release(reservation.reservationId)).rejects.toMatchObject({
+            code: 'RESERVATION_SETTLED'
+        });
+    });
+
+    it('should settle a reservation only once under concurrent commits', async () => {
+        const reservation = await ledger.reserve('session_1', toBaseUnits('0.40'));
+
+        const results = await Promise.allSettled([
+            ledger.commit(reservation.reservationId),
+            ledger.commit(reservation.reservationId),
+            ledger.release(reservation.reservationId),
+        ]);
+
+        expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+        const balance = await ledger.getBalance('session_1');
+        expect(balance.reserved).toBe(0n);
+        expect(balance.spent + balance.available).toBe(toBaseUnits('1.00'));
+    });
+
+    it('should keep the hold pending when the balance update keeps conflicting', async () => {
+        const reservation = await ledger.reserve('session_1', toBaseUnits('0.40'));
+        const compareAndSwap = backend.compareAndSwap;
+        backend.compareAndSwap = async () => false;
+
+        await expect(ledger.commit(reservation.reservationId)).rejects.toMatchObject({ code: 'CONFLICT' });
+        expect(await backend.getReservation(reservation.reservationId)).toMatchObject({
+            status: 'pending',
+            capturedAmount: null,
+        });
+
+        // Once the contention clears the hold can still be released
+        backend.compareAndSwap = compareAndSwap;
+        await ledger.release(reservation.reservationId);
+        const balance = await ledger.getBalance('session_1');
+        expect(balance.reserved).toBe(0n);
+        expect(balance.available).toBe(toBaseUnits('1.00'));
+    });
+
+    it('should record the reservation before holding the budget', async () => {
+        const insertReservation = backend.insertReservation.bind(backend);
+        const heldAtInsert: bigint[] = [];
+        backend.insertReservation = async (reservation) => {
+            heldAtInsert.push((await ledger.getBalance('session_1')).reserved);
+            return insertReservation(reservation);
+        };
+
+        await ledger.reserve('session_1', toBaseUnits('0.40'));
+        expect(heldAtInsert).toEqual([0n]);
+
+        // A failed insert never touches the balance
+        backend.insertReservation = async () => {
+            throw new Error('connection reset');
+        };
+        await expect(ledger.reserve('session_1', toBaseUnits('0.10'))).rejects.toThrow('connection reset');
+        expect((await ledger.getBalance('session_1')).reserved).toBe(toBaseUnits('0.40'));
+    });
+
+    it('should close the row of a rejected reservation without touching the balance', async () => {
+        await expect(ledger.reserve('session_1', toBaseUnits('1.50'))).rejects.toMatchObject({
+            code: 'INSUFFICIENT_BUDGET'
+        });
+
+        expect(await backend.listExpiredReservations(Date.now() + 60 * 60 * 1000)).toEqual([]);
+        expect(await ledger.releaseExpired(Date.now() + 60 * 60 * 1000)).toBe(0);
+        expect((await ledger.getBalance('session_1')).reserved).toBe(0n);
+    });
+
+    it('should retry the commit of a settled payment, then flag it for reconciliation', async () => {
+        const reservation = await ledger.reserve('session_1', toBaseUnits('0.40'), { ttlMs: -1 });
+        const compareAndSwap = backend.compareAndSwap;
+        let attempts = 0;
+        backend.compareAndSwap = async (expectedVersion, next) => {
+            // The first commit attempt conflicts until it gives up
+            if (++attempts <= 20) return false;
+            return compareAndSwap.call(backend, expectedVersion, next);
+        };
+
+        await ledger.commitSettled(reservation.reservationId);
+        expect(await ledger.getBalance('session_1')).toMatchObject({ spent: toBaseUnits('0.40'), reserved: 0n });
+
+        const stuck = await ledger.reserve('session_1', toBaseUnits('0.20'), { ttlMs: -1 });
+        backend.compareAndSwap = async () => false;
+        await expect(ledger.commitSettled(stuck.reservationId)).rejects.toMatchObject({ code: 'CONFLICT' });
+        expect(await backend.getReservation(stuck.reservationId)).toMatchObject({ status: 'reconciling' });
+
+        backend.compareAndSwap = compareAndSwap;
+        expect(await ledger.releaseExpired()).toBe(0);
+        expect((await ledger.getBalance('session_1')).reserved).toBe(toBaseUnits('0.20'));
+    }, 20000);
+
+    it('should book chain-confirmed spends on an inactive, over-budget session', async () => {
+        backend.setSession({
+            sessionId: 'session_2',
+            maxSpend: toBaseUnits('0.10'),
+            spent: toBaseUnits('0.10'),
+            reserved: 0n,
+            paymentCount: 1,
+            isActive: false,
+            expiresAt: Date.now() - 1000,
+        });
+
+        const entry = await ledger.recordSettled('session_2', toBaseUnits('0.05'), { txHash: '0xabc' });
+
+        expect(entry).toMatchObject({ status: 'committed', capturedAmount: toBaseUnits('0.05') });
+        expect(await ledger.getBalance('session_2')).toMatchObject({ spent: toBaseUnits('0.15'), reserved: 0n });
+        expect(await backend.getReservation(entry.reservationId)).toMatchObject({
+            status: 'committed',
+            metadata: { txHash: '0xabc', reconciliation: true },
+        });
+    });
+});
@@ -0,0 +1,262 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+    evaluateSpendingPolicy,
+    validateSpendingPolicy,
+    SpendingPolicyError,
+    SpendingPolicyService,
+    type PolicySpend,
+    type SpendingPolicyDenial
+} from '@/services/session/spending-policy';
+import {
+    SessionLedger,
+    InMemorySessionLedgerBackend,
+    toBaseUnits,
+    type SessionReservation
+} from '@/services/session/session-ledger';
+
+const AGENT = '0x1111111111111111111111111111111111111111';
+const OTHER_AGENT = '0x2222222222222222222222222222222222222222';
+const HOUR_MS = 60 * 60 * 1000;
+
+type Row = Record<string, unknown>;
+
+/**
+ * Just enough of the Supabase query builder for select/update chains with
+ * eq / neq / in / limit filters over in-memory tables
+ */
+function fakeSupabase(tables: Record<string, Row[]>): SupabaseClient {
+    return {
+        from(table: string) {
+            const rows = tables[table];
+            const filters: Array<(row: Row) => boolean> = [];
+            let changes: Row | null = null;
+            let limit = Infinity;
+
+            const query = {
+                select: () => query,
+                update(values: Row) {
+                    changes = values;
+                    return query;
+                },
+                eq(column: string, value: unknown) {
+                    filters.push(row => row[column] === value);
+                    return query;
+                },
+                neq(column: string, value: unknown) {
+                    filters.push(row => row[column] !== value);
+                    return query;
+                },
+                in(column: string, values: unknown[]) {
+                    filters.push(row => values.includes(row[column]));
+                    return query;
+                },
+                limit(count: number) {
+                    limit = count;
+                    return query;
+                },
+                then(resolve: (result: { data: Row[]; error: null }) => void) {
+                    const matched = rows.filter(row => filters.every(f => f(row))).slice(0, limit);
+                    if (changes) matched.forEach(row => Object.assign(row, changes));
+                    resolve({ data: matched, error: null });
+                },
+            };
+            return query;
+        },
+    } as unknown as SupabaseClient;
+}
+
+function spend(amount: string, overrides: Partial<PolicySpend> = {}): PolicySpend {
+    return { amount: toBaseUnits(amount), agentAddress: AGENT, createdAt: Date.now(), ...overrides };
+}
+
+describe('Session Spending Policy', () => {
+    it('should allow spends within every limit', () => {
+        const policy = validateSpendingPolicy({ maxPerCall: '1', dailyLimit: '5', agentCaps: { [AGENT]: '3' } });
+
+        const denial = evaluateSpendingPolicy(policy, { amount: toBaseUnits('1'), agentAddress: AGENT }, [spend('1.5')]);
+
+        expect(denial).toBeNull();
+    });
+
+    it('should deny spends above the per-call maximum', () => {
+        const denial = evaluateSpendingPolicy({ maxPerCall: '0.5' }, { amount: toBaseUnits('0.75') }, []);
+
+        expect(denial).toMatchObject({ code: 'MAX_PER_CALL_EXCEEDED', requested: '0.75', limit: '0.5' });
+    });
+
+    it('should only count the last 24 hours against the daily limit', () => {
+        const policy = { dailyLimit: '2' };
+        const history = [spend('1.5', { createdAt: Date.now() - 25 * HOUR_MS }), spend('1')];
+
+        expect(evaluateSpendingPolicy(policy, { amount: toBaseUnits('1') }, history)).toBeNull();
+        expect(evaluateSpendingPolicy(policy, { amount: toBaseUnits('1.01') }, history)).toMatchObject({
+            code: 'DAILY_LIMIT_EXCEEDED',
+            spent: '1.0',
+        });
+    });
+
+    it('should cap each agent and service separately', () => {
+        const policy = validateSpendingPolicy({
+            agentCaps: { [AGENT]: '1' },
+            serviceCaps: { 'svc-1': '2' },
+        });
+        const history = [spend('0.8'), spend('1.5', { agentAddress: OTHER_AGENT, serviceId: 'svc-1' })];
+
+        expect(evaluateSpendingPolicy(policy, { amount: toBaseUnits('0.3'), agentAddress: AGENT }, history))
+            .toMatchObject({ code: 'AGENT_CAP_EXCEEDED', agentAddress: AGENT });
+        expect(evaluateSpendingPolicy(policy, { amount: toBaseUnits('0.6'), agentAddress: OTHER_AGENT, serviceId: 'svc-1' }, history))
+            .toMatchObject({ code: 'SERVICE_CAP_EXCEEDED', serviceId: 'svc-1', spent: '1.5' });
+    });
+
+    it('should deny categories outside the allowlist', () => {
+        const policy = validateSpendingPolicy({ allowedCategories: ['Data'] });
+
+        expect(evaluateSpendingPolicy(policy, { amount: 1n, category: 'data' }, [])).toBeNull();
+        expect(evaluateSpendingPolicy(policy, { amount: 1n, category: 'trading' }, []))
+            .toMatchObject({ code: 'CATEGORY_NOT_ALLOWED' });
+        expect(evaluateSpendingPolicy(policy, { amount: 1n }, []))
+            .toMatchObject({ code: 'CATEGORY_NOT_ALLOWED' });
+    });
+
+    it('should require approval above the threshold only after the other checks pass', () => {
+        const policy = { maxPerCall: '10', approvalThreshold: '2' };
+
+        expect(evaluateSpendingPolicy(policy, { amount: toBaseUnits('3') }, []))
+            .toMatchObject({ code: 'APPROVAL_REQUIRED', limit: '2.0' });
+        expect(evaluateSpendingPolicy(policy, { amount: toBaseUnits('3') }, [], { approved: true })).toBeNull();
+        expect(evaluateSpendingPolicy(policy, { amount: toBaseUnits('11') }, [], { approved: true }))
+            .toMatchObject({ code: 'MAX_PER_CALL_EXCEEDED' });
+    });
+
+    it('should reject malformed policies', () => {
+        expect(() => validateSpendingPolicy({ maxPerCall: 'lots' })).toThrow(SpendingPolicyError);
+        expect(() => validateSpendingPolicy({ maxPerCall: '-1' })).toThrow(SpendingPolicyError);
+        expect(() => validateSpendingPolicy({ agentCaps: { notAnAddress: '1' } })).toThrow(SpendingPolicyError);
+        expect(() => validateSpendingPolicy({ weeklyLimit: '1' })).toThrow(/Unknown spending policy field/);
+        expect(validateSpendingPolicy({ maxPerCall: 0.25 })).toEqual({ maxPerCall: '0.25' });
+    });
+});
+
+describe('Session Ledger spending guard', () => {
+    let backend: InMemorySessionLedgerBackend;
+    let ledger: SessionLedger;
+    let held: SessionReservation[];
+
+    beforeEach(() => {
+        backend = new InMemorySessionLedgerBackend();
+        backend.setSession({
+            sessionId: 'session_1',
+            maxSpend: toBaseUnits('10'),
+            spent: 0n,
+            reserved: 0n,
+            paymentCount: 0,
+            isActive: true,
+            expiresAt: Date.now() + HOUR_MS,
+        });
+        held = [];
+
+        // Daily limit of 1 USDC over every reservation still holding or spent
+        ledger = new SessionLedger(backend, async (reservation) => {
+            held.push(reservation);
+            const history = held
+                .filter(r => r.reservationId !== reservation.reservationId)
+                .map(r => ({ amount: r.amount, createdAt: r.createdAt }));
+            const denial = evaluateSpendingPolicy({ dailyLimit: '1' }, { amount: reservation.amount }, history);
+            if (denial) {
+                held = held.filter(r => r.reservationId !== reservation.reservationId);
+                throw new SpendingPolicyError('DENIED', denial.reason, denial);
+            }
+        });
+    });
+
+    it('should release the hold when the guard denies a reservation', async () => {
+        await ledger.reserve('session_1', toBaseUnits('0.75'));
+
+        const error = await ledger.reserve('session_1', toBaseUnits('0.5')).catch(e => e);
+
+        expect(error).toBeInstanceOf(SpendingPolicyError);
+        expect((error.denial as SpendingPolicyDenial).code).toBe('DAILY_LIMIT_EXCEEDED');
+
+        const balance = await ledger.getBalance('session_1');
+        expect(balance.reserved).toBe(toBaseUnits('0.75'));
+    });
+
+    it('should store spend details on the reservation', async () => {
+        const reservation = await ledger.reserve('session_1', toBaseUnits('0.1'), {
+            spend: { agentAddress: AGENT, serviceId: 'svc-1', category: 'data' },
+        });
+
+        const stored = await backend.getReservation(reservation.reservationId);
+        expect(stored?.spend).toEqual({ agentAddress: AGENT, serviceId: 'svc-1', category: 'data' });
+    });
+
+    it('should run the release hook for released and swept reservations only', async () => {
+        const released: string[] = [];
+        const hooked = new SessionLedger(backend, undefined, async (reservation) => {
+            released.push(reservation.reservationId);
+        });
+
+        const failed = await hooked.reserve('session_1', toBaseUnits('0.1'));
+        await hooked.release(failed.reservationId);
+
+        const abandoned = await hooked.reserve('session_1', toBaseUnits('0.1'), { ttlMs: 1 });
+        expect(await hooked.releaseExpired(Date.now() + 1000)).toBe(1);
+
+        const paid = await hooked.reserve('session_1', toBaseUnits('0.1'));
+        await hooked.commit(paid.reservationId);
+
+        expect(released).toEqual([failed.reservationId, abandoned.reservationId]);
+    });
+
+    it('should keep the release when the release hook fails', async () => {
+        const hooked = new SessionLedger(backend, undefined, async () => {
+            throw new Error('approvals unavailable');
+        });
+
+        const reservation = await hooked.reserve('session_1', toBaseUnits('0.1'));
+
+        expect(await hooked.release(reservation.reservationId)).toMatchObject({ status: 'released' });
+        expect((await hooked.getBalance('session_1')).reserved).toBe(0n);
+    });
+});
+
+describe('Spending approvals', () => {
+    let approvals: Row[];
+    let reservations: Row[];
+    let policies: SpendingPolicyService;
+
+    const reservation = (reservationId: string): SessionReservation => ({
+        reservationId,
+        sessionId: 'session_1',
+        amount: toBaseUnits('5'),
+        capturedAmount: null,
+        status: 'released',
+        createdAt: Date.now(),
+        expiresAt: Date.now() + HOUR_MS,
+        spend: { agentAddress: AGENT, approvalId: 'apr_1' },
+    });
+
+    beforeEach(() => {
+        approvals = [{ approval_id: 'apr_1', session_id: 'session_1', status: 'used', used_at: new Date().toISOString() }];
+        reservations = [{ reservation_id: 'res_1', approval_id: 'apr_1', status: 'released' }];
+        policies = new SpendingPolicyService(fakeSupabase({
+            session_spend_approvals: approvals,
+            session_reservations: reservations,
+        }));
+    });
+
+    it('should give back the approval of a released reservation', async () => {
+        await policies.releaseReservation(reservation('res_1'));
+
+        expect(approvals[0]).toMatchObject({ status: 'approved', used_at: null });
+    });
+
+    it('should keep an approval that another reservation used up', async () => {
+        reservations.push({ reservation_id: 'res_2', approval_id: 'apr_1', status: 'committed' });
+
+        await policies.releaseReservation(reservation('res_1'));
+
+        expect(approvals[0]).toMatchObject({ status: 'used' });
+    });
+});
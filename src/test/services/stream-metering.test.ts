@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { SseParser, formatSseEvent } from '@/sdk/lib/sse';
+import { StreamMeter } from '@/services/x402/route-pricing';
+
+describe('Stream Metering', () => {
+    it('should parse SSE events split across chunks', () => {
+        const parser = new SseParser();
+        const text = formatSseEvent({ event: 'token', data: '{"text":"a"}\nmore', id: '1' }) + 'data: tail\r';
+
+        const events = [...parser.push(text.slice(0, 7)), ...parser.push(text.slice(7, 30)), ...parser.push(text.slice(30))];
+        expect(events).toEqual([{ event: 'token', data: '{"text":"a"}\nmore', id: '1', retry: undefined }]);
+
+        expect(parser.push('\n: comment\n')).toEqual([]);
+        expect(parser.flush()).toEqual([{ event: undefined, data: 'tail', id: undefined, retry: undefined }]);
+    });
+
+    it('should stop a per-token stream once the hold is used up', () => {
+        // 1 base unit per 1k tokens, 3 base units held
+        const meter = new StreamMeter({
+            model: 'per_token',
+            pricePer1kTokensUsdc: '0.000001',
+            tokenSource: { jsonPath: 'usage.total_tokens' },
+            maxPriceUsdc: '1',
+        }, 3n, 0);
+
+        expect(meter.admit('a', ['{"usage":{"total_tokens":1000}}'])).toBe(true);
+        expect(meter.admit('b', ['{"text":"no count"}'])).toBe(true);
+        expect(meter.admit('c', ['{"usage":{"total_tokens":3000}}'])).toBe(true);
+        expect(meter.admit('d', ['{"usage":{"total_tokens":3001}}'])).toBe(false);
+        expect(meter.budgetExhausted).toBe(true);
+
+        expect(meter.usage()).toEqual({ model: 'per_token', units: 3000, unit: 'token', amount: 3n });
+    });
+
+    it('should estimate per-token chunks without a count until one is reported', () => {
+        // 1 base unit per 1k tokens, 2 base units held
+        const meter = new StreamMeter({
+            model: 'per_token',
+            pricePer1kTokensUsdc: '0.000001',
+            tokenSource: { jsonPath: 'usage.total_tokens' },
+            maxPriceUsdc: '1',
+        }, 2n, 0);
+
+        // 4000 bytes without a count are estimated at 1000 tokens
+        expect(meter.admit('x'.repeat(4000), ['{"text":"..."}'])).toBe(true);
+        expect(meter.usage()).toEqual({ model: 'per_token', units: 1000, unit: 'token', amount: 1n });
+
+        // The reported count replaces the estimate
+        expect(meter.admit('y', ['{"usage":{"total_tokens":10}}'])).toBe(true);
+        expect(meter.usage()).toMatchObject({ units: 10, amount: 1n });
+
+        expect(meter.admit('z'.repeat(4000))).toBe(true);
+        expect(meter.admit('z'.repeat(4000))).toBe(false);
+        expect(meter.usage()).toMatchObject({ units: 1010, amount: 2n });
+    });
+
+    it('should charge per-kb streams for forwarded bytes only', () => {
+        // 0.001024 USDC per KB = 1 base unit per byte
+        const meter = new StreamMeter({
+            model: 'per_kb',
+            pricePerKbUsdc: '0.001024',
+            maxPriceUsdc: '1',
+            minPriceUsdc: '0.000002',
+        }, 10n, 0);
+
+        expect(meter.admit('x')).toBe(true);
+        expect(meter.usage().amount).toBe(2n);
+        expect(meter.admit('123456789')).toBe(true);
+        expect(meter.admit('!')).toBe(false);
+        expect(meter.usage()).toEqual({ model: 'per_kb', units: 10, unit: 'byte', amount: 10n });
+    });
+
+    it('should never cut off prepaid streams', () => {
+        const meter = new StreamMeter({ model: 'per_request', priceUsdc: '0.01' }, 10000n, 0);
+
+        expect(meter.admit('x'.repeat(100000))).toBe(true);
+        expect(meter.usage()).toMatchObject({ model: 'per_request', amount: 10000n });
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { scoreVenue, rankVenues, explainVenueSelection, type VenueCandidate } from '@/services/perpai/venue-scoring';
+import { unknownMarketInfo, type PerpMarketInfo } from '@/lib/blockchain/perp-market';
+
+function venue(venueName: string, overrides: Partial<VenueCandidate> = {}): VenueCandidate {
+    return { venueId: venueName.toLowerCase(), venueName, tradingFeeBps: 10, maxLeverage: null, successRate: 0.9, ...overrides };
+}
+
+function market(overrides: Partial<PerpMarketInfo> = {}): PerpMarketInfo {
+    return { ...unknownMarketInfo('BTC-USD', true), ...overrides };
+}
+
+const order = { side: 'long' as const, leverage: 10, sizeUsd: 50_000 };
+
+describe('Venue Scoring', () => {
+    it('should prefer the venue with less impact and cheaper funding for the side', () => {
+        const deep = scoreVenue(venue('Moonlander'), market({ priceImpactBps: 3, fundingRateHourly: 0.00001, availableOpenInterestUsd: 5_000_000 }), order);
+        const thin = scoreVenue(venue('Fulcrom Finance'), market({ priceImpactBps: 30, fundingRateHourly: 0.0001, availableOpenInterestUsd: 200_000 }), order);
+
+        expect(deep.compositeScore).toBeGreaterThan(thin.compositeScore);
+        expect(rankVenues([thin, deep])[0].venueName).toBe('Moonlander');
+        expect(deep.breakdown.funding.detail).toBe('longs pay 0.100 bps/hour');
+    });
+
+    it('should score unreported market data as neutral', () => {
+        const score = scoreVenue(venue('GMX v2'), market(), order);
+
+        expect(score.eligible).toBe(true);
+        expect(score.breakdown.priceImpact).toMatchObject({ score: 50, detail: 'price impact not reported' });
+        expect(score.breakdown.funding.score).toBe(50);
+        expect(score.breakdown.openInterest.score).toBe(50);
+    });
+
+    it('should rule out venues that cannot take the leverage, size or slippage', () => {
+        const leverage = scoreVenue(venue('Moonlander', { maxLeverage: 100 }), market({ maxLeverage: 5 }), order);
+        const size = scoreVenue(venue('GMX v2'), market({ availableOpenInterestUsd: 20_000 }), order);
+        const slippage = scoreVenue(venue('Fulcrom Finance'), market({ priceImpactBps: 80 }), { ...order, maxSlippage: 0.5 });
+
+        expect(leverage).toMatchObject({ eligible: false, ineligibleReason: 'max leverage 5x is below 10x' });
+        expect(size.ineligibleReason).toMatch(/open interest available for longs/);
+        expect(slippage.ineligibleReason).toMatch(/exceeds max slippage 0.5%/);
+    });
+
+    it('should rank eligible venues ahead of higher-scoring ineligible ones', () => {
+        const capped = scoreVenue(venue('Moonlander', { maxLeverage: 5 }), market({ priceImpactBps: 1 }), order);
+        const open = scoreVenue(venue('GMX v2', { successRate: 0.5 }), market({ priceImpactBps: 20 }), order);
+
+        const ranked = rankVenues([capped, open]);
+
+        expect(ranked.map(v => v.venueName)).toEqual(['GMX v2', 'Moonlander']);
+        expect(explainVenueSelection(ranked[0], ranked, order)).toMatch(/^GMX v2 scored .* ruled out Moonlander \(max leverage 5x/);
+    });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RelayAgent, type ExecutionResult, type SelectedService, type TaskArtifact } from '@/sdk/relay-agent';
+import {
+    WORKFLOW_VERSION,
+    evaluateCondition,
+    stepInput,
+    validateWorkflow,
+    workflowLevels,
+    type WorkflowDefinition,
+} from '@/sdk/lib/workflow-dag';
+
+const fanOut: WorkflowDefinition = {
+    version: WORKFLOW_VERSION,
+    steps: [
+        { id: 'cex', serviceId: 'cex-quotes', input: { pair: '$input.pair' } },
+        { id: 'dex', serviceId: 'dex-quotes', input: { pair: '$input.pair' } },
+        { id: 'best', serviceId: 'best-price', dependsOn: ['cex', 'dex'] },
+        {
+            id: 'trade',
+            serviceId: 'perp-exec',
+            dependsOn: ['best'],
+            when: { ref: '$steps.best.spreadBps', op: 'gt', value: 20 },
+            input: { pair: '$input.pair', price: '$steps.best.price' },
+            compensate: { serviceId: 'perp-close', input: { orderId: '$steps.trade.orderId' } },
+        },
+        { id: 'report', serviceId: 'report', dependsOn: ['trade'] },
+    ],
+};
+
+function service(id: string, price = '0.1'): SelectedService {
+    return { id, name: id, endpoint: `https://svc.test/${id}`, price } as SelectedService;
+}
+
+type Execute = RelayAgent['execute'];
+
+/** Agent whose service calls are answered by `respond`, with tasks kept in memory */
+function stubAgent(respond: (serviceId: string, input: unknown, options: Parameters<Execute>[2]) => ExecutionResult) {
+    const agent = new RelayAgent({ wallet: '0x1111111111111111111111111111111111111111', apiKey: 'rc_test' });
+    const calls: Array<{ serviceId: string; input: unknown }> = [];
+    const tasks = new Map<string, TaskArtifact>();
+
+    const lookup = agent as unknown as { getServiceById: (id: string) => Promise<SelectedService | null> };
+    vi.spyOn(lookup, 'getServiceById').mockImplementation(async id => service(id));
+    vi.spyOn(agent, 'execute').mockImplementation(async (svc, input, options) => {
+        const serviceId = (svc as SelectedService).id;
+        calls.push({ serviceId, input });
+        return respond(serviceId, input, options) as never;
+    });
+
+    vi.spyOn(agent, 'createTask').mockImplementation(async params => {
+        const task = {
+            ...params,
+            task_id: `task_${tasks.size + 1}`,
+            agent_id: 'agent',
+            state: 'pending',
+            retries: 0,
+            timestamps: { created: '', updated: '' },
+            outputs: {},
+        } as TaskArtifact;
+        tasks.set(task.task_id, task);
+        return task;
+    });
+    vi.spyOn(agent, 'updateTask').mockImplementation(async (id, updates) => Object.assign(tasks.get(id)!, updates));
+    vi.spyOn(agent, 'settleTask').mockImplementation(async (id, outputs) =>
+        Object.assign(tasks.get(id)!, { state: 'settled', outputs }));
+    vi.spyOn(agent, 'failTask').mockImplementation(async (id, error) =>
+        Object.assign(tasks.get(id)!, { state: 'failed', error }));
+    vi.spyOn(agent, 'getTask').mockImplementation(async id => tasks.get(id) ?? null);
+    vi.spyOn(agent, 'getWorkflowSteps').mockImplementation(async id =>
+        Array.from(tasks.values()).filter(task => task.parent_task_id === id));
+
+    return { agent, calls, tasks };
+}
+
+describe('Workflow DAG', () => {
+    it('should reject cycles, unknown dependencies and undeclared reads', () => {
+        expect(validateWorkflow(fanOut)).toEqual([]);
+        expect(workflowLevels(fanOut)).toEqual([['cex', 'dex'], ['best'], ['trade'], ['report']]);
+
+        expect(validateWorkflow({
+            version: WORKFLOW_VERSION,
+            steps: [
+                { id: 'a', serviceId: 's', dependsOn: ['b'] },
+                { id: 'b', serviceId: 's', dependsOn: ['a'] },
+            ],
+        })[0]).toContain('cycle');
+
+        expect(validateWorkflow({
+            version: WORKFLOW_VERSION,
+            steps: [
+                { id: 'a', serviceId: 's', dependsOn: ['missing'] },
+                { id: 'b', serviceId: 's', input: '$steps.a' },
+            ],
+        })).toEqual([
+            'Step "a" depends on unknown step "missing"',
+            'Step "b" reads "$steps.a" but does not depend on "a"',
+        ]);
+    });
+
+    it('should resolve inputs and conditions against earlier outputs', () => {
+        const scope = { input: { pair: 'BTC/USD' }, steps: { cex: { price: 100 }, dex: { price: 101 } } };
+
+        expect(stepInput(fanOut.steps[0], scope)).toEqual({ pair: 'BTC/USD' });
+        expect(stepInput(fanOut.steps[2], scope)).toEqual({ cex: { price: 100 }, dex: { price: 101 } });
+        expect(evaluateCondition({ ref: '$steps.dex.price', op: 'gte', value: 101 }, scope)).toBe(true);
+        expect(evaluateCondition({ ref: '$steps.cex.volume', op: 'exists' }, scope)).toBe(false);
+    });
+
+    it('should run branches in parallel and skip steps behind a false condition', async () => {
+        const { agent, calls } = stubAgent(id => ({
+            success: true,
+            data: id === 'best-price' ? { price: 100, spreadBps: 5 } : { price: 100 },
+            metrics: { totalMs: 1 },
+        }));
+
+        const result = await agent.executeWorkflow(fanOut, { pair: 'BTC/USD' });
+
+        expect(result.success).toBe(true);
+        expect(calls.map(c => c.serviceId)).toEqual(['cex-quotes', 'dex-quotes', 'best-price']);
+        expect(result.stepResults.filter(r => r.skipped).map(r => r.stepName)).toEqual(['trade', 'report']);
+        expect(result.data).toEqual({ price: 100, spreadBps: 5 });
+    });
+
+    it('should compensate completed steps when a later step fails', async () => {
+        const { agent, calls } = stubAgent(id => id === 'report'
+            ? { success: false, error: { code: 'EXECUTION_FAILED', message: 'down', retryable: false }, metrics: { totalMs: 1 } }
+            : {
+                success: true,
+                data: id === 'perp-exec' ? { orderId: 'o-1' } : { price: 100, spreadBps: 50 },
+                metrics: { totalMs: 1 },
+            });
+
+        const result = await agent.executeWorkflow(fanOut, { pair: 'BTC/USD' });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.code).toBe('EXECUTION_FAILED');
+        expect(calls.at(-1)).toEqual({ serviceId: 'perp-close', input: { orderId: 'o-1' } });
+        expect(result.stepResults.at(-1)?.stepName).toBe('trade (compensate)');
+    });
+
+    it('should stop before a step that would exceed the budget', async () => {
+        const { agent, calls } = stubAgent(() => ({
+            success: true,
+            data: { price: 100, spreadBps: 50 },
+            payment: { id: 'p', txHash: '0x', amount: '100000' },
+            metrics: { totalMs: 1 },
+        }));
+
+        const result = await agent.executeWorkflow({ ...fanOut, budget: { maxSpend: '0.25' } }, { pair: 'BTC/USD' });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.code).toBe('BUDGET_EXCEEDED');
+        expect(calls.map(c => c.serviceId)).toEqual(['cex-quotes', 'dex-quotes']);
+        expect(result.spent).toBe('0.2');
+    });
+
+    it('should cap what each call may pay at the budget left', async () => {
+        const maxPrices: Record<string, string | undefined> = {};
+        const { agent } = stubAgent((id, _input, options) => {
+            maxPrices[id] = options?.maxPrice;
+            return {
+                success: true,
+                data: { price: 100, spreadBps: 5 },
+                payment: { id: `pay-${id}`, txHash: '0x', amount: '100000' },
+                metrics: { totalMs: 1 },
+            };
+        });
+
+        const result = await agent.executeWorkflow({ ...fanOut, budget: { maxSpend: '0.35' } }, { pair: 'BTC/USD' });
+
+        expect(result.success).toBe(true);
+        expect(maxPrices['best-price']).toBe('0.15');
+    });
+
+    it('should resume a run without repeating settled or paid steps', async () => {
+        const chain: WorkflowDefinition = {
+            version: WORKFLOW_VERSION,
+            steps: [
+                { id: 'quote', serviceId: 'quote' },
+                { id: 'trade', serviceId: 'trade', dependsOn: ['quote'] },
+            ],
+        };
+
+        let crash = true;
+        const { agent, calls, tasks } = stubAgent((id, _input, options) => {
+            if (id === 'trade' && crash) {
+                // Paid, then the connection dropped
+                void options?.onPayment?.({ id: 'pay-trade', txHash: '0xabc', amount: '100000' });
+                return { success: false, error: { code: 'EXECUTION_FAILED', message: 'reset', retryable: false }, metrics: { totalMs: 1 } };
+            }
+            return {
+                success: true,
+                data: { from: id, paymentId: options?.paymentId },
+                payment: options?.paymentId ? undefined : { id: `pay-${id}`, txHash: '0x', amount: '100000' },
+                metrics: { totalMs: 1 },
+            };
+        });
+
+        const first = await agent.executeWorkflow(chain, { pair: 'BTC/USD' });
+        expect(first.success).toBe(false);
+        expect(first.runId).toBe('task_1');
+        expect(tasks.get('task_3')?.payment_id).toBe('pay-trade');
+
+        crash = false;
+        const resumed = await agent.resumeWorkflow(first.runId!);
+
+        expect(resumed.success).toBe(true);
+        expect(calls.map(c => c.serviceId)).toEqual(['quote', 'trade', 'trade']);
+        expect(resumed.data).toEqual({ from: 'trade', paymentId: 'pay-trade' });
+        expect(resumed.spent).toBe('0.1');
+        expect(tasks.get('task_1')?.state).toBe('settled');
+        expect(tasks.get('task_3')?.state).toBe('settled');
+    });
+
+    it('should not count steps paid per call as session spend when resuming', async () => {
+        const chain: WorkflowDefinition = {
+            version: WORKFLOW_VERSION,
+            budget: { maxSpend: '1', sessionId: 'session_1' },
+            steps: [
+                { id: 'quote', serviceId: 'quote' },
+                { id: 'trade', serviceId: 'trade', dependsOn: ['quote'] },
+                { id: 'report', serviceId: 'report', dependsOn: ['trade'] },
+            ],
+        };
+
+        let crash = true;
+        const { agent, calls, tasks } = stubAgent(id => id === 'trade' && crash
+            ? { success: false, error: { code: 'EXECUTION_FAILED', message: 'reset', retryable: false }, metrics: { totalMs: 1 } }
+            : { success: true, data: { from: id }, payment: { id: `pay-${id}`, txHash: '0x', amount: '100000' }, metrics: { totalMs: 1 } });
+        // Paid through x402, so the session itself was never charged
+        vi.spyOn(agent, 'getSession').mockResolvedValue({
+            id: 'session_1', owner: '0x', maxSpend: '0.25', spent: '0', isActive: true, expiresAt: '',
+        });
+
+        const first = await agent.executeWorkflow(chain, {});
+        expect(first.success).toBe(false);
+        expect(tasks.get('task_2')?.outputs).toMatchObject({ charged: '0.1', sessionCharged: '0.0' });
+
+        crash = false;
+        const resumed = await agent.resumeWorkflow(first.runId!);
+
+        // Stops where a fresh run would: 0.3 is above the session's 0.25
+        expect(resumed.success).toBe(false);
+        expect(resumed.error?.code).toBe('BUDGET_EXCEEDED');
+        expect(calls.map(c => c.serviceId)).toEqual(['quote', 'trade', 'trade']);
+        expect(resumed.spent).toBe('0.2');
+    });
+
+    it('should add back only what a resumed run paid from its session', async () => {
+        const chain: WorkflowDefinition = {
+            version: WORKFLOW_VERSION,
+            budget: { maxSpend: '1', sessionId: 'session_1' },
+            steps: [
+                { id: 'quote', serviceId: 'quote' },
+                { id: 'fetch', serviceId: 'fetch', dependsOn: ['quote'] },
+                { id: 'trade', serviceId: 'trade', dependsOn: ['fetch'] },
+                { id: 'report', serviceId: 'report', dependsOn: ['trade'] },
+            ],
+        };
+
+        let crash = true;
+        const { agent, calls, tasks } = stubAgent(id => {
+            if (id === 'trade' && crash) {
+                return { success: false, error: { code: 'EXECUTION_FAILED', message: 'reset', retryable: false }, metrics: { totalMs: 1 } };
+            }
+            // Only `fetch` pays its own 402; the session pays for the rest
+            return id === 'fetch'
+                ? { success: true, data: { from: id }, payment: { id: 'pay-fetch', txHash: '0x', amount: '100000' }, metrics: { totalMs: 1 } }
+                : { success: true, data: { from: id }, metrics: { totalMs: 1 } };
+        });
+        // By the time the run resumes, the session has been charged for `quote` alone
+        const session = { id: 'session_1', owner: '0x', maxSpend: '0.3', isActive: true, expiresAt: '' };
+        vi.spyOn(agent, 'getSession')
+            .mockResolvedValueOnce({ ...session, spent: '0' })
+            .mockResolvedValue({ ...session, spent: '0.1' });
+
+        const first = await agent.executeWorkflow(chain, {});
+        expect(first.success).toBe(false);
+        expect(tasks.get('task_2')?.outputs).toMatchObject({ charged: '0.1', sessionCharged: '0.1' });
+        expect(tasks.get('task_3')?.outputs).toMatchObject({ charged: '0.1', sessionCharged: '0.0' });
+
+        crash = false;
+        const resumed = await agent.resumeWorkflow(first.runId!);
+
+        // The session leaves 0.2 plus the 0.1 it paid for `quote`: `trade` fits, `report` does not
+        expect(resumed.success).toBe(false);
+        expect(resumed.error?.code).toBe('BUDGET_EXCEEDED');
+        expect(calls.map(c => c.serviceId)).toEqual(['quote', 'fetch', 'trade', 'trade']);
+        expect(resumed.spent).toBe('0.3');
+        expect(tasks.get('task_4')?.state).toBe('settled');
+    });
+});
@@ -299,6 +299,18 @@ export interface TradeQuoteResponse {
         id: string;
         name: string;
         reputationScore: number;
+        compositeScore?: number;
+    };
+    venueSelection?: {
+        reason: string;
+        candidates: Array<{
+            venueId: string;
+            venueName: string;
+            eligible: boolean;
+            ineligibleReason?: string;
+            compositeScore: number;
+            breakdown: Record<string, { score: number; weight: number; detail: string }>;
+        }>;
     };
     expectedPrice: number;
     expectedSlippage: number;
@@ -308,7 +320,7 @@ export interface TradeQuoteResponse {
     alternativeVenues: Array<{
         name: string;
         score: number;
-        expectedSlippage: number;
+        expectedSlippage: number | null;
     }>;
 }
 
@@ -325,8 +337,16 @@ export interface TradeExecuteRequest {
     maxSlippage?: number;
     stopLoss?: number;
     takeProfit?: number;
+    /** Close when the price retraces this many percent from its best level since entry */
+    trailingStopPct?: number;
     urgency?: 'low' | 'medium' | 'high';
     paymentHeader?: string;
+    /** Set false to keep the whole order on the best venue */
+    split?: boolean;
+    /** What to do when a split order can't be filled in full (default 'unwind') */
+    partialFill?: 'unwind' | 'accept';
+    /** Simulate on the paper venue; defaults to TRADING_MODE=paper */
+    paper?: boolean;
 }
 
 export interface TradeExecuteResponse {
@@ -338,6 +358,19 @@ export interface TradeExecuteResponse {
     actualSlippage: number;
     executionTime: number;
     status: string;
+    /** Split orders: size actually filled across child orders */
+    filledSizeUsd?: number;
+    childOrders?: Array<{
+        tradeId: string | null;
+        venueName: string;
+        sizeUsd: number;
+        entryPrice: number;
+        txHash: string;
+    }>;
+    /** Paper trades: simulated fill, fees charged and paper balance left */
+    paper?: boolean;
+    feesUsd?: number;
+    paperBalanceUsd?: number;
 }
 
 /**
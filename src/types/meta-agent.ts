@@ -80,4 +80,13 @@ export interface DelegationOutcome {
         payment_ms?: number;
         execution_ms?: number;
     };
+    /** Set when the agent's 402 didn't match its listing */
+    paymentCheck?: {
+        violations: Array<{ type: string; message: string }>;
+        /** USDC base units */
+        demandedAmount: string;
+        listedAmount: string | null;
+        /** Re-execute with approvedAmount >= demandedAmount to pay anyway */
+        approvable: boolean;
+    };
 }
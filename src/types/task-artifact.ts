@@ -15,6 +15,9 @@ export interface TaskArtifact {
     payment_id?: string;
     facilitator_tx?: string;
     session_id?: string;
+    /** Workflow run this task is a step of */
+    parent_task_id?: string;
+    step_id?: string;
     retries: number;
     timestamps: {
         created: string;
@@ -39,6 +42,8 @@ export interface CreateTaskInput {
     agent_id: string;
     service_id?: string;
     session_id?: string;
+    parent_task_id?: string;
+    step_id?: string;
     inputs: Record<string, unknown>;
 }
 
@@ -55,6 +60,7 @@ export interface TaskQuery {
     agent_id?: string;
     service_id?: string;
     session_id?: string;
+    parent_task_id?: string;
     state?: TaskState;
     from?: Date;
     to?: Date;
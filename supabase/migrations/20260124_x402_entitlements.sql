@@ -0,0 +1,46 @@
+-- x402 Entitlements Migration
+-- Durable entitlement store shared by every API replica.
+-- Each settled payment grants one entitlement with a usage quota
+-- (max_uses calls and/or an expiry) that is consumed atomically.
+
+CREATE TABLE IF NOT EXISTS x402_entitlements (
+    payment_id TEXT PRIMARY KEY,
+    resource_url TEXT NOT NULL,
+    user_address TEXT NOT NULL,
+    max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+    use_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ,
+    last_used_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    revoke_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_x402_entitlements_user ON x402_entitlements(user_address);
+CREATE INDEX IF NOT EXISTS idx_x402_entitlements_expires ON x402_entitlements(expires_at);
+CREATE INDEX IF NOT EXISTS idx_x402_entitlements_created ON x402_entitlements(created_at);
+
+-- Backend-only table, accessed via service role
+ALTER TABLE x402_entitlements DISABLE ROW LEVEL SECURITY;
+
+-- Consume one use of an entitlement.
+-- Returns the updated row, or no rows if the entitlement is missing,
+-- bound to another resource, revoked, expired or exhausted.
+CREATE OR REPLACE FUNCTION consume_x402_entitlement(
+    p_payment_id TEXT,
+    p_resource_url TEXT
+)
+RETURNS SETOF x402_entitlements AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE x402_entitlements
+    SET use_count = use_count + 1,
+        last_used_at = NOW()
+    WHERE payment_id = p_payment_id
+      AND resource_url = p_resource_url
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > NOW())
+      AND (max_uses IS NULL OR use_count < max_uses)
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
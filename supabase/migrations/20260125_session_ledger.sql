@@ -0,0 +1,50 @@
+-- Session Ledger Migration
+-- Integer-precision, compare-and-swap session budget accounting.
+--
+-- Amounts are USDC base units (6 decimals) stored as integer strings.
+-- ledger_version is bumped on every balance change; writers only
+-- update a row whose version still matches what they read.
+
+-- ============================================
+-- 1. LEDGER COLUMNS ON ESCROW_SESSIONS
+-- ============================================
+
+ALTER TABLE escrow_sessions ADD COLUMN IF NOT EXISTS spent_base_units TEXT;
+ALTER TABLE escrow_sessions ADD COLUMN IF NOT EXISTS reserved_base_units TEXT NOT NULL DEFAULT '0';
+ALTER TABLE escrow_sessions ADD COLUMN IF NOT EXISTS ledger_version BIGINT NOT NULL DEFAULT 0;
+
+-- Backfill spend from the decimal released column
+UPDATE escrow_sessions
+SET spent_base_units = ROUND(COALESCE(NULLIF(released, '')::numeric, 0) * 1000000)::text
+WHERE spent_base_units IS NULL;
+
+ALTER TABLE escrow_sessions
+    ADD CONSTRAINT escrow_sessions_spent_base_units_integer
+    CHECK (spent_base_units IS NULL OR spent_base_units ~ '^[0-9]+$');
+
+ALTER TABLE escrow_sessions
+    ADD CONSTRAINT escrow_sessions_reserved_base_units_integer
+    CHECK (reserved_base_units ~ '^[0-9]+$');
+
+-- ============================================
+-- 2. SESSION_RESERVATIONS TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS session_reservations (
+    reservation_id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES escrow_sessions(session_id),
+    amount TEXT NOT NULL CHECK (amount ~ '^[0-9]+$'),
+    captured_amount TEXT CHECK (captured_amount IS NULL OR captured_amount ~ '^[0-9]+$'),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'committed', 'released')),
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    settled_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_reservations_session ON session_reservations(session_id);
+CREATE INDEX IF NOT EXISTS idx_session_reservations_pending
+    ON session_reservations(expires_at) WHERE status = 'pending';
+
+-- Backend-only table, accessed via service role
+ALTER TABLE session_reservations DISABLE ROW LEVEL SECURITY;
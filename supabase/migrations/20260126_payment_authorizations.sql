@@ -0,0 +1,41 @@
+-- Payment Authorizations Migration
+-- Two-phase (authorize -> capture / void) payments for paid calls.
+--
+-- A session authorization points at a session_reservations hold.
+-- An EIP-3009 authorization keeps the verified, unsettled payment
+-- header until the call outcome decides whether it is submitted.
+
+CREATE TABLE IF NOT EXISTS payment_authorizations (
+    authorization_id TEXT PRIMARY KEY,
+    payment_id TEXT UNIQUE NOT NULL,
+    method TEXT NOT NULL CHECK (method IN ('session', 'eip3009')),
+    status TEXT NOT NULL DEFAULT 'authorized'
+        CHECK (status IN ('authorized', 'capturing', 'captured', 'voided', 'failed')),
+    amount TEXT NOT NULL CHECK (amount ~ '^[0-9]+$'),
+    captured_amount TEXT CHECK (captured_amount IS NULL OR captured_amount ~ '^[0-9]+$'),
+    pay_to TEXT NOT NULL,
+    resource_url TEXT NOT NULL,
+    session_id TEXT,
+    reservation_id TEXT REFERENCES session_reservations(reservation_id),
+    payment_header TEXT,
+    payment_requirements JSONB,
+    capture_handler TEXT,
+    tx_hash TEXT,
+    void_reason TEXT,
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    settled_at TIMESTAMPTZ,
+    CONSTRAINT session_authorization_has_reservation
+        CHECK (method <> 'session' OR reservation_id IS NOT NULL),
+    CONSTRAINT eip3009_authorization_has_header
+        CHECK (method <> 'eip3009' OR payment_header IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_authorizations_session ON payment_authorizations(session_id);
+CREATE INDEX IF NOT EXISTS idx_payment_authorizations_open
+    ON payment_authorizations(expires_at) WHERE status = 'authorized';
+
+-- Backend-only table, accessed via service role
+ALTER TABLE payment_authorizations DISABLE ROW LEVEL SECURITY;
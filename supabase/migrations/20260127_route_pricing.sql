@@ -0,0 +1,67 @@
+-- Route Pricing Migration
+-- Pricing models for proxy routes and per-call usage accounting.
+--
+-- routes.pricing holds the pricing definition (see route-pricing.ts);
+-- NULL means the legacy flat price in price_usdc. Every paid proxy call
+-- is recorded in route_usage with the metered quantity and the amount
+-- actually charged, and route totals are updated in the same statement.
+
+-- ============================================
+-- 1. PRICING ON ROUTES
+-- ============================================
+
+ALTER TABLE routes ADD COLUMN IF NOT EXISTS pricing JSONB;
+
+-- ============================================
+-- 2. ROUTE_USAGE TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS route_usage (
+    id BIGSERIAL PRIMARY KEY,
+    route_id UUID NOT NULL REFERENCES routes(id),
+    payment_id TEXT,
+    session_id TEXT,
+    pricing_model TEXT NOT NULL CHECK (pricing_model IN ('per_request', 'per_kb', 'per_token', 'tiered')),
+    units BIGINT NOT NULL DEFAULT 1,
+    unit TEXT NOT NULL CHECK (unit IN ('request', 'byte', 'token')),
+    -- Charged amount in USDC base units
+    amount TEXT NOT NULL CHECK (amount ~ '^[0-9]+$'),
+    upstream_status INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_route_usage_route ON route_usage(route_id, created_at DESC);
+
+-- Backend-only table, accessed via service role
+ALTER TABLE route_usage DISABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 3. ATOMIC USAGE RECORDING
+-- ============================================
+
+CREATE OR REPLACE FUNCTION record_route_usage(
+    p_route_id UUID,
+    p_payment_id TEXT,
+    p_session_id TEXT,
+    p_pricing_model TEXT,
+    p_units BIGINT,
+    p_unit TEXT,
+    p_amount TEXT,
+    p_upstream_status INTEGER
+)
+RETURNS routes AS $$
+DECLARE
+    updated routes;
+BEGIN
+    INSERT INTO route_usage (route_id, payment_id, session_id, pricing_model, units, unit, amount, upstream_status)
+    VALUES (p_route_id, p_payment_id, p_session_id, p_pricing_model, p_units, p_unit, p_amount, p_upstream_status);
+
+    UPDATE routes
+    SET request_count = COALESCE(request_count, 0) + 1,
+        revenue = COALESCE(revenue, 0) + (p_amount::numeric / 1000000)
+    WHERE id = p_route_id
+    RETURNING * INTO updated;
+
+    RETURN updated;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,120 @@
+-- Indexer Reorg Handling Migration
+-- Block hash checkpoints and rollback support for chain reorganizations.
+--
+-- Block-range indexers store the hash of every block they indexed events
+-- from (plus the end of each range). On each run the newest checkpoints
+-- are compared with the canonical chain; on a mismatch everything above
+-- the last matching block is rolled back and re-indexed.
+
+-- ============================================
+-- 1. INDEXED BLOCK HASHES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS indexer_block_hashes (
+    indexer_name TEXT NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash TEXT NOT NULL,
+    indexed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (indexer_name, block_number)
+);
+
+-- Backend-only table, accessed via service role
+ALTER TABLE indexer_block_hashes DISABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 2. BLOCK HASHES ON INDEXED RECORDS
+-- ============================================
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS block_hash TEXT;
+ALTER TABLE escrow_session_events ADD COLUMN IF NOT EXISTS block_hash TEXT;
+
+-- Sessions created by the escrow indexer (as opposed to the x402 session
+-- service) can be removed when their SessionCreated block is reorged out
+ALTER TABLE escrow_sessions ADD COLUMN IF NOT EXISTS indexed_by TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_session_events_block ON escrow_session_events(block_number);
+CREATE INDEX IF NOT EXISTS idx_on_chain_transactions_block ON on_chain_transactions(block_number);
+
+-- ============================================
+-- 3. ESCROW ROLLBACK
+-- ============================================
+
+-- Undo every escrow event at or above p_from_block, reversing the
+-- aggregates the indexer maintained for them. Runs in one transaction.
+CREATE OR REPLACE FUNCTION rollback_escrow_events(p_from_block BIGINT, p_indexed_by TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    removed INTEGER;
+BEGIN
+    UPDATE escrow_sessions s
+    SET deposited = GREATEST(s.deposited::numeric - d.total, 0)::text,
+        updated_at = NOW()
+    FROM (
+        SELECT session_id, SUM(amount::numeric) AS total
+        FROM escrow_session_events
+        WHERE block_number >= p_from_block AND event_type = 'DEPOSIT'
+        GROUP BY session_id
+    ) d
+    WHERE s.session_id = d.session_id;
+
+    UPDATE escrow_sessions s
+    SET released = GREATEST(s.released::numeric - r.total, 0)::text,
+        updated_at = NOW()
+    FROM (
+        SELECT session_id, SUM(amount::numeric) AS total
+        FROM escrow_session_events
+        WHERE block_number >= p_from_block AND event_type = 'RELEASE'
+        GROUP BY session_id
+    ) r
+    WHERE s.session_id = r.session_id;
+
+    UPDATE agent_earnings e
+    SET total_earned = GREATEST(e.total_earned::numeric - r.total, 0)::text,
+        updated_at = NOW()
+    FROM (
+        SELECT actor_address, SUM(amount::numeric) AS total
+        FROM escrow_session_events
+        WHERE block_number >= p_from_block AND event_type = 'RELEASE'
+        GROUP BY actor_address
+    ) r
+    WHERE e.agent_address = r.actor_address;
+
+    UPDATE escrow_sessions
+    SET is_active = true,
+        closed_at = NULL,
+        closed_tx_hash = NULL,
+        closed_block = NULL,
+        updated_at = NOW()
+    WHERE closed_block >= p_from_block;
+
+    UPDATE escrow_session_agents a
+    SET is_authorized = true,
+        revoked_at = NULL,
+        updated_at = NOW()
+    FROM escrow_session_events ev
+    WHERE ev.block_number >= p_from_block
+      AND ev.event_type = 'REVOKE'
+      AND ev.session_id = a.session_id
+      AND ev.actor_address = a.agent_address;
+
+    DELETE FROM escrow_session_agents WHERE auth_block >= p_from_block;
+
+    DELETE FROM escrow_session_events WHERE block_number >= p_from_block;
+    GET DIAGNOSTICS removed = ROW_COUNT;
+
+    DELETE FROM escrow_session_events
+    WHERE session_id IN (
+        SELECT session_id FROM escrow_sessions
+        WHERE indexed_by = p_indexed_by AND created_block >= p_from_block
+    );
+    DELETE FROM escrow_session_agents
+    WHERE session_id IN (
+        SELECT session_id FROM escrow_sessions
+        WHERE indexed_by = p_indexed_by AND created_block >= p_from_block
+    );
+    DELETE FROM escrow_sessions
+    WHERE indexed_by = p_indexed_by AND created_block >= p_from_block;
+
+    RETURN removed;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,133 @@
+-- Indexer Checkpoints Migration
+-- Idempotent per-event indexing, per-event-type cursors and dead letters.
+--
+-- Every indexed log is identified by (chain_id, tx_hash, log_index) and
+-- written with upsert semantics, so re-processing a block range or
+-- replaying a single event never duplicates rows. Derived aggregates
+-- (session deposited/released/closed, agent earnings) are recomputed from the
+-- event rows instead of being incremented.
+--
+-- Event-type cursors live in indexer_state as '<indexer>:<EventName>'.
+-- Events that keep failing to decode or persist are parked in
+-- indexer_dead_letters until they are replayed or resolved.
+
+-- ============================================
+-- 1. EVENT KEYS
+-- ============================================
+
+ALTER TABLE escrow_session_events ADD COLUMN IF NOT EXISTS chain_id INTEGER;
+ALTER TABLE escrow_session_events ADD COLUMN IF NOT EXISTS log_index INTEGER;
+
+-- A transaction can emit several events of the same type
+ALTER TABLE escrow_session_events DROP CONSTRAINT IF EXISTS escrow_session_events_tx_hash_event_type_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_session_events_log
+    ON escrow_session_events(chain_id, tx_hash, log_index);
+
+-- ============================================
+-- 2. DEAD LETTERS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS indexer_dead_letters (
+    id BIGSERIAL PRIMARY KEY,
+    indexer_name TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    payload JSONB,
+    last_error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    -- retrying: the event-type cursor is held below this event
+    -- dead: retries exhausted, the cursor moved past it
+    status TEXT NOT NULL DEFAULT 'retrying' CHECK (status IN ('retrying', 'dead', 'replayed', 'resolved')),
+    first_failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ,
+    UNIQUE (chain_id, tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letters_status ON indexer_dead_letters(indexer_name, status);
+
+-- Backend-only table, accessed via service role
+ALTER TABLE indexer_dead_letters DISABLE ROW LEVEL SECURITY;
+
+-- Record a failed attempt and return the updated row. The event is marked
+-- dead once p_max_attempts is reached.
+CREATE OR REPLACE FUNCTION record_indexer_failure(
+    p_indexer_name TEXT,
+    p_event_type TEXT,
+    p_chain_id INTEGER,
+    p_tx_hash TEXT,
+    p_log_index INTEGER,
+    p_block_number BIGINT,
+    p_payload JSONB,
+    p_error TEXT,
+    p_max_attempts INTEGER
+)
+RETURNS indexer_dead_letters AS $$
+DECLARE
+    updated indexer_dead_letters;
+BEGIN
+    INSERT INTO indexer_dead_letters (
+        indexer_name, event_type, chain_id, tx_hash, log_index, block_number, payload, last_error, attempts, status
+    )
+    VALUES (
+        p_indexer_name, p_event_type, p_chain_id, p_tx_hash, p_log_index, p_block_number, p_payload, p_error, 1,
+        CASE WHEN p_max_attempts <= 1 THEN 'dead' ELSE 'retrying' END
+    )
+    ON CONFLICT (chain_id, tx_hash, log_index) DO UPDATE
+    SET attempts = indexer_dead_letters.attempts + 1,
+        payload = COALESCE(EXCLUDED.payload, indexer_dead_letters.payload),
+        last_error = EXCLUDED.last_error,
+        last_failed_at = NOW(),
+        resolved_at = NULL,
+        status = CASE
+            WHEN indexer_dead_letters.attempts + 1 >= p_max_attempts THEN 'dead'
+            ELSE 'retrying'
+        END
+    RETURNING * INTO updated;
+
+    RETURN updated;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 3. DERIVED AGGREGATES
+-- ============================================
+
+CREATE OR REPLACE FUNCTION refresh_escrow_session_totals(p_session_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE escrow_sessions s
+    SET deposited = COALESCE((
+            SELECT SUM(amount::numeric) FROM escrow_session_events
+            WHERE session_id = p_session_id AND event_type = 'DEPOSIT'
+        ), 0)::text,
+        released = COALESCE((
+            SELECT SUM(amount::numeric) FROM escrow_session_events
+            WHERE session_id = p_session_id AND event_type = 'RELEASE'
+        ), 0)::text,
+        -- Re-indexing SessionCreated must not reopen a closed session
+        is_active = s.is_active AND NOT EXISTS (
+            SELECT 1 FROM escrow_session_events
+            WHERE session_id = p_session_id AND event_type = 'CLOSE'
+        ),
+        updated_at = NOW()
+    WHERE s.session_id = p_session_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_agent_earnings(p_agent_address TEXT)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO agent_earnings (agent_address, total_earned, updated_at)
+    SELECT p_agent_address, COALESCE(SUM(amount::numeric), 0)::text, NOW()
+    FROM escrow_session_events
+    WHERE actor_address = p_agent_address AND event_type = 'RELEASE'
+    ON CONFLICT (agent_address) DO UPDATE
+    SET total_earned = EXCLUDED.total_earned,
+        updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
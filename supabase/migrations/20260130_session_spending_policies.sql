@@ -0,0 +1,48 @@
+-- Session Spending Policies Migration
+-- Declarative per-session spending rules, enforced on every session spend.
+--
+-- The policy lives on escrow_sessions.spending_policy (amounts are decimal
+-- USDC strings). Spend history for policy checks is read from
+-- session_reservations, which now records who was paid.
+
+-- ============================================
+-- 1. POLICY COLUMN ON ESCROW_SESSIONS
+-- ============================================
+
+ALTER TABLE escrow_sessions ADD COLUMN IF NOT EXISTS spending_policy JSONB;
+
+-- ============================================
+-- 2. SPEND DETAILS ON SESSION_RESERVATIONS
+-- ============================================
+
+ALTER TABLE session_reservations ADD COLUMN IF NOT EXISTS agent_address TEXT;
+ALTER TABLE session_reservations ADD COLUMN IF NOT EXISTS service_id TEXT;
+ALTER TABLE session_reservations ADD COLUMN IF NOT EXISTS category TEXT;
+ALTER TABLE session_reservations ADD COLUMN IF NOT EXISTS approval_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_session_reservations_session_status
+    ON session_reservations(session_id, status);
+
+-- ============================================
+-- 3. SESSION_SPEND_APPROVALS TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS session_spend_approvals (
+    approval_id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES escrow_sessions(session_id),
+    amount TEXT NOT NULL CHECK (amount ~ '^[0-9]+$'),
+    agent_address TEXT,
+    service_id TEXT,
+    category TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'used')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    decided_at TIMESTAMPTZ,
+    used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_spend_approvals_session
+    ON session_spend_approvals(session_id, status);
+
+-- Backend-only table, accessed via service role
+ALTER TABLE session_spend_approvals DISABLE ROW LEVEL SECURITY;
@@ -0,0 +1,113 @@
+-- Escrow Security State Migration
+-- Moves EscrowAgentService security state out of process memory so that
+-- pause, limits, blacklist and replay protection survive restarts and are
+-- shared by every API replica.
+
+-- ============================================
+-- 1. GLOBAL SETTINGS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS escrow_security_settings (
+    id TEXT PRIMARY KEY DEFAULT 'global',
+    paused BOOLEAN NOT NULL DEFAULT FALSE,
+    max_per_call TEXT NOT NULL DEFAULT '1000',
+    rate_limit_per_minute INTEGER NOT NULL DEFAULT 100 CHECK (rate_limit_per_minute > 0),
+    updated_at TIMESTAMPTZ
+);
+
+INSERT INTO escrow_security_settings (id) VALUES ('global') ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- 2. PER-SESSION OVERRIDES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS escrow_session_security (
+    session_id TEXT PRIMARY KEY,
+    paused BOOLEAN NOT NULL DEFAULT FALSE,
+    max_per_call TEXT,
+    rate_limit INTEGER CHECK (rate_limit IS NULL OR rate_limit > 0),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================
+-- 3. AGENT BLACKLIST
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS escrow_agent_blacklist (
+    agent_address TEXT PRIMARY KEY,
+    reason TEXT,
+    created_by TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================
+-- 4. EXECUTION NONCES (REPLAY PROTECTION)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS escrow_execution_nonces (
+    execution_id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    agent_address TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_escrow_execution_nonces_session ON escrow_execution_nonces(session_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_escrow_execution_nonces_expires ON escrow_execution_nonces(expires_at);
+
+-- ============================================
+-- 5. RATE LIMIT WINDOWS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS escrow_rate_limit_hits (
+    id BIGSERIAL PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_escrow_rate_limit_hits_session ON escrow_rate_limit_hits(session_id, created_at);
+
+-- Count one call in a session's sliding window.
+-- Serialized per session with an advisory lock; returns FALSE (and records
+-- nothing) once p_max_calls calls fall inside the window.
+CREATE OR REPLACE FUNCTION escrow_rate_limit_hit(
+    p_session_id TEXT,
+    p_max_calls INTEGER,
+    p_window_ms INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_window_start TIMESTAMPTZ := NOW() - (p_window_ms || ' milliseconds')::INTERVAL;
+    v_count INTEGER;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('escrow_rate_limit:' || p_session_id));
+
+    DELETE FROM escrow_rate_limit_hits
+    WHERE session_id = p_session_id AND created_at < v_window_start;
+
+    SELECT COUNT(*) INTO v_count
+    FROM escrow_rate_limit_hits
+    WHERE session_id = p_session_id;
+
+    IF v_count >= p_max_calls THEN
+        RETURN FALSE;
+    END IF;
+
+    INSERT INTO escrow_rate_limit_hits (session_id) VALUES (p_session_id);
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 6. AUDIT LOG ACTOR
+-- ============================================
+
+ALTER TABLE escrow_audit_log ADD COLUMN IF NOT EXISTS actor TEXT;
+ALTER TABLE escrow_audit_log ADD COLUMN IF NOT EXISTS details JSONB;
+
+-- Backend-only tables, accessed via service role
+ALTER TABLE escrow_security_settings DISABLE ROW LEVEL SECURITY;
+ALTER TABLE escrow_session_security DISABLE ROW LEVEL SECURITY;
+ALTER TABLE escrow_agent_blacklist DISABLE ROW LEVEL SECURITY;
+ALTER TABLE escrow_execution_nonces DISABLE ROW LEVEL SECURITY;
+ALTER TABLE escrow_rate_limit_hits DISABLE ROW LEVEL SECURITY;
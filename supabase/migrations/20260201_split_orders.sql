@@ -0,0 +1,24 @@
+-- Split Order Tracking Migration
+-- Orders routed across several perp venues are stored as a parent trade
+-- (the user-facing order, with blended entry price) plus one child trade
+-- per venue fill.
+
+-- ============================================
+-- 1. PARENT / CHILD LINK
+-- ============================================
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS order_type TEXT NOT NULL DEFAULT 'single'
+    CHECK (order_type IN ('single', 'parent', 'child'));
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS parent_trade_id UUID REFERENCES trades(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_trades_parent ON trades(parent_trade_id) WHERE parent_trade_id IS NOT NULL;
+
+-- ============================================
+-- 2. ORDER LIFECYCLE STATUSES
+-- ============================================
+
+-- pending: parent created, children still executing
+-- failed: children could not fill the order and were unwound
+ALTER TABLE trades DROP CONSTRAINT IF EXISTS trades_status_check;
+ALTER TABLE trades ADD CONSTRAINT trades_status_check
+    CHECK (status IN ('pending', 'open', 'closed', 'liquidated', 'failed'));
@@ -0,0 +1,37 @@
+-- Position Monitor Migration
+-- State for the server-side worker that watches open trades for stop-loss,
+-- take-profit and trailing-stop triggers and for liquidation risk.
+
+-- ============================================
+-- 1. TRAILING STOPS
+-- ============================================
+
+-- Trailing distance in percent of the best price seen since entry
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS trailing_stop_pct NUMERIC
+    CHECK (trailing_stop_pct IS NULL OR (trailing_stop_pct > 0 AND trailing_stop_pct < 100));
+-- Highest price seen for longs, lowest for shorts
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS trailing_peak_price NUMERIC;
+
+-- ============================================
+-- 2. MONITOR STATE
+-- ============================================
+
+-- Last liquidation risk level the user was alerted about
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS liquidation_alert_level TEXT NOT NULL DEFAULT 'safe'
+    CHECK (liquidation_alert_level IN ('safe', 'warning', 'critical'));
+
+-- Rule that fired and the market price when it did, plus the handoff
+-- signing requests when the user has to sign the close
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS close_trigger TEXT
+    CHECK (close_trigger IS NULL OR close_trigger IN ('stop_loss', 'take_profit', 'trailing_stop'));
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS close_trigger_price NUMERIC;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS close_signing_ids TEXT[];
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS close_requested_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_trades_open_monitor ON trades(pair) WHERE status = 'open';
+
+-- ============================================
+-- 3. NOTIFICATION SETTINGS
+-- ============================================
+
+ALTER TABLE bot_notification_settings ADD COLUMN IF NOT EXISTS notify_position_alerts BOOLEAN DEFAULT true;
@@ -0,0 +1,72 @@
+-- Price History Migration
+-- Periodic snapshots of aggregated prices, per symbol and source, and the
+-- OHLCV candles built from them. Candles keep running sums so TWAP and
+-- VWAP over any range can be combined from candles (see ohlcv.ts).
+
+-- ============================================
+-- 1. PRICE SNAPSHOTS
+-- ============================================
+
+-- source is a venue/oracle name, or 'consensus' for the aggregated price
+CREATE TABLE IF NOT EXISTS price_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    symbol TEXT NOT NULL,
+    source TEXT NOT NULL,
+    price NUMERIC NOT NULL CHECK (price > 0),
+    -- Reported pool liquidity (USD); 1 when the source reports none
+    weight NUMERIC NOT NULL DEFAULT 1,
+    confidence NUMERIC,
+    observed_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT unique_price_snapshot UNIQUE (symbol, source, observed_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_snapshots_series ON price_snapshots(symbol, source, observed_at DESC);
+
+-- ============================================
+-- 2. OHLCV CANDLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS price_candles (
+    symbol TEXT NOT NULL,
+    source TEXT NOT NULL,
+    interval TEXT NOT NULL CHECK (interval IN ('1m', '5m', '1h', '1d')),
+    bucket_start TIMESTAMPTZ NOT NULL,
+    open NUMERIC NOT NULL,
+    high NUMERIC NOT NULL,
+    low NUMERIC NOT NULL,
+    close NUMERIC NOT NULL,
+    -- Sum of snapshot weights (liquidity proxy, not traded volume)
+    volume NUMERIC NOT NULL DEFAULT 0,
+    sample_count INTEGER NOT NULL DEFAULT 0,
+    last_at TIMESTAMPTZ NOT NULL,
+    -- Running sums for TWAP (price x ms) and VWAP (price x weight)
+    time_weighted_sum NUMERIC NOT NULL DEFAULT 0,
+    covered_ms BIGINT NOT NULL DEFAULT 0,
+    weighted_price_sum NUMERIC NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    PRIMARY KEY (symbol, source, interval, bucket_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_candles_range ON price_candles(symbol, interval, bucket_start DESC);
+
+-- ============================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE price_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_candles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read price snapshots" ON price_snapshots;
+CREATE POLICY "Public read price snapshots" ON price_snapshots FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Service write price snapshots" ON price_snapshots;
+CREATE POLICY "Service write price snapshots" ON price_snapshots FOR ALL USING (true);
+
+DROP POLICY IF EXISTS "Public read price candles" ON price_candles;
+CREATE POLICY "Public read price candles" ON price_candles FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Service write price candles" ON price_candles;
+CREATE POLICY "Service write price candles" ON price_candles FOR ALL USING (true);
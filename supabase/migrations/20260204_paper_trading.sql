@@ -0,0 +1,39 @@
+-- Paper Trading Migration
+-- Simulated fills recorded alongside real trades, flagged with `paper`, and
+-- the virtual USD account each paper trader's margin comes from.
+
+-- ============================================
+-- 1. PAPER TRADES
+-- ============================================
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS paper BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_trades_paper ON trades(user_address, status) WHERE paper = true;
+
+-- ============================================
+-- 2. PAPER ACCOUNTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS paper_accounts (
+    user_address TEXT PRIMARY KEY,
+    -- Free balance; margin of open paper positions is held outside it
+    balance_usd NUMERIC NOT NULL CHECK (balance_usd >= 0),
+    starting_balance_usd NUMERIC NOT NULL,
+    realized_pnl_usd NUMERIC NOT NULL DEFAULT 0,
+    fees_paid_usd NUMERIC NOT NULL DEFAULT 0,
+    liquidations INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE paper_accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read paper accounts" ON paper_accounts;
+CREATE POLICY "Public read paper accounts" ON paper_accounts FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Service write paper accounts" ON paper_accounts;
+CREATE POLICY "Service write paper accounts" ON paper_accounts FOR ALL USING (true);
@@ -0,0 +1,46 @@
+-- GraphQL Pagination Migration
+-- Keyset (cursor) pagination for the GraphQL list queries: sort columns
+-- must be non-null, and each (sort column, id) pair gets an index.
+
+-- ============================================
+-- 1. NUMERIC PAYMENT AMOUNTS
+-- ============================================
+
+-- amount is stored as a base-unit string; ranges and ordering need a number
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS amount_value NUMERIC
+    GENERATED ALWAYS AS (amount::numeric) STORED;
+
+-- ============================================
+-- 2. NON-NULL SORT COLUMNS
+-- ============================================
+
+UPDATE payments SET block_number = 0 WHERE block_number IS NULL;
+ALTER TABLE payments ALTER COLUMN block_number SET NOT NULL;
+
+UPDATE services SET created_at = NOW() WHERE created_at IS NULL;
+ALTER TABLE services ALTER COLUMN created_at SET NOT NULL;
+
+UPDATE trades SET created_at = NOW() WHERE created_at IS NULL;
+ALTER TABLE trades ALTER COLUMN created_at SET NOT NULL;
+
+UPDATE task_artifacts SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE task_artifacts SET updated_at = created_at WHERE updated_at IS NULL;
+ALTER TABLE task_artifacts ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE task_artifacts ALTER COLUMN updated_at SET NOT NULL;
+
+-- ============================================
+-- 3. KEYSET INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_payments_timestamp_id ON payments(timestamp DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_payments_amount_id ON payments(amount_value DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_payments_block_id ON payments(block_number DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_services_created_id ON services(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_services_name_id ON services(name, id);
+
+CREATE INDEX IF NOT EXISTS idx_trades_created_id ON trades(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_trades_size_id ON trades(size_usd DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_task_artifacts_created_id ON task_artifacts(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_task_artifacts_updated_id ON task_artifacts(updated_at DESC, id DESC);
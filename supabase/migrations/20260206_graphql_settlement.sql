@@ -0,0 +1,34 @@
+-- GraphQL Settlement Migration
+-- Sessions, RWA assets and RWA state machines are paged as GraphQL
+-- connections: sort columns must be non-null, and each (sort column, id)
+-- pair gets an index (see 20260205_graphql_pagination.sql).
+
+-- ============================================
+-- 1. NON-NULL SORT COLUMNS
+-- ============================================
+
+UPDATE rwa_assets SET created_at = NOW() WHERE created_at IS NULL;
+ALTER TABLE rwa_assets ALTER COLUMN created_at SET NOT NULL;
+
+UPDATE rwa_state_machines SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE rwa_state_machines SET updated_at = created_at WHERE updated_at IS NULL;
+ALTER TABLE rwa_state_machines ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE rwa_state_machines ALTER COLUMN updated_at SET NOT NULL;
+
+-- ============================================
+-- 2. KEYSET INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_escrow_sessions_created_id ON escrow_sessions(created_at DESC, session_id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_rwa_assets_created_id ON rwa_assets(created_at DESC, asset_id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_rwa_state_machines_created_id ON rwa_state_machines(created_at DESC, rwa_id DESC);
+CREATE INDEX IF NOT EXISTS idx_rwa_state_machines_updated_id ON rwa_state_machines(updated_at DESC, rwa_id DESC);
+
+-- ============================================
+-- 3. NESTED RELATIONS
+-- ============================================
+
+-- Session payments resolve their outcomes by execution id (x402 payment id)
+CREATE INDEX IF NOT EXISTS idx_session_payments_session_created ON session_payments(session_id, created_at DESC);
@@ -0,0 +1,13 @@
+-- API Key Tiers Migration
+-- A key's tier sets its GraphQL query budget (max depth and complexity,
+-- see src/api/graphql/query-cost.ts). Existing keys start on the free tier.
+
+-- ============================================
+-- 1. API KEY TIER
+-- ============================================
+
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS tier TEXT NOT NULL DEFAULT 'free';
+
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_tier_check;
+ALTER TABLE api_keys ADD CONSTRAINT api_keys_tier_check
+    CHECK (tier IN ('free', 'pro', 'enterprise'));
@@ -0,0 +1,46 @@
+-- Price Drift Incidents Migration
+-- Payers check every 402 challenge against the service's listing before
+-- paying (src/sdk/lib/payment-guard.ts). Challenges that demand more than
+-- the listed price, or pay a different address, asset or network, are
+-- recorded here and count against the provider's reputation.
+
+-- ============================================
+-- 1. INCIDENTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS price_drift_incidents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+    provider_address TEXT,
+    reporter_address TEXT NOT NULL,
+    -- PRICE_ABOVE_LISTING, PAYEE_MISMATCH, ... (PaymentViolationType)
+    violations TEXT[] NOT NULL,
+    -- USDC base units
+    listed_amount TEXT,
+    demanded_amount TEXT NOT NULL,
+    demanded_pay_to TEXT,
+    asset TEXT,
+    network TEXT,
+    resource_url TEXT,
+    -- What the payer did about it
+    action TEXT NOT NULL CHECK (action IN ('refused', 'approved')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_drift_service_created ON price_drift_incidents(service_id, created_at DESC);
+
+ALTER TABLE price_drift_incidents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read price drift incidents" ON price_drift_incidents;
+CREATE POLICY "Public read price drift incidents" ON price_drift_incidents FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Service write price drift incidents" ON price_drift_incidents;
+CREATE POLICY "Service write price drift incidents" ON price_drift_incidents FOR ALL
+USING (is_service_role()) WITH CHECK (is_service_role());
+
+-- ============================================
+-- 2. REPUTATION
+-- ============================================
+
+-- Incidents in the reputation window (see reputation-engine.ts)
+ALTER TABLE reputations ADD COLUMN IF NOT EXISTS price_drift_incidents INTEGER DEFAULT 0;
@@ -0,0 +1,22 @@
+-- Workflow Runs Migration
+-- A workflow run (RelayAgent.executeWorkflow, AgentCoordinator
+-- coordination plans) is a parent task artifact with one child task per
+-- step. Children keep the step's output and payment ID so an interrupted
+-- run can be resumed without paying for settled steps again.
+
+-- ============================================
+-- 1. STEP TASKS
+-- ============================================
+
+ALTER TABLE task_artifacts ADD COLUMN IF NOT EXISTS parent_task_id TEXT REFERENCES task_artifacts(task_id) ON DELETE CASCADE;
+ALTER TABLE task_artifacts ADD COLUMN IF NOT EXISTS step_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_task_artifacts_parent ON task_artifacts(parent_task_id);
+
+-- One task per step of a run
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_artifacts_parent_step
+    ON task_artifacts(parent_task_id, step_id)
+    WHERE parent_task_id IS NOT NULL;
+
+COMMENT ON COLUMN task_artifacts.parent_task_id IS 'Workflow run this step task belongs to';
+COMMENT ON COLUMN task_artifacts.step_id IS 'Step of the workflow run (workflow step id or coordination assignment id)';
@@ -0,0 +1,29 @@
+-- Delivery Receipts Migration
+-- Providers sign an EIP-712 receipt for each delivery covering the payment
+-- ID, request and response hashes, timestamp and latency
+-- (src/sdk/lib/delivery-receipt.ts). Outcomes only count towards payment
+-- status and reputation when a receipt signed by the payee backs them, or
+-- when Relay observed the delivery itself.
+
+-- ============================================
+-- 1. OUTCOME RECEIPTS
+-- ============================================
+
+ALTER TABLE outcomes ADD COLUMN IF NOT EXISTS receipt JSONB;
+-- Address recovered from the receipt signature
+ALTER TABLE outcomes ADD COLUMN IF NOT EXISTS receipt_signer TEXT;
+ALTER TABLE outcomes ADD COLUMN IF NOT EXISTS receipt_verified BOOLEAN NOT NULL DEFAULT false;
+-- Recorded by Relay from its own view of the call (requirePayment)
+ALTER TABLE outcomes ADD COLUMN IF NOT EXISTS observed BOOLEAN NOT NULL DEFAULT false;
+
+-- Outcomes requirePayment recorded before this migration
+UPDATE outcomes SET observed = true
+WHERE observed = false AND evidence->>'source' = 'requirePayment';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+-- Reputation reads only counted outcomes
+CREATE INDEX IF NOT EXISTS idx_outcomes_counted ON outcomes(payment_id)
+WHERE receipt_verified OR observed;
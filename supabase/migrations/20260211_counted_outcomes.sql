@@ -0,0 +1,39 @@
+-- Counted Outcomes Migration
+-- Outcomes Relay recorded from its own view of a call were written straight
+-- into outcomes before 20260210_delivery_receipts.sql and are marked
+-- observed here as well. Each payment then gets at most one counted
+-- outcome, so repeated reports can't inflate payment status or reputation.
+
+-- ============================================
+-- 1. BACKFILL OBSERVED OUTCOMES
+-- ============================================
+
+-- Meta-agent delegations (task artifact + payment tx)
+UPDATE outcomes SET observed = true
+WHERE observed = false AND evidence ? 'taskId' AND evidence ? 'txHash';
+
+-- RWA executions that passed the SLA check
+UPDATE outcomes SET observed = true
+WHERE observed = false AND evidence->>'settlementStatus' = 'success' AND evidence ? 'slaMetrics';
+
+-- RWA state transitions
+UPDATE outcomes SET observed = true
+WHERE observed = false AND evidence ? 'rwaId' AND evidence ? 'toState';
+
+-- ============================================
+-- 2. ONE COUNTED OUTCOME PER PAYMENT
+-- ============================================
+
+-- Keep the earliest counted outcome; later ones stay as evidence only
+WITH ranked AS (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY payment_id ORDER BY created_at, id) AS rank
+    FROM outcomes
+    WHERE receipt_verified OR observed
+)
+UPDATE outcomes SET receipt_verified = false, observed = false
+FROM ranked
+WHERE outcomes.id = ranked.id AND ranked.rank > 1;
+
+DROP INDEX IF EXISTS idx_outcomes_counted;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_outcomes_counted ON outcomes(payment_id)
+WHERE receipt_verified OR observed;
@@ -0,0 +1,20 @@
+-- Entitlement Offers Migration
+-- requirePayment records the entitlement policy (max uses, TTL) of the
+-- route with every 402 challenge. POST /api/pay looks the offer up by
+-- payment ID and grants the entitlement with it, instead of the default
+-- single-use policy.
+
+CREATE TABLE IF NOT EXISTS x402_entitlement_offers (
+    payment_id TEXT PRIMARY KEY,
+    resource_url TEXT NOT NULL,
+    max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+    ttl_ms BIGINT CHECK (ttl_ms IS NULL OR ttl_ms > 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_x402_entitlement_offers_created ON x402_entitlement_offers(created_at);
+
+-- Backend-only table, accessed via service role
+ALTER TABLE x402_entitlement_offers DISABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE x402_entitlement_offers IS 'Entitlement policy each x402 challenge was issued with; granted at settlement';
@@ -0,0 +1,31 @@
+-- Paper Account Adjustments Migration
+-- Paper balances were read, changed in the API and written back, so two
+-- orders placed at once could both spend the same balance. Every change now
+-- goes through adjust_paper_account, a single conditional UPDATE.
+
+-- Add the deltas to the account. Returns the new balance, or NULL when the
+-- account doesn't exist or a debit would take the balance below zero.
+CREATE OR REPLACE FUNCTION adjust_paper_account(
+    p_user_address TEXT,
+    p_balance NUMERIC,
+    p_pnl NUMERIC,
+    p_fees NUMERIC,
+    p_liquidations INTEGER
+)
+RETURNS NUMERIC AS $$
+DECLARE
+    new_balance NUMERIC;
+BEGIN
+    UPDATE paper_accounts
+    SET balance_usd = balance_usd + p_balance,
+        realized_pnl_usd = realized_pnl_usd + p_pnl,
+        fees_paid_usd = fees_paid_usd + p_fees,
+        liquidations = liquidations + p_liquidations,
+        updated_at = NOW()
+    WHERE user_address = p_user_address
+      AND balance_usd + p_balance >= 0
+    RETURNING balance_usd INTO new_balance;
+
+    RETURN new_balance;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,55 @@
+-- Worker Leases Migration
+-- Background workers that must not run on more than one API process at a
+-- time (the position monitor) hold a lease row. The holder renews it on
+-- every run; another process can only take it over once it has expired.
+
+-- ============================================
+-- 1. LEASES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS worker_leases (
+    name TEXT PRIMARY KEY,
+    holder TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE worker_leases IS 'Single-worker leases for background jobs';
+
+-- ============================================
+-- 2. ACQUIRE / RELEASE
+-- ============================================
+
+-- Take or renew the lease. Returns false while another holder's lease is live.
+CREATE OR REPLACE FUNCTION acquire_worker_lease(
+    p_name TEXT,
+    p_holder TEXT,
+    p_ttl_seconds INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    acquired TEXT;
+BEGIN
+    INSERT INTO worker_leases (name, holder, expires_at)
+    VALUES (p_name, p_holder, NOW() + make_interval(secs => p_ttl_seconds))
+    ON CONFLICT (name) DO UPDATE
+    SET holder = EXCLUDED.holder,
+        expires_at = EXCLUDED.expires_at,
+        acquired_at = CASE
+            WHEN worker_leases.holder = EXCLUDED.holder THEN worker_leases.acquired_at
+            ELSE NOW()
+        END
+    WHERE worker_leases.holder = EXCLUDED.holder
+       OR worker_leases.expires_at < NOW()
+    RETURNING holder INTO acquired;
+
+    RETURN acquired IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION release_worker_lease(p_name TEXT, p_holder TEXT)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM worker_leases WHERE name = p_name AND holder = p_holder;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,15 @@
+-- Feedback Event Keys Migration
+-- Indexed feedback events are identified by (chain_id, tx_hash, log_index),
+-- like escrow session events, so re-indexing a range (backfill) upserts
+-- instead of racing a read-then-insert. Rows indexed before this migration
+-- have no key yet; the indexer fills it in when it sees them again.
+
+-- ============================================
+-- 1. EVENT KEY
+-- ============================================
+
+ALTER TABLE feedback_events ADD COLUMN IF NOT EXISTS chain_id INTEGER;
+ALTER TABLE feedback_events ADD COLUMN IF NOT EXISTS log_index INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feedback_events_log
+    ON feedback_events(chain_id, tx_hash, log_index);
@@ -0,0 +1,54 @@
+-- Route Call Claims Migration
+-- Tiered routes are priced by call volume. A paid call claims its call
+-- number (increments routes.request_count under the row lock) before it is
+-- quoted, so concurrent calls can't all be priced from the same count and
+-- the quote, the payment check and the recorded charge agree. Calls that
+-- claimed their number are not counted again when their usage is recorded.
+
+-- ============================================
+-- 1. CLAIM A CALL NUMBER
+-- ============================================
+
+-- Returns the route's request_count including this call, NULL if the
+-- route doesn't exist or is inactive
+CREATE OR REPLACE FUNCTION claim_route_call(p_route_id UUID)
+RETURNS INTEGER AS $$
+    UPDATE routes
+    SET request_count = COALESCE(request_count, 0) + 1
+    WHERE id = p_route_id AND is_active = true
+    RETURNING request_count;
+$$ LANGUAGE sql;
+
+-- ============================================
+-- 2. USAGE RECORDING
+-- ============================================
+
+DROP FUNCTION IF EXISTS record_route_usage(UUID, TEXT, TEXT, TEXT, BIGINT, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION record_route_usage(
+    p_route_id UUID,
+    p_payment_id TEXT,
+    p_session_id TEXT,
+    p_pricing_model TEXT,
+    p_units BIGINT,
+    p_unit TEXT,
+    p_amount TEXT,
+    p_upstream_status INTEGER,
+    p_claimed BOOLEAN DEFAULT FALSE
+)
+RETURNS routes AS $$
+DECLARE
+    updated routes;
+BEGIN
+    INSERT INTO route_usage (route_id, payment_id, session_id, pricing_model, units, unit, amount, upstream_status)
+    VALUES (p_route_id, p_payment_id, p_session_id, p_pricing_model, p_units, p_unit, p_amount, p_upstream_status);
+
+    UPDATE routes
+    SET request_count = COALESCE(request_count, 0) + CASE WHEN p_claimed THEN 0 ELSE 1 END,
+        revenue = COALESCE(revenue, 0) + (p_amount::numeric / 1000000)
+    WHERE id = p_route_id
+    RETURNING * INTO updated;
+
+    RETURN updated;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,17 @@
+-- Reservation Reconciliation Migration
+-- A session hold whose payment already went through (a capture handler
+-- paid the agent) but whose commit failed is flagged 'reconciling'. The
+-- expiry sweep only releases 'pending' holds, so a paid hold never goes
+-- back to the budget; committing it later settles it.
+
+-- ============================================
+-- 1. RESERVATION STATUS
+-- ============================================
+
+ALTER TABLE session_reservations DROP CONSTRAINT IF EXISTS session_reservations_status_check;
+ALTER TABLE session_reservations
+    ADD CONSTRAINT session_reservations_status_check
+    CHECK (status IN ('pending', 'committed', 'released', 'reconciling'));
+
+CREATE INDEX IF NOT EXISTS idx_session_reservations_reconciling
+    ON session_reservations(created_at) WHERE status = 'reconciling';
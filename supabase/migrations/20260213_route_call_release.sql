@@ -0,0 +1,17 @@
+-- Route Call Release Migration
+-- A paid tiered call claims its call number before its payment is checked
+-- (claim_route_call). When the payment is refused the number is given
+-- back, so requests that never paid don't move the route into a cheaper
+-- tier.
+
+-- ============================================
+-- 1. RELEASE A CALL NUMBER
+-- ============================================
+
+CREATE OR REPLACE FUNCTION release_route_call(p_route_id UUID)
+RETURNS INTEGER AS $$
+    UPDATE routes
+    SET request_count = GREATEST(COALESCE(request_count, 0) - 1, 0)
+    WHERE id = p_route_id
+    RETURNING request_count;
+$$ LANGUAGE sql;
@@ -0,0 +1,12 @@
+-- Entitlement Offer Payment Migration
+-- Offers also record the payment their 402 challenge asked for (payee,
+-- asset, amount). POST /api/pay refuses to settle requirements that differ
+-- from the offer, so a client can't pay less (or someone else) and still be
+-- granted the route's entitlement. Offers recorded before this migration
+-- have no payment and can no longer be settled; they expire within a day.
+
+ALTER TABLE x402_entitlement_offers ADD COLUMN IF NOT EXISTS pay_to TEXT;
+ALTER TABLE x402_entitlement_offers ADD COLUMN IF NOT EXISTS asset TEXT;
+ALTER TABLE x402_entitlement_offers ADD COLUMN IF NOT EXISTS max_amount_required TEXT;
+
+COMMENT ON TABLE x402_entitlement_offers IS 'Entitlement policy and payment each x402 challenge was issued with; granted at settlement';
@@ -0,0 +1,152 @@
+-- On-chain Session Totals Migration
+-- The escrow indexer recomputed escrow_sessions.deposited/released from
+-- indexed events, overwriting the session ledger's columns without bumping
+-- ledger_version. A ledger write that loaded the row before the refresh
+-- still landed, and `released` (the ledger's mirror of spent) was replaced
+-- with the on-chain release total.
+--
+-- The indexer now keeps its totals in onchain_deposited/onchain_released.
+-- The columns the ledger reads (deposited, as the budget fallback, and
+-- is_active) only change together with a ledger_version bump, so an
+-- in-flight ledger write fails its compare-and-swap and re-reads. The
+-- indexer never writes `released`.
+
+-- ============================================
+-- 1. ON-CHAIN TOTALS
+-- ============================================
+
+ALTER TABLE escrow_sessions ADD COLUMN IF NOT EXISTS onchain_deposited TEXT NOT NULL DEFAULT '0';
+ALTER TABLE escrow_sessions ADD COLUMN IF NOT EXISTS onchain_released TEXT NOT NULL DEFAULT '0';
+
+UPDATE escrow_sessions s
+SET onchain_deposited = COALESCE((
+        SELECT SUM(amount::numeric) FROM escrow_session_events
+        WHERE session_id = s.session_id AND event_type = 'DEPOSIT'
+    ), 0)::text,
+    onchain_released = COALESCE((
+        SELECT SUM(amount::numeric) FROM escrow_session_events
+        WHERE session_id = s.session_id AND event_type = 'RELEASE'
+    ), 0)::text
+WHERE EXISTS (SELECT 1 FROM escrow_session_events e WHERE e.session_id = s.session_id);
+
+-- ============================================
+-- 2. DERIVED AGGREGATES
+-- ============================================
+
+CREATE OR REPLACE FUNCTION refresh_escrow_session_totals(p_session_id TEXT)
+RETURNS VOID AS $$
+DECLARE
+    v_deposited TEXT;
+    v_released TEXT;
+    v_closed BOOLEAN;
+BEGIN
+    SELECT
+        COALESCE(SUM(amount::numeric) FILTER (WHERE event_type = 'DEPOSIT'), 0)::text,
+        COALESCE(SUM(amount::numeric) FILTER (WHERE event_type = 'RELEASE'), 0)::text,
+        COALESCE(BOOL_OR(event_type = 'CLOSE'), false)
+    INTO v_deposited, v_released, v_closed
+    FROM escrow_session_events
+    WHERE session_id = p_session_id;
+
+    UPDATE escrow_sessions s
+    SET onchain_deposited = v_deposited,
+        onchain_released = v_released,
+        updated_at = NOW()
+    WHERE s.session_id = p_session_id;
+
+    -- Re-indexing SessionCreated must not reopen a closed session
+    UPDATE escrow_sessions s
+    SET deposited = v_deposited,
+        is_active = s.is_active AND NOT v_closed,
+        ledger_version = s.ledger_version + 1
+    WHERE s.session_id = p_session_id
+      AND (s.deposited IS DISTINCT FROM v_deposited OR (s.is_active AND v_closed));
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 3. ESCROW ROLLBACK
+-- ============================================
+
+-- Undo every escrow event at or above p_from_block, reversing the
+-- aggregates the indexer maintained for them. Runs in one transaction.
+CREATE OR REPLACE FUNCTION rollback_escrow_events(p_from_block BIGINT, p_indexed_by TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    removed INTEGER;
+BEGIN
+    UPDATE escrow_sessions s
+    SET onchain_deposited = GREATEST(s.onchain_deposited::numeric - d.total, 0)::text,
+        deposited = GREATEST(s.deposited::numeric - d.total, 0)::text,
+        ledger_version = s.ledger_version + 1,
+        updated_at = NOW()
+    FROM (
+        SELECT session_id, SUM(amount::numeric) AS total
+        FROM escrow_session_events
+        WHERE block_number >= p_from_block AND event_type = 'DEPOSIT'
+        GROUP BY session_id
+    ) d
+    WHERE s.session_id = d.session_id;
+
+    UPDATE escrow_sessions s
+    SET onchain_released = GREATEST(s.onchain_released::numeric - r.total, 0)::text,
+        updated_at = NOW()
+    FROM (
+        SELECT session_id, SUM(amount::numeric) AS total
+        FROM escrow_session_events
+        WHERE block_number >= p_from_block AND event_type = 'RELEASE'
+        GROUP BY session_id
+    ) r
+    WHERE s.session_id = r.session_id;
+
+    UPDATE agent_earnings e
+    SET total_earned = GREATEST(e.total_earned::numeric - r.total, 0)::text,
+        updated_at = NOW()
+    FROM (
+        SELECT actor_address, SUM(amount::numeric) AS total
+        FROM escrow_session_events
+        WHERE block_number >= p_from_block AND event_type = 'RELEASE'
+        GROUP BY actor_address
+    ) r
+    WHERE e.agent_address = r.actor_address;
+
+    UPDATE escrow_sessions
+    SET is_active = true,
+        closed_at = NULL,
+        closed_tx_hash = NULL,
+        closed_block = NULL,
+        ledger_version = ledger_version + 1,
+        updated_at = NOW()
+    WHERE closed_block >= p_from_block;
+
+    UPDATE escrow_session_agents a
+    SET is_authorized = true,
+        revoked_at = NULL,
+        updated_at = NOW()
+    FROM escrow_session_events ev
+    WHERE ev.block_number >= p_from_block
+      AND ev.event_type = 'REVOKE'
+      AND ev.session_id = a.session_id
+      AND ev.actor_address = a.agent_address;
+
+    DELETE FROM escrow_session_agents WHERE auth_block >= p_from_block;
+
+    DELETE FROM escrow_session_events WHERE block_number >= p_from_block;
+    GET DIAGNOSTICS removed = ROW_COUNT;
+
+    DELETE FROM escrow_session_events
+    WHERE session_id IN (
+        SELECT session_id FROM escrow_sessions
+        WHERE indexed_by = p_indexed_by AND created_block >= p_from_block
+    );
+    DELETE FROM escrow_session_agents
+    WHERE session_id IN (
+        SELECT session_id FROM escrow_sessions
+        WHERE indexed_by = p_indexed_by AND created_block >= p_from_block
+    );
+    DELETE FROM escrow_sessions
+    WHERE indexed_by = p_indexed_by AND created_block >= p_from_block;
+
+    RETURN removed;
+END;
+$$ LANGUAGE plpgsql;
@@ -8,6 +8,13 @@ export default defineConfig({
         globals: true,
         environment: 'jsdom',
         setupFiles: ['./src/test/setup.ts'],
+        server: {
+            deps: {
+                // Its ESM build imports graphql's CommonJS entry; inlined, it
+                // shares the ESM graphql instance the tests use
+                inline: ['graphql-query-complexity'],
+            },
+        },
         coverage: {
             provider: 'v8',
             reporter: ['text', 'json', 'html'],